@@ -9,6 +9,7 @@ import type {
   UpdateFieldActionConfig,
   CreateRecordActionConfig,
   SendEmailActionConfig,
+  SendNotificationActionConfig,
   HttpRequestActionConfig,
   ExecuteScriptActionConfig,
   AutomationContext,
@@ -34,6 +35,7 @@ export class ActionExecutor {
   ) => Promise<void>;
   private createRecordHandler?: (objectName: string, fields: Record<string, any>) => Promise<any>;
   private sendEmailHandler?: (config: SendEmailActionConfig) => Promise<void>;
+  private sendNotificationHandler?: (config: SendNotificationActionConfig) => Promise<any>;
 
   constructor(
     options: {
@@ -78,6 +80,15 @@ export class ActionExecutor {
     this.sendEmailHandler = handler;
   }
 
+  /**
+   * Set send notification handler
+   */
+  setSendNotificationHandler(
+    handler: (config: SendNotificationActionConfig) => Promise<any>,
+  ): void {
+    this.sendNotificationHandler = handler;
+  }
+
   /**
    * Execute an action
    */
@@ -100,6 +111,10 @@ export class ActionExecutor {
           result = await this.executeSendEmail(action, context);
           break;
 
+        case 'send_notification':
+          result = await this.executeSendNotification(action, context);
+          break;
+
         case 'http_request':
           result = await this.executeHttpRequest(action, context);
           break;
@@ -188,6 +203,37 @@ export class ActionExecutor {
     context.logger.info(`Email sent to: ${recipients}, subject: ${action.subject}`);
   }
 
+  /**
+   * Execute send notification action
+   */
+  private async executeSendNotification(
+    action: SendNotificationActionConfig,
+    context: AutomationContext,
+  ): Promise<any> {
+    if (!this.sendNotificationHandler) {
+      throw new Error('Send notification handler not configured');
+    }
+
+    const notification: SendNotificationActionConfig = {
+      ...action,
+      recipient: this.interpolateDeep(action.recipient, context),
+      subject: action.subject && this.interpolateValue(action.subject, context),
+      body: action.body && this.interpolateValue(action.body, context),
+      data: action.data ?? context.triggerData,
+      options: action.options && this.interpolateDeep(action.options, context),
+      userId: action.userId && this.interpolateValue(action.userId, context),
+    };
+
+    const result = await this.sendNotificationHandler(notification);
+
+    const recipients = Array.isArray(notification.recipient)
+      ? notification.recipient.join(', ')
+      : notification.recipient;
+    context.logger.info(`Notification (${action.channel}) sent to: ${recipients}`);
+
+    return result;
+  }
+
   /**
    * Execute HTTP request action
    */
@@ -303,6 +349,24 @@ export class ActionExecutor {
     return result;
   }
 
+  /**
+   * Interpolate the strings of a value, at any depth
+   */
+  private interpolateDeep<T>(value: T, context: AutomationContext): T {
+    if (typeof value === 'string') {
+      return this.interpolateValue(value, context) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.interpolateDeep(item, context)) as T;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.interpolateDeep(item, context)]),
+      ) as T;
+    }
+    return value;
+  }
+
   /**
    * Get nested value from object using dot notation
    */
@@ -0,0 +1,837 @@
+/**
+ * Condition Evaluator
+ *
+ * One condition grammar shared by trigger conditions, rollup filters and
+ * workflow flows (`FlowEdge.condition`). Conditions may be written as
+ * strings or as structured `TriggerCondition` objects; both compile to the
+ * same `ConditionNode` tree and run through the same operator table, so an
+ * operator understood in one place is understood everywhere.
+ *
+ * String grammar (keywords are case-insensitive):
+ *   condition := or
+ *   or        := and ( ('OR' | '||') and )*
+ *   and       := not ( ('AND' | '&&') not )*
+ *   not       := ('NOT' | '!') not | '(' condition ')' | predicate
+ *   predicate := operand [ comparator operand
+ *                        | ['NOT'] 'IN' list | 'NOT_IN' list
+ *                        | 'BETWEEN' operand 'AND' operand
+ *                        | 'IS' ['NOT'] 'NULL' | 'IS_NULL' | 'IS_NOT_NULL'
+ *                        | 'CHANGED' [ ('FROM' | 'TO') operand ]
+ *                        | ('CHANGED_FROM' | 'CHANGED_TO') operand ]
+ *   operand   := value ( ('+' | '-') value )*
+ *   value     := ['-'] NUMBER [unit] | STRING | TRUE | FALSE | NULL
+ *              | path | '{' path '}' | '{{' path '}}'
+ *              | '$User' ['.' path] | '$Now' | '$Today'
+ *   list      := ('(' | '[') operand ( ',' operand )* (')' | ']')
+ *
+ * Duration units are `s`, `m` (minutes), `h`, `d` and `w`; a plain number
+ * added to or subtracted from a date counts days.
+ */
+
+import { FormulaError } from './formula-parser.js';
+import { ParseCache } from './parse-cache.js';
+import type { ConditionOperator, TriggerCondition } from './types.js';
+
+/**
+ * Global variables available to conditions
+ */
+export type ConditionGlobal = 'User' | 'Now' | 'Today';
+
+/**
+ * Value expression on either side of a comparison
+ */
+export type ConditionOperand =
+  | { type: 'literal'; value: unknown }
+  | { type: 'duration'; ms: number }
+  | { type: 'field'; path: string[] }
+  | { type: 'global'; name: ConditionGlobal; path: string[] }
+  | { type: 'arithmetic'; operator: '+' | '-'; left: ConditionOperand; right: ConditionOperand }
+  | { type: 'list'; items: ConditionOperand[] };
+
+/**
+ * Compiled condition tree
+ */
+export type ConditionNode =
+  | { type: 'and'; conditions: ConditionNode[] }
+  | { type: 'or'; conditions: ConditionNode[] }
+  | { type: 'not'; condition: ConditionNode }
+  | {
+      type: 'compare';
+      operator: ConditionOperator;
+      left: ConditionOperand;
+      right?: ConditionOperand;
+    }
+  | { type: 'truthy'; operand: ConditionOperand };
+
+/**
+ * Anything that can be evaluated as a condition
+ */
+export type ConditionInput = string | TriggerCondition | TriggerCondition[] | ConditionNode;
+
+/**
+ * Runtime inputs for evaluating a condition
+ */
+export interface ConditionContext {
+  /** Current record values (or flow variables) */
+  record: Record<string, unknown>;
+  /** Previous record values, used by changed / changed_from / changed_to */
+  previous?: Record<string, unknown>;
+  /** Current user, exposed as `$User` */
+  user?: Record<string, unknown>;
+  /** Clock for `$Now` and `$Today`; defaults to the current time */
+  now?: Date;
+}
+
+/**
+ * Every operator understood by the evaluator
+ */
+export const CONDITION_OPERATORS: readonly ConditionOperator[] = [
+  'equals',
+  'not_equals',
+  'greater_than',
+  'greater_or_equal',
+  'less_than',
+  'less_or_equal',
+  'contains',
+  'not_contains',
+  'starts_with',
+  'ends_with',
+  'in',
+  'not_in',
+  'between',
+  'is_null',
+  'is_not_null',
+  'changed',
+  'changed_from',
+  'changed_to',
+];
+
+/** Operators that take no right-hand operand */
+const UNARY_OPERATORS: ConditionOperator[] = ['is_null', 'is_not_null', 'changed'];
+
+/** Operators that compare the current value against the previous record */
+const CHANGE_OPERATORS: ConditionOperator[] = ['changed', 'changed_from', 'changed_to'];
+
+const SYMBOL_OPERATORS: Record<string, ConditionOperator> = {
+  '=': 'equals',
+  '==': 'equals',
+  '!=': 'not_equals',
+  '<>': 'not_equals',
+  '>': 'greater_than',
+  '>=': 'greater_or_equal',
+  '<': 'less_than',
+  '<=': 'less_or_equal',
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const MS_PER_DAY = DURATION_UNITS.d;
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type TokenType =
+  | 'number'
+  | 'duration'
+  | 'string'
+  | 'word'
+  | 'global'
+  | 'symbol'
+  | '('
+  | ')'
+  | '['
+  | ']'
+  | ','
+  | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const SYMBOLS = ['==', '!=', '<>', '>=', '<=', '&&', '||', '=', '>', '<', '!', '+', '-'];
+
+const PATH_PATTERN = /^[A-Za-z_][\w]*(\.[A-Za-z_][\w]*)*$/;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch)) {
+      const start = i;
+      while (i < source.length && /[0-9.]/.test(source[i])) i++;
+      const unit = source[i];
+      if (unit && DURATION_UNITS[unit] && !/\w/.test(source[i + 1] ?? '')) {
+        tokens.push({ type: 'duration', value: source.slice(start, i + 1), position: start });
+        i++;
+      } else {
+        tokens.push({ type: 'number', value: source.slice(start, i), position: start });
+      }
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        value += source[i++];
+      }
+      if (i >= source.length) {
+        throw new FormulaError('syntax', 'Unterminated string literal', source, start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    // {field} and {{field}} references are plain paths
+    if (ch === '{') {
+      const start = i;
+      const open = source.startsWith('{{', i) ? '{{' : '{';
+      const close = open === '{{' ? '}}' : '}';
+      const end = source.indexOf(close, i + open.length);
+      if (end === -1) {
+        throw new FormulaError('syntax', 'Unterminated field reference', source, start);
+      }
+      const path = source.slice(i + open.length, end).trim();
+      if (!PATH_PATTERN.test(path)) {
+        throw new FormulaError('syntax', `Invalid field reference "${path}"`, source, start);
+      }
+      tokens.push({ type: 'word', value: path, position: start });
+      i = end + close.length;
+      continue;
+    }
+
+    if (ch === '$' || /[A-Za-z_]/.test(ch)) {
+      const start = i;
+      i++;
+      while (i < source.length && /[\w.]/.test(source[i])) i++;
+      const value = source.slice(start, i);
+      tokens.push({ type: ch === '$' ? 'global' : 'word', value, position: start });
+      continue;
+    }
+
+    if (ch === '(' || ch === ')' || ch === '[' || ch === ']' || ch === ',') {
+      tokens.push({ type: ch, value: ch, position: i });
+      i++;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find((candidate) => source.startsWith(candidate, i));
+    if (symbol) {
+      tokens.push({ type: 'symbol', value: symbol, position: i });
+      i += symbol.length;
+      continue;
+    }
+
+    throw new FormulaError('syntax', `Unexpected character "${ch}"`, source, i);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+class ConditionParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parseCondition(): ConditionNode {
+    if (this.peek().type === 'eof') {
+      throw this.error('Empty condition', this.peek());
+    }
+    const node = this.parseOr();
+    this.expectEnd();
+    return node;
+  }
+
+  parseOperandOnly(): ConditionOperand {
+    const operand = this.parseOperand();
+    this.expectEnd();
+    return operand;
+  }
+
+  private expectEnd(): void {
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw this.error(`Unexpected token "${next.value}"`, next);
+    }
+  }
+
+  private parseOr(): ConditionNode {
+    const conditions = [this.parseAnd()];
+    while (this.matchSymbol('||') || this.matchWord('or')) {
+      conditions.push(this.parseAnd());
+    }
+    return conditions.length === 1 ? conditions[0] : { type: 'or', conditions };
+  }
+
+  private parseAnd(): ConditionNode {
+    const conditions = [this.parseNot()];
+    while (this.matchSymbol('&&') || this.matchWord('and')) {
+      conditions.push(this.parseNot());
+    }
+    return conditions.length === 1 ? conditions[0] : { type: 'and', conditions };
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.matchSymbol('!') || this.matchWord('not')) {
+      return { type: 'not', condition: this.parseNot() };
+    }
+    if (this.peek().type === '(') {
+      this.advance();
+      const inner = this.parseOr();
+      this.expect(')', 'Expected ")"');
+      return inner;
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): ConditionNode {
+    const left = this.parseOperand();
+    const token = this.peek();
+
+    if (token.type === 'symbol' && SYMBOL_OPERATORS[token.value]) {
+      this.advance();
+      return this.compare(SYMBOL_OPERATORS[token.value], left, this.parseOperand(), token);
+    }
+
+    if (token.type !== 'word') {
+      return { type: 'truthy', operand: left };
+    }
+
+    const word = token.value.toLowerCase();
+    if (word === 'and' || word === 'or') {
+      return { type: 'truthy', operand: left };
+    }
+
+    // Two-word forms: NOT IN, IS [NOT] NULL, CHANGED FROM / TO
+    if (word === 'not' && this.peekWord(1) === 'in') {
+      this.index += 2;
+      return this.compare('not_in', left, this.parseList(), token);
+    }
+    if (word === 'is') {
+      this.advance();
+      const negated = this.matchWord('not');
+      if (!this.matchWord('null')) {
+        throw this.error('Expected NULL after IS', this.peek());
+      }
+      return this.compare(negated ? 'is_not_null' : 'is_null', left, undefined, token);
+    }
+    if (word === 'changed' && (this.peekWord(1) === 'from' || this.peekWord(1) === 'to')) {
+      const direction = this.peekWord(1);
+      this.index += 2;
+      const operator = direction === 'from' ? 'changed_from' : 'changed_to';
+      return this.compare(operator, left, this.parseOperand(), token);
+    }
+
+    const operator = CONDITION_OPERATORS.find((op) => op === word);
+    if (!operator) {
+      throw this.error(`Unknown condition operator "${token.value}"`, token);
+    }
+    this.advance();
+
+    if (UNARY_OPERATORS.includes(operator)) {
+      return this.compare(operator, left, undefined, token);
+    }
+    if (operator === 'in' || operator === 'not_in') {
+      return this.compare(operator, left, this.parseList(), token);
+    }
+    if (operator === 'between') {
+      const low = this.parseOperand();
+      if (!this.matchWord('and')) {
+        throw this.error('Expected AND in BETWEEN', this.peek());
+      }
+      const high = this.parseOperand();
+      return this.compare(operator, left, { type: 'list', items: [low, high] }, token);
+    }
+    return this.compare(operator, left, this.parseOperand(), token);
+  }
+
+  private compare(
+    operator: ConditionOperator,
+    left: ConditionOperand,
+    right: ConditionOperand | undefined,
+    token: Token,
+  ): ConditionNode {
+    if (CHANGE_OPERATORS.includes(operator) && left.type !== 'field') {
+      throw this.error(`Operator "${operator}" requires a field on the left`, token);
+    }
+    return { type: 'compare', operator, left, right };
+  }
+
+  private parseList(): ConditionOperand {
+    const open = this.advance();
+    if (open.type !== '(' && open.type !== '[') {
+      throw this.error('Expected a list', open);
+    }
+    const items: ConditionOperand[] = [];
+    if (this.peek().type !== ')' && this.peek().type !== ']') {
+      do {
+        items.push(this.parseOperand());
+      } while (this.match(','));
+    }
+    this.expect(open.type === '(' ? ')' : ']', 'Expected end of list');
+    return { type: 'list', items };
+  }
+
+  private parseOperand(): ConditionOperand {
+    let left = this.parseValue();
+    while (
+      this.peek().type === 'symbol' &&
+      (this.peek().value === '+' || this.peek().value === '-')
+    ) {
+      const operator = this.advance().value as '+' | '-';
+      left = { type: 'arithmetic', operator, left, right: this.parseValue() };
+    }
+    return left;
+  }
+
+  private parseValue(): ConditionOperand {
+    const token = this.advance();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+
+      case 'duration': {
+        const unit = token.value.slice(-1);
+        return { type: 'duration', ms: Number(token.value.slice(0, -1)) * DURATION_UNITS[unit] };
+      }
+
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'symbol':
+        if (token.value === '-') {
+          const operand = this.parseValue();
+          if (operand.type === 'literal' && typeof operand.value === 'number') {
+            return { type: 'literal', value: -operand.value };
+          }
+          if (operand.type === 'duration') {
+            return { type: 'duration', ms: -operand.ms };
+          }
+          return {
+            type: 'arithmetic',
+            operator: '-',
+            left: { type: 'literal', value: 0 },
+            right: operand,
+          };
+        }
+        break;
+
+      case 'global': {
+        const [name, ...path] = token.value.slice(1).split('.');
+        const global = (['User', 'Now', 'Today'] as ConditionGlobal[]).find(
+          (candidate) => candidate.toLowerCase() === name.toLowerCase(),
+        );
+        if (!global) {
+          throw this.error(`Unknown global "$${name}"`, token);
+        }
+        return { type: 'global', name: global, path };
+      }
+
+      case 'word': {
+        const word = token.value.toLowerCase();
+        if (word === 'true' || word === 'false') {
+          return { type: 'literal', value: word === 'true' };
+        }
+        if (word === 'null') {
+          return { type: 'literal', value: null };
+        }
+        if (!PATH_PATTERN.test(token.value)) {
+          throw this.error(`Invalid field path "${token.value}"`, token);
+        }
+        return { type: 'field', path: token.value.split('.') };
+      }
+
+      case 'eof':
+        throw this.error('Unexpected end of condition', token);
+    }
+
+    throw this.error(`Unexpected token "${token.value}"`, token);
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private peekWord(offset: number): string | undefined {
+    const token = this.peek(offset);
+    return token.type === 'word' ? token.value.toLowerCase() : undefined;
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private match(type: TokenType): boolean {
+    if (this.peek().type === type) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchSymbol(symbol: string): boolean {
+    const token = this.peek();
+    if (token.type === 'symbol' && token.value === symbol) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchWord(word: string): boolean {
+    if (this.peekWord(0) === word) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(type: TokenType, message: string): Token {
+    if (this.peek().type !== type) {
+      throw this.error(message, this.peek());
+    }
+    return this.advance();
+  }
+
+  private error(message: string, token: Token): FormulaError {
+    return new FormulaError('syntax', message, this.source, token.position);
+  }
+}
+
+const parsedConditions = new ParseCache<ConditionNode>();
+
+/**
+ * Parse a condition string into a condition tree.
+ * Results are cached, since the same edge / rule conditions are evaluated repeatedly.
+ *
+ * @throws FormulaError with the position of the first syntax error
+ */
+export function parseCondition(source: string): ConditionNode {
+  return parsedConditions.get(source, () => new ConditionParser(source).parseCondition());
+}
+
+/**
+ * Parse an operand expression such as `close_date`, `$User.id` or `$Today - 30d`
+ */
+export function parseConditionOperand(source: string): ConditionOperand {
+  return new ConditionParser(source).parseOperandOnly();
+}
+
+/**
+ * Compile structured trigger conditions into a condition tree (all must match)
+ *
+ * @throws Error when an operator is unknown or its value has the wrong shape
+ */
+export function compileConditions(
+  conditions: TriggerCondition | TriggerCondition[],
+): ConditionNode {
+  const list = Array.isArray(conditions) ? conditions : [conditions];
+  const nodes = list.map((condition): ConditionNode => {
+    const { field, operator } = condition;
+    if (!CONDITION_OPERATORS.includes(operator)) {
+      throw new Error(`Unknown condition operator: ${operator}`);
+    }
+
+    const left: ConditionOperand = { type: 'field', path: field.split('.') };
+    if (UNARY_OPERATORS.includes(operator)) {
+      return { type: 'compare', operator, left };
+    }
+    if (condition.valueRef !== undefined) {
+      return { type: 'compare', operator, left, right: parseConditionOperand(condition.valueRef) };
+    }
+
+    const value = condition.value;
+    if (operator === 'in' || operator === 'not_in' || operator === 'between') {
+      if (!Array.isArray(value) || (operator === 'between' && value.length !== 2)) {
+        throw new Error(
+          `Condition operator ${operator} on "${field}" expects ${operator === 'between' ? 'a [min, max] pair' : 'an array'}`,
+        );
+      }
+      const items = value.map((item): ConditionOperand => ({ type: 'literal', value: item }));
+      return { type: 'compare', operator, left, right: { type: 'list', items } };
+    }
+    return { type: 'compare', operator, left, right: { type: 'literal', value } };
+  });
+
+  return nodes.length === 1 ? nodes[0] : { type: 'and', conditions: nodes };
+}
+
+/**
+ * Compile any supported condition input into a condition tree
+ */
+export function compileCondition(input: ConditionInput): ConditionNode {
+  if (typeof input === 'string') {
+    return parseCondition(input);
+  }
+  if (Array.isArray(input) || !('type' in input)) {
+    return compileConditions(input);
+  }
+  return input;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function getPath(source: unknown, path: string[]): unknown {
+  let value: unknown = source;
+  for (const key of path) {
+    if (value === null || value === undefined || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+  return null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const n = Number(value);
+    return isNaN(n) ? null : n;
+  }
+  return null;
+}
+
+/**
+ * Equality shared by every operator: dates compare by instant, numbers and
+ * numeric strings compare numerically, booleans match "true" / "false".
+ */
+function valuesEqual(left: unknown, right: unknown): boolean {
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return (left === null || left === undefined) && (right === null || right === undefined);
+  }
+  if (left instanceof Date || right instanceof Date) {
+    const l = toDate(left);
+    const r = toDate(right);
+    return !!l && !!r && l.getTime() === r.getTime();
+  }
+  if (typeof left === 'number' || typeof right === 'number') {
+    const l = toNumber(left);
+    const r = toNumber(right);
+    if (l !== null && r !== null) return l === r;
+  }
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return String(left) === String(right);
+  }
+  return left === right;
+}
+
+/**
+ * Ordering shared by every comparison operator; null when not comparable
+ */
+function compareValues(left: unknown, right: unknown): number | null {
+  if (isBlank(left) || isBlank(right)) return null;
+  if (left instanceof Date || right instanceof Date) {
+    const l = toDate(left);
+    const r = toDate(right);
+    return l && r ? l.getTime() - r.getTime() : null;
+  }
+  const l = toNumber(left);
+  const r = toNumber(right);
+  if (l !== null && r !== null) return l - r;
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  return null;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function resolveOperand(operand: ConditionOperand, context: ConditionContext): unknown {
+  switch (operand.type) {
+    case 'literal':
+      return operand.value;
+
+    case 'duration':
+      return operand.ms;
+
+    case 'field':
+      return getPath(context.record, operand.path);
+
+    case 'global': {
+      const now = context.now ?? new Date();
+      if (operand.name === 'Now') return now;
+      if (operand.name === 'Today') return startOfDay(now);
+      return getPath(context.user, operand.path);
+    }
+
+    case 'list':
+      return operand.items.map((item) => resolveOperand(item, context));
+
+    case 'arithmetic': {
+      const left = resolveOperand(operand.left, context);
+      const right = resolveOperand(operand.right, context);
+      const sign = operand.operator === '+' ? 1 : -1;
+      const leftDate = toDate(left);
+      const rightDate = toDate(right);
+
+      // date - date → days between
+      if (leftDate && rightDate) {
+        return sign === -1 ? (leftDate.getTime() - rightDate.getTime()) / MS_PER_DAY : null;
+      }
+      // date ± duration / days
+      if (leftDate) {
+        const offset =
+          operand.right.type === 'duration' ? Number(right) : (toNumber(right) ?? 0) * MS_PER_DAY;
+        return new Date(leftDate.getTime() + sign * offset);
+      }
+      const l = toNumber(left);
+      const r = toNumber(right);
+      return l !== null && r !== null ? l + sign * r : null;
+    }
+  }
+}
+
+function evaluateCompare(
+  node: Extract<ConditionNode, { type: 'compare' }>,
+  context: ConditionContext,
+): boolean {
+  const value = resolveOperand(node.left, context);
+  const other = node.right ? resolveOperand(node.right, context) : undefined;
+
+  switch (node.operator) {
+    case 'equals':
+      return valuesEqual(value, other);
+
+    case 'not_equals':
+      return !valuesEqual(value, other);
+
+    case 'greater_than':
+    case 'greater_or_equal':
+    case 'less_than':
+    case 'less_or_equal': {
+      const cmp = compareValues(value, other);
+      if (cmp === null) return false;
+      if (node.operator === 'greater_than') return cmp > 0;
+      if (node.operator === 'greater_or_equal') return cmp >= 0;
+      if (node.operator === 'less_than') return cmp < 0;
+      return cmp <= 0;
+    }
+
+    case 'contains':
+    case 'not_contains': {
+      let found = false;
+      if (Array.isArray(value)) {
+        found = value.some((item) => valuesEqual(item, other));
+      } else if (!isBlank(value) && !isBlank(other)) {
+        found = String(value).includes(String(other));
+      }
+      return node.operator === 'contains' ? found : !found;
+    }
+
+    case 'starts_with':
+      return !isBlank(value) && String(value).startsWith(String(other ?? ''));
+
+    case 'ends_with':
+      return !isBlank(value) && String(value).endsWith(String(other ?? ''));
+
+    case 'in':
+    case 'not_in': {
+      const list = Array.isArray(other) ? other : [other];
+      const found = list.some((item) => valuesEqual(value, item));
+      return node.operator === 'in' ? found : !found;
+    }
+
+    case 'between': {
+      const [low, high] = other as unknown[];
+      const lowCmp = compareValues(value, low);
+      const highCmp = compareValues(value, high);
+      return lowCmp !== null && highCmp !== null && lowCmp >= 0 && highCmp <= 0;
+    }
+
+    case 'is_null':
+      return isBlank(value);
+
+    case 'is_not_null':
+      return !isBlank(value);
+
+    case 'changed':
+    case 'changed_from':
+    case 'changed_to': {
+      if (!context.previous || node.left.type !== 'field') return false;
+      const previous = getPath(context.previous, node.left.path);
+      if (valuesEqual(value, previous)) return false;
+      if (node.operator === 'changed_from') return valuesEqual(previous, other);
+      if (node.operator === 'changed_to') return valuesEqual(value, other);
+      return true;
+    }
+  }
+}
+
+function evaluateNode(node: ConditionNode, context: ConditionContext): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.conditions.every((child) => evaluateNode(child, context));
+
+    case 'or':
+      return node.conditions.some((child) => evaluateNode(child, context));
+
+    case 'not':
+      return !evaluateNode(node.condition, context);
+
+    case 'truthy': {
+      const value = resolveOperand(node.operand, context);
+      return value === 'true' || (value !== 'false' && !!value);
+    }
+
+    case 'compare':
+      return evaluateCompare(node, context);
+  }
+}
+
+/**
+ * Evaluate a condition string, structured condition(s) or compiled tree
+ *
+ * @throws FormulaError for condition strings with syntax errors
+ * @throws Error for structured conditions with unknown operators
+ */
+export function evaluateCondition(input: ConditionInput, context: ConditionContext): boolean {
+  return evaluateNode(compileCondition(input), context);
+}
@@ -0,0 +1,625 @@
+/**
+ * Formula Evaluator
+ *
+ * Static type checker and tree-walking interpreter for formula ASTs
+ * produced by the formula parser, plus the built-in function library
+ * (IF, CASE, ISBLANK, TEXT, DATEVALUE, TODAY, ADDMONTHS, ROUND, CONCAT,
+ * REGEX, ...). Function names are case-insensitive.
+ */
+
+import { FormulaError } from './formula-parser.js';
+import type { FormulaNode } from './formula-parser.js';
+
+/**
+ * Static type of a formula expression. `any` is used for field references,
+ * whose type is only known at runtime.
+ */
+export type FormulaValueType = 'number' | 'string' | 'boolean' | 'date' | 'any';
+
+/**
+ * Runtime value produced by a formula
+ */
+export type FormulaValue = string | number | boolean | Date | null;
+
+/**
+ * Runtime inputs for evaluating a formula
+ */
+export interface FormulaEvaluationContext {
+  /** Resolve a field reference path (e.g. ['account', 'owner', 'name']) to its value */
+  resolve: (path: string[]) => unknown;
+  /** Clock used by TODAY() and NOW(); defaults to the current time */
+  now?: Date;
+}
+
+type Thunk = () => FormulaValue;
+type Fail = (message: string) => never;
+
+/**
+ * Built-in function definition
+ */
+interface FormulaFunctionDef {
+  /** Parameter types; 'any' accepts every type */
+  params: FormulaValueType[];
+  /** How many trailing params may be omitted */
+  optional?: number;
+  /** Type of additional arguments for variadic functions */
+  rest?: FormulaValueType;
+  /** Result type, or a resolver for polymorphic functions */
+  returns: FormulaValueType | ((args: FormulaValueType[], fail: Fail) => FormulaValueType);
+  /** Implementation; arguments are lazy so IF/CASE/AND/OR can short-circuit */
+  evaluate: (args: Thunk[], context: FormulaEvaluationContext) => FormulaValue;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Coercion helpers
+// ============================================================================
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function toNumber(value: unknown): number {
+  if (value === null || value === undefined || value === '') return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+  return Number(value);
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  return String(value);
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = new Date(value.trim());
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+  if (typeof value === 'number') return new Date(value);
+  return null;
+}
+
+const ISO_DATE =
+  /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Date and datetime fields arrive from records as ISO strings; read them
+ * as dates where arithmetic needs one
+ */
+function toIsoDate(value: unknown): Date | null {
+  return typeof value === 'string' && ISO_DATE.test(value.trim()) ? toDate(value) : null;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Add months following spreadsheet semantics: the day is clamped to the
+ * end of the target month, and month-end dates stay on the month end.
+ */
+function addMonths(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+  const targetIndex = month + Math.trunc(months);
+  const targetYear = year + Math.floor(targetIndex / 12);
+  const targetMonth = ((targetIndex % 12) + 12) % 12;
+  const lastDay = daysInMonth(targetYear, targetMonth);
+  const targetDay = day === daysInMonth(year, month) ? lastDay : Math.min(day, lastDay);
+  const result = new Date(date.getTime());
+  result.setUTCFullYear(targetYear, targetMonth, targetDay);
+  return result;
+}
+
+function valuesEqual(left: unknown, right: unknown): boolean {
+  if (isBlank(left) && isBlank(right)) return true;
+  if (left instanceof Date || right instanceof Date) {
+    const l = toDate(left);
+    const r = toDate(right);
+    return !!l && !!r && l.getTime() === r.getTime();
+  }
+  return left === right;
+}
+
+function compareValues(left: unknown, right: unknown): number | null {
+  if (isBlank(left) || isBlank(right)) return null;
+  if (left instanceof Date || right instanceof Date) {
+    const l = toDate(left);
+    const r = toDate(right);
+    return l && r ? l.getTime() - r.getTime() : null;
+  }
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  return toNumber(left) - toNumber(right);
+}
+
+// ============================================================================
+// Type checking helpers
+// ============================================================================
+
+function isAssignable(actual: FormulaValueType, expected: FormulaValueType): boolean {
+  return expected === 'any' || actual === 'any' || actual === expected;
+}
+
+/**
+ * Common type of several branches (IF / CASE / BLANKVALUE results)
+ */
+function unify(types: FormulaValueType[], fail: Fail): FormulaValueType {
+  const known = types.filter((t) => t !== 'any');
+  if (known.length === 0) return 'any';
+  const first = known[0];
+  const mismatch = known.findIndex((t) => t !== first);
+  if (mismatch !== -1) {
+    fail(`Incompatible result types ${first} and ${known[mismatch]}`);
+  }
+  return first;
+}
+
+// ============================================================================
+// Function library
+// ============================================================================
+
+const FUNCTIONS: Record<string, FormulaFunctionDef> = {
+  IF: {
+    params: ['boolean', 'any', 'any'],
+    optional: 1,
+    returns: ([, whenTrue, whenFalse = 'any'], fail) => unify([whenTrue, whenFalse], fail),
+    evaluate: ([cond, whenTrue, whenFalse]) =>
+      cond() === true ? whenTrue() : whenFalse ? whenFalse() : null,
+  },
+  CASE: {
+    params: ['any', 'any', 'any'],
+    rest: 'any',
+    returns: (args, fail) => {
+      const results = args.slice(1).filter((_, i) => i % 2 === 1);
+      if (args.length % 2 === 0) results.push(args[args.length - 1]);
+      return unify(results, fail);
+    },
+    evaluate: (args) => {
+      const subject = args[0]();
+      let i = 1;
+      for (; i + 1 < args.length; i += 2) {
+        if (valuesEqual(subject, args[i]())) return args[i + 1]();
+      }
+      return i < args.length ? args[i]() : null;
+    },
+  },
+  ISBLANK: {
+    params: ['any'],
+    returns: 'boolean',
+    evaluate: ([value]) => isBlank(value()),
+  },
+  BLANKVALUE: {
+    params: ['any', 'any'],
+    returns: ([value, fallback], fail) => unify([value, fallback], fail),
+    evaluate: ([value, fallback]) => {
+      const v = value();
+      return isBlank(v) ? fallback() : v;
+    },
+  },
+  AND: {
+    params: ['boolean'],
+    rest: 'boolean',
+    returns: 'boolean',
+    evaluate: (args) => args.every((arg) => arg() === true),
+  },
+  OR: {
+    params: ['boolean'],
+    rest: 'boolean',
+    returns: 'boolean',
+    evaluate: (args) => args.some((arg) => arg() === true),
+  },
+  NOT: {
+    params: ['boolean'],
+    returns: 'boolean',
+    evaluate: ([value]) => value() !== true,
+  },
+  TEXT: {
+    params: ['any'],
+    returns: 'string',
+    evaluate: ([value]) => toText(value()),
+  },
+  VALUE: {
+    params: ['string'],
+    returns: 'number',
+    evaluate: ([value]) => {
+      const v = value();
+      if (isBlank(v)) return null;
+      const n = Number(v);
+      return isNaN(n) ? null : n;
+    },
+  },
+  DATEVALUE: {
+    params: ['any'],
+    returns: 'date',
+    evaluate: ([value]) => {
+      const date = toDate(value());
+      return date ? startOfDay(date) : null;
+    },
+  },
+  DATE: {
+    params: ['number', 'number', 'number'],
+    returns: 'date',
+    evaluate: ([year, month, day]) =>
+      new Date(Date.UTC(toNumber(year()), toNumber(month()) - 1, toNumber(day()))),
+  },
+  TODAY: {
+    params: [],
+    returns: 'date',
+    evaluate: (_args, context) => startOfDay(context.now ?? new Date()),
+  },
+  NOW: {
+    params: [],
+    returns: 'date',
+    evaluate: (_args, context) => new Date((context.now ?? new Date()).getTime()),
+  },
+  YEAR: {
+    params: ['date'],
+    returns: 'number',
+    evaluate: ([value]) => toDate(value())?.getUTCFullYear() ?? null,
+  },
+  MONTH: {
+    params: ['date'],
+    returns: 'number',
+    evaluate: ([value]) => {
+      const date = toDate(value());
+      return date ? date.getUTCMonth() + 1 : null;
+    },
+  },
+  DAY: {
+    params: ['date'],
+    returns: 'number',
+    evaluate: ([value]) => toDate(value())?.getUTCDate() ?? null,
+  },
+  ADDMONTHS: {
+    params: ['date', 'number'],
+    returns: 'date',
+    evaluate: ([value, months]) => {
+      const date = toDate(value());
+      return date ? addMonths(date, toNumber(months())) : null;
+    },
+  },
+  ROUND: {
+    params: ['number', 'number'],
+    optional: 1,
+    returns: 'number',
+    evaluate: ([value, digits]) => {
+      const v = value();
+      if (isBlank(v)) return null;
+      const factor = Math.pow(10, digits ? toNumber(digits()) : 0);
+      const n = toNumber(v);
+      return (Math.sign(n) * Math.round(Math.abs(n) * factor)) / factor;
+    },
+  },
+  ABS: {
+    params: ['number'],
+    returns: 'number',
+    evaluate: ([value]) => Math.abs(toNumber(value())),
+  },
+  FLOOR: {
+    params: ['number'],
+    returns: 'number',
+    evaluate: ([value]) => Math.floor(toNumber(value())),
+  },
+  CEILING: {
+    params: ['number'],
+    returns: 'number',
+    evaluate: ([value]) => Math.ceil(toNumber(value())),
+  },
+  MAX: {
+    params: ['number'],
+    rest: 'number',
+    returns: 'number',
+    evaluate: (args) => Math.max(...args.map((arg) => toNumber(arg()))),
+  },
+  MIN: {
+    params: ['number'],
+    rest: 'number',
+    returns: 'number',
+    evaluate: (args) => Math.min(...args.map((arg) => toNumber(arg()))),
+  },
+  CONCAT: {
+    params: ['any'],
+    rest: 'any',
+    returns: 'string',
+    evaluate: (args) => args.map((arg) => toText(arg())).join(''),
+  },
+  LEN: {
+    params: ['string'],
+    returns: 'number',
+    evaluate: ([value]) => toText(value()).length,
+  },
+  UPPER: {
+    params: ['string'],
+    returns: 'string',
+    evaluate: ([value]) => toText(value()).toUpperCase(),
+  },
+  LOWER: {
+    params: ['string'],
+    returns: 'string',
+    evaluate: ([value]) => toText(value()).toLowerCase(),
+  },
+  TRIM: {
+    params: ['string'],
+    returns: 'string',
+    evaluate: ([value]) => toText(value()).trim(),
+  },
+  CONTAINS: {
+    params: ['string', 'string'],
+    returns: 'boolean',
+    evaluate: ([text, search]) => toText(text()).includes(toText(search())),
+  },
+  REGEX: {
+    params: ['string', 'string'],
+    returns: 'boolean',
+    // The whole value must match, as in spreadsheet REGEX()
+    evaluate: ([text, pattern]) => new RegExp(`^(?:${toText(pattern())})$`).test(toText(text())),
+  },
+};
+
+/**
+ * Names of all built-in formula functions
+ */
+export const FORMULA_FUNCTIONS: readonly string[] = Object.keys(FUNCTIONS);
+
+// ============================================================================
+// Type checker
+// ============================================================================
+
+/**
+ * Infer the static type of a formula AST, rejecting ill-typed expressions
+ *
+ * @throws FormulaError with kind 'type' pointing at the offending node
+ */
+export function checkFormulaType(node: FormulaNode, expression: string): FormulaValueType {
+  const failAt =
+    (position: number): Fail =>
+    (message) => {
+      throw new FormulaError('type', message, expression, position);
+    };
+
+  switch (node.type) {
+    case 'literal':
+      if (node.value === null) return 'any';
+      return typeof node.value as 'number' | 'string' | 'boolean';
+
+    case 'reference':
+      return 'any';
+
+    case 'unary': {
+      const operand = checkFormulaType(node.operand, expression);
+      const expected = node.operator === '-' ? 'number' : 'boolean';
+      if (!isAssignable(operand, expected)) {
+        failAt(node.position)(`Operator "${node.operator}" expects ${expected}, got ${operand}`);
+      }
+      return expected;
+    }
+
+    case 'binary': {
+      const left = checkFormulaType(node.left, expression);
+      const right = checkFormulaType(node.right, expression);
+      const fail = failAt(node.position);
+      const mismatch = (): never =>
+        fail(`Operator "${node.operator}" cannot be applied to ${left} and ${right}`);
+
+      switch (node.operator) {
+        case '+':
+          if (left === 'string' || right === 'string') return 'string';
+          if (left === 'boolean' || right === 'boolean') return mismatch();
+          if (left === 'date' && right === 'date') return mismatch();
+          if (left === 'date' || right === 'date') {
+            return left === 'any' || right === 'any' ? 'any' : 'date';
+          }
+          return left === 'any' || right === 'any' ? 'any' : 'number';
+
+        case '-':
+          if ([left, right].some((t) => t === 'string' || t === 'boolean')) return mismatch();
+          if (left === 'date' && right === 'date') return 'number';
+          if (left === 'date') return right === 'any' ? 'any' : 'date';
+          if (right === 'date') return mismatch();
+          return left === 'any' || right === 'any' ? 'any' : 'number';
+
+        case '*':
+        case '/':
+        case '^':
+          if (!isAssignable(left, 'number') || !isAssignable(right, 'number')) return mismatch();
+          return 'number';
+
+        case '&':
+          return 'string';
+
+        case '=':
+        case '!=':
+          if (!isAssignable(left, right)) return mismatch();
+          return 'boolean';
+
+        case '<':
+        case '<=':
+        case '>':
+        case '>=':
+          if (left === 'boolean' || right === 'boolean' || !isAssignable(left, right)) {
+            return mismatch();
+          }
+          return 'boolean';
+
+        case '&&':
+        case '||':
+          if (!isAssignable(left, 'boolean') || !isAssignable(right, 'boolean')) return mismatch();
+          return 'boolean';
+      }
+      return mismatch();
+    }
+
+    case 'call': {
+      const fn = FUNCTIONS[node.name];
+      const fail = failAt(node.position);
+      if (!fn) {
+        return fail(`Unknown function ${node.name}()`);
+      }
+
+      const min = fn.params.length - (fn.optional ?? 0);
+      const max = fn.rest ? Infinity : fn.params.length;
+      if (node.args.length < min || node.args.length > max) {
+        const expected =
+          min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+        return fail(`${node.name}() expects ${expected} argument(s), got ${node.args.length}`);
+      }
+
+      const argTypes = node.args.map((arg, i) => {
+        const actual = checkFormulaType(arg, expression);
+        const expected = fn.params[i] ?? fn.rest ?? 'any';
+        if (!isAssignable(actual, expected)) {
+          failAt(arg.position)(
+            `${node.name}() argument ${i + 1} expects ${expected}, got ${actual}`,
+          );
+        }
+        return actual;
+      });
+
+      if (node.name === 'REGEX') {
+        const pattern = node.args[1];
+        if (pattern.type === 'literal' && typeof pattern.value === 'string') {
+          try {
+            new RegExp(pattern.value);
+          } catch {
+            failAt(pattern.position)(`Invalid regular expression "${pattern.value}"`);
+          }
+        }
+      }
+
+      return typeof fn.returns === 'function' ? fn.returns(argTypes, fail) : fn.returns;
+    }
+  }
+}
+
+// ============================================================================
+// Interpreter
+// ============================================================================
+
+function evaluateBinary(operator: string, leftThunk: Thunk, rightThunk: Thunk): FormulaValue {
+  // Logical operators short-circuit
+  if (operator === '&&') return leftThunk() === true && rightThunk() === true;
+  if (operator === '||') return leftThunk() === true || rightThunk() === true;
+
+  const left = leftThunk();
+  const right = rightThunk();
+
+  switch (operator) {
+    case '+': {
+      // An ISO date string plus a number of days is a date, not text
+      const l = typeof right === 'number' ? (toIsoDate(left) ?? left) : left;
+      const r = typeof left === 'number' ? (toIsoDate(right) ?? right) : right;
+      if (l instanceof Date && !(r instanceof Date)) {
+        return new Date(l.getTime() + toNumber(r) * MS_PER_DAY);
+      }
+      if (r instanceof Date && !(l instanceof Date)) {
+        return new Date(r.getTime() + toNumber(l) * MS_PER_DAY);
+      }
+      if (typeof l === 'string' || typeof r === 'string') {
+        return toText(l) + toText(r);
+      }
+      return toNumber(l) + toNumber(r);
+    }
+
+    case '-': {
+      const l = toIsoDate(left) ?? left;
+      const r = toIsoDate(right) ?? right;
+      if (l instanceof Date || r instanceof Date) {
+        const from = toDate(l);
+        const to = r instanceof Date || typeof r === 'string' ? toDate(r) : null;
+        if (from && to) return (from.getTime() - to.getTime()) / MS_PER_DAY;
+        if (from) return new Date(from.getTime() - toNumber(r) * MS_PER_DAY);
+        return null;
+      }
+      return toNumber(l) - toNumber(r);
+    }
+
+    case '*':
+      return toNumber(left) * toNumber(right);
+
+    case '/': {
+      const divisor = toNumber(right);
+      return divisor === 0 ? null : toNumber(left) / divisor;
+    }
+
+    case '^':
+      return Math.pow(toNumber(left), toNumber(right));
+
+    case '&':
+      return toText(left) + toText(right);
+
+    case '=':
+      return valuesEqual(left, right);
+
+    case '!=':
+      return !valuesEqual(left, right);
+
+    default: {
+      const cmp = compareValues(left, right);
+      if (cmp === null || isNaN(cmp)) return false;
+      if (operator === '<') return cmp < 0;
+      if (operator === '<=') return cmp <= 0;
+      if (operator === '>') return cmp > 0;
+      return cmp >= 0;
+    }
+  }
+}
+
+/**
+ * Evaluate a type-checked formula AST
+ */
+export function evaluateFormula(
+  node: FormulaNode,
+  context: FormulaEvaluationContext,
+): FormulaValue {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'reference': {
+      const value = context.resolve(node.path);
+      if (value === undefined || value === null) return null;
+      if (
+        typeof value === 'string' ||
+        typeof value === 'number' ||
+        typeof value === 'boolean' ||
+        value instanceof Date
+      ) {
+        return value;
+      }
+      return JSON.stringify(value);
+    }
+
+    case 'unary': {
+      const operand = evaluateFormula(node.operand, context);
+      return node.operator === '-' ? -toNumber(operand) : operand !== true;
+    }
+
+    case 'binary':
+      return evaluateBinary(
+        node.operator,
+        () => evaluateFormula(node.left, context),
+        () => evaluateFormula(node.right, context),
+      );
+
+    case 'call':
+      return FUNCTIONS[node.name].evaluate(
+        node.args.map((arg) => () => evaluateFormula(arg, context)),
+        context,
+      );
+  }
+}
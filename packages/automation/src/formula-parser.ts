@@ -0,0 +1,491 @@
+/**
+ * Formula Parser
+ *
+ * Tokenizer and recursive-descent parser for the formula language used by
+ * calculated fields. Expressions are parsed into an AST that is type checked
+ * and interpreted by the formula evaluator — nothing is ever handed to
+ * `eval` or `new Function`.
+ *
+ * Grammar (lowest to highest precedence):
+ *   or         := and ( ('||' | 'OR') and )*
+ *   and        := equality ( ('&&' | 'AND') equality )*
+ *   equality   := comparison ( ('=' | '==' | '!=' | '<>') comparison )*
+ *   comparison := concat ( ('<' | '<=' | '>' | '>=') concat )*
+ *   concat     := additive ( '&' additive )*
+ *   additive   := term ( ('+' | '-') term )*
+ *   term       := power ( ('*' | '/') power )*
+ *   power      := unary ( '^' power )?
+ *   unary      := ('-' | '!' | 'NOT') unary | primary
+ *   primary    := NUMBER | STRING | TRUE | FALSE | NULL
+ *               | '{' path '}' | IDENT '(' args? ')' | '(' or ')'
+ */
+
+/**
+ * Kind of problem reported by a FormulaError
+ */
+export type FormulaErrorKind = 'syntax' | 'type';
+
+/**
+ * Error raised when a formula cannot be parsed or type checked.
+ * `position` is the zero-based character offset in the source expression.
+ */
+export class FormulaError extends Error {
+  readonly kind: FormulaErrorKind;
+  readonly position: number;
+  readonly expression: string;
+
+  constructor(kind: FormulaErrorKind, message: string, expression: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'FormulaError';
+    this.kind = kind;
+    this.position = position;
+    this.expression = expression;
+  }
+}
+
+/**
+ * Binary operators supported by the formula language
+ */
+export type FormulaBinaryOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '^'
+  | '&'
+  | '='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | '&&'
+  | '||';
+
+/**
+ * Formula AST node
+ */
+export type FormulaNode =
+  | { type: 'literal'; value: string | number | boolean | null; position: number }
+  | { type: 'reference'; path: string[]; position: number }
+  | { type: 'unary'; operator: '-' | '!'; operand: FormulaNode; position: number }
+  | {
+      type: 'binary';
+      operator: FormulaBinaryOperator;
+      left: FormulaNode;
+      right: FormulaNode;
+      position: number;
+    }
+  | { type: 'call'; name: string; args: FormulaNode[]; position: number };
+
+type TokenType = 'number' | 'string' | 'field' | 'ident' | 'operator' | '(' | ')' | ',' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const OPERATORS = [
+  '<=',
+  '>=',
+  '!=',
+  '<>',
+  '==',
+  '&&',
+  '||',
+  '+',
+  '-',
+  '*',
+  '/',
+  '^',
+  '&',
+  '=',
+  '<',
+  '>',
+  '!',
+];
+
+/**
+ * Split a formula expression into tokens
+ */
+export function tokenizeFormula(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const ch = expression[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(expression[i + 1] ?? ''))) {
+      const start = i;
+      while (i < expression.length && /[0-9]/.test(expression[i])) i++;
+      if (expression[i] === '.') {
+        i++;
+        while (i < expression.length && /[0-9]/.test(expression[i])) i++;
+      }
+      tokens.push({ type: 'number', value: expression.slice(start, i), position: start });
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < expression.length && expression[i] !== ch) {
+        if (expression[i] === '\\' && i + 1 < expression.length) {
+          const next = expression[i + 1];
+          value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+          i += 2;
+          continue;
+        }
+        value += expression[i++];
+      }
+      if (i >= expression.length) {
+        throw new FormulaError('syntax', 'Unterminated string literal', expression, start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    if (ch === '{') {
+      const start = i;
+      const end = expression.indexOf('}', i);
+      if (end === -1) {
+        throw new FormulaError('syntax', 'Unterminated field reference', expression, start);
+      }
+      const path = expression.slice(i + 1, end).trim();
+      if (!/^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/.test(path)) {
+        throw new FormulaError('syntax', `Invalid field reference "{${path}}"`, expression, start);
+      }
+      tokens.push({ type: 'field', value: path, position: start });
+      i = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const start = i;
+      while (i < expression.length && /[\w]/.test(expression[i])) i++;
+      tokens.push({ type: 'ident', value: expression.slice(start, i), position: start });
+      continue;
+    }
+
+    if (ch === '(' || ch === ')' || ch === ',') {
+      tokens.push({ type: ch, value: ch, position: i });
+      i++;
+      continue;
+    }
+
+    const op = OPERATORS.find((candidate) => expression.startsWith(candidate, i));
+    if (op) {
+      tokens.push({ type: 'operator', value: op, position: i });
+      i += op.length;
+      continue;
+    }
+
+    throw new FormulaError('syntax', `Unexpected character "${ch}"`, expression, i);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: expression.length });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over the token stream
+ */
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private expression: string) {
+    this.tokens = tokenizeFormula(expression);
+  }
+
+  parse(): FormulaNode {
+    if (this.peek().type === 'eof') {
+      throw this.error('Empty formula expression', this.peek());
+    }
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw this.error(`Unexpected token "${next.value}"`, next);
+    }
+    return node;
+  }
+
+  private parseOr(): FormulaNode {
+    let left = this.parseAnd();
+    while (this.matchOperator('||') || this.matchKeyword('OR')) {
+      const token = this.previous();
+      left = {
+        type: 'binary',
+        operator: '||',
+        left,
+        right: this.parseAnd(),
+        position: token.position,
+      };
+    }
+    return left;
+  }
+
+  private parseAnd(): FormulaNode {
+    let left = this.parseEquality();
+    while (this.matchOperator('&&') || this.matchKeyword('AND')) {
+      const token = this.previous();
+      left = {
+        type: 'binary',
+        operator: '&&',
+        left,
+        right: this.parseEquality(),
+        position: token.position,
+      };
+    }
+    return left;
+  }
+
+  private parseEquality(): FormulaNode {
+    let left = this.parseComparison();
+    while (this.matchOperator('=', '==', '!=', '<>')) {
+      const token = this.previous();
+      const operator = token.value === '!=' || token.value === '<>' ? '!=' : '=';
+      left = {
+        type: 'binary',
+        operator,
+        left,
+        right: this.parseComparison(),
+        position: token.position,
+      };
+    }
+    return left;
+  }
+
+  private parseComparison(): FormulaNode {
+    let left = this.parseConcat();
+    while (this.matchOperator('<', '<=', '>', '>=')) {
+      const token = this.previous();
+      left = {
+        type: 'binary',
+        operator: token.value as FormulaBinaryOperator,
+        left,
+        right: this.parseConcat(),
+        position: token.position,
+      };
+    }
+    return left;
+  }
+
+  private parseConcat(): FormulaNode {
+    let left = this.parseAdditive();
+    while (this.matchOperator('&')) {
+      const token = this.previous();
+      left = {
+        type: 'binary',
+        operator: '&',
+        left,
+        right: this.parseAdditive(),
+        position: token.position,
+      };
+    }
+    return left;
+  }
+
+  private parseAdditive(): FormulaNode {
+    let left = this.parseTerm();
+    while (this.matchOperator('+', '-')) {
+      const token = this.previous();
+      left = {
+        type: 'binary',
+        operator: token.value as FormulaBinaryOperator,
+        left,
+        right: this.parseTerm(),
+        position: token.position,
+      };
+    }
+    return left;
+  }
+
+  private parseTerm(): FormulaNode {
+    let left = this.parsePower();
+    while (this.matchOperator('*', '/')) {
+      const token = this.previous();
+      left = {
+        type: 'binary',
+        operator: token.value as FormulaBinaryOperator,
+        left,
+        right: this.parsePower(),
+        position: token.position,
+      };
+    }
+    return left;
+  }
+
+  private parsePower(): FormulaNode {
+    const base = this.parseUnary();
+    if (this.matchOperator('^')) {
+      const token = this.previous();
+      return {
+        type: 'binary',
+        operator: '^',
+        left: base,
+        right: this.parsePower(),
+        position: token.position,
+      };
+    }
+    return base;
+  }
+
+  private parseUnary(): FormulaNode {
+    if (this.matchOperator('-', '!') || this.matchKeyword('NOT')) {
+      const token = this.previous();
+      const operator = token.value === '-' ? '-' : '!';
+      return { type: 'unary', operator, operand: this.parseUnary(), position: token.position };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.advance();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value), position: token.position };
+
+      case 'string':
+        return { type: 'literal', value: token.value, position: token.position };
+
+      case 'field':
+        return { type: 'reference', path: token.value.split('.'), position: token.position };
+
+      case '(': {
+        const inner = this.parseOr();
+        this.expect(')', 'Expected ")"');
+        return inner;
+      }
+
+      case 'ident': {
+        const upper = token.value.toUpperCase();
+        if (this.peek().type === '(') {
+          this.advance();
+          const args: FormulaNode[] = [];
+          if (this.peek().type !== ')') {
+            do {
+              args.push(this.parseOr());
+            } while (this.match(','));
+          }
+          this.expect(')', `Expected ")" to close ${upper}(`);
+          return { type: 'call', name: upper, args, position: token.position };
+        }
+        if (upper === 'TRUE' || upper === 'FALSE') {
+          return { type: 'literal', value: upper === 'TRUE', position: token.position };
+        }
+        if (upper === 'NULL') {
+          return { type: 'literal', value: null, position: token.position };
+        }
+        throw this.error(
+          `Unknown identifier "${token.value}" (use {${token.value}} to reference a field)`,
+          token,
+        );
+      }
+
+      case 'eof':
+        throw this.error('Unexpected end of expression', token);
+
+      default:
+        throw this.error(`Unexpected token "${token.value}"`, token);
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private previous(): Token {
+    return this.tokens[this.index - 1];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private match(type: TokenType): boolean {
+    if (this.peek().type === type) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchOperator(...operators: string[]): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && operators.includes(token.value)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Match a word operator (AND / OR / NOT) that is not used as a function call
+   */
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek();
+    const next = this.tokens[this.index + 1];
+    if (token.type === 'ident' && token.value.toUpperCase() === keyword && next?.type !== '(') {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(type: TokenType, message: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw this.error(message, token);
+    }
+    return this.advance();
+  }
+
+  private error(message: string, token: Token): FormulaError {
+    return new FormulaError('syntax', message, this.expression, token.position);
+  }
+}
+
+/**
+ * Parse a formula expression into an AST
+ *
+ * @throws FormulaError with kind 'syntax' and the offending position
+ */
+export function parseFormula(expression: string): FormulaNode {
+  return new Parser(expression).parse();
+}
+
+/**
+ * Collect the distinct field reference paths used by a formula AST
+ */
+export function collectFormulaReferences(node: FormulaNode, into: string[][] = []): string[][] {
+  switch (node.type) {
+    case 'reference':
+      if (!into.some((path) => path.join('.') === node.path.join('.'))) {
+        into.push(node.path);
+      }
+      break;
+    case 'unary':
+      collectFormulaReferences(node.operand, into);
+      break;
+    case 'binary':
+      collectFormulaReferences(node.left, into);
+      collectFormulaReferences(node.right, into);
+      break;
+    case 'call':
+      for (const arg of node.args) collectFormulaReferences(arg, into);
+      break;
+  }
+  return into;
+}
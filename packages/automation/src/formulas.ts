@@ -11,8 +11,12 @@ import type {
   RollupFormulaConfig,
   AutoNumberFormulaConfig,
   RollupOperation,
-  TriggerCondition,
 } from './types.js';
+import { parseFormula, collectFormulaReferences, FormulaError } from './formula-parser.js';
+import type { FormulaNode } from './formula-parser.js';
+import { checkFormulaType, evaluateFormula } from './formula-evaluator.js';
+import { evaluateCondition, compileCondition } from './conditions.js';
+import { ParseCache } from './parse-cache.js';
 
 /**
  * Formula engine for calculating field values
@@ -20,6 +24,7 @@ import type {
 export class FormulaEngine {
   private logger: any;
   private autoNumberCounters: Map<string, number> = new Map();
+  private compiledExpressions = new ParseCache<FormulaNode>();
 
   // External handlers
   private queryRecordsHandler?: (objectName: string, filter: any) => Promise<any[]>;
@@ -54,20 +59,60 @@ export class FormulaEngine {
     }
   }
 
+  /**
+   * Validate a formula definition without evaluating it.
+   * Calculated expressions are parsed and their inferred type is checked
+   * against the declared return type; rollup filter conditions are compiled.
+   *
+   * @throws FormulaError with the position of the first problem
+   */
+  validateFormula(formula: FormulaField): void {
+    if (formula.config.type === 'calculated') {
+      this.compileExpression(formula.config);
+    }
+    if (formula.config.type === 'rollup') {
+      if (formula.config.conditions?.length) compileCondition(formula.config.conditions);
+      if (formula.config.condition) compileCondition(formula.config.condition);
+    }
+  }
+
+  /**
+   * Parse and type check a calculated expression, caching the AST
+   */
+  private compileExpression(config: CalculatedFormulaConfig): FormulaNode {
+    const key = `${config.returnType}:${config.expression}`;
+    return this.compiledExpressions.get(key, () => {
+      const ast = parseFormula(config.expression);
+      const inferred = checkFormulaType(ast, config.expression);
+      if (inferred !== 'any' && inferred !== config.returnType) {
+        throw new FormulaError(
+          'type',
+          `Formula returns ${inferred} but returnType is ${config.returnType}`,
+          config.expression,
+          0,
+        );
+      }
+      return ast;
+    });
+  }
+
   /**
    * Calculate a calculated field
    */
-  private calculateCalculatedField(config: CalculatedFormulaConfig, record: any): any {
+  private async calculateCalculatedField(
+    config: CalculatedFormulaConfig,
+    record: any,
+  ): Promise<any> {
+    // Syntax and type errors are surfaced to the caller, not swallowed
+    const ast = this.compileExpression(config);
+
     try {
-      // Create a safe evaluation context
-      const context = { ...record };
+      const values = new Map<string, unknown>();
+      for (const path of collectFormulaReferences(ast)) {
+        values.set(path.join('.'), await this.resolveReference(path, record, config));
+      }
 
-      // Parse and evaluate the expression
-      // Note: This is a simplified implementation. In production, you'd want:
-      // - Proper expression parser (e.g., mathjs, expr-eval)
-      // - Type checking
-      // - Security sandboxing
-      const result = this.evaluateExpression(config.expression, context);
+      const result = evaluateFormula(ast, { resolve: (path) => values.get(path.join('.')) });
 
       // Cast to the expected return type
       return this.castValue(result, config.returnType);
@@ -77,6 +122,45 @@ export class FormulaEngine {
     }
   }
 
+  /**
+   * Resolve a field reference path against a record.
+   * Each intermediate segment is a lookup: an embedded object is traversed
+   * directly, while an ID is loaded through the query records handler.
+   */
+  private async resolveReference(
+    path: string[],
+    record: any,
+    config: CalculatedFormulaConfig,
+  ): Promise<unknown> {
+    let value: any = record?.[path[0]];
+
+    for (let i = 1; i < path.length; i++) {
+      if (value === null || value === undefined) {
+        return null;
+      }
+
+      if (typeof value !== 'object') {
+        if (!this.queryRecordsHandler) {
+          this.logger.warn(
+            `Cannot resolve {${path.join('.')}}: no query records handler configured`,
+          );
+          return null;
+        }
+        const lookupPath = path.slice(0, i).join('.');
+        const objectName = config.relationships?.[lookupPath] ?? path[i - 1];
+        const related = await this.queryRecordsHandler(objectName, { id: value });
+        value = related[0] ?? null;
+        if (value === null) {
+          return null;
+        }
+      }
+
+      value = value[path[i]];
+    }
+
+    return value;
+  }
+
   /**
    * Calculate a rollup field
    */
@@ -107,9 +191,12 @@ export class FormulaEngine {
 
       // Apply additional conditions
       if (config.conditions && config.conditions.length > 0) {
-        relatedRecords = relatedRecords.filter((r) =>
-          this.evaluateConditions(config.conditions!, r),
-        );
+        const conditions = compileCondition(config.conditions);
+        relatedRecords = relatedRecords.filter((r) => evaluateCondition(conditions, { record: r }));
+      }
+      if (config.condition) {
+        const condition = compileCondition(config.condition);
+        relatedRecords = relatedRecords.filter((r) => evaluateCondition(condition, { record: r }));
       }
 
       // Perform the rollup operation
@@ -148,39 +235,13 @@ export class FormulaEngine {
   }
 
   /**
-   * Evaluate a simple expression
-   * This is a basic implementation - in production use a proper expression parser
+   * Cast value to expected type
    */
-  private evaluateExpression(expression: string, context: any): any {
-    // Replace field references with values
-    let processedExpr = expression;
-
-    // Replace {fieldName} with actual values
-    processedExpr = processedExpr.replace(/\{([^}]+)\}/g, (match, field) => {
-      const value = context[field.trim()];
-      if (value === undefined) {
-        return '0';
-      }
-      return typeof value === 'string' ? `"${value}"` : String(value);
-    });
-
-    // Evaluate basic mathematical expressions
-    // Note: In production, use a proper expression evaluator like mathjs
-    try {
-      // Simple arithmetic evaluation (UNSAFE - for demo only)
-      // eslint-disable-next-line no-new-func
-      const fn = new Function('return ' + processedExpr);
-      return fn();
-    } catch (error) {
-      this.logger.error(`Failed to evaluate expression: ${expression}`, error);
+  private castValue(value: any, type: string): any {
+    if (value === null || value === undefined) {
       return null;
     }
-  }
 
-  /**
-   * Cast value to expected type
-   */
-  private castValue(value: any, type: string): any {
     switch (type) {
       case 'string':
         return String(value);
@@ -233,51 +294,6 @@ export class FormulaEngine {
     }
   }
 
-  /**
-   * Evaluate conditions for filtering
-   */
-  private evaluateConditions(conditions: TriggerCondition[], record: any): boolean {
-    for (const condition of conditions) {
-      if (!this.evaluateCondition(condition, record)) {
-        return false;
-      }
-    }
-    return true;
-  }
-
-  /**
-   * Evaluate a single condition
-   */
-  private evaluateCondition(condition: TriggerCondition, record: any): boolean {
-    const fieldValue = record[condition.field];
-
-    switch (condition.operator) {
-      case 'equals':
-        return fieldValue === condition.value;
-
-      case 'not_equals':
-        return fieldValue !== condition.value;
-
-      case 'greater_than':
-        return fieldValue > condition.value;
-
-      case 'less_than':
-        return fieldValue < condition.value;
-
-      case 'contains':
-        return String(fieldValue).includes(String(condition.value));
-
-      case 'starts_with':
-        return String(fieldValue).startsWith(String(condition.value));
-
-      case 'ends_with':
-        return String(fieldValue).endsWith(String(condition.value));
-
-      default:
-        return false;
-    }
-  }
-
   /**
    * Reset auto-number counter (for testing)
    */
@@ -13,6 +13,38 @@ export { ActionExecutor } from './actions.js';
 export { FormulaEngine } from './formulas.js';
 export { InMemoryAutomationStorage } from './storage.js';
 
+// Formula language
+export {
+  FormulaError,
+  parseFormula,
+  tokenizeFormula,
+  collectFormulaReferences,
+} from './formula-parser.js';
+export type { FormulaNode, FormulaBinaryOperator, FormulaErrorKind } from './formula-parser.js';
+export { checkFormulaType, evaluateFormula, FORMULA_FUNCTIONS } from './formula-evaluator.js';
+export type {
+  FormulaValueType,
+  FormulaValue,
+  FormulaEvaluationContext,
+} from './formula-evaluator.js';
+
+// Conditions
+export {
+  evaluateCondition,
+  compileCondition,
+  compileConditions,
+  parseCondition,
+  parseConditionOperand,
+  CONDITION_OPERATORS,
+} from './conditions.js';
+export type {
+  ConditionNode,
+  ConditionOperand,
+  ConditionInput,
+  ConditionContext,
+  ConditionGlobal,
+} from './conditions.js';
+
 // Sandbox
 export {
   executeSandboxed,
@@ -38,9 +70,11 @@ export type {
   WebhookTriggerConfig,
   TriggerConfig,
   TriggerCondition,
+  ConditionOperator,
   UpdateFieldActionConfig,
   CreateRecordActionConfig,
   SendEmailActionConfig,
+  SendNotificationActionConfig,
   HttpRequestActionConfig,
   ExecuteScriptActionConfig,
   ActionConfig,
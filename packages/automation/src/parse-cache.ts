@@ -0,0 +1,46 @@
+/**
+ * Parse Cache
+ *
+ * Conditions and formulas are parsed once and reused, since the same rule
+ * and edge expressions are evaluated repeatedly. Their sources are arbitrary
+ * strings, so the cache is bounded: the least recently used entries are
+ * dropped first.
+ */
+
+/** Entries kept by default */
+export const PARSE_CACHE_SIZE = 500;
+
+/**
+ * Least-recently-used cache of parse results
+ */
+export class ParseCache<T> {
+  private entries: Map<string, T> = new Map();
+  private maxSize: number;
+
+  constructor(maxSize: number = PARSE_CACHE_SIZE) {
+    this.maxSize = maxSize;
+  }
+
+  /**
+   * The cached result for a key, or the result of `parse`, which is cached.
+   * Nothing is cached when `parse` throws.
+   */
+  get(key: string, parse: () => T): T {
+    let value = this.entries.get(key);
+    if (value !== undefined) {
+      // Re-insert so the Map's insertion order is the order of use
+      this.entries.delete(key);
+    } else {
+      value = parse();
+      if (this.entries.size >= this.maxSize) {
+        this.entries.delete(this.entries.keys().next().value!);
+      }
+    }
+    this.entries.set(key, value);
+    return value;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
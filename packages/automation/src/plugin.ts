@@ -5,7 +5,7 @@
  * - Object triggers (onCreate, onUpdate, onDelete)
  * - Scheduled triggers (cron)
  * - Webhook triggers
- * - Actions (update field, create record, send email, HTTP, script)
+ * - Actions (update field, create record, send email, send notification, HTTP, script)
  * - Formula fields (calculated, rollup, auto-number)
  */
 
@@ -18,6 +18,7 @@ import type {
 import type {
   AutomationPluginConfig,
   AutomationRule,
+  ObjectTriggerConfig,
   FormulaField,
   AutomationExecutionResult,
   PluginHealthReport,
@@ -99,6 +100,30 @@ export class AutomationPlugin implements Plugin, IAutomationService {
     (this.formulaEngine as any).logger = context.logger;
     (this.jobQueue as any).logger = context.logger;
 
+    // Send notifications through the notification service, when installed
+    this.actionExecutor.setSendNotificationHandler(async (action) => {
+      const notification = this.getNotificationService();
+      if (!notification) {
+        throw new Error('Notification service is not available');
+      }
+      const result = await notification.send({
+        channel: action.channel,
+        recipient: action.recipient,
+        subject: action.subject,
+        body: action.body,
+        template: action.template,
+        data: action.data,
+        options: action.options,
+        userId: action.userId,
+        category: action.category,
+        priority: action.priority,
+      });
+      if (!result?.success) {
+        throw new Error(`Failed to send ${action.channel} notification: ${result?.error}`);
+      }
+      return result;
+    });
+
     // Register automation service
     context.registerService('automation', this);
 
@@ -168,6 +193,7 @@ export class AutomationPlugin implements Plugin, IAutomationService {
         await this.handleDataEvent('object.create', {
           objectName: data.object,
           record: data.doc || data.data, // flexible mapping
+          user: toEventUser(data),
         });
       }
     });
@@ -179,6 +205,7 @@ export class AutomationPlugin implements Plugin, IAutomationService {
           objectName: data.object,
           record: data.doc || data.data,
           oldRecord: data.previous,
+          user: toEventUser(data),
         });
       }
     });
@@ -189,6 +216,7 @@ export class AutomationPlugin implements Plugin, IAutomationService {
         await this.handleDataEvent('object.delete', {
           objectName: data.object,
           record: data.doc || data.data || { id: data.id },
+          user: toEventUser(data),
         });
       }
     });
@@ -205,7 +233,7 @@ export class AutomationPlugin implements Plugin, IAutomationService {
   ): Promise<void> {
     if (!this.config.enabled) return;
 
-    const { objectName, record, oldRecord } = data;
+    const { objectName, record, oldRecord, user } = data;
 
     // Get active rules for this trigger type
     // Filter by objectName efficiently if storage supports it
@@ -223,6 +251,7 @@ export class AutomationPlugin implements Plugin, IAutomationService {
         objectName,
         record,
         oldRecord,
+        user,
       );
 
       if (shouldFire) {
@@ -399,6 +428,11 @@ export class AutomationPlugin implements Plugin, IAutomationService {
    * Register an automation rule
    */
   async registerRule(rule: AutomationRule): Promise<void> {
+    // Reject unknown operators and malformed condition expressions up front
+    if (rule.trigger?.type?.startsWith('object.')) {
+      this.triggerEngine.validateConditions(rule.trigger as ObjectTriggerConfig);
+    }
+
     await this.storage.saveRule(rule);
 
     // Register scheduled trigger if applicable
@@ -429,6 +463,9 @@ export class AutomationPlugin implements Plugin, IAutomationService {
    * Register a formula field
    */
   async registerFormula(formula: FormulaField): Promise<void> {
+    // Reject syntax and type errors before the formula is stored
+    this.formulaEngine.validateFormula(formula);
+
     await this.storage.saveFormula(formula);
     this.context?.logger.info(
       `[Automation Plugin] Registered formula: ${formula.objectName}.${formula.name}`,
@@ -521,6 +558,17 @@ export class AutomationPlugin implements Plugin, IAutomationService {
     }
   }
 
+  /**
+   * Notification service, if one is registered
+   */
+  private getNotificationService(): any {
+    try {
+      return this.context?.getService('notification');
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Get engines (for external configuration)
    */
@@ -624,6 +672,20 @@ export class AutomationPlugin implements Plugin, IAutomationService {
   }
 }
 
+/**
+ * The user whose data change fired an event, as `$User` in trigger
+ * conditions: the session's user ID, role, organization and profiles
+ */
+function toEventUser(data: any): Record<string, unknown> | undefined {
+  if (!data.userId) return undefined;
+  return {
+    id: data.userId,
+    roleName: data.roleName ?? data.metadata?.roleName,
+    organizationId: data.organizationId ?? data.metadata?.organizationId,
+    profiles: data.userProfiles ?? [],
+  };
+}
+
 /**
  * Helper function to access the automation API from kernel
  */
@@ -10,9 +10,9 @@ import type {
   ObjectTriggerConfig,
   ScheduledTriggerConfig,
   WebhookTriggerConfig,
-  TriggerCondition,
   AutomationRule,
 } from './types.js';
+import { evaluateCondition, compileCondition } from './conditions.js';
 
 /**
  * Trigger engine for evaluating trigger conditions
@@ -34,6 +34,7 @@ export class TriggerEngine {
     objectName: string,
     record: any,
     oldRecord?: any,
+    user?: Record<string, unknown>,
   ): boolean {
     // Check if trigger type matches
     if (trigger.type !== eventType) {
@@ -58,8 +59,8 @@ export class TriggerEngine {
       }
 
       // Evaluate conditions
-      if (trigger.conditions && trigger.conditions.length > 0) {
-        return this.evaluateConditions(trigger.conditions, record, oldRecord);
+      if (trigger.conditions?.length || trigger.condition) {
+        return this.evaluateConditions(trigger, record, oldRecord, user);
       }
     }
 
@@ -67,56 +68,41 @@ export class TriggerEngine {
   }
 
   /**
-   * Evaluate trigger conditions
+   * Evaluate trigger conditions (structured conditions and condition expression);
+   * `$User` is the user whose change fired the trigger
    */
   private evaluateConditions(
-    conditions: TriggerCondition[],
+    trigger: ObjectTriggerConfig,
     record: any,
     oldRecord?: any,
+    user?: Record<string, unknown>,
   ): boolean {
-    for (const condition of conditions) {
-      if (!this.evaluateCondition(condition, record, oldRecord)) {
+    try {
+      const context = { record, previous: oldRecord, user };
+      if (trigger.conditions?.length && !evaluateCondition(trigger.conditions, context)) {
         return false;
       }
+      if (trigger.condition && !evaluateCondition(trigger.condition, context)) {
+        return false;
+      }
+      return true;
+    } catch (error) {
+      this.logger.error(`Invalid trigger condition for ${trigger.objectName}:`, error);
+      return false;
     }
-    return true;
   }
 
   /**
-   * Evaluate a single condition
+   * Validate trigger conditions without evaluating them
+   *
+   * @throws Error when an operator is unknown or a condition expression does not parse
    */
-  private evaluateCondition(condition: TriggerCondition, record: any, oldRecord?: any): boolean {
-    const fieldValue = record[condition.field];
-    const oldValue = oldRecord?.[condition.field];
-
-    switch (condition.operator) {
-      case 'equals':
-        return fieldValue === condition.value;
-
-      case 'not_equals':
-        return fieldValue !== condition.value;
-
-      case 'greater_than':
-        return fieldValue > condition.value;
-
-      case 'less_than':
-        return fieldValue < condition.value;
-
-      case 'contains':
-        return String(fieldValue).includes(String(condition.value));
-
-      case 'starts_with':
-        return String(fieldValue).startsWith(String(condition.value));
-
-      case 'ends_with':
-        return String(fieldValue).endsWith(String(condition.value));
-
-      case 'changed':
-        return oldValue !== undefined && fieldValue !== oldValue;
-
-      default:
-        this.logger.warn(`Unknown condition operator: ${condition.operator}`);
-        return false;
+  validateConditions(trigger: ObjectTriggerConfig): void {
+    if (trigger.conditions?.length) {
+      compileCondition(trigger.conditions);
+    }
+    if (trigger.condition) {
+      compileCondition(trigger.condition);
     }
   }
 
@@ -69,24 +69,44 @@ export type AutomationRuleStatus = 'active' | 'inactive' | 'error';
 // Legacy Action Configs (backward compatibility)
 // ============================================================================
 
+/**
+ * Condition operator, shared by triggers, rollup filters and flows
+ */
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'greater_than'
+  | 'greater_or_equal'
+  | 'less_than'
+  | 'less_or_equal'
+  | 'contains'
+  | 'not_contains'
+  | 'starts_with'
+  | 'ends_with'
+  | 'in'
+  | 'not_in'
+  | 'between'
+  | 'is_null'
+  | 'is_not_null'
+  | 'changed'
+  | 'changed_from'
+  | 'changed_to';
+
 /**
  * Trigger condition
  */
 export interface TriggerCondition {
-  /** Field name */
+  /** Field name (dot-separated for nested paths) */
   field: string;
   /** Operator */
-  operator:
-    | 'equals'
-    | 'not_equals'
-    | 'greater_than'
-    | 'less_than'
-    | 'contains'
-    | 'starts_with'
-    | 'ends_with'
-    | 'changed';
-  /** Value to compare */
+  operator: ConditionOperator;
+  /** Value to compare (an array for in / not_in, a [min, max] pair for between) */
   value?: any;
+  /**
+   * Compare against an expression instead of a literal value,
+   * e.g. another field (`close_date`), a global (`$User.id`) or `$Today - 30d`
+   */
+  valueRef?: string;
 }
 
 /**
@@ -96,6 +116,8 @@ export interface ObjectTriggerConfig {
   type: 'object.create' | 'object.update' | 'object.delete';
   objectName: string;
   conditions?: TriggerCondition[];
+  /** Condition expression, combined with `conditions` using AND */
+  condition?: string;
   fields?: string[];
 }
 
@@ -158,6 +180,29 @@ export interface SendEmailActionConfig {
   attachments?: EmailAttachment[];
 }
 
+/**
+ * Send notification action configuration (legacy)
+ * Sent through the notification service, on any of its channels
+ */
+export interface SendNotificationActionConfig {
+  type: 'send_notification';
+  /** e.g. 'email', 'sms', 'push', 'webhook', 'in-app' */
+  channel: string;
+  /** Addresses, or user IDs for in-app notifications */
+  recipient: string | string[];
+  subject?: string;
+  body?: string;
+  template?: string;
+  /** Template data (default: the trigger data) */
+  data?: Record<string, any>;
+  /** Channel-specific options, e.g. the link and category of in-app notifications */
+  options?: Record<string, any>;
+  /** User whose notification preferences apply, when recipients are addresses */
+  userId?: string;
+  category?: string;
+  priority?: 'low' | 'normal' | 'high';
+}
+
 /**
  * Email attachment
  */
@@ -198,6 +243,7 @@ export type ActionConfig =
   | UpdateFieldActionConfig
   | CreateRecordActionConfig
   | SendEmailActionConfig
+  | SendNotificationActionConfig
   | HttpRequestActionConfig
   | ExecuteScriptActionConfig;
 
@@ -287,8 +333,16 @@ export interface FormulaField {
  */
 export interface CalculatedFormulaConfig {
   type: 'calculated';
+  /** Formula expression, e.g. `IF({amount} > 1000, "Large", "Small")` */
   expression: string;
+  /** Declared result type, checked against the expression when the formula is registered */
   returnType: 'string' | 'number' | 'boolean' | 'date';
+  /**
+   * Related object for each lookup path used in cross-object references,
+   * e.g. `{ account: 'crm_account', 'account.owner': 'user' }`.
+   * Defaults to the lookup field name.
+   */
+  relationships?: Record<string, string>;
 }
 
 /**
@@ -301,6 +355,8 @@ export interface RollupFormulaConfig {
   aggregateField: string;
   operation: RollupOperation;
   conditions?: TriggerCondition[];
+  /** Condition expression related records must match, combined with `conditions` using AND */
+  condition?: string;
 }
 
 /**
@@ -9,6 +9,7 @@ import type {
   UpdateFieldActionConfig,
   CreateRecordActionConfig,
   SendEmailActionConfig,
+  SendNotificationActionConfig,
   HttpRequestActionConfig,
   ExecuteScriptActionConfig,
   AutomationContext,
@@ -180,6 +181,70 @@ describe('ActionExecutor', () => {
     });
   });
 
+  describe('Send Notification Action', () => {
+    it('should send an in-app notification with interpolated values', async () => {
+      const mockHandler = vi.fn().mockResolvedValue({ success: true, messageId: 'n-1' });
+      executor.setSendNotificationHandler(mockHandler);
+
+      const action: SendNotificationActionConfig = {
+        type: 'send_notification',
+        channel: 'in-app',
+        recipient: ['{{record.id}}'],
+        subject: 'New contact {{record.name}}',
+        options: { link: { object: 'Contact', recordId: '{{record.id}}' }, category: 'mention' },
+      };
+
+      const result = await executor.executeAction(action, mockContext);
+
+      expect(result).toEqual({ success: true, messageId: 'n-1' });
+      expect(mockHandler).toHaveBeenCalledWith({
+        type: 'send_notification',
+        channel: 'in-app',
+        recipient: ['123'],
+        subject: 'New contact John Doe',
+        body: undefined,
+        data: mockContext.triggerData,
+        options: { link: { object: 'Contact', recordId: '123' }, category: 'mention' },
+      });
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        expect.stringContaining('Notification (in-app) sent to: 123'),
+      );
+    });
+
+    it('should resolve the user whose preferences apply', async () => {
+      const mockHandler = vi.fn().mockResolvedValue({ success: true });
+      executor.setSendNotificationHandler(mockHandler);
+
+      await executor.executeAction(
+        {
+          type: 'send_notification',
+          channel: 'email',
+          recipient: '{{record.email}}',
+          userId: '{{record.id}}',
+          category: 'contacts',
+          priority: 'low',
+        },
+        mockContext,
+      );
+
+      expect(mockHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: '123', category: 'contacts', priority: 'low' }),
+      );
+    });
+
+    it('should throw error when handler not configured', async () => {
+      const action: SendNotificationActionConfig = {
+        type: 'send_notification',
+        channel: 'in-app',
+        recipient: 'user-1',
+      };
+
+      await expect(executor.executeAction(action, mockContext)).rejects.toThrow(
+        'Send notification handler not configured',
+      );
+    });
+  });
+
   describe('HTTP Request Action', () => {
     it('should execute HTTP POST request', async () => {
       global.fetch = vi.fn().mockResolvedValue({
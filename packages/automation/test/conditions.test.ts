@@ -0,0 +1,174 @@
+/**
+ * Condition Tests
+ *
+ * Tests for the shared condition grammar and evaluator
+ */
+
+import {
+  evaluateCondition,
+  parseCondition,
+  compileConditions,
+  CONDITION_OPERATORS,
+} from '../src/conditions.js';
+import { FormulaError } from '../src/formula-parser.js';
+import type { ConditionContext } from '../src/conditions.js';
+
+const NOW = new Date('2026-03-15T10:00:00.000Z');
+
+function check(condition: string, record: Record<string, unknown>, extra = {}): boolean {
+  const context: ConditionContext = { record, now: NOW, ...extra };
+  return evaluateCondition(condition, context);
+}
+
+describe('Conditions', () => {
+  describe('String grammar', () => {
+    it('should compare fields with symbol operators', () => {
+      expect(check('amount > 1000', { amount: 1500 })).toBe(true);
+      expect(check('amount <= 1000', { amount: 1500 })).toBe(false);
+      expect(check('status == "won"', { status: 'won' })).toBe(true);
+      expect(check("status != 'won'", { status: 'won' })).toBe(false);
+    });
+
+    it('should accept {field} and {{field}} references', () => {
+      expect(check('{amount} >= 500', { amount: 500 })).toBe(true);
+      expect(check("{{review.action}} == 'approve'", { review: { action: 'approve' } })).toBe(true);
+    });
+
+    it('should support AND / OR / NOT grouping', () => {
+      const record = { amount: 200, stage: 'open', priority: 'high' };
+
+      expect(check('amount > 100 AND (stage = "won" OR priority = "high")', record)).toBe(true);
+      expect(check('NOT (amount > 100) || stage == "won"', record)).toBe(false);
+      expect(check('amount > 100 && !(stage = "closed")', record)).toBe(true);
+    });
+
+    it('should compare against other fields and globals', () => {
+      const record = { owner_id: 'u1', budget: 100, spent: 120 };
+
+      expect(check('owner_id = $User.id', record, { user: { id: 'u1' } })).toBe(true);
+      expect(check('spent > budget', record)).toBe(true);
+    });
+
+    it('should support in, not in, between and is null', () => {
+      const record = { stage: 'won', amount: 50, region: null };
+
+      expect(check('stage in ("won", "lost")', record)).toBe(true);
+      expect(check('stage not in ["won"]', record)).toBe(false);
+      expect(check('stage not_in ("open")', record)).toBe(true);
+      expect(check('amount between 10 and 100', record)).toBe(true);
+      expect(check('region is null AND stage is not null', record)).toBe(true);
+      expect(check('region is_not_null', record)).toBe(false);
+    });
+
+    it('should support changed, changed_from and changed_to', () => {
+      const context = { previous: { stage: 'open', amount: 10 } };
+      const record = { stage: 'won', amount: 10 };
+
+      expect(check('stage changed', record, context)).toBe(true);
+      expect(check('amount changed', record, context)).toBe(false);
+      expect(check('stage changed from "open"', record, context)).toBe(true);
+      expect(check('stage changed_to "lost"', record, context)).toBe(false);
+      expect(check('stage changed', record)).toBe(false);
+    });
+
+    it('should support date arithmetic', () => {
+      expect(check('close_date < $Today + 7d', { close_date: '2026-03-20' })).toBe(true);
+      expect(check('close_date < $Today - 30', { close_date: '2026-03-01' })).toBe(false);
+      expect(check('updated_at > $Now - 2h', { updated_at: '2026-03-15T09:00:00.000Z' })).toBe(
+        true,
+      );
+      expect(
+        check('due_date - start_date > 5', { due_date: '2026-03-10', start_date: '2026-03-01' }),
+      ).toBe(true);
+    });
+
+    it('should treat bare values as truthy checks', () => {
+      expect(check('true', {})).toBe(true);
+      expect(check('false', {})).toBe(false);
+      expect(check('approved', { approved: 'true' })).toBe(true);
+      expect(check('approved', {})).toBe(false);
+    });
+
+    it('should report syntax errors with position information', () => {
+      expect(() => parseCondition('amount >')).toThrow(FormulaError);
+      expect(() => parseCondition('amount > 5 )')).toThrow('Unexpected token ")" at position 11');
+      expect(() => parseCondition('amount resembles 5')).toThrow(
+        'Unknown condition operator "resembles" at position 7',
+      );
+      expect(() => parseCondition('$Boss.id = 1')).toThrow('Unknown global "$Boss"');
+    });
+
+    it('should cache parsed conditions, dropping the least recently used', () => {
+      const kept = parseCondition('status = "kept"');
+      const dropped = parseCondition('status = "dropped"');
+      for (let i = 0; i < 600; i++) {
+        parseCondition(`amount > ${i}`);
+        if (i % 100 === 0) expect(parseCondition('status = "kept"')).toBe(kept);
+      }
+
+      expect(parseCondition('status = "kept"')).toBe(kept);
+      expect(parseCondition('status = "dropped"')).not.toBe(dropped);
+      expect(parseCondition('status = "dropped"')).toEqual(dropped);
+    });
+  });
+
+  describe('Equality semantics', () => {
+    it('should compare numbers, numeric strings and booleans consistently', () => {
+      expect(check('count == 5', { count: '5' })).toBe(true);
+      expect(check('approved == true', { approved: 'true' })).toBe(true);
+      expect(check('approved == false', { approved: true })).toBe(false);
+    });
+
+    it('should compare dates by instant', () => {
+      const record = { a: new Date('2026-01-01T00:00:00.000Z') };
+
+      expect(check('a = "2026-01-01T00:00:00.000Z"', record)).toBe(true);
+    });
+  });
+
+  describe('Structured conditions', () => {
+    it('should AND a list of trigger conditions', () => {
+      const conditions = [
+        { field: 'amount', operator: 'greater_or_equal' as const, value: 100 },
+        { field: 'stage', operator: 'in' as const, value: ['won', 'lost'] },
+      ];
+
+      expect(evaluateCondition(conditions, { record: { amount: 100, stage: 'won' } })).toBe(true);
+      expect(evaluateCondition(conditions, { record: { amount: 99, stage: 'won' } })).toBe(false);
+    });
+
+    it('should resolve valueRef expressions', () => {
+      const condition = { field: 'close_date', operator: 'less_than' as const, valueRef: '$Today' };
+
+      expect(evaluateCondition(condition, { record: { close_date: '2026-03-01' }, now: NOW })).toBe(
+        true,
+      );
+    });
+
+    it('should support nested field paths', () => {
+      const condition = { field: 'account.tier', operator: 'equals' as const, value: 'gold' };
+
+      expect(evaluateCondition(condition, { record: { account: { tier: 'gold' } } })).toBe(true);
+    });
+
+    it('should reject unknown operators instead of evaluating to false', () => {
+      expect(() => compileConditions({ field: 'a', operator: 'resembles' as any })).toThrow(
+        'Unknown condition operator: resembles',
+      );
+    });
+
+    it('should reject malformed between values', () => {
+      expect(() => compileConditions({ field: 'a', operator: 'between', value: [1] })).toThrow(
+        'expects a [min, max] pair',
+      );
+    });
+
+    it('should understand every operator in both forms', () => {
+      for (const operator of CONDITION_OPERATORS) {
+        const value =
+          operator === 'between' ? [0, 1] : ['in', 'not_in'].includes(operator) ? [1] : 1;
+        expect(() => compileConditions({ field: 'a', operator, value })).not.toThrow();
+      }
+    });
+  });
+});
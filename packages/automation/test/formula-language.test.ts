@@ -0,0 +1,193 @@
+/**
+ * Formula Language Tests
+ *
+ * Tests for the formula parser, type checker and evaluator
+ */
+
+import { parseFormula, tokenizeFormula, FormulaError } from '../src/formula-parser.js';
+import { checkFormulaType, evaluateFormula } from '../src/formula-evaluator.js';
+
+const NOW = new Date('2026-03-15T10:30:00.000Z');
+
+function run(expression: string, record: Record<string, any> = {}): any {
+  const ast = parseFormula(expression);
+  checkFormulaType(ast, expression);
+  return evaluateFormula(ast, {
+    resolve: (path) => path.reduce((value: any, key) => value?.[key], record),
+    now: NOW,
+  });
+}
+
+function typeOf(expression: string): string {
+  return checkFormulaType(parseFormula(expression), expression);
+}
+
+function errorOf(fn: () => unknown): FormulaError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof FormulaError) return error;
+    throw error;
+  }
+  throw new Error('Expected a FormulaError');
+}
+
+describe('Formula Language', () => {
+  describe('Tokenizer', () => {
+    it('should tokenize literals, fields, functions and operators', () => {
+      const tokens = tokenizeFormula('IF({a.b} >= 1.5, "x", \'y\')');
+
+      expect(tokens.map((t) => t.type)).toEqual([
+        'ident',
+        '(',
+        'field',
+        'operator',
+        'number',
+        ',',
+        'string',
+        ',',
+        'string',
+        ')',
+        'eof',
+      ]);
+      expect(tokens[2]).toMatchObject({ value: 'a.b', position: 3 });
+    });
+
+    it('should report unterminated strings with their start position', () => {
+      const error = errorOf(() => tokenizeFormula('CONCAT({a}, "abc)'));
+
+      expect(error.kind).toBe('syntax');
+      expect(error.position).toBe(12);
+      expect(error.message).toBe('Unterminated string literal at position 12');
+    });
+  });
+
+  describe('Parser', () => {
+    it('should respect operator precedence', () => {
+      expect(run('1 + 2 * 3')).toBe(7);
+      expect(run('(1 + 2) * 3')).toBe(9);
+      expect(run('2 ^ 3 ^ 2')).toBe(512);
+      expect(run('-2 * 3')).toBe(-6);
+    });
+
+    it('should support word and symbol logical operators', () => {
+      expect(run('{a} > 1 AND {b} = "x"', { a: 2, b: 'x' })).toBe(true);
+      expect(run('{a} > 1 && NOT {c}', { a: 2, c: true })).toBe(false);
+      expect(run('{a} < 1 OR {b} <> "x"', { a: 2, b: 'y' })).toBe(true);
+    });
+
+    it('should reject bare identifiers', () => {
+      const error = errorOf(() => parseFormula('amount * 2'));
+
+      expect(error.position).toBe(0);
+      expect(error.message).toContain('use {amount} to reference a field');
+    });
+
+    it('should report unexpected tokens with their position', () => {
+      expect(errorOf(() => parseFormula('1 + * 2')).position).toBe(4);
+      expect(errorOf(() => parseFormula('ROUND(1, 2')).position).toBe(10);
+      expect(errorOf(() => parseFormula('')).message).toBe(
+        'Empty formula expression at position 0',
+      );
+    });
+  });
+
+  describe('Type Checker', () => {
+    it('should infer result types', () => {
+      expect(typeOf('{a} * {b}')).toBe('number');
+      expect(typeOf('{a} & "x"')).toBe('string');
+      expect(typeOf('TODAY() + 3')).toBe('date');
+      expect(typeOf('TODAY() - DATEVALUE({d})')).toBe('number');
+      expect(typeOf('IF({a}, 1, 2)')).toBe('number');
+      expect(typeOf('{a} + {b}')).toBe('any');
+    });
+
+    it('should reject mismatched IF branches', () => {
+      const error = errorOf(() => typeOf('IF({a} > 1, 1, "two")'));
+
+      expect(error.kind).toBe('type');
+      expect(error.message).toBe('Incompatible result types number and string at position 0');
+    });
+
+    it('should reject wrong argument types and counts', () => {
+      expect(errorOf(() => typeOf('ADDMONTHS("2026-01-01", 1)')).position).toBe(10);
+      expect(errorOf(() => typeOf('ROUND()')).message).toContain('expects 1 to 2 argument(s)');
+      expect(errorOf(() => typeOf('NOPE(1)')).message).toContain('Unknown function NOPE()');
+    });
+
+    it('should reject invalid literal regular expressions', () => {
+      expect(errorOf(() => typeOf('REGEX({a}, "[a-")')).position).toBe(11);
+    });
+  });
+
+  describe('Functions', () => {
+    it('should evaluate IF and CASE', () => {
+      expect(run('IF({amount} > 1000, "Large", "Small")', { amount: 5000 })).toBe('Large');
+      expect(run('CASE({stage}, "won", 1, "lost", 0, -1)', { stage: 'lost' })).toBe(0);
+      expect(run('CASE({stage}, "won", 1, "lost", 0, -1)', { stage: 'open' })).toBe(-1);
+    });
+
+    it('should evaluate ISBLANK and BLANKVALUE', () => {
+      expect(run('ISBLANK({name})', { name: '' })).toBe(true);
+      expect(run('ISBLANK({name})', { name: 'x' })).toBe(false);
+      expect(run('BLANKVALUE({discount}, 0)', {})).toBe(0);
+    });
+
+    it('should evaluate text functions', () => {
+      expect(run('TEXT({n}) & "!"', { n: 42 })).toBe('42!');
+      expect(run('CONCAT({first}, " ", {last})', { first: 'Ada', last: 'Lovelace' })).toBe(
+        'Ada Lovelace',
+      );
+      expect(run('LEN(TRIM({s}))', { s: '  abc ' })).toBe(3);
+      expect(run('REGEX({zip}, "[0-9]{5}")', { zip: '12345' })).toBe(true);
+      expect(run('REGEX({zip}, "[0-9]{5}")', { zip: '123456' })).toBe(false);
+    });
+
+    it('should evaluate date functions', () => {
+      expect(run('TEXT(TODAY())')).toBe('2026-03-15');
+      expect(run('TEXT(DATEVALUE({d}))', { d: '2026-01-31T18:00:00Z' })).toBe('2026-01-31');
+      expect(run('TEXT(ADDMONTHS(DATEVALUE("2026-01-31"), 1))')).toBe('2026-02-28');
+      expect(run('TEXT(ADDMONTHS(DATEVALUE("2026-02-28"), 1))')).toBe('2026-03-31');
+      expect(run('DATEVALUE("2026-03-20") - TODAY()')).toBe(5);
+      expect(run('TEXT(TODAY() + 10)')).toBe('2026-03-25');
+    });
+
+    it('should evaluate numeric functions', () => {
+      expect(run('ROUND({n}, 2)', { n: 3.14159 })).toBe(3.14);
+      expect(run('ROUND(-2.5)')).toBe(-3);
+      expect(run('MAX(1, {a}, 3)', { a: 7 })).toBe(7);
+      expect(run('ABS(-4) + FLOOR(1.9) + CEILING(1.1)')).toBe(7);
+    });
+  });
+
+  describe('Evaluation', () => {
+    it('should treat blank fields as zero in arithmetic', () => {
+      expect(run('{a} + 5', {})).toBe(5);
+    });
+
+    it('should do date arithmetic on ISO date strings from records', () => {
+      const record = { close_date: '2024-01-01', created: '2023-12-25T00:00:00.000Z' };
+
+      expect(run('{close_date} + 30', record)).toEqual(new Date('2024-01-31T00:00:00.000Z'));
+      expect(run('30 + {close_date}', record)).toEqual(new Date('2024-01-31T00:00:00.000Z'));
+      expect(run('{close_date} - 1', record)).toEqual(new Date('2023-12-31T00:00:00.000Z'));
+      expect(run('{close_date} - {created}', record)).toBe(7);
+      expect(run('{close_date} + "x"', record)).toBe('2024-01-01x');
+      expect(run('{code} + 1', { code: 'A-1' })).toBe('A-11');
+    });
+
+    it('should return null on division by zero', () => {
+      expect(run('{a} / {b}', { a: 1, b: 0 })).toBeNull();
+    });
+
+    it('should never execute field values as code', () => {
+      const record = { name: '"); process.exit(1); ("' };
+
+      expect(run('{name} & "x"', record)).toBe('"); process.exit(1); ("x');
+    });
+
+    it('should short-circuit IF branches', () => {
+      expect(run('IF({b} = 0, 0, {a} / {b})', { a: 1, b: 0 })).toBe(0);
+    });
+  });
+});
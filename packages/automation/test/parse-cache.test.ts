@@ -0,0 +1,36 @@
+/**
+ * Parse Cache Tests
+ */
+
+import { ParseCache } from '../src/parse-cache.js';
+
+describe('ParseCache', () => {
+  it('should parse each key once and drop the least recently used entry', () => {
+    const cache = new ParseCache<string>(2);
+    const parse = vi.fn((source: string) => source.toUpperCase());
+    const get = (source: string) => cache.get(source, () => parse(source));
+
+    expect(get('a')).toBe('A');
+    get('b');
+    get('a');
+    get('c');
+
+    expect(cache.size).toBe(2);
+    expect(parse).toHaveBeenCalledTimes(3);
+    get('a');
+    expect(parse).toHaveBeenCalledTimes(3);
+    get('b');
+    expect(parse).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not cache failed parses', () => {
+    const cache = new ParseCache<string>();
+
+    expect(() =>
+      cache.get('bad', () => {
+        throw new Error('Syntax error');
+      }),
+    ).toThrow('Syntax error');
+    expect(cache.size).toBe(0);
+  });
+});
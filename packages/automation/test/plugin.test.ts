@@ -175,6 +175,41 @@ describe('Automation Plugin', () => {
         }),
       );
     });
+
+    it('should expose the user who made the change as $User in trigger conditions', async () => {
+      const api = getAutomationAPI(mockKernel);
+      await api!.registerRule({
+        id: 'rule-edited-by-other',
+        name: 'Edited by someone else',
+        status: 'active',
+        trigger: {
+          type: 'object.update',
+          objectName: 'Contact',
+          condition: 'owner != $User.id and $User.roleName = "sales_manager"',
+        },
+        actions: [],
+        createdAt: new Date(),
+      });
+      const update = (userId: string, roleName: string) =>
+        mockContext.trigger('data.afterUpdate', {
+          object: 'Contact',
+          doc: { id: '123', owner: 'rep_1' },
+          previous: { id: '123', owner: 'rep_1' },
+          userId,
+          roleName,
+        });
+      const fired = () =>
+        vi
+          .mocked(mockContext.trigger)
+          .mock.calls.filter(([name]) => name === 'automation.trigger.fired');
+
+      await update('rep_1', 'sales_manager');
+      await update('rep_2', 'sales_rep');
+      expect(fired()).toHaveLength(0);
+
+      await update('manager_1', 'sales_manager');
+      expect(fired()).toHaveLength(1);
+    });
   });
 
   describe('Rule Execution', () => {
@@ -436,6 +471,43 @@ describe('Contract Compliance (IAutomationService)', () => {
       expect(result).toBeDefined();
       expect(typeof result.success).toBe('boolean');
     });
+
+    it('should send notification actions through the notification service', async () => {
+      const send = vi.fn().mockResolvedValue({ success: true, messageId: 'n-1' });
+      mockContext.registerService('notification', { send });
+      await plugin.registerRule({
+        id: 'notify-rule',
+        name: 'Notify Owner',
+        status: 'active',
+        trigger: { type: 'object.create', objectName: 'Case' },
+        actions: [
+          {
+            type: 'send_notification',
+            channel: 'in-app',
+            recipient: '{{record.owner}}',
+            subject: 'Case {{record.id}} assigned to you',
+            options: { link: { object: 'Case', recordId: '{{record.id}}' } },
+          },
+        ],
+        createdAt: new Date(),
+      });
+
+      const result = await plugin.execute('notify-rule', {
+        object: 'Case',
+        record: { id: 'c-1', owner: 'usr-1' },
+        event: 'create',
+      });
+
+      expect(result.success).toBe(true);
+      expect(send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: 'in-app',
+          recipient: 'usr-1',
+          subject: 'Case c-1 assigned to you',
+          options: { link: { object: 'Case', recordId: 'c-1' } },
+        }),
+      );
+    });
   });
 
   describe('listFlows()', () => {
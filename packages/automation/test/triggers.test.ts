@@ -235,6 +235,36 @@ describe('TriggerEngine', () => {
 
       expect(result).toBe(false);
     });
+
+    it('should evaluate a condition expression', () => {
+      const trigger: ObjectTriggerConfig = {
+        type: 'object.update',
+        objectName: 'Opportunity',
+        condition: 'stage changed_to "won" AND amount between 1000 and 5000',
+      };
+
+      const result = engine.evaluateObjectTrigger(
+        trigger,
+        'object.update',
+        'Opportunity',
+        { id: '1', stage: 'won', amount: 2500 },
+        { id: '1', stage: 'open', amount: 2500 },
+      );
+
+      expect(result).toBe(true);
+    });
+
+    it('should reject unknown operators on validation', () => {
+      const trigger: ObjectTriggerConfig = {
+        type: 'object.update',
+        objectName: 'Contact',
+        conditions: [{ field: 'status', operator: 'resembles' as any, value: 'x' }],
+      };
+
+      expect(() => engine.validateConditions(trigger)).toThrow(
+        'Unknown condition operator: resembles',
+      );
+    });
   });
 
   describe('Scheduled Triggers (Cron)', () => {
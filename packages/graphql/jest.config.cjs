@@ -4,9 +4,19 @@ module.exports = {
   extensionsToTreatAsEsm: ['.ts'],
   moduleNameMapper: {
     '^(\\.{1,2}/.*)\\.js$': '$1',
+    '^@objectos/permissions$': '<rootDir>/../permissions/src/index.ts',
   },
   transform: {
-    '^.+\\.ts$': ['ts-jest', { useESM: true }],
+    '^.+\\.ts$': [
+      'ts-jest',
+      {
+        useESM: true,
+        // Workspace packages are compiled from source rather than a prebuilt
+        // dist; their own type-check covers them
+        tsconfig: '<rootDir>/tsconfig.test.json',
+        diagnostics: { exclude: ['**/permissions/src/**'] },
+      },
+    ],
   },
   roots: ['<rootDir>/test'],
   testMatch: ['**/*.test.ts'],
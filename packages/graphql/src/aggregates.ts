@@ -0,0 +1,169 @@
+/**
+ * Aggregate Queries
+ *
+ * Every object gets an `aggregate<Object>s(filter, groupBy)` query returning
+ * one row per group (a single row without `groupBy`), each with `count` and
+ * the `sum` / `avg` of numeric fields and the `min` / `max` of numeric and
+ * date fields. Only the aggregations selected in the query are computed,
+ * by the data layer (`data.aggregate`).
+ */
+
+import {
+  GraphQLObjectType,
+  GraphQLEnumType,
+  GraphQLFloat,
+  GraphQLInt,
+  GraphQLNonNull,
+  GraphQLFieldConfigMap,
+  GraphQLOutputType,
+  GraphQLResolveInfo,
+  Kind,
+  SelectionSetNode,
+} from 'graphql';
+import type { ObjectDef, ObjectFieldDef, AggregationSpec } from './types.js';
+import { toPascalCase } from './utils.js';
+
+const NUMERIC_TYPES = ['number', 'currency', 'percent'];
+const ORDERED_TYPES = [...NUMERIC_TYPES, 'date', 'datetime', 'time'];
+
+type AggregateMethod = 'sum' | 'avg' | 'min' | 'max';
+const AGGREGATE_METHODS: AggregateMethod[] = ['sum', 'avg', 'min', 'max'];
+
+/**
+ * GraphQL types of an object's aggregate query
+ */
+export interface AggregateTypes {
+  /** One result row */
+  rowType: GraphQLObjectType;
+  /** Fields that can be grouped by, if any */
+  groupFieldEnum?: GraphQLEnumType;
+}
+
+/**
+ * Build the aggregate row type of an object
+ */
+export function buildAggregateTypes(
+  objectDef: ObjectDef,
+  fieldType: (field: ObjectFieldDef, fieldName: string) => GraphQLOutputType,
+): AggregateTypes {
+  const typeName = toPascalCase(objectDef.name);
+  const fields = Object.entries(objectDef.fields).filter(([, f]) => !f.blackbox);
+  const numeric = fields.filter(([, f]) => NUMERIC_TYPES.includes(f.type));
+  const ordered = fields.filter(([, f]) => ORDERED_TYPES.includes(f.type));
+  const groupable = fields.filter(([, f]) => !['object', 'address', 'location'].includes(f.type));
+
+  const rowFields: GraphQLFieldConfigMap<any, any> = {
+    count: { type: new GraphQLNonNull(GraphQLInt), description: 'Number of records' },
+  };
+
+  if (numeric.length > 0) {
+    const numericType = new GraphQLObjectType({
+      name: `${typeName}NumericAggregate`,
+      fields: Object.fromEntries(numeric.map(([name]) => [name, { type: GraphQLFloat }])),
+    });
+    rowFields.sum = { type: numericType, description: 'Sum of numeric fields' };
+    rowFields.avg = { type: numericType, description: 'Average of numeric fields' };
+  }
+
+  if (ordered.length > 0) {
+    const minMaxType = new GraphQLObjectType({
+      name: `${typeName}MinMaxAggregate`,
+      fields: Object.fromEntries(ordered.map(([name, f]) => [name, { type: fieldType(f, name) }])),
+    });
+    rowFields.min = { type: minMaxType, description: 'Smallest values' };
+    rowFields.max = { type: minMaxType, description: 'Largest values' };
+  }
+
+  let groupFieldEnum: GraphQLEnumType | undefined;
+  if (groupable.length > 0) {
+    groupFieldEnum = new GraphQLEnumType({
+      name: `${typeName}GroupField`,
+      values: Object.fromEntries(groupable.map(([name]) => [name, { value: name }])),
+    });
+    rowFields.group = {
+      type: new GraphQLObjectType({
+        name: `${typeName}AggregateGroup`,
+        fields: Object.fromEntries(
+          groupable.map(([name, f]) => [name, { type: fieldType(f, name) }]),
+        ),
+      }),
+      description: 'Values of the groupBy fields for this row',
+    };
+  }
+
+  return {
+    rowType: new GraphQLObjectType({
+      name: `${typeName}Aggregate`,
+      description: `Aggregated ${typeName} records`,
+      fields: rowFields,
+    }),
+    groupFieldEnum,
+  };
+}
+
+/**
+ * Aggregations selected in an aggregate query. `count` is always included.
+ */
+export function collectAggregations(info: GraphQLResolveInfo): AggregationSpec[] {
+  const specs: AggregationSpec[] = [{ method: 'count', field: '*', alias: 'count' }];
+  const seen = new Set<string>();
+
+  for (const node of info.fieldNodes) {
+    for (const [method, selectionSet] of selectionsByName(node.selectionSet, info)) {
+      if (!AGGREGATE_METHODS.includes(method as AggregateMethod)) continue;
+      for (const [field] of selectionsByName(selectionSet, info)) {
+        const alias = aggregateAlias(method as AggregateMethod, field);
+        if (field.startsWith('__') || seen.has(alias)) continue;
+        seen.add(alias);
+        specs.push({ method: method as AggregateMethod, field, alias });
+      }
+    }
+  }
+  return specs;
+}
+
+/**
+ * Shape a data layer row as an aggregate result
+ */
+export function toAggregateResult(
+  row: Record<string, any>,
+  aggregations: AggregationSpec[],
+  groupBy: string[] = [],
+): Record<string, any> {
+  const result: Record<string, any> = { count: Number(row.count ?? 0) };
+
+  for (const spec of aggregations) {
+    if (spec.method === 'count') continue;
+    result[spec.method] ??= {};
+    result[spec.method][spec.field] = row[spec.alias] ?? null;
+  }
+
+  if (groupBy.length > 0) {
+    result.group = Object.fromEntries(groupBy.map((field) => [field, row[field] ?? null]));
+  }
+  return result;
+}
+
+function aggregateAlias(method: AggregateMethod, field: string): string {
+  return `${method}_${field}`;
+}
+
+/**
+ * Field selections of a selection set by field name, following fragments
+ */
+function selectionsByName(
+  selectionSet: SelectionSetNode | undefined,
+  info: GraphQLResolveInfo,
+): Array<[string, SelectionSetNode | undefined]> {
+  const result: Array<[string, SelectionSetNode | undefined]> = [];
+  for (const selection of selectionSet?.selections ?? []) {
+    if (selection.kind === Kind.FIELD) {
+      result.push([selection.name.value, selection.selectionSet]);
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      result.push(...selectionsByName(selection.selectionSet, info));
+    } else if (selection.kind === Kind.FRAGMENT_SPREAD) {
+      result.push(...selectionsByName(info.fragments[selection.name.value]?.selectionSet, info));
+    }
+  }
+  return result;
+}
@@ -0,0 +1,157 @@
+/**
+ * Relay Cursor Connections
+ *
+ * List queries return Relay-style `edges` / `pageInfo` alongside the plain
+ * `data` page. Cursors are keyset cursors: they hold the sort value and `_id`
+ * of a record, and the next page is selected with a filter on those values
+ * instead of an offset, so pages stay stable under concurrent inserts and
+ * deep pages cost the same as the first one.
+ */
+
+import {
+  GraphQLObjectType,
+  GraphQLString,
+  GraphQLBoolean,
+  GraphQLNonNull,
+  GraphQLOutputType,
+} from 'graphql';
+import type { Edge, PageInfo } from './types.js';
+
+/**
+ * Relay page info, shared by all connection types
+ */
+export const PageInfoType = new GraphQLObjectType({
+  name: 'PageInfo',
+  description: 'Relay pagination info',
+  fields: {
+    hasNextPage: { type: new GraphQLNonNull(GraphQLBoolean) },
+    hasPreviousPage: { type: new GraphQLNonNull(GraphQLBoolean) },
+    startCursor: { type: GraphQLString, description: 'Cursor of the first edge' },
+    endCursor: { type: GraphQLString, description: 'Cursor of the last edge' },
+  },
+});
+
+/**
+ * Build the edge type of a connection
+ */
+export function buildEdgeType(typeName: string, nodeType: GraphQLOutputType): GraphQLObjectType {
+  return new GraphQLObjectType({
+    name: `${typeName}Edge`,
+    description: `A ${typeName} record and its cursor`,
+    fields: {
+      node: { type: new GraphQLNonNull(nodeType) },
+      cursor: { type: new GraphQLNonNull(GraphQLString), description: 'Keyset cursor' },
+    },
+  });
+}
+
+/**
+ * Sort order a cursor belongs to. Records are always ordered by `_id`
+ * after the sort field, so the order is total.
+ */
+export interface CursorSort {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Decoded keyset cursor
+ */
+interface Cursor {
+  /** Sort field */
+  f: string;
+  /** Sort value of the record */
+  v: any;
+  /** Record ID */
+  id: string;
+}
+
+/**
+ * Encode the cursor of a record for a sort order
+ */
+export function encodeCursor(record: any, sort: CursorSort): string {
+  const cursor: Cursor = {
+    f: sort.field,
+    v: record?.[sort.field] ?? null,
+    id: String(record?._id),
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor, checking it belongs to the sort order of the query
+ */
+export function decodeCursor(value: string, sort: CursorSort): Cursor {
+  let cursor: Cursor;
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+  if (!cursor || typeof cursor !== 'object' || typeof cursor.id !== 'string') {
+    throw new Error('Invalid cursor');
+  }
+  if (cursor.f !== sort.field) {
+    throw new Error(`Cursor does not match the sort order (sorted by ${sort.field})`);
+  }
+  return cursor;
+}
+
+/**
+ * Filter selecting the records after a cursor in the given direction.
+ *
+ * Null (or missing) sort values sort before every other value, so they
+ * come first ascending and last descending. They can't be compared with
+ * `$gt` / `$lt`, so a null cursor value and the null records after a
+ * non-null one are selected by equality with null instead.
+ */
+export function buildKeysetFilter(cursor: Cursor, sort: CursorSort): Record<string, any> {
+  const op = sort.direction === 'desc' ? '$lt' : '$gt';
+  if (sort.field === '_id') {
+    return { _id: { [op]: cursor.id } };
+  }
+
+  const field = sort.field;
+  const ties = { [field]: cursor.v ?? null, _id: { [op]: cursor.id } };
+  if (cursor.v == null) {
+    // Ascending, every non-null value follows the nulls; descending, nothing does
+    return sort.direction === 'desc' ? ties : { $or: [ties, { [field]: { $ne: null } }] };
+  }
+  const after = [{ [field]: { [op]: cursor.v } }, ties];
+  return { $or: sort.direction === 'desc' ? [...after, { [field]: null }] : after };
+}
+
+/**
+ * Storage sort for a sort order, with `_id` as tie-breaker
+ */
+export function toStorageSort(sort: CursorSort): Record<string, 'asc' | 'desc'> {
+  return sort.field === '_id'
+    ? { _id: sort.direction }
+    : { [sort.field]: sort.direction, _id: sort.direction };
+}
+
+/**
+ * The opposite direction of a sort order, for paging backwards
+ */
+export function reverseSort(sort: CursorSort): CursorSort {
+  return { field: sort.field, direction: sort.direction === 'desc' ? 'asc' : 'desc' };
+}
+
+/**
+ * Edges and page info of a page of records
+ */
+export function toConnection(
+  records: any[],
+  sort: CursorSort,
+  page: { hasNextPage: boolean; hasPreviousPage: boolean },
+): { edges: Edge[]; pageInfo: PageInfo } {
+  const edges = records.map((node) => ({ node, cursor: encodeCursor(node, sort) }));
+  return {
+    edges,
+    pageInfo: {
+      ...page,
+      startCursor: edges[0]?.cursor ?? null,
+      endCursor: edges[edges.length - 1]?.cursor ?? null,
+    },
+  };
+}
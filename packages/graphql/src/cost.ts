@@ -0,0 +1,268 @@
+/**
+ * Operation Cost Analysis
+ *
+ * Estimates the cost of an operation before it runs:
+ *
+ * - A field returning a record type costs that type's weight, derived from
+ *   its size: `1 + floor(fieldCount / 10)`. Lookup and reverse relationship
+ *   fields count among the fields, and each traversal costs its target's
+ *   weight. Scalar fields are free.
+ * - A field with `limit` / `first` / `last` arguments multiplies its whole
+ *   subtree by the page size it asks for (default `defaultPageSize`, capped
+ *   at `maxPageSize`).
+ * - Fields can declare their own weight in `extensions.cost`; configured
+ *   `costWeights` override both, by field (`Query.findAccounts`) or type.
+ *
+ * Introspection fields are neither counted nor included in the depth.
+ */
+
+import {
+  GraphQLSchema,
+  GraphQLObjectType,
+  GraphQLField,
+  GraphQLCompositeType,
+  DocumentNode,
+  FragmentDefinitionNode,
+  SelectionSetNode,
+  Kind,
+  getNamedType,
+  getArgumentValues,
+  getOperationAST,
+  isCompositeType,
+  isObjectType,
+} from 'graphql';
+
+/** Weight of aggregate queries, which scan every matching record */
+export const AGGREGATE_COST = 10;
+
+const PAGE_SIZE_ARGS = ['first', 'last', 'limit'];
+
+/**
+ * Options for cost analysis
+ */
+export interface CostAnalysisOptions {
+  operationName?: string;
+  /** Coerced variable values */
+  variables?: Record<string, any>;
+  /** Weight overrides by `Type.field` or type name */
+  weights?: Record<string, number>;
+  defaultPageSize: number;
+  maxPageSize: number;
+}
+
+/**
+ * Estimated cost and depth of an operation
+ */
+export interface OperationCost {
+  cost: number;
+  depth: number;
+}
+
+/**
+ * Estimate the cost and depth of an operation. The document must be valid.
+ */
+export function analyzeOperationCost(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  options: CostAnalysisOptions,
+): OperationCost {
+  const operation = getOperationAST(document, options.operationName);
+  if (!operation) return { cost: 0, depth: 0 };
+
+  const fragments: Record<string, FragmentDefinitionNode> = {};
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments[definition.name.value] = definition;
+    }
+  }
+
+  const rootType = schema.getRootType(operation.operation);
+  if (!rootType) return { cost: 0, depth: 0 };
+
+  return selectionSetCost(schema, rootType, operation.selectionSet, fragments, options, new Set());
+}
+
+/**
+ * Weight of a record type, derived from its size
+ */
+export function typeWeight(type: GraphQLObjectType): number {
+  return 1 + Math.floor(Object.keys(type.getFields()).length / 10);
+}
+
+function selectionSetCost(
+  schema: GraphQLSchema,
+  parentType: GraphQLCompositeType,
+  selectionSet: SelectionSetNode,
+  fragments: Record<string, FragmentDefinitionNode>,
+  options: CostAnalysisOptions,
+  visitedFragments: Set<string>,
+): OperationCost {
+  let cost = 0;
+  let depth = 0;
+
+  for (const selection of selectionSet.selections) {
+    let result: OperationCost | undefined;
+
+    if (selection.kind === Kind.FIELD) {
+      if (selection.name.value.startsWith('__') || !isObjectType(parentType)) continue;
+      const field = parentType.getFields()[selection.name.value];
+      if (!field) continue;
+
+      const namedType = getNamedType(field.type);
+      const children =
+        selection.selectionSet && isCompositeType(namedType)
+          ? selectionSetCost(
+              schema,
+              namedType,
+              selection.selectionSet,
+              fragments,
+              options,
+              visitedFragments,
+            )
+          : { cost: 0, depth: 0 };
+
+      const weight = fieldWeight(parentType, field, options.weights ?? {});
+      const multiplier = pageSize(
+        field,
+        getArgumentValues(field, selection, options.variables),
+        options,
+      );
+      result = { cost: multiplier * (weight + children.cost), depth: children.depth + 1 };
+    } else {
+      const fragment =
+        selection.kind === Kind.INLINE_FRAGMENT ? selection : fragments[selection.name.value];
+      if (!fragment) continue;
+      if (selection.kind === Kind.FRAGMENT_SPREAD) {
+        // Fragment cycles are rejected by validation; guard anyway
+        if (visitedFragments.has(selection.name.value)) continue;
+        visitedFragments = new Set(visitedFragments).add(selection.name.value);
+      }
+      const condition = fragment.typeCondition
+        ? schema.getType(fragment.typeCondition.name.value)
+        : parentType;
+      if (!condition || !isCompositeType(condition)) continue;
+      result = selectionSetCost(
+        schema,
+        condition,
+        fragment.selectionSet,
+        fragments,
+        options,
+        visitedFragments,
+      );
+    }
+
+    cost += result.cost;
+    depth = Math.max(depth, result.depth);
+  }
+
+  return { cost, depth };
+}
+
+function fieldWeight(
+  parentType: GraphQLObjectType,
+  field: GraphQLField<any, any>,
+  weights: Record<string, number>,
+): number {
+  const namedType = getNamedType(field.type);
+  const override = weights[`${parentType.name}.${field.name}`] ?? weights[namedType.name];
+  if (override !== undefined) return override;
+
+  const declared = field.extensions?.cost;
+  if (typeof declared === 'number') return declared;
+
+  return isObjectType(namedType) ? typeWeight(namedType) : 0;
+}
+
+/**
+ * Number of results a paginated field asks for; 1 for other fields
+ */
+function pageSize(
+  field: GraphQLField<any, any>,
+  args: Record<string, any>,
+  options: CostAnalysisOptions,
+): number {
+  if (!field.args.some((arg) => PAGE_SIZE_ARGS.includes(arg.name))) return 1;
+  const requested = args.first ?? args.last ?? args.limit ?? options.defaultPageSize;
+  return Math.max(0, Math.min(requested, options.maxPageSize));
+}
+
+// ─── Cost Budgets ────────────────────────────────────────────────
+
+/**
+ * Outcome of charging an operation against a budget
+ */
+export interface BudgetCharge {
+  allowed: boolean;
+  /** Cost spent in the current window, including this operation if allowed */
+  spent: number;
+  /** Budget left in the current window */
+  remaining: number;
+  /** When the current window ends (epoch ms) */
+  resetAt: number;
+}
+
+/**
+ * Fixed-window cost budgets, keyed by user or tenant
+ */
+export class CostBudgetTracker {
+  private windows: Map<string, { start: number; spent: number }> = new Map();
+
+  constructor(private windowMs: number) {}
+
+  /**
+   * Check whether an operation fits in the budgets of all keys, and charge
+   * it to every key only if it does
+   */
+  charge(
+    budgets: Array<{ key: string; limit: number }>,
+    cost: number,
+    now: number = Date.now(),
+  ): { allowed: boolean; exceeded?: string; charges: Record<string, BudgetCharge> } {
+    const charges: Record<string, BudgetCharge> = {};
+    let exceeded: string | undefined;
+
+    for (const { key, limit } of budgets) {
+      const window = this.getWindow(key, now);
+      const allowed = window.spent + cost <= limit;
+      charges[key] = {
+        allowed,
+        spent: window.spent,
+        remaining: Math.max(0, limit - window.spent),
+        resetAt: window.start + this.windowMs,
+      };
+      if (!allowed) exceeded ??= key;
+    }
+
+    if (!exceeded) {
+      for (const { key, limit } of budgets) {
+        const window = this.getWindow(key, now);
+        window.spent += cost;
+        charges[key].spent = window.spent;
+        charges[key].remaining = Math.max(0, limit - window.spent);
+      }
+    }
+    return { allowed: !exceeded, exceeded, charges };
+  }
+
+  clear(): void {
+    this.windows.clear();
+  }
+
+  private getWindow(key: string, now: number): { start: number; spent: number } {
+    let window = this.windows.get(key);
+    if (!window || now >= window.start + this.windowMs) {
+      if (!window) this.prune(now);
+      window = { start: now, spent: 0 };
+      this.windows.set(key, window);
+    }
+    return window;
+  }
+
+  /** Drop ended windows so idle users don't accumulate */
+  private prune(now: number): void {
+    if (this.windows.size < 1000) return;
+    for (const [key, window] of this.windows) {
+      if (now >= window.start + this.windowMs) this.windows.delete(key);
+    }
+  }
+}
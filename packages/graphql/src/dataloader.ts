@@ -99,10 +99,12 @@ export function createDataLoaderFactory(broker: any) {
       if (!loaders.has(objectName)) {
         const loader = new DataLoader<string, any>(async (ids: string[]) => {
           try {
+            // A batch can hold the same ID more than once (e.g. many records sharing a lookup)
+            const uniqueIds = Array.from(new Set(ids));
             const records = await broker.call('data.find', {
               objectName,
-              filters: { _id: { $in: ids } },
-              options: { limit: ids.length },
+              filters: { _id: { $in: uniqueIds } },
+              options: { limit: uniqueIds.length },
             });
             const recordMap = new Map<string, any>();
             for (const r of Array.isArray(records) ? records : []) {
@@ -0,0 +1,131 @@
+/**
+ * Filter Input Types
+ *
+ * `<Object>Filter` inputs match fields by equality (`status: OPEN`), plus
+ * operator fields by field type:
+ * - numbers, currency, dates and times: `<field>_gt`, `_gte`, `_lt`, `_lte`
+ * - select enums: `<field>_in`, `<field>_nin`
+ *
+ * Operator fields are translated to data layer operators (`$gte`, `$in`, ...)
+ * by `toDataFilter` before a filter reaches the resolvers.
+ */
+
+import {
+  GraphQLInputObjectType,
+  GraphQLInputFieldConfigMap,
+  GraphQLInputType,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLString,
+} from 'graphql';
+import type { ObjectDef, ObjectFieldDef } from './types.js';
+import { toPascalCase } from './utils.js';
+
+const RANGE_TYPES = ['number', 'currency', 'percent', 'date', 'datetime', 'time'];
+const RANGE_OPERATORS = ['gt', 'gte', 'lt', 'lte'] as const;
+const SET_OPERATORS = ['in', 'nin'] as const;
+
+/** Structured values are not matched by equality */
+const UNFILTERABLE_TYPES = ['object', 'address', 'location'];
+
+/** Operator fields of each filter type: `revenue_gte` → [`revenue`, `$gte`] */
+const filterOperators = new WeakMap<GraphQLInputObjectType, Map<string, [string, string]>>();
+
+/**
+ * Build the filter input type of an object
+ */
+export function buildFilterInputType(
+  objectDef: ObjectDef,
+  inputType: (field: ObjectFieldDef, fieldName: string) => GraphQLInputType,
+): GraphQLInputObjectType {
+  const typeName = toPascalCase(objectDef.name);
+  const operators = new Map<string, [string, string]>();
+  const filterable = Object.entries(objectDef.fields).filter(
+    ([, f]) => !f.blackbox && !UNFILTERABLE_TYPES.includes(f.type),
+  );
+
+  const operatorFields = (fieldName: string, fieldDef: ObjectFieldDef): string[] => {
+    const ops: readonly string[] = RANGE_TYPES.includes(fieldDef.type)
+      ? RANGE_OPERATORS
+      : fieldDef.type === 'select' && fieldDef.options?.length
+        ? SET_OPERATORS
+        : [];
+    return ops
+      .map((op) => `${fieldName}_${op}`)
+      .filter((name) => !(name in objectDef.fields) && !operators.has(name));
+  };
+
+  for (const [fieldName, fieldDef] of filterable) {
+    for (const name of operatorFields(fieldName, fieldDef)) {
+      operators.set(name, [fieldName, `$${name.slice(fieldName.length + 1)}`]);
+    }
+  }
+
+  const filterType = new GraphQLInputObjectType({
+    name: `${typeName}Filter`,
+    description: `Filter input for querying ${typeName} records`,
+    fields: () => {
+      const fields: GraphQLInputFieldConfigMap = {
+        _id: { type: GraphQLString, description: 'Filter by record ID' },
+      };
+
+      for (const [fieldName, fieldDef] of filterable) {
+        const type = inputType(fieldDef, fieldName);
+        fields[fieldName] = { type, description: `Filter by ${fieldName}` };
+      }
+
+      for (const [name, [fieldName, op]] of operators) {
+        const type = inputType(objectDef.fields[fieldName], fieldName);
+        fields[name] =
+          op === '$in' || op === '$nin'
+            ? {
+                type: new GraphQLList(new GraphQLNonNull(type)),
+                description: `${fieldName} is ${op === '$in' ? 'one' : 'none'} of the values`,
+              }
+            : { type, description: `${fieldName} ${op.slice(1)} the value` };
+      }
+
+      return fields;
+    },
+  });
+
+  filterOperators.set(filterType, operators);
+  return filterType;
+}
+
+/**
+ * Translate a GraphQL filter into a data layer filter. Unset fields are dropped.
+ */
+export function toDataFilter(
+  filterType: GraphQLInputObjectType | undefined,
+  filter: Record<string, any> | undefined,
+): Record<string, any> | undefined {
+  if (!filter) return filter;
+  const operators = (filterType && filterOperators.get(filterType)) ?? new Map();
+  const result: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined || value === null) continue;
+    const operator = operators.get(key);
+    if (!operator) {
+      result[key] = isOperatorObject(result[key]) ? { ...result[key], $eq: value } : value;
+      continue;
+    }
+    const [field, op] = operator;
+    const current = result[field];
+    result[field] = {
+      ...(isOperatorObject(current) ? current : current !== undefined ? { $eq: current } : {}),
+      [op]: value,
+    };
+  }
+  return result;
+}
+
+function isOperatorObject(value: any): value is Record<string, any> {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Object.keys(value).every((k) => k.startsWith('$'))
+  );
+}
@@ -0,0 +1,333 @@
+/**
+ * GraphQL over WebSocket
+ *
+ * Server side of the `graphql-transport-ws` protocol (as implemented by the
+ * `graphql-ws` client):
+ *
+ * 1. The client opens a socket with the `graphql-transport-ws` subprotocol
+ *    and sends `connection_init`; the server answers `connection_ack`
+ * 2. `subscribe` starts an operation. Subscriptions stream `next` messages
+ *    until either side sends `complete`; queries and mutations send one
+ *    `next` and `complete`
+ * 3. Operations rejected before they run get an `error` message
+ *
+ * Protocol violations close the socket with the protocol's 44xx codes.
+ * Operations pass through the same guard as HTTP requests (persisted
+ * queries, allow-list, depth, cost and budgets).
+ */
+
+import { GraphQLSchema, GraphQLFormattedError, execute, subscribe } from 'graphql';
+import type { ExecutionResult } from 'graphql';
+import type { GraphQLResolverContext } from './types.js';
+import type { GraphQLRequest, GuardedOperation, OperationRejection } from './operation-guard.js';
+import { isRejection } from './operation-guard.js';
+
+/** WebSocket subprotocol of graphql-transport-ws */
+export const GRAPHQL_TRANSPORT_WS_PROTOCOL = 'graphql-transport-ws';
+
+/** Close codes of graphql-transport-ws */
+export const CloseCode = {
+  InternalServerError: 4500,
+  BadRequest: 4400,
+  Unauthorized: 4401,
+  Forbidden: 4403,
+  SubprotocolNotAcceptable: 4406,
+  ConnectionInitialisationTimeout: 4408,
+  SubscriberAlreadyExists: 4409,
+  TooManyInitialisationRequests: 4429,
+} as const;
+
+/**
+ * The parts of a WebSocket the protocol uses (satisfied by `ws`)
+ */
+export interface WebSocketLike {
+  readonly protocol: string;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * Protocol messages
+ */
+export type GraphQLWsMessage =
+  | { type: 'connection_init'; payload?: Record<string, any> }
+  | { type: 'connection_ack'; payload?: Record<string, any> }
+  | { type: 'ping'; payload?: Record<string, any> }
+  | { type: 'pong'; payload?: Record<string, any> }
+  | { type: 'subscribe'; id: string; payload: GraphQLRequest }
+  | { type: 'next'; id: string; payload: ExecutionResult }
+  | { type: 'error'; id: string; payload: GraphQLFormattedError[] }
+  | { type: 'complete'; id: string };
+
+/**
+ * Options of a connection
+ */
+export interface GraphQLWsOptions {
+  /** Current schema */
+  schema: () => GraphQLSchema | undefined;
+  /**
+   * Resolver context of the connection, from the `connection_init`
+   * payload. Return false to refuse the connection.
+   */
+  onConnect: (
+    payload: Record<string, any> | undefined,
+  ) => Promise<GraphQLResolverContext | false> | GraphQLResolverContext | false;
+  /** Check an operation before it runs */
+  prepare: (
+    schema: GraphQLSchema,
+    request: GraphQLRequest,
+    ctx: GraphQLResolverContext,
+  ) => GuardedOperation | OperationRejection;
+  /** Interval of server pings in milliseconds, 0 to disable */
+  keepAliveMs: number;
+  /** Time allowed for `connection_init` in milliseconds */
+  connectionInitTimeoutMs: number;
+}
+
+/**
+ * One graphql-transport-ws connection
+ */
+export class GraphQLWsConnection {
+  private initReceived = false;
+  private context?: GraphQLResolverContext;
+  /** Running operations by ID; null while an operation is starting */
+  private operations: Map<string, AsyncIterator<any> | null> = new Map();
+  private initTimer?: ReturnType<typeof setTimeout>;
+  private pingTimer?: ReturnType<typeof setInterval>;
+  private closed = false;
+
+  constructor(
+    private socket: WebSocketLike,
+    private options: GraphQLWsOptions,
+  ) {
+    if (socket.protocol !== GRAPHQL_TRANSPORT_WS_PROTOCOL) {
+      this.close(CloseCode.SubprotocolNotAcceptable, 'Subprotocol not acceptable');
+      return;
+    }
+    this.initTimer = setTimeout(() => {
+      if (!this.context) {
+        this.close(CloseCode.ConnectionInitialisationTimeout, 'Connection initialisation timeout');
+      }
+    }, options.connectionInitTimeoutMs);
+    this.initTimer.unref?.();
+  }
+
+  /** Whether the socket is still open */
+  get open(): boolean {
+    return !this.closed;
+  }
+
+  /** Whether `connection_init` was acknowledged */
+  get acknowledged(): boolean {
+    return !!this.context;
+  }
+
+  /** IDs of the running operations */
+  getOperationIds(): string[] {
+    return Array.from(this.operations.keys());
+  }
+
+  /**
+   * Handle a message from the client
+   */
+  async handleMessage(data: string): Promise<void> {
+    if (this.closed) return;
+
+    let message: GraphQLWsMessage;
+    try {
+      message = parseMessage(data);
+    } catch (error) {
+      this.close(CloseCode.BadRequest, (error as Error).message);
+      return;
+    }
+
+    switch (message.type) {
+      case 'connection_init':
+        return this.init(message.payload);
+      case 'ping':
+        this.send({ type: 'pong' });
+        return;
+      case 'pong':
+        return;
+      case 'subscribe':
+        return this.subscribe(message.id, message.payload);
+      case 'complete':
+        return this.complete(message.id);
+      default:
+        this.close(CloseCode.BadRequest, `Unexpected message of type ${message.type}`);
+    }
+  }
+
+  /**
+   * Handle the socket closing: stop all operations
+   */
+  handleClose(): void {
+    this.closed = true;
+    clearTimeout(this.initTimer);
+    clearInterval(this.pingTimer);
+    for (const iterator of this.operations.values()) {
+      void iterator?.return?.();
+    }
+    this.operations.clear();
+  }
+
+  private async init(payload: Record<string, any> | undefined): Promise<void> {
+    if (this.initReceived) {
+      this.close(CloseCode.TooManyInitialisationRequests, 'Too many initialisation requests');
+      return;
+    }
+    this.initReceived = true;
+
+    let context: GraphQLResolverContext | false;
+    try {
+      context = await this.options.onConnect(payload);
+    } catch {
+      context = false;
+    }
+    if (!context) {
+      this.close(CloseCode.Forbidden, 'Forbidden');
+      return;
+    }
+    if (this.closed) return;
+
+    this.context = context;
+    clearTimeout(this.initTimer);
+    this.send({ type: 'connection_ack' });
+
+    if (this.options.keepAliveMs > 0) {
+      this.pingTimer = setInterval(() => this.send({ type: 'ping' }), this.options.keepAliveMs);
+      this.pingTimer.unref?.();
+    }
+  }
+
+  private async subscribe(id: string, request: GraphQLRequest): Promise<void> {
+    const ctx = this.context;
+    if (!ctx) {
+      this.close(CloseCode.Unauthorized, 'Unauthorized');
+      return;
+    }
+    if (this.operations.has(id)) {
+      this.close(CloseCode.SubscriberAlreadyExists, `Subscriber for ${id} already exists`);
+      return;
+    }
+
+    const schema = this.options.schema();
+    if (!schema) {
+      this.send({ type: 'error', id, payload: [{ message: 'GraphQL schema not initialized' }] });
+      return;
+    }
+
+    this.operations.set(id, null);
+    try {
+      const operation = this.options.prepare(schema, request, ctx);
+      if (isRejection(operation)) {
+        this.operations.delete(id);
+        this.send({ type: 'error', id, payload: operation.errors });
+        return;
+      }
+
+      const args = {
+        schema,
+        document: operation.document,
+        variableValues: request.variables,
+        operationName: request.operationName,
+        // Own context per operation, so permission checks are not shared
+        contextValue: { ...ctx },
+      };
+      const result =
+        operation.operationType === 'subscription' ? await subscribe(args) : await execute(args);
+
+      if (!isAsyncIterable(result)) {
+        // Query or mutation result, or a subscription that failed to start
+        if (!this.operations.has(id)) return;
+        if (operation.operationType === 'subscription' && result.errors?.length && !result.data) {
+          this.operations.delete(id);
+          this.send({ type: 'error', id, payload: result.errors.map((e) => e.toJSON()) });
+          return;
+        }
+        this.send({ type: 'next', id, payload: result });
+        this.operations.delete(id);
+        this.send({ type: 'complete', id });
+        return;
+      }
+
+      const iterator = result[Symbol.asyncIterator]();
+      if (!this.operations.has(id)) {
+        // Completed by the client while starting
+        await iterator.return?.();
+        return;
+      }
+      this.operations.set(id, iterator);
+
+      for (;;) {
+        const { value, done } = await iterator.next();
+        if (done || this.operations.get(id) !== iterator) break;
+        this.send({ type: 'next', id, payload: value });
+      }
+
+      if (this.operations.get(id) === iterator) {
+        this.operations.delete(id);
+        this.send({ type: 'complete', id });
+      }
+    } catch (error) {
+      if (!this.operations.has(id)) return;
+      this.operations.delete(id);
+      this.send({
+        type: 'error',
+        id,
+        payload: [{ message: (error as Error)?.message || 'Internal server error' }],
+      });
+    }
+  }
+
+  private async complete(id: string): Promise<void> {
+    const iterator = this.operations.get(id);
+    this.operations.delete(id);
+    await iterator?.return?.();
+  }
+
+  private send(message: GraphQLWsMessage): void {
+    if (this.closed) return;
+    this.socket.send(JSON.stringify(message));
+  }
+
+  private close(code: number, reason: string): void {
+    if (this.closed) return;
+    this.socket.close(code, reason);
+    this.handleClose();
+  }
+}
+
+/**
+ * Parse and check a client message
+ */
+function parseMessage(data: string): GraphQLWsMessage {
+  let message: any;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    throw new Error('Message is not valid JSON');
+  }
+  if (!message || typeof message !== 'object' || typeof message.type !== 'string') {
+    throw new Error('Message is missing a type');
+  }
+  if (
+    (message.type === 'subscribe' || message.type === 'complete') &&
+    (typeof message.id !== 'string' || message.id === '')
+  ) {
+    throw new Error(`"${message.type}" message requires an id`);
+  }
+  if (message.type === 'subscribe' && (!message.payload || typeof message.payload !== 'object')) {
+    throw new Error('"subscribe" message requires a payload');
+  }
+  if (message.payload !== undefined && message.payload !== null) {
+    if (typeof message.payload !== 'object') {
+      throw new Error(`"${message.type}" message payload must be an object`);
+    }
+  }
+  return message as GraphQLWsMessage;
+}
+
+function isAsyncIterable(value: any): value is AsyncIterable<any> {
+  return value != null && typeof value[Symbol.asyncIterator] === 'function';
+}
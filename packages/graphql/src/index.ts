@@ -5,25 +5,81 @@
  * - RBAC permission enforcement on every query/mutation
  * - Audit logging for all data mutations
  * - Paginated list queries with filtering and sorting
- * - Subscription support via PubSub (O.1.4)
+ * - Subscription support via PubSub (O.1.4), served over graphql-transport-ws
  * - DataLoader pattern for N+1 prevention (O.1.5)
+ * - Relationship traversal through lookups and reverse lists
+ * - Relay cursor connections and aggregate queries
+ * - Custom scalars, select enums and per-type filter operators
+ * - Persisted queries, allow-list mode and operation cost limits
  * - Enhanced GraphQL Playground (O.1.6)
  */
 
 export { GraphQLPlugin } from './plugin.js';
 export { generateSchema, toPascalCase, buildObjectType } from './schema-generator.js';
+export { collectReverseRelations, buildRelationFields } from './relations.js';
+export type { ReverseRelation, RelationContext } from './relations.js';
+export {
+  PageInfoType,
+  buildEdgeType,
+  encodeCursor,
+  decodeCursor,
+  buildKeysetFilter,
+} from './connections.js';
+export type { CursorSort } from './connections.js';
+export { buildAggregateTypes, collectAggregations, toAggregateResult } from './aggregates.js';
+export type { AggregateTypes } from './aggregates.js';
+export {
+  DateTimeScalar,
+  DateScalar,
+  DecimalScalar,
+  JSONScalar,
+  PostalAddressType,
+  PostalAddressInput,
+  GeoPointType,
+  GeoPointInput,
+  getOptionsEnumType,
+} from './scalars.js';
+export { buildFilterInputType, toDataFilter } from './filters.js';
+export { PersistedQueryRegistry, hashQuery } from './persisted-queries.js';
+export { analyzeOperationCost, typeWeight, CostBudgetTracker, AGGREGATE_COST } from './cost.js';
+export type { CostAnalysisOptions, OperationCost, BudgetCharge } from './cost.js';
+export { OperationGuard, isRejection } from './operation-guard.js';
+export type {
+  GraphQLRequest,
+  GuardedOperation,
+  OperationRejection,
+  OperationErrorCode,
+} from './operation-guard.js';
 export { createResolverCallbacks } from './resolvers.js';
 export { PubSub } from './pubsub.js';
-export { buildSubscriptionType, createSubscriptionHooks } from './subscriptions.js';
+export {
+  buildSubscriptionType,
+  createSubscriptionHooks,
+  getChangedFields,
+} from './subscriptions.js';
+export type {
+  RecordEvent,
+  SubscriptionEventHandler,
+  SubscriptionOptions,
+} from './subscriptions.js';
+export { GraphQLWsConnection, GRAPHQL_TRANSPORT_WS_PROTOCOL, CloseCode } from './graphql-ws.js';
+export type { GraphQLWsMessage, GraphQLWsOptions, WebSocketLike } from './graphql-ws.js';
 export { DataLoader, createDataLoaderFactory } from './dataloader.js';
 export type { DataLoaderOptions } from './dataloader.js';
 export type {
   GraphQLConfig,
   ResolvedGraphQLConfig,
+  PersistedQueriesConfig,
+  CostBudgetConfig,
+  SubscriptionsConfig,
   GraphQLResolverContext,
   ObjectDef,
   ObjectFieldDef,
   PaginatedResult,
+  Edge,
+  PageInfo,
+  AggregationSpec,
+  AggregateArgs,
   PluginHealthReport,
   PluginCapabilityManifest,
   PluginSecurityManifest,
@@ -0,0 +1,282 @@
+/**
+ * Operation Guard
+ *
+ * Runs before an HTTP GraphQL request is executed:
+ *
+ * 1. Resolves the query text through the APQ protocol, and enforces the
+ *    allow-list in `allowListOnly` mode
+ * 2. Parses and validates the document
+ * 3. Rejects operations deeper than `maxDepth` or costlier than `maxComplexity`
+ * 4. Charges the operation cost to the user's and tenant's budgets
+ *
+ * Rejections carry a machine-readable `extensions.code` and, once the cost
+ * is known, the computed cost.
+ */
+
+import {
+  GraphQLSchema,
+  GraphQLError,
+  DocumentNode,
+  GraphQLFormattedError,
+  parse,
+  validate,
+  getVariableValues,
+  getOperationAST,
+  OperationTypeNode,
+} from 'graphql';
+import type { GraphQLResolverContext, ResolvedGraphQLConfig } from './types.js';
+import { PersistedQueryRegistry, hashQuery } from './persisted-queries.js';
+import { analyzeOperationCost, CostBudgetTracker } from './cost.js';
+
+/**
+ * GraphQL request as received over HTTP
+ */
+export interface GraphQLRequest {
+  query?: string;
+  variables?: Record<string, any>;
+  operationName?: string;
+  extensions?: {
+    persistedQuery?: { version?: number; sha256Hash?: string };
+    [key: string]: any;
+  };
+}
+
+/**
+ * An operation cleared to run
+ */
+export interface GuardedOperation {
+  document: DocumentNode;
+  /** Type of the operation to run, if the document has one */
+  operationType?: OperationTypeNode;
+  cost: number;
+  depth: number;
+}
+
+/**
+ * A rejected request and the HTTP response to send
+ */
+export interface OperationRejection {
+  status: number;
+  errors: GraphQLFormattedError[];
+  headers?: Record<string, string>;
+}
+
+/**
+ * Error codes of rejected operations
+ */
+export type OperationErrorCode =
+  | 'PERSISTED_QUERY_NOT_FOUND'
+  | 'PERSISTED_QUERY_NOT_SUPPORTED'
+  | 'PERSISTED_QUERY_HASH_MISMATCH'
+  | 'OPERATION_NOT_ALLOWED'
+  | 'INTROSPECTION_DISABLED'
+  | 'METHOD_NOT_ALLOWED'
+  | 'BAD_REQUEST'
+  | 'QUERY_TOO_DEEP'
+  | 'QUERY_TOO_COMPLEX'
+  | 'COST_BUDGET_EXCEEDED';
+
+/**
+ * Operation Guard
+ */
+export class OperationGuard {
+  readonly registry: PersistedQueryRegistry;
+  private budgets: CostBudgetTracker;
+
+  constructor(private config: ResolvedGraphQLConfig) {
+    this.registry = new PersistedQueryRegistry(config.persistedQueries.maxEntries);
+    this.budgets = new CostBudgetTracker(config.costBudget.windowMs);
+    for (const query of config.persistedQueries.queries) {
+      this.registry.register(query, { pinned: true });
+    }
+  }
+
+  /**
+   * Check a request. Returns the parsed operation, or the rejection to send.
+   * Over GET only queries may run; subscriptions need a WebSocket.
+   */
+  prepare(
+    schema: GraphQLSchema,
+    request: GraphQLRequest,
+    ctx: GraphQLResolverContext,
+    method: 'GET' | 'POST' | 'WS' = 'POST',
+  ): GuardedOperation | OperationRejection {
+    const resolved = this.resolveQuery(request);
+    if (typeof resolved !== 'string') return resolved;
+    const query = resolved;
+
+    if (!this.config.introspection && query.includes('__schema')) {
+      return reject(403, 'INTROSPECTION_DISABLED', 'Introspection is disabled');
+    }
+
+    let document: DocumentNode;
+    try {
+      document = parse(query);
+    } catch (error) {
+      return { status: 200, errors: [(error as GraphQLError).toJSON()] };
+    }
+
+    const validationErrors = validate(schema, document);
+    if (validationErrors.length > 0) {
+      return { status: 200, errors: validationErrors.map((e) => e.toJSON()) };
+    }
+
+    const operation = getOperationAST(document, request.operationName);
+    if (!operation) {
+      // Let execution report the missing / ambiguous operation
+      return { document, cost: 0, depth: 0 };
+    }
+
+    if (method === 'GET' && operation.operation !== 'query') {
+      return reject(405, 'METHOD_NOT_ALLOWED', `Only queries can be sent with GET`);
+    }
+    if (method !== 'WS' && operation.operation === 'subscription') {
+      return reject(400, 'BAD_REQUEST', 'Subscriptions are served over WebSocket');
+    }
+
+    const variables = getVariableValues(
+      schema,
+      operation.variableDefinitions ?? [],
+      request.variables ?? {},
+    );
+    if (variables.errors) {
+      return { status: 200, errors: variables.errors.map((e) => e.toJSON()) };
+    }
+
+    const { cost, depth } = analyzeOperationCost(schema, document, {
+      operationName: request.operationName,
+      variables: variables.coerced,
+      weights: this.config.costWeights,
+      defaultPageSize: this.config.defaultPageSize,
+      maxPageSize: this.config.maxPageSize,
+    });
+
+    if (depth > this.config.maxDepth) {
+      return reject(
+        400,
+        'QUERY_TOO_DEEP',
+        `Query depth ${depth} exceeds the maximum of ${this.config.maxDepth}`,
+        { depth, maxDepth: this.config.maxDepth, cost },
+      );
+    }
+
+    if (cost > this.config.maxComplexity) {
+      return reject(
+        400,
+        'QUERY_TOO_COMPLEX',
+        `Query cost ${cost} exceeds the maximum of ${this.config.maxComplexity}`,
+        { cost, maxCost: this.config.maxComplexity },
+      );
+    }
+
+    const budgetRejection = this.chargeBudgets(cost, ctx);
+    if (budgetRejection) return budgetRejection;
+
+    return { document, operationType: operation.operation, cost, depth };
+  }
+
+  /**
+   * Reset all cost budgets
+   */
+  resetBudgets(): void {
+    this.budgets.clear();
+  }
+
+  /**
+   * Query text of a request — sent inline or referenced by APQ hash
+   */
+  private resolveQuery(request: GraphQLRequest): string | OperationRejection {
+    const { enabled, allowListOnly } = this.config.persistedQueries;
+    const hash = request.extensions?.persistedQuery?.sha256Hash;
+    const query = request.query;
+
+    if (hash && !enabled && !allowListOnly) {
+      return reject(200, 'PERSISTED_QUERY_NOT_SUPPORTED', 'PersistedQueryNotSupported');
+    }
+
+    if (hash && !query) {
+      return (
+        this.registry.get(hash) ??
+        reject(200, 'PERSISTED_QUERY_NOT_FOUND', 'PersistedQueryNotFound')
+      );
+    }
+
+    if (!query || typeof query !== 'string') {
+      return reject(400, 'BAD_REQUEST', 'Query string is required');
+    }
+
+    const queryHash = hashQuery(query);
+    if (hash && hash !== queryHash) {
+      return reject(
+        400,
+        'PERSISTED_QUERY_HASH_MISMATCH',
+        'Provided sha256Hash does not match the query',
+      );
+    }
+
+    if (allowListOnly) {
+      if (!this.registry.has(queryHash)) {
+        return reject(403, 'OPERATION_NOT_ALLOWED', 'Operation is not in the allow-list', {
+          sha256Hash: queryHash,
+        });
+      }
+    } else if (hash) {
+      this.registry.register(query);
+    }
+    return query;
+  }
+
+  /**
+   * Charge the cost to the user's and tenant's budgets
+   */
+  private chargeBudgets(cost: number, ctx: GraphQLResolverContext): OperationRejection | undefined {
+    const { perUser, perTenant } = this.config.costBudget;
+    const budgets: Array<{ key: string; limit: number }> = [];
+    const userKey = ctx.user?.id ?? ctx.ip;
+    if (perUser !== undefined && userKey) budgets.push({ key: `user:${userKey}`, limit: perUser });
+    if (perTenant !== undefined && ctx.tenantId) {
+      budgets.push({ key: `tenant:${ctx.tenantId}`, limit: perTenant });
+    }
+    if (budgets.length === 0) return undefined;
+
+    const result = this.budgets.charge(budgets, cost);
+    if (result.allowed) return undefined;
+
+    const charge = result.charges[result.exceeded!];
+    const scope = result.exceeded!.startsWith('tenant:') ? 'tenant' : 'user';
+    const retryAfter = Math.max(1, Math.ceil((charge.resetAt - Date.now()) / 1000));
+    return {
+      ...reject(
+        429,
+        'COST_BUDGET_EXCEEDED',
+        `Query cost ${cost} exceeds the remaining ${scope} budget of ${charge.remaining}`,
+        {
+          cost,
+          scope,
+          budget: budgets.find((b) => b.key === result.exceeded)!.limit,
+          remaining: charge.remaining,
+          resetAt: new Date(charge.resetAt).toISOString(),
+        },
+      ),
+      headers: { 'Retry-After': String(retryAfter) },
+    };
+  }
+}
+
+/**
+ * Whether a guard result is a rejection
+ */
+export function isRejection(
+  result: GuardedOperation | OperationRejection,
+): result is OperationRejection {
+  return 'errors' in result;
+}
+
+function reject(
+  status: number,
+  code: OperationErrorCode,
+  message: string,
+  details: Record<string, any> = {},
+): OperationRejection {
+  return { status, errors: [{ message, extensions: { code, ...details } }] };
+}
@@ -0,0 +1,96 @@
+/**
+ * Persisted Query Registry
+ *
+ * Maps SHA-256 hashes to query documents for the automatic persisted
+ * queries (APQ) protocol: clients send `extensions.persistedQuery.sha256Hash`
+ * instead of the query text, and register the query once when the server
+ * does not know the hash yet.
+ *
+ * Pinned queries (the configured allow-list, or queries registered through
+ * the service API) are kept forever. Queries registered by clients are
+ * evicted least-recently-used beyond `maxEntries`.
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * SHA-256 hex digest of a query, as used by the APQ protocol
+ */
+export function hashQuery(query: string): string {
+  return createHash('sha256').update(query).digest('hex');
+}
+
+interface PersistedQuery {
+  query: string;
+  pinned: boolean;
+}
+
+/**
+ * In-memory persisted query registry
+ */
+export class PersistedQueryRegistry {
+  private queries: Map<string, PersistedQuery> = new Map();
+  private unpinnedCount = 0;
+
+  constructor(private maxEntries: number = 1000) {}
+
+  /**
+   * Register a query and return its hash
+   */
+  register(query: string, options: { pinned?: boolean } = {}): string {
+    const hash = hashQuery(query);
+    const existing = this.queries.get(hash);
+    const pinned = options.pinned || existing?.pinned || false;
+
+    if (existing) {
+      if (!existing.pinned) this.unpinnedCount--;
+      this.queries.delete(hash);
+    }
+    this.queries.set(hash, { query, pinned });
+    if (!pinned) {
+      this.unpinnedCount++;
+      this.evict();
+    }
+    return hash;
+  }
+
+  /**
+   * Query registered under a hash
+   */
+  get(hash: string): string | undefined {
+    const entry = this.queries.get(hash);
+    if (entry && !entry.pinned) {
+      // Move to the end — most recently used
+      this.queries.delete(hash);
+      this.queries.set(hash, entry);
+    }
+    return entry?.query;
+  }
+
+  has(hash: string): boolean {
+    return this.queries.has(hash);
+  }
+
+  delete(hash: string): boolean {
+    const entry = this.queries.get(hash);
+    if (entry && !entry.pinned) this.unpinnedCount--;
+    return this.queries.delete(hash);
+  }
+
+  getHashes(): string[] {
+    return Array.from(this.queries.keys());
+  }
+
+  get size(): number {
+    return this.queries.size;
+  }
+
+  private evict(): void {
+    for (const [hash, entry] of this.queries) {
+      if (this.unpinnedCount <= this.maxEntries) break;
+      if (entry.pinned) continue;
+      this.queries.delete(hash);
+      this.unpinnedCount--;
+    }
+  }
+}
@@ -6,14 +6,21 @@
  * - O.1.1: Schema generation from metadata (object → GraphQL type mapping)
  * - O.1.2: Query resolvers with RBAC permission enforcement
  * - O.1.3: Mutation resolvers with audit logging
- * - O.1.4: Subscription support via WebSocket (PubSub + subscription types)
+ * - O.1.4: Subscription support via WebSocket (PubSub + subscription types),
+ *   served with the graphql-transport-ws protocol
  * - O.1.5: DataLoader pattern for N+1 prevention
  * - O.1.6: Enhanced GraphQL Playground (GraphiQL-style)
+ * - Automatic persisted queries, allow-list mode, and cost limits / budgets
  *
  * The plugin registers a POST /api/v1/graphql endpoint on the Hono HTTP server.
- * In development mode, a GET /api/v1/graphql endpoint serves an enhanced
+ * GET /api/v1/graphql runs queries sent as URL parameters (e.g. persisted
+ * queries); without parameters, in development mode, it serves an enhanced
  * GraphQL Playground HTML page.
  *
+ * With `subscriptions.port`, a WebSocket server on that port serves
+ * operations — subscriptions in particular — over graphql-transport-ws.
+ * Hosts that upgrade sockets themselves pass them to `handleWebSocket()`.
+ *
  * @example
  * ```typescript
  * import { GraphQLPlugin } from '@objectos/graphql';
@@ -22,8 +29,11 @@
  * ```
  */
 
+import type { IncomingMessage } from 'http';
 import type { Plugin, PluginContext } from '@objectstack/runtime';
-import { graphql, getIntrospectionQuery, GraphQLSchema } from 'graphql';
+import { graphql, execute, getIntrospectionQuery, GraphQLSchema } from 'graphql';
+import { WebSocketServer } from 'ws';
+import type { WebSocket } from 'ws';
 import type {
   GraphQLConfig,
   ResolvedGraphQLConfig,
@@ -39,6 +49,9 @@ import { createResolverCallbacks } from './resolvers.js';
 import { PubSub } from './pubsub.js';
 import { createSubscriptionHooks } from './subscriptions.js';
 import { createDataLoaderFactory } from './dataloader.js';
+import { OperationGuard, isRejection } from './operation-guard.js';
+import type { GraphQLRequest } from './operation-guard.js';
+import { GraphQLWsConnection, GRAPHQL_TRANSPORT_WS_PROTOCOL, CloseCode } from './graphql-ws.js';
 
 /**
  * Resolve user configuration with defaults
@@ -54,6 +67,25 @@ function resolveConfig(config: GraphQLConfig = {}): ResolvedGraphQLConfig {
     defaultPageSize: config.defaultPageSize ?? 20,
     maxPageSize: config.maxPageSize ?? 100,
     playground: config.playground ?? isDev,
+    persistedQueries: {
+      enabled: config.persistedQueries?.enabled ?? true,
+      allowListOnly: config.persistedQueries?.allowListOnly ?? false,
+      queries: config.persistedQueries?.queries ?? [],
+      maxEntries: config.persistedQueries?.maxEntries ?? 1000,
+    },
+    costWeights: config.costWeights ?? {},
+    costBudget: {
+      windowMs: config.costBudget?.windowMs ?? 60_000,
+      perUser: config.costBudget?.perUser,
+      perTenant: config.costBudget?.perTenant,
+    },
+    subscriptions: {
+      enabled: config.subscriptions?.enabled ?? true,
+      port: config.subscriptions?.port,
+      path: config.subscriptions?.path ?? config.path ?? '/api/v1/graphql',
+      keepAliveMs: config.subscriptions?.keepAliveMs ?? 12_000,
+      connectionInitTimeoutMs: config.subscriptions?.connectionInitTimeoutMs ?? 3_000,
+    },
   };
 }
 
@@ -383,9 +415,13 @@ export class GraphQLPlugin implements Plugin {
   private errorCount = 0;
   private pubsub: PubSub;
   private subscriptionHooks: ReturnType<typeof createSubscriptionHooks>;
+  private guard: OperationGuard;
+  private wss?: WebSocketServer;
+  private connections: Set<GraphQLWsConnection> = new Set();
 
   constructor(config: GraphQLConfig = {}) {
     this.config = resolveConfig(config);
+    this.guard = new OperationGuard(this.config);
     this.pubsub = new PubSub();
     this.subscriptionHooks = createSubscriptionHooks(this.pubsub);
   }
@@ -435,55 +471,39 @@ export class GraphQLPlugin implements Plugin {
 
       // POST /api/v1/graphql — execute GraphQL query
       rawApp.post(path, async (c: any) => {
-        this.requestCount++;
+        let body: GraphQLRequest;
         try {
-          const body = await c.req.json();
-          const { query, variables, operationName } = body;
-
-          if (!query || typeof query !== 'string') {
-            return c.json({ errors: [{ message: 'Query string is required' }] }, 400);
-          }
-
-          // Check introspection restriction
-          if (!this.config.introspection && query.includes('__schema')) {
-            return c.json({ errors: [{ message: 'Introspection is disabled' }] }, 403);
-          }
-
-          // Build resolver context from request (with per-request DataLoader — O.1.5)
-          const resolverContext = this.buildResolverContext(c, context);
-
-          const result = await graphql({
-            schema: this.schema!,
-            source: query,
-            variableValues: variables,
-            operationName,
-            contextValue: resolverContext,
-          });
+          body = await c.req.json();
+        } catch {
+          body = {};
+        }
+        return this.handleRequest(c, context, body, 'POST');
+      });
 
-          if (result.errors?.length) {
-            this.errorCount++;
-          }
+      // GET /api/v1/graphql — run a query from URL parameters (persisted
+      // queries), or serve the playground (dev only)
+      rawApp.get(path, async (c: any) => {
+        const param = (name: string) => c.req?.query?.(name);
+        if (!param('query') && !param('extensions')) {
+          return this.config.playground
+            ? c.html(getPlaygroundHTML(path))
+            : c.json({ errors: [{ message: 'Query string is required' }] }, 400);
+        }
 
-          return c.json(result);
-        } catch (error: any) {
-          this.errorCount++;
-          context.logger.error(`[GraphQL] Execution error: ${(error as Error)?.message || error}`);
-          return c.json(
-            {
-              errors: [{ message: error.message || 'Internal server error' }],
-            },
-            500,
-          );
+        let request: GraphQLRequest;
+        try {
+          request = {
+            query: param('query'),
+            operationName: param('operationName'),
+            variables: param('variables') ? JSON.parse(param('variables')) : undefined,
+            extensions: param('extensions') ? JSON.parse(param('extensions')) : undefined,
+          };
+        } catch {
+          return c.json({ errors: [{ message: 'Invalid JSON in URL parameters' }] }, 400);
         }
+        return this.handleRequest(c, context, request, 'GET');
       });
 
-      // GET /api/v1/graphql — serve playground (dev only)
-      if (this.config.playground) {
-        rawApp.get(path, (c: any) => {
-          return c.html(getPlaygroundHTML(path));
-        });
-      }
-
       // GET /api/v1/graphql/schema — introspection endpoint
       if (this.config.introspection) {
         rawApp.get(`${path}/schema`, async (c: any) => {
@@ -504,14 +524,84 @@ export class GraphQLPlugin implements Plugin {
       context.logger.warn('[GraphQL] HTTP server not available — routes not registered');
     }
 
+    // WebSocket server for subscriptions (graphql-transport-ws)
+    const { enabled, port, path } = this.config.subscriptions;
+    if (enabled && port !== undefined) {
+      this.wss = new WebSocketServer({
+        port,
+        path,
+        handleProtocols: (protocols) =>
+          protocols.has(GRAPHQL_TRANSPORT_WS_PROTOCOL) ? GRAPHQL_TRANSPORT_WS_PROTOCOL : false,
+      });
+      this.wss.on('connection', (socket, request) => this.handleWebSocket(socket, request));
+      context.logger.info(`[GraphQL] Subscriptions served on port ${port} at ${path}`);
+    }
+
     context.logger.info('[GraphQL] Started successfully');
     await context.trigger('plugin.started', { pluginId: this.name });
   }
 
+  /**
+   * Check and execute an HTTP GraphQL request
+   */
+  private async handleRequest(
+    c: any,
+    context: PluginContext,
+    request: GraphQLRequest,
+    method: 'GET' | 'POST',
+  ): Promise<any> {
+    this.requestCount++;
+    try {
+      // Build resolver context from request (with per-request DataLoader — O.1.5)
+      const resolverContext = this.buildResolverContext(c, context);
+
+      const operation = this.guard.prepare(this.schema!, request, resolverContext, method);
+      if (isRejection(operation)) {
+        this.errorCount++;
+        for (const [name, value] of Object.entries(operation.headers ?? {})) {
+          c.header?.(name, value);
+        }
+        return c.json({ errors: operation.errors }, operation.status);
+      }
+
+      const result = await execute({
+        schema: this.schema!,
+        document: operation.document,
+        variableValues: request.variables,
+        operationName: request.operationName,
+        contextValue: resolverContext,
+      });
+
+      if (result.errors?.length) {
+        this.errorCount++;
+      }
+
+      return c.json(result);
+    } catch (error: any) {
+      this.errorCount++;
+      context.logger.error(`[GraphQL] Execution error: ${(error as Error)?.message || error}`);
+      return c.json(
+        {
+          errors: [{ message: error.message || 'Internal server error' }],
+        },
+        500,
+      );
+    }
+  }
+
   /**
    * Stop plugin
    */
   async stop(): Promise<void> {
+    for (const connection of this.connections) {
+      connection.handleClose();
+    }
+    this.connections.clear();
+    if (this.wss) {
+      this.wss.clients.forEach((client) => client.close(1001, 'Server stopped'));
+      await new Promise<void>((resolve) => this.wss!.close(() => resolve()));
+      this.wss = undefined;
+    }
     this.pubsub.clear();
     this.schema = undefined;
     this.context?.logger.info('[GraphQL] Stopped');
@@ -587,7 +677,11 @@ export class GraphQLPlugin implements Plugin {
     // Extract user from auth session (set by auth middleware)
     const user =
       (c.get?.('user') ?? c.req?.header?.('x-user-id'))
-        ? { id: c.req.header('x-user-id'), profile: c.req.header('x-user-profile') }
+        ? {
+            id: c.req.header('x-user-id'),
+            profile: c.req.header('x-user-profile'),
+            roleName: c.req.header('x-user-role'),
+          }
         : undefined;
 
     // Create per-request DataLoader factory (O.1.5)
@@ -599,12 +693,96 @@ export class GraphQLPlugin implements Plugin {
       ip: c.req?.header?.('x-forwarded-for') ?? c.req?.header?.('x-real-ip'),
       userAgent: c.req?.header?.('user-agent'),
       sessionId: c.req?.header?.('x-session-id'),
+      tenantId: c.req?.header?.('x-tenant-id'),
       dataLoaders,
     };
   }
 
+  /**
+   * Resolver context of a WebSocket connection. The user comes from the
+   * upgrade request headers, as for HTTP requests, or from an `authToken`
+   * in the `connection_init` payload, verified by the auth service.
+   */
+  private async buildSocketContext(
+    context: PluginContext,
+    request: IncomingMessage | undefined,
+    payload: Record<string, any> | undefined,
+  ): Promise<GraphQLResolverContext | false> {
+    const headers = request?.headers ?? {};
+    const header = (name: string) => {
+      const value = headers[name.toLowerCase()];
+      return Array.isArray(value) ? value[0] : value;
+    };
+    const resolverContext = this.buildResolverContext({ req: { header } }, context);
+    resolverContext.ip ??= request?.socket?.remoteAddress;
+    // Subscriptions live long: don't cache records across events
+    resolverContext.dataLoaders = undefined;
+
+    const token = payload?.authToken;
+    if (token !== undefined) {
+      if (typeof token !== 'string') return false;
+      let authService: any;
+      try {
+        authService = context.getService('auth');
+      } catch {
+        authService = undefined;
+      }
+      const session = await authService?.verify?.(token);
+      if (!session?.userId) return false;
+      resolverContext.user = {
+        id: session.userId,
+        profile: session.profile,
+        roleName: session.roleName ?? session.role,
+      };
+    }
+    return resolverContext;
+  }
+
   // ─── Service API ─────────────────────────────────────────────────
 
+  /**
+   * Serve GraphQL over an upgraded WebSocket (graphql-transport-ws).
+   * Called for the plugin's own WebSocket server, and by hosts that
+   * upgrade sockets on their HTTP server.
+   */
+  handleWebSocket(socket: WebSocket, request?: IncomingMessage): GraphQLWsConnection | undefined {
+    if (!this.config.subscriptions.enabled || !this.context) {
+      socket.close(CloseCode.Forbidden, 'Subscriptions are disabled');
+      return undefined;
+    }
+    const context = this.context;
+
+    const connection = new GraphQLWsConnection(socket, {
+      schema: () => this.schema,
+      onConnect: (payload) => this.buildSocketContext(context, request, payload),
+      prepare: (schema, operation, ctx) => {
+        this.requestCount++;
+        const result = this.guard.prepare(schema, operation, ctx, 'WS');
+        if (isRejection(result)) this.errorCount++;
+        return result;
+      },
+      keepAliveMs: this.config.subscriptions.keepAliveMs,
+      connectionInitTimeoutMs: this.config.subscriptions.connectionInitTimeoutMs,
+    });
+    // Refused right away, e.g. for another subprotocol
+    if (!connection.open) return connection;
+    this.connections.add(connection);
+
+    socket.on('message', (data) => void connection.handleMessage(data.toString()));
+    socket.on('close', () => {
+      connection.handleClose();
+      this.connections.delete(connection);
+    });
+    return connection;
+  }
+
+  /**
+   * Number of open WebSocket connections
+   */
+  getSubscriptionConnectionCount(): number {
+    return this.connections.size;
+  }
+
   /**
    * Get the generated GraphQL schema
    */
@@ -619,6 +797,21 @@ export class GraphQLPlugin implements Plugin {
     return this.pubsub;
   }
 
+  /**
+   * Register a query as a persisted query (and in the allow-list).
+   * Returns its SHA-256 hash.
+   */
+  registerPersistedQuery(query: string): string {
+    return this.guard.registry.register(query, { pinned: true });
+  }
+
+  /**
+   * Hashes of all persisted queries
+   */
+  getPersistedQueryHashes(): string[] {
+    return this.guard.registry.getHashes();
+  }
+
   /**
    * Regenerate the schema (useful after metadata changes)
    */
@@ -686,6 +879,7 @@ export class GraphQLPlugin implements Plugin {
         errorCount: this.errorCount,
         uptime: this.startedAt ? Date.now() - this.startedAt : 0,
         schemaGenerated: !!this.schema,
+        subscriptionConnections: this.connections.size,
       },
     };
   }
@@ -696,8 +890,14 @@ export class GraphQLPlugin implements Plugin {
   getCapabilities(): PluginCapabilityManifest {
     return {
       id: this.name,
-      provides: ['graphql', 'graphql.execute', 'graphql.schema', 'graphql.subscriptions'],
-      consumes: ['http.server', 'permissions', 'audit', 'objectql', 'meta'],
+      provides: [
+        'graphql',
+        'graphql.execute',
+        'graphql.schema',
+        'graphql.subscriptions',
+        'graphql.persisted-queries',
+      ],
+      consumes: ['http.server', 'permissions', 'audit', 'objectql', 'meta', 'auth'],
     };
   }
 
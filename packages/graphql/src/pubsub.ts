@@ -51,6 +51,9 @@ export class PubSub {
       },
       return(): Promise<IteratorResult<any>> {
         unsubscribe();
+        // Settle a pending next() so its consumer can finish
+        resolve?.({ value: undefined, done: true });
+        resolve = null;
         return Promise.resolve({ value: undefined, done: true });
       },
       throw(error: any): Promise<IteratorResult<any>> {
@@ -0,0 +1,164 @@
+/**
+ * Relationship Traversal for the Generated Schema
+ *
+ * - Lookup / master-detail fields whose `reference_to` object is part of the
+ *   schema become nested object fields (`order { customer { name } }`),
+ *   resolved through the per-request DataLoader. The raw ID stays available
+ *   as `<field>_id`.
+ * - Every such lookup also generates a reverse list field on the referenced
+ *   type (`Account.orders`) with filter / sort / limit arguments.
+ *
+ * Each traversal checks read permission on the object it crosses into.
+ */
+
+import {
+  GraphQLObjectType,
+  GraphQLInputObjectType,
+  GraphQLString,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLFieldConfigMap,
+} from 'graphql';
+import type { ObjectDef, ObjectFieldDef, GraphQLResolverContext } from './types.js';
+import type { ResolverCallbacks } from './schema-generator.js';
+import { toDataFilter } from './filters.js';
+
+/**
+ * A list field on a referenced object, listing the records that point to it
+ */
+export interface ReverseRelation {
+  /** Field name on the referenced type, e.g. `orders` */
+  fieldName: string;
+  /** Object holding the lookup, e.g. `order` */
+  objectName: string;
+  /** The lookup field, e.g. `customer` */
+  foreignKey: string;
+}
+
+/**
+ * Types and callbacks relation fields are built from
+ */
+export interface RelationContext {
+  objectTypes: Map<string, GraphQLObjectType>;
+  filterInputs: Map<string, GraphQLInputObjectType>;
+  sortInput: GraphQLInputObjectType;
+  reverseRelations: Map<string, ReverseRelation[]>;
+  callbacks: ResolverCallbacks;
+}
+
+/**
+ * Target object of a lookup / master-detail field, if it is part of the schema
+ */
+export function getLookupTarget(
+  field: ObjectFieldDef,
+  objectNames: Set<string>,
+): string | undefined {
+  if (field.type !== 'lookup' && field.type !== 'master_detail') return undefined;
+  return field.reference_to && objectNames.has(field.reference_to) ? field.reference_to : undefined;
+}
+
+/**
+ * Collect the reverse relations of every object, keyed by the referenced object.
+ * The field is named after the referencing object (`contacts`); when one object
+ * references another through several lookups, each gets `<objects>_by_<field>`.
+ */
+export function collectReverseRelations(objects: ObjectDef[]): Map<string, ReverseRelation[]> {
+  const objectNames = new Set(objects.map((o) => o.name));
+  const relations = new Map<string, ReverseRelation[]>();
+
+  for (const objectDef of objects) {
+    const lookups = Object.entries(objectDef.fields).filter(([, field]) =>
+      getLookupTarget(field, objectNames),
+    );
+
+    for (const [foreignKey, field] of lookups) {
+      const target = field.reference_to!;
+      const sameTarget = lookups.filter(([, f]) => f.reference_to === target).length;
+      const fieldName =
+        sameTarget > 1 ? `${objectDef.name}s_by_${foreignKey}` : `${objectDef.name}s`;
+
+      const targetDef = objects.find((o) => o.name === target)!;
+      if (fieldName in targetDef.fields) continue;
+
+      relations.set(target, [
+        ...(relations.get(target) ?? []),
+        { fieldName, objectName: objectDef.name, foreignKey },
+      ]);
+    }
+  }
+
+  return relations;
+}
+
+/**
+ * Build the lookup, raw ID and reverse list fields of an object type
+ */
+export function buildRelationFields(
+  objectDef: ObjectDef,
+  relations: RelationContext,
+): GraphQLFieldConfigMap<any, GraphQLResolverContext> {
+  const fields: GraphQLFieldConfigMap<any, GraphQLResolverContext> = {};
+  const objectNames = new Set(relations.objectTypes.keys());
+
+  for (const [fieldName, fieldDef] of Object.entries(objectDef.fields)) {
+    const target = getLookupTarget(fieldDef, objectNames);
+    if (!target) continue;
+
+    fields[fieldName] = {
+      type: relations.objectTypes.get(target)!,
+      description: fieldDef.description || fieldDef.label || `Related ${target} record`,
+      resolve: (parent, _args, ctx) => {
+        const id = toRecordId(parent?.[fieldName]);
+        return id ? relations.callbacks.onLookup(target, id, ctx) : null;
+      },
+    };
+
+    const idField = `${fieldName}_id`;
+    if (!(idField in objectDef.fields)) {
+      fields[idField] = {
+        type: GraphQLString,
+        description: `ID of the related ${target} record`,
+        resolve: (parent) => toRecordId(parent?.[fieldName]) ?? null,
+      };
+    }
+  }
+
+  for (const relation of relations.reverseRelations.get(objectDef.name) ?? []) {
+    fields[relation.fieldName] = {
+      type: new GraphQLNonNull(
+        new GraphQLList(new GraphQLNonNull(relations.objectTypes.get(relation.objectName)!)),
+      ),
+      description: `${relation.objectName} records whose ${relation.foreignKey} is this record`,
+      args: {
+        filter: { type: relations.filterInputs.get(relation.objectName)! },
+        sort: { type: relations.sortInput, description: 'Sort order' },
+        limit: { type: GraphQLInt, description: 'Max results' },
+      },
+      resolve: (parent, args, ctx) =>
+        parent?._id
+          ? relations.callbacks.onRelated(
+              relation.objectName,
+              relation.foreignKey,
+              String(parent._id),
+              {
+                ...args,
+                filter: toDataFilter(relations.filterInputs.get(relation.objectName), args.filter),
+              },
+              ctx,
+            )
+          : [],
+    };
+  }
+
+  return fields;
+}
+
+/**
+ * ID held by a lookup value — a plain ID or an already expanded record
+ */
+function toRecordId(value: any): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'object') return value._id ? String(value._id) : undefined;
+  return String(value);
+}
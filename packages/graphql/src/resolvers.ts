@@ -4,6 +4,8 @@
  * Provides query and mutation resolver implementations that:
  * - O.1.2: Enforce RBAC permission checks via the permissions service
  * - O.1.3: Integrate with audit logging for all mutations
+ * - Relay cursor pagination and aggregate queries
+ * - Per-event permission checks for subscriptions
  *
  * All data access goes through context.broker to ensure
  * the Security Kernel intercepts every operation.
@@ -16,6 +18,15 @@ import type {
   SubscriptionHooks,
 } from './types.js';
 import type { ResolverCallbacks } from './schema-generator.js';
+import {
+  buildKeysetFilter,
+  decodeCursor,
+  reverseSort,
+  toConnection,
+  toStorageSort,
+} from './connections.js';
+import type { CursorSort } from './connections.js';
+import { toAggregateResult } from './aggregates.js';
 
 /**
  * Check if a user has permission to perform an action on an object.
@@ -46,6 +57,53 @@ async function checkPermission(
   }
 }
 
+/**
+ * Record filter and hidden fields of a user's read access to an object,
+ * from the permissions service's explain (no restriction without one)
+ */
+async function explainReadAccess(
+  ctx: GraphQLResolverContext,
+  objectName: string,
+): Promise<{ allowed: boolean; filters: Record<string, any>; hiddenFields: string[] }> {
+  const permissionsService = ctx.broker.getService?.('permissions');
+  if (!permissionsService?.explain) return { allowed: true, filters: {}, hiddenFields: [] };
+
+  const explanation = await permissionsService.explain({
+    context: {
+      userId: ctx.user!.id,
+      profiles: [ctx.user!.profile || 'standard'],
+      roleName: ctx.user!.roleName,
+      organizationId: ctx.tenantId,
+    },
+    objectName,
+    action: 'read',
+  });
+  return {
+    allowed: explanation?.allowed === true,
+    filters: explanation?.filters ?? {},
+    hiddenFields: explanation?.hiddenFields ?? [],
+  };
+}
+
+/** Read permission checks already made per request, by object */
+const traversalChecks = new WeakMap<GraphQLResolverContext, Map<string, Promise<void>>>();
+
+/**
+ * Check read permission on an object reached through a relationship.
+ * Checked once per request and object, however many records are traversed.
+ */
+function checkTraversalPermission(ctx: GraphQLResolverContext, objectName: string): Promise<void> {
+  let checks = traversalChecks.get(ctx);
+  if (!checks) {
+    checks = new Map();
+    traversalChecks.set(ctx, checks);
+  }
+  if (!checks.has(objectName)) {
+    checks.set(objectName, checkPermission(ctx.broker, ctx.user, objectName, 'read'));
+  }
+  return checks.get(objectName)!;
+}
+
 /**
  * Log an audit event for a mutation operation.
  * Uses the audit service registered in the kernel.
@@ -88,6 +146,88 @@ function sanitizeFilter(filter: Record<string, any> | undefined): Record<string,
   return clean;
 }
 
+/**
+ * Sort order of a list query; `_id` when none is given
+ */
+function toCursorSort(sort: { field: string; direction?: 'asc' | 'desc' } | undefined): CursorSort {
+  return sort
+    ? { field: sort.field, direction: sort.direction || 'asc' }
+    : { field: '_id', direction: 'asc' };
+}
+
+/**
+ * Count matching records, or undefined if the data layer cannot count
+ */
+async function countRecords(
+  ctx: GraphQLResolverContext,
+  objectName: string,
+  filter: Record<string, any>,
+): Promise<number | undefined> {
+  const count = await ctx.broker
+    .call('data.count', { objectName, filters: filter })
+    .catch(() => undefined); // Graceful fallback if count is not supported
+  return typeof count === 'number' ? count : undefined;
+}
+
+/**
+ * Relay list query: the page after `after` (`first`) or before `before`
+ * (`last`), selected by keyset filter. One extra record is fetched to
+ * tell whether the page has a successor.
+ */
+async function findByCursor(
+  objectName: string,
+  args: any,
+  config: ResolvedGraphQLConfig,
+  ctx: GraphQLResolverContext,
+): Promise<PaginatedResult> {
+  if (args.first != null && args.last != null) {
+    throw new Error('Use either first or last, not both');
+  }
+  if ((args.first ?? 0) < 0 || (args.last ?? 0) < 0) {
+    throw new Error('first and last must not be negative');
+  }
+
+  const backward = args.last != null || (args.first == null && !!args.before);
+  const sort = toCursorSort(args.sort);
+  const querySort = backward ? reverseSort(sort) : sort;
+  const cursor = backward ? args.before : args.after;
+  const limit = Math.min(
+    (backward ? args.last : args.first) ?? args.limit ?? config.defaultPageSize,
+    config.maxPageSize,
+  );
+
+  const filter = sanitizeFilter(args.filter);
+  const keyset = cursor ? buildKeysetFilter(decodeCursor(cursor, sort), querySort) : undefined;
+  const pageFilter =
+    keyset && Object.keys(filter).length > 0 ? { $and: [filter, keyset] } : (keyset ?? filter);
+
+  const [data, total] = await Promise.all([
+    ctx.broker.call('data.find', {
+      objectName,
+      filters: pageFilter,
+      options: { limit: limit + 1, sort: toStorageSort(querySort) },
+    }),
+    countRecords(ctx, objectName, filter),
+  ]);
+
+  const fetched = Array.isArray(data) ? data : [];
+  const hasMore = fetched.length > limit;
+  const records = fetched.slice(0, limit);
+  if (backward) records.reverse();
+
+  return {
+    data: records,
+    totalCount: total ?? records.length,
+    pageSize: limit,
+    offset: 0,
+    hasMore: backward ? !!cursor : hasMore,
+    ...toConnection(records, sort, {
+      hasNextPage: backward ? !!cursor : hasMore,
+      hasPreviousPage: backward ? hasMore : !!cursor,
+    }),
+  };
+}
+
 /**
  * Create resolver callbacks wired to the ObjectStack broker
  */
@@ -112,40 +252,122 @@ export function createResolverCallbacks(
         return result;
       }
 
+      if (args.first != null || args.last != null || args.after || args.before) {
+        return findByCursor(objectName, args, config, ctx);
+      }
+
       // List query with pagination, filtering, sorting
       const limit = Math.min(args.limit || config.defaultPageSize, config.maxPageSize);
       const offset = args.offset || 0;
       const filter = sanitizeFilter(args.filter);
-      const sort = args.sort ? { [args.sort.field]: args.sort.direction || 'asc' } : undefined;
+      const sort = toCursorSort(args.sort);
 
-      const [data, totalCount] = await Promise.all([
+      const [data, total] = await Promise.all([
         ctx.broker.call('data.find', {
           objectName,
           filters: filter,
-          options: { limit, skip: offset, sort },
+          options: { limit, skip: offset, sort: args.sort ? toStorageSort(sort) : undefined },
         }),
-        ctx.broker
-          .call('data.count', {
-            objectName,
-            filters: filter,
-          })
-          .catch(() => 0), // Graceful fallback if count is not supported
+        countRecords(ctx, objectName, filter),
       ]);
 
       const records = Array.isArray(data) ? data : [];
-      const total = typeof totalCount === 'number' ? totalCount : records.length;
+      const totalCount = total ?? records.length;
+      const hasMore = offset + records.length < totalCount;
 
       const result: PaginatedResult = {
         data: records,
-        totalCount: total,
+        totalCount,
         pageSize: limit,
         offset,
-        hasMore: offset + records.length < total,
+        hasMore,
+        ...toConnection(records, sort, { hasNextPage: hasMore, hasPreviousPage: offset > 0 }),
       };
 
       return result;
     },
 
+    /**
+     * Aggregate records in the data layer. Enforces 'read' permission.
+     */
+    onAggregate: async (objectName, args, ctx) => {
+      await checkPermission(ctx.broker, ctx.user, objectName, 'read');
+
+      const rows = await ctx.broker.call('data.aggregate', {
+        objectName,
+        filters: sanitizeFilter(args.filter),
+        groupBy: args.groupBy?.length ? args.groupBy : undefined,
+        aggregations: args.aggregations,
+      });
+      return (Array.isArray(rows) ? rows : []).map((row) =>
+        toAggregateResult(row, args.aggregations, args.groupBy),
+      );
+    },
+
+    /**
+     * Resolve a lookup field through the per-request DataLoader, so the
+     * lookups of all records in a list are fetched in one batch
+     */
+    onLookup: async (objectName, id, ctx) => {
+      await checkTraversalPermission(ctx, objectName);
+
+      if (ctx.dataLoaders) {
+        return ctx.dataLoaders.getLoader(objectName).load(id);
+      }
+      return ctx.broker.call('data.findOne', { objectName, filters: { _id: id } });
+    },
+
+    /**
+     * Resolve a reverse relationship list: records of `objectName` whose
+     * `foreignKey` points to the parent record
+     */
+    onRelated: async (objectName, foreignKey, parentId, args, ctx) => {
+      await checkTraversalPermission(ctx, objectName);
+
+      const limit = Math.min(args.limit || config.defaultPageSize, config.maxPageSize);
+      const sort = args.sort ? { [args.sort.field]: args.sort.direction || 'asc' } : undefined;
+      const records = await ctx.broker.call('data.find', {
+        objectName,
+        filters: { ...sanitizeFilter(args.filter), [foreignKey]: parentId },
+        options: { limit, sort },
+      });
+      return Array.isArray(records) ? records : [];
+    },
+
+    /**
+     * Check a subscription event for the subscriber. Requires 'read'
+     * permission; created and updated records are re-read with the
+     * subscription filter and the subscriber's record-level security and
+     * tenant filter, and fields hidden from the subscriber are removed.
+     * Resolves to null for events the subscriber must not receive.
+     */
+    onEvent: async (objectName, event, payload, filter, ctx) => {
+      try {
+        await checkPermission(ctx.broker, ctx.user, objectName, 'read');
+        if (event === 'deleted') return payload;
+
+        const id = payload?._id;
+        if (id === undefined || id === null) return null;
+        const access = await explainReadAccess(ctx, objectName);
+        if (!access.allowed) return null;
+
+        const conditions = [{ _id: id }, sanitizeFilter(filter), access.filters].filter(
+          (condition) => Object.keys(condition).length > 0,
+        );
+        const record = await ctx.broker.call('data.findOne', {
+          objectName,
+          filters: conditions.length > 1 ? { $and: conditions } : conditions[0],
+        });
+        if (!record) return null;
+
+        const visible = { ...record };
+        for (const field of access.hiddenFields) delete visible[field];
+        return visible;
+      } catch {
+        return null;
+      }
+    },
+
     /**
      * Handle mutation operations: create, update, delete
      * Enforces corresponding permission and generates audit log entries.
@@ -182,7 +404,7 @@ export function createResolverCallbacks(
           });
 
           // Publish subscription event (O.1.4)
-          hooks?.afterUpdate(objectName, record, ctx);
+          hooks?.afterUpdate(objectName, record, ctx, Object.keys(args.input ?? {}));
 
           return record;
         }
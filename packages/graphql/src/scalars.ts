@@ -0,0 +1,277 @@
+/**
+ * Custom Scalars and Structured Field Types
+ *
+ * - `DateTime` — ISO 8601 timestamp, normalized to UTC
+ * - `Date` — calendar date, `YYYY-MM-DD`
+ * - `Decimal` — currency amount; accepts numbers and numeric strings
+ * - `JSON` — arbitrary JSON value (`object` fields)
+ * - `PostalAddress` / `GeoPoint` — `address` and `location` fields
+ * - Enums built from `select` field options
+ *
+ * Invalid input values are rejected during GraphQL validation, before
+ * any resolver runs.
+ */
+
+import {
+  GraphQLScalarType,
+  GraphQLEnumType,
+  GraphQLObjectType,
+  GraphQLInputObjectType,
+  GraphQLString,
+  GraphQLFloat,
+  GraphQLNonNull,
+  GraphQLError,
+  Kind,
+  ValueNode,
+  print,
+} from 'graphql';
+import type { ObjectFieldDef } from './types.js';
+
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DECIMAL_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+
+// ─── DateTime ───────────────────────────────────────────────────
+
+function parseDateTime(value: unknown): string {
+  if (typeof value !== 'string' || !DATE_TIME_PATTERN.test(value)) {
+    throw new GraphQLError(`DateTime must be an ISO 8601 timestamp, got: ${inspect(value)}`);
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new GraphQLError(`Invalid DateTime: ${value}`);
+  }
+  return date.toISOString();
+}
+
+export const DateTimeScalar = new GraphQLScalarType({
+  name: 'DateTime',
+  description: 'ISO 8601 timestamp, e.g. `2024-05-01T09:30:00Z`. Returned in UTC.',
+  serialize(value) {
+    const date = value instanceof Date ? value : new Date(value as string | number);
+    if (isNaN(date.getTime())) {
+      throw new GraphQLError(`DateTime cannot represent value: ${inspect(value)}`);
+    }
+    return date.toISOString();
+  },
+  parseValue: parseDateTime,
+  parseLiteral(ast) {
+    if (ast.kind !== Kind.STRING) {
+      throw new GraphQLError(`DateTime must be a string, got: ${print(ast)}`, { nodes: ast });
+    }
+    return parseDateTime(ast.value);
+  },
+});
+
+// ─── Date ───────────────────────────────────────────────────────
+
+function parseDate(value: unknown): string {
+  const match = typeof value === 'string' ? DATE_PATTERN.exec(value) : null;
+  if (!match) {
+    throw new GraphQLError(`Date must be formatted as YYYY-MM-DD, got: ${inspect(value)}`);
+  }
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new GraphQLError(`Invalid Date: ${value}`);
+  }
+  return value as string;
+}
+
+export const DateScalar = new GraphQLScalarType({
+  name: 'Date',
+  description: 'Calendar date formatted as `YYYY-MM-DD`',
+  serialize(value) {
+    if (typeof value === 'string' && DATE_PATTERN.test(value)) return value;
+    const date = value instanceof Date ? value : new Date(value as string | number);
+    if (isNaN(date.getTime())) {
+      throw new GraphQLError(`Date cannot represent value: ${inspect(value)}`);
+    }
+    return date.toISOString().slice(0, 10);
+  },
+  parseValue: parseDate,
+  parseLiteral(ast) {
+    if (ast.kind !== Kind.STRING) {
+      throw new GraphQLError(`Date must be a string, got: ${print(ast)}`, { nodes: ast });
+    }
+    return parseDate(ast.value);
+  },
+});
+
+// ─── Decimal ────────────────────────────────────────────────────
+
+function parseDecimal(value: unknown): number {
+  const number =
+    typeof value === 'number'
+      ? value
+      : typeof value === 'string' && DECIMAL_PATTERN.test(value.trim())
+        ? Number(value)
+        : NaN;
+  if (!Number.isFinite(number)) {
+    throw new GraphQLError(`Decimal must be a finite number, got: ${inspect(value)}`);
+  }
+  return number;
+}
+
+export const DecimalScalar = new GraphQLScalarType({
+  name: 'Decimal',
+  description:
+    'Decimal amount, e.g. a currency value. Accepts numbers and numeric strings such as `"1250.50"`.',
+  serialize(value) {
+    // SQL drivers may return DECIMAL columns as strings
+    try {
+      return parseDecimal(value);
+    } catch {
+      throw new GraphQLError(`Decimal cannot represent value: ${inspect(value)}`);
+    }
+  },
+  parseValue: parseDecimal,
+  parseLiteral(ast) {
+    if (ast.kind !== Kind.INT && ast.kind !== Kind.FLOAT && ast.kind !== Kind.STRING) {
+      throw new GraphQLError(`Decimal must be a number or string, got: ${print(ast)}`, {
+        nodes: ast,
+      });
+    }
+    return parseDecimal(ast.value);
+  },
+});
+
+// ─── JSON ───────────────────────────────────────────────────────
+
+function parseJSONLiteral(ast: ValueNode, variables?: Record<string, unknown> | null): unknown {
+  switch (ast.kind) {
+    case Kind.STRING:
+    case Kind.ENUM:
+      return ast.value;
+    case Kind.BOOLEAN:
+      return ast.value;
+    case Kind.INT:
+    case Kind.FLOAT:
+      return Number(ast.value);
+    case Kind.NULL:
+      return null;
+    case Kind.LIST:
+      return ast.values.map((item) => parseJSONLiteral(item, variables));
+    case Kind.OBJECT:
+      return Object.fromEntries(
+        ast.fields.map((field) => [field.name.value, parseJSONLiteral(field.value, variables)]),
+      );
+    case Kind.VARIABLE:
+      return variables?.[ast.name.value];
+  }
+}
+
+export const JSONScalar = new GraphQLScalarType({
+  name: 'JSON',
+  description: 'Arbitrary JSON value',
+  serialize(value) {
+    // Blackbox objects may be stored as JSON strings
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  },
+  parseValue: (value) => value,
+  parseLiteral: parseJSONLiteral,
+});
+
+// ─── Address / Geo ──────────────────────────────────────────────
+
+const addressFields = {
+  street: { type: GraphQLString },
+  city: { type: GraphQLString },
+  state: { type: GraphQLString },
+  postalCode: { type: GraphQLString },
+  country: { type: GraphQLString },
+  countryCode: { type: GraphQLString, description: 'ISO 3166-1 alpha-2 code' },
+  formatted: { type: GraphQLString, description: 'Full address as a single line' },
+};
+
+export const PostalAddressType = new GraphQLObjectType({
+  name: 'PostalAddress',
+  description: 'Postal address (`address` fields)',
+  fields: addressFields,
+});
+
+export const PostalAddressInput = new GraphQLInputObjectType({
+  name: 'PostalAddressInput',
+  description: 'Postal address (`address` fields)',
+  fields: addressFields,
+});
+
+export const GeoPointType = new GraphQLObjectType({
+  name: 'GeoPoint',
+  description: 'GPS coordinates (`location` fields)',
+  fields: {
+    latitude: { type: new GraphQLNonNull(GraphQLFloat) },
+    longitude: { type: new GraphQLNonNull(GraphQLFloat) },
+    altitude: { type: GraphQLFloat },
+    accuracy: { type: GraphQLFloat, description: 'Accuracy in meters' },
+  },
+});
+
+export const GeoPointInput = new GraphQLInputObjectType({
+  name: 'GeoPointInput',
+  description: 'GPS coordinates (`location` fields)',
+  fields: {
+    latitude: { type: new GraphQLNonNull(GraphQLFloat) },
+    longitude: { type: new GraphQLNonNull(GraphQLFloat) },
+    altitude: { type: GraphQLFloat },
+    accuracy: { type: GraphQLFloat },
+  },
+});
+
+// ─── Select Enums ───────────────────────────────────────────────
+
+/** Enum per select field definition, shared by its output, input and filter types */
+const optionEnums = new WeakMap<ObjectFieldDef, GraphQLEnumType | null>();
+
+/**
+ * Enum type of a `select` field, built from its options. Option values are
+ * exposed as UPPER_CASE names (`closed_won` → `CLOSED_WON`) and stored as-is.
+ * Returns undefined when the field has no options or two options map to the
+ * same name; such fields stay `String`.
+ */
+export function getOptionsEnumType(
+  field: ObjectFieldDef,
+  typeName: string,
+): GraphQLEnumType | undefined {
+  if (field.type !== 'select' || !field.options?.length) return undefined;
+  if (!optionEnums.has(field)) {
+    optionEnums.set(field, buildOptionsEnumType(field, typeName));
+  }
+  return optionEnums.get(field) ?? undefined;
+}
+
+function buildOptionsEnumType(field: ObjectFieldDef, typeName: string): GraphQLEnumType | null {
+  const values: Record<string, { value: string; description?: string }> = {};
+
+  for (const option of field.options ?? []) {
+    const { value, label } =
+      typeof option === 'string' ? { value: option, label: undefined } : option;
+    let name = String(value)
+      .toUpperCase()
+      .replace(/[^A-Z0-9_]/g, '_');
+    if (!name || /^[0-9]/.test(name)) name = `_${name}`;
+    if (name.startsWith('__') || name in values) return null;
+    values[name] = { value, description: label };
+  }
+
+  return new GraphQLEnumType({
+    name: typeName,
+    description: field.description || field.label || undefined,
+    values,
+  });
+}
+
+function inspect(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
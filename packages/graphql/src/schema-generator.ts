@@ -2,11 +2,14 @@
  * GraphQL Schema Generator for ObjectOS
  *
  * Generates a GraphQL schema from ObjectStack metadata object definitions.
- * Maps ObjectStack field types to GraphQL types and creates:
- * - Object types for each metadata object
+ * Maps ObjectStack field types to GraphQL types (custom scalars, select
+ * enums and structured address / location types) and creates:
+ * - Object types for each metadata object, with lookup traversal and
+ *   reverse relationship fields
  * - Input types for create/update mutations
- * - Filter input types for list queries
- * - Root Query type with find/get operations
+ * - Filter input types with per-type operators for list queries
+ * - Root Query type with find (offset or Relay cursor pagination), get and
+ *   aggregate operations
  * - Root Mutation type with create/update/delete operations
  */
 
@@ -31,15 +34,35 @@ import type {
   ObjectFieldDef,
   GraphQLResolverContext,
   ResolvedGraphQLConfig,
+  AggregateArgs,
 } from './types.js';
 import type { PubSub } from './pubsub.js';
 import { buildSubscriptionType } from './subscriptions.js';
+import type { SubscriptionEventHandler } from './subscriptions.js';
+import { buildRelationFields, collectReverseRelations } from './relations.js';
+import type { RelationContext } from './relations.js';
+import { PageInfoType, buildEdgeType } from './connections.js';
+import { buildAggregateTypes, collectAggregations } from './aggregates.js';
+import { buildFilterInputType, toDataFilter } from './filters.js';
+import { AGGREGATE_COST } from './cost.js';
+import {
+  DateTimeScalar,
+  DateScalar,
+  DecimalScalar,
+  JSONScalar,
+  PostalAddressType,
+  PostalAddressInput,
+  GeoPointType,
+  GeoPointInput,
+  getOptionsEnumType,
+} from './scalars.js';
 import { toPascalCase } from './utils.js';
 
 /**
- * Map ObjectStack field type to GraphQL output type
+ * Map ObjectStack field type to GraphQL output type.
+ * `enumName` names the enum generated for a select field with options.
  */
-function mapFieldToGraphQLType(field: ObjectFieldDef): GraphQLOutputType {
+function mapFieldToGraphQLType(field: ObjectFieldDef, enumName?: string): GraphQLOutputType {
   switch (field.type) {
     case 'text':
     case 'textarea':
@@ -50,19 +73,23 @@ function mapFieldToGraphQLType(field: ObjectFieldDef): GraphQLOutputType {
     case 'phone':
     case 'color':
     case 'autonumber':
-    case 'datetime':
-    case 'date':
     case 'time':
     case 'lookup':
     case 'master_detail':
     case 'image':
     case 'file':
-    case 'address':
-    case 'location':
       return GraphQLString;
 
-    case 'number':
+    case 'datetime':
+      return DateTimeScalar;
+
+    case 'date':
+      return DateScalar;
+
     case 'currency':
+      return DecimalScalar;
+
+    case 'number':
     case 'percent':
       return GraphQLFloat;
 
@@ -71,12 +98,17 @@ function mapFieldToGraphQLType(field: ObjectFieldDef): GraphQLOutputType {
       return GraphQLBoolean;
 
     case 'select':
-      // Select fields map to String (options are metadata, not schema-level)
-      return GraphQLString;
+      // Select fields without options (or with clashing option names) stay String
+      return (enumName && getOptionsEnumType(field, enumName)) || GraphQLString;
 
     case 'object':
-      // Blackbox objects are stored as JSON strings
-      return GraphQLString;
+      return JSONScalar;
+
+    case 'address':
+      return PostalAddressType;
+
+    case 'location':
+      return GeoPointType;
 
     default:
       return GraphQLString;
@@ -86,26 +118,33 @@ function mapFieldToGraphQLType(field: ObjectFieldDef): GraphQLOutputType {
 /**
  * Map ObjectStack field type to GraphQL input type
  */
-function mapFieldToGraphQLInputType(field: ObjectFieldDef): GraphQLInputType {
+function mapFieldToGraphQLInputType(field: ObjectFieldDef, enumName?: string): GraphQLInputType {
   switch (field.type) {
-    case 'number':
-    case 'currency':
-    case 'percent':
-      return GraphQLFloat;
+    case 'address':
+      return PostalAddressInput;
 
-    case 'boolean':
-    case 'toggle':
-      return GraphQLBoolean;
+    case 'location':
+      return GeoPointInput;
 
     default:
-      return GraphQLString;
+      // Scalars and enums are both output and input types
+      return mapFieldToGraphQLType(field, enumName) as GraphQLInputType;
   }
 }
 
 /**
- * Build GraphQL object type from an ObjectStack object definition
+ * Name of the enum type of a select field, e.g. `AccountType`
+ */
+function enumTypeName(objectDef: ObjectDef, fieldName: string): string {
+  return `${toPascalCase(objectDef.name)}${toPascalCase(fieldName)}`;
+}
+
+/**
+ * Build GraphQL object type from an ObjectStack object definition.
+ * With a relation context, lookups become nested objects and reverse
+ * relationship lists are added.
  */
-function buildObjectType(objectDef: ObjectDef): GraphQLObjectType {
+function buildObjectType(objectDef: ObjectDef, relations?: RelationContext): GraphQLObjectType {
   const typeName = toPascalCase(objectDef.name);
 
   return new GraphQLObjectType({
@@ -117,14 +156,17 @@ function buildObjectType(objectDef: ObjectDef): GraphQLObjectType {
       };
 
       for (const [fieldName, fieldDef] of Object.entries(objectDef.fields)) {
+        const type = mapFieldToGraphQLType(fieldDef, enumTypeName(objectDef, fieldName));
         fields[fieldName] = {
-          type: fieldDef.required
-            ? new GraphQLNonNull(mapFieldToGraphQLType(fieldDef))
-            : mapFieldToGraphQLType(fieldDef),
+          type: fieldDef.required ? new GraphQLNonNull(type) : type,
           description: fieldDef.description || fieldDef.label || undefined,
         };
       }
 
+      if (relations) {
+        Object.assign(fields, buildRelationFields(objectDef, relations));
+      }
+
       // Standard metadata fields
       fields.created_at = { type: GraphQLString, description: 'Creation timestamp' };
       fields.updated_at = { type: GraphQLString, description: 'Last update timestamp' };
@@ -151,7 +193,7 @@ function buildInputType(objectDef: ObjectDef, suffix: string): GraphQLInputObjec
 
       for (const [fieldName, fieldDef] of Object.entries(objectDef.fields)) {
         // For create: required fields are NonNull; for update: all fields are optional
-        const inputType = mapFieldToGraphQLInputType(fieldDef);
+        const inputType = mapFieldToGraphQLInputType(fieldDef, enumTypeName(objectDef, fieldName));
         fields[fieldName] = {
           type: isCreate && fieldDef.required ? new GraphQLNonNull(inputType) : inputType,
           description: fieldDef.description || fieldDef.label || undefined,
@@ -164,36 +206,8 @@ function buildInputType(objectDef: ObjectDef, suffix: string): GraphQLInputObjec
 }
 
 /**
- * Build a filter input type for list queries
- */
-function buildFilterInputType(objectDef: ObjectDef): GraphQLInputObjectType {
-  const typeName = toPascalCase(objectDef.name);
-
-  return new GraphQLInputObjectType({
-    name: `${typeName}Filter`,
-    description: `Filter input for querying ${typeName} records`,
-    fields: () => {
-      const fields: GraphQLInputFieldConfigMap = {
-        _id: { type: GraphQLString, description: 'Filter by record ID' },
-      };
-
-      for (const [fieldName, fieldDef] of Object.entries(objectDef.fields)) {
-        // Only add filterable fields (non-blackbox)
-        if (!fieldDef.blackbox) {
-          fields[fieldName] = {
-            type: mapFieldToGraphQLInputType(fieldDef),
-            description: `Filter by ${fieldName}`,
-          };
-        }
-      }
-
-      return fields;
-    },
-  });
-}
-
-/**
- * Build paginated result type wrapping an object type
+ * Build paginated result type wrapping an object type. Offset pages use
+ * `data`; Relay clients use `edges` and `pageInfo`.
  */
 function buildPaginatedType(
   objectDef: ObjectDef,
@@ -216,6 +230,19 @@ function buildPaginatedType(
         type: new GraphQLNonNull(GraphQLBoolean),
         description: 'Whether more records exist',
       },
+      edges: {
+        type: new GraphQLNonNull(
+          new GraphQLList(new GraphQLNonNull(buildEdgeType(typeName, objectType))),
+        ),
+        description: 'Records with their cursors',
+        // Costed by their nodes
+        extensions: { cost: 0 },
+      },
+      pageInfo: {
+        type: new GraphQLNonNull(PageInfoType),
+        description: 'Relay page info',
+        extensions: { cost: 0 },
+      },
     },
   });
 }
@@ -267,6 +294,24 @@ export interface ResolverCallbacks {
     args: any,
     ctx: GraphQLResolverContext,
   ) => Promise<any>;
+  /** Aggregate the records of an object, one row per group */
+  onAggregate: (
+    objectName: string,
+    args: AggregateArgs,
+    ctx: GraphQLResolverContext,
+  ) => Promise<any[]>;
+  /** Resolve the record a lookup field points to */
+  onLookup: (objectName: string, id: string, ctx: GraphQLResolverContext) => Promise<any>;
+  /** List the records of an object whose lookup points to a parent record */
+  onRelated: (
+    objectName: string,
+    foreignKey: string,
+    parentId: string,
+    args: any,
+    ctx: GraphQLResolverContext,
+  ) => Promise<any[]>;
+  /** Check a subscription event for the subscriber; null skips it */
+  onEvent: SubscriptionEventHandler;
 }
 
 /**
@@ -296,20 +341,40 @@ export function generateSchema(
   const queryFields: GraphQLFieldConfigMap<any, GraphQLResolverContext> = {};
   const mutationFields: GraphQLFieldConfigMap<any, GraphQLResolverContext> = {};
   const objectTypes = new Map<string, GraphQLObjectType>();
+  const filterInputs = new Map<string, GraphQLInputObjectType>();
+  const relations: RelationContext = {
+    objectTypes,
+    filterInputs,
+    sortInput: SortInput,
+    reverseRelations: collectReverseRelations(objects),
+    callbacks,
+  };
+
+  // Object and filter types first — relation fields reference each other's types
+  for (const objectDef of objects) {
+    objectTypes.set(objectDef.name, buildObjectType(objectDef, relations));
+    filterInputs.set(
+      objectDef.name,
+      buildFilterInputType(objectDef, (field, fieldName) =>
+        mapFieldToGraphQLInputType(field, enumTypeName(objectDef, fieldName)),
+      ),
+    );
+  }
 
   for (const objectDef of objects) {
     const typeName = toPascalCase(objectDef.name);
-    const objectType = buildObjectType(objectDef);
-    objectTypes.set(objectDef.name, objectType);
+    const objectType = objectTypes.get(objectDef.name)!;
     const createInput = buildInputType(objectDef, 'CreateInput');
     const updateInput = buildInputType(objectDef, 'UpdateInput');
-    const filterInput = buildFilterInputType(objectDef);
+    const filterInput = filterInputs.get(objectDef.name)!;
     const paginatedType = buildPaginatedType(objectDef, objectType);
 
-    // Query: find[Object]s(filter, limit, offset, sort)
+    // Query: find[Object]s(filter, limit, offset, sort, first, after, last, before)
     queryFields[`find${typeName}s`] = {
       type: new GraphQLNonNull(paginatedType),
       description: `List ${objectDef.label || typeName} records`,
+      // Costed by the records selected in `data` / `edges`
+      extensions: { cost: 0 },
       args: {
         filter: { type: filterInput },
         limit: {
@@ -318,9 +383,18 @@ export function generateSchema(
         },
         offset: { type: GraphQLInt, description: 'Offset for pagination (default: 0)' },
         sort: { type: SortInput, description: 'Sort order' },
+        first: { type: GraphQLInt, description: 'Relay: number of records after `after`' },
+        after: { type: GraphQLString, description: 'Relay: cursor to continue from' },
+        last: { type: GraphQLInt, description: 'Relay: number of records before `before`' },
+        before: { type: GraphQLString, description: 'Relay: cursor to page back from' },
       },
       resolve: async (_root, args, ctx) => {
-        return callbacks.onQuery(objectDef.name, 'find', args, ctx);
+        return callbacks.onQuery(
+          objectDef.name,
+          'find',
+          { ...args, filter: toDataFilter(filterInput, args.filter) },
+          ctx,
+        );
       },
     };
 
@@ -336,6 +410,36 @@ export function generateSchema(
       },
     };
 
+    // Query: aggregate[Object]s(filter, groupBy)
+    const aggregateTypes = buildAggregateTypes(objectDef, (field, fieldName) =>
+      mapFieldToGraphQLType(field, enumTypeName(objectDef, fieldName)),
+    );
+    queryFields[`aggregate${typeName}s`] = {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(aggregateTypes.rowType))),
+      description: `Aggregate ${objectDef.label || typeName} records`,
+      extensions: { cost: AGGREGATE_COST },
+      args: {
+        filter: { type: filterInput },
+        ...(aggregateTypes.groupFieldEnum && {
+          groupBy: {
+            type: new GraphQLList(new GraphQLNonNull(aggregateTypes.groupFieldEnum)),
+            description: 'Fields to group by (default: one row for all records)',
+          },
+        }),
+      },
+      resolve: async (_root, args, ctx, info) => {
+        return callbacks.onAggregate(
+          objectDef.name,
+          {
+            ...args,
+            filter: toDataFilter(filterInput, args.filter),
+            aggregations: collectAggregations(info),
+          },
+          ctx,
+        );
+      },
+    };
+
     // Mutation: create[Object](input)
     mutationFields[`create${typeName}`] = {
       type: objectType,
@@ -377,7 +481,10 @@ export function generateSchema(
   // Build subscription type if PubSub is provided (O.1.4)
   let subscriptionType: GraphQLObjectType | undefined;
   if (options?.pubsub) {
-    subscriptionType = buildSubscriptionType(objects, objectTypes, options.pubsub);
+    subscriptionType = buildSubscriptionType(objects, objectTypes, options.pubsub, {
+      filterInputs,
+      onEvent: callbacks.onEvent,
+    });
   }
 
   return new GraphQLSchema({
@@ -2,20 +2,72 @@
  * GraphQL Subscription Support (O.1.4)
  *
  * Generates subscription types for each object:
- * - on{Object}Created — fires when a record is created
- * - on{Object}Updated — fires when a record is updated
- * - on{Object}Deleted — fires when a record is deleted
+ * - on{Object}Created(filter) — fires when a matching record is created
+ * - on{Object}Updated(filter, fields) — fires when a matching record is
+ *   updated; with `fields`, only when one of those fields was changed
+ * - on{Object}Deleted(ids) — fires when a record is deleted
+ *
+ * Every event is checked for each subscriber before delivery (`onEvent`),
+ * so users only receive events for records they can read.
  */
 
-import { GraphQLObjectType, GraphQLNonNull, GraphQLString, GraphQLFieldConfigMap } from 'graphql';
+import {
+  GraphQLObjectType,
+  GraphQLNonNull,
+  GraphQLString,
+  GraphQLList,
+  GraphQLEnumType,
+  GraphQLInputObjectType,
+  GraphQLFieldConfigArgumentMap,
+  GraphQLFieldConfigMap,
+} from 'graphql';
 import type { GraphQLResolverContext, ObjectDef } from './types.js';
 import { PubSub } from './pubsub.js';
+import { toDataFilter } from './filters.js';
 import { toPascalCase } from './utils.js';
 
+/** Record events published for subscriptions */
+export type RecordEvent = 'created' | 'updated' | 'deleted';
+
+/**
+ * Check an event for a subscriber. Resolves to the payload to deliver, or
+ * null to skip the event.
+ */
+export type SubscriptionEventHandler = (
+  objectName: string,
+  event: RecordEvent,
+  payload: any,
+  filter: Record<string, any> | undefined,
+  ctx: GraphQLResolverContext,
+) => Promise<any>;
+
+/**
+ * Options for building the subscription type
+ */
+export interface SubscriptionOptions {
+  /** Filter input type of each object, by object name */
+  filterInputs?: Map<string, GraphQLInputObjectType>;
+  /** Per-event check; without it events are delivered as published */
+  onEvent?: SubscriptionEventHandler;
+}
+
+/** Fields set by the update that published a record */
+const changedFields = new WeakMap<object, string[]>();
+
+/**
+ * Fields changed by the update that published a record. Records published
+ * without this information count every field they contain as changed.
+ */
+export function getChangedFields(record: any): string[] {
+  if (!record || typeof record !== 'object') return [];
+  return changedFields.get(record) ?? Object.keys(record);
+}
+
 export function buildSubscriptionType(
   objects: ObjectDef[],
   objectTypes: Map<string, GraphQLObjectType>,
   pubsub: PubSub,
+  options: SubscriptionOptions = {},
 ): GraphQLObjectType | undefined {
   if (objects.length === 0) return undefined;
 
@@ -26,19 +78,58 @@ export function buildSubscriptionType(
     const objectType = objectTypes.get(objectDef.name);
     if (!objectType) continue;
 
+    const filterType = options.filterInputs?.get(objectDef.name);
+    const filterArgs: GraphQLFieldConfigArgumentMap = filterType
+      ? { filter: { type: filterType, description: 'Only records matching this filter' } }
+      : {};
+
+    /** Subscribe to an event, keeping the payloads `accept` lets through */
+    const subscribe =
+      (event: RecordEvent, accept: (payload: any, args: any) => boolean = () => true) =>
+      (_root: any, args: any, ctx: GraphQLResolverContext) => {
+        const filter = toDataFilter(filterType, args.filter);
+        return filterEvents(pubsub.asyncIterator(`${objectDef.name}.${event}`), async (payload) => {
+          if (!accept(payload, args)) return null;
+          return options.onEvent
+            ? options.onEvent(objectDef.name, event, payload, filter, ctx)
+            : payload;
+        });
+      };
+
     // on{Object}Created
     fields[`on${typeName}Created`] = {
       type: objectType,
       description: `Fires when a ${typeName} record is created`,
-      subscribe: () => pubsub.asyncIterator(`${objectDef.name}.created`),
+      args: filterArgs,
+      subscribe: subscribe('created'),
       resolve: (payload: any) => payload,
     };
 
     // on{Object}Updated
+    const watchable = Object.keys(objectDef.fields).filter(
+      (name) => !objectDef.fields[name].blackbox,
+    );
+    const watchArgs: GraphQLFieldConfigArgumentMap = {};
+    if (watchable.length > 0) {
+      const changeFieldEnum = new GraphQLEnumType({
+        name: `${typeName}ChangeField`,
+        values: Object.fromEntries(watchable.map((name) => [name, { value: name }])),
+      });
+      watchArgs.fields = {
+        type: new GraphQLList(new GraphQLNonNull(changeFieldEnum)),
+        description: 'Only fire when one of these fields was changed',
+      };
+    }
     fields[`on${typeName}Updated`] = {
       type: objectType,
       description: `Fires when a ${typeName} record is updated`,
-      subscribe: () => pubsub.asyncIterator(`${objectDef.name}.updated`),
+      args: { ...filterArgs, ...watchArgs },
+      subscribe: subscribe(
+        'updated',
+        (payload, args) =>
+          !args.fields?.length ||
+          getChangedFields(payload).some((field) => args.fields.includes(field)),
+      ),
       resolve: (payload: any) => payload,
     };
 
@@ -54,7 +145,16 @@ export function buildSubscriptionType(
         },
       }),
       description: `Fires when a ${typeName} record is deleted`,
-      subscribe: () => pubsub.asyncIterator(`${objectDef.name}.deleted`),
+      args: {
+        ids: {
+          type: new GraphQLList(new GraphQLNonNull(GraphQLString)),
+          description: 'Only fire for these record IDs',
+        },
+      },
+      subscribe: subscribe(
+        'deleted',
+        (payload, args) => !args.ids || args.ids.includes(payload.id),
+      ),
       resolve: (payload: any) => payload,
     };
   }
@@ -73,7 +173,15 @@ export function createSubscriptionHooks(pubsub: PubSub) {
     afterCreate(objectName: string, record: any, _ctx: GraphQLResolverContext): void {
       pubsub.publish(`${objectName}.created`, record);
     },
-    afterUpdate(objectName: string, record: any, _ctx: GraphQLResolverContext): void {
+    afterUpdate(
+      objectName: string,
+      record: any,
+      _ctx: GraphQLResolverContext,
+      fields?: string[],
+    ): void {
+      if (fields && record && typeof record === 'object') {
+        changedFields.set(record, fields);
+      }
       pubsub.publish(`${objectName}.updated`, record);
     },
     afterDelete(objectName: string, id: string, ctx: GraphQLResolverContext): void {
@@ -86,3 +194,32 @@ export function createSubscriptionHooks(pubsub: PubSub) {
     },
   };
 }
+
+/**
+ * The values `select` returns for the values of `source`, skipping nulls.
+ * Returning the iterator returns the source, even while waiting for a value.
+ */
+function filterEvents(
+  source: AsyncIterableIterator<any>,
+  select: (payload: any) => Promise<any>,
+): AsyncIterableIterator<any> {
+  return {
+    async next(): Promise<IteratorResult<any>> {
+      for (;;) {
+        const result = await source.next();
+        if (result.done) return result;
+        const value = await select(result.value);
+        if (value !== null && value !== undefined) return { value, done: false };
+      }
+    },
+    return(): Promise<IteratorResult<any>> {
+      return source.return?.() ?? Promise.resolve({ value: undefined, done: true });
+    },
+    throw(error: any): Promise<IteratorResult<any>> {
+      return source.throw?.(error) ?? Promise.reject(error);
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
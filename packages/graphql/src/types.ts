@@ -31,6 +31,75 @@ export interface GraphQLConfig {
 
   /** Enable GraphQL Playground at /api/v1/graphql (GET) (default: true in dev) */
   playground?: boolean;
+
+  /** Automatic persisted queries and allow-list mode */
+  persistedQueries?: PersistedQueriesConfig;
+
+  /**
+   * Cost weight overrides, by field (`Query.aggregateAccounts`) or by
+   * returned type (`Account`). Other weights are derived from the schema.
+   */
+  costWeights?: Record<string, number>;
+
+  /** Cost budgets per user / tenant per time window (default: none) */
+  costBudget?: CostBudgetConfig;
+
+  /** Subscriptions over WebSocket (graphql-transport-ws) */
+  subscriptions?: SubscriptionsConfig;
+}
+
+/**
+ * Automatic persisted queries (APQ) configuration
+ */
+export interface PersistedQueriesConfig {
+  /** Accept APQ requests and register new query hashes (default: true) */
+  enabled?: boolean;
+
+  /** Only run registered operations; clients cannot register new ones (default: false) */
+  allowListOnly?: boolean;
+
+  /** Operations registered at startup — the allow-list */
+  queries?: string[];
+
+  /** Max automatically registered queries kept (default: 1000) */
+  maxEntries?: number;
+}
+
+/**
+ * Cost budget configuration
+ */
+export interface CostBudgetConfig {
+  /** Window length in milliseconds (default: 60000) */
+  windowMs?: number;
+
+  /** Max total operation cost per user per window */
+  perUser?: number;
+
+  /** Max total operation cost per tenant per window */
+  perTenant?: number;
+}
+
+/**
+ * WebSocket transport for subscriptions, using the graphql-transport-ws protocol
+ */
+export interface SubscriptionsConfig {
+  /** Serve operations over WebSocket (default: true) */
+  enabled?: boolean;
+
+  /**
+   * Port of the plugin's WebSocket server. Without a port no server is
+   * started; sockets upgraded by the host are passed to `handleWebSocket()`.
+   */
+  port?: number;
+
+  /** WebSocket path (default: the GraphQL path) */
+  path?: string;
+
+  /** Interval of server pings in milliseconds, 0 to disable (default: 12000) */
+  keepAliveMs?: number;
+
+  /** Time allowed for the client's `connection_init` in milliseconds (default: 3000) */
+  connectionInitTimeoutMs?: number;
 }
 
 /**
@@ -45,6 +114,16 @@ export interface ResolvedGraphQLConfig {
   defaultPageSize: number;
   maxPageSize: number;
   playground: boolean;
+  persistedQueries: Required<PersistedQueriesConfig>;
+  costWeights: Record<string, number>;
+  costBudget: { windowMs: number; perUser?: number; perTenant?: number };
+  subscriptions: {
+    enabled: boolean;
+    port?: number;
+    path: string;
+    keepAliveMs: number;
+    connectionInitTimeoutMs: number;
+  };
 }
 
 /**
@@ -55,7 +134,8 @@ export interface ObjectFieldDef {
   required?: boolean;
   unique?: boolean;
   index?: boolean;
-  options?: string[];
+  /** Select options — plain values or `{ label, value }` */
+  options?: Array<string | { label?: string; value: string }>;
   default?: any;
   blackbox?: boolean;
   label?: string;
@@ -81,13 +161,15 @@ export interface GraphQLResolverContext {
   /** The ObjectStack broker for data operations */
   broker: any;
   /** Current user info (from auth) */
-  user?: { id: string; profile?: string };
+  user?: { id: string; profile?: string; roleName?: string };
   /** Request IP address */
   ip?: string;
   /** Request user agent */
   userAgent?: string;
   /** Session ID */
   sessionId?: string;
+  /** Tenant the request belongs to (cost budgets) */
+  tenantId?: string;
   /** Per-request DataLoader factory (O.1.5) */
   dataLoaders?: DataLoaderFactory;
 }
@@ -101,6 +183,47 @@ export interface PaginatedResult<T = any> {
   pageSize: number;
   offset: number;
   hasMore: boolean;
+  /** Relay edges — the same records with their cursors */
+  edges: Edge<T>[];
+  pageInfo: PageInfo;
+}
+
+/**
+ * Relay connection edge
+ */
+export interface Edge<T = any> {
+  node: T;
+  cursor: string;
+}
+
+/**
+ * Relay page info
+ */
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+/**
+ * Aggregate function over a field, as requested from the data layer
+ */
+export interface AggregationSpec {
+  method: 'count' | 'sum' | 'avg' | 'min' | 'max';
+  /** Field name, or `*` for count */
+  field: string;
+  /** Column name of the result in each row */
+  alias: string;
+}
+
+/**
+ * Arguments of an aggregate query, with the aggregations its selection needs
+ */
+export interface AggregateArgs {
+  filter?: Record<string, any>;
+  groupBy?: string[];
+  aggregations: AggregationSpec[];
 }
 
 /**
@@ -142,7 +265,13 @@ export interface PluginStartupResult {
  */
 export interface SubscriptionHooks {
   afterCreate(objectName: string, record: any, ctx: GraphQLResolverContext): void;
-  afterUpdate(objectName: string, record: any, ctx: GraphQLResolverContext): void;
+  /** `changedFields` are the fields set by the update */
+  afterUpdate(
+    objectName: string,
+    record: any,
+    ctx: GraphQLResolverContext,
+    changedFields?: string[],
+  ): void;
   afterDelete(objectName: string, id: string, ctx: GraphQLResolverContext): void;
 }
 
@@ -6,14 +6,25 @@
  * and O.1.6 (enhanced playground) functionality.
  */
 
-import { graphql, printSchema, GraphQLSchema } from 'graphql';
+import { graphql, parse, printSchema, GraphQLSchema, GraphQLObjectType } from 'graphql';
 import { generateSchema, toPascalCase, buildObjectType } from '../src/schema-generator.js';
 import { createResolverCallbacks } from '../src/resolvers.js';
 import { GraphQLPlugin } from '../src/plugin.js';
 import { PubSub } from '../src/pubsub.js';
 import { buildSubscriptionType, createSubscriptionHooks } from '../src/subscriptions.js';
 import { DataLoader, createDataLoaderFactory } from '../src/dataloader.js';
-import type { ObjectDef, GraphQLResolverContext, ResolvedGraphQLConfig } from '../src/types.js';
+import { analyzeOperationCost } from '../src/cost.js';
+import { hashQuery } from '../src/persisted-queries.js';
+import { CloseCode, GRAPHQL_TRANSPORT_WS_PROTOCOL } from '../src/graphql-ws.js';
+import { EventEmitter } from 'events';
+import { WebSocket } from 'ws';
+import { PermissionsPlugin, InMemoryPermissionStorage } from '@objectos/permissions';
+import type {
+  ObjectDef,
+  GraphQLConfig,
+  GraphQLResolverContext,
+  ResolvedGraphQLConfig,
+} from '../src/types.js';
 
 // ─── Test Fixtures ─────────────────────────────────────────────────
 
@@ -26,6 +37,15 @@ const testConfig: ResolvedGraphQLConfig = {
   defaultPageSize: 20,
   maxPageSize: 100,
   playground: false,
+  persistedQueries: { enabled: true, allowListOnly: false, queries: [], maxEntries: 1000 },
+  costWeights: {},
+  costBudget: { windowMs: 60_000 },
+  subscriptions: {
+    enabled: true,
+    path: '/api/v1/graphql',
+    keepAliveMs: 12_000,
+    connectionInitTimeoutMs: 3_000,
+  },
 };
 
 const accountObject: ObjectDef = {
@@ -138,8 +158,8 @@ describe('O.1.1 — Schema Generation', () => {
     expect(schemaStr).toContain('name: String!');
     // email → String (nullable)
     expect(schemaStr).toContain('email: String');
-    // currency → Float
-    expect(schemaStr).toContain('revenue: Float');
+    // currency → Decimal
+    expect(schemaStr).toContain('revenue: Decimal');
     // boolean → Boolean
     expect(schemaStr).toContain('is_active: Boolean');
   });
@@ -915,6 +935,1203 @@ describe('O.1.5 — DataLoader Factory', () => {
   });
 });
 
+// ─── Relationship Traversal Tests ────────────────────────────────
+
+describe('Relationship Traversal', () => {
+  const orderObject: ObjectDef = {
+    name: 'order',
+    label: 'Order',
+    fields: {
+      number: { type: 'text', required: true },
+      amount: { type: 'currency' },
+      status: { type: 'text' },
+      customer: { type: 'lookup', reference_to: 'account', required: true },
+      partner: { type: 'lookup', reference_to: 'partner_account' },
+    },
+  };
+
+  const data: Record<string, any[]> = {
+    account: [
+      { _id: 'a1', name: 'Acme Corp' },
+      { _id: 'a2', name: 'Globex' },
+    ],
+    order: [
+      { _id: 'o1', number: 'SO-1', amount: 100, status: 'open', customer: 'a1' },
+      { _id: 'o2', number: 'SO-2', amount: 250, status: 'open', customer: 'a2' },
+      { _id: 'o3', number: 'SO-3', amount: 50, status: 'closed', customer: 'a1' },
+    ],
+  };
+
+  function createRelationBroker(permissions?: any) {
+    return {
+      call: jest.fn(async (action: string, params: any) => {
+        const records = data[params.objectName] ?? [];
+        if (action === 'data.find') {
+          const filters = params.filters ?? {};
+          return records.filter((r) =>
+            Object.entries(filters).every(([key, value]: [string, any]) =>
+              value?.$in ? value.$in.includes(r[key]) : r[key] === value,
+            ),
+          );
+        }
+        if (action === 'data.findOne') {
+          return records.find((r) => r._id === params.filters?._id) ?? null;
+        }
+        if (action === 'data.count') return records.length;
+        throw new Error(`Unknown action: ${action}`);
+      }),
+      getService: jest.fn((name: string) => (name === 'permissions' ? permissions : null)),
+    };
+  }
+
+  function buildSchema() {
+    const callbacks = createResolverCallbacks(testConfig);
+    return generateSchema([accountObject, orderObject], testConfig, callbacks);
+  }
+
+  test('exposes lookups as nested objects and reverse relationship lists', () => {
+    const schema = buildSchema();
+    const schemaStr = printSchema(schema);
+
+    expect(schemaStr).toContain('customer: Account');
+    expect(schemaStr).toContain('customer_id: String');
+    // Lookups to objects outside the schema stay plain IDs
+    expect(schemaStr).toContain('partner: String');
+    const orders = (schema.getType('Account') as GraphQLObjectType).getFields().orders;
+    expect(String(orders.type)).toBe('[Order!]!');
+    expect(orders.args.map((arg) => `${arg.name}: ${arg.type}`)).toEqual([
+      'filter: OrderFilter',
+      'sort: SortInput',
+      'limit: Int',
+    ]);
+  });
+
+  test('resolves lookups of a list in one DataLoader batch', async () => {
+    const broker = createRelationBroker();
+    const result = await graphql({
+      schema: buildSchema(),
+      source: '{ findOrders { data { number customer_id customer { name } } } }',
+      contextValue: { ...createContext(broker), dataLoaders: createDataLoaderFactory(broker) },
+    });
+
+    expect(result.errors).toBeUndefined();
+    expect((result.data?.findOrders as any).data).toEqual([
+      { number: 'SO-1', customer_id: 'a1', customer: { name: 'Acme Corp' } },
+      { number: 'SO-2', customer_id: 'a2', customer: { name: 'Globex' } },
+      { number: 'SO-3', customer_id: 'a1', customer: { name: 'Acme Corp' } },
+    ]);
+    const accountCalls = broker.call.mock.calls.filter((c: any) => c[1].objectName === 'account');
+    expect(accountCalls).toHaveLength(1);
+    expect(accountCalls[0][1].filters).toEqual({ _id: { $in: ['a1', 'a2'] } });
+  });
+
+  test('lists reverse relationships with filter, sort and limit', async () => {
+    const broker = createRelationBroker();
+    const result = await graphql({
+      schema: buildSchema(),
+      source: `{
+        getAccount(id: "a1") {
+          orders(filter: { status: "open" }, sort: { field: "amount", direction: DESC }, limit: 5) {
+            number
+          }
+        }
+      }`,
+      contextValue: createContext(broker),
+    });
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data?.getAccount).toEqual({ orders: [{ number: 'SO-1' }] });
+    expect(broker.call).toHaveBeenCalledWith('data.find', {
+      objectName: 'order',
+      filters: { status: 'open', customer: 'a1' },
+      options: { limit: 5, sort: { amount: 'desc' } },
+    });
+  });
+
+  test('checks read permission on each traversed object once per request', async () => {
+    const permissions = {
+      checkPermission: jest.fn(async ({ objectName }: any) => objectName !== 'account'),
+    };
+    const broker = createRelationBroker(permissions);
+    const result = await graphql({
+      schema: buildSchema(),
+      source: '{ findOrders { data { number customer { name } } } }',
+      contextValue: { ...createContext(broker), dataLoaders: createDataLoaderFactory(broker) },
+    });
+
+    const orders = (result.data?.findOrders as any).data;
+    expect(orders.map((o: any) => o.customer)).toEqual([null, null, null]);
+    expect(result.errors?.[0].message).toBe('Permission denied: read on account');
+    expect(
+      permissions.checkPermission.mock.calls.filter((c: any) => c[0].objectName === 'account'),
+    ).toHaveLength(1);
+  });
+});
+
+describe('Cursor Connections', () => {
+  const records = [
+    { _id: 'r1', name: 'Acme', revenue: 300 },
+    { _id: 'r2', name: 'Globex', revenue: 100 },
+    { _id: 'r3', name: 'Initech', revenue: 300 },
+    { _id: 'r4', name: 'Umbrella', revenue: 200 },
+    { _id: 'r5', name: 'Hooli', revenue: 500 },
+  ];
+
+  function matches(record: any, filter: Record<string, any>): boolean {
+    return Object.entries(filter).every(([key, value]: [string, any]) => {
+      if (key === '$or') return value.some((f: any) => matches(record, f));
+      if (key === '$and') return value.every((f: any) => matches(record, f));
+      // Like the storage drivers, null never compares greater or less than a value
+      if (value?.$gt !== undefined) return record[key] != null && record[key] > value.$gt;
+      if (value?.$lt !== undefined) return record[key] != null && record[key] < value.$lt;
+      if (value?.$ne !== undefined) return (record[key] ?? null) !== value.$ne;
+      return (record[key] ?? null) === value;
+    });
+  }
+
+  /** Null sort values first, as the storage drivers order them */
+  function compare(a: any, b: any): number {
+    if (a == null || b == null) return a == null ? (b == null ? 0 : -1) : 1;
+    return a < b ? -1 : 1;
+  }
+
+  function createCursorBroker(data: any[]) {
+    return {
+      call: jest.fn(async (action: string, params: any) => {
+        const found = data.filter((r) => matches(r, params.filters ?? {}));
+        if (action === 'data.count') return found.length;
+        if (action !== 'data.find') throw new Error(`Unknown action: ${action}`);
+        const sort = Object.entries<string>(params.options?.sort ?? {});
+        found.sort((a, b) => {
+          for (const [field, direction] of sort) {
+            if ((a[field] ?? null) !== (b[field] ?? null)) {
+              return compare(a[field], b[field]) * (direction === 'desc' ? -1 : 1);
+            }
+          }
+          return 0;
+        });
+        const skip = params.options?.skip ?? 0;
+        return found.slice(skip, skip + (params.options?.limit ?? found.length));
+      }),
+      getService: jest.fn(() => null),
+    };
+  }
+
+  const schema = generateSchema([accountObject], testConfig, createResolverCallbacks(testConfig));
+
+  async function page(broker: any, args: string) {
+    const result = await graphql({
+      schema,
+      source: `{
+        findAccounts(${args}) {
+          totalCount
+          edges { cursor node { _id } }
+          pageInfo { hasNextPage hasPreviousPage startCursor endCursor }
+        }
+      }`,
+      contextValue: createContext(broker),
+    });
+    expect(result.errors).toBeUndefined();
+    return result.data?.findAccounts as any;
+  }
+
+  const sortByRevenue = 'sort: { field: "revenue", direction: DESC }';
+
+  test('adds Relay edges, pageInfo and cursor arguments to list queries', () => {
+    const schemaStr = printSchema(schema);
+
+    expect(schemaStr).toContain('edges: [AccountEdge!]!');
+    expect(schemaStr).toContain('pageInfo: PageInfo!');
+    expect(schemaStr).toContain('cursor: String!');
+    const args = (schema.getQueryType()!.getFields().findAccounts.args ?? []).map((a) => a.name);
+    expect(args).toEqual(expect.arrayContaining(['first', 'after', 'last', 'before']));
+  });
+
+  test('pages forward with keyset cursors, ties broken by _id', async () => {
+    const broker = createCursorBroker(records);
+
+    const first = await page(broker, `first: 2, ${sortByRevenue}`);
+    expect(first.edges.map((e: any) => e.node._id)).toEqual(['r5', 'r3']);
+    expect(first.totalCount).toBe(5);
+    expect(first.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false });
+
+    const second = await page(
+      broker,
+      `first: 2, after: "${first.pageInfo.endCursor}", ${sortByRevenue}`,
+    );
+    expect(second.edges.map((e: any) => e.node._id)).toEqual(['r1', 'r4']);
+    expect(second.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: true });
+
+    const third = await page(
+      broker,
+      `first: 2, after: "${second.pageInfo.endCursor}", ${sortByRevenue}`,
+    );
+    expect(third.edges.map((e: any) => e.node._id)).toEqual(['r2']);
+    expect(third.pageInfo.hasNextPage).toBe(false);
+  });
+
+  test('is not shifted by records inserted before the cursor', async () => {
+    const data = [...records];
+    const broker = createCursorBroker(data);
+
+    const first = await page(broker, `first: 2, ${sortByRevenue}`);
+    data.push({ _id: 'r6', name: 'Newco', revenue: 900 });
+    const second = await page(
+      broker,
+      `first: 2, after: "${first.pageInfo.endCursor}", ${sortByRevenue}`,
+    );
+
+    expect(second.edges.map((e: any) => e.node._id)).toEqual(['r1', 'r4']);
+  });
+
+  test('pages backward with last and before', async () => {
+    const broker = createCursorBroker(records);
+
+    const page1 = await page(broker, 'last: 2');
+    expect(page1.edges.map((e: any) => e.node._id)).toEqual(['r4', 'r5']);
+    expect(page1.pageInfo).toMatchObject({ hasNextPage: false, hasPreviousPage: true });
+
+    const page2 = await page(broker, `last: 2, before: "${page1.pageInfo.startCursor}"`);
+    expect(page2.edges.map((e: any) => e.node._id)).toEqual(['r2', 'r3']);
+    expect(page2.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: true });
+  });
+
+  test('keeps the filter when paging by _id', async () => {
+    const broker = createCursorBroker(records);
+    const first = await page(broker, 'first: 1, filter: { revenue: 300 }');
+    const second = await page(
+      broker,
+      `first: 1, after: "${first.pageInfo.endCursor}", filter: { revenue: 300 }`,
+    );
+
+    expect(first.edges[0].node._id).toBe('r1');
+    expect(second.edges.map((e: any) => e.node._id)).toEqual(['r3']);
+    expect(second.pageInfo.hasNextPage).toBe(false);
+  });
+
+  test('pages across records without a sort value in both directions', async () => {
+    const data = [
+      ...records,
+      { _id: 'r6', name: 'Newco', revenue: null },
+      { _id: 'r7', name: 'Startup' },
+    ];
+    const broker = createCursorBroker(data);
+
+    for (const direction of ['ASC', 'DESC']) {
+      const sort = `sort: { field: "revenue", direction: ${direction} }`;
+      const seen: string[] = [];
+      let cursor: string | null = null;
+      for (let i = 0; i < data.length; i++) {
+        const next = await page(broker, `first: 1, ${cursor ? `after: "${cursor}", ` : ''}${sort}`);
+        seen.push(next.edges[0].node._id);
+        cursor = next.pageInfo.endCursor;
+      }
+
+      const nulls = ['r6', 'r7'];
+      const values = ['r2', 'r4', 'r1', 'r3', 'r5'];
+      expect(seen).toEqual(
+        direction === 'ASC' ? [...nulls, ...values] : [...values.reverse(), ...nulls.reverse()],
+      );
+      expect((await page(broker, `first: 1, after: "${cursor}", ${sort}`)).edges).toEqual([]);
+
+      const previous = await page(broker, `last: 2, before: "${cursor}", ${sort}`);
+      expect(previous.edges.map((e: any) => e.node._id)).toEqual(seen.slice(-3, -1));
+    }
+  });
+
+  test('rejects invalid cursors and cursors of another sort order', async () => {
+    const broker = createCursorBroker(records);
+    const byRevenue = await page(broker, `first: 1, ${sortByRevenue}`);
+
+    for (const [args, message] of [
+      ['first: 1, after: "not-a-cursor"', 'Invalid cursor'],
+      [
+        `first: 1, after: "${byRevenue.pageInfo.endCursor}"`,
+        'Cursor does not match the sort order (sorted by _id)',
+      ],
+      ['first: 1, last: 1', 'Use either first or last, not both'],
+    ]) {
+      const result = await graphql({
+        schema,
+        source: `{ findAccounts(${args}) { totalCount } }`,
+        contextValue: createContext(broker),
+      });
+      expect(result.errors?.[0].message).toBe(message);
+    }
+  });
+
+  test('offset queries also return edges with cursors', async () => {
+    const broker = createCursorBroker(records);
+    const offsetPage = await page(broker, 'limit: 2, offset: 2');
+
+    expect(offsetPage.edges.map((e: any) => e.node._id)).toEqual(['r3', 'r4']);
+    expect(offsetPage.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: true });
+
+    const next = await page(broker, `first: 2, after: "${offsetPage.pageInfo.endCursor}"`);
+    expect(next.edges.map((e: any) => e.node._id)).toEqual(['r5']);
+  });
+});
+
+describe('Aggregate Queries', () => {
+  function createAggregateBroker(rows: any[], permissions?: any) {
+    return {
+      call: jest.fn(async (action: string, _params: any) => {
+        if (action === 'data.aggregate') return rows;
+        throw new Error(`Unknown action: ${action}`);
+      }),
+      getService: jest.fn((name: string) => (name === 'permissions' ? permissions : null)),
+    };
+  }
+
+  const schema = generateSchema([accountObject], testConfig, createResolverCallbacks(testConfig));
+
+  test('generates aggregate queries with group-by over fields', () => {
+    const schemaStr = printSchema(schema);
+
+    const args = schema.getQueryType()!.getFields().aggregateAccounts.args;
+    expect(args.map((arg) => `${arg.name}: ${arg.type}`)).toEqual([
+      'filter: AccountFilter',
+      'groupBy: [AccountGroupField!]',
+    ]);
+    expect(schemaStr).toContain('count: Int!');
+    expect(schemaStr).toContain('sum: AccountNumericAggregate');
+    expect(schemaStr).toContain('max: AccountMinMaxAggregate');
+    const groupFields = (schema.getType('AccountGroupField') as any)
+      .getValues()
+      .map((v: any) => v.name);
+    expect(groupFields).toContain('type');
+    // Blackbox fields cannot be grouped by
+    expect(groupFields).not.toContain('metadata');
+  });
+
+  test('computes only the selected aggregations in the data layer', async () => {
+    const broker = createAggregateBroker([
+      { type: 'customer', count: 3, sum_revenue: 900, avg_revenue: 300, max_revenue: 500 },
+      { type: 'partner', count: 1, sum_revenue: 100, avg_revenue: 100, max_revenue: 100 },
+    ]);
+
+    const result = await graphql({
+      schema,
+      source: `{
+        aggregateAccounts(filter: { is_active: true }, groupBy: [type]) {
+          count
+          group { type }
+          sum { revenue }
+          ...Stats
+        }
+      }
+      fragment Stats on AccountAggregate { avg { revenue } max { revenue } }`,
+      contextValue: createContext(broker),
+    });
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data?.aggregateAccounts).toEqual([
+      {
+        count: 3,
+        group: { type: 'CUSTOMER' },
+        sum: { revenue: 900 },
+        avg: { revenue: 300 },
+        max: { revenue: 500 },
+      },
+      {
+        count: 1,
+        group: { type: 'PARTNER' },
+        sum: { revenue: 100 },
+        avg: { revenue: 100 },
+        max: { revenue: 100 },
+      },
+    ]);
+    expect(broker.call).toHaveBeenCalledWith('data.aggregate', {
+      objectName: 'account',
+      filters: { is_active: true },
+      groupBy: ['type'],
+      aggregations: [
+        { method: 'count', field: '*', alias: 'count' },
+        { method: 'sum', field: 'revenue', alias: 'sum_revenue' },
+        { method: 'avg', field: 'revenue', alias: 'avg_revenue' },
+        { method: 'max', field: 'revenue', alias: 'max_revenue' },
+      ],
+    });
+  });
+
+  test('returns a single row without groupBy', async () => {
+    const broker = createAggregateBroker([{ count: 4 }]);
+    const result = await graphql({
+      schema,
+      source: '{ aggregateAccounts { count } }',
+      contextValue: createContext(broker),
+    });
+
+    expect(result.data?.aggregateAccounts).toEqual([{ count: 4 }]);
+    expect(broker.call.mock.calls[0][1].groupBy).toBeUndefined();
+  });
+
+  test('requires read permission', async () => {
+    const permissions = { checkPermission: jest.fn(async () => false) };
+    const broker = createAggregateBroker([{ count: 4 }], permissions);
+    const result = await graphql({
+      schema,
+      source: '{ aggregateAccounts { count } }',
+      contextValue: createContext(broker),
+    });
+
+    expect(result.errors?.[0].message).toBe('Permission denied: read on account');
+    expect(broker.call).not.toHaveBeenCalled();
+  });
+});
+
+describe('Scalars, Enums and Filter Operators', () => {
+  const dealObject: ObjectDef = {
+    name: 'deal',
+    label: 'Deal',
+    fields: {
+      name: { type: 'text', required: true },
+      amount: { type: 'currency' },
+      close_date: { type: 'date' },
+      signed_at: { type: 'datetime' },
+      stage: {
+        type: 'select',
+        options: [
+          { label: 'Open', value: 'open' },
+          { label: 'Closed Won', value: 'closed_won' },
+        ],
+      },
+      details: { type: 'object' },
+      billing_address: { type: 'address' },
+      location: { type: 'location' },
+    },
+  };
+
+  function createDealBroker(records: any[] = []) {
+    return createMockBroker({ records });
+  }
+
+  const schema = generateSchema([dealObject], testConfig, createResolverCallbacks(testConfig));
+
+  test('maps field types to custom scalars, enums and structured types', () => {
+    const schemaStr = printSchema(schema);
+
+    expect(schemaStr).toContain('scalar DateTime');
+    expect(schemaStr).toContain('amount: Decimal');
+    expect(schemaStr).toContain('close_date: Date');
+    expect(schemaStr).toContain('signed_at: DateTime');
+    expect(schemaStr).toContain('stage: DealStage');
+    expect(schemaStr).toContain('details: JSON');
+    expect(schemaStr).toContain('billing_address: PostalAddress');
+    expect(schemaStr).toContain('location: GeoPoint');
+    expect(schemaStr).toContain('billing_address: PostalAddressInput');
+    const stage = schema.getType('DealStage') as any;
+    expect(stage.getValues().map((v: any) => [v.name, v.value, v.description])).toEqual([
+      ['OPEN', 'open', 'Open'],
+      ['CLOSED_WON', 'closed_won', 'Closed Won'],
+    ]);
+  });
+
+  test('adds range operators on numbers and dates and in operators on enums', () => {
+    const fields = (schema.getType('DealFilter') as any).getFields();
+
+    expect(String(fields.amount_gte.type)).toBe('Decimal');
+    expect(String(fields.close_date_lt.type)).toBe('Date');
+    expect(String(fields.stage_in.type)).toBe('[DealStage!]');
+    expect(fields.name_gt).toBeUndefined();
+    // Structured values are not filterable
+    expect(fields.billing_address).toBeUndefined();
+  });
+
+  test('translates filter operators for the data layer', async () => {
+    const broker = createDealBroker();
+    const result = await graphql({
+      schema,
+      source: `{
+        findDeals(filter: {
+          amount_gte: "1000.50", amount_lt: 5000,
+          close_date_gte: "2024-01-01", stage_in: [OPEN, CLOSED_WON], stage_nin: []
+        }) { totalCount }
+      }`,
+      contextValue: createContext(broker),
+    });
+
+    expect(result.errors).toBeUndefined();
+    expect(broker.call).toHaveBeenCalledWith(
+      'data.find',
+      expect.objectContaining({
+        filters: {
+          amount: { $gte: 1000.5, $lt: 5000 },
+          close_date: { $gte: '2024-01-01' },
+          stage: { $in: ['open', 'closed_won'], $nin: [] },
+        },
+      }),
+    );
+  });
+
+  test('rejects invalid values during validation', async () => {
+    for (const [input, message] of [
+      ['close_date: "2024-02-30"', 'Invalid Date: 2024-02-30'],
+      ['signed_at: "yesterday"', 'DateTime must be an ISO 8601 timestamp, got: "yesterday"'],
+      ['amount: "12abc"', 'Decimal must be a finite number, got: "12abc"'],
+      ['stage: LOST', 'Value "LOST" does not exist in "DealStage" enum.'],
+    ]) {
+      const broker = createDealBroker();
+      const result = await graphql({
+        schema,
+        source: `mutation { createDeal(input: { name: "Deal", ${input} }) { _id } }`,
+        contextValue: createContext(broker),
+      });
+
+      expect(result.errors?.[0].message).toContain(message);
+      expect(broker.call).not.toHaveBeenCalled();
+    }
+  });
+
+  test('parses and serializes scalar values', async () => {
+    const broker = createDealBroker([
+      {
+        _id: 'd1',
+        name: 'Deal',
+        amount: '1250.50',
+        close_date: '2024-03-31',
+        signed_at: new Date('2024-03-01T10:00:00Z'),
+        stage: 'closed_won',
+        details: '{"source":"web"}',
+        billing_address: { city: 'Berlin', countryCode: 'DE' },
+        location: { latitude: 52.52, longitude: 13.4 },
+      },
+    ]);
+
+    const created = await graphql({
+      schema,
+      source: `mutation {
+        createDeal(input: {
+          name: "Deal", amount: "99.90", signed_at: "2024-03-01T12:00:00+02:00",
+          stage: CLOSED_WON, details: { tags: ["a"], score: 3 }, location: { latitude: 1, longitude: 2 }
+        }) { _id }
+      }`,
+      contextValue: createContext(broker),
+    });
+    expect(created.errors).toBeUndefined();
+    expect(broker.call).toHaveBeenCalledWith('data.create', {
+      objectName: 'deal',
+      doc: {
+        name: 'Deal',
+        amount: 99.9,
+        signed_at: '2024-03-01T10:00:00.000Z',
+        stage: 'closed_won',
+        details: { tags: ['a'], score: 3 },
+        location: { latitude: 1, longitude: 2 },
+      },
+    });
+
+    const found = await graphql({
+      schema,
+      source: `{
+        getDeal(id: "d1") {
+          amount close_date signed_at stage details
+          billing_address { city countryCode }
+          location { latitude longitude }
+        }
+      }`,
+      contextValue: createContext(broker),
+    });
+    expect(found.errors).toBeUndefined();
+    expect(found.data?.getDeal).toEqual({
+      amount: 1250.5,
+      close_date: '2024-03-31',
+      signed_at: '2024-03-01T10:00:00.000Z',
+      stage: 'CLOSED_WON',
+      details: { source: 'web' },
+      billing_address: { city: 'Berlin', countryCode: 'DE' },
+      location: { latitude: 52.52, longitude: 13.4 },
+    });
+  });
+});
+
+describe('Persisted Queries and Cost Limits', () => {
+  const orderObject: ObjectDef = {
+    name: 'order',
+    fields: {
+      number: { type: 'text' },
+      customer: { type: 'lookup', reference_to: 'account' },
+    },
+  };
+
+  /** Start a plugin on a mock HTTP server and return its request handlers */
+  async function startPlugin(config: GraphQLConfig = {}) {
+    const handlers: Record<string, any> = {};
+    const mockApp = {
+      post: jest.fn((path: string, handler: any) => (handlers[`POST ${path}`] = handler)),
+      get: jest.fn((path: string, handler: any) => (handlers[`GET ${path}`] = handler)),
+    };
+    const broker = createMockBroker();
+    (broker as any).metadata = { objects: [accountObject, orderObject] };
+
+    const plugin = new GraphQLPlugin({ playground: false, introspection: true, ...config });
+    const context: any = {
+      broker,
+      registerService: jest.fn(),
+      trigger: jest.fn(),
+      logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+      getService: (name: string) => {
+        if (name === 'http.server') return { getRawApp: () => mockApp };
+        return null;
+      },
+    };
+    await plugin.init!(context);
+    await plugin.start(context);
+
+    const respond = async (
+      method: 'GET' | 'POST',
+      input: Record<string, any>,
+      headers: Record<string, string> = {},
+    ) => {
+      const responseHeaders: Record<string, string> = {};
+      const c = {
+        req: {
+          json: async () => input,
+          query: (name: string) =>
+            typeof input[name] === 'object' ? JSON.stringify(input[name]) : input[name],
+          header: (name: string) => ({ 'x-user-id': 'user-1', ...headers })[name],
+        },
+        header: (name: string, value: string) => (responseHeaders[name] = value),
+        json: (body: any, status = 200) => ({ body, status, headers: responseHeaders }),
+      };
+      return handlers[`${method} /api/v1/graphql`](c);
+    };
+
+    return {
+      plugin,
+      broker,
+      post: (body: Record<string, any>, headers?: Record<string, string>) =>
+        respond('POST', body, headers),
+      get: (params: Record<string, any>) => respond('GET', params),
+    };
+  }
+
+  const query = '{ findAccounts(limit: 5) { data { name } } }';
+  const apq = (hash: string) => ({ persistedQuery: { version: 1, sha256Hash: hash } });
+
+  test('registers and runs automatic persisted queries', async () => {
+    const { post } = await startPlugin();
+    const hash = hashQuery(query);
+
+    const miss = await post({ extensions: apq(hash) });
+    expect(miss.status).toBe(200);
+    expect(miss.body.errors[0]).toEqual({
+      message: 'PersistedQueryNotFound',
+      extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+    });
+
+    const registered = await post({ query, extensions: apq(hash) });
+    expect(registered.body.errors).toBeUndefined();
+
+    const hit = await post({ extensions: apq(hash) });
+    expect(hit.body.data.findAccounts.data).toEqual([{ name: 'Acme Corp' }, { name: 'Globex' }]);
+
+    const mismatch = await post({ query, extensions: apq('0'.repeat(64)) });
+    expect(mismatch.status).toBe(400);
+    expect(mismatch.body.errors[0].extensions.code).toBe('PERSISTED_QUERY_HASH_MISMATCH');
+  });
+
+  test('runs persisted queries over GET, but no mutations', async () => {
+    const { get, plugin } = await startPlugin();
+    const hash = plugin.registerPersistedQuery(query);
+
+    const result = await get({ extensions: apq(hash) });
+    expect(result.body.data.findAccounts.data).toHaveLength(2);
+
+    const mutation = await get({ query: 'mutation { deleteAccount(id: "1") { success } }' });
+    expect(mutation.status).toBe(405);
+    expect(mutation.body.errors[0].extensions.code).toBe('METHOD_NOT_ALLOWED');
+  });
+
+  test('only runs registered operations in allow-list mode', async () => {
+    const { post, broker } = await startPlugin({
+      persistedQueries: { allowListOnly: true, queries: [query] },
+    });
+
+    const allowed = await post({ query });
+    expect(allowed.body.errors).toBeUndefined();
+    const byHash = await post({ extensions: apq(hashQuery(query)) });
+    expect(byHash.body.data.findAccounts.data).toHaveLength(2);
+
+    broker.call.mockClear();
+    const other = '{ findAccounts { totalCount } }';
+    const rejected = await post({ query: other });
+    expect(rejected.status).toBe(403);
+    expect(rejected.body.errors[0]).toEqual({
+      message: 'Operation is not in the allow-list',
+      extensions: { code: 'OPERATION_NOT_ALLOWED', sha256Hash: hashQuery(other) },
+    });
+    // Clients cannot add to the allow-list through APQ
+    const registration = await post({ query: other, extensions: apq(hashQuery(other)) });
+    expect(registration.status).toBe(403);
+    expect(broker.call).not.toHaveBeenCalled();
+  });
+
+  test('derives field costs from page sizes, type sizes and relations', () => {
+    const schema = generateSchema(
+      [accountObject, orderObject],
+      testConfig,
+      createResolverCallbacks(testConfig),
+    );
+    const cost = (source: string, weights?: Record<string, number>) =>
+      analyzeOperationCost(schema, parse(source), { ...testConfig, weights });
+    // Account has 15 fields with the metadata fields and `orders` → weight 2
+    const account = 2;
+
+    expect(cost('{ findAccounts(limit: 10) { data { name } } }').cost).toBe(10 * account);
+    expect(cost('{ findAccounts { edges { node { name } } } }').cost).toBe(20 * account);
+    expect(
+      cost('{ getAccount(id: "1") { orders(limit: 5) { number customer { name } } } }'),
+    ).toEqual({
+      cost: account + 5 * (1 + account),
+      depth: 4,
+    });
+    expect(cost('{ findAccounts(limit: 500) { data { name } } }').cost).toBe(100 * account);
+    expect(cost('{ aggregateAccounts { count } }').cost).toBe(10);
+    expect(cost('{ getAccount(id: "1") { name } }', { Account: 7 }).cost).toBe(7);
+    expect(cost('{ aggregateAccounts { count } }', { 'Query.aggregateAccounts': 50 }).cost).toBe(
+      50,
+    );
+  });
+
+  test('rejects operations over the depth and cost limits with the computed cost', async () => {
+    const { post } = await startPlugin({ maxComplexity: 100, maxDepth: 3 });
+
+    const complex = await post({ query: '{ findAccounts(limit: 60) { data { name } } }' });
+    expect(complex.status).toBe(400);
+    expect(complex.body.errors[0]).toEqual({
+      message: 'Query cost 120 exceeds the maximum of 100',
+      extensions: { code: 'QUERY_TOO_COMPLEX', cost: 120, maxCost: 100 },
+    });
+
+    const deep = await post({
+      query: '{ getAccount(id: "1") { orders { customer { name } } } }',
+    });
+    expect(deep.status).toBe(400);
+    expect(deep.body.errors[0].extensions).toMatchObject({
+      code: 'QUERY_TOO_DEEP',
+      depth: 4,
+      maxDepth: 3,
+    });
+  });
+
+  test('enforces cost budgets per user and per tenant within a window', async () => {
+    const { post } = await startPlugin({ costBudget: { perUser: 50, perTenant: 70 } });
+    const page = { query: '{ findAccounts(limit: 10) { data { name } } }' }; // cost 20
+
+    expect((await post(page, { 'x-tenant-id': 't1' })).body.errors).toBeUndefined();
+    expect((await post(page, { 'x-tenant-id': 't1' })).body.errors).toBeUndefined();
+
+    const overUser = await post(page, { 'x-tenant-id': 't2' });
+    expect(overUser.status).toBe(429);
+    expect(overUser.headers['Retry-After']).toBe('60');
+    expect(overUser.body.errors[0].extensions).toMatchObject({
+      code: 'COST_BUDGET_EXCEEDED',
+      scope: 'user',
+      cost: 20,
+      budget: 50,
+      remaining: 10,
+    });
+
+    const otherUser = { 'x-user-id': 'user-2', 'x-tenant-id': 't1' };
+    expect((await post(page, otherUser)).body.errors).toBeUndefined();
+    const overTenant = await post(page, otherUser);
+    expect(overTenant.status).toBe(429);
+    expect(overTenant.body.errors[0].extensions).toMatchObject({ scope: 'tenant', remaining: 10 });
+  });
+});
+
+describe('Subscriptions over WebSocket', () => {
+  /** Socket double recording the messages the server sends */
+  class FakeSocket extends EventEmitter {
+    sent: any[] = [];
+    closed?: { code?: number; reason?: string };
+    constructor(public protocol: string = GRAPHQL_TRANSPORT_WS_PROTOCOL) {
+      super();
+    }
+    send(data: string) {
+      this.sent.push(JSON.parse(data));
+    }
+    close(code?: number, reason?: string) {
+      this.closed = { code, reason };
+      this.emit('close');
+    }
+    receive(message: Record<string, any>) {
+      this.emit('message', Buffer.from(JSON.stringify(message)));
+    }
+    messages(id: string, type = 'next') {
+      return this.sent.filter((m) => m.id === id && m.type === type);
+    }
+  }
+
+  const waitFor = async <T>(check: () => T | undefined): Promise<T> => {
+    for (let i = 0; i < 100; i++) {
+      const value = check();
+      if (value) return value;
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    throw new Error('Timed out');
+  };
+
+  /** Broker over an in-memory table, matching filters by equality */
+  function createStoreBroker(permissions?: any) {
+    const records: any[] = [
+      { _id: '1', name: 'Acme Corp', type: 'customer', revenue: 10, owner: 'user-1' },
+      { _id: '2', name: 'Globex', type: 'partner', revenue: 5, owner: 'user-2' },
+    ];
+    const matches = (record: any, filter: Record<string, any>): boolean =>
+      Object.entries(filter).every(([key, value]) => {
+        if (key === '$and') return value.every((f: any) => matches(record, f));
+        if (key === '$or') return value.some((f: any) => matches(record, f));
+        if (value?.$in) return value.$in.includes(record[key]);
+        return record[key] === value;
+      });
+    const broker = {
+      records,
+      metadata: { objects: [accountObject] },
+      call: jest.fn(async (action: string, params: any) => {
+        switch (action) {
+          case 'data.findOne':
+            return records.find((r) => matches(r, params.filters)) ?? null;
+          case 'data.create': {
+            const record = { _id: `new-${records.length + 1}`, ...params.doc };
+            records.push(record);
+            return { ...record };
+          }
+          case 'data.update': {
+            const record = records.find((r) => r._id === params.id);
+            Object.assign(record, params.doc);
+            return { ...record };
+          }
+          case 'data.delete':
+            records.splice(
+              records.findIndex((r) => r._id === params.id),
+              1,
+            );
+            return { success: true };
+          default:
+            return [];
+        }
+      }),
+      getService: (name: string) => (name === 'permissions' ? (permissions ?? null) : null),
+    };
+    return broker;
+  }
+
+  async function startPlugin(config: GraphQLConfig = {}, permissions?: any) {
+    const broker = createStoreBroker(permissions);
+    const plugin = new GraphQLPlugin({ introspection: true, ...config });
+    const context: any = {
+      broker,
+      registerService: jest.fn(),
+      trigger: jest.fn(),
+      logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+      getService: () => null,
+    };
+    await plugin.init!(context);
+    await plugin.start(context);
+
+    const connect = async (headers: Record<string, string> = { 'x-user-id': 'user-1' }) => {
+      const socket = new FakeSocket();
+      plugin.handleWebSocket(socket as any, { headers } as any);
+      socket.receive({ type: 'connection_init' });
+      await waitFor(() => socket.sent.find((m) => m.type === 'connection_ack'));
+      return socket;
+    };
+    const mutate = (query: string) => plugin.execute(query, undefined, { user: { id: 'admin' } });
+
+    return { plugin, broker, connect, mutate };
+  }
+
+  test('acknowledges connections and runs queries', async () => {
+    const { connect } = await startPlugin();
+    const socket = await connect();
+
+    socket.receive({ type: 'ping' });
+    socket.receive({
+      id: 'q1',
+      type: 'subscribe',
+      payload: { query: '{ getAccount(id: "2") { name } }' },
+    });
+    await waitFor(() => socket.messages('q1', 'complete')[0]);
+
+    expect(socket.sent.find((m) => m.type === 'pong')).toBeDefined();
+    expect(socket.messages('q1')).toEqual([
+      { id: 'q1', type: 'next', payload: { data: { getAccount: { name: 'Globex' } } } },
+    ]);
+  });
+
+  test('delivers record events matching the filter', async () => {
+    const { connect, mutate } = await startPlugin();
+    const socket = await connect();
+    socket.receive({
+      id: 's1',
+      type: 'subscribe',
+      payload: {
+        query: 'subscription { onAccountCreated(filter: { type: PARTNER }) { _id name } }',
+      },
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await mutate('mutation { createAccount(input: { name: "Initech", type: CUSTOMER }) { _id } }');
+    await mutate('mutation { createAccount(input: { name: "Hooli", type: PARTNER }) { _id } }');
+
+    const [event] = await waitFor(() => socket.messages('s1')[0] && socket.messages('s1'));
+    expect(event.payload).toEqual({ data: { onAccountCreated: { _id: 'new-4', name: 'Hooli' } } });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(socket.messages('s1')).toHaveLength(1);
+
+    socket.receive({ id: 's1', type: 'complete' });
+    await mutate('mutation { createAccount(input: { name: "Umbrella", type: PARTNER }) { _id } }');
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(socket.messages('s1')).toHaveLength(1);
+  });
+
+  test('watches updates of selected fields', async () => {
+    const { connect, mutate } = await startPlugin();
+    const socket = await connect();
+    socket.receive({
+      id: 'w1',
+      type: 'subscribe',
+      payload: {
+        query: 'subscription { onAccountUpdated(fields: [revenue]) { _id revenue } }',
+      },
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await mutate('mutation { updateAccount(id: "1", input: { name: "Acme Inc" }) { _id } }');
+    await mutate('mutation { updateAccount(id: "1", input: { revenue: 42 }) { _id } }');
+
+    const [event] = await waitFor(() => socket.messages('w1')[0] && socket.messages('w1'));
+    expect(event.payload.data.onAccountUpdated).toEqual({ _id: '1', revenue: 42 });
+    expect(socket.messages('w1')).toHaveLength(1);
+  });
+
+  test('checks read permission for every event', async () => {
+    const permissions = {
+      checkPermission: jest.fn(async ({ userId }: any) => userId !== 'guest'),
+    };
+    const { connect, mutate } = await startPlugin({}, permissions);
+    const query = 'subscription { onAccountUpdated { _id name } }';
+    const member = await connect();
+    const guest = await connect({ 'x-user-id': 'guest' });
+    member.receive({ id: 'm', type: 'subscribe', payload: { query } });
+    guest.receive({ id: 'g', type: 'subscribe', payload: { query } });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await mutate('mutation { updateAccount(id: "1", input: { name: "Acme 2" }) { _id } }');
+
+    const [event] = await waitFor(() => member.messages('m')[0] && member.messages('m'));
+    expect(event.payload.data.onAccountUpdated).toEqual({ _id: '1', name: 'Acme 2' });
+    expect(guest.messages('g')).toHaveLength(0);
+    expect(permissions.checkPermission).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'guest', objectName: 'account', action: 'read' }),
+    );
+  });
+
+  test('applies record-level security and hidden fields of the permissions plugin', async () => {
+    const permissionsPlugin = new PermissionsPlugin({
+      storage: new InMemoryPermissionStorage(),
+      defaultDeny: false,
+    });
+    await permissionsPlugin.getStorage().storePermissionSet({
+      name: 'account_access',
+      objectName: 'account',
+      profiles: { standard: { allowRead: true, allowEdit: true } },
+      fieldPermissions: { revenue: { read: false, update: false, visibleTo: ['finance'] } },
+    });
+    permissionsPlugin.getRLSEvaluator().setOrgDefault({
+      objectName: 'account',
+      internalAccess: 'private',
+      externalAccess: 'private',
+    });
+    const permissions = {
+      checkPermission: async ({ userId, profileName, objectName, action }: any) =>
+        (
+          await permissionsPlugin
+            .getEngine()
+            .checkPermission({ userId, profiles: [profileName] }, objectName, action)
+        ).allowed,
+      explain: permissionsPlugin.explain.bind(permissionsPlugin),
+    };
+    const { connect, mutate } = await startPlugin({}, permissions);
+    const socket = await connect();
+    socket.receive({
+      id: 'u1',
+      type: 'subscribe',
+      payload: { query: 'subscription { onAccountUpdated { _id name revenue } }' },
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // Account 2 is owned by user-2, private to them
+    await mutate('mutation { updateAccount(id: "2", input: { name: "Globex 2" }) { _id } }');
+    await mutate('mutation { updateAccount(id: "1", input: { name: "Acme 2" }) { _id } }');
+
+    const [event] = await waitFor(() => socket.messages('u1')[0] && socket.messages('u1'));
+    expect(event.payload.data.onAccountUpdated).toEqual({
+      _id: '1',
+      name: 'Acme 2',
+      revenue: null,
+    });
+    expect(socket.messages('u1')).toHaveLength(1);
+  });
+
+  test("delivers a subordinate's record to their manager through the role hierarchy", async () => {
+    const permissionsPlugin = new PermissionsPlugin({
+      storage: new InMemoryPermissionStorage(),
+      defaultDeny: false,
+    });
+    await permissionsPlugin.getStorage().storePermissionSet({
+      name: 'account_access',
+      objectName: 'account',
+      profiles: { standard: { allowRead: true, allowEdit: true } },
+    });
+    permissionsPlugin.getRLSEvaluator().setOrgDefault({
+      objectName: 'account',
+      internalAccess: 'private',
+      externalAccess: 'private',
+    });
+    permissionsPlugin.getRoleHierarchy().setRoles([
+      { name: 'sales_manager', label: 'Sales Manager', parentRole: null },
+      { name: 'sales_rep', label: 'Sales Rep', parentRole: 'sales_manager' },
+    ]);
+    const permissions = {
+      checkPermission: async () => true,
+      explain: permissionsPlugin.explain.bind(permissionsPlugin),
+    };
+    const { broker, connect, mutate } = await startPlugin({}, permissions);
+    broker.records[1].owner_role = 'sales_rep';
+    const query = 'subscription { onAccountUpdated { _id name } }';
+    const manager = await connect({ 'x-user-id': 'user-1', 'x-user-role': 'sales_manager' });
+    const peer = await connect({ 'x-user-id': 'user-3' });
+    manager.receive({ id: 'm', type: 'subscribe', payload: { query } });
+    peer.receive({ id: 'p', type: 'subscribe', payload: { query } });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // Account 2 is owned by user-2, a sales rep reporting to the manager
+    await mutate('mutation { updateAccount(id: "2", input: { name: "Globex 2" }) { _id } }');
+
+    const [event] = await waitFor(() => manager.messages('m')[0] && manager.messages('m'));
+    expect(event.payload.data.onAccountUpdated).toEqual({ _id: '2', name: 'Globex 2' });
+    expect(peer.messages('p')).toHaveLength(0);
+  });
+
+  test('filters deletions by record ID', async () => {
+    const { connect, mutate } = await startPlugin();
+    const socket = await connect();
+    socket.receive({
+      id: 'd1',
+      type: 'subscribe',
+      payload: { query: 'subscription { onAccountDeleted(ids: ["2"]) { id deletedBy } }' },
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await mutate('mutation { deleteAccount(id: "1") { success } }');
+    await mutate('mutation { deleteAccount(id: "2") { success } }');
+
+    const [event] = await waitFor(() => socket.messages('d1')[0] && socket.messages('d1'));
+    expect(event.payload.data.onAccountDeleted).toEqual({ id: '2', deletedBy: 'admin' });
+    expect(socket.messages('d1')).toHaveLength(1);
+  });
+
+  test('applies the operation guard and closes on protocol violations', async () => {
+    const { plugin, connect } = await startPlugin({ maxComplexity: 1 });
+
+    const socket = await connect();
+    socket.receive({
+      id: 'c1',
+      type: 'subscribe',
+      payload: { query: 'subscription { onAccountCreated { name } }' },
+    });
+    const [error] = await waitFor(
+      () => socket.messages('c1', 'error')[0] && socket.messages('c1', 'error'),
+    );
+    expect(error.payload[0].extensions.code).toBe('QUERY_TOO_COMPLEX');
+
+    const early = new FakeSocket();
+    plugin.handleWebSocket(early as any);
+    early.receive({ id: 'x', type: 'subscribe', payload: { query: '{ __typename }' } });
+    expect(early.closed).toEqual({ code: CloseCode.Unauthorized, reason: 'Unauthorized' });
+
+    const twice = await connect();
+    twice.receive({ type: 'connection_init' });
+    expect(twice.closed?.code).toBe(CloseCode.TooManyInitialisationRequests);
+
+    const invalid = await connect();
+    invalid.receive({ id: 'x', type: 'subscribe' });
+    expect(invalid.closed?.code).toBe(CloseCode.BadRequest);
+
+    const otherProtocol = new FakeSocket('graphql-ws');
+    plugin.handleWebSocket(otherProtocol as any);
+    expect(otherProtocol.closed?.code).toBe(CloseCode.SubprotocolNotAcceptable);
+    expect(plugin.getSubscriptionConnectionCount()).toBe(1);
+  });
+
+  test('rejects subscriptions sent over HTTP', async () => {
+    const { plugin } = await startPlugin();
+    const guard = (plugin as any).guard;
+    const schema = plugin.getSchema()!;
+    const result = guard.prepare(
+      schema,
+      { query: 'subscription { onAccountCreated { name } }' },
+      {},
+      'POST',
+    );
+    expect(result.status).toBe(400);
+    expect(result.errors[0].message).toBe('Subscriptions are served over WebSocket');
+  });
+
+  test('serves graphql-transport-ws on its own port', async () => {
+    const port = 19350;
+    const { plugin, mutate } = await startPlugin({ subscriptions: { port } });
+    const client = new WebSocket(
+      `ws://localhost:${port}/api/v1/graphql`,
+      GRAPHQL_TRANSPORT_WS_PROTOCOL,
+      {
+        headers: { 'x-user-id': 'user-1' },
+      },
+    );
+    const received: any[] = [];
+    client.on('message', (data) => received.push(JSON.parse(data.toString())));
+
+    try {
+      await new Promise((resolve, reject) => client.once('open', resolve).once('error', reject));
+      expect(client.protocol).toBe(GRAPHQL_TRANSPORT_WS_PROTOCOL);
+
+      client.send(JSON.stringify({ type: 'connection_init' }));
+      await waitForMessage(received, 'connection_ack');
+      client.send(
+        JSON.stringify({
+          id: '1',
+          type: 'subscribe',
+          payload: { query: 'subscription { onAccountCreated { name } }' },
+        }),
+      );
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await mutate('mutation { createAccount(input: { name: "Wayne" }) { _id } }');
+
+      const next = await waitForMessage(received, 'next');
+      expect(next).toEqual({
+        id: '1',
+        type: 'next',
+        payload: { data: { onAccountCreated: { name: 'Wayne' } } },
+      });
+    } finally {
+      client.close();
+      await plugin.stop();
+    }
+  });
+
+  async function waitForMessage(received: any[], type: string): Promise<any> {
+    for (let i = 0; i < 100; i++) {
+      const message = received.find((m) => m.type === type);
+      if (message) return message;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error(`No ${type} message`);
+  }
+});
+
 // ─── O.1.6: Enhanced Playground Tests ────────────────────────────
 
 describe('O.1.6 — Enhanced GraphQL Playground', () => {
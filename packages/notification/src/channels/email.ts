@@ -149,7 +149,9 @@ export class EmailChannel implements NotificationChannelInterface {
    */
   private buildEmailOptions(request: NotificationRequest): any {
     const body = request.body || '';
-    let html: string | undefined;
+    // cc, bcc, html and attachments passed to `sendEmail` of the plugin
+    const extra: Partial<EmailOptions> = request.options ?? {};
+    let html = extra.html;
 
     // Render template if provided
     if (request.template && request.data) {
@@ -159,9 +161,12 @@ export class EmailChannel implements NotificationChannelInterface {
     return {
       from: this.config.from,
       to: Array.isArray(request.recipient) ? request.recipient.join(', ') : request.recipient,
+      cc: Array.isArray(extra.cc) ? extra.cc.join(', ') : extra.cc,
+      bcc: Array.isArray(extra.bcc) ? extra.bcc.join(', ') : extra.bcc,
       subject: request.subject || 'Notification',
       text: body,
       html: html,
+      attachments: extra.attachments,
       replyTo: this.config.replyTo,
     };
   }
@@ -0,0 +1,190 @@
+/**
+ * In-App Notification Channel
+ *
+ * Keeps an inbox of notifications per user for the UI notification bell.
+ * The recipients of a request are user IDs; each gets its own notification,
+ * with its own read and archived state. New notifications are pushed to the
+ * recipient's open sessions as `notification.created` realtime events.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  NotificationRequest,
+  NotificationResult,
+  NotificationChannelInterface,
+  InAppNotification,
+  InAppOptions,
+  InboxQueryOptions,
+  InboxStorage,
+} from '../types.js';
+import { NotificationChannel } from '../types.js';
+import type { TemplateEngine } from '../template-engine.js';
+
+/**
+ * Publishes an inbox event to the given users
+ */
+export type InboxPublisher = (eventName: string, payload: any, recipients: string[]) => void;
+
+/**
+ * In-app notification channel implementation
+ */
+export class InAppChannel implements NotificationChannelInterface {
+  private storage: InboxStorage;
+  private templateEngine: TemplateEngine;
+  private publish?: InboxPublisher;
+
+  constructor(storage: InboxStorage, templateEngine: TemplateEngine, publish?: InboxPublisher) {
+    this.storage = storage;
+    this.templateEngine = templateEngine;
+    this.publish = publish;
+  }
+
+  /**
+   * Replace the inbox storage (e.g. once a data broker is available)
+   */
+  setStorage(storage: InboxStorage): void {
+    this.storage = storage;
+  }
+
+  /**
+   * Set where inbox events are published
+   */
+  setPublisher(publish: InboxPublisher | undefined): void {
+    this.publish = publish;
+  }
+
+  /**
+   * Store a notification in the inbox of every recipient
+   */
+  async send(request: NotificationRequest): Promise<NotificationResult> {
+    try {
+      const userIds = Array.isArray(request.recipient) ? request.recipient : [request.recipient];
+      if (userIds.length === 0 || userIds.some((id) => !id)) {
+        throw new Error('In-app notifications require recipient user IDs');
+      }
+
+      const options: InAppOptions = request.options || {};
+      const body =
+        request.template && request.data
+          ? this.templateEngine.render(request.template, request.data)
+          : request.body || '';
+      const createdAt = new Date().toISOString();
+
+      const ids: string[] = [];
+      for (const userId of userIds) {
+        const notification: InAppNotification = {
+          id: randomUUID(),
+          userId,
+          title: request.subject || 'Notification',
+          body,
+          link: options.link,
+          category: options.category ?? request.category,
+          actor: options.actor,
+          createdAt,
+        };
+        await this.storage.save(notification);
+        ids.push(notification.id);
+        this.notify('notification.created', notification, userId);
+      }
+
+      return {
+        success: true,
+        messageId: ids[0],
+        channel: NotificationChannel.InApp,
+        timestamp: new Date(),
+        metadata: { ids },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        channel: NotificationChannel.InApp,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * List the notifications of a user, newest first
+   */
+  async list(options: InboxQueryOptions): Promise<InAppNotification[]> {
+    return this.storage.query(options);
+  }
+
+  /**
+   * Number of unread notifications in a user's inbox
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    return this.storage.count({ userId, unread: true });
+  }
+
+  /**
+   * Mark notifications of a user as read. Returns the IDs that changed.
+   */
+  async markRead(userId: string, ids: string[]): Promise<string[]> {
+    return this.change(userId, ids, 'notification.read', (n) =>
+      n.readAt ? undefined : { readAt: new Date().toISOString() },
+    );
+  }
+
+  /**
+   * Mark every unread notification in a user's inbox as read
+   */
+  async markAllRead(userId: string): Promise<string[]> {
+    const unread = await this.storage.query({ userId, unread: true });
+    return this.markRead(
+      userId,
+      unread.map((n) => n.id),
+    );
+  }
+
+  /**
+   * Move notifications of a user out of the inbox. Archived notifications
+   * count as read. Returns the IDs that changed.
+   */
+  async archive(userId: string, ids: string[]): Promise<string[]> {
+    return this.change(userId, ids, 'notification.archived', (n) => {
+      if (n.archivedAt) return undefined;
+      const now = new Date().toISOString();
+      return { archivedAt: now, readAt: n.readAt ?? now };
+    });
+  }
+
+  /**
+   * Update the notifications of a user that `updates` returns changes for.
+   * Notifications of other users are left alone.
+   */
+  private async change(
+    userId: string,
+    ids: string[],
+    eventName: string,
+    updates: (notification: InAppNotification) => Partial<InAppNotification> | undefined,
+  ): Promise<string[]> {
+    const changed: string[] = [];
+    for (const id of ids) {
+      const notification = await this.storage.get(id);
+      if (!notification || notification.userId !== userId) continue;
+      const changes = updates(notification);
+      if (!changes) continue;
+      await this.storage.update(id, changes);
+      changed.push(id);
+    }
+    if (changed.length > 0) {
+      // Lets the user's other sessions update their badge
+      this.notify(
+        eventName,
+        { ids: changed, unreadCount: await this.getUnreadCount(userId) },
+        userId,
+      );
+    }
+    return changed;
+  }
+
+  private notify(eventName: string, payload: any, userId: string): void {
+    try {
+      this.publish?.(eventName, payload, [userId]);
+    } catch {
+      // Realtime delivery is best effort; the inbox is the source of truth
+    }
+  }
+}
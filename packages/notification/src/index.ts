@@ -7,29 +7,55 @@
 export { NotificationPlugin } from './plugin.js';
 export { TemplateEngine } from './template-engine.js';
 export { NotificationQueue } from './queue.js';
+export { InMemoryInboxStorage, InMemoryNotificationStorage } from './storage.js';
+export { ObjectQLInboxStorage, ObjectQLNotificationStorage } from './objectql-storage.js';
+export {
+  decideDelivery,
+  isChannelEnabled,
+  quietHoursEnd,
+  nextDigestAt,
+  validatePreference,
+} from './preferences.js';
+export type { DeliveryDecision } from './preferences.js';
 
 // Export channel implementations
 export { EmailChannel } from './channels/email.js';
 export { SmsChannel } from './channels/sms.js';
 export { PushChannel } from './channels/push.js';
 export { WebhookChannel } from './channels/webhook.js';
+export { InAppChannel } from './channels/in-app.js';
+export type { InboxPublisher } from './channels/in-app.js';
 
 // Export all types
 export type {
   NotificationConfig,
   NotificationRequest,
+  NotificationTargeting,
   NotificationResult,
   NotificationTemplate,
   NotificationPreference,
+  NotificationPriority,
+  CategoryPreference,
+  DigestPreference,
+  DigestConfig,
+  HeldNotification,
+  NotificationStorage,
   NotificationLog,
   EmailConfig,
   SmsConfig,
   PushConfig,
   WebhookConfig,
+  InAppConfig,
   EmailOptions,
   SmsOptions,
   PushOptions,
   WebhookOptions,
+  InAppOptions,
+  InAppLink,
+  InAppActor,
+  InAppNotification,
+  InboxQueryOptions,
+  InboxStorage,
   TemplateData,
   TemplateEngine as ITemplateEngine,
   QueuedNotification,
@@ -0,0 +1,235 @@
+/**
+ * ObjectQL Notification Storage Implementation
+ *
+ * Storage adapters that persist in-app notifications, preferences and held
+ * notifications to ObjectOS/ObjectQL database
+ */
+
+import type { PluginContext } from '@objectstack/runtime';
+import type {
+  HeldNotification,
+  InAppNotification,
+  InboxQueryOptions,
+  InboxStorage,
+  NotificationPreference,
+  NotificationStorage,
+} from './types.js';
+
+export class ObjectQLInboxStorage implements InboxStorage {
+  private context: PluginContext;
+
+  constructor(context: PluginContext) {
+    this.context = context;
+  }
+
+  async save(notification: InAppNotification): Promise<void> {
+    await (this.context as any).broker.call('data.create', {
+      object: 'notification',
+      doc: this.mapNotificationToDoc(notification),
+    });
+  }
+
+  async get(id: string): Promise<InAppNotification | null> {
+    try {
+      const result = await (this.context as any).broker.call('data.get', {
+        object: 'notification',
+        id: id,
+      });
+      return result ? this.mapDocToNotification(result) : null;
+    } catch (err: any) {
+      if (err.message && err.message.includes('not found')) return null;
+      throw err;
+    }
+  }
+
+  async update(id: string, updates: Partial<InAppNotification>): Promise<void> {
+    const docUpdates: any = {};
+
+    if (updates.readAt !== undefined) docUpdates.read_at = updates.readAt;
+    if (updates.archivedAt !== undefined) docUpdates.archived_at = updates.archivedAt;
+
+    await (this.context as any).broker.call('data.update', {
+      object: 'notification',
+      id: id,
+      doc: docUpdates,
+    });
+  }
+
+  async query(options: InboxQueryOptions): Promise<InAppNotification[]> {
+    const results = await (this.context as any).broker.call('data.find', {
+      object: 'notification',
+      query: this.buildQuery(options),
+      sort: '-created_at',
+      limit: options.limit,
+      skip: options.skip,
+    });
+
+    return results.map((doc: any) => this.mapDocToNotification(doc));
+  }
+
+  async count(options: Omit<InboxQueryOptions, 'limit' | 'skip'>): Promise<number> {
+    return (this.context as any).broker.call('data.count', {
+      object: 'notification',
+      query: this.buildQuery(options),
+    });
+  }
+
+  private buildQuery(options: Omit<InboxQueryOptions, 'limit' | 'skip'>): any {
+    const query: any = {
+      user_id: options.userId,
+      archived_at: options.archived ? { $ne: null } : null,
+    };
+
+    if (options.unread !== undefined) {
+      query.read_at = options.unread ? null : { $ne: null };
+    }
+
+    if (options.category) {
+      query.category = options.category;
+    }
+
+    return query;
+  }
+
+  /**
+   * Map InAppNotification to document
+   */
+  private mapNotificationToDoc(notification: InAppNotification): any {
+    return {
+      _id: notification.id,
+      id: notification.id,
+      user_id: notification.userId,
+      title: notification.title,
+      body: notification.body,
+      link: notification.link,
+      category: notification.category,
+      actor: notification.actor,
+      created_at: notification.createdAt,
+      read_at: notification.readAt ?? null,
+      archived_at: notification.archivedAt ?? null,
+    };
+  }
+
+  /**
+   * Map document to InAppNotification
+   */
+  private mapDocToNotification(doc: any): InAppNotification {
+    return {
+      id: doc.id || doc._id,
+      userId: doc.user_id,
+      title: doc.title,
+      body: doc.body ?? '',
+      link: doc.link ?? undefined,
+      category: doc.category ?? undefined,
+      actor: doc.actor ?? undefined,
+      createdAt: doc.created_at,
+      readAt: doc.read_at ?? undefined,
+      archivedAt: doc.archived_at ?? undefined,
+    };
+  }
+}
+
+export class ObjectQLNotificationStorage implements NotificationStorage {
+  private context: PluginContext;
+
+  constructor(context: PluginContext) {
+    this.context = context;
+  }
+
+  async savePreference(preference: NotificationPreference): Promise<void> {
+    const broker = (this.context as any).broker;
+    const [existing] = await broker.call('data.find', {
+      object: 'notification_preference',
+      query: { user_id: preference.userId },
+      limit: 1,
+    });
+    const doc = this.mapPreferenceToDoc(preference);
+
+    if (existing) {
+      await broker.call('data.update', {
+        object: 'notification_preference',
+        id: existing.id || existing._id,
+        doc,
+      });
+    } else {
+      await broker.call('data.create', { object: 'notification_preference', doc });
+    }
+  }
+
+  async getPreference(userId: string): Promise<NotificationPreference | null> {
+    const results = await (this.context as any).broker.call('data.find', {
+      object: 'notification_preference',
+      query: { user_id: userId },
+      limit: 1,
+    });
+    const doc = results?.[0];
+    return doc ? this.mapDocToPreference(doc) : null;
+  }
+
+  async holdNotification(notification: HeldNotification): Promise<void> {
+    await (this.context as any).broker.call('data.create', {
+      object: 'notification_held',
+      doc: {
+        _id: notification.id,
+        id: notification.id,
+        user_id: notification.userId,
+        kind: notification.kind,
+        request: notification.request,
+        release_at: notification.releaseAt,
+        created_at: notification.createdAt,
+      },
+    });
+  }
+
+  async listHeldNotifications(releaseAt: string): Promise<HeldNotification[]> {
+    const results = await (this.context as any).broker.call('data.find', {
+      object: 'notification_held',
+      query: { release_at: { $lte: releaseAt } },
+      sort: 'created_at',
+    });
+
+    return results.map((doc: any) => ({
+      id: doc.id || doc._id,
+      userId: doc.user_id,
+      kind: doc.kind,
+      request: doc.request,
+      releaseAt: doc.release_at,
+      createdAt: doc.created_at,
+    }));
+  }
+
+  async deleteHeldNotifications(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      await (this.context as any).broker.call('data.delete', {
+        object: 'notification_held',
+        id: id,
+      });
+    }
+  }
+
+  /**
+   * Map NotificationPreference to document
+   */
+  private mapPreferenceToDoc(preference: NotificationPreference): any {
+    return {
+      user_id: preference.userId,
+      channels: preference.channels,
+      categories: preference.categories ?? null,
+      quiet_hours: preference.quietHours ?? null,
+      digest: preference.digest ?? null,
+    };
+  }
+
+  /**
+   * Map document to NotificationPreference
+   */
+  private mapDocToPreference(doc: any): NotificationPreference {
+    return {
+      userId: doc.user_id,
+      channels: doc.channels,
+      categories: doc.categories ?? undefined,
+      quietHours: doc.quiet_hours ?? undefined,
+      digest: doc.digest ?? undefined,
+    };
+  }
+}
@@ -1,16 +1,19 @@
 /**
  * Notification Plugin for ObjectOS
  *
- * Multi-channel notification system with Email, SMS, Push, and Webhook support
+ * Multi-channel notification system with Email, SMS, Push, Webhook, and In-App support
  *
  * Features:
- * - Multiple notification channels (Email, SMS, Push, Webhook)
+ * - Multiple notification channels (Email, SMS, Push, Webhook, In-App)
+ * - Per-user in-app inbox with read/archive state and realtime delivery
+ * - User preferences per channel and category, quiet hours and digests
  * - Template rendering with Handlebars
  * - Async queue processing with retry logic
  * - Configurable SMTP, SMS providers, Push providers
  * - Extensible channel architecture
  */
 
+import { randomUUID } from 'crypto';
 import type { Plugin, PluginContext } from '@objectstack/runtime';
 import type {
   INotificationService,
@@ -30,6 +33,11 @@ import type {
   PushOptions,
   WebhookOptions,
   TemplateData,
+  InAppNotification,
+  InboxQueryOptions,
+  HeldNotification,
+  NotificationStorage,
+  NotificationTargeting,
   PluginHealthReport,
   PluginCapabilityManifest,
   PluginSecurityManifest,
@@ -42,6 +50,28 @@ import { EmailChannel } from './channels/email.js';
 import { SmsChannel } from './channels/sms.js';
 import { PushChannel } from './channels/push.js';
 import { WebhookChannel } from './channels/webhook.js';
+import { InAppChannel } from './channels/in-app.js';
+import { InMemoryInboxStorage, InMemoryNotificationStorage } from './storage.js';
+import { ObjectQLInboxStorage, ObjectQLNotificationStorage } from './objectql-storage.js';
+import { decideDelivery, validatePreference } from './preferences.js';
+
+/** Channel toggles of users without saved preferences */
+const DEFAULT_CHANNELS: NotificationPreference['channels'] = {
+  email: true,
+  sms: true,
+  push: true,
+  webhook: true,
+  inApp: true,
+};
+
+/** User fields matched against the recipients of notifications sent without a `userId` */
+const RECIPIENT_FIELDS: Partial<Record<NotificationChannel, string>> = {
+  [NotificationChannel.Email]: 'email',
+  [NotificationChannel.SMS]: 'phone',
+};
+
+/** Body of digest emails, unless a `notification-digest` template is saved */
+const DEFAULT_DIGEST_TEMPLATE = 'You have {{count}} new notifications:\n\n{{summary}}';
 
 /**
  * Notification Plugin
@@ -62,13 +92,16 @@ export class NotificationPlugin implements Plugin, INotificationService {
   private smsChannel?: SmsChannel;
   private pushChannel?: PushChannel;
   private webhookChannel?: WebhookChannel;
+  private inAppChannel?: InAppChannel;
 
   private templates: Map<string, NotificationTemplate> = new Map();
-  private preferences: Map<string, NotificationPreference> = new Map();
+  private storage: NotificationStorage;
+  private releaseTimer?: NodeJS.Timeout;
   private logs: NotificationLog[] = [];
 
   constructor(config: NotificationConfig = {}) {
     this.config = config;
+    this.storage = config.storage || new InMemoryNotificationStorage();
 
     // Initialize template engine
     this.templateEngine = new TemplateEngine({
@@ -112,6 +145,13 @@ export class NotificationPlugin implements Plugin, INotificationService {
     // Webhook channel (always available)
     this.webhookChannel = new WebhookChannel(this.config.webhook || {});
     this.queue?.registerChannel(NotificationChannel.Webhook, this.webhookChannel);
+
+    // In-app channel (always available)
+    this.inAppChannel = new InAppChannel(
+      this.config.inApp?.storage || new InMemoryInboxStorage(),
+      this.templateEngine,
+    );
+    this.queue?.registerChannel(NotificationChannel.InApp, this.inAppChannel);
   }
 
   /**
@@ -121,6 +161,23 @@ export class NotificationPlugin implements Plugin, INotificationService {
     this.context = context;
     this.startedAt = Date.now();
 
+    // Upgrade storage to ObjectQL if not explicitly provided and broker is available
+    if (!this.config.storage && (context as any).broker) {
+      this.storage = new ObjectQLNotificationStorage(context);
+      context.logger.info('[NotificationPlugin] Upgraded preferences to ObjectQL storage');
+    }
+    if (!this.config.inApp?.storage && (context as any).broker) {
+      this.inAppChannel?.setStorage(new ObjectQLInboxStorage(context));
+      context.logger.info('[NotificationPlugin] Upgraded inbox to ObjectQL storage');
+    }
+
+    // Push in-app notifications to the recipients' open sessions
+    if (this.config.inApp?.realtime !== false) {
+      this.inAppChannel?.setPublisher((eventName, payload, recipients) => {
+        this.getRealtimeService()?.broadcast(eventName, payload, { recipients });
+      });
+    }
+
     // Register notification service
     context.registerService('notification', {
       send: this.send.bind(this),
@@ -137,6 +194,12 @@ export class NotificationPlugin implements Plugin, INotificationService {
       savePreference: this.savePreference.bind(this),
       getPreference: this.getPreference.bind(this),
       getNotificationLogs: this.getNotificationLogs.bind(this),
+      listInbox: this.listInbox.bind(this),
+      getUnreadCount: this.getUnreadCount.bind(this),
+      markRead: this.markRead.bind(this),
+      markAllRead: this.markAllRead.bind(this),
+      archiveNotifications: this.archiveNotifications.bind(this),
+      releaseHeldNotifications: this.releaseHeldNotifications.bind(this),
     });
 
     context.logger.info('[NotificationPlugin] Initialized successfully');
@@ -149,6 +212,25 @@ export class NotificationPlugin implements Plugin, INotificationService {
   async start(context: PluginContext): Promise<void> {
     context.logger.info('[NotificationPlugin] Starting...');
 
+    // Release notifications held by quiet hours and digests every minute
+    const jobs = this.getJobService();
+    if (jobs?.schedule) {
+      await jobs.schedule(
+        'notification_release',
+        { type: 'cron', expression: '* * * * *' },
+        async () => {
+          await this.releaseHeldNotifications();
+        },
+      );
+    } else {
+      this.releaseTimer = setInterval(() => {
+        this.releaseHeldNotifications().catch((error) => {
+          context.logger.error('[NotificationPlugin] Release error:', error);
+        });
+      }, 60_000);
+      this.releaseTimer.unref?.();
+    }
+
     // Register HTTP routes for Notification API
     try {
       const httpServer = context.getService('http.server') as any;
@@ -193,6 +275,14 @@ export class NotificationPlugin implements Plugin, INotificationService {
                 config: {},
               });
             }
+            if (this.inAppChannel) {
+              channels.push({
+                name: 'in-app',
+                type: NotificationChannel.InApp,
+                enabled: true,
+                config: { realtime: this.config.inApp?.realtime !== false },
+              });
+            }
             return c.json({ success: true, data: channels });
           } catch (error: any) {
             context.logger.error('[Notification API] Channels error:', error);
@@ -223,6 +313,127 @@ export class NotificationPlugin implements Plugin, INotificationService {
           }
         });
 
+        // GET /api/v1/notifications/inbox - List the current user's notifications
+        rawApp.get('/api/v1/notifications/inbox', async (c: any) => {
+          try {
+            const userId = this.getRequestUserId(c);
+            if (!userId) return c.json({ success: false, error: 'Unauthorized' }, 401);
+            const unread = c.req.query('unread');
+            const limit = c.req.query('limit');
+            const skip = c.req.query('skip');
+            const notifications = await this.listInbox(userId, {
+              unread: unread === undefined ? undefined : unread === 'true',
+              archived: c.req.query('archived') === 'true',
+              category: c.req.query('category') || undefined,
+              limit: limit ? Number(limit) : 50,
+              skip: skip ? Number(skip) : undefined,
+            });
+            return c.json({ success: true, data: notifications });
+          } catch (error: any) {
+            context.logger.error('[Notification API] Inbox error:', error);
+            return c.json({ success: false, error: error.message }, 500);
+          }
+        });
+
+        // GET /api/v1/notifications/inbox/unread-count - Count unread notifications
+        rawApp.get('/api/v1/notifications/inbox/unread-count', async (c: any) => {
+          try {
+            const userId = this.getRequestUserId(c);
+            if (!userId) return c.json({ success: false, error: 'Unauthorized' }, 401);
+            const count = await this.getUnreadCount(userId);
+            return c.json({ success: true, data: { count } });
+          } catch (error: any) {
+            context.logger.error('[Notification API] Unread count error:', error);
+            return c.json({ success: false, error: error.message }, 500);
+          }
+        });
+
+        // POST /api/v1/notifications/inbox/read - Mark notifications as read
+        rawApp.post('/api/v1/notifications/inbox/read', async (c: any) => {
+          try {
+            const userId = this.getRequestUserId(c);
+            if (!userId) return c.json({ success: false, error: 'Unauthorized' }, 401);
+            const { ids } = await c.req.json();
+            if (!Array.isArray(ids)) {
+              return c.json({ success: false, error: 'ids must be an array' }, 400);
+            }
+            const updated = await this.markRead(userId, ids);
+            return c.json({ success: true, data: { ids: updated } });
+          } catch (error: any) {
+            context.logger.error('[Notification API] Mark read error:', error);
+            return c.json({ success: false, error: error.message }, 500);
+          }
+        });
+
+        // POST /api/v1/notifications/inbox/read-all - Mark the whole inbox as read
+        rawApp.post('/api/v1/notifications/inbox/read-all', async (c: any) => {
+          try {
+            const userId = this.getRequestUserId(c);
+            if (!userId) return c.json({ success: false, error: 'Unauthorized' }, 401);
+            const updated = await this.markAllRead(userId);
+            return c.json({ success: true, data: { ids: updated } });
+          } catch (error: any) {
+            context.logger.error('[Notification API] Mark all read error:', error);
+            return c.json({ success: false, error: error.message }, 500);
+          }
+        });
+
+        // POST /api/v1/notifications/inbox/archive - Archive notifications
+        rawApp.post('/api/v1/notifications/inbox/archive', async (c: any) => {
+          try {
+            const userId = this.getRequestUserId(c);
+            if (!userId) return c.json({ success: false, error: 'Unauthorized' }, 401);
+            const { ids } = await c.req.json();
+            if (!Array.isArray(ids)) {
+              return c.json({ success: false, error: 'ids must be an array' }, 400);
+            }
+            const updated = await this.archiveNotifications(userId, ids);
+            return c.json({ success: true, data: { ids: updated } });
+          } catch (error: any) {
+            context.logger.error('[Notification API] Archive error:', error);
+            return c.json({ success: false, error: error.message }, 500);
+          }
+        });
+
+        // GET /api/v1/notifications/preferences - Current user's preferences
+        rawApp.get('/api/v1/notifications/preferences', async (c: any) => {
+          try {
+            const userId = this.getRequestUserId(c);
+            if (!userId) return c.json({ success: false, error: 'Unauthorized' }, 401);
+            const preference = await this.getPreference(userId);
+            return c.json({
+              success: true,
+              data: preference ?? { userId, channels: DEFAULT_CHANNELS },
+            });
+          } catch (error: any) {
+            context.logger.error('[Notification API] Get preferences error:', error);
+            return c.json({ success: false, error: error.message }, 500);
+          }
+        });
+
+        // PUT /api/v1/notifications/preferences - Replace current user's preferences
+        rawApp.put('/api/v1/notifications/preferences', async (c: any) => {
+          try {
+            const userId = this.getRequestUserId(c);
+            if (!userId) return c.json({ success: false, error: 'Unauthorized' }, 401);
+            const body = await c.req.json();
+            const preference: NotificationPreference = {
+              ...body,
+              channels: { ...DEFAULT_CHANNELS, ...body.channels },
+              userId,
+            };
+            try {
+              await this.savePreference(preference);
+            } catch (error: any) {
+              return c.json({ success: false, error: error.message }, 400);
+            }
+            return c.json({ success: true, data: preference });
+          } catch (error: any) {
+            context.logger.error('[Notification API] Save preferences error:', error);
+            return c.json({ success: false, error: error.message }, 500);
+          }
+        });
+
         context.logger.info('[NotificationPlugin] HTTP routes registered');
       }
     } catch (e: any) {
@@ -243,6 +454,7 @@ export class NotificationPlugin implements Plugin, INotificationService {
     if (this.smsChannel) channels.push('sms');
     if (this.pushChannel) channels.push('push');
     if (this.webhookChannel) channels.push('webhook');
+    if (this.inAppChannel) channels.push('in-app');
     const status = channels.length > 0 ? 'healthy' : 'degraded';
     const message = `Active channels: ${channels.join(', ') || 'none'}`;
     return {
@@ -296,6 +508,46 @@ export class NotificationPlugin implements Plugin, INotificationService {
                 description: 'Get notification queue status',
                 async: false,
               },
+              {
+                name: 'listInbox',
+                description: "List a user's in-app notifications",
+                returnType: 'Promise<InAppNotification[]>',
+                async: true,
+              },
+              {
+                name: 'getUnreadCount',
+                description: "Count unread notifications in a user's inbox",
+                returnType: 'Promise<number>',
+                async: true,
+              },
+              { name: 'markRead', description: 'Mark in-app notifications as read', async: true },
+              {
+                name: 'markAllRead',
+                description: "Mark a user's whole inbox as read",
+                async: true,
+              },
+              {
+                name: 'archiveNotifications',
+                description: 'Archive in-app notifications',
+                async: true,
+              },
+              {
+                name: 'savePreference',
+                description: "Save a user's notification preferences",
+                async: true,
+              },
+              {
+                name: 'getPreference',
+                description: "Get a user's notification preferences",
+                returnType: 'Promise<NotificationPreference | undefined>',
+                async: true,
+              },
+              {
+                name: 'releaseHeldNotifications',
+                description: 'Send notifications held by quiet hours and digests that are due',
+                returnType: 'Promise<number>',
+                async: true,
+              },
             ],
             stability: 'stable',
           },
@@ -328,6 +580,7 @@ export class NotificationPlugin implements Plugin, INotificationService {
   async destroy(): Promise<void> {
     // Stop queue processing
     this.queue?.stop();
+    clearInterval(this.releaseTimer);
 
     this.context?.logger.info('[NotificationPlugin] Destroyed');
     await this.context?.trigger('plugin.destroyed', { plugin: this.name });
@@ -362,19 +615,52 @@ export class NotificationPlugin implements Plugin, INotificationService {
         throw new Error(`Channel ${request.channel} is not configured`);
       }
 
-      // Queue if enabled, otherwise send immediately
-      if (this.queue && this.config.queue?.enabled !== false) {
-        const id = this.queue.enqueue(request);
-        return {
-          success: true,
-          messageId: id,
-          channel: request.channel,
-          timestamp: new Date(),
-          metadata: { queued: true },
-        };
-      } else {
-        return await channel.send(request);
+      // Apply the preferences of the users the notification is for
+      const { targets, unmatched } = await this.resolveRecipients(request);
+      if (targets.length === 0) {
+        return await this.deliver(request, channel);
+      }
+
+      const all = ([] as string[]).concat(request.recipient);
+      const narrow = (recipients: string[]): NotificationRequest =>
+        recipients.length === all.length ? request : { ...request, recipient: recipients };
+      const now = new Date();
+      const recipients: string[] = [...unmatched];
+      const suppressed: string[] = [];
+      const held: Array<Pick<HeldNotification, 'userId' | 'kind' | 'releaseAt'>> = [];
+      for (const target of targets) {
+        const decision = decideDelivery(request, await this.getPreference(target.userId), now);
+        if (decision.action === 'deliver') {
+          recipients.push(...target.recipients);
+        } else if (decision.action === 'suppress') {
+          suppressed.push(target.userId);
+        } else {
+          const notification: HeldNotification = {
+            id: randomUUID(),
+            userId: target.userId,
+            kind: decision.action === 'defer' ? 'deferred' : 'digest',
+            request: narrow(target.recipients),
+            releaseAt: decision.releaseAt.toISOString(),
+            createdAt: now.toISOString(),
+          };
+          await this.storage.holdNotification(notification);
+          held.push({
+            userId: target.userId,
+            kind: notification.kind,
+            releaseAt: notification.releaseAt,
+          });
+        }
+      }
+
+      const metadata = {
+        ...(suppressed.length > 0 && { suppressed }),
+        ...(held.length > 0 && { held }),
+      };
+      if (recipients.length === 0) {
+        return { success: true, channel: request.channel, timestamp: now, metadata };
       }
+      const result = await this.deliver(narrow(recipients), channel);
+      return { ...result, metadata: { ...result.metadata, ...metadata } };
     } catch (error) {
       return {
         success: false,
@@ -385,6 +671,176 @@ export class NotificationPlugin implements Plugin, INotificationService {
     }
   }
 
+  /**
+   * The users a notification is for and the recipients that reach each of
+   * them. In-app recipients are users; `userId` claims every recipient;
+   * otherwise email addresses and phone numbers are looked up on user
+   * records. Recipients of no known user are `unmatched`.
+   */
+  private async resolveRecipients(request: NotificationRequest): Promise<{
+    targets: Array<{ userId: string; recipients: string[] }>;
+    unmatched: string[];
+  }> {
+    const all = ([] as string[]).concat(request.recipient);
+    if (request.channel === NotificationChannel.InApp) {
+      return { targets: all.map((userId) => ({ userId, recipients: [userId] })), unmatched: [] };
+    }
+    if (request.userId) {
+      return { targets: [{ userId: request.userId, recipients: all }], unmatched: [] };
+    }
+
+    const field = RECIPIENT_FIELDS[request.channel];
+    const broker = (this.context as any)?.broker;
+    if (!field || !broker || all.length === 0) return { targets: [], unmatched: all };
+
+    let users: any[] = [];
+    try {
+      users =
+        (await broker.call('data.find', { object: 'user', query: { [field]: { $in: all } } })) ??
+        [];
+    } catch (error) {
+      this.context?.logger.warn(
+        `[NotificationPlugin] Could not look up recipients: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const owners = new Map<string, string>();
+    for (const user of users) {
+      if (user[field]) owners.set(String(user[field]), String(user._id ?? user.id));
+    }
+    const targets: Map<string, string[]> = new Map();
+    const unmatched: string[] = [];
+    for (const recipient of all) {
+      const userId = owners.get(recipient);
+      if (userId) {
+        targets.set(userId, [...(targets.get(userId) ?? []), recipient]);
+      } else {
+        unmatched.push(recipient);
+      }
+    }
+    return {
+      targets: Array.from(targets, ([userId, recipients]) => ({ userId, recipients })),
+      unmatched,
+    };
+  }
+
+  /**
+   * Queue a notification if the queue is enabled, otherwise send it now
+   */
+  private async deliver(request: NotificationRequest, channel: any): Promise<NotificationResult> {
+    if (this.queue && this.config.queue?.enabled !== false) {
+      const id = this.queue.enqueue(request);
+      return {
+        success: true,
+        messageId: id,
+        channel: request.channel,
+        timestamp: new Date(),
+        metadata: { queued: true },
+      };
+    }
+    return channel.send(request);
+  }
+
+  /**
+   * Send the held notifications that are due: notifications deferred by
+   * quiet hours go out as they are, digest notifications as one email per
+   * user. Notifications that fail to send are kept and retried at the next
+   * release. Returns the number released.
+   */
+  async releaseHeldNotifications(now: Date = new Date()): Promise<number> {
+    const due = await this.storage.listHeldNotifications(now.toISOString());
+    const released: string[] = [];
+    const digests: Map<string, HeldNotification[]> = new Map();
+
+    for (const held of due) {
+      if (held.kind === 'digest') {
+        digests.set(held.userId, [...(digests.get(held.userId) ?? []), held]);
+        continue;
+      }
+      const channel = this.getChannel(held.request.channel);
+      const result = channel
+        ? await this.deliver(held.request, channel)
+        : { success: false, error: `Channel ${held.request.channel} is not configured` };
+      if (result.success) {
+        released.push(held.id);
+      } else {
+        this.context?.logger.warn(
+          `[NotificationPlugin] Could not send deferred notification ${held.id}: ${result.error}`,
+        );
+      }
+    }
+
+    for (const [userId, notifications] of digests) {
+      const result = await this.sendDigest(userId, notifications);
+      if (result.success) {
+        released.push(...notifications.map((n) => n.id));
+      } else {
+        this.context?.logger.warn(
+          `[NotificationPlugin] Could not send digest to ${userId}: ${result.error}`,
+        );
+      }
+    }
+
+    await this.storage.deleteHeldNotifications(released);
+    return released.length;
+  }
+
+  /**
+   * Summarize a user's digest notifications in one email, rendered from the
+   * digest template
+   */
+  private async sendDigest(
+    userId: string,
+    notifications: HeldNotification[],
+  ): Promise<NotificationResult> {
+    const preference = await this.getPreference(userId);
+    if (!preference?.digest?.email) {
+      // Nowhere to send it; the notifications are dropped
+      this.context?.logger.warn(`[NotificationPlugin] No digest address for ${userId}`);
+      return { success: true, channel: NotificationChannel.Email, timestamp: new Date() };
+    }
+    if (!this.emailChannel) {
+      return {
+        success: false,
+        channel: NotificationChannel.Email,
+        error: 'Email channel is not configured',
+        timestamp: new Date(),
+      };
+    }
+
+    const items = notifications.map(({ request, createdAt }) => ({
+      channel: request.channel,
+      category: request.category ?? request.options?.category,
+      subject: request.subject ?? '',
+      body:
+        request.template && request.data
+          ? this.templateEngine.render(request.template, request.data)
+          : (request.body ?? ''),
+      createdAt,
+    }));
+    const data: TemplateData = {
+      userId,
+      frequency: preference.digest.frequency,
+      count: items.length,
+      notifications: items,
+      summary: items.map((n) => `- ${n.subject}${n.body ? `: ${n.body}` : ''}`).join('\n'),
+    };
+    const template = this.templates.get(this.config.digest?.templateId ?? 'notification-digest');
+
+    return this.deliver(
+      {
+        channel: NotificationChannel.Email,
+        recipient: preference.digest.email,
+        subject: this.templateEngine.render(
+          template?.subject ?? this.config.digest?.subject ?? 'Your notification digest',
+          data,
+        ),
+        body: this.templateEngine.render(template?.body ?? DEFAULT_DIGEST_TEMPLATE, data),
+      },
+      this.emailChannel,
+    );
+  }
+
   /**
    * Send a batch of notifications (INotificationService contract)
    */
@@ -401,89 +857,78 @@ export class NotificationPlugin implements Plugin, INotificationService {
     if (this.smsChannel) channels.push('sms');
     if (this.pushChannel) channels.push('push');
     if (this.webhookChannel) channels.push('webhook');
+    if (this.inAppChannel) channels.push('in-app');
     return channels;
   }
 
   /**
-   * Send email notification
+   * Send email notification. Goes through `send`, so the preferences of
+   * `options.userId` (or of the users the addresses belong to) apply.
    */
   async sendEmail(
     to: string | string[],
     subject: string,
     body: string,
-    options?: Partial<EmailOptions>,
+    options: Partial<EmailOptions> & NotificationTargeting = {},
   ): Promise<NotificationResult> {
-    if (!this.emailChannel) {
-      return {
-        success: false,
-        channel: NotificationChannel.Email,
-        error: 'Email channel is not configured',
-        timestamp: new Date(),
-      };
-    }
-
-    const emailOptions: EmailOptions = {
-      to,
+    const { userId, category, priority, template, data, ...email } = options;
+    return this.send({
+      channel: NotificationChannel.Email,
+      recipient: to,
       subject,
       body,
-      ...options,
-    };
-
-    return this.emailChannel.sendEmail(emailOptions);
+      template,
+      data,
+      options: email,
+      userId,
+      category,
+      priority,
+    });
   }
 
   /**
-   * Send SMS notification
+   * Send SMS notification, subject to the recipients' preferences
    */
   async sendSMS(
     to: string | string[],
     body: string,
-    options?: Partial<SmsOptions>,
+    options: Partial<SmsOptions> & NotificationTargeting = {},
   ): Promise<NotificationResult> {
-    if (!this.smsChannel) {
-      return {
-        success: false,
-        channel: NotificationChannel.SMS,
-        error: 'SMS channel is not configured',
-        timestamp: new Date(),
-      };
-    }
-
-    const smsOptions: SmsOptions = {
-      to,
+    const { userId, category, priority, template, data } = options;
+    return this.send({
+      channel: NotificationChannel.SMS,
+      recipient: to,
       body,
-      ...options,
-    };
-
-    return this.smsChannel.sendSMS(smsOptions);
+      template,
+      data,
+      userId,
+      category,
+      priority,
+    });
   }
 
   /**
-   * Send push notification
+   * Send push notification. Device tokens do not identify a user, so pass
+   * `options.userId` for the user's preferences to apply.
    */
   async sendPush(
     tokens: string | string[],
     title: string,
     body: string,
-    options?: Partial<PushOptions>,
+    options: Partial<PushOptions> & NotificationTargeting = {},
   ): Promise<NotificationResult> {
-    if (!this.pushChannel) {
-      return {
-        success: false,
-        channel: NotificationChannel.Push,
-        error: 'Push channel is not configured',
-        timestamp: new Date(),
-      };
-    }
-
-    const pushOptions: PushOptions = {
-      tokens,
-      title,
+    const { userId, category, priority, data, ...push } = options;
+    return this.send({
+      channel: NotificationChannel.Push,
+      recipient: tokens,
+      subject: title,
       body,
-      ...options,
-    };
-
-    return this.pushChannel.sendPush(pushOptions);
+      data,
+      options: push,
+      userId,
+      category,
+      priority,
+    });
   }
 
   /**
@@ -512,6 +957,44 @@ export class NotificationPlugin implements Plugin, INotificationService {
     return this.webhookChannel.sendWebhook(webhookOptions);
   }
 
+  /**
+   * List a user's in-app notifications, newest first
+   */
+  async listInbox(
+    userId: string,
+    options: Omit<InboxQueryOptions, 'userId'> = {},
+  ): Promise<InAppNotification[]> {
+    return this.inAppChannel ? this.inAppChannel.list({ ...options, userId }) : [];
+  }
+
+  /**
+   * Count unread notifications in a user's inbox
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    return this.inAppChannel ? this.inAppChannel.getUnreadCount(userId) : 0;
+  }
+
+  /**
+   * Mark a user's notifications as read; returns the IDs that changed
+   */
+  async markRead(userId: string, ids: string[]): Promise<string[]> {
+    return this.inAppChannel ? this.inAppChannel.markRead(userId, ids) : [];
+  }
+
+  /**
+   * Mark a user's whole inbox as read; returns the IDs that changed
+   */
+  async markAllRead(userId: string): Promise<string[]> {
+    return this.inAppChannel ? this.inAppChannel.markAllRead(userId) : [];
+  }
+
+  /**
+   * Archive a user's notifications; returns the IDs that changed
+   */
+  async archiveNotifications(userId: string, ids: string[]): Promise<string[]> {
+    return this.inAppChannel ? this.inAppChannel.archive(userId, ids) : [];
+  }
+
   /**
    * Render a template with data
    */
@@ -564,14 +1047,15 @@ export class NotificationPlugin implements Plugin, INotificationService {
    * Save a user's notification preference
    */
   async savePreference(pref: NotificationPreference): Promise<void> {
-    this.preferences.set(pref.userId, pref);
+    validatePreference(pref);
+    await this.storage.savePreference(pref);
   }
 
   /**
    * Get a user's notification preference
    */
   async getPreference(userId: string): Promise<NotificationPreference | undefined> {
-    return this.preferences.get(userId);
+    return (await this.storage.getPreference(userId)) ?? undefined;
   }
 
   /**
@@ -594,8 +1078,39 @@ export class NotificationPlugin implements Plugin, INotificationService {
         return this.pushChannel;
       case NotificationChannel.Webhook:
         return this.webhookChannel;
+      case NotificationChannel.InApp:
+        return this.inAppChannel;
       default:
         return null;
     }
   }
+
+  /**
+   * Job service, if one is registered
+   */
+  private getJobService(): any {
+    try {
+      return this.context?.getService('job');
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Realtime service, if one is registered
+   */
+  private getRealtimeService(): any {
+    try {
+      return this.context?.getService('realtime');
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * User of an HTTP request, as set by the auth middleware
+   */
+  private getRequestUserId(c: any): string | undefined {
+    return c.get?.('user')?.id ?? c.req.header('x-user-id') ?? undefined;
+  }
 }
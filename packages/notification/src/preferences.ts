@@ -0,0 +1,174 @@
+/**
+ * Notification Preferences
+ *
+ * Decides what happens to a notification for a user with preferences:
+ * - Channels can be turned off, for all notifications or per category
+ * - Notifications arriving in quiet hours are held until they end
+ * - With digests on, low-priority notifications are held and summarized in
+ *   one email per hour or day
+ *
+ * High-priority notifications ignore quiet hours and digests. In-app
+ * notifications only follow the channel toggles: the inbox does not
+ * interrupt anyone.
+ */
+
+import type {
+  DigestPreference,
+  NotificationPreference,
+  NotificationPriority,
+  NotificationRequest,
+} from './types.js';
+import { NotificationChannel } from './types.js';
+
+/**
+ * What to do with a notification for a user
+ */
+export type DeliveryDecision =
+  | { action: 'deliver' }
+  | { action: 'suppress'; reason: string }
+  | { action: 'defer'; releaseAt: Date }
+  | { action: 'digest'; releaseAt: Date };
+
+/** Preference key of a channel */
+const CHANNEL_KEYS: Record<NotificationChannel, keyof NotificationPreference['channels']> = {
+  [NotificationChannel.Email]: 'email',
+  [NotificationChannel.SMS]: 'sms',
+  [NotificationChannel.Push]: 'push',
+  [NotificationChannel.Webhook]: 'webhook',
+  [NotificationChannel.InApp]: 'inApp',
+};
+
+/**
+ * Whether a user receives notifications of a category on a channel.
+ * Channels missing from the preferences are on.
+ */
+export function isChannelEnabled(
+  preference: NotificationPreference,
+  channel: NotificationChannel,
+  category?: string,
+): boolean {
+  const key = CHANNEL_KEYS[channel];
+  const categoryPreference = category ? preference.categories?.[category] : undefined;
+  if (categoryPreference?.enabled === false) return false;
+  const enabled = categoryPreference?.channels?.[key] ?? preference.channels[key];
+  return enabled !== false;
+}
+
+/**
+ * Minutes since midnight of a time in a timezone
+ */
+export function localMinutes(date: Date, timezone = 'UTC'): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const value = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return value('hour') * 60 + value('minute');
+}
+
+/** Minutes since midnight of an `HH:mm` time */
+function parseTime(time: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) throw new Error(`Invalid time "${time}", expected HH:mm`);
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/** Start of the minute `minutes` from now */
+function minutesFrom(now: Date, minutes: number): Date {
+  const start = new Date(now);
+  start.setUTCSeconds(0, 0);
+  return new Date(start.getTime() + minutes * 60_000);
+}
+
+/**
+ * End of the quiet hours `now` falls in, or undefined outside quiet hours.
+ * Quiet hours may span midnight (e.g. 22:00–07:00).
+ */
+export function quietHoursEnd(preference: NotificationPreference, now: Date): Date | undefined {
+  const quietHours = preference.quietHours;
+  if (!quietHours?.enabled) return undefined;
+
+  const start = parseTime(quietHours.start);
+  const end = parseTime(quietHours.end);
+  const current = localMinutes(now, quietHours.timezone);
+  const inside =
+    start <= end ? current >= start && current < end : current >= start || current < end;
+  if (!inside) return undefined;
+  return minutesFrom(now, (end - current + 1440) % 1440);
+}
+
+/**
+ * When the next digest goes out: at the top of the next hour, or daily at
+ * `hour` o'clock in the digest's timezone
+ */
+export function nextDigestAt(digest: DigestPreference, now: Date): Date {
+  const current = localMinutes(now, digest.timezone);
+  if (digest.frequency === 'hourly') {
+    return minutesFrom(now, 60 - (current % 60));
+  }
+  const target = (digest.hour ?? 8) * 60;
+  return minutesFrom(now, (target - current + 1440) % 1440 || 1440);
+}
+
+/**
+ * Check a preference before it is saved
+ */
+export function validatePreference(preference: NotificationPreference): void {
+  if (!preference.userId) {
+    throw new Error('Notification preferences require a userId');
+  }
+  if (preference.quietHours) {
+    parseTime(preference.quietHours.start);
+    parseTime(preference.quietHours.end);
+  }
+  const digest = preference.digest;
+  if (digest?.enabled && !digest.email) {
+    throw new Error('Digests require an email address');
+  }
+  if (
+    digest?.hour !== undefined &&
+    !(Number.isInteger(digest.hour) && digest.hour >= 0 && digest.hour < 24)
+  ) {
+    throw new Error(`Invalid digest hour ${digest.hour}, expected 0-23`);
+  }
+}
+
+/**
+ * Decide what happens to a notification for a user
+ */
+export function decideDelivery(
+  request: NotificationRequest,
+  preference: NotificationPreference | undefined,
+  now: Date = new Date(),
+): DeliveryDecision {
+  if (!preference) return { action: 'deliver' };
+
+  const category = request.category ?? request.options?.category;
+  if (!isChannelEnabled(preference, request.channel, category)) {
+    return {
+      action: 'suppress',
+      reason: category
+        ? `${request.channel} notifications of category ${category} are turned off`
+        : `${request.channel} notifications are turned off`,
+    };
+  }
+
+  const priority: NotificationPriority = request.priority ?? 'normal';
+  if (priority === 'high' || request.channel === NotificationChannel.InApp) {
+    return { action: 'deliver' };
+  }
+
+  const digest = preference.digest;
+  const digested =
+    priority === 'low' || (category ? preference.categories?.[category]?.digest === true : false);
+  if (digest?.enabled && digested) {
+    return { action: 'digest', releaseAt: nextDigestAt(digest, now) };
+  }
+
+  const releaseAt = quietHoursEnd(preference, now);
+  if (releaseAt) return { action: 'defer', releaseAt };
+
+  return { action: 'deliver' };
+}
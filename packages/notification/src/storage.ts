@@ -0,0 +1,101 @@
+/**
+ * In-Memory Notification Storage
+ *
+ * Simple in-memory implementations of the inbox and preference storage.
+ * Data is lost on restart; use ObjectQL storage in production.
+ */
+
+import type {
+  HeldNotification,
+  InAppNotification,
+  InboxQueryOptions,
+  InboxStorage,
+  NotificationPreference,
+  NotificationStorage,
+} from './types.js';
+
+export class InMemoryInboxStorage implements InboxStorage {
+  private notifications: Map<string, InAppNotification> = new Map();
+
+  async save(notification: InAppNotification): Promise<void> {
+    this.notifications.set(notification.id, { ...notification });
+  }
+
+  async get(id: string): Promise<InAppNotification | null> {
+    const notification = this.notifications.get(id);
+    return notification ? { ...notification } : null;
+  }
+
+  async update(id: string, updates: Partial<InAppNotification>): Promise<void> {
+    const notification = this.notifications.get(id);
+    if (!notification) {
+      throw new Error(`Notification ${id} not found`);
+    }
+    this.notifications.set(id, { ...notification, ...updates });
+  }
+
+  async query(options: InboxQueryOptions): Promise<InAppNotification[]> {
+    const results = this.filter(options).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const skip = options.skip ?? 0;
+    const end = options.limit !== undefined ? skip + options.limit : undefined;
+    return results.slice(skip, end).map((n) => ({ ...n }));
+  }
+
+  async count(options: Omit<InboxQueryOptions, 'limit' | 'skip'>): Promise<number> {
+    return this.filter(options).length;
+  }
+
+  /**
+   * Clear all notifications (for testing)
+   */
+  clear(): void {
+    this.notifications.clear();
+  }
+
+  private filter(options: Omit<InboxQueryOptions, 'limit' | 'skip'>): InAppNotification[] {
+    return Array.from(this.notifications.values()).filter(
+      (n) =>
+        n.userId === options.userId &&
+        !!n.archivedAt === (options.archived ?? false) &&
+        (options.unread === undefined || !n.readAt === options.unread) &&
+        (options.category === undefined || n.category === options.category),
+    );
+  }
+}
+
+export class InMemoryNotificationStorage implements NotificationStorage {
+  private preferences: Map<string, NotificationPreference> = new Map();
+  private held: Map<string, HeldNotification> = new Map();
+
+  async savePreference(preference: NotificationPreference): Promise<void> {
+    this.preferences.set(preference.userId, { ...preference });
+  }
+
+  async getPreference(userId: string): Promise<NotificationPreference | null> {
+    const preference = this.preferences.get(userId);
+    return preference ? { ...preference } : null;
+  }
+
+  async holdNotification(notification: HeldNotification): Promise<void> {
+    this.held.set(notification.id, { ...notification });
+  }
+
+  async listHeldNotifications(releaseAt: string): Promise<HeldNotification[]> {
+    return Array.from(this.held.values())
+      .filter((n) => n.releaseAt <= releaseAt)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((n) => ({ ...n }));
+  }
+
+  async deleteHeldNotifications(ids: string[]): Promise<void> {
+    ids.forEach((id) => this.held.delete(id));
+  }
+
+  /**
+   * Clear all preferences and held notifications (for testing)
+   */
+  clear(): void {
+    this.preferences.clear();
+    this.held.clear();
+  }
+}
@@ -12,8 +12,15 @@ export enum NotificationChannel {
   SMS = 'sms',
   Push = 'push',
   Webhook = 'webhook',
+  InApp = 'in-app',
 }
 
+/**
+ * Notification priority. Low-priority notifications go into digests;
+ * high-priority ones ignore quiet hours and digests.
+ */
+export type NotificationPriority = 'low' | 'normal' | 'high';
+
 /**
  * Notification status
  */
@@ -74,6 +81,26 @@ export interface WebhookConfig {
   headers?: Record<string, string>;
 }
 
+/**
+ * In-app notification configuration
+ */
+export interface InAppConfig {
+  /** Inbox storage; defaults to ObjectQL when a broker is available, else in-memory */
+  storage?: InboxStorage;
+  /** Push new notifications over the realtime service (default: true) */
+  realtime?: boolean;
+}
+
+/**
+ * Digest email configuration
+ */
+export interface DigestConfig {
+  /** ID of a saved template for the digest body (default: 'notification-digest') */
+  templateId?: string;
+  /** Subject of digest emails (template; default: 'Your notification digest') */
+  subject?: string;
+}
+
 /**
  * Template data for rendering
  */
@@ -97,6 +124,10 @@ export interface NotificationConfig {
   sms?: SmsConfig;
   push?: PushConfig;
   webhook?: WebhookConfig;
+  inApp?: InAppConfig;
+  /** Preference and held notification storage; defaults to ObjectQL when a broker is available, else in-memory */
+  storage?: NotificationStorage;
+  digest?: DigestConfig;
   templates?: {
     directory?: string;
     cache?: boolean;
@@ -165,6 +196,30 @@ export interface WebhookOptions {
   };
 }
 
+/**
+ * In-app notification options, passed as `options` of a notification request
+ */
+export interface InAppOptions {
+  /** Record the notification is about */
+  link?: InAppLink;
+  /** e.g. 'approval', 'mention', 'assignment' */
+  category?: string;
+  /** User whose action caused the notification */
+  actor?: InAppActor;
+}
+
+export interface InAppLink {
+  object: string;
+  recordId: string;
+  /** URL to open instead of the record page */
+  url?: string;
+}
+
+export interface InAppActor {
+  id: string;
+  name?: string;
+}
+
 /**
  * Generic notification request
  */
@@ -176,8 +231,19 @@ export interface NotificationRequest {
   template?: string;
   data?: TemplateData;
   options?: any;
+  /** User the notification is for, so their preferences apply (in-app recipients are users already) */
+  userId?: string;
+  /** e.g. 'approval', 'mention'; preferences can be set per category */
+  category?: string;
+  priority?: NotificationPriority;
 }
 
+/**
+ * Who a notification sent with `sendEmail`, `sendSMS` or `sendPush` is for,
+ * so that preferences apply
+ */
+export type NotificationTargeting = Pick<NotificationRequest, 'userId' | 'category' | 'priority'>;
+
 /**
  * Notification result
  */
@@ -210,6 +276,48 @@ export interface NotificationChannelInterface {
   send(request: NotificationRequest): Promise<NotificationResult>;
 }
 
+/**
+ * A notification in a user's inbox
+ */
+export interface InAppNotification {
+  id: string;
+  userId: string;
+  title: string;
+  body: string;
+  link?: InAppLink;
+  category?: string;
+  actor?: InAppActor;
+  createdAt: string;
+  readAt?: string;
+  archivedAt?: string;
+}
+
+/**
+ * Inbox query options
+ */
+export interface InboxQueryOptions {
+  userId: string;
+  /** Only unread (true) or read (false) notifications */
+  unread?: boolean;
+  /** Archived notifications instead of the inbox (default: false) */
+  archived?: boolean;
+  category?: string;
+  limit?: number;
+  skip?: number;
+}
+
+/**
+ * Inbox storage interface
+ */
+export interface InboxStorage {
+  save(notification: InAppNotification): Promise<void>;
+  get(id: string): Promise<InAppNotification | null>;
+  update(id: string, updates: Partial<InAppNotification>): Promise<void>;
+  /** Notifications of a user, newest first */
+  query(options: InboxQueryOptions): Promise<InAppNotification[]>;
+  count(options: Omit<InboxQueryOptions, 'limit' | 'skip'>): Promise<number>;
+}
+
 /**
  * Notification template definition
  */
@@ -235,13 +343,70 @@ export interface NotificationPreference {
     sms: boolean;
     push: boolean;
     webhook: boolean;
+    inApp?: boolean;
   };
+  /** Per-category settings; categories not listed follow `channels` */
+  categories?: Record<string, CategoryPreference>;
   quietHours?: {
     enabled: boolean;
+    /** HH:mm */
     start: string;
+    /** HH:mm */
     end: string;
     timezone: string;
   };
+  /** Summarize low-priority notifications in one email per hour or day */
+  digest?: DigestPreference;
+}
+
+/**
+ * Preferences for one category of notifications
+ */
+export interface CategoryPreference {
+  /** false turns the category off on every channel */
+  enabled?: boolean;
+  /** Channel toggles for the category, over the user's channel toggles */
+  channels?: Partial<NotificationPreference['channels']>;
+  /** Put every notification of the category in the digest, whatever its priority */
+  digest?: boolean;
+}
+
+/**
+ * Digest preferences
+ */
+export interface DigestPreference {
+  enabled: boolean;
+  frequency: 'hourly' | 'daily';
+  /** Hour of the day (0-23) daily digests are sent at (default: 8) */
+  hour?: number;
+  timezone?: string;
+  /** Address digests are sent to */
+  email: string;
+}
+
+/**
+ * A notification held back by preferences until `releaseAt`
+ */
+export interface HeldNotification {
+  id: string;
+  userId: string;
+  /** Deferred by quiet hours, or waiting for the next digest */
+  kind: 'deferred' | 'digest';
+  request: NotificationRequest;
+  releaseAt: string;
+  createdAt: string;
+}
+
+/**
+ * Preference and held notification storage interface
+ */
+export interface NotificationStorage {
+  savePreference(preference: NotificationPreference): Promise<void>;
+  getPreference(userId: string): Promise<NotificationPreference | null>;
+  holdNotification(notification: HeldNotification): Promise<void>;
+  /** Held notifications due by `releaseAt`, oldest first */
+  listHeldNotifications(releaseAt: string): Promise<HeldNotification[]>;
+  deleteHeldNotifications(ids: string[]): Promise<void>;
 }
 
 /**
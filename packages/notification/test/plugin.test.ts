@@ -4,6 +4,8 @@
 
 import { NotificationPlugin } from '../src/plugin.js';
 import { NotificationChannel } from '../src/types.js';
+import { EmailChannel } from '../src/channels/email.js';
+import { InMemoryNotificationStorage } from '../src/storage.js';
 import type { PluginContext } from '@objectstack/runtime';
 
 // Mock axios
@@ -408,6 +410,447 @@ describe('NotificationPlugin', () => {
     });
   });
 
+  describe('In-App Notifications', () => {
+    let broadcast: jest.Mock;
+
+    const notify = (recipient: string | string[], subject: string, options?: any) =>
+      plugin.send({
+        channel: NotificationChannel.InApp,
+        recipient,
+        subject,
+        body: `${subject} body`,
+        options,
+      });
+
+    beforeEach(async () => {
+      plugin = new NotificationPlugin({ queue: { enabled: false } });
+      context = createMockContext();
+      broadcast = jest.fn();
+      context.registerService('realtime', { broadcast });
+      await plugin.init(context);
+    });
+
+    it('should store a notification for every recipient', async () => {
+      const result = await notify(['alice', 'bob'], 'Approval needed', {
+        link: { object: 'Invoice', recordId: 'inv-1' },
+        category: 'approval',
+        actor: { id: 'carol', name: 'Carol' },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.metadata?.ids).toHaveLength(2);
+      const [notification] = await plugin.listInbox('alice');
+      expect(notification).toMatchObject({
+        userId: 'alice',
+        title: 'Approval needed',
+        body: 'Approval needed body',
+        link: { object: 'Invoice', recordId: 'inv-1' },
+        category: 'approval',
+        actor: { id: 'carol', name: 'Carol' },
+      });
+      expect(notification.readAt).toBeUndefined();
+      expect(await plugin.listInbox('bob')).toHaveLength(1);
+    });
+
+    it('should push new notifications to the recipient over realtime', async () => {
+      await notify('alice', 'Hello');
+
+      expect(broadcast).toHaveBeenCalledWith(
+        'notification.created',
+        expect.objectContaining({ userId: 'alice', title: 'Hello' }),
+        { recipients: ['alice'] },
+      );
+    });
+
+    it('should list newest first and filter by category', async () => {
+      await notify('alice', 'First', { category: 'mention' });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await notify('alice', 'Second', { category: 'approval' });
+
+      expect((await plugin.listInbox('alice')).map((n) => n.title)).toEqual(['Second', 'First']);
+      expect(
+        (await plugin.listInbox('alice', { category: 'mention' })).map((n) => n.title),
+      ).toEqual(['First']);
+      expect(await plugin.listInbox('alice', { limit: 1, skip: 1 })).toHaveLength(1);
+    });
+
+    it('should track read state per user', async () => {
+      const result = await notify(['alice', 'bob'], 'Hello');
+      await notify('alice', 'Again');
+      const [aliceId, bobId] = result.metadata?.ids;
+
+      expect(await plugin.getUnreadCount('alice')).toBe(2);
+      // Notifications of other users are left alone
+      expect(await plugin.markRead('alice', [aliceId, bobId])).toEqual([aliceId]);
+      expect(await plugin.getUnreadCount('alice')).toBe(1);
+      expect(await plugin.getUnreadCount('bob')).toBe(1);
+      expect(broadcast).toHaveBeenLastCalledWith(
+        'notification.read',
+        { ids: [aliceId], unreadCount: 1 },
+        { recipients: ['alice'] },
+      );
+
+      expect(await plugin.markAllRead('alice')).toHaveLength(1);
+      expect(await plugin.getUnreadCount('alice')).toBe(0);
+      expect(await plugin.listInbox('alice', { unread: true })).toEqual([]);
+    });
+
+    it('should move archived notifications out of the inbox', async () => {
+      const result = await notify('alice', 'Hello');
+      const [id] = result.metadata?.ids;
+
+      expect(await plugin.archiveNotifications('alice', [id])).toEqual([id]);
+      expect(await plugin.listInbox('alice')).toEqual([]);
+      const [archived] = await plugin.listInbox('alice', { archived: true });
+      expect(archived.archivedAt).toBeDefined();
+      expect(archived.readAt).toBeDefined();
+      expect(await plugin.getUnreadCount('alice')).toBe(0);
+    });
+
+    it('should render templates into the body', async () => {
+      await plugin.send({
+        channel: NotificationChannel.InApp,
+        recipient: 'alice',
+        subject: 'Assigned',
+        template: 'You were assigned {{name}}',
+        data: { name: 'Case 42' },
+      });
+
+      const [notification] = await plugin.listInbox('alice');
+      expect(notification.body).toBe('You were assigned Case 42');
+    });
+
+    it('should reject requests without recipients', async () => {
+      const result = await notify([], 'Hello');
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('recipient user IDs');
+    });
+
+    it('should persist to ObjectQL when a broker is available', async () => {
+      plugin = new NotificationPlugin({ queue: { enabled: false } });
+      context = createMockContext();
+      const call = jest.fn().mockResolvedValue(undefined);
+      (context as any).broker = { call };
+      await plugin.init(context);
+
+      await notify('alice', 'Hello');
+
+      expect(call).toHaveBeenCalledWith(
+        'data.create',
+        expect.objectContaining({
+          object: 'notification',
+          doc: expect.objectContaining({ user_id: 'alice', title: 'Hello', read_at: null }),
+        }),
+      );
+    });
+
+    it('should serve the inbox of the requesting user over HTTP', async () => {
+      const routes = new Map<string, Function>();
+      const app = {
+        get: (path: string, handler: Function) => routes.set(`GET ${path}`, handler),
+        post: (path: string, handler: Function) => routes.set(`POST ${path}`, handler),
+      };
+      context.registerService('http.server', { getRawApp: () => app });
+      await plugin.start(context);
+      const request = (route: string, userId?: string, body: any = {}) =>
+        routes.get(route)!({
+          req: {
+            header: (name: string) => (name === 'x-user-id' ? userId : undefined),
+            query: () => undefined,
+            json: async () => body,
+          },
+          json: (payload: any, status = 200) => ({ status, payload }),
+        });
+
+      const result = await notify('alice', 'Hello');
+      const [id] = result.metadata?.ids;
+
+      expect((await request('GET /api/v1/notifications/inbox')).status).toBe(401);
+      const inbox = await request('GET /api/v1/notifications/inbox', 'alice');
+      expect(inbox.payload.data.map((n: any) => n.id)).toEqual([id]);
+      expect(
+        (await request('GET /api/v1/notifications/inbox/unread-count', 'alice')).payload.data,
+      ).toEqual({ count: 1 });
+      expect(
+        (await request('POST /api/v1/notifications/inbox/read', 'bob', { ids: [id] })).payload.data,
+      ).toEqual({ ids: [] });
+      expect(
+        (await request('POST /api/v1/notifications/inbox/archive', 'alice', { ids: [id] })).payload
+          .data,
+      ).toEqual({ ids: [id] });
+      expect((await request('GET /api/v1/notifications/inbox', 'alice')).payload.data).toEqual([]);
+    });
+  });
+
+  describe('Preferences, Quiet Hours and Digests', () => {
+    let emailSend: jest.SpyInstance;
+
+    const channels = { email: true, sms: true, push: true, webhook: true };
+    const hhmm = (date: Date) => date.toISOString().slice(11, 16);
+    const later = () => new Date(Date.now() + 2 * 60 * 60 * 1000);
+    const email = (overrides: any = {}) =>
+      plugin.send({
+        channel: NotificationChannel.Email,
+        recipient: 'alice@example.com',
+        userId: 'alice',
+        subject: 'Invoice approved',
+        body: 'INV-1 was approved',
+        ...overrides,
+      });
+
+    beforeEach(async () => {
+      emailSend = jest.spyOn(EmailChannel.prototype, 'send').mockResolvedValue({
+        success: true,
+        channel: NotificationChannel.Email,
+        timestamp: new Date(),
+      });
+      plugin = new NotificationPlugin({
+        email: { host: 'smtp.example.com', port: 587, from: 'noreply@example.com' },
+        queue: { enabled: false },
+      });
+      context = createMockContext();
+      await plugin.init(context);
+    });
+
+    afterEach(() => {
+      emailSend.mockRestore();
+    });
+
+    it('should suppress channels and categories the user turned off', async () => {
+      await plugin.savePreference({
+        userId: 'alice',
+        channels,
+        categories: { marketing: { enabled: false } },
+      });
+
+      const result = await email({ category: 'marketing' });
+
+      expect(result.success).toBe(true);
+      expect(result.metadata?.suppressed).toEqual(['alice']);
+      expect(emailSend).not.toHaveBeenCalled();
+
+      await email();
+      expect(emailSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply preferences to the sendEmail convenience method', async () => {
+      await plugin.savePreference({ userId: 'alice', channels: { ...channels, email: false } });
+
+      const result = await plugin.sendEmail('alice@example.com', 'Hi', 'Body', {
+        userId: 'alice',
+        cc: 'manager@example.com',
+      });
+      expect(result.metadata?.suppressed).toEqual(['alice']);
+      expect(emailSend).not.toHaveBeenCalled();
+
+      await plugin.sendEmail('alice@example.com', 'Hi', 'Body', { cc: 'manager@example.com' });
+      expect(emailSend).toHaveBeenCalledWith(
+        expect.objectContaining({
+          recipient: 'alice@example.com',
+          options: { cc: 'manager@example.com' },
+        }),
+      );
+    });
+
+    it('should find the users of email recipients sent without a userId', async () => {
+      plugin = new NotificationPlugin({
+        email: { host: 'smtp.example.com', port: 587, from: 'noreply@example.com' },
+        storage: new InMemoryNotificationStorage(),
+        queue: { enabled: false },
+      });
+      context = createMockContext();
+      const call = jest.fn().mockResolvedValue([
+        { _id: 'alice', email: 'alice@example.com' },
+        { _id: 'bob', email: 'bob@example.com' },
+      ]);
+      (context as any).broker = { call };
+      await plugin.init(context);
+      await plugin.savePreference({ userId: 'alice', channels: { ...channels, email: false } });
+
+      const result = await plugin.sendEmail(
+        ['alice@example.com', 'bob@example.com', 'vendor@example.com'],
+        'Hi',
+        'Body',
+      );
+
+      expect(call).toHaveBeenCalledWith('data.find', {
+        object: 'user',
+        query: { email: { $in: ['alice@example.com', 'bob@example.com', 'vendor@example.com'] } },
+      });
+      expect(result.metadata?.suppressed).toEqual(['alice']);
+      expect(emailSend).toHaveBeenCalledWith(
+        expect.objectContaining({ recipient: ['vendor@example.com', 'bob@example.com'] }),
+      );
+    });
+
+    it('should only deliver in-app notifications to recipients who want them', async () => {
+      await plugin.savePreference({ userId: 'bob', channels: { ...channels, inApp: false } });
+
+      const result = await plugin.send({
+        channel: NotificationChannel.InApp,
+        recipient: ['alice', 'bob'],
+        subject: 'Hello',
+      });
+
+      expect(result.metadata?.suppressed).toEqual(['bob']);
+      expect(await plugin.listInbox('alice')).toHaveLength(1);
+      expect(await plugin.listInbox('bob')).toHaveLength(0);
+    });
+
+    it('should defer notifications in quiet hours until they end', async () => {
+      const now = Date.now();
+      await plugin.savePreference({
+        userId: 'alice',
+        channels,
+        quietHours: {
+          enabled: true,
+          start: hhmm(new Date(now - 60 * 60 * 1000)),
+          end: hhmm(new Date(now + 60 * 60 * 1000)),
+          timezone: 'UTC',
+        },
+      });
+
+      const result = await email();
+      expect(result.metadata?.held).toEqual([expect.objectContaining({ kind: 'deferred' })]);
+      expect(emailSend).not.toHaveBeenCalled();
+
+      await email({ priority: 'high' });
+      expect(emailSend).toHaveBeenCalledTimes(1);
+
+      expect(await plugin.releaseHeldNotifications()).toBe(0);
+      expect(await plugin.releaseHeldNotifications(later())).toBe(1);
+      expect(emailSend).toHaveBeenCalledTimes(2);
+      expect(emailSend).toHaveBeenLastCalledWith(
+        expect.objectContaining({ subject: 'Invoice approved' }),
+      );
+      expect(await plugin.releaseHeldNotifications(later())).toBe(0);
+    });
+
+    it('should batch low-priority notifications in a digest email', async () => {
+      await plugin.savePreference({
+        userId: 'alice',
+        channels,
+        digest: { enabled: true, frequency: 'hourly', email: 'alice@example.com' },
+      });
+      await plugin.saveTemplate({
+        id: 'notification-digest',
+        name: 'Digest',
+        channel: NotificationChannel.Email,
+        subject: '{{count}} updates',
+        body: '{{#each notifications}}[{{subject}}]{{/each}}',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      });
+
+      await email({ priority: 'low' });
+      await email({ priority: 'low', subject: 'Comment added' });
+      expect(emailSend).not.toHaveBeenCalled();
+
+      expect(await plugin.releaseHeldNotifications(later())).toBe(2);
+      expect(emailSend).toHaveBeenCalledTimes(1);
+      expect(emailSend).toHaveBeenCalledWith(
+        expect.objectContaining({
+          recipient: 'alice@example.com',
+          subject: '2 updates',
+          body: '[Invoice approved][Comment added]',
+        }),
+      );
+    });
+
+    it('should keep held notifications when sending fails', async () => {
+      await plugin.savePreference({
+        userId: 'alice',
+        channels,
+        digest: { enabled: true, frequency: 'hourly', email: 'alice@example.com' },
+      });
+      await email({ priority: 'low' });
+      emailSend.mockResolvedValueOnce({
+        success: false,
+        channel: NotificationChannel.Email,
+        error: 'SMTP down',
+        timestamp: new Date(),
+      });
+
+      expect(await plugin.releaseHeldNotifications(later())).toBe(0);
+      expect(await plugin.releaseHeldNotifications(later())).toBe(1);
+    });
+
+    it('should reject invalid preferences', async () => {
+      await expect(
+        plugin.savePreference({
+          userId: 'alice',
+          channels,
+          digest: { enabled: true, frequency: 'daily', email: '' },
+        }),
+      ).rejects.toThrow('email address');
+    });
+
+    it('should persist preferences to ObjectQL when a broker is available', async () => {
+      plugin = new NotificationPlugin({ queue: { enabled: false } });
+      context = createMockContext();
+      const call = jest.fn().mockResolvedValue([]);
+      (context as any).broker = { call };
+      await plugin.init(context);
+
+      await plugin.savePreference({ userId: 'alice', channels: { ...channels, sms: false } });
+
+      expect(call).toHaveBeenCalledWith('data.create', {
+        object: 'notification_preference',
+        doc: expect.objectContaining({ user_id: 'alice', channels: { ...channels, sms: false } }),
+      });
+    });
+
+    it('should release held notifications from a recurring job', async () => {
+      const schedule = jest.fn().mockResolvedValue(undefined);
+      context.registerService('job', { schedule });
+
+      await plugin.start(context);
+
+      expect(schedule).toHaveBeenCalledWith(
+        'notification_release',
+        { type: 'cron', expression: '* * * * *' },
+        expect.any(Function),
+      );
+    });
+
+    it('should serve the preferences of the requesting user over HTTP', async () => {
+      const routes = new Map<string, Function>();
+      const app = {
+        get: (path: string, handler: Function) => routes.set(`GET ${path}`, handler),
+        post: (path: string, handler: Function) => routes.set(`POST ${path}`, handler),
+        put: (path: string, handler: Function) => routes.set(`PUT ${path}`, handler),
+      };
+      context.registerService('http.server', { getRawApp: () => app });
+      await plugin.start(context);
+      const request = (route: string, userId?: string, body: any = {}) =>
+        routes.get(route)!({
+          req: {
+            header: (name: string) => (name === 'x-user-id' ? userId : undefined),
+            json: async () => body,
+          },
+          json: (payload: any, status = 200) => ({ status, payload }),
+        });
+
+      expect((await request('GET /api/v1/notifications/preferences')).status).toBe(401);
+      const saved = await request('PUT /api/v1/notifications/preferences', 'alice', {
+        userId: 'mallory',
+        channels: { sms: false },
+      });
+      const expected = { userId: 'alice', channels: { ...channels, sms: false, inApp: true } };
+      expect(saved.payload.data).toEqual(expected);
+      expect(
+        (
+          await request('PUT /api/v1/notifications/preferences', 'alice', {
+            quietHours: { enabled: true, start: 'late', end: '07:00', timezone: 'UTC' },
+          })
+        ).status,
+      ).toBe(400);
+      expect(
+        (await request('GET /api/v1/notifications/preferences', 'alice')).payload.data,
+      ).toEqual(expected);
+    });
+  });
+
   describe('Template Rendering', () => {
     it('should render simple template', () => {
       plugin = new NotificationPlugin();
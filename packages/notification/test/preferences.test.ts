@@ -0,0 +1,171 @@
+/**
+ * Notification Preferences Tests
+ */
+
+import {
+  decideDelivery,
+  isChannelEnabled,
+  nextDigestAt,
+  quietHoursEnd,
+  validatePreference,
+} from '../src/preferences.js';
+import { NotificationChannel } from '../src/types.js';
+import type { NotificationPreference, NotificationRequest } from '../src/types.js';
+
+const channels = { email: true, sms: true, push: true, webhook: true };
+
+const email = (overrides: Partial<NotificationRequest> = {}): NotificationRequest => ({
+  channel: NotificationChannel.Email,
+  recipient: 'alice@example.com',
+  subject: 'Hello',
+  body: 'Body',
+  userId: 'alice',
+  ...overrides,
+});
+
+describe('Notification Preferences', () => {
+  describe('isChannelEnabled()', () => {
+    const preference: NotificationPreference = {
+      userId: 'alice',
+      channels: { ...channels, sms: false },
+      categories: {
+        marketing: { enabled: false },
+        security: { channels: { sms: true, email: false } },
+      },
+    };
+
+    it('should treat missing channels as enabled', () => {
+      expect(isChannelEnabled(preference, NotificationChannel.Email)).toBe(true);
+      expect(isChannelEnabled(preference, NotificationChannel.SMS)).toBe(false);
+    });
+
+    it('should let categories override channels', () => {
+      expect(isChannelEnabled(preference, NotificationChannel.SMS, 'security')).toBe(true);
+      expect(isChannelEnabled(preference, NotificationChannel.Email, 'security')).toBe(false);
+      expect(isChannelEnabled(preference, NotificationChannel.InApp, 'marketing')).toBe(false);
+    });
+  });
+
+  describe('quietHoursEnd()', () => {
+    const preference = (start: string, end: string, timezone = 'UTC'): NotificationPreference => ({
+      userId: 'alice',
+      channels,
+      quietHours: { enabled: true, start, end, timezone },
+    });
+
+    it('should return the end of quiet hours spanning midnight', () => {
+      const now = new Date('2026-03-02T23:30:00Z');
+      expect(quietHoursEnd(preference('22:00', '07:00'), now)?.toISOString()).toBe(
+        '2026-03-03T07:00:00.000Z',
+      );
+      expect(quietHoursEnd(preference('22:00', '07:00'), new Date('2026-03-02T12:00:00Z'))).toBe(
+        undefined,
+      );
+    });
+
+    it('should use the timezone of the quiet hours', () => {
+      // 23:30 in New York (UTC-5 in March before DST)
+      const now = new Date('2026-03-03T04:30:00Z');
+      expect(
+        quietHoursEnd(preference('22:00', '07:00', 'America/New_York'), now)?.toISOString(),
+      ).toBe('2026-03-03T12:00:00.000Z');
+    });
+  });
+
+  describe('nextDigestAt()', () => {
+    const now = new Date('2026-03-02T10:20:00Z');
+
+    it('should release hourly digests at the top of the next hour', () => {
+      expect(
+        nextDigestAt({ enabled: true, frequency: 'hourly', email: 'a@example.com' }, now),
+      ).toEqual(new Date('2026-03-02T11:00:00Z'));
+    });
+
+    it('should release daily digests at the configured hour', () => {
+      expect(
+        nextDigestAt({ enabled: true, frequency: 'daily', hour: 9, email: 'a@example.com' }, now),
+      ).toEqual(new Date('2026-03-03T09:00:00Z'));
+      expect(
+        nextDigestAt({ enabled: true, frequency: 'daily', hour: 18, email: 'a@example.com' }, now),
+      ).toEqual(new Date('2026-03-02T18:00:00Z'));
+    });
+  });
+
+  describe('decideDelivery()', () => {
+    const now = new Date('2026-03-02T23:30:00Z');
+    const preference: NotificationPreference = {
+      userId: 'alice',
+      channels,
+      categories: { social: { digest: true } },
+      quietHours: { enabled: true, start: '22:00', end: '07:00', timezone: 'UTC' },
+      digest: { enabled: true, frequency: 'daily', hour: 8, email: 'alice@example.com' },
+    };
+
+    it('should deliver without preferences', () => {
+      expect(decideDelivery(email(), undefined, now)).toEqual({ action: 'deliver' });
+    });
+
+    it('should suppress notifications on disabled channels', () => {
+      const decision = decideDelivery(
+        email(),
+        { userId: 'alice', channels: { ...channels, email: false } },
+        now,
+      );
+      expect(decision.action).toBe('suppress');
+    });
+
+    it('should defer notifications in quiet hours', () => {
+      expect(decideDelivery(email(), preference, now)).toEqual({
+        action: 'defer',
+        releaseAt: new Date('2026-03-03T07:00:00Z'),
+      });
+    });
+
+    it('should digest low-priority notifications and digest categories', () => {
+      const releaseAt = new Date('2026-03-03T08:00:00Z');
+      expect(decideDelivery(email({ priority: 'low' }), preference, now)).toEqual({
+        action: 'digest',
+        releaseAt,
+      });
+      expect(decideDelivery(email({ category: 'social' }), preference, now)).toEqual({
+        action: 'digest',
+        releaseAt,
+      });
+    });
+
+    it('should deliver high-priority and in-app notifications right away', () => {
+      expect(decideDelivery(email({ priority: 'high' }), preference, now)).toEqual({
+        action: 'deliver',
+      });
+      expect(
+        decideDelivery(
+          email({ channel: NotificationChannel.InApp, recipient: 'alice', priority: 'low' }),
+          preference,
+          now,
+        ),
+      ).toEqual({ action: 'deliver' });
+    });
+  });
+
+  describe('validatePreference()', () => {
+    it('should reject malformed quiet hours', () => {
+      expect(() =>
+        validatePreference({
+          userId: 'alice',
+          channels,
+          quietHours: { enabled: true, start: '10pm', end: '07:00', timezone: 'UTC' },
+        }),
+      ).toThrow('Invalid time');
+    });
+
+    it('should require an email address for digests', () => {
+      expect(() =>
+        validatePreference({
+          userId: 'alice',
+          channels,
+          digest: { enabled: true, frequency: 'daily', email: '' },
+        }),
+      ).toThrow('email address');
+    });
+  });
+});
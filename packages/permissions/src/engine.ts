@@ -11,9 +11,16 @@ import type {
   PermissionCheckResult,
   PermissionSet,
   ObjectPermissions,
-  FieldPermission,
+  ObjectPermission,
+  ObjectPermissionExplanation,
+  AssignedPermissionSetTrace,
+  FieldPermissionTrace,
 } from './types.js';
 import type { PermissionStorage } from './storage.js';
+import type {
+  PermissionSetAssignmentManager,
+  AssignedPermissionSet,
+} from './permission-set-assignments.js';
 
 /**
  * Permission Engine Configuration
@@ -33,19 +40,27 @@ export interface PermissionEngineConfig {
 interface CacheEntry {
   result: PermissionCheckResult;
   timestamp: number;
+  /** Earliest expiry of the assignments the result depends on */
+  expiresAt?: number;
 }
 
 /**
  * Permission Engine
  *
- * Provides core permission checking functionality
+ * Provides core permission checking functionality. Effective permissions
+ * combine the user's profiles with the permission sets assigned to them.
  */
 export class PermissionEngine {
   private storage: PermissionStorage;
   private config: PermissionEngineConfig;
   private cache: Map<string, CacheEntry> = new Map();
+  private assignments?: PermissionSetAssignmentManager;
 
-  constructor(storage: PermissionStorage, config: PermissionEngineConfig = {}) {
+  constructor(
+    storage: PermissionStorage,
+    config: PermissionEngineConfig = {},
+    assignments?: PermissionSetAssignmentManager,
+  ) {
     this.storage = storage;
     this.config = {
       defaultDeny: true,
@@ -53,6 +68,17 @@ export class PermissionEngine {
       cacheTTL: 60000, // 1 minute default
       ...config,
     };
+    this.assignments = assignments;
+
+    // Cached results must follow assignment changes. Group members are not
+    // known here, so a group assignment change drops the whole cache.
+    assignments?.onChange((change) => {
+      if (change.assigneeType === 'user' && change.assigneeId) {
+        this.clearUserCache(change.assigneeId);
+      } else {
+        this.clearCache();
+      }
+    });
   }
 
   /**
@@ -72,81 +98,26 @@ export class PermissionEngine {
       }
     }
 
-    // Get permission set for the object
-    const permissionSet = await this.storage.getPermissionSetForObject(objectName);
-
-    if (!permissionSet) {
-      const result = {
-        allowed: !this.config.defaultDeny,
-        reason: !this.config.defaultDeny
-          ? 'No permission set defined - default allow'
-          : 'No permission set defined',
-      };
-
-      this.setCache(cacheKey, result);
-      return result;
-    }
-
-    // Check permissions for each profile the user has
-    let allowed = false;
-    const collectedFilters: Array<Record<string, any>> = [];
-    let hasFullAccess = false; // If true, means at least one profile gives access without filters
-
-    for (const profile of context.profiles) {
-      const profilePermissions = permissionSet.profiles?.[profile];
-
-      if (!profilePermissions) {
-        continue;
-      }
-
-      // Check the specific action permission
-      const actionAllowed = this.checkActionPermission(profilePermissions, action);
-
-      if (actionAllowed) {
-        allowed = true;
+    const { allowed, reason, filters } = await this.evaluate(context, objectName, action);
+    const result: PermissionCheckResult = { allowed, reason, filters };
 
-        // Collect view filters for record-level security
-        if (
-          profilePermissions.viewFilters &&
-          Object.keys(profilePermissions.viewFilters).length > 0
-        ) {
-          collectedFilters.push(profilePermissions.viewFilters);
-        } else {
-          // One of the profiles allows action without restrictions
-          hasFullAccess = true;
-        }
-      }
-    }
-
-    // Determine final filters
-    let finalFilters: Record<string, any> | undefined;
-
-    if (allowed) {
-      if (hasFullAccess) {
-        // If any profile grants full access, we don't apply any filters
-        finalFilters = undefined;
-      } else if (collectedFilters.length > 0) {
-        if (collectedFilters.length === 1) {
-          finalFilters = collectedFilters[0];
-        } else {
-          // Combine multiple profiles filters with OR
-          finalFilters = { $or: collectedFilters };
-        }
-      }
-    }
-
-    const result: PermissionCheckResult = {
-      allowed,
-      reason: allowed
-        ? undefined
-        : `No permission for action '${action}' on object '${objectName}'`,
-      filters: finalFilters,
-    };
-
-    this.setCache(cacheKey, result);
+    this.setCache(cacheKey, result, this.getAssignmentExpiry(context));
     return result;
   }
 
+  /**
+   * Explain an object permission decision profile by profile and
+   * assigned permission set by permission set.
+   * Always evaluated fresh, bypassing the cache.
+   */
+  async explainPermission(
+    context: PermissionContext,
+    objectName: string,
+    action: PermissionAction,
+  ): Promise<ObjectPermissionExplanation> {
+    return this.evaluate(context, objectName, action);
+  }
+
   /**
    * Check if a user can access a specific field
    */
@@ -157,31 +128,33 @@ export class PermissionEngine {
     action: 'read' | 'edit',
   ): Promise<boolean> {
     const permissionSet = await this.storage.getPermissionSetForObject(objectName);
-
-    if (!permissionSet || !permissionSet.fieldPermissions) {
-      return !this.config.defaultDeny;
-    }
-
-    const fieldPermission = permissionSet.fieldPermissions[fieldName];
-
-    if (!fieldPermission) {
-      return !this.config.defaultDeny;
-    }
+    const fieldPermission = permissionSet?.fieldPermissions?.[fieldName];
 
     // Check if any of the user's profiles have the required permission
-    for (const profile of context.profiles) {
+    for (const profile of fieldPermission ? context.profiles : []) {
       if (action === 'read') {
-        if (fieldPermission.visibleTo?.includes(profile)) {
+        if (fieldPermission!.visibleTo?.includes(profile)) {
           return true;
         }
       } else if (action === 'edit') {
-        if (fieldPermission.editableBy?.includes(profile)) {
+        if (fieldPermission!.editableBy?.includes(profile)) {
           return true;
         }
       }
     }
 
-    return false;
+    // Assigned permission sets may grant the field on top of the profiles
+    const field = `${objectName}.${fieldName}`;
+    const flag = action === 'read' ? 'read' : 'update';
+    const granted = await this.someAssignedPermissionSet(
+      context,
+      (set) => set.fieldPermissions?.[field]?.[flag] === true,
+    );
+    if (granted) {
+      return true;
+    }
+
+    return fieldPermission ? false : !this.config.defaultDeny;
   }
 
   /**
@@ -205,6 +178,56 @@ export class PermissionEngine {
     return allowedFields;
   }
 
+  /**
+   * Whether the user may share any record of an object: an assigned
+   * permission set grants the `manageSharing` system permission or
+   * `modifyAll` on the object
+   */
+  async canManageSharing(context: PermissionContext, objectName: string): Promise<boolean> {
+    return this.someAssignedPermissionSet(
+      context,
+      (set) =>
+        set.systemPermissions?.manageSharing === true ||
+        set.objectPermissions?.[objectName]?.modifyAll === true,
+    );
+  }
+
+  /**
+   * Whether the user may explain the permissions of other users on an
+   * object: they may manage its sharing, or an assigned permission set
+   * grants the `viewAllData` system permission
+   */
+  async canExplainOthers(context: PermissionContext, objectName: string): Promise<boolean> {
+    if (await this.canManageSharing(context, objectName)) return true;
+    return this.someAssignedPermissionSet(
+      context,
+      (set) => set.systemPermissions?.viewAllData === true,
+    );
+  }
+
+  /**
+   * Report read/edit access to fields (default: all fields with field permissions)
+   */
+  async explainFieldPermissions(
+    context: PermissionContext,
+    objectName: string,
+    fields?: string[],
+  ): Promise<FieldPermissionTrace[]> {
+    const permissionSet = await this.storage.getPermissionSetForObject(objectName);
+    const fieldPermissions = permissionSet?.fieldPermissions ?? {};
+    const traces: FieldPermissionTrace[] = [];
+
+    for (const field of fields ?? Object.keys(fieldPermissions)) {
+      traces.push({
+        field,
+        read: await this.checkFieldPermission(context, objectName, field, 'read'),
+        edit: await this.checkFieldPermission(context, objectName, field, 'edit'),
+        defined: !!fieldPermissions[field],
+      });
+    }
+    return traces;
+  }
+
   /**
    * Get record-level filters for a user
    */
@@ -218,6 +241,14 @@ export class PermissionEngine {
       return {};
     }
 
+    // Permission sets grant object access without record filters
+    const readViaPermissionSet = await this.someAssignedPermissionSet(context, (set) =>
+      allowsAction(set.objectPermissions?.[objectName], 'read'),
+    );
+    if (readViaPermissionSet) {
+      return {};
+    }
+
     const collectedFilters: Array<Record<string, any>> = [];
     let hasFullAccess = false;
 
@@ -261,6 +292,181 @@ export class PermissionEngine {
     return this.replaceTemplateVariables(finalFilters, context);
   }
 
+  /**
+   * Evaluate an action against the user's profiles and assigned permission sets
+   */
+  private async evaluate(
+    context: PermissionContext,
+    objectName: string,
+    action: PermissionAction,
+  ): Promise<ObjectPermissionExplanation> {
+    const permissionSet = await this.storage.getPermissionSetForObject(objectName);
+    const result: ObjectPermissionExplanation = permissionSet
+      ? this.evaluateProfiles(permissionSet, context, objectName, action)
+      : {
+          allowed: !this.config.defaultDeny,
+          reason: !this.config.defaultDeny
+            ? 'No permission set defined - default allow'
+            : 'No permission set defined',
+          profiles: [],
+        };
+
+    const assigned = await this.evaluateAssignedPermissionSets(context, objectName, action);
+    if (assigned.length > 0) {
+      result.assignedPermissionSets = assigned;
+    }
+
+    // A permission set grant is not limited by profile view filters
+    if (assigned.some((trace) => trace.allowed && !trace.muted)) {
+      result.allowed = true;
+      result.reason = undefined;
+      result.filters = undefined;
+    }
+    return result;
+  }
+
+  /**
+   * Evaluate an action against each permission set assigned to the user.
+   * Within a permission set group, the group's muting permission set
+   * removes the actions it grants.
+   */
+  private async evaluateAssignedPermissionSets(
+    context: PermissionContext,
+    objectName: string,
+    action: PermissionAction,
+  ): Promise<AssignedPermissionSetTrace[]> {
+    const traces: AssignedPermissionSetTrace[] = [];
+
+    for (const assigned of this.resolveAssignedPermissionSets(context)) {
+      const set = await this.storage.getPermissionSet(assigned.permissionSet);
+      const muting = assigned.mutingPermissionSet
+        ? await this.storage.getPermissionSet(assigned.mutingPermissionSet)
+        : null;
+      traces.push({
+        permissionSet: assigned.permissionSet,
+        permissionSetGroup: assigned.permissionSetGroup,
+        assigneeType: assigned.assignment.assigneeType,
+        assigneeId: assigned.assignment.assigneeId,
+        allowed: isActive(set) && allowsAction(set?.objectPermissions?.[objectName], action),
+        muted: isActive(muting) && allowsAction(muting?.objectPermissions?.[objectName], action),
+      });
+    }
+    return traces;
+  }
+
+  /**
+   * Whether any active assigned permission set satisfies a check that the
+   * set's group does not mute
+   */
+  private async someAssignedPermissionSet(
+    context: PermissionContext,
+    check: (set: PermissionSet) => boolean,
+  ): Promise<boolean> {
+    for (const assigned of this.resolveAssignedPermissionSets(context)) {
+      const set = await this.storage.getPermissionSet(assigned.permissionSet);
+      if (!set || !isActive(set) || !check(set)) continue;
+      if (assigned.mutingPermissionSet) {
+        const muting = await this.storage.getPermissionSet(assigned.mutingPermissionSet);
+        if (muting && isActive(muting) && check(muting)) continue;
+      }
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Permission sets assigned to the user directly or to one of their groups
+   */
+  private resolveAssignedPermissionSets(context: PermissionContext): AssignedPermissionSet[] {
+    if (!this.assignments) return [];
+    return this.assignments.resolve(context.userId, userGroups(context));
+  }
+
+  /**
+   * When the earliest of the user's time-bound assignments expires
+   */
+  private getAssignmentExpiry(context: PermissionContext): number | undefined {
+    const expiries = (
+      this.assignments?.getActiveAssignments(context.userId, userGroups(context)) ?? []
+    )
+      .filter((assignment) => assignment.expiresAt)
+      .map((assignment) => assignment.expiresAt!.getTime());
+    return expiries.length > 0 ? Math.min(...expiries) : undefined;
+  }
+
+  /**
+   * Evaluate an action against each of the user's profiles in a permission set.
+   * Any profile allowing the action grants it; view filters of the granting
+   * profiles are OR-ed, unless one of them grants it without filters.
+   */
+  private evaluateProfiles(
+    permissionSet: PermissionSet,
+    context: PermissionContext,
+    objectName: string,
+    action: PermissionAction,
+  ): ObjectPermissionExplanation {
+    let allowed = false;
+    const collectedFilters: Array<Record<string, any>> = [];
+    let hasFullAccess = false; // If true, means at least one profile gives access without filters
+    const profiles: ObjectPermissionExplanation['profiles'] = [];
+
+    for (const profile of context.profiles) {
+      const profilePermissions = permissionSet.profiles?.[profile];
+
+      if (!profilePermissions) {
+        profiles.push({ profile, defined: false, allowed: false });
+        continue;
+      }
+
+      // Check the specific action permission
+      const actionAllowed = this.checkActionPermission(profilePermissions, action);
+      const viewFilters =
+        profilePermissions.viewFilters && Object.keys(profilePermissions.viewFilters).length > 0
+          ? profilePermissions.viewFilters
+          : undefined;
+      profiles.push({ profile, defined: true, allowed: actionAllowed, viewFilters });
+
+      if (actionAllowed) {
+        allowed = true;
+
+        // Collect view filters for record-level security
+        if (viewFilters) {
+          collectedFilters.push(viewFilters);
+        } else {
+          // One of the profiles allows action without restrictions
+          hasFullAccess = true;
+        }
+      }
+    }
+
+    // Determine final filters
+    let finalFilters: Record<string, any> | undefined;
+
+    if (allowed) {
+      if (hasFullAccess) {
+        // If any profile grants full access, we don't apply any filters
+        finalFilters = undefined;
+      } else if (collectedFilters.length > 0) {
+        if (collectedFilters.length === 1) {
+          finalFilters = collectedFilters[0];
+        } else {
+          // Combine multiple profiles filters with OR
+          finalFilters = { $or: collectedFilters };
+        }
+      }
+    }
+
+    return {
+      allowed,
+      reason: allowed
+        ? undefined
+        : `No permission for action '${action}' on object '${objectName}'`,
+      filters: finalFilters,
+      permissionSet: permissionSet.name,
+      profiles,
+    };
+  }
+
   /**
    * Check if an action is allowed for a profile
    */
@@ -349,7 +555,7 @@ export class PermissionEngine {
     const now = Date.now();
     const ttl = this.config.cacheTTL || 60000;
 
-    if (now - entry.timestamp > ttl) {
+    if (now - entry.timestamp > ttl || (entry.expiresAt !== undefined && now >= entry.expiresAt)) {
       this.cache.delete(key);
       return null;
     }
@@ -360,11 +566,12 @@ export class PermissionEngine {
   /**
    * Set cache
    */
-  private setCache(key: string, result: PermissionCheckResult): void {
+  private setCache(key: string, result: PermissionCheckResult, expiresAt?: number): void {
     if (this.config.enableCache) {
       this.cache.set(key, {
         result,
         timestamp: Date.now(),
+        expiresAt,
       });
     }
   }
@@ -393,3 +600,34 @@ export class PermissionEngine {
     }
   }
 }
+
+/**
+ * Whether spec-style object permissions allow an action.
+ * viewAll implies read; modifyAll implies read, update and delete.
+ */
+function allowsAction(permission: ObjectPermission | undefined, action: PermissionAction): boolean {
+  if (!permission) return false;
+  switch (action) {
+    case 'create':
+      return permission.create === true;
+    case 'read':
+      return (
+        permission.read === true || permission.viewAll === true || permission.modifyAll === true
+      );
+    case 'update':
+      return permission.update === true || permission.modifyAll === true;
+    case 'delete':
+      return permission.delete === true || permission.modifyAll === true;
+    default:
+      return false;
+  }
+}
+
+function isActive(set: PermissionSet | null): boolean {
+  return !!set && set.isActive !== false;
+}
+
+function userGroups(context: PermissionContext): string[] {
+  const groups = context.metadata?.groups;
+  return Array.isArray(groups) ? groups : [];
+}
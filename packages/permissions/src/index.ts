@@ -35,6 +35,7 @@ export type {
   Role,
   // Permission Set
   PermissionSet,
+  PermissionSetGroup,
   PermissionSetAssignment,
   // Object & Field Permissions
   ObjectPermission,
@@ -47,12 +48,32 @@ export type {
   SharingAccessLevel,
   SharingTargetType,
   SharingRule,
+  // Record Shares
+  RecordShareAccessLevel,
+  RecordShareReason,
+  RecordShareTargetType,
+  RecordShare,
+  // Territories
+  TerritoryModelStatus,
+  TerritoryModel,
+  TerritoryAssignmentRule,
+  Territory,
+  TerritoryMember,
   // RLS
   RLSConfig,
   RLSEvaluationResult,
   // Runtime
   PermissionContext,
   PermissionCheckResult,
+  // Explain
+  ProfilePermissionTrace,
+  ObjectPermissionExplanation,
+  AssignedPermissionSetTrace,
+  FieldPermissionTrace,
+  PermissionExplainStage,
+  PermissionExplainStep,
+  PermissionExplainRequest,
+  PermissionExplanation,
   // Multi-tenancy
   TenantContext,
   // Plugin Config
@@ -73,6 +94,25 @@ export type { SharingRuleResult } from './sharing-rules.js';
 // Export RLS evaluator
 export { RLSEvaluator } from './rls-evaluator.js';
 
+// Export role hierarchy
+export { RoleHierarchy } from './role-hierarchy.js';
+
+// Export record sharing
+export { RecordShareManager } from './record-sharing.js';
+export type { RecordShareInput, RecordShareAccess } from './record-sharing.js';
+
+// Export permission set assignments
+export { PermissionSetAssignmentManager } from './permission-set-assignments.js';
+export type {
+  AssignedPermissionSet,
+  AssignmentChange,
+  AssignmentChangeListener,
+} from './permission-set-assignments.js';
+
+// Export territory management
+export { TerritoryManager, matchesCriteria } from './territories.js';
+export type { TerritoryAccess } from './territories.js';
+
 // Export storage
 export { InMemoryPermissionStorage, ObjectQLPermissionStorage } from './storage.js';
 export type { PermissionStorage } from './storage.js';
@@ -88,10 +128,15 @@ export {
 export {
   PermissionSetObject,
   PermissionSetAssignmentObject,
+  PermissionSetGroupObject,
   ObjectPermissionObject,
   FieldPermissionObject,
   RoleObject,
   OrganizationDefaultObject,
   SharingRuleObject,
+  RecordShareObject,
+  TerritoryModelObject,
+  TerritoryObject,
+  TerritoryMemberObject,
   PermissionObjects,
 } from './objects/index.js';
@@ -6,10 +6,13 @@
  *
  * Spec alignment:
  *   Security.PermissionSetSchema   → permission_set (is_profile flag unifies Profile + PermissionSet)
+ *   (ObjectOS extension)            → permission_set_group (bundled sets + muting set)
  *   Security.ObjectPermissionSchema → object_permission (child of permission_set)
  *   Security.FieldPermissionSchema  → field_permission (child of permission_set)
  *   Security.RoleSchema             → role (hierarchy)
  *   Security.SharingRuleSchema      → sharing_rule (owner / criteria)
+ *   (ObjectOS extension)            → record_share (per-record manual / team shares)
+ *   (ObjectOS extension)            → territory_model / territory / territory_member
  *
  *   ┌─────────────────────────────────────┐
  *   │   Permission Set (is_profile flag)  │ ← Object + Field permissions
@@ -19,6 +22,10 @@
  *   │   Organization-Wide Defaults        │ ← Baseline record access
  *   ├─────────────────────────────────────┤
  *   │   Sharing Rules                     │ ← Record-level access (horizontal)
+ *   ├─────────────────────────────────────┤
+ *   │   Record Shares                     │ ← Access to individual records
+ *   ├─────────────────────────────────────┤
+ *   │   Territories                       │ ← Record-level access by criteria
  *   └─────────────────────────────────────┘
  *
  * @see https://protocol.objectstack.ai/docs/guides/security
@@ -26,22 +33,32 @@
 
 export { PermissionSetObject } from './permission_set.js';
 export { PermissionSetAssignmentObject } from './permission_set_assignment.js';
+export { PermissionSetGroupObject } from './permission_set_group.js';
 export { ObjectPermissionObject } from './object_permission.js';
 export { FieldPermissionObject } from './field_permission.js';
 export { RoleObject } from './role.js';
 export { OrganizationDefaultObject } from './organization_default.js';
 export { SharingRuleObject } from './sharing_rule.js';
+export { RecordShareObject } from './record_share.js';
+export { TerritoryModelObject } from './territory_model.js';
+export { TerritoryObject } from './territory.js';
+export { TerritoryMemberObject } from './territory_member.js';
 
 // ── Convenience aggregate ──────────────────────────────────────────────────────
 
 import type { ServiceObject } from '@objectstack/spec/data';
 import { PermissionSetObject } from './permission_set.js';
 import { PermissionSetAssignmentObject } from './permission_set_assignment.js';
+import { PermissionSetGroupObject } from './permission_set_group.js';
 import { ObjectPermissionObject } from './object_permission.js';
 import { FieldPermissionObject } from './field_permission.js';
 import { RoleObject } from './role.js';
 import { OrganizationDefaultObject } from './organization_default.js';
 import { SharingRuleObject } from './sharing_rule.js';
+import { RecordShareObject } from './record_share.js';
+import { TerritoryModelObject } from './territory_model.js';
+import { TerritoryObject } from './territory.js';
+import { TerritoryMemberObject } from './territory_member.js';
 
 /**
  * All permission-related system objects, ready for plugin registration.
@@ -56,9 +73,14 @@ import { SharingRuleObject } from './sharing_rule.js';
 export const PermissionObjects: readonly ServiceObject[] = [
   PermissionSetObject,
   PermissionSetAssignmentObject,
+  PermissionSetGroupObject,
   ObjectPermissionObject,
   FieldPermissionObject,
   RoleObject,
   OrganizationDefaultObject,
   SharingRuleObject,
+  RecordShareObject,
+  TerritoryModelObject,
+  TerritoryObject,
+  TerritoryMemberObject,
 ] as const;
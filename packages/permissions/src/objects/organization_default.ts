@@ -67,6 +67,17 @@ export const OrganizationDefaultObject: ServiceObject = ObjectSchema.create({
       description:
         "When true, users higher in the role hierarchy inherit access to subordinates' records",
     }),
+
+    hierarchy_access_level: Field.select(
+      [
+        { label: 'Read Only', value: 'read_only' },
+        { label: 'Read/Write', value: 'read_write', default: true },
+      ],
+      {
+        label: 'Hierarchy Access Level',
+        description: "Whether managers can edit, or only view, subordinates' records",
+      },
+    ),
   },
 
   indexes: [{ fields: ['object_name'], unique: true }],
@@ -1,7 +1,9 @@
 /**
  * Permission Set Assignment Object
  *
- * Links permission sets to users. A user can have multiple permission sets.
+ * Links permission sets — or permission set groups — to users or groups.
+ * A user can have multiple permission sets. Assignments with an `expires_at`
+ * are deactivated by the plugin once they expire.
  *
  * @see https://protocol.objectstack.ai/docs/guides/security#permission-sets
  */
@@ -20,15 +22,19 @@ export const PermissionSetAssignmentObject: ServiceObject = ObjectSchema.create(
   fields: {
     permission_set: Field.lookup('permission_set', {
       label: 'Permission Set',
-      required: true,
-      description: 'The permission set being assigned',
+      description: 'The permission set being assigned (or use permission_set_group)',
+    }),
+
+    permission_set_group: Field.lookup('permission_set_group', {
+      label: 'Permission Set Group',
+      description: 'The permission set group being assigned',
     }),
 
     assignee_id: Field.text({
       label: 'Assignee ID',
       required: true,
       index: true,
-      description: 'User ID of the assignee',
+      description: 'User or group ID of the assignee',
     }),
 
     assignee_type: Field.select(
@@ -66,13 +72,14 @@ export const PermissionSetAssignmentObject: ServiceObject = ObjectSchema.create(
     { fields: ['permission_set', 'assignee_id'], unique: true },
     { fields: ['assignee_id'], unique: false },
     { fields: ['permission_set'], unique: false },
+    { fields: ['permission_set_group'], unique: false },
     { fields: ['is_active'], unique: false },
   ],
 
   enable: {
     trackHistory: true,
     apiEnabled: true,
-    apiMethods: ['get', 'list', 'create', 'delete'] as const,
+    apiMethods: ['get', 'list', 'create', 'update', 'delete'] as const,
     trash: false,
   },
 
@@ -0,0 +1,71 @@
+/**
+ * Permission Set Group Object
+ *
+ * Bundles permission sets so they can be assigned together. An optional
+ * muting permission set removes permissions the bundled sets grant —
+ * within this group only.
+ *
+ * @see https://protocol.objectstack.ai/docs/guides/security#permission-sets
+ */
+import { ObjectSchema, Field } from '@objectstack/spec/data';
+import type { ServiceObject } from '@objectstack/spec/data';
+
+export const PermissionSetGroupObject: ServiceObject = ObjectSchema.create({
+  name: 'permission_set_group',
+  label: 'Permission Set Group',
+  pluralLabel: 'Permission Set Groups',
+  icon: 'layers',
+  description: 'Bundles permission sets for assignment, with an optional muting permission set.',
+  isSystem: true,
+
+  fields: {
+    name: Field.text({
+      label: 'Group Name',
+      required: true,
+      unique: true,
+      searchable: true,
+      maxLength: 80,
+      description: "Machine name (snake_case), e.g. 'sales_operations'",
+    }),
+
+    label: Field.text({
+      label: 'Display Name',
+      required: true,
+      maxLength: 255,
+    }),
+
+    description: Field.textarea({
+      label: 'Description',
+      maxLength: 1000,
+    }),
+
+    permission_sets: {
+      type: 'json' as const,
+      label: 'Permission Sets',
+      description: 'Array of bundled permission set names, e.g. ["export_reports", "manage_leads"]',
+    },
+
+    muting_permission_set: Field.lookup('permission_set', {
+      label: 'Muting Permission Set',
+      description: 'Permissions granted by this set are removed from the group',
+    }),
+
+    is_active: Field.boolean({
+      label: 'Active',
+      defaultValue: true,
+    }),
+  },
+
+  indexes: [
+    { fields: ['name'], unique: true },
+    { fields: ['is_active'], unique: false },
+  ],
+
+  enable: {
+    trackHistory: true,
+    searchable: true,
+    apiEnabled: true,
+    apiMethods: ['get', 'list', 'create', 'update', 'delete'] as const,
+    trash: true,
+  },
+});
@@ -0,0 +1,112 @@
+/**
+ * Record Share Object
+ *
+ * Shares a single record with a user or group, on top of the
+ * organization-wide default, role hierarchy and sharing rules.
+ *
+ * Reasons:
+ *   manual    → Granted by a user (removed when the record owner changes)
+ *   rule      → Maintained by a sharing rule
+ *   team      → Granted through a record team (removed when the record owner changes)
+ *   territory → Maintained by territory assignment
+ *
+ * All shares of a record are removed when the record is deleted.
+ *
+ * @see https://protocol.objectstack.ai/docs/guides/security#sharing-rules
+ */
+import { ObjectSchema, Field } from '@objectstack/spec/data';
+import type { ServiceObject } from '@objectstack/spec/data';
+
+export const RecordShareObject: ServiceObject = ObjectSchema.create({
+  name: 'record_share',
+  label: 'Record Share',
+  pluralLabel: 'Record Shares',
+  icon: 'user-plus',
+  description: 'Grants a user or group access to a single record.',
+  isSystem: true,
+
+  fields: {
+    object_name: Field.text({
+      label: 'Object Name',
+      required: true,
+      index: true,
+      maxLength: 80,
+      description: 'The API name of the shared record’s object',
+    }),
+
+    record_id: Field.text({
+      label: 'Record ID',
+      required: true,
+      index: true,
+      description: 'ID of the shared record',
+    }),
+
+    shared_with_type: Field.select(
+      [
+        { label: 'User', value: 'user', default: true },
+        { label: 'Group', value: 'group' },
+      ],
+      {
+        label: 'Shared With Type',
+        required: true,
+      },
+    ),
+
+    shared_with: Field.text({
+      label: 'Shared With',
+      required: true,
+      index: true,
+      description: 'User ID or group name the record is shared with',
+    }),
+
+    access_level: Field.select(
+      [
+        { label: 'Read', value: 'read', default: true },
+        { label: 'Read/Write', value: 'read_write' },
+      ],
+      {
+        label: 'Access Level',
+        required: true,
+      },
+    ),
+
+    reason: Field.select(
+      [
+        { label: 'Manual', value: 'manual', default: true },
+        { label: 'Sharing Rule', value: 'rule' },
+        { label: 'Team', value: 'team' },
+        { label: 'Territory', value: 'territory' },
+      ],
+      {
+        label: 'Reason',
+        required: true,
+        description: 'Why the record is shared',
+      },
+    ),
+
+    granted_by: Field.text({
+      label: 'Granted By',
+      description: 'User ID of the user who shared the record',
+    }),
+
+    granted_at: Field.datetime({
+      label: 'Granted At',
+    }),
+  },
+
+  indexes: [
+    { fields: ['object_name', 'record_id'], unique: false },
+    { fields: ['shared_with'], unique: false },
+    {
+      fields: ['object_name', 'record_id', 'shared_with_type', 'shared_with', 'reason'],
+      unique: true,
+    },
+  ],
+
+  enable: {
+    trackHistory: true,
+    apiEnabled: true,
+    apiMethods: ['get', 'list', 'create', 'update', 'delete'] as const,
+    trash: false,
+  },
+});
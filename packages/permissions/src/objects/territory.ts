@@ -0,0 +1,97 @@
+/**
+ * Territory Object
+ *
+ * Territories group records by business criteria (country, industry,
+ * revenue, ...) rather than by ownership. Members of a territory see the
+ * records assigned to it and to every territory below it.
+ *
+ * Records are assigned by the territory's assignment rules, e.g.
+ *   [{ "object": "account", "criteria": { "country": "US", "annual_revenue": { "$gte": 1000000 } } }]
+ * and the matching territory names are stamped on the record's
+ * `territories` field.
+ */
+import { ObjectSchema, Field } from '@objectstack/spec/data';
+import type { ServiceObject } from '@objectstack/spec/data';
+
+export const TerritoryObject: ServiceObject = ObjectSchema.create({
+  name: 'territory',
+  label: 'Territory',
+  pluralLabel: 'Territories',
+  icon: 'map-pin',
+  description:
+    'Territories assign records by criteria. Members see records in their territories and all territories below.',
+  isSystem: true,
+
+  titleFormat: '{label}',
+  compactLayout: ['name', 'label', 'model', 'parent'],
+
+  fields: {
+    name: Field.text({
+      label: 'Territory Name',
+      required: true,
+      unique: true,
+      searchable: true,
+      maxLength: 80,
+      description: "Machine name (snake_case), e.g. 'north_america', 'us_west'",
+    }),
+
+    label: Field.text({
+      label: 'Display Name',
+      required: true,
+      maxLength: 255,
+    }),
+
+    description: Field.textarea({
+      label: 'Description',
+      maxLength: 1000,
+    }),
+
+    model: Field.lookup('territory_model', {
+      label: 'Territory Model',
+      required: true,
+      description: 'The territory model this territory belongs to',
+    }),
+
+    parent: Field.lookup('territory', {
+      label: 'Parent Territory',
+      description: 'Parent territory in the hierarchy. Null for top-level territories.',
+    }),
+
+    access_level: Field.select(
+      [
+        { label: 'Read Only', value: 'read_only' },
+        { label: 'Read/Write', value: 'read_write', default: true },
+      ],
+      {
+        label: 'Access Level',
+        description: "Access members get to the territory's records and those of its children",
+      },
+    ),
+
+    assignment_rules: {
+      type: 'json' as const,
+      label: 'Assignment Rules',
+      description:
+        'Array of { object, criteria } — records of the object matching the criteria are assigned to this territory',
+    },
+
+    is_active: Field.boolean({
+      label: 'Active',
+      defaultValue: true,
+    }),
+  },
+
+  indexes: [
+    { fields: ['name'], unique: true },
+    { fields: ['model'], unique: false },
+    { fields: ['parent'], unique: false },
+  ],
+
+  enable: {
+    trackHistory: true,
+    searchable: true,
+    apiEnabled: true,
+    apiMethods: ['get', 'list', 'create', 'update', 'delete'] as const,
+    trash: true,
+  },
+});
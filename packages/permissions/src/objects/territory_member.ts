@@ -0,0 +1,41 @@
+/**
+ * Territory Member Object
+ *
+ * Assigns users to territories. A user can belong to several territories.
+ */
+import { ObjectSchema, Field } from '@objectstack/spec/data';
+import type { ServiceObject } from '@objectstack/spec/data';
+
+export const TerritoryMemberObject: ServiceObject = ObjectSchema.create({
+  name: 'territory_member',
+  label: 'Territory Member',
+  pluralLabel: 'Territory Members',
+  icon: 'user-check',
+  description: 'Assigns users to territories.',
+  isSystem: true,
+
+  fields: {
+    territory: Field.lookup('territory', {
+      label: 'Territory',
+      required: true,
+    }),
+
+    user_id: Field.text({
+      label: 'User ID',
+      required: true,
+      index: true,
+    }),
+  },
+
+  indexes: [
+    { fields: ['territory', 'user_id'], unique: true },
+    { fields: ['user_id'], unique: false },
+  ],
+
+  enable: {
+    trackHistory: true,
+    apiEnabled: true,
+    apiMethods: ['get', 'list', 'create', 'delete'] as const,
+    trash: false,
+  },
+});
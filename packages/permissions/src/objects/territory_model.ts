@@ -0,0 +1,72 @@
+/**
+ * Territory Model Object
+ *
+ * A territory model is a complete territory hierarchy, e.g. "FY26 Sales".
+ * Models can be prepared in `planning`, but only the single `active` model
+ * assigns records to territories and grants access through them.
+ *
+ * Lifecycle:
+ *   planning → Being designed, no effect on access
+ *   active   → Assigns records and grants access (one at a time)
+ *   archived → Kept for reference, no effect on access
+ */
+import { ObjectSchema, Field } from '@objectstack/spec/data';
+import type { ServiceObject } from '@objectstack/spec/data';
+
+export const TerritoryModelObject: ServiceObject = ObjectSchema.create({
+  name: 'territory_model',
+  label: 'Territory Model',
+  pluralLabel: 'Territory Models',
+  icon: 'map',
+  description: 'A territory hierarchy. Only the active model assigns records and grants access.',
+  isSystem: true,
+
+  titleFormat: '{label}',
+  compactLayout: ['name', 'label', 'status'],
+
+  fields: {
+    name: Field.text({
+      label: 'Model Name',
+      required: true,
+      unique: true,
+      searchable: true,
+      maxLength: 80,
+    }),
+
+    label: Field.text({
+      label: 'Display Name',
+      required: true,
+      maxLength: 255,
+    }),
+
+    description: Field.textarea({
+      label: 'Description',
+      maxLength: 1000,
+    }),
+
+    status: Field.select(
+      [
+        { label: 'Planning', value: 'planning', default: true },
+        { label: 'Active', value: 'active' },
+        { label: 'Archived', value: 'archived' },
+      ],
+      {
+        label: 'Status',
+        required: true,
+      },
+    ),
+  },
+
+  indexes: [
+    { fields: ['name'], unique: true },
+    { fields: ['status'], unique: false },
+  ],
+
+  enable: {
+    trackHistory: true,
+    searchable: true,
+    apiEnabled: true,
+    apiMethods: ['get', 'list', 'create', 'update', 'delete'] as const,
+    trash: true,
+  },
+});
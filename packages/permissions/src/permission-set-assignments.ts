@@ -0,0 +1,192 @@
+/**
+ * Permission Set Assignments for ObjectOS
+ *
+ * Keeps permission set assignments (the `permission_set_assignment` object)
+ * and permission set groups (`permission_set_group`) in memory, and resolves
+ * the permission sets a user holds on top of their profiles: assigned
+ * directly or to one of their groups, as single sets or bundled in a
+ * permission set group.
+ *
+ * Inactive assignments and assignments past their `expiresAt` never count,
+ * even before the expiry job has deactivated them.
+ *
+ * @see PermissionSetAssignment / PermissionSetGroup types in ./types.ts
+ */
+
+import { randomUUID } from 'crypto';
+import type { PermissionSetAssignment, PermissionSetGroup } from './types.js';
+
+/**
+ * A permission set held by a user, and the assignment it comes from
+ */
+export interface AssignedPermissionSet {
+  /** Permission set name */
+  permissionSet: string;
+  /** The assignment granting it */
+  assignment: PermissionSetAssignment;
+  /** Permission set group the set is bundled in */
+  permissionSetGroup?: string;
+  /** Muting permission set of that group */
+  mutingPermissionSet?: string;
+}
+
+/**
+ * Change to assignments: the affected assignees, or all when no assignee is given
+ */
+export interface AssignmentChange {
+  assigneeType?: 'user' | 'group';
+  assigneeId?: string;
+}
+
+export type AssignmentChangeListener = (change: AssignmentChange) => void;
+
+/**
+ * Permission Set Assignment Manager
+ */
+export class PermissionSetAssignmentManager {
+  private assignments: Map<string, PermissionSetAssignment> = new Map();
+  private groups: Map<string, PermissionSetGroup> = new Map();
+  private listeners: Set<AssignmentChangeListener> = new Set();
+
+  /**
+   * Be notified of every change that may affect a user's permissions
+   */
+  onChange(listener: AssignmentChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Replace all assignments
+   */
+  setAssignments(assignments: PermissionSetAssignment[]): void {
+    this.assignments.clear();
+    for (const assignment of assignments) {
+      const id = assignment.id ?? randomUUID();
+      this.assignments.set(id, { ...assignment, id });
+    }
+    this.notify({});
+  }
+
+  /**
+   * Add or replace an assignment
+   */
+  put(assignment: PermissionSetAssignment): PermissionSetAssignment {
+    const id = assignment.id ?? randomUUID();
+    const previous = this.assignments.get(id);
+    const stored = { ...assignment, id };
+    this.assignments.set(id, stored);
+
+    if (previous && !sameAssignee(previous, stored)) this.notifyAssignee(previous);
+    this.notifyAssignee(stored);
+    return stored;
+  }
+
+  /**
+   * Remove an assignment. Returns the removed assignment, if it existed.
+   */
+  remove(id: string): PermissionSetAssignment | undefined {
+    const assignment = this.assignments.get(id);
+    if (!assignment) return undefined;
+    this.assignments.delete(id);
+    this.notifyAssignee(assignment);
+    return assignment;
+  }
+
+  get(id: string): PermissionSetAssignment | undefined {
+    return this.assignments.get(id);
+  }
+
+  getAssignments(): PermissionSetAssignment[] {
+    return Array.from(this.assignments.values());
+  }
+
+  /**
+   * Replace all permission set groups
+   */
+  setGroups(groups: PermissionSetGroup[]): void {
+    this.groups = new Map(groups.map((group) => [group.name, { ...group }]));
+    this.notify({});
+  }
+
+  getGroup(name: string): PermissionSetGroup | undefined {
+    return this.groups.get(name);
+  }
+
+  /**
+   * Active, unexpired assignments of a user and of their groups
+   */
+  getActiveAssignments(
+    userId: string,
+    groups: string[] = [],
+    now: Date = new Date(),
+  ): PermissionSetAssignment[] {
+    return this.getAssignments().filter(
+      (a) =>
+        isEffective(a, now) &&
+        (a.assigneeType === 'group' ? groups.includes(a.assigneeId) : a.assigneeId === userId),
+    );
+  }
+
+  /**
+   * Permission sets a user holds through their active assignments.
+   * Group assignments expand to the group's sets; inactive groups grant nothing.
+   */
+  resolve(userId: string, groups: string[] = [], now: Date = new Date()): AssignedPermissionSet[] {
+    const resolved: AssignedPermissionSet[] = [];
+
+    for (const assignment of this.getActiveAssignments(userId, groups, now)) {
+      if (assignment.permissionSetName) {
+        resolved.push({ permissionSet: assignment.permissionSetName, assignment });
+      }
+      if (assignment.permissionSetGroupName) {
+        const group = this.groups.get(assignment.permissionSetGroupName);
+        if (!group || group.isActive === false) continue;
+        for (const permissionSet of group.permissionSets) {
+          resolved.push({
+            permissionSet,
+            assignment,
+            permissionSetGroup: group.name,
+            mutingPermissionSet: group.mutingPermissionSet,
+          });
+        }
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Assignments still active but past their expiry
+   */
+  getExpired(now: Date = new Date()): PermissionSetAssignment[] {
+    return this.getAssignments().filter(
+      (a) => a.isActive !== false && !!a.expiresAt && a.expiresAt.getTime() <= now.getTime(),
+    );
+  }
+
+  clear(): void {
+    this.assignments.clear();
+    this.groups.clear();
+    this.notify({});
+  }
+
+  private notifyAssignee(assignment: PermissionSetAssignment): void {
+    this.notify({ assigneeType: assignment.assigneeType, assigneeId: assignment.assigneeId });
+  }
+
+  private notify(change: AssignmentChange): void {
+    for (const listener of this.listeners) listener(change);
+  }
+}
+
+/**
+ * Whether an assignment currently grants its permission set
+ */
+function isEffective(assignment: PermissionSetAssignment, now: Date): boolean {
+  if (assignment.isActive === false) return false;
+  return !assignment.expiresAt || assignment.expiresAt.getTime() > now.getTime();
+}
+
+function sameAssignee(a: PermissionSetAssignment, b: PermissionSetAssignment): boolean {
+  return a.assigneeType === b.assigneeType && a.assigneeId === b.assigneeId;
+}
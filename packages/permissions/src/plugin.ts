@@ -5,7 +5,12 @@
  * - Object-level permissions (CRUD)
  * - Field-level security
  * - Record-level security (RLS)
+ * - Role hierarchy (managers see subordinates' records)
+ * - Manual record sharing (`record_share`)
+ * - Territory management (criteria-based record assignment)
+ * - Permission explain ("why can / can't this user see this record")
  * - Profile-based permissions
+ * - Permission set assignments (direct, via groups, permission set groups, expiry)
  * - Declarative YAML configuration
  *
  * Features:
@@ -17,10 +22,22 @@
  */
 
 import type { Plugin, PluginContext } from '@objectstack/runtime';
+import type { IJobService } from '@objectstack/spec/contracts';
 import type {
   PermissionPluginConfig,
   PermissionContext,
   PermissionAction,
+  Role,
+  PermissionSetAssignment,
+  PermissionSetGroup,
+  RecordShare,
+  RecordShareReason,
+  TerritoryAssignmentRule,
+  OrganizationDefault,
+  RLSEvaluationResult,
+  PermissionExplainRequest,
+  PermissionExplainStep,
+  PermissionExplanation,
   PluginHealthReport,
   PluginCapabilityManifest,
   PluginSecurityManifest,
@@ -31,8 +48,19 @@ import { ObjectQLPermissionStorage } from './objectql-storage.js';
 import { PermissionEngine } from './engine.js';
 import { SharingRuleEngine } from './sharing-rules.js';
 import { RLSEvaluator } from './rls-evaluator.js';
+import { RoleHierarchy } from './role-hierarchy.js';
+import { RecordShareManager } from './record-sharing.js';
+import type { RecordShareInput } from './record-sharing.js';
+import { TerritoryManager, matchesCriteria } from './territories.js';
+import { PermissionSetAssignmentManager } from './permission-set-assignments.js';
 import { loadPermissionSetsFromDirectory } from './loader.js';
 
+/** Job that re-runs territory assignment rules over existing records */
+const TERRITORY_REALIGN_JOB = 'permissions.territory.realign';
+
+/** Job that deactivates expired permission set assignments */
+const ASSIGNMENT_EXPIRY_JOB = 'permissions.assignment.expire';
+
 /**
  * Permissions Plugin
  * Implements the Plugin interface for @objectstack/runtime
@@ -47,6 +75,18 @@ export class PermissionsPlugin implements Plugin {
   private engine: PermissionEngine;
   private sharingEngine: SharingRuleEngine;
   private rlsEvaluator: RLSEvaluator;
+  private roleHierarchy: RoleHierarchy;
+  /** Role record ID → role name, for resolving `parent` lookups */
+  private roleIds: Map<string, string> = new Map();
+  /** User ID → role name, from the `user` object */
+  private userRoles: Map<string, string> = new Map();
+  private syncingRoles = false;
+  private recordShares: RecordShareManager;
+  private territories: TerritoryManager;
+  private assignments: PermissionSetAssignmentManager;
+  /** Permission set group record ID → group name, for resolving lookups */
+  private permissionSetGroupIds: Map<string, string> = new Map();
+  private jobs?: IJobService;
   private context?: PluginContext;
   private startedAt?: number;
 
@@ -58,16 +98,32 @@ export class PermissionsPlugin implements Plugin {
       cachePermissions: true,
       tenantIsolation: false,
       tenantField: '_organizationId',
+      territoryRealignSchedule: '0 2 * * *',
+      assignmentExpirySchedule: '*/5 * * * *',
+      userRoleField: 'user_role',
       ...config,
     };
 
     this.storage = config.storage || new InMemoryPermissionStorage();
-    this.engine = new PermissionEngine(this.storage, {
-      defaultDeny: this.config.defaultDeny,
-      enableCache: this.config.cachePermissions,
-    });
+    this.assignments = new PermissionSetAssignmentManager();
+    this.engine = new PermissionEngine(
+      this.storage,
+      {
+        defaultDeny: this.config.defaultDeny,
+        enableCache: this.config.cachePermissions,
+      },
+      this.assignments,
+    );
     this.sharingEngine = new SharingRuleEngine();
-    this.rlsEvaluator = new RLSEvaluator(this.sharingEngine);
+    this.roleHierarchy = new RoleHierarchy();
+    this.recordShares = new RecordShareManager();
+    this.territories = new TerritoryManager();
+    this.rlsEvaluator = new RLSEvaluator(
+      this.sharingEngine,
+      this.roleHierarchy,
+      this.recordShares,
+      this.territories,
+    );
   }
 
   /**
@@ -81,10 +137,14 @@ export class PermissionsPlugin implements Plugin {
     // We do this in init because we need the context
     if (!this.config.storage && (context as any).broker) {
       this.storage = new ObjectQLPermissionStorage(context);
-      this.engine = new PermissionEngine(this.storage, {
-        defaultDeny: this.config.defaultDeny,
-        enableCache: this.config.cachePermissions,
-      });
+      this.engine = new PermissionEngine(
+        this.storage,
+        {
+          defaultDeny: this.config.defaultDeny,
+          enableCache: this.config.cachePermissions,
+        },
+        this.assignments,
+      );
       context.logger.info('[Permissions Plugin] Upgraded to ObjectQL storage');
     }
 
@@ -116,8 +176,16 @@ export class PermissionsPlugin implements Plugin {
   async start(context: PluginContext): Promise<void> {
     context.logger.info('[Permissions Plugin] Starting...');
 
-    // Permissions plugin is stateless and doesn't need special startup
-    // All permission checking is done on-demand via hooks
+    // Permission checking is done on-demand via hooks; only the role
+    // hierarchy, record shares, territories and permission set
+    // assignments are loaded up front
+    await this.loadRoles();
+    await this.loadUserRoles();
+    await this.loadRecordShares();
+    await this.loadTerritories();
+    await this.loadPermissionSetAssignments();
+    await this.scheduleTerritoryRealignment(context);
+    await this.scheduleAssignmentExpiry();
 
     // Register HTTP routes for Permissions API
     try {
@@ -196,6 +264,123 @@ export class PermissionsPlugin implements Plugin {
           }
         });
 
+        // GET /api/v1/permissions/shares/:objectName/:recordId - List shares of a record
+        rawApp.get('/api/v1/permissions/shares/:objectName/:recordId', async (c: any) => {
+          try {
+            const caller = toRequestContext(c.get?.('user'));
+            if (!caller) return c.json({ success: false, error: 'Unauthorized' }, 401);
+            const objectName = c.req.param('objectName');
+            const recordId = c.req.param('recordId');
+
+            await this.checkShareAccess(caller, objectName, recordId);
+            const shares = this.getRecordShares(objectName, recordId);
+            return c.json({ success: true, data: shares });
+          } catch (error: any) {
+            context.logger.error('[Permissions API] List shares error:', error);
+            return c.json({ success: false, error: error.message }, error.statusCode ?? 500);
+          }
+        });
+
+        // POST /api/v1/permissions/shares - Share a record with a user or group
+        rawApp.post('/api/v1/permissions/shares', async (c: any) => {
+          try {
+            const caller = toRequestContext(c.get?.('user'));
+            if (!caller) return c.json({ success: false, error: 'Unauthorized' }, 401);
+            const body = await c.req.json();
+            const { objectName, recordId, sharedWith } = body;
+
+            if (!objectName || !recordId || !sharedWith) {
+              return c.json({ success: false, error: 'Missing required fields' }, 400);
+            }
+
+            await this.checkShareAccess(caller, objectName, String(recordId));
+            const share = await this.shareRecord({
+              objectName,
+              recordId: String(recordId),
+              sharedWith,
+              sharedWithType: body.sharedWithType,
+              accessLevel: body.accessLevel,
+              // rule, territory and team shares are only created by the server
+              reason: 'manual',
+              grantedBy: caller.userId,
+            });
+            return c.json({ success: true, data: share }, 201);
+          } catch (error: any) {
+            context.logger.error('[Permissions API] Share error:', error);
+            return c.json({ success: false, error: error.message }, error.statusCode ?? 500);
+          }
+        });
+
+        // DELETE /api/v1/permissions/shares/:id - Revoke a share
+        rawApp.delete('/api/v1/permissions/shares/:id', async (c: any) => {
+          try {
+            const caller = toRequestContext(c.get?.('user'));
+            if (!caller) return c.json({ success: false, error: 'Unauthorized' }, 401);
+            const existing = this.recordShares.get(c.req.param('id'));
+            if (!existing) {
+              return c.json({ success: false, error: 'Share not found' }, 404);
+            }
+
+            await this.checkShareAccess(caller, existing.objectName, existing.recordId);
+            const share = await this.revokeShare(existing.id);
+            if (!share) {
+              return c.json({ success: false, error: 'Share not found' }, 404);
+            }
+            return c.json({ success: true, data: share });
+          } catch (error: any) {
+            context.logger.error('[Permissions API] Revoke share error:', error);
+            return c.json({ success: false, error: error.message }, error.statusCode ?? 500);
+          }
+        });
+
+        // POST /api/v1/permissions/explain - Trace a permission decision
+        rawApp.post('/api/v1/permissions/explain', async (c: any) => {
+          try {
+            const caller = toRequestContext(c.get?.('user'));
+            if (!caller) return c.json({ success: false, error: 'Unauthorized' }, 401);
+            const body = await c.req.json();
+            const { objectName, action = 'read' } = body;
+            const userId = body.userId !== undefined ? String(body.userId) : caller.userId;
+
+            if (!objectName) {
+              return c.json({ success: false, error: 'Missing required fields' }, 400);
+            }
+            if (!['create', 'read', 'update', 'delete'].includes(action)) {
+              return c.json({ success: false, error: `Invalid action: ${action}` }, 400);
+            }
+
+            let permissionContext = caller;
+            if (userId !== caller.userId) {
+              if (!(await this.engine.canExplainOthers(caller, objectName))) {
+                return c.json(
+                  {
+                    success: false,
+                    error: `User ${caller.userId} cannot explain permissions of other users`,
+                  },
+                  403,
+                );
+              }
+              const target = await this.getUserContext(userId);
+              if (!target) {
+                return c.json({ success: false, error: `User ${userId} not found` }, 404);
+              }
+              permissionContext = target;
+            }
+
+            const explanation = await this.explain({
+              context: permissionContext,
+              objectName,
+              action,
+              recordId: body.recordId !== undefined ? String(body.recordId) : undefined,
+              fields: body.fields,
+            });
+            return c.json({ success: true, data: explanation });
+          } catch (error: any) {
+            context.logger.error('[Permissions API] Explain error:', error);
+            return c.json({ success: false, error: error.message }, 500);
+          }
+        });
+
         context.logger.info('[Permissions Plugin] HTTP routes registered');
       }
     } catch (e: any) {
@@ -249,10 +434,14 @@ export class PermissionsPlugin implements Plugin {
     // Hook into data operations for permission checking (PRE-Operation)
     context.hook('data.beforeCreate', async (data: any) => {
       await this.checkDataPermission(data, 'create');
+      this.applyOwnerRole(data);
+      this.applyTerritories(data);
     });
 
     context.hook('data.beforeUpdate', async (data: any) => {
       await this.checkDataPermission(data, 'update');
+      this.checkRoleParent(data);
+      this.applyOwnerRole(data);
     });
 
     context.hook('data.beforeDelete', async (data: any) => {
@@ -263,6 +452,88 @@ export class PermissionsPlugin implements Plugin {
       await this.applyRecordLevelSecurity(data);
     });
 
+    // Keep the role hierarchy (and its materialized paths) in sync with the `role` object
+    for (const event of ['data.afterCreate', 'data.afterUpdate', 'data.afterDelete']) {
+      context.hook(event, async (data: any) => {
+        if ((data?.object ?? data?.objectName) === 'role' && !this.syncingRoles) {
+          await this.loadRoles();
+        }
+      });
+    }
+
+    // Reload territories when the model changes; rule changes re-run
+    // assignment over existing records in the background
+    for (const event of ['data.afterCreate', 'data.afterUpdate', 'data.afterDelete']) {
+      context.hook(event, async (data: any) => {
+        const objectName = data?.object ?? data?.objectName;
+        if (objectName === 'territory_member') {
+          await this.loadTerritories();
+        } else if (objectName === 'territory_model' || objectName === 'territory') {
+          const before = this.territories.getManagedObjects();
+          await this.loadTerritories();
+          const after = this.territories.getManagedObjects();
+          await this.requestTerritoryRealignment(Array.from(new Set([...before, ...after])));
+        }
+      });
+    }
+
+    context.hook('data.afterUpdate', async (data: any) => {
+      await this.reassignTerritories(data);
+    });
+
+    // Follow users moving to another role: their records carry the new `owner_role`
+    for (const event of ['data.afterCreate', 'data.afterUpdate']) {
+      context.hook(event, async (data: any) => {
+        await this.syncUserRole(data);
+      });
+    }
+
+    // Mirror permission set assignment and group changes; the engine
+    // drops the cached permissions of the affected users
+    for (const event of ['data.afterCreate', 'data.afterUpdate']) {
+      context.hook(event, async (data: any) => {
+        this.syncPermissionSetAssignment(data);
+      });
+    }
+
+    context.hook('data.afterDelete', async (data: any) => {
+      if ((data?.object ?? data?.objectName) === 'permission_set_assignment') {
+        this.assignments.remove(String(data.id));
+      }
+    });
+
+    for (const event of ['data.afterCreate', 'data.afterUpdate', 'data.afterDelete']) {
+      context.hook(event, async (data: any) => {
+        if ((data?.object ?? data?.objectName) === 'permission_set_group') {
+          await this.loadPermissionSetGroups();
+        }
+      });
+    }
+
+    // Mirror `record_share` writes and drop the shares of deleted records
+    // and of records that changed owner
+    context.hook('data.afterCreate', async (data: any) => {
+      this.syncRecordShare(data);
+    });
+
+    context.hook('data.afterUpdate', async (data: any) => {
+      this.syncRecordShare(data);
+      const objectName = data?.object ?? data?.objectName;
+      if (objectName === 'record_share' || !data?.doc || !('owner' in data.doc)) return;
+      if (data.previous && data.previous.owner !== data.doc.owner) {
+        await this.removeRecordShares(objectName, data.id, ['manual', 'team']);
+      }
+    });
+
+    context.hook('data.afterDelete', async (data: any) => {
+      const objectName = data?.object ?? data?.objectName;
+      if (objectName === 'record_share') {
+        this.recordShares.revoke(String(data.id));
+      } else if (data?.id !== undefined) {
+        await this.removeRecordShares(objectName, data.id);
+      }
+    });
+
     this.context?.logger.info('[Permissions Plugin] Event listeners registered');
   }
 
@@ -336,19 +607,14 @@ export class PermissionsPlugin implements Plugin {
    * Check permission for a data operation
    */
   private async checkDataPermission(data: any, action: PermissionAction): Promise<void> {
-    const { objectName, userId, userProfiles } = data;
+    const { objectName, userId } = data;
 
     if (!userId) {
       // No user context, skip permission check
       return;
     }
 
-    const permissionContext: PermissionContext = {
-      userId,
-      organizationId: data.organizationId || data.metadata?.organizationId,
-      profiles: userProfiles || [],
-      metadata: data.metadata,
-    };
+    const permissionContext = this.toPermissionContext(data);
 
     const result = await this.engine.checkPermission(permissionContext, objectName, action);
 
@@ -363,25 +629,28 @@ export class PermissionsPlugin implements Plugin {
     if (result.filters) {
       data.recordFilters = result.filters;
     }
+
+    // Updates and deletes are limited to the records RLS lets the user edit
+    if (action !== 'create' && this.rlsEvaluator.getOrgDefault(objectName)) {
+      const rls = this.rlsEvaluator.evaluate(permissionContext, objectName);
+      if (rls.writeFilters) {
+        data.recordFilters = mergeFilters(data.recordFilters, rls.writeFilters);
+      }
+    }
   }
 
   /**
    * Apply record-level security filters
    */
   private async applyRecordLevelSecurity(data: any): Promise<void> {
-    const { objectName, userId, userProfiles } = data;
+    const { objectName, userId } = data;
 
     if (!userId) {
       // No user context, skip RLS
       return;
     }
 
-    const permissionContext: PermissionContext = {
-      userId,
-      organizationId: data.organizationId || data.metadata?.organizationId,
-      profiles: userProfiles || [],
-      metadata: data.metadata,
-    };
+    const permissionContext = this.toPermissionContext(data);
 
     // Get record-level filters
     const filters = await this.engine.getRecordFilters(permissionContext, objectName);
@@ -390,6 +659,820 @@ export class PermissionsPlugin implements Plugin {
     if (Object.keys(filters).length > 0) {
       data.filters = { ...data.filters, ...filters };
     }
+
+    // Objects with an organization-wide default get OWD + hierarchy + sharing filters
+    if (this.rlsEvaluator.getOrgDefault(objectName)) {
+      const rls = this.rlsEvaluator.evaluate(permissionContext, objectName);
+      data.filters = mergeFilters(data.filters, rls.filters);
+    }
+  }
+
+  /**
+   * Build the permission context for a data hook payload
+   */
+  private toPermissionContext(data: any): PermissionContext {
+    return {
+      userId: data.userId,
+      organizationId: data.organizationId || data.metadata?.organizationId,
+      profiles: data.userProfiles || [],
+      roleName: data.roleName ?? data.metadata?.roleName,
+      metadata: data.metadata,
+    };
+  }
+
+  /**
+   * Stamp the owner's role on records of RLS-managed objects when they are
+   * created or change owner, so the role hierarchy and owner-based sharing
+   * rules can match them. Owners of unknown role get none. An `owner_role`
+   * sent by the client is dropped: it would move the record in the hierarchy.
+   */
+  private applyOwnerRole(data: any): void {
+    const doc = data.doc ?? data.record;
+    if (!doc) return;
+    if (!this.rlsEvaluator.getOrgDefault(data.objectName ?? data.object)) return;
+    delete doc.owner_role;
+
+    const created = data.id === undefined;
+    if (!created && !('owner' in doc)) return;
+    const owner = doc.owner ?? (created ? data.userId : undefined);
+    const roleName =
+      owner !== undefined && owner === data.userId
+        ? (data.roleName ?? data.metadata?.roleName ?? this.userRoles.get(String(owner)))
+        : owner !== undefined
+          ? this.userRoles.get(String(owner))
+          : undefined;
+    if (roleName || !created) doc.owner_role = roleName ?? null;
+  }
+
+  /**
+   * Load the role of each user from the `user` object
+   */
+  private async loadUserRoles(): Promise<void> {
+    const broker = (this.context as any)?.broker;
+    if (!broker) return;
+
+    try {
+      const records: any[] = (await broker.call('data.find', { object: 'user', query: {} })) ?? [];
+      this.userRoles = new Map();
+      for (const record of records) {
+        const roleName = this.toRoleName(record[this.config.userRoleField!]);
+        if (roleName) this.userRoles.set(String(record._id ?? record.id), roleName);
+      }
+    } catch (error: any) {
+      this.context?.logger.warn(
+        `[Permissions Plugin] Could not load user roles: ${error?.message}`,
+      );
+    }
+  }
+
+  /**
+   * Record a `user` write that changes the user's role, and restamp the
+   * `owner_role` of the records they own
+   */
+  private async syncUserRole(data: any): Promise<void> {
+    const field = this.config.userRoleField!;
+    if ((data?.object ?? data?.objectName) !== 'user' || !data.doc || !(field in data.doc)) return;
+    const userId = String(data.id ?? data.doc._id ?? data.doc.id);
+    const roleName = this.toRoleName(data.doc[field]);
+    if (roleName === this.userRoles.get(userId)) return;
+
+    if (roleName) this.userRoles.set(userId, roleName);
+    else this.userRoles.delete(userId);
+    await this.realignOwnerRoles(undefined, userId);
+  }
+
+  /**
+   * Role name of a role lookup value (record ID) or role name
+   */
+  private toRoleName(value: unknown): string | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    return this.roleIds.get(String(value)) ?? String(value);
+  }
+
+  /**
+   * Restamp `owner_role` from the owners' current roles on the records of
+   * the given RLS-managed objects (default: all), optionally only those of
+   * one owner. Run once to stamp records created before the role hierarchy
+   * was set up. Returns the number of records changed.
+   */
+  async realignOwnerRoles(objectNames?: string[], owner?: string): Promise<number> {
+    const broker = (this.context as any)?.broker;
+    if (!broker) return 0;
+
+    let changed = 0;
+    for (const objectName of objectNames ?? this.rlsEvaluator.getManagedObjects()) {
+      try {
+        const records: any[] =
+          (await broker.call('data.find', {
+            object: objectName,
+            query: owner !== undefined ? { filters: { owner } } : {},
+          })) ?? [];
+        for (const record of records) {
+          if (owner !== undefined && String(record.owner) !== owner) continue;
+          const roleName =
+            record.owner !== undefined && record.owner !== null
+              ? (this.userRoles.get(String(record.owner)) ?? null)
+              : null;
+          if ((record.owner_role ?? null) === roleName) continue;
+          await broker.call('data.update', {
+            object: objectName,
+            id: record._id ?? record.id,
+            // The owner is included so the update hook derives the same role
+            doc: { owner: record.owner, owner_role: roleName },
+          });
+          changed++;
+        }
+      } catch (error: any) {
+        this.context?.logger.warn(
+          `[Permissions Plugin] Could not realign owner roles of ${objectName}: ${error?.message}`,
+        );
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Reject re-parenting a role under itself or one of its subordinates
+   */
+  private checkRoleParent(data: any): void {
+    if ((data.objectName ?? data.object) !== 'role' || !data.doc?.parent) return;
+    const roleName = this.roleIds.get(String(data.id)) ?? data.doc.name;
+    const parentName = this.roleIds.get(String(data.doc.parent)) ?? data.doc.parent;
+    if (
+      roleName &&
+      (parentName === roleName || this.roleHierarchy.isSubordinate(parentName, roleName))
+    ) {
+      const error = new Error(`Role ${roleName} cannot be moved under ${parentName}`);
+      (error as any).code = 'INVALID_ROLE_HIERARCHY';
+      (error as any).statusCode = 400;
+      throw error;
+    }
+  }
+
+  /**
+   * Load the role hierarchy from the `role` object and write back any
+   * materialized paths that are out of date (e.g. after a re-parent)
+   */
+  private async loadRoles(): Promise<void> {
+    const broker = (this.context as any)?.broker;
+    if (!broker) return;
+
+    try {
+      const records: any[] = (await broker.call('data.find', { object: 'role', query: {} })) ?? [];
+      this.roleIds = new Map(records.map((r) => [String(r._id ?? r.id), r.name]));
+      const nameToId = new Map(records.map((r) => [r.name, r._id ?? r.id]));
+
+      const roles: Role[] = records.map((r) => ({
+        name: r.name,
+        label: r.label,
+        description: r.description,
+        parentRole: r.parent ? (this.roleIds.get(String(r.parent)) ?? r.parent) : null,
+        hierarchyPath: r.hierarchy_path ?? undefined,
+        hierarchyLevel: r.hierarchy_level ?? undefined,
+        isActive: r.is_active,
+        portalType: r.portal_type,
+      }));
+      const changed = this.roleHierarchy.setRoles(roles);
+
+      this.syncingRoles = true;
+      try {
+        for (const role of changed) {
+          await broker.call('data.update', {
+            object: 'role',
+            id: nameToId.get(role.name),
+            doc: { hierarchy_path: role.hierarchyPath, hierarchy_level: role.hierarchyLevel },
+          });
+        }
+      } finally {
+        this.syncingRoles = false;
+      }
+      if (changed.length > 0) {
+        this.context?.logger.info(
+          `[Permissions Plugin] Updated hierarchy paths of ${changed.length} role(s)`,
+        );
+      }
+    } catch (error: any) {
+      this.context?.logger.warn(`[Permissions Plugin] Could not load roles: ${error?.message}`);
+    }
+  }
+
+  /**
+   * Load record shares from the `record_share` object
+   */
+  private async loadRecordShares(): Promise<void> {
+    const broker = (this.context as any)?.broker;
+    if (!broker) return;
+
+    try {
+      const records: any[] =
+        (await broker.call('data.find', { object: 'record_share', query: {} })) ?? [];
+      const shares = records
+        .map((r) => toRecordShare(String(r._id ?? r.id), r))
+        .filter((share): share is RecordShare => !!share);
+      this.recordShares.setShares(shares);
+    } catch (error: any) {
+      this.context?.logger.warn(
+        `[Permissions Plugin] Could not load record shares: ${error?.message}`,
+      );
+    }
+  }
+
+  /**
+   * Apply a `record_share` create/update made through the data API
+   */
+  private syncRecordShare(data: any): void {
+    if ((data?.object ?? data?.objectName) !== 'record_share' || !data.doc) return;
+    const id = String(data.id ?? data.doc._id ?? data.doc.id);
+    const share = toRecordShare(id, data.doc, this.recordShares.get(id));
+    if (share) this.recordShares.put(share);
+  }
+
+  /**
+   * Revoke the shares of a record, optionally only those with the given reasons
+   */
+  private async removeRecordShares(
+    objectName: string,
+    recordId: string,
+    reasons?: RecordShareReason[],
+  ): Promise<void> {
+    const removed = this.recordShares.revokeForRecord(objectName, String(recordId), reasons);
+    const broker = (this.context as any)?.broker;
+    if (!broker) return;
+
+    for (const share of removed) {
+      try {
+        await broker.call('data.delete', { object: 'record_share', id: share.id });
+      } catch (error: any) {
+        this.context?.logger.warn(
+          `[Permissions Plugin] Could not delete record share ${share.id}: ${error?.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Load territory models, territories and members
+   */
+  private async loadTerritories(): Promise<void> {
+    const broker = (this.context as any)?.broker;
+    if (!broker) return;
+
+    try {
+      const find = async (object: string): Promise<any[]> =>
+        (await broker.call('data.find', { object, query: {} })) ?? [];
+      const models = await find('territory_model');
+      const territories = await find('territory');
+      const members = await find('territory_member');
+
+      const modelNames = new Map(models.map((m) => [String(m._id ?? m.id), m.name]));
+      const territoryNames = new Map(territories.map((t) => [String(t._id ?? t.id), t.name]));
+
+      this.territories.setModels(
+        models.map((m) => ({
+          name: m.name,
+          label: m.label,
+          description: m.description,
+          status: m.status ?? 'planning',
+        })),
+      );
+      this.territories.setTerritories(
+        territories.map((t) => ({
+          name: t.name,
+          label: t.label,
+          model: modelNames.get(String(t.model)) ?? t.model,
+          parentTerritory: t.parent ? (territoryNames.get(String(t.parent)) ?? t.parent) : null,
+          accessLevel: t.access_level ?? undefined,
+          assignmentRules: toAssignmentRules(t.assignment_rules),
+          isActive: t.is_active,
+        })),
+      );
+      this.territories.setMembers(
+        members.map((m) => ({
+          territory: territoryNames.get(String(m.territory)) ?? m.territory,
+          userId: m.user_id,
+        })),
+      );
+    } catch (error: any) {
+      this.context?.logger.warn(
+        `[Permissions Plugin] Could not load territories: ${error?.message}`,
+      );
+    }
+  }
+
+  /**
+   * Register the territory realignment job with the job service, which
+   * also runs it on the configured schedule
+   */
+  private async scheduleTerritoryRealignment(context: PluginContext): Promise<void> {
+    try {
+      this.jobs = context.getService('job') as IJobService | undefined;
+    } catch {
+      this.jobs = undefined;
+    }
+    if (!this.jobs) return;
+
+    await this.jobs.schedule(
+      TERRITORY_REALIGN_JOB,
+      { type: 'cron', expression: this.config.territoryRealignSchedule },
+      async ({ data }) => {
+        await this.realignTerritories((data as { objects?: string[] } | undefined)?.objects);
+      },
+    );
+  }
+
+  /**
+   * Re-run territory assignment for the given objects as a background job,
+   * or in the background of this process when no job service is available
+   */
+  private async requestTerritoryRealignment(objectNames: string[]): Promise<void> {
+    if (objectNames.length === 0) return;
+    if (this.jobs) {
+      await this.jobs.trigger(TERRITORY_REALIGN_JOB, { objects: objectNames });
+      return;
+    }
+    this.realignTerritories(objectNames).catch((error) =>
+      this.context?.logger.error('[Permissions Plugin] Territory realignment failed:', error),
+    );
+  }
+
+  /**
+   * Stamp the matching territories on new records of territory-managed objects
+   */
+  private applyTerritories(data: any): void {
+    const objectName = data.objectName ?? data.object;
+    const doc = data.doc ?? data.record;
+    if (!doc || doc.territories !== undefined) return;
+    if (!this.territories.getManagedObjects().includes(objectName)) return;
+    doc.territories = this.territories.assignRecord(objectName, doc);
+  }
+
+  /**
+   * Re-evaluate a record's territories after it was updated
+   */
+  private async reassignTerritories(data: any): Promise<void> {
+    const objectName = data?.object ?? data?.objectName;
+    const broker = (this.context as any)?.broker;
+    if (!broker || !data?.doc || data.id === undefined) return;
+    if (!this.territories.getManagedObjects().includes(objectName)) return;
+
+    const record = data.previous
+      ? { ...data.previous, ...data.doc }
+      : await broker.call('data.get', { object: objectName, id: data.id });
+    if (!record) return;
+    const territories = this.territories.assignRecord(objectName, record);
+    if (!sameMembers(record.territories, territories)) {
+      await broker.call('data.update', { object: objectName, id: data.id, doc: { territories } });
+    }
+  }
+
+  /**
+   * Re-run territory assignment rules over all records of the given objects
+   * (default: every object with assignment rules). Returns the number of
+   * records whose territories changed.
+   */
+  async realignTerritories(objectNames?: string[]): Promise<number> {
+    const broker = (this.context as any)?.broker;
+    if (!broker) return 0;
+
+    let changed = 0;
+    for (const objectName of objectNames ?? this.territories.getManagedObjects()) {
+      try {
+        const records: any[] =
+          (await broker.call('data.find', { object: objectName, query: {} })) ?? [];
+        for (const record of records) {
+          const territories = this.territories.assignRecord(objectName, record);
+          if (sameMembers(record.territories, territories)) continue;
+          await broker.call('data.update', {
+            object: objectName,
+            id: record._id ?? record.id,
+            doc: { territories },
+          });
+          changed++;
+        }
+      } catch (error: any) {
+        this.context?.logger.warn(
+          `[Permissions Plugin] Could not realign territories of ${objectName}: ${error?.message}`,
+        );
+      }
+    }
+
+    this.context?.logger.info(
+      `[Permissions Plugin] Territory realignment updated ${changed} record(s)`,
+    );
+    return changed;
+  }
+
+  /**
+   * Get the territory manager
+   */
+  getTerritoryManager(): TerritoryManager {
+    return this.territories;
+  }
+
+  /**
+   * Load permission set assignments and permission set groups
+   */
+  private async loadPermissionSetAssignments(): Promise<void> {
+    const broker = (this.context as any)?.broker;
+    if (!broker) return;
+
+    await this.loadPermissionSetGroups();
+    try {
+      const records: any[] =
+        (await broker.call('data.find', { object: 'permission_set_assignment', query: {} })) ?? [];
+      this.assignments.setAssignments(
+        records
+          .map((r) =>
+            toPermissionSetAssignment(
+              String(r._id ?? r.id),
+              r,
+              undefined,
+              this.permissionSetGroupIds,
+            ),
+          )
+          .filter((a): a is PermissionSetAssignment => !!a),
+      );
+    } catch (error: any) {
+      this.context?.logger.warn(
+        `[Permissions Plugin] Could not load permission set assignments: ${error?.message}`,
+      );
+    }
+  }
+
+  /**
+   * Load permission set groups from the `permission_set_group` object
+   */
+  private async loadPermissionSetGroups(): Promise<void> {
+    const broker = (this.context as any)?.broker;
+    if (!broker) return;
+
+    try {
+      const records: any[] =
+        (await broker.call('data.find', { object: 'permission_set_group', query: {} })) ?? [];
+      this.permissionSetGroupIds = new Map(records.map((r) => [String(r._id ?? r.id), r.name]));
+      this.assignments.setGroups(records.map(toPermissionSetGroup));
+    } catch (error: any) {
+      this.context?.logger.warn(
+        `[Permissions Plugin] Could not load permission set groups: ${error?.message}`,
+      );
+    }
+  }
+
+  /**
+   * Apply a `permission_set_assignment` create/update made through the data API
+   */
+  private syncPermissionSetAssignment(data: any): void {
+    if ((data?.object ?? data?.objectName) !== 'permission_set_assignment' || !data.doc) return;
+    const id = String(data.id ?? data.doc._id ?? data.doc.id);
+    const assignment = toPermissionSetAssignment(
+      id,
+      data.doc,
+      this.assignments.get(id),
+      this.permissionSetGroupIds,
+    );
+    if (assignment) this.assignments.put(assignment);
+  }
+
+  /**
+   * Register the assignment expiry job with the job service, and catch up
+   * on assignments that expired while the plugin was not running
+   */
+  private async scheduleAssignmentExpiry(): Promise<void> {
+    if (this.jobs) {
+      await this.jobs.schedule(
+        ASSIGNMENT_EXPIRY_JOB,
+        { type: 'cron', expression: this.config.assignmentExpirySchedule },
+        async () => {
+          await this.expireAssignments();
+        },
+      );
+    }
+    await this.expireAssignments();
+  }
+
+  /**
+   * Deactivate time-bound assignments past their expiry and record an
+   * `authz.permission_revoked` audit event for each. Expired assignments
+   * already grant nothing; this persists the change. Returns the
+   * deactivated assignments.
+   */
+  async expireAssignments(now: Date = new Date()): Promise<PermissionSetAssignment[]> {
+    const expired = this.assignments.getExpired(now);
+    const broker = (this.context as any)?.broker;
+
+    for (const assignment of expired) {
+      this.assignments.put({ ...assignment, isActive: false });
+      try {
+        await broker?.call('data.update', {
+          object: 'permission_set_assignment',
+          id: assignment.id,
+          doc: { is_active: false },
+        });
+        await this.context?.trigger('authz.permission_revoked', {
+          userId: 'system',
+          resource: `permission_set_assignment/${assignment.id}`,
+          reason: 'expired',
+          assignmentId: assignment.id,
+          permissionSet: assignment.permissionSetName,
+          permissionSetGroup: assignment.permissionSetGroupName,
+          assigneeType: assignment.assigneeType,
+          assigneeId: assignment.assigneeId,
+          expiresAt: assignment.expiresAt?.toISOString(),
+        });
+      } catch (error: any) {
+        this.context?.logger.warn(
+          `[Permissions Plugin] Could not expire assignment ${assignment.id}: ${error?.message}`,
+        );
+      }
+    }
+
+    if (expired.length > 0) {
+      this.context?.logger.info(
+        `[Permissions Plugin] Deactivated ${expired.length} expired permission set assignment(s)`,
+      );
+    }
+    return expired;
+  }
+
+  /**
+   * Get the permission set assignment manager
+   */
+  getAssignmentManager(): PermissionSetAssignmentManager {
+    return this.assignments;
+  }
+
+  /**
+   * Share a record with a user or group. Sharing again with the same
+   * recipient for the same reason updates the existing share.
+   */
+  async shareRecord(input: RecordShareInput): Promise<RecordShare> {
+    const before = this.recordShares.getShares(input.objectName, input.recordId);
+    const share = this.recordShares.grant(input);
+    const previous = before.find((s) => s.id === share.id);
+
+    const broker = (this.context as any)?.broker;
+    if (broker) {
+      try {
+        const doc = toRecordShareDoc(share);
+        if (previous) {
+          await broker.call('data.update', { object: 'record_share', id: share.id, doc });
+        } else {
+          await broker.call('data.create', {
+            object: 'record_share',
+            doc: { _id: share.id, ...doc },
+          });
+        }
+      } catch (error) {
+        if (previous) this.recordShares.put(previous);
+        else this.recordShares.revoke(share.id);
+        throw error;
+      }
+    }
+    return share;
+  }
+
+  /**
+   * Reject sharing changes on a record unless the caller owns it, can edit
+   * it, or may manage sharing on its object
+   */
+  private async checkShareAccess(
+    permissionContext: PermissionContext,
+    objectName: string,
+    recordId: string,
+  ): Promise<void> {
+    const record = await this.getRecord(objectName, recordId);
+    if (!record) {
+      const error = new Error(`Record ${recordId} not found`);
+      (error as any).statusCode = 404;
+      throw error;
+    }
+    if (record.owner === permissionContext.userId) return;
+    if (await this.engine.canManageSharing(permissionContext, objectName)) return;
+
+    const update = await this.engine.checkPermission(permissionContext, objectName, 'update');
+    if (update.allowed) {
+      const rls = this.rlsEvaluator.getOrgDefault(objectName)
+        ? this.rlsEvaluator.evaluate(permissionContext, objectName)
+        : undefined;
+      const editable = mergeFilters(update.filters ?? {}, rls?.writeFilters ?? rls?.filters ?? {});
+      if (matchesCriteria(record, editable)) return;
+    }
+
+    const error = new Error(
+      `User ${permissionContext.userId} cannot manage sharing of ${objectName}/${recordId}`,
+    );
+    (error as any).code = 'PERMISSION_DENIED';
+    (error as any).statusCode = 403;
+    throw error;
+  }
+
+  /**
+   * Revoke a record share. Returns the revoked share, if it existed.
+   */
+  async revokeShare(id: string): Promise<RecordShare | undefined> {
+    const share = this.recordShares.revoke(id);
+    const broker = (this.context as any)?.broker;
+    if (share && broker) {
+      try {
+        await broker.call('data.delete', { object: 'record_share', id });
+      } catch (error) {
+        this.recordShares.put(share);
+        throw error;
+      }
+    }
+    return share;
+  }
+
+  /**
+   * Shares of a single record
+   */
+  getRecordShares(objectName: string, recordId: string): RecordShare[] {
+    return this.recordShares.getShares(objectName, recordId);
+  }
+
+  /**
+   * Get the record share manager
+   */
+  getRecordShareManager(): RecordShareManager {
+    return this.recordShares;
+  }
+
+  /**
+   * Explain a permission decision: which profile granted or denied the
+   * object permission, how record-level security and tenant isolation
+   * shaped the injected filter, which fields are hidden and — given a
+   * record ID — whether that record passes the filter.
+   */
+  async explain(request: PermissionExplainRequest): Promise<PermissionExplanation> {
+    const { context: permissionContext, objectName, action, recordId } = request;
+    const trace: PermissionExplainStep[] = [];
+
+    // Object permission
+    const objectPermission = await this.engine.explainPermission(
+      permissionContext,
+      objectName,
+      action,
+    );
+    const grantedBy = objectPermission.profiles.filter((p) => p.allowed).map((p) => p.profile);
+    const assigned = objectPermission.assignedPermissionSets ?? [];
+    const describe = (t: (typeof assigned)[number]) =>
+      t.permissionSetGroup ? `${t.permissionSet} (group ${t.permissionSetGroup})` : t.permissionSet;
+    const grantedBySets = assigned.filter((t) => t.allowed && !t.muted).map(describe);
+    const mutedSets = assigned.filter((t) => t.allowed && t.muted).map(describe);
+    trace.push({
+      stage: 'object_permission',
+      outcome: !objectPermission.allowed
+        ? 'denied'
+        : objectPermission.filters
+          ? 'restricted'
+          : 'granted',
+      detail:
+        objectPermission.allowed && grantedBySets.length > 0
+          ? `Granted by assigned permission set(s) ${grantedBySets.join(', ')}`
+          : objectPermission.allowed && grantedBy.length > 0
+            ? `Granted by profile(s) ${grantedBy.join(', ')} in permission set ${objectPermission.permissionSet}`
+            : !objectPermission.allowed && mutedSets.length > 0
+              ? `${objectPermission.reason} (muted in ${mutedSets.join(', ')})`
+              : (objectPermission.reason ?? 'Granted'),
+    });
+
+    // Record-level security
+    const orgDefault = this.rlsEvaluator.getOrgDefault(objectName);
+    const rls = orgDefault ? this.rlsEvaluator.evaluate(permissionContext, objectName) : undefined;
+    trace.push(...explainRecordLevelSecurity(objectName, orgDefault, rls));
+
+    // Tenant isolation
+    const organizationId = permissionContext.organizationId;
+    trace.push(
+      !this.config.tenantIsolation
+        ? {
+            stage: 'tenant_isolation',
+            outcome: 'not_applicable',
+            detail: 'Tenant isolation is off',
+          }
+        : organizationId
+          ? {
+              stage: 'tenant_isolation',
+              outcome: 'restricted',
+              detail: `Scoped to organization ${organizationId} (${this.config.tenantField})`,
+            }
+          : {
+              stage: 'tenant_isolation',
+              outcome: 'not_applicable',
+              detail: 'No organization in context',
+            },
+    );
+
+    // The filter the data hooks would inject, from running them on an equivalent payload
+    const data: any = {
+      objectName,
+      userId: permissionContext.userId,
+      userProfiles: permissionContext.profiles,
+      roleName: permissionContext.roleName,
+      organizationId,
+      metadata: permissionContext.metadata,
+    };
+    if (action === 'read') {
+      await this.applyRecordLevelSecurity(data);
+      this.applyTenantFilter(data);
+    } else if (action !== 'create') {
+      try {
+        await this.checkDataPermission(data, action);
+      } catch {
+        // Denial is already part of the object permission step
+      }
+      if (action === 'delete') this.applyTenantFilter(data);
+    }
+    const filters = mergeFilters(data.filters, data.recordFilters ?? {});
+
+    // Field-level security
+    const fields = await this.engine.explainFieldPermissions(
+      permissionContext,
+      objectName,
+      request.fields,
+    );
+    const hiddenFields = fields.filter((f) => !f.read).map((f) => f.field);
+    trace.push(
+      fields.length === 0
+        ? { stage: 'field_permissions', outcome: 'not_applicable', detail: 'No field permissions' }
+        : hiddenFields.length > 0
+          ? {
+              stage: 'field_permissions',
+              outcome: 'restricted',
+              detail: `Hidden fields: ${hiddenFields.join(', ')}`,
+            }
+          : {
+              stage: 'field_permissions',
+              outcome: 'granted',
+              detail: `All ${fields.length} field(s) visible`,
+            },
+    );
+
+    // The record itself
+    let record: PermissionExplanation['record'];
+    if (recordId !== undefined) {
+      const doc = await this.getRecord(objectName, recordId);
+      record = {
+        found: !!doc,
+        visible: !!doc && objectPermission.allowed && matchesCriteria(doc, filters),
+      };
+      trace.push({
+        stage: 'record',
+        outcome: record.visible ? 'granted' : 'denied',
+        detail: !record.found
+          ? `Record ${recordId} not found`
+          : record.visible
+            ? `Record ${recordId} matches the injected filter`
+            : `Record ${recordId} does not match the injected filter`,
+      });
+    }
+
+    const allowed =
+      objectPermission.allowed && (rls?.hasAccess ?? true) && (record?.visible ?? true);
+    return {
+      userId: permissionContext.userId,
+      objectName,
+      action,
+      recordId,
+      allowed,
+      reason: trace.find((step) => step.outcome === 'denied')?.detail ?? 'Access granted',
+      objectPermission,
+      orgDefault,
+      rls,
+      fields,
+      hiddenFields,
+      filters,
+      record,
+      trace,
+    };
+  }
+
+  /**
+   * Permission context of a user, built from their `user` record and the
+   * role hierarchy rather than from anything the caller sends
+   */
+  private async getUserContext(userId: string): Promise<PermissionContext | undefined> {
+    const user = await this.getRecord('user', userId);
+    if (!user) return undefined;
+    return {
+      userId,
+      organizationId: user.organization_id ?? user.organizationId,
+      profiles: user.profiles ?? (user.profile ? [user.profile] : []),
+      roleName: this.userRoles.get(userId) ?? this.toRoleName(user[this.config.userRoleField!]),
+    };
+  }
+
+  /**
+   * Fetch a record for explain, or null when it does not exist
+   */
+  private async getRecord(objectName: string, id: string): Promise<Record<string, any> | null> {
+    const broker = (this.context as any)?.broker;
+    if (!broker) return null;
+    try {
+      return (await broker.call('data.get', { object: objectName, id })) ?? null;
+    } catch {
+      return null;
+    }
   }
 
   /**
@@ -413,6 +1496,13 @@ export class PermissionsPlugin implements Plugin {
     return this.sharingEngine;
   }
 
+  /**
+   * Get the role hierarchy
+   */
+  getRoleHierarchy(): RoleHierarchy {
+    return this.roleHierarchy;
+  }
+
   /**
    * Get the RLS evaluator
    */
@@ -510,6 +1600,9 @@ export class PermissionsPlugin implements Plugin {
     this.engine.clearCache();
     this.sharingEngine.clear();
     this.rlsEvaluator.clear();
+    this.roleHierarchy.clear();
+    this.recordShares.clear();
+    this.territories.clear();
     await this.storage.clear();
     this.context?.logger.info('[Permissions Plugin] Destroyed');
 
@@ -522,6 +1615,192 @@ export class PermissionsPlugin implements Plugin {
   }
 }
 
+/**
+ * Combine two query filters so both must match
+ */
+function mergeFilters(
+  existing: Record<string, any> | undefined,
+  filters: Record<string, any>,
+): Record<string, any> {
+  if (!existing || Object.keys(existing).length === 0) return filters;
+  if (Object.keys(filters).length === 0) return existing;
+  return { $and: [existing, filters] };
+}
+
+/**
+ * Permission context of the authenticated user of an HTTP request
+ */
+function toRequestContext(user: any): PermissionContext | undefined {
+  if (!user?.id) return undefined;
+  return {
+    userId: String(user.id),
+    organizationId: user.organizationId,
+    profiles: user.profiles ?? (user.profile ? [user.profile] : []),
+    roleName: user.roleName ?? user.role,
+    metadata: user.groups ? { groups: user.groups } : undefined,
+  };
+}
+
+/**
+ * Map a `record_share` document (or a partial update of one) to a RecordShare
+ */
+function toRecordShare(id: string, doc: any, base?: RecordShare): RecordShare | undefined {
+  const objectName = doc.object_name ?? base?.objectName;
+  const recordId = doc.record_id ?? base?.recordId;
+  const sharedWith = doc.shared_with ?? base?.sharedWith;
+  if (!objectName || recordId === undefined || !sharedWith) return undefined;
+  return {
+    id,
+    objectName,
+    recordId: String(recordId),
+    sharedWithType: doc.shared_with_type ?? base?.sharedWithType ?? 'user',
+    sharedWith,
+    accessLevel: doc.access_level ?? base?.accessLevel ?? 'read',
+    reason: doc.reason ?? base?.reason ?? 'manual',
+    grantedBy: doc.granted_by ?? base?.grantedBy,
+    grantedAt: doc.granted_at ? new Date(doc.granted_at) : base?.grantedAt,
+  };
+}
+
+/**
+ * Map a `permission_set_assignment` document, filling missing fields from a
+ * previous version (for partial updates). Permission set lookups hold the
+ * set's name, which is its record ID; group lookups are resolved by ID.
+ */
+function toPermissionSetAssignment(
+  id: string,
+  doc: any,
+  base?: PermissionSetAssignment,
+  groupNames: Map<string, string> = new Map(),
+): PermissionSetAssignment | undefined {
+  const permissionSetName = doc.permission_set ?? base?.permissionSetName;
+  const permissionSetGroupName = doc.permission_set_group
+    ? (groupNames.get(String(doc.permission_set_group)) ?? doc.permission_set_group)
+    : base?.permissionSetGroupName;
+  const assigneeId = doc.assignee_id ?? base?.assigneeId;
+  if ((!permissionSetName && !permissionSetGroupName) || !assigneeId) return undefined;
+  return {
+    id,
+    permissionSetName: permissionSetName ?? undefined,
+    permissionSetGroupName: permissionSetGroupName ?? undefined,
+    assigneeId,
+    assigneeType: doc.assignee_type ?? base?.assigneeType ?? 'user',
+    isActive: doc.is_active ?? base?.isActive,
+    assignedBy: doc.assigned_by ?? base?.assignedBy,
+    assignedAt: doc.assigned_at ? new Date(doc.assigned_at) : base?.assignedAt,
+    expiresAt:
+      'expires_at' in doc ? (doc.expires_at ? new Date(doc.expires_at) : null) : base?.expiresAt,
+  };
+}
+
+/**
+ * Map a `permission_set_group` document
+ */
+function toPermissionSetGroup(doc: any): PermissionSetGroup {
+  const permissionSets =
+    typeof doc.permission_sets === 'string' ? JSON.parse(doc.permission_sets) : doc.permission_sets;
+  return {
+    name: doc.name,
+    label: doc.label,
+    description: doc.description,
+    permissionSets: Array.isArray(permissionSets) ? permissionSets : [],
+    mutingPermissionSet: doc.muting_permission_set ?? undefined,
+    isActive: doc.is_active,
+  };
+}
+
+/**
+ * Map a RecordShare to its `record_share` document
+ */
+function toRecordShareDoc(share: RecordShare): Record<string, any> {
+  return {
+    object_name: share.objectName,
+    record_id: share.recordId,
+    shared_with_type: share.sharedWithType,
+    shared_with: share.sharedWith,
+    access_level: share.accessLevel,
+    reason: share.reason,
+    granted_by: share.grantedBy,
+    granted_at: share.grantedAt?.toISOString(),
+  };
+}
+
+/**
+ * Trace steps for the record-level security of an object
+ */
+function explainRecordLevelSecurity(
+  objectName: string,
+  orgDefault: OrganizationDefault | undefined,
+  rls: RLSEvaluationResult | undefined,
+): PermissionExplainStep[] {
+  if (!orgDefault || !rls) {
+    return [
+      {
+        stage: 'org_default',
+        outcome: 'not_applicable',
+        detail: `No organization-wide default for ${objectName}; record-level security is off`,
+      },
+    ];
+  }
+
+  const extension = (
+    stage: PermissionExplainStep['stage'],
+    values: string[] | undefined,
+    granted: string,
+    none: string,
+  ): PermissionExplainStep =>
+    values && values.length > 0
+      ? { stage, outcome: 'granted', detail: `${granted}: ${values.join(', ')}` }
+      : { stage, outcome: 'not_applicable', detail: none };
+
+  return [
+    {
+      stage: 'org_default',
+      outcome: orgDefault.internalAccess === 'public_read_write' ? 'granted' : 'restricted',
+      detail: `Organization-wide default is ${orgDefault.internalAccess} (effective access: ${rls.accessLevel})`,
+    },
+    extension(
+      'role_hierarchy',
+      rls.subordinateRoles,
+      'Records owned by subordinate roles',
+      'No subordinate roles',
+    ),
+    extension(
+      'sharing_rules',
+      rls.appliedRules,
+      'Matched sharing rules',
+      'No sharing rules matched',
+    ),
+    extension(
+      'record_shares',
+      rls.sharedRecordIds,
+      'Records shared with the user',
+      'No records shared with the user',
+    ),
+    extension('territories', rls.territories, 'Records in territories', 'No territory access'),
+  ];
+}
+
+/**
+ * Map the `assignment_rules` JSON of a `territory` record
+ */
+function toAssignmentRules(value: any): TerritoryAssignmentRule[] {
+  const rules = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!Array.isArray(rules)) return [];
+  return rules.map((rule) => ({
+    objectName: rule.object ?? rule.objectName,
+    criteria: rule.criteria ?? {},
+  }));
+}
+
+/**
+ * Whether two lists hold the same values, ignoring order
+ */
+function sameMembers(a: unknown, b: string[]): boolean {
+  if (!Array.isArray(a) || a.length !== b.length) return false;
+  return b.every((value) => a.includes(value));
+}
+
 /**
  * Helper function to access the permissions API from kernel
  */
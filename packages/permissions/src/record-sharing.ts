@@ -0,0 +1,195 @@
+/**
+ * Record Sharing for ObjectOS
+ *
+ * Keeps explicit per-record shares (the `record_share` object) in memory,
+ * indexed by object, so record-level security can add the records shared
+ * with a user — directly or through one of their groups — to its filters.
+ *
+ * Each share has a reason: `manual` shares are granted by users, while
+ * `rule`, `team` and `territory` shares are maintained by those features.
+ *
+ * @see RecordShare type in ./types.ts
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  RecordShare,
+  RecordShareAccessLevel,
+  RecordShareReason,
+  RecordShareTargetType,
+  PermissionContext,
+} from './types.js';
+
+const ACCESS_LEVELS: RecordShareAccessLevel[] = ['read', 'read_write'];
+const REASONS: RecordShareReason[] = ['manual', 'rule', 'team', 'territory'];
+const TARGET_TYPES: RecordShareTargetType[] = ['user', 'group'];
+
+/**
+ * Input for granting a share
+ */
+export interface RecordShareInput {
+  objectName: string;
+  recordId: string;
+  /** Defaults to `user` */
+  sharedWithType?: RecordShareTargetType;
+  sharedWith: string;
+  /** Defaults to `read` */
+  accessLevel?: RecordShareAccessLevel;
+  /** Defaults to `manual` */
+  reason?: RecordShareReason;
+  grantedBy?: string;
+}
+
+/**
+ * Records of one object shared with a user
+ */
+export interface RecordShareAccess {
+  /** All shared record IDs */
+  recordIds: string[];
+  /** Shared record IDs the user may also edit */
+  writeRecordIds: string[];
+}
+
+/**
+ * Record Share Manager
+ */
+export class RecordShareManager {
+  private shares: Map<string, RecordShare> = new Map();
+  /** Object name → IDs of the shares on its records */
+  private byObject: Map<string, Set<string>> = new Map();
+
+  /**
+   * Replace all shares
+   */
+  setShares(shares: RecordShare[]): void {
+    this.clear();
+    for (const share of shares) this.put(share);
+  }
+
+  /**
+   * Grant access to a record. Granting again to the same recipient for the
+   * same reason updates the existing share instead of adding another.
+   */
+  grant(input: RecordShareInput): RecordShare {
+    const sharedWithType = input.sharedWithType ?? 'user';
+    const accessLevel = input.accessLevel ?? 'read';
+    const reason = input.reason ?? 'manual';
+    validate('access level', accessLevel, ACCESS_LEVELS);
+    validate('reason', reason, REASONS);
+    validate('recipient type', sharedWithType, TARGET_TYPES);
+
+    const existing = this.getShares(input.objectName, input.recordId).find(
+      (s) =>
+        s.sharedWithType === sharedWithType &&
+        s.sharedWith === input.sharedWith &&
+        s.reason === reason,
+    );
+
+    const share: RecordShare = {
+      id: existing?.id ?? randomUUID(),
+      objectName: input.objectName,
+      recordId: String(input.recordId),
+      sharedWithType,
+      sharedWith: input.sharedWith,
+      accessLevel,
+      reason,
+      grantedBy: input.grantedBy ?? existing?.grantedBy,
+      grantedAt: new Date(),
+    };
+    this.put(share);
+    return share;
+  }
+
+  /**
+   * Add or replace a share as-is (e.g. when syncing from storage)
+   */
+  put(share: RecordShare): void {
+    const previous = this.shares.get(share.id);
+    if (previous) this.byObject.get(previous.objectName)?.delete(share.id);
+
+    this.shares.set(share.id, share);
+    if (!this.byObject.has(share.objectName)) {
+      this.byObject.set(share.objectName, new Set());
+    }
+    this.byObject.get(share.objectName)!.add(share.id);
+  }
+
+  /**
+   * Remove a share. Returns the removed share, if any.
+   */
+  revoke(id: string): RecordShare | undefined {
+    const share = this.shares.get(id);
+    if (!share) return undefined;
+    this.shares.delete(id);
+    this.byObject.get(share.objectName)?.delete(id);
+    return share;
+  }
+
+  /**
+   * Remove the shares of a record, optionally only those with the given reasons
+   */
+  revokeForRecord(
+    objectName: string,
+    recordId: string,
+    reasons?: RecordShareReason[],
+  ): RecordShare[] {
+    const removed = this.getShares(objectName, recordId).filter(
+      (share) => !reasons || reasons.includes(share.reason),
+    );
+    for (const share of removed) this.revoke(share.id);
+    return removed;
+  }
+
+  get(id: string): RecordShare | undefined {
+    return this.shares.get(id);
+  }
+
+  /**
+   * Shares of a single record
+   */
+  getShares(objectName: string, recordId: string): RecordShare[] {
+    return this.getObjectShares(objectName).filter((share) => share.recordId === String(recordId));
+  }
+
+  /**
+   * Records of an object shared with the user or one of their groups
+   * (`metadata.groups`). A record shared more than once gets the highest
+   * access level of its shares.
+   */
+  evaluate(context: PermissionContext, objectName: string): RecordShareAccess {
+    const groups = (context.metadata?.groups || []) as string[];
+    const recordIds = new Set<string>();
+    const writeRecordIds = new Set<string>();
+
+    for (const share of this.getObjectShares(objectName)) {
+      const matches =
+        share.sharedWithType === 'user'
+          ? share.sharedWith === context.userId
+          : groups.includes(share.sharedWith);
+      if (!matches) continue;
+      recordIds.add(share.recordId);
+      if (share.accessLevel === 'read_write') writeRecordIds.add(share.recordId);
+    }
+
+    return { recordIds: Array.from(recordIds), writeRecordIds: Array.from(writeRecordIds) };
+  }
+
+  clear(): void {
+    this.shares.clear();
+    this.byObject.clear();
+  }
+
+  private getObjectShares(objectName: string): RecordShare[] {
+    const ids = this.byObject.get(objectName) ?? new Set<string>();
+    return Array.from(ids, (id) => this.shares.get(id)!);
+  }
+}
+
+function validate<T extends string>(name: string, value: T, allowed: T[]): void {
+  if (!allowed.includes(value)) {
+    const error = new Error(`Invalid ${name}: ${value} (expected ${allowed.join(', ')})`);
+    (error as any).code = 'INVALID_RECORD_SHARE';
+    (error as any).statusCode = 400;
+    throw error;
+  }
+}
@@ -8,7 +8,11 @@
  * 1. Check OWD — if public_read_write, grant full access
  * 2. Check OWD — if public_read_only, grant read access
  * 3. Check OWD — if private, restrict to owner-only
- * 4. Apply sharing rules — extend access beyond OWD
+ * 4. Apply the role hierarchy — managers see records owned by
+ *    subordinate roles (when the OWD grants access using hierarchy)
+ * 5. Apply sharing rules — extend access beyond OWD
+ * 6. Add records shared explicitly with the user (`record_share`)
+ * 7. Add records in the user's territories and their descendants
  */
 
 import type {
@@ -18,6 +22,37 @@ import type {
   OrganizationDefault,
 } from './types.js';
 import { SharingRuleEngine } from './sharing-rules.js';
+import type { SharingRuleResult } from './sharing-rules.js';
+import type { RoleHierarchy } from './role-hierarchy.js';
+import type { RecordShareManager } from './record-sharing.js';
+import type { TerritoryManager } from './territories.js';
+
+/**
+ * Access granted through the role hierarchy
+ */
+interface HierarchyAccess {
+  roles: string[];
+  filter: Record<string, any>;
+  accessLevel: 'read_only' | 'read_write';
+}
+
+/**
+ * Access granted through explicit record shares
+ */
+interface ShareAccess {
+  recordIds: string[];
+  filter: Record<string, any>;
+  writeFilter?: Record<string, any>;
+}
+
+/**
+ * Access granted through territory membership
+ */
+interface TerritoryAccess {
+  territories: string[];
+  filter: Record<string, any>;
+  writeFilter?: Record<string, any>;
+}
 
 /**
  * RLS Evaluator
@@ -27,10 +62,21 @@ import { SharingRuleEngine } from './sharing-rules.js';
  */
 export class RLSEvaluator {
   private sharingEngine: SharingRuleEngine;
+  private roleHierarchy?: RoleHierarchy;
+  private recordShares?: RecordShareManager;
+  private territories?: TerritoryManager;
   private orgDefaults: Map<string, OrganizationDefault> = new Map();
 
-  constructor(sharingEngine: SharingRuleEngine) {
+  constructor(
+    sharingEngine: SharingRuleEngine,
+    roleHierarchy?: RoleHierarchy,
+    recordShares?: RecordShareManager,
+    territories?: TerritoryManager,
+  ) {
     this.sharingEngine = sharingEngine;
+    this.roleHierarchy = roleHierarchy;
+    this.recordShares = recordShares;
+    this.territories = territories;
   }
 
   /**
@@ -47,6 +93,13 @@ export class RLSEvaluator {
     return this.orgDefaults.get(objectName);
   }
 
+  /**
+   * Objects with an organization-wide default
+   */
+  getManagedObjects(): string[] {
+    return Array.from(this.orgDefaults.keys());
+  }
+
   /**
    * Apply a full RLSConfig — sets OWD and loads sharing rules
    */
@@ -64,6 +117,10 @@ export class RLSEvaluator {
    */
   evaluate(context: PermissionContext, objectName: string): RLSEvaluationResult {
     const orgDefault = this.orgDefaults.get(objectName);
+    const hierarchy = this.evaluateHierarchy(context, orgDefault);
+    const shares = this.evaluateShares(context, objectName);
+    const territory = this.evaluateTerritories(context, objectName);
+    context = this.withTerritories(this.withHierarchyPath(context));
 
     // If no OWD defined, default to private (most restrictive)
     const accessLevel = orgDefault?.internalAccess ?? 'private';
@@ -82,41 +139,63 @@ export class RLSEvaluator {
     if (accessLevel === 'public_read_only') {
       // Sharing rules can upgrade to read_write
       const sharingResult = this.sharingEngine.evaluate(context, objectName);
+      const writeFilters = this.writeFilters(context, hierarchy, shares, territory, sharingResult);
       if (sharingResult.granted && sharingResult.accessLevel === 'read_write') {
         return {
           hasAccess: true,
           accessLevel: 'read_write',
           filters: sharingResult.filters,
+          writeFilters,
           appliedRules: sharingResult.matchedRules.map((r) => r.name),
+          subordinateRoles: hierarchy?.roles,
+          sharedRecordIds: shares?.recordIds,
+          territories: territory?.territories,
         };
       }
       return {
         hasAccess: true,
         accessLevel: 'read_only',
         filters: {},
+        writeFilters,
         appliedRules: [],
+        subordinateRoles: hierarchy?.roles,
+        sharedRecordIds: shares?.recordIds,
+        territories: territory?.territories,
       };
     }
 
-    // 3. Private — owner-only baseline, sharing rules can extend
+    // 3. Private — owner-only baseline; the role hierarchy, sharing rules,
+    //    record shares and territories can extend it
     const sharingResult = this.sharingEngine.evaluate(context, objectName);
+    const ownerFilter = { owner: context.userId };
+    const writeFilters = this.writeFilters(context, hierarchy, shares, territory, sharingResult);
+    const extensions = [
+      ...(hierarchy ? [hierarchy.filter] : []),
+      ...(sharingResult.granted ? sharingResult.filters.$or || [sharingResult.filters] : []),
+      ...(shares ? [shares.filter] : []),
+      ...(territory ? [territory.filter] : []),
+    ];
 
-    if (sharingResult.granted) {
-      // Merge owner filter with sharing rule filters
-      const ownerFilter = { owner: context.userId };
-      const combinedFilters: Record<string, any> = {
-        $or: [ownerFilter, ...(sharingResult.filters.$or || [sharingResult.filters])],
-      };
-
+    if (extensions.length > 0) {
       return {
         hasAccess: true,
-        accessLevel: sharingResult.accessLevel === 'read_write' ? 'read_write' : 'read_only',
-        filters: combinedFilters,
+        accessLevel:
+          sharingResult.accessLevel === 'read_write' ||
+          hierarchy?.accessLevel === 'read_write' ||
+          shares?.writeFilter ||
+          territory?.writeFilter
+            ? 'read_write'
+            : 'read_only',
+        filters: { $or: [ownerFilter, ...extensions] },
+        writeFilters,
         appliedRules: sharingResult.matchedRules.map((r) => r.name),
+        subordinateRoles: hierarchy?.roles,
+        sharedRecordIds: shares?.recordIds,
+        territories: territory?.territories,
       };
     }
 
-    // No sharing rules matched — restrict to owner-only
+    // Nothing extends access — restrict to owner-only
     return {
       hasAccess: true,
       accessLevel: 'owner_only',
@@ -125,6 +204,104 @@ export class RLSEvaluator {
     };
   }
 
+  /**
+   * Records owned by subordinate roles, when the OWD grants access using
+   * the role hierarchy and the user's role has subordinates
+   */
+  private evaluateHierarchy(
+    context: PermissionContext,
+    orgDefault: OrganizationDefault | undefined,
+  ): HierarchyAccess | undefined {
+    if (!this.roleHierarchy || !context.roleName) return undefined;
+    if (orgDefault?.grantAccessUsingHierarchy === false) return undefined;
+
+    const roles = this.roleHierarchy.getSubordinateRoles(context.roleName);
+    if (roles.length === 0) return undefined;
+    return {
+      roles,
+      filter: { owner_role: { $in: roles } },
+      accessLevel: orgDefault?.hierarchyAccessLevel ?? 'read_write',
+    };
+  }
+
+  /**
+   * Records shared explicitly with the user or one of their groups
+   */
+  private evaluateShares(context: PermissionContext, objectName: string): ShareAccess | undefined {
+    const access = this.recordShares?.evaluate(context, objectName);
+    if (!access || access.recordIds.length === 0) return undefined;
+    return {
+      recordIds: access.recordIds,
+      filter: { _id: { $in: access.recordIds } },
+      writeFilter:
+        access.writeRecordIds.length > 0 ? { _id: { $in: access.writeRecordIds } } : undefined,
+    };
+  }
+
+  /**
+   * Records assigned to the user's territories or their descendants, for
+   * objects with territory assignment rules
+   */
+  private evaluateTerritories(
+    context: PermissionContext,
+    objectName: string,
+  ): TerritoryAccess | undefined {
+    if (!this.territories?.getManagedObjects().includes(objectName)) return undefined;
+    const access = this.territories.evaluate(context.userId);
+    if (access.territories.length === 0) return undefined;
+    return {
+      territories: access.territories,
+      filter: { territories: { $in: access.territories } },
+      writeFilter:
+        access.writeTerritories.length > 0
+          ? { territories: { $in: access.writeTerritories } }
+          : undefined,
+    };
+  }
+
+  /**
+   * Fill in the user's territories so territory sharing rules can match
+   */
+  private withTerritories(context: PermissionContext): PermissionContext {
+    const memberOf = this.territories?.getUserTerritories(context.userId) ?? [];
+    if (memberOf.length === 0 || context.metadata?.territories) return context;
+    return { ...context, metadata: { ...context.metadata, territories: memberOf } };
+  }
+
+  /**
+   * Fill in the user's hierarchy path so `role_and_subordinates` sharing
+   * rules can match against the materialized path
+   */
+  private withHierarchyPath(context: PermissionContext): PermissionContext {
+    const path = context.roleName
+      ? this.roleHierarchy?.getRole(context.roleName)?.hierarchyPath
+      : undefined;
+    if (!path || context.metadata?.hierarchyPath) return context;
+    return { ...context, metadata: { ...context.metadata, hierarchyPath: path } };
+  }
+
+  /**
+   * Records the user may edit: their own, subordinates' (when the
+   * hierarchy grants read_write), those of read_write sharing rules, those
+   * shared with read_write and those in read_write territories
+   */
+  private writeFilters(
+    context: PermissionContext,
+    hierarchy: HierarchyAccess | undefined,
+    shares: ShareAccess | undefined,
+    territory: TerritoryAccess | undefined,
+    sharingResult: SharingRuleResult,
+  ): Record<string, any> {
+    const ownerFilter = { owner: context.userId };
+    const entries = [
+      ...(hierarchy?.accessLevel === 'read_write' ? [hierarchy.filter] : []),
+      ...sharingResult.writeFilters,
+      ...(shares?.writeFilter ? [shares.writeFilter] : []),
+      ...(territory?.writeFilter ? [territory.writeFilter] : []),
+    ];
+    return entries.length > 0 ? { $or: [ownerFilter, ...entries] } : ownerFilter;
+  }
+
   /**
    * Clear all OWD registrations
    */
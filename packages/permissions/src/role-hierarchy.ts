@@ -0,0 +1,139 @@
+/**
+ * Role Hierarchy for ObjectOS
+ *
+ * Keeps the `role` tree in memory with materialized paths
+ * (`/executive/sales_director/sales_manager`) so subordinate lookups are
+ * prefix matches. Paths are recomputed for a whole subtree when a role is
+ * re-parented; the changed roles are returned so callers can persist the
+ * new `hierarchy_path` / `hierarchy_level` values.
+ *
+ * @see Role type in ./types.ts
+ */
+
+import type { Role } from './types.js';
+
+/**
+ * Role Hierarchy
+ */
+export class RoleHierarchy {
+  private roles: Map<string, Role> = new Map();
+
+  /**
+   * Replace all roles. Returns the roles whose computed path changed.
+   */
+  setRoles(roles: Role[]): Role[] {
+    return this.update(() => {
+      this.roles = new Map(roles.map((role) => [role.name, { ...role }]));
+    });
+  }
+
+  /**
+   * Add or update a role (including re-parenting). Returns the roles whose
+   * computed path changed — the role itself and its whole subtree on a move.
+   */
+  upsertRole(role: Role): Role[] {
+    if (role.parentRole && this.isAncestorOrSelf(role.name, role.parentRole)) {
+      throw new Error(
+        `Role ${role.name} cannot be moved under its own subordinate ${role.parentRole}`,
+      );
+    }
+    return this.update(() => {
+      this.roles.set(role.name, { ...role });
+    });
+  }
+
+  /**
+   * Remove a role. Its children move up to its parent.
+   * Returns the roles whose computed path changed.
+   */
+  removeRole(name: string): Role[] {
+    const removed = this.roles.get(name);
+    if (!removed) return [];
+    return this.update(() => {
+      this.roles.delete(name);
+      for (const role of this.roles.values()) {
+        if (role.parentRole === name) role.parentRole = removed.parentRole;
+      }
+    });
+  }
+
+  getRole(name: string): Role | undefined {
+    return this.roles.get(name);
+  }
+
+  getRoles(): Role[] {
+    return Array.from(this.roles.values());
+  }
+
+  /**
+   * Names of all active roles below a role (not including the role itself)
+   */
+  getSubordinateRoles(name: string): string[] {
+    const role = this.roles.get(name);
+    if (!role?.hierarchyPath) return [];
+    const prefix = `${role.hierarchyPath}/`;
+    return this.getRoles()
+      .filter((r) => r.isActive !== false && r.hierarchyPath?.startsWith(prefix))
+      .map((r) => r.name);
+  }
+
+  /**
+   * Whether `name` is below `ancestor` in the hierarchy
+   */
+  isSubordinate(name: string, ancestor: string): boolean {
+    return name !== ancestor && this.isAncestorOrSelf(ancestor, name);
+  }
+
+  clear(): void {
+    this.roles.clear();
+  }
+
+  private isAncestorOrSelf(ancestor: string, name: string): boolean {
+    const seen = new Set<string>();
+    let current: string | null | undefined = name;
+    while (current && !seen.has(current)) {
+      if (current === ancestor) return true;
+      seen.add(current);
+      current = this.roles.get(current)?.parentRole;
+    }
+    return false;
+  }
+
+  /**
+   * Apply a change and recompute paths. A role counts as changed when its
+   * computed path differs from the one it had (or was given) before.
+   */
+  private update(change: () => void): Role[] {
+    change();
+    const before = new Map(
+      this.getRoles().map((role) => [role.name, `${role.hierarchyPath}|${role.hierarchyLevel}`]),
+    );
+    this.recompute();
+    return this.getRoles().filter(
+      (role) => before.get(role.name) !== `${role.hierarchyPath}|${role.hierarchyLevel}`,
+    );
+  }
+
+  /**
+   * Recompute materialized paths top-down. Roles whose parent is unknown
+   * are treated as roots; roles caught in a cycle get no path.
+   */
+  private recompute(): void {
+    const children = new Map<string | null, Role[]>();
+    for (const role of this.roles.values()) {
+      const parent = role.parentRole && this.roles.has(role.parentRole) ? role.parentRole : null;
+      children.set(parent, [...(children.get(parent) ?? []), role]);
+      role.hierarchyPath = undefined;
+      role.hierarchyLevel = undefined;
+    }
+
+    const visit = (parentPath: string, level: number, parent: string | null) => {
+      for (const role of children.get(parent) ?? []) {
+        role.hierarchyPath = `${parentPath}/${role.name}`;
+        role.hierarchyLevel = level;
+        visit(role.hierarchyPath, level + 1, role.name);
+      }
+    };
+    visit('', 0, null);
+  }
+}
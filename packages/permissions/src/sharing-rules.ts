@@ -21,6 +21,8 @@ export interface SharingRuleResult {
   matchedRules: SharingRule[];
   /** Additional record filters to apply */
   filters: Record<string, any>;
+  /** Filters of the matched rules that grant read_write */
+  writeFilters: Array<Record<string, any>>;
 }
 
 /**
@@ -88,6 +90,7 @@ export class SharingRuleEngine {
     const matchedRules: SharingRule[] = [];
     let highestAccess: SharingAccessLevel | undefined;
     const filters: Record<string, any> = {};
+    const writeFilters: Array<Record<string, any>> = [];
 
     for (const rule of activeRules) {
       const isMatch = this.matchesRule(rule, context);
@@ -100,14 +103,21 @@ export class SharingRuleEngine {
         }
 
         // Build filters based on rule type
+        let ruleFilter: Record<string, any> | undefined;
         if (rule.type === 'owner_based' && rule.ownedByValues) {
           // Owner-based: records owned by users in the specified groups
-          filters.$or = filters.$or || [];
-          filters.$or.push({ owner_role: { $in: rule.ownedByValues } });
+          ruleFilter = { owner_role: { $in: rule.ownedByValues } };
         } else if (rule.type === 'criteria_based' && rule.criteria) {
           // Criteria-based: records matching the criteria
+          ruleFilter = rule.criteria;
+        } else if (rule.type === 'territory_based' && rule.ownedByValues) {
+          // Territory-based: records assigned to the specified territories
+          ruleFilter = { territories: { $in: rule.ownedByValues } };
+        }
+        if (ruleFilter) {
           filters.$or = filters.$or || [];
-          filters.$or.push(rule.criteria);
+          filters.$or.push(ruleFilter);
+          if (rule.accessLevel === 'read_write') writeFilters.push(ruleFilter);
         }
       }
     }
@@ -117,6 +127,7 @@ export class SharingRuleEngine {
       accessLevel: highestAccess,
       matchedRules,
       filters,
+      writeFilters,
     };
   }
 
@@ -139,7 +150,8 @@ export class SharingRuleEngine {
         {
           const hierarchyPath = metadata?.hierarchyPath as string | undefined;
           if (hierarchyPath) {
-            return rule.sharedWithValues.some((targetRole) => hierarchyPath.includes(targetRole));
+            const ancestors = hierarchyPath.split('/');
+            return rule.sharedWithValues.some((targetRole) => ancestors.includes(targetRole));
           }
         }
         return false;
@@ -0,0 +1,225 @@
+/**
+ * Territory Management for ObjectOS
+ *
+ * Keeps territory models, their territory trees and user membership in
+ * memory. Only the `active` model counts: its assignment rules decide
+ * which territories a record belongs to (stamped on the record's
+ * `territories` field), and its membership decides which territories a
+ * user sees records of — their own territories and every territory below.
+ *
+ * @see Territory / TerritoryModel types in ./types.ts
+ */
+
+import type { Territory, TerritoryModel, TerritoryMember, SharingAccessLevel } from './types.js';
+
+/**
+ * Territories a user can see records of
+ */
+export interface TerritoryAccess {
+  /** The user's own territories */
+  memberOf: string[];
+  /** Their territories and all descendants */
+  territories: string[];
+  /** Territories whose records the user may also edit */
+  writeTerritories: string[];
+}
+
+/**
+ * Territory Manager
+ */
+export class TerritoryManager {
+  private models: Map<string, TerritoryModel> = new Map();
+  private territories: Map<string, Territory> = new Map();
+  /** User ID → territory names */
+  private members: Map<string, Set<string>> = new Map();
+
+  setModels(models: TerritoryModel[]): void {
+    this.models = new Map(models.map((model) => [model.name, { ...model }]));
+  }
+
+  setTerritories(territories: Territory[]): void {
+    this.territories = new Map(territories.map((t) => [t.name, { ...t }]));
+  }
+
+  setMembers(members: TerritoryMember[]): void {
+    this.members.clear();
+    for (const member of members) this.addMember(member);
+  }
+
+  addMember(member: TerritoryMember): void {
+    if (!this.members.has(member.userId)) {
+      this.members.set(member.userId, new Set());
+    }
+    this.members.get(member.userId)!.add(member.territory);
+  }
+
+  removeMember(member: TerritoryMember): void {
+    this.members.get(member.userId)?.delete(member.territory);
+  }
+
+  /**
+   * The model that currently assigns records and grants access
+   */
+  getActiveModel(): TerritoryModel | undefined {
+    return Array.from(this.models.values()).find((model) => model.status === 'active');
+  }
+
+  getTerritory(name: string): Territory | undefined {
+    return this.territories.get(name);
+  }
+
+  /**
+   * Active territories of the active model
+   */
+  getTerritories(): Territory[] {
+    const model = this.getActiveModel();
+    if (!model) return [];
+    return Array.from(this.territories.values()).filter(
+      (t) => t.model === model.name && t.isActive !== false,
+    );
+  }
+
+  /**
+   * Names of all active territories below a territory (not including itself)
+   */
+  getDescendants(name: string): string[] {
+    const children = new Map<string, string[]>();
+    for (const territory of this.getTerritories()) {
+      if (!territory.parentTerritory) continue;
+      children.set(territory.parentTerritory, [
+        ...(children.get(territory.parentTerritory) ?? []),
+        territory.name,
+      ]);
+    }
+
+    const descendants: string[] = [];
+    const visit = (parent: string) => {
+      for (const child of children.get(parent) ?? []) {
+        if (descendants.includes(child)) continue;
+        descendants.push(child);
+        visit(child);
+      }
+    };
+    visit(name);
+    return descendants;
+  }
+
+  /**
+   * Active territories the user is a member of
+   */
+  getUserTerritories(userId: string): string[] {
+    const active = new Set(this.getTerritories().map((t) => t.name));
+    return Array.from(this.members.get(userId) ?? []).filter((name) => active.has(name));
+  }
+
+  /**
+   * Objects with at least one assignment rule in the active model
+   */
+  getManagedObjects(): string[] {
+    const objects = new Set<string>();
+    for (const territory of this.getTerritories()) {
+      for (const rule of territory.assignmentRules ?? []) objects.add(rule.objectName);
+    }
+    return Array.from(objects);
+  }
+
+  /**
+   * Territories whose assignment rules match a record
+   */
+  assignRecord(objectName: string, record: Record<string, any>): string[] {
+    return this.getTerritories()
+      .filter((territory) =>
+        (territory.assignmentRules ?? []).some(
+          (rule) => rule.objectName === objectName && matchesCriteria(record, rule.criteria),
+        ),
+      )
+      .map((territory) => territory.name);
+  }
+
+  /**
+   * Territories the user sees records of. A territory's access level
+   * applies to its descendants too; the highest level wins.
+   */
+  evaluate(userId: string): TerritoryAccess {
+    const memberOf = this.getUserTerritories(userId);
+    const territories = new Set<string>();
+    const writeTerritories = new Set<string>();
+
+    for (const name of memberOf) {
+      const level: SharingAccessLevel = this.territories.get(name)?.accessLevel ?? 'read_write';
+      for (const territory of [name, ...this.getDescendants(name)]) {
+        territories.add(territory);
+        if (level === 'read_write') writeTerritories.add(territory);
+      }
+    }
+
+    return {
+      memberOf,
+      territories: Array.from(territories),
+      writeTerritories: Array.from(writeTerritories),
+    };
+  }
+
+  clear(): void {
+    this.models.clear();
+    this.territories.clear();
+    this.members.clear();
+  }
+}
+
+/**
+ * Evaluate a filter against a record. Supports field equality, `$eq`,
+ * `$ne`, `$in`, `$nin`, `$gt`, `$gte`, `$lt`, `$lte`, `$exists`, and
+ * `$and` / `$or` groups.
+ */
+export function matchesCriteria(
+  record: Record<string, any>,
+  criteria: Record<string, any>,
+): boolean {
+  return Object.entries(criteria).every(([key, condition]) => {
+    if (key === '$and') {
+      return (condition as Record<string, any>[]).every((c) => matchesCriteria(record, c));
+    }
+    if (key === '$or') {
+      return (condition as Record<string, any>[]).some((c) => matchesCriteria(record, c));
+    }
+    return matchesCondition(record[key], condition);
+  });
+}
+
+function matchesCondition(value: any, condition: any): boolean {
+  const isOperatorObject =
+    condition !== null &&
+    typeof condition === 'object' &&
+    !Array.isArray(condition) &&
+    !(condition instanceof Date) &&
+    Object.keys(condition).every((k) => k.startsWith('$'));
+  if (!isOperatorObject) return value === condition;
+
+  return Object.entries(condition).every(([op, operand]: [string, any]) => {
+    switch (op) {
+      case '$eq':
+        return value === operand;
+      case '$ne':
+        return value !== operand;
+      case '$in':
+        return Array.isArray(operand) && operand.includes(value);
+      case '$nin':
+        return Array.isArray(operand) && !operand.includes(value);
+      case '$gt':
+        return value != null && value > operand;
+      case '$gte':
+        return value != null && value >= operand;
+      case '$lt':
+        return value != null && value < operand;
+      case '$lte':
+        return value != null && value <= operand;
+      case '$exists':
+        return operand
+          ? value !== undefined && value !== null
+          : value === undefined || value === null;
+      default:
+        return false;
+    }
+  });
+}
@@ -134,12 +134,38 @@ export interface PermissionSet {
 }
 
 /**
- * Permission set assignment — links a PermissionSet to a User or Group.
+ * PermissionSetGroup — bundles permission sets so they can be assigned together.
+ * The optional muting permission set removes permissions the bundled sets
+ * would otherwise grant, for this group only.
+ * Maps to the `permission_set_group` system object.
+ */
+export interface PermissionSetGroup {
+  /** Machine name (snake_case) */
+  name: string;
+  /** Display name */
+  label?: string;
+  /** Description */
+  description?: string;
+  /** Names of the bundled permission sets */
+  permissionSets: string[];
+  /** Permission set whose granted permissions are muted in this group */
+  mutingPermissionSet?: string;
+  /** Active status */
+  isActive?: boolean;
+}
+
+/**
+ * Permission set assignment — links a PermissionSet (or a PermissionSetGroup)
+ * to a User or Group.
  * Maps to the `permission_set_assignment` system object.
  */
 export interface PermissionSetAssignment {
-  /** Permission set name */
-  permissionSetName: string;
+  /** Assignment ID */
+  id?: string;
+  /** Permission set name (one of permissionSetName / permissionSetGroupName) */
+  permissionSetName?: string;
+  /** Permission set group name */
+  permissionSetGroupName?: string;
   /** Assignee ID (user or group) */
   assigneeId: string;
   /** Assignee type */
@@ -243,8 +269,10 @@ export interface OrganizationDefault {
   internalAccess: OrgAccessLevel;
   /** External (portal) user access level */
   externalAccess: OrgAccessLevel;
-  /** Whether role hierarchy grants upward access */
+  /** Whether role hierarchy grants upward access (default: true) */
   grantAccessUsingHierarchy?: boolean;
+  /** Access managers get to subordinates' records (default: read_write) */
+  hierarchyAccessLevel?: SharingAccessLevel;
 }
 
 // ─── Sharing Rule ──────────────────────────────────────────────────────────────
@@ -310,6 +338,115 @@ export interface SharingRule {
   }>;
 }
 
+// ─── Record Share ──────────────────────────────────────────────────────────────
+
+/**
+ * Access granted on a single shared record
+ */
+export type RecordShareAccessLevel = 'read' | 'read_write';
+
+/**
+ * Why a record share exists
+ */
+export type RecordShareReason = 'manual' | 'rule' | 'team' | 'territory';
+
+/**
+ * Who a record is shared with
+ */
+export type RecordShareTargetType = 'user' | 'group';
+
+/**
+ * RecordShare — access to one record for one user or group.
+ * Maps to the `record_share` system object.
+ */
+export interface RecordShare {
+  /** Share ID */
+  id: string;
+  /** Object API name */
+  objectName: string;
+  /** ID of the shared record */
+  recordId: string;
+  /** Type of the recipient */
+  sharedWithType: RecordShareTargetType;
+  /** User ID or group name */
+  sharedWith: string;
+  /** Access level granted */
+  accessLevel: RecordShareAccessLevel;
+  /** Why the share exists */
+  reason: RecordShareReason;
+  /** User who granted the share */
+  grantedBy?: string;
+  /** Granted timestamp */
+  grantedAt?: Date;
+}
+
+// ─── Territory ─────────────────────────────────────────────────────────────────
+
+/**
+ * Territory model lifecycle status. Only the single `active` model
+ * assigns records and grants access.
+ */
+export type TerritoryModelStatus = 'planning' | 'active' | 'archived';
+
+/**
+ * TerritoryModel — a complete territory hierarchy (e.g. "FY26 Sales").
+ * Maps to the `territory_model` system object.
+ */
+export interface TerritoryModel {
+  /** Machine name */
+  name: string;
+  /** Display name */
+  label: string;
+  /** Description */
+  description?: string;
+  /** Lifecycle status */
+  status: TerritoryModelStatus;
+}
+
+/**
+ * Territory assignment rule — records of `objectName` matching `criteria`
+ * (a filter on record fields, e.g. `{ country: 'US', annual_revenue: { $gte: 1000000 } }`)
+ * are assigned to the territory.
+ */
+export interface TerritoryAssignmentRule {
+  /** Object the rule assigns records of */
+  objectName: string;
+  /** Filter on record fields */
+  criteria: Record<string, any>;
+}
+
+/**
+ * Territory — a node in a territory model.
+ * Maps to the `territory` system object.
+ */
+export interface Territory {
+  /** Machine name */
+  name: string;
+  /** Display name */
+  label: string;
+  /** Territory model name */
+  model: string;
+  /** Parent territory name (null = top-level) */
+  parentTerritory: string | null;
+  /** Access members get to the territory's records (default: read_write) */
+  accessLevel?: SharingAccessLevel;
+  /** Rules that assign records to this territory */
+  assignmentRules?: TerritoryAssignmentRule[];
+  /** Active status */
+  isActive?: boolean;
+}
+
+/**
+ * TerritoryMember — a user assigned to a territory.
+ * Maps to the `territory_member` system object.
+ */
+export interface TerritoryMember {
+  /** Territory name */
+  territory: string;
+  /** User ID */
+  userId: string;
+}
+
 // ─── RLS Configuration ─────────────────────────────────────────────────────────
 
 /**
@@ -336,8 +473,16 @@ export interface RLSEvaluationResult {
   accessLevel: 'none' | 'owner_only' | 'read_only' | 'read_write' | 'full';
   /** Record-level filters to inject into queries */
   filters: Record<string, any>;
+  /** Filters selecting the records the user may also edit (omitted when all readable records are editable) */
+  writeFilters?: Record<string, any>;
   /** Sharing rules that contributed to access */
   appliedRules: string[];
+  /** Subordinate roles whose records are visible through the role hierarchy */
+  subordinateRoles?: string[];
+  /** IDs of records shared explicitly with the user */
+  sharedRecordIds?: string[];
+  /** Territories (the user's and their descendants) whose records are visible */
+  territories?: string[];
 }
 
 // ─── Permission Context (runtime) ──────────────────────────────────────────────
@@ -389,6 +534,132 @@ export interface PermissionCheckResult {
   filters?: Record<string, any>;
 }
 
+// ─── Permission Explain ────────────────────────────────────────────────────────
+
+/**
+ * How one of the user's profiles decided an object permission
+ */
+export interface ProfilePermissionTrace {
+  /** Profile name */
+  profile: string;
+  /** Whether the permission set defines this profile */
+  defined: boolean;
+  /** Whether the profile allows the action */
+  allowed: boolean;
+  /** Record filters the profile restricts the action to */
+  viewFilters?: Record<string, any>;
+}
+
+/**
+ * Object permission decision with the profiles that led to it
+ */
+export interface ObjectPermissionExplanation extends PermissionCheckResult {
+  /** Permission set that applies to the object */
+  permissionSet?: string;
+  /** Per-profile decisions */
+  profiles: ProfilePermissionTrace[];
+  /** Decisions of the permission sets assigned to the user */
+  assignedPermissionSets?: AssignedPermissionSetTrace[];
+}
+
+/**
+ * How one assigned permission set decided an object permission
+ */
+export interface AssignedPermissionSetTrace {
+  /** Permission set name */
+  permissionSet: string;
+  /** Permission set group it was assigned through */
+  permissionSetGroup?: string;
+  /** Who the assignment is for */
+  assigneeType: 'user' | 'group';
+  assigneeId: string;
+  /** Whether the set allows the action */
+  allowed: boolean;
+  /** Whether the group's muting permission set removed the action */
+  muted: boolean;
+}
+
+/**
+ * Field-level access of a user to one field
+ */
+export interface FieldPermissionTrace {
+  /** Field name */
+  field: string;
+  /** Whether the field is visible */
+  read: boolean;
+  /** Whether the field is editable */
+  edit: boolean;
+  /** Whether a field permission is defined (otherwise the default applies) */
+  defined: boolean;
+}
+
+/**
+ * Stage of a permission evaluation
+ */
+export type PermissionExplainStage =
+  | 'object_permission'
+  | 'org_default'
+  | 'role_hierarchy'
+  | 'sharing_rules'
+  | 'record_shares'
+  | 'territories'
+  | 'tenant_isolation'
+  | 'field_permissions'
+  | 'record';
+
+/**
+ * One step of a permission evaluation trace
+ */
+export interface PermissionExplainStep {
+  stage: PermissionExplainStage;
+  outcome: 'granted' | 'denied' | 'restricted' | 'not_applicable';
+  detail: string;
+}
+
+/**
+ * Input of a permission explanation
+ */
+export interface PermissionExplainRequest {
+  /** The user to explain the decision for */
+  context: PermissionContext;
+  objectName: string;
+  action: PermissionAction;
+  /** Explain whether this record is accessible */
+  recordId?: string;
+  /** Fields to report on (default: all fields with field permissions) */
+  fields?: string[];
+}
+
+/**
+ * Full trace of a permission decision
+ */
+export interface PermissionExplanation {
+  userId: string;
+  objectName: string;
+  action: PermissionAction;
+  recordId?: string;
+  /** Final decision */
+  allowed: boolean;
+  /** Summary of the decision */
+  reason: string;
+  /** Object permission decision */
+  objectPermission: ObjectPermissionExplanation;
+  /** Organization-wide default that applied */
+  orgDefault?: OrganizationDefault;
+  /** Record-level security outcome */
+  rls?: RLSEvaluationResult;
+  /** Field-level access */
+  fields: FieldPermissionTrace[];
+  /** Fields hidden from the user */
+  hiddenFields: string[];
+  /** Final filter injected into the operation */
+  filters: Record<string, any>;
+  /** Whether the record exists and passes the filter */
+  record?: { found: boolean; visible: boolean };
+  /** Evaluation steps in order */
+  trace: PermissionExplainStep[];
+}
+
 // ─── Plugin Configuration ──────────────────────────────────────────────────────
 
 /**
@@ -409,6 +680,12 @@ export interface PermissionPluginConfig {
   tenantIsolation?: boolean;
   /** Field name used to store the tenant/organization ID on data records (default: '_organizationId') */
   tenantField?: string;
+  /** Cron expression for the full territory realignment job (default: '0 2 * * *') */
+  territoryRealignSchedule?: string;
+  /** Cron expression for the job that deactivates expired permission set assignments (default: every 5 minutes) */
+  assignmentExpirySchedule?: string;
+  /** Field of the `user` object holding the user's role in the hierarchy, by ID or name (default: 'user_role') */
+  userRoleField?: string;
 }
 
 // ─── Kernel Compliance Types (from @objectstack/spec) ──────────────────────────
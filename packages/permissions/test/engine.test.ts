@@ -2,8 +2,10 @@
  * Tests for Permission Engine
  */
 
+import { vi } from 'vitest';
 import { PermissionEngine } from '../src/engine.js';
 import { InMemoryPermissionStorage } from '../src/storage.js';
+import { PermissionSetAssignmentManager } from '../src/permission-set-assignments.js';
 import type { PermissionSet, PermissionContext } from '../src/types.js';
 
 describe('PermissionEngine', () => {
@@ -420,6 +422,178 @@ describe('PermissionEngine', () => {
     });
   });
 
+  describe('explain', () => {
+    const permissionSet: PermissionSet = {
+      name: 'contact-permissions',
+      objectName: 'contacts',
+      profiles: {
+        sales: { allowRead: true, viewFilters: { owner: '{{ userId }}' } },
+        support: { allowRead: false },
+      },
+      fieldPermissions: {
+        salary: { read: true, update: false, visibleTo: ['hr'] },
+        email: { read: true, update: true, visibleTo: ['sales'], editableBy: ['sales'] },
+      },
+    };
+
+    it('should explain an object permission profile by profile', async () => {
+      await storage.storePermissionSet(permissionSet);
+
+      const result = await engine.explainPermission(
+        { userId: 'user1', profiles: ['sales', 'support', 'guest'] },
+        'contacts',
+        'read',
+      );
+      expect(result.allowed).toBe(true);
+      expect(result.permissionSet).toBe('contact-permissions');
+      expect(result.filters).toEqual({ owner: '{{ userId }}' });
+      expect(result.profiles).toEqual([
+        { profile: 'sales', defined: true, allowed: true, viewFilters: { owner: '{{ userId }}' } },
+        { profile: 'support', defined: true, allowed: false, viewFilters: undefined },
+        { profile: 'guest', defined: false, allowed: false },
+      ]);
+    });
+
+    it('should report field access', async () => {
+      await storage.storePermissionSet(permissionSet);
+
+      const fields = await engine.explainFieldPermissions(
+        { userId: 'user1', profiles: ['sales'] },
+        'contacts',
+      );
+      expect(fields).toEqual([
+        { field: 'salary', read: false, edit: false, defined: true },
+        { field: 'email', read: true, edit: true, defined: true },
+      ]);
+    });
+  });
+
+  describe('permission set assignments', () => {
+    let assignments: PermissionSetAssignmentManager;
+    const rep: PermissionContext = { userId: 'rep1', profiles: ['sales'] };
+
+    beforeEach(async () => {
+      assignments = new PermissionSetAssignmentManager();
+      engine = new PermissionEngine(
+        storage,
+        { defaultDeny: true, enableCache: false },
+        assignments,
+      );
+
+      await storage.storePermissionSet({
+        name: 'lead-permissions',
+        objectName: 'leads',
+        profiles: { sales: { allowRead: true, viewFilters: { owner: '{{ userId }}' } } },
+        fieldPermissions: { score: { read: true, update: false, visibleTo: ['admin'] } },
+      });
+      await storage.storePermissionSet({
+        name: 'lead_manager',
+        objectPermissions: {
+          leads: { create: true, read: true, update: true, delete: true },
+        },
+        fieldPermissions: { 'leads.score': { read: true, update: true } },
+      });
+      await storage.storePermissionSet({
+        name: 'no_lead_delete',
+        objectPermissions: {
+          leads: { create: false, read: false, update: false, delete: true },
+        },
+      });
+      assignments.setGroups([
+        {
+          name: 'lead_ops',
+          permissionSets: ['lead_manager'],
+          mutingPermissionSet: 'no_lead_delete',
+        },
+      ]);
+    });
+
+    it('should add the permissions of directly assigned permission sets', async () => {
+      expect((await engine.checkPermission(rep, 'leads', 'delete')).allowed).toBe(false);
+
+      assignments.put({
+        permissionSetName: 'lead_manager',
+        assigneeType: 'user',
+        assigneeId: 'rep1',
+      });
+
+      const result = await engine.checkPermission(rep, 'leads', 'delete');
+      expect(result.allowed).toBe(true);
+      expect((await engine.checkPermission(rep, 'leads', 'read')).filters).toBeUndefined();
+      expect(await engine.getRecordFilters(rep, 'leads')).toEqual({});
+      expect(await engine.checkFieldPermission(rep, 'leads', 'score', 'edit')).toBe(true);
+    });
+
+    it('should apply sets assigned to a group through a muted permission set group', async () => {
+      assignments.put({
+        permissionSetGroupName: 'lead_ops',
+        assigneeType: 'group',
+        assigneeId: 'emea_sales',
+      });
+      const member = { ...rep, metadata: { groups: ['emea_sales'] } };
+
+      expect((await engine.checkPermission(member, 'leads', 'update')).allowed).toBe(true);
+      expect((await engine.checkPermission(rep, 'leads', 'update')).allowed).toBe(false);
+
+      const explanation = await engine.explainPermission(member, 'leads', 'delete');
+      expect(explanation.allowed).toBe(false);
+      expect(explanation.assignedPermissionSets).toEqual([
+        {
+          permissionSet: 'lead_manager',
+          permissionSetGroup: 'lead_ops',
+          assigneeType: 'group',
+          assigneeId: 'emea_sales',
+          allowed: true,
+          muted: true,
+        },
+      ]);
+    });
+
+    it('should ignore expired assignments', async () => {
+      assignments.put({
+        permissionSetName: 'lead_manager',
+        assigneeType: 'user',
+        assigneeId: 'rep1',
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      expect((await engine.checkPermission(rep, 'leads', 'delete')).allowed).toBe(false);
+    });
+
+    it('should invalidate cached results when assignments change', async () => {
+      const cached = new PermissionEngine(storage, { enableCache: true }, assignments);
+      expect((await cached.checkPermission(rep, 'leads', 'delete')).allowed).toBe(false);
+
+      const assignment = assignments.put({
+        permissionSetName: 'lead_manager',
+        assigneeType: 'user',
+        assigneeId: 'rep1',
+      });
+      expect((await cached.checkPermission(rep, 'leads', 'delete')).allowed).toBe(true);
+
+      assignments.remove(assignment.id!);
+      expect((await cached.checkPermission(rep, 'leads', 'delete')).allowed).toBe(false);
+    });
+
+    it('should not serve cached results past an assignment expiry', async () => {
+      vi.useFakeTimers();
+      try {
+        const cached = new PermissionEngine(storage, { enableCache: true }, assignments);
+        assignments.put({
+          permissionSetName: 'lead_manager',
+          assigneeType: 'user',
+          assigneeId: 'rep1',
+          expiresAt: new Date(Date.now() + 5000),
+        });
+        expect((await cached.checkPermission(rep, 'leads', 'delete')).allowed).toBe(true);
+
+        vi.advanceTimersByTime(5000);
+        expect((await cached.checkPermission(rep, 'leads', 'delete')).allowed).toBe(false);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
   describe('cache', () => {
     it('should cache permission check results', async () => {
       const engineWithCache = new PermissionEngine(storage, {
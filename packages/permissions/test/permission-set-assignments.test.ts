@@ -0,0 +1,85 @@
+/**
+ * Permission Set Assignment Tests
+ *
+ * Tests for resolving assigned permission sets, groups and expiry.
+ */
+
+import { PermissionSetAssignmentManager } from '../src/permission-set-assignments.js';
+import type { AssignmentChange } from '../src/permission-set-assignments.js';
+
+describe('PermissionSetAssignmentManager', () => {
+  let manager: PermissionSetAssignmentManager;
+  const now = new Date('2026-06-01T12:00:00Z');
+
+  beforeEach(() => {
+    manager = new PermissionSetAssignmentManager();
+    manager.setGroups([
+      {
+        name: 'sales_ops',
+        permissionSets: ['export_reports', 'manage_leads'],
+        mutingPermissionSet: 'mute_lead_delete',
+      },
+      { name: 'retired', permissionSets: ['legacy'], isActive: false },
+    ]);
+    manager.setAssignments([
+      { id: 'a1', permissionSetName: 'export_reports', assigneeType: 'user', assigneeId: 'u1' },
+      {
+        id: 'a2',
+        permissionSetGroupName: 'sales_ops',
+        assigneeType: 'group',
+        assigneeId: 'sales',
+      },
+      {
+        id: 'a3',
+        permissionSetName: 'temp_admin',
+        assigneeType: 'user',
+        assigneeId: 'u1',
+        expiresAt: new Date('2026-06-01T11:00:00Z'),
+      },
+      {
+        id: 'a4',
+        permissionSetName: 'audit_viewer',
+        assigneeType: 'user',
+        assigneeId: 'u1',
+        isActive: false,
+      },
+      { id: 'a5', permissionSetGroupName: 'retired', assigneeType: 'user', assigneeId: 'u1' },
+    ]);
+  });
+
+  it('should resolve direct, group and permission set group assignments', () => {
+    const resolved = manager.resolve('u1', ['sales'], now);
+    expect(
+      resolved.map((r) => [r.permissionSet, r.permissionSetGroup, r.mutingPermissionSet]),
+    ).toEqual([
+      ['export_reports', undefined, undefined],
+      ['export_reports', 'sales_ops', 'mute_lead_delete'],
+      ['manage_leads', 'sales_ops', 'mute_lead_delete'],
+    ]);
+    expect(manager.resolve('u2', [], now)).toEqual([]);
+  });
+
+  it('should ignore expired assignments and report them for deactivation', () => {
+    expect(manager.getActiveAssignments('u1', [], now).map((a) => a.id)).toEqual(['a1', 'a5']);
+    expect(manager.getExpired(now).map((a) => a.id)).toEqual(['a3']);
+
+    manager.put({ ...manager.get('a3')!, isActive: false });
+    expect(manager.getExpired(now)).toEqual([]);
+  });
+
+  it('should notify the assignees affected by a change', () => {
+    const changes: AssignmentChange[] = [];
+    manager.onChange((change) => changes.push(change));
+
+    manager.put({ ...manager.get('a1')!, assigneeId: 'u2' });
+    manager.remove('a2');
+    manager.setGroups([]);
+
+    expect(changes).toEqual([
+      { assigneeType: 'user', assigneeId: 'u1' },
+      { assigneeType: 'user', assigneeId: 'u2' },
+      { assigneeType: 'group', assigneeId: 'sales' },
+      {},
+    ]);
+  });
+});
@@ -2,7 +2,7 @@
  * Tests for Permissions Plugin
  */
 
-import { PermissionsPlugin, getPermissionsAPI } from '../src/index.js';
+import { PermissionsPlugin, InMemoryPermissionStorage, getPermissionsAPI } from '../src/index.js';
 import { vi } from 'vitest';
 import type { PluginContext } from '@objectstack/runtime';
 
@@ -283,6 +283,817 @@ describe('Permissions Plugin', () => {
     });
   });
 
+  describe('Role Hierarchy', () => {
+    let roleRecords: any[];
+    let records: Record<string, any[]>;
+    let broker: any;
+
+    beforeEach(async () => {
+      roleRecords = [
+        { _id: 'r1', name: 'sales_manager', label: 'Sales Manager', parent: null },
+        { _id: 'r2', name: 'sales_rep', label: 'Sales Rep', parent: 'r1' },
+      ];
+      records = {
+        role: roleRecords,
+        user: [
+          { _id: 'manager_1', user_role: 'r1' },
+          { _id: 'rep_1', user_role: 'r2' },
+          { _id: 'rep_2', user_role: 'sales_rep' },
+        ],
+        opportunity: [
+          { _id: 'o1', owner: 'rep_1' },
+          { _id: 'o2', owner: 'rep_2', owner_role: 'sales_rep' },
+          { _id: 'o3', owner: 'rep_1', owner_role: 'sales_rep' },
+        ],
+      };
+      broker = {
+        call: vi.fn(async (action: string, params: any) => {
+          if (action === 'data.find') return records[params.object] ?? [];
+          if (action === 'data.update') {
+            Object.assign(
+              records[params.object].find((r) => r._id === params.id),
+              params.doc,
+            );
+          }
+          return undefined;
+        }),
+      };
+      (mockContext as any).broker = broker;
+
+      plugin = new PermissionsPlugin({
+        storage: new InMemoryPermissionStorage(),
+        permissionsDir: './test-permissions-non-existent',
+        defaultDeny: false,
+      });
+      await plugin.init(mockContext);
+      await plugin.start(mockContext);
+      plugin.getRLSEvaluator().setOrgDefault({
+        objectName: 'opportunity',
+        internalAccess: 'private',
+        externalAccess: 'private',
+      });
+    });
+
+    it('should load roles and persist materialized paths', () => {
+      expect(roleRecords[1]).toMatchObject({
+        hierarchy_path: '/sales_manager/sales_rep',
+        hierarchy_level: 1,
+      });
+    });
+
+    it("should add subordinates' records to the manager's find filters", async () => {
+      const data: any = {
+        objectName: 'opportunity',
+        userId: 'manager_1',
+        roleName: 'sales_manager',
+        filters: { stage: 'open' },
+      };
+      await hooks.get('data.beforeFind')![0](data);
+
+      expect(data.filters).toEqual({
+        $and: [
+          { stage: 'open' },
+          { $or: [{ owner: 'manager_1' }, { owner_role: { $in: ['sales_rep'] } }] },
+        ],
+      });
+    });
+
+    it('should stamp the owner role on new records', async () => {
+      const data: any = {
+        objectName: 'opportunity',
+        userId: 'rep_1',
+        roleName: 'sales_rep',
+        doc: { name: 'Deal' },
+      };
+      for (const hook of hooks.get('data.beforeCreate')!) await hook(data);
+      expect(data.doc.owner_role).toBe('sales_rep');
+    });
+
+    it("should restamp the owner role when a record's owner changes", async () => {
+      const updateHooks = hooks.get('data.beforeUpdate')!;
+      const reassigned: any = {
+        objectName: 'opportunity',
+        id: 'o1',
+        userId: 'manager_1',
+        roleName: 'sales_manager',
+        doc: { owner: 'rep_2' },
+      };
+      for (const hook of updateHooks) await hook(reassigned);
+      expect(reassigned.doc.owner_role).toBe('sales_rep');
+
+      const toUnknown: any = { objectName: 'opportunity', id: 'o1', doc: { owner: 'stranger' } };
+      for (const hook of updateHooks) await hook(toUnknown);
+      expect(toUnknown.doc.owner_role).toBeNull();
+
+      const unchangedOwner: any = { objectName: 'opportunity', id: 'o1', doc: { name: 'Deal' } };
+      for (const hook of updateHooks) await hook(unchangedOwner);
+      expect(unchangedOwner.doc).toEqual({ name: 'Deal' });
+    });
+
+    it('should ignore an owner role sent by the client', async () => {
+      const created: any = {
+        objectName: 'opportunity',
+        userId: 'rep_1',
+        roleName: 'sales_rep',
+        doc: { name: 'Deal', owner_role: null },
+      };
+      for (const hook of hooks.get('data.beforeCreate')!) await hook(created);
+      expect(created.doc.owner_role).toBe('sales_rep');
+
+      const updated: any = {
+        objectName: 'opportunity',
+        id: 'o2',
+        userId: 'rep_2',
+        doc: { owner_role: 'sales_manager' },
+      };
+      for (const hook of hooks.get('data.beforeUpdate')!) await hook(updated);
+      expect(updated.doc).toEqual({});
+    });
+
+    it("should restamp a user's records when their role changes", async () => {
+      await mockContext.trigger('data.afterUpdate', {
+        object: 'user',
+        id: 'rep_1',
+        doc: { user_role: 'r1' },
+      });
+
+      expect(records.opportunity.map((r) => r.owner_role)).toEqual([
+        'sales_manager',
+        'sales_rep',
+        'sales_manager',
+      ]);
+    });
+
+    it('should stamp the owner role on existing records', async () => {
+      expect(await plugin.realignOwnerRoles()).toBe(1);
+      expect(records.opportunity[0].owner_role).toBe('sales_rep');
+    });
+
+    it('should refresh paths when a role is re-parented', async () => {
+      roleRecords.push({ _id: 'r3', name: 'sales_director', label: 'Director', parent: null });
+      roleRecords[0].parent = 'r3';
+      await mockContext.trigger('data.afterUpdate', { object: 'role', id: 'r1' });
+
+      expect(roleRecords[1].hierarchy_path).toBe('/sales_director/sales_manager/sales_rep');
+      expect(plugin.getRoleHierarchy().getSubordinateRoles('sales_director')).toEqual([
+        'sales_manager',
+        'sales_rep',
+      ]);
+    });
+
+    it('should reject moving a role under its subordinate', async () => {
+      const data = { objectName: 'role', id: 'r1', doc: { parent: 'r2' } };
+      const updateHooks = hooks.get('data.beforeUpdate')!;
+      await expect(
+        (async () => {
+          for (const hook of updateHooks) await hook(data);
+        })(),
+      ).rejects.toThrow('Role sales_manager cannot be moved under sales_rep');
+    });
+  });
+
+  describe('Record Sharing', () => {
+    let shareRecords: any[];
+    let broker: any;
+    let routes: Map<string, Function>;
+
+    const accounts: Record<string, any> = {
+      a1: { _id: 'a1', owner: 'user_1' },
+      a2: { _id: 'a2', owner: 'user_1' },
+    };
+
+    const request = (params: Record<string, string>, body?: any, user: any = { id: 'user_1' }) => ({
+      get: (key: string) => (key === 'user' ? user : undefined),
+      req: { param: (name: string) => params[name], json: async () => body },
+      json: (payload: any, status = 200) => ({ status, payload }),
+    });
+
+    beforeEach(async () => {
+      shareRecords = [
+        {
+          _id: 's1',
+          object_name: 'account',
+          record_id: 'a1',
+          shared_with_type: 'user',
+          shared_with: 'user_2',
+          access_level: 'read',
+          reason: 'manual',
+        },
+        {
+          _id: 's2',
+          object_name: 'account',
+          record_id: 'a1',
+          shared_with_type: 'group',
+          shared_with: 'west_team',
+          access_level: 'read_write',
+          reason: 'rule',
+        },
+      ];
+      broker = {
+        call: vi.fn(async (action: string, params: any) => {
+          if (action === 'data.find') return params.object === 'record_share' ? shareRecords : [];
+          if (action === 'data.get') return accounts[params.id];
+          if (action === 'data.create') shareRecords.push(params.doc);
+          if (action === 'data.delete') {
+            shareRecords = shareRecords.filter((r) => r._id !== params.id);
+          }
+          return undefined;
+        }),
+      };
+      (mockContext as any).broker = broker;
+
+      routes = new Map();
+      const app = {
+        get: (path: string, handler: Function) => routes.set(`GET ${path}`, handler),
+        post: (path: string, handler: Function) => routes.set(`POST ${path}`, handler),
+        delete: (path: string, handler: Function) => routes.set(`DELETE ${path}`, handler),
+      };
+      mockKernel.services.set('http.server', { getRawApp: () => app });
+
+      plugin = new PermissionsPlugin({
+        storage: new InMemoryPermissionStorage(),
+        permissionsDir: './test-permissions-non-existent',
+        defaultDeny: false,
+      });
+      await plugin.init(mockContext);
+      await plugin.start(mockContext);
+      plugin.getRLSEvaluator().setOrgDefault({
+        objectName: 'account',
+        internalAccess: 'private',
+        externalAccess: 'private',
+      });
+    });
+
+    it('should add records shared with the user to find filters', async () => {
+      const data: any = { objectName: 'account', userId: 'user_2' };
+      await hooks.get('data.beforeFind')![0](data);
+
+      expect(data.filters).toEqual({
+        $or: [{ owner: 'user_2' }, { _id: { $in: ['a1'] } }],
+      });
+    });
+
+    it('should grant, list and revoke shares over REST', async () => {
+      const created = await routes.get('POST /api/v1/permissions/shares')!(
+        request({}, { objectName: 'account', recordId: 'a2', sharedWith: 'user_3' }),
+      );
+      expect(created.status).toBe(201);
+      expect(created.payload.data).toMatchObject({ accessLevel: 'read', grantedBy: 'user_1' });
+      expect(shareRecords.at(-1)).toMatchObject({
+        _id: created.payload.data.id,
+        record_id: 'a2',
+        shared_with: 'user_3',
+      });
+
+      const listed = await routes.get('GET /api/v1/permissions/shares/:objectName/:recordId')!(
+        request({ objectName: 'account', recordId: 'a2' }),
+      );
+      expect(listed.payload.data).toHaveLength(1);
+
+      const revoked = await routes.get('DELETE /api/v1/permissions/shares/:id')!(
+        request({ id: created.payload.data.id }),
+      );
+      expect(revoked.status).toBe(200);
+      expect(plugin.getRecordShares('account', 'a2')).toEqual([]);
+
+      const missing = await routes.get('DELETE /api/v1/permissions/shares/:id')!(
+        request({ id: created.payload.data.id }),
+      );
+      expect(missing.status).toBe(404);
+    });
+
+    it('should reject invalid shares over REST', async () => {
+      const share = routes.get('POST /api/v1/permissions/shares')!;
+      expect((await share(request({}, { objectName: 'account' }))).status).toBe(400);
+
+      const invalid = await share(
+        request({}, { objectName: 'account', recordId: 'a2', sharedWith: 'u', accessLevel: 'x' }),
+      );
+      expect(invalid.status).toBe(400);
+      expect(invalid.payload.error).toContain('Invalid access level');
+    });
+
+    it('should mark shares created over REST as manual', async () => {
+      const created = await routes.get('POST /api/v1/permissions/shares')!(
+        request(
+          {},
+          { objectName: 'account', recordId: 'a2', sharedWith: 'user_3', reason: 'rule' },
+        ),
+      );
+
+      expect(created.status).toBe(201);
+      expect(created.payload.data.reason).toBe('manual');
+    });
+
+    it('should only list shares to users who manage the record', async () => {
+      const list = routes.get('GET /api/v1/permissions/shares/:objectName/:recordId')!;
+      const params = { objectName: 'account', recordId: 'a1' };
+
+      expect((await list(request(params, undefined, null))).status).toBe(401);
+      expect((await list(request(params, undefined, { id: 'user_9' }))).status).toBe(403);
+      const listed = await list(request(params));
+      expect(listed.status).toBe(200);
+      expect(listed.payload.data).toHaveLength(2);
+    });
+
+    it('should take the granting user from the auth context', async () => {
+      const created = await routes.get('POST /api/v1/permissions/shares')!(
+        request(
+          {},
+          { objectName: 'account', recordId: 'a2', sharedWith: 'user_3', grantedBy: 'x' },
+        ),
+      );
+      expect(created.payload.data.grantedBy).toBe('user_1');
+
+      const anonymous = await routes.get('POST /api/v1/permissions/shares')!(
+        request({}, { objectName: 'account', recordId: 'a2', sharedWith: 'user_3' }, null),
+      );
+      expect(anonymous.status).toBe(401);
+    });
+
+    it('should forbid non-owners from granting or revoking shares', async () => {
+      const share = routes.get('POST /api/v1/permissions/shares')!;
+      const revoke = routes.get('DELETE /api/v1/permissions/shares/:id')!;
+
+      const granted = await share(
+        request(
+          {},
+          {
+            objectName: 'account',
+            recordId: 'a1',
+            sharedWith: 'user_9',
+            accessLevel: 'read_write',
+          },
+          { id: 'user_9' },
+        ),
+      );
+      expect(granted.status).toBe(403);
+      expect(plugin.getRecordShares('account', 'a1').map((s) => s.sharedWith)).not.toContain(
+        'user_9',
+      );
+
+      // A read-only share does not allow managing the record's shares
+      const revoked = await revoke(request({ id: 's2' }, undefined, { id: 'user_2' }));
+      expect(revoked.status).toBe(403);
+      expect(plugin.getRecordShares('account', 'a1')).toHaveLength(2);
+
+      const missing = await share(
+        request({}, { objectName: 'account', recordId: 'zz', sharedWith: 'user_3' }),
+      );
+      expect(missing.status).toBe(404);
+    });
+
+    it('should let editors and sharing managers manage shares', async () => {
+      const share = routes.get('POST /api/v1/permissions/shares')!;
+
+      // user_2 edits a1 through a read_write share
+      await plugin.shareRecord({
+        objectName: 'account',
+        recordId: 'a1',
+        sharedWith: 'user_2',
+        accessLevel: 'read_write',
+      });
+      const byEditor = await share(
+        request(
+          {},
+          { objectName: 'account', recordId: 'a1', sharedWith: 'user_4' },
+          {
+            id: 'user_2',
+          },
+        ),
+      );
+      expect(byEditor.status).toBe(201);
+
+      await plugin.getStorage().storePermissionSet({
+        name: 'sharing_admin',
+        systemPermissions: { manageSharing: true },
+      });
+      plugin.getAssignmentManager().put({
+        id: 'psa_1',
+        permissionSetName: 'sharing_admin',
+        assigneeId: 'admin_1',
+        assigneeType: 'user',
+      });
+      const byManager = await share(
+        request(
+          {},
+          { objectName: 'account', recordId: 'a1', sharedWith: 'user_5' },
+          {
+            id: 'admin_1',
+          },
+        ),
+      );
+      expect(byManager.status).toBe(201);
+    });
+
+    it('should drop manual shares when the owner changes', async () => {
+      await mockContext.trigger('data.afterUpdate', {
+        object: 'account',
+        id: 'a1',
+        doc: { owner: 'user_5' },
+        previous: { owner: 'user_1' },
+      });
+
+      expect(plugin.getRecordShares('account', 'a1').map((s) => s.id)).toEqual(['s2']);
+      expect(shareRecords.map((r) => r._id)).toEqual(['s2']);
+    });
+
+    it('should keep shares when an update does not change the owner', async () => {
+      await mockContext.trigger('data.afterUpdate', {
+        object: 'account',
+        id: 'a1',
+        doc: { owner: 'user_1' },
+      });
+      await mockContext.trigger('data.afterUpdate', {
+        object: 'account',
+        id: 'a1',
+        doc: { owner: 'user_1', name: 'Acme' },
+        previous: { owner: 'user_1' },
+      });
+
+      expect(plugin.getRecordShares('account', 'a1').map((s) => s.id)).toEqual(['s1', 's2']);
+    });
+
+    it('should drop all shares when the record is deleted', async () => {
+      await mockContext.trigger('data.afterDelete', { object: 'account', id: 'a1' });
+
+      expect(plugin.getRecordShares('account', 'a1')).toEqual([]);
+      expect(shareRecords).toEqual([]);
+    });
+  });
+
+  describe('Territories', () => {
+    let records: Record<string, any[]>;
+    let broker: any;
+    let jobs: any;
+
+    beforeEach(async () => {
+      records = {
+        territory_model: [{ _id: 'm1', name: 'fy26', label: 'FY26', status: 'active' }],
+        territory: [
+          {
+            _id: 't1',
+            name: 'americas',
+            label: 'Americas',
+            model: 'm1',
+            assignment_rules: [{ object: 'account', criteria: { region: 'americas' } }],
+          },
+          {
+            _id: 't2',
+            name: 'us',
+            label: 'US',
+            model: 'm1',
+            parent: 't1',
+            assignment_rules: [{ object: 'account', criteria: { country: 'US' } }],
+          },
+        ],
+        territory_member: [{ _id: 'tm1', territory: 't1', user_id: 'vp_1' }],
+        account: [
+          { _id: 'a1', country: 'US', territories: ['us'] },
+          { _id: 'a2', country: 'FR', region: 'americas' },
+        ],
+      };
+      broker = {
+        call: vi.fn(async (action: string, params: any) => {
+          if (action === 'data.find') return records[params.object] ?? [];
+          if (action === 'data.update') {
+            Object.assign(
+              records[params.object].find((r) => r._id === params.id),
+              params.doc,
+            );
+          }
+          return undefined;
+        }),
+      };
+      (mockContext as any).broker = broker;
+      jobs = { schedule: vi.fn(async () => {}), trigger: vi.fn(async () => {}) };
+      mockKernel.services.set('job', jobs);
+
+      plugin = new PermissionsPlugin({
+        storage: new InMemoryPermissionStorage(),
+        permissionsDir: './test-permissions-non-existent',
+        defaultDeny: false,
+      });
+      await plugin.init(mockContext);
+      await plugin.start(mockContext);
+      plugin.getRLSEvaluator().setOrgDefault({
+        objectName: 'account',
+        internalAccess: 'private',
+        externalAccess: 'private',
+      });
+    });
+
+    it('should load territories and register the realignment job', () => {
+      expect(plugin.getTerritoryManager().getDescendants('americas')).toEqual(['us']);
+      expect(jobs.schedule).toHaveBeenCalledWith(
+        'permissions.territory.realign',
+        { type: 'cron', expression: '0 2 * * *' },
+        expect.any(Function),
+      );
+    });
+
+    it('should stamp territories on new records', async () => {
+      const data: any = { objectName: 'account', userId: 'rep_1', doc: { country: 'US' } };
+      for (const hook of hooks.get('data.beforeCreate')!) await hook(data);
+      expect(data.doc.territories).toEqual(['us']);
+    });
+
+    it("should add records in the member's territories to find filters", async () => {
+      const data: any = { objectName: 'account', userId: 'vp_1' };
+      await hooks.get('data.beforeFind')![0](data);
+
+      expect(data.filters).toEqual({
+        $or: [{ owner: 'vp_1' }, { territories: { $in: ['americas', 'us'] } }],
+      });
+    });
+
+    it('should reassign a record when its fields change', async () => {
+      await mockContext.trigger('data.afterUpdate', {
+        object: 'account',
+        id: 'a1',
+        doc: { country: 'CA', region: 'americas' },
+        previous: { _id: 'a1', country: 'US', territories: ['us'] },
+      });
+      expect(records.account[0].territories).toEqual(['americas']);
+    });
+
+    it('should realign records in a background job when rules change', async () => {
+      records.territory[1].assignment_rules = [{ object: 'account', criteria: { country: 'FR' } }];
+      await mockContext.trigger('data.afterUpdate', { object: 'territory', id: 't2', doc: {} });
+      expect(jobs.trigger).toHaveBeenCalledWith('permissions.territory.realign', {
+        objects: ['account'],
+      });
+
+      const handler = jobs.schedule.mock.calls[0][2];
+      await handler({ jobId: 'j1', data: { objects: ['account'] } });
+      expect(records.account.map((r) => r.territories)).toEqual([[], ['americas', 'us']]);
+    });
+  });
+
+  describe('Permission Set Assignments', () => {
+    let records: Record<string, any[]>;
+    let jobs: any;
+
+    const deleteLead = (userId: string, metadata?: Record<string, any>) =>
+      mockContext.trigger('data.beforeDelete', {
+        objectName: 'lead',
+        userId,
+        userProfiles: ['sales'],
+        metadata,
+        id: 'l1',
+      });
+
+    beforeEach(async () => {
+      records = {
+        permission_set_group: [{ _id: 'g1', name: 'lead_ops', permission_sets: ['lead_manager'] }],
+        permission_set_assignment: [
+          {
+            _id: 'psa1',
+            permission_set: 'lead_manager',
+            assignee_type: 'user',
+            assignee_id: 'rep_1',
+            is_active: true,
+            expires_at: '2020-01-01T00:00:00Z',
+          },
+          {
+            _id: 'psa2',
+            permission_set_group: 'g1',
+            assignee_type: 'group',
+            assignee_id: 'emea_sales',
+            is_active: true,
+          },
+        ],
+      };
+      (mockContext as any).broker = {
+        call: vi.fn(async (action: string, params: any) => {
+          if (action === 'data.find') return records[params.object] ?? [];
+          if (action === 'data.update') {
+            Object.assign(
+              records[params.object].find((r) => r._id === params.id),
+              params.doc,
+            );
+          }
+          return undefined;
+        }),
+      };
+      jobs = { schedule: vi.fn(async () => {}), trigger: vi.fn(async () => {}) };
+      mockKernel.services.set('job', jobs);
+
+      const storage = new InMemoryPermissionStorage();
+      await storage.storePermissionSet({
+        name: 'lead-permissions',
+        objectName: 'lead',
+        profiles: { sales: { allowRead: true } },
+      });
+      await storage.storePermissionSet({
+        name: 'lead_manager',
+        objectPermissions: { lead: { create: true, read: true, update: true, delete: true } },
+      });
+      plugin = new PermissionsPlugin({
+        storage,
+        permissionsDir: './test-permissions-non-existent',
+      });
+      await plugin.init(mockContext);
+      await plugin.start(mockContext);
+    });
+
+    it('should grant permission sets assigned to a group through a permission set group', async () => {
+      await expect(deleteLead('rep_2', { groups: ['emea_sales'] })).resolves.toBeUndefined();
+      await expect(deleteLead('rep_3')).rejects.toThrow(
+        "No permission for action 'delete' on object 'lead'",
+      );
+    });
+
+    it('should deactivate expired assignments and record an audit event', async () => {
+      expect(jobs.schedule).toHaveBeenCalledWith(
+        'permissions.assignment.expire',
+        { type: 'cron', expression: '*/5 * * * *' },
+        expect.any(Function),
+      );
+      expect(records.permission_set_assignment[0].is_active).toBe(false);
+      expect(plugin.getAssignmentManager().get('psa1')?.isActive).toBe(false);
+      expect(mockContext.trigger).toHaveBeenCalledWith(
+        'authz.permission_revoked',
+        expect.objectContaining({
+          resource: 'permission_set_assignment/psa1',
+          reason: 'expired',
+          permissionSet: 'lead_manager',
+          assigneeId: 'rep_1',
+        }),
+      );
+      await expect(deleteLead('rep_1')).rejects.toThrow();
+      expect(await plugin.expireAssignments()).toEqual([]);
+    });
+
+    it('should follow assignment changes made through the data API', async () => {
+      await expect(deleteLead('rep_1')).rejects.toThrow();
+
+      await mockContext.trigger('data.afterUpdate', {
+        object: 'permission_set_assignment',
+        id: 'psa1',
+        doc: { is_active: true, expires_at: null },
+      });
+      await expect(deleteLead('rep_1')).resolves.toBeUndefined();
+
+      await mockContext.trigger('data.afterDelete', {
+        object: 'permission_set_assignment',
+        id: 'psa1',
+      });
+      await expect(deleteLead('rep_1')).rejects.toThrow();
+    });
+  });
+
+  describe('Permission Explain', () => {
+    let broker: any;
+    let explainRoute: Function;
+
+    const request = (body: any, user: any = { id: 'rep_1', profiles: ['guest'] }) => ({
+      get: (key: string) => (key === 'user' ? user : undefined),
+      req: { json: async () => body },
+      json: (payload: any, status = 200) => ({ status, payload }),
+    });
+
+    beforeEach(async () => {
+      broker = {
+        call: vi.fn(async (action: string, params: any) => {
+          if (action === 'data.get' && params.object === 'user') {
+            return { rep_2: { _id: 'rep_2', profile: 'sales' } }[params.id as string];
+          }
+          if (action === 'data.get') {
+            return { o1: { _id: 'o1', owner: 'rep_2', amount: 10 } }[params.id as string];
+          }
+          return [];
+        }),
+      };
+      (mockContext as any).broker = broker;
+      mockKernel.services.set('http.server', {
+        getRawApp: () => ({
+          get: vi.fn(),
+          delete: vi.fn(),
+          post: (path: string, handler: Function) => {
+            if (path === '/api/v1/permissions/explain') explainRoute = handler;
+          },
+        }),
+      });
+
+      const storage = new InMemoryPermissionStorage();
+      await storage.storePermissionSet({
+        name: 'opportunity-permissions',
+        objectName: 'opportunity',
+        profiles: { sales: { allowRead: true, allowEdit: true } },
+        fieldPermissions: {
+          margin: { read: true, update: false, visibleTo: ['finance'] },
+        },
+      });
+      plugin = new PermissionsPlugin({
+        storage,
+        permissionsDir: './test-permissions-non-existent',
+      });
+      await plugin.init(mockContext);
+      await plugin.start(mockContext);
+      plugin.getRLSEvaluator().setOrgDefault({
+        objectName: 'opportunity',
+        internalAccess: 'private',
+        externalAccess: 'private',
+      });
+    });
+
+    it("should explain why a user can't see a record", async () => {
+      const explanation = await plugin.explain({
+        context: { userId: 'rep_1', profiles: ['sales'] },
+        objectName: 'opportunity',
+        action: 'read',
+        recordId: 'o1',
+      });
+
+      expect(explanation.allowed).toBe(false);
+      expect(explanation.reason).toBe('Record o1 does not match the injected filter');
+      expect(explanation.filters).toEqual({ owner: 'rep_1' });
+      expect(explanation.hiddenFields).toEqual(['margin']);
+      expect(explanation.trace.map((step) => [step.stage, step.outcome])).toEqual([
+        ['object_permission', 'granted'],
+        ['org_default', 'restricted'],
+        ['role_hierarchy', 'not_applicable'],
+        ['sharing_rules', 'not_applicable'],
+        ['record_shares', 'not_applicable'],
+        ['territories', 'not_applicable'],
+        ['tenant_isolation', 'not_applicable'],
+        ['field_permissions', 'restricted'],
+        ['record', 'denied'],
+      ]);
+    });
+
+    it('should explain access granted through a record share', async () => {
+      plugin.getRecordShareManager().grant({
+        objectName: 'opportunity',
+        recordId: 'o1',
+        sharedWith: 'rep_1',
+      });
+
+      const explanation = await plugin.explain({
+        context: { userId: 'rep_1', profiles: ['sales'] },
+        objectName: 'opportunity',
+        action: 'read',
+        recordId: 'o1',
+      });
+      expect(explanation.allowed).toBe(true);
+      expect(explanation.record).toEqual({ found: true, visible: true });
+      expect(explanation.trace.find((step) => step.stage === 'record_shares')?.detail).toBe(
+        'Records shared with the user: o1',
+      );
+    });
+
+    it('should explain a denied object permission over REST', async () => {
+      const response = await explainRoute(
+        request({
+          userId: 'rep_1',
+          objectName: 'opportunity',
+          action: 'delete',
+        }),
+      );
+      expect(response.status).toBe(200);
+      expect(response.payload.data.allowed).toBe(false);
+      expect(response.payload.data.reason).toBe(
+        "No permission for action 'delete' on object 'opportunity'",
+      );
+
+      expect((await explainRoute(request({ userId: 'rep_1' }))).status).toBe(400);
+    });
+
+    it("should explain over REST with the session's profiles, not the body's", async () => {
+      const response = await explainRoute(
+        request({ objectName: 'opportunity', profiles: ['sales'], roleName: 'ceo' }),
+      );
+
+      expect(response.payload.data.allowed).toBe(false);
+      expect((await explainRoute(request({ objectName: 'opportunity' }, null))).status).toBe(401);
+    });
+
+    it("should only explain other users' permissions to administrators", async () => {
+      const body = { userId: 'rep_2', objectName: 'opportunity', recordId: 'o1' };
+      expect((await explainRoute(request(body))).status).toBe(403);
+
+      await plugin.getStorage().storePermissionSet({
+        name: 'auditor',
+        systemPermissions: { viewAllData: true },
+      });
+      plugin.getAssignmentManager().put({
+        id: 'psa_1',
+        permissionSetName: 'auditor',
+        assigneeId: 'admin_1',
+        assigneeType: 'user',
+      });
+      const response = await explainRoute(request(body, { id: 'admin_1' }));
+      expect(response.status).toBe(200);
+      // rep_2's profile comes from their user record
+      expect(response.payload.data.allowed).toBe(true);
+      expect(response.payload.data.record).toEqual({ found: true, visible: true });
+
+      const unknown = await explainRoute(request({ ...body, userId: 'nobody' }, { id: 'admin_1' }));
+      expect(unknown.status).toBe(404);
+    });
+  });
+
   describe('API Access', () => {
     it('should provide access to permission engine', async () => {
       await plugin.init(mockContext);
@@ -0,0 +1,103 @@
+/**
+ * Record Sharing Tests
+ *
+ * Tests for granting, revoking and evaluating per-record shares.
+ */
+
+import { RecordShareManager } from '../src/record-sharing.js';
+import type { PermissionContext } from '../src/types.js';
+
+describe('RecordShareManager', () => {
+  let manager: RecordShareManager;
+
+  const context: PermissionContext = {
+    userId: 'user_1',
+    profiles: ['standard'],
+    metadata: { groups: ['west_team'] },
+  };
+
+  beforeEach(() => {
+    manager = new RecordShareManager();
+  });
+
+  it('should grant read access to a user by default', () => {
+    const share = manager.grant({ objectName: 'account', recordId: 'a1', sharedWith: 'user_1' });
+
+    expect(share).toMatchObject({
+      objectName: 'account',
+      recordId: 'a1',
+      sharedWithType: 'user',
+      accessLevel: 'read',
+      reason: 'manual',
+    });
+    expect(manager.getShares('account', 'a1')).toEqual([share]);
+  });
+
+  it('should update an existing share for the same recipient and reason', () => {
+    const first = manager.grant({ objectName: 'account', recordId: 'a1', sharedWith: 'user_1' });
+    const second = manager.grant({
+      objectName: 'account',
+      recordId: 'a1',
+      sharedWith: 'user_1',
+      accessLevel: 'read_write',
+    });
+    manager.grant({ objectName: 'account', recordId: 'a1', sharedWith: 'user_1', reason: 'team' });
+
+    expect(second.id).toBe(first.id);
+    expect(manager.getShares('account', 'a1')).toHaveLength(2);
+    expect(manager.get(first.id)?.accessLevel).toBe('read_write');
+  });
+
+  it('should reject unknown access levels and reasons', () => {
+    expect(() =>
+      manager.grant({
+        objectName: 'account',
+        recordId: 'a1',
+        sharedWith: 'user_1',
+        accessLevel: 'full' as any,
+      }),
+    ).toThrow('Invalid access level: full');
+    expect(() =>
+      manager.grant({
+        objectName: 'account',
+        recordId: 'a1',
+        sharedWith: 'user_1',
+        reason: 'gift' as any,
+      }),
+    ).toThrow('Invalid reason: gift');
+  });
+
+  it('should return records shared with the user or their groups', () => {
+    manager.grant({ objectName: 'account', recordId: 'a1', sharedWith: 'user_1' });
+    manager.grant({
+      objectName: 'account',
+      recordId: 'a2',
+      sharedWithType: 'group',
+      sharedWith: 'west_team',
+      accessLevel: 'read_write',
+    });
+    manager.grant({ objectName: 'account', recordId: 'a3', sharedWith: 'user_2' });
+    manager.grant({ objectName: 'contact', recordId: 'c1', sharedWith: 'user_1' });
+
+    expect(manager.evaluate(context, 'account')).toEqual({
+      recordIds: ['a1', 'a2'],
+      writeRecordIds: ['a2'],
+    });
+  });
+
+  it('should revoke single shares and shares of a record by reason', () => {
+    const manual = manager.grant({ objectName: 'account', recordId: 'a1', sharedWith: 'user_1' });
+    manager.grant({ objectName: 'account', recordId: 'a1', sharedWith: 'user_2', reason: 'rule' });
+    manager.grant({ objectName: 'account', recordId: 'a1', sharedWith: 'user_3', reason: 'team' });
+
+    expect(manager.revoke(manual.id)).toEqual(manual);
+    expect(manager.revoke(manual.id)).toBeUndefined();
+
+    const removed = manager.revokeForRecord('account', 'a1', ['manual', 'team']);
+    expect(removed.map((s) => s.sharedWith)).toEqual(['user_3']);
+    expect(manager.getShares('account', 'a1').map((s) => s.reason)).toEqual(['rule']);
+
+    manager.revokeForRecord('account', 'a1');
+    expect(manager.getShares('account', 'a1')).toEqual([]);
+  });
+});
@@ -6,6 +6,9 @@
 
 import { RLSEvaluator } from '../src/rls-evaluator.js';
 import { SharingRuleEngine } from '../src/sharing-rules.js';
+import { RoleHierarchy } from '../src/role-hierarchy.js';
+import { RecordShareManager } from '../src/record-sharing.js';
+import { TerritoryManager } from '../src/territories.js';
 import type {
   PermissionContext,
   OrganizationDefault,
@@ -201,6 +204,106 @@ describe('RLSEvaluator', () => {
     });
   });
 
+  describe('Role Hierarchy', () => {
+    let roles: RoleHierarchy;
+    const managerContext: PermissionContext = {
+      userId: 'manager_1',
+      profiles: ['standard'],
+      roleName: 'sales_manager',
+    };
+
+    beforeEach(() => {
+      roles = new RoleHierarchy();
+      roles.setRoles([
+        { name: 'sales_manager', label: 'Sales Manager', parentRole: null },
+        { name: 'sales_rep', label: 'Sales Rep', parentRole: 'sales_manager' },
+        { name: 'sales_intern', label: 'Sales Intern', parentRole: 'sales_rep' },
+      ]);
+      evaluator = new RLSEvaluator(sharingEngine, roles);
+    });
+
+    it("should let managers see and edit subordinates' records", () => {
+      evaluator.setOrgDefault({
+        objectName: 'opportunity',
+        internalAccess: 'private',
+        externalAccess: 'private',
+      });
+
+      const result = evaluator.evaluate(managerContext, 'opportunity');
+      const hierarchyFilter = { owner_role: { $in: ['sales_rep', 'sales_intern'] } };
+      expect(result.accessLevel).toBe('read_write');
+      expect(result.subordinateRoles).toEqual(['sales_rep', 'sales_intern']);
+      expect(result.filters).toEqual({ $or: [{ owner: 'manager_1' }, hierarchyFilter] });
+      expect(result.writeFilters).toEqual({ $or: [{ owner: 'manager_1' }, hierarchyFilter] });
+    });
+
+    it('should limit managers to read access when configured', () => {
+      evaluator.setOrgDefault({
+        objectName: 'opportunity',
+        internalAccess: 'private',
+        externalAccess: 'private',
+        hierarchyAccessLevel: 'read_only',
+      });
+
+      const result = evaluator.evaluate(managerContext, 'opportunity');
+      expect(result.accessLevel).toBe('read_only');
+      expect(result.filters.$or).toHaveLength(2);
+      expect(result.writeFilters).toEqual({ owner: 'manager_1' });
+    });
+
+    it('should ignore the hierarchy when the OWD does not grant access using it', () => {
+      evaluator.setOrgDefault({
+        objectName: 'opportunity',
+        internalAccess: 'private',
+        externalAccess: 'private',
+        grantAccessUsingHierarchy: false,
+      });
+
+      const result = evaluator.evaluate(managerContext, 'opportunity');
+      expect(result.accessLevel).toBe('owner_only');
+      expect(result.filters).toEqual({ owner: 'manager_1' });
+    });
+
+    it('should give users without subordinates owner-only access', () => {
+      evaluator.setOrgDefault({
+        objectName: 'opportunity',
+        internalAccess: 'private',
+        externalAccess: 'private',
+      });
+
+      const result = evaluator.evaluate(
+        { userId: 'intern_1', profiles: [], roleName: 'sales_intern' },
+        'opportunity',
+      );
+      expect(result.accessLevel).toBe('owner_only');
+    });
+
+    it('should match role_and_subordinates sharing rules through the hierarchy', () => {
+      evaluator.setOrgDefault({
+        objectName: 'case',
+        internalAccess: 'private',
+        externalAccess: 'private',
+      });
+      sharingEngine.addRule({
+        name: 'escalations_to_sales',
+        label: 'Escalations',
+        objectName: 'case',
+        type: 'criteria_based',
+        criteria: { escalated: true },
+        sharedWithType: 'role_and_subordinates',
+        sharedWithValues: ['sales_manager'],
+        accessLevel: 'read_only',
+      });
+
+      const result = evaluator.evaluate(
+        { userId: 'intern_1', profiles: [], roleName: 'sales_intern' },
+        'case',
+      );
+      expect(result.appliedRules).toEqual(['escalations_to_sales']);
+      expect(result.writeFilters).toEqual({ owner: 'intern_1' });
+    });
+  });
+
   describe('clear()', () => {
     it('should clear all OWD registrations', () => {
       evaluator.setOrgDefault({
@@ -216,4 +319,132 @@ describe('RLSEvaluator', () => {
       expect(result.accessLevel).toBe('owner_only');
     });
   });
+
+  describe('Record Shares', () => {
+    let shares: RecordShareManager;
+
+    beforeEach(() => {
+      shares = new RecordShareManager();
+      evaluator = new RLSEvaluator(sharingEngine, undefined, shares);
+      shares.grant({ objectName: 'account', recordId: 'a1', sharedWith: 'user_1' });
+      shares.grant({
+        objectName: 'account',
+        recordId: 'a2',
+        sharedWithType: 'group',
+        sharedWith: 'west_team',
+        accessLevel: 'read_write',
+      });
+    });
+
+    it('should add shared records to a private OWD', () => {
+      evaluator.setOrgDefault({
+        objectName: 'account',
+        internalAccess: 'private',
+        externalAccess: 'private',
+      });
+
+      const result = evaluator.evaluate(baseContext, 'account');
+      expect(result.accessLevel).toBe('read_write');
+      expect(result.sharedRecordIds).toEqual(['a1', 'a2']);
+      expect(result.filters).toEqual({
+        $or: [{ owner: 'user_1' }, { _id: { $in: ['a1', 'a2'] } }],
+      });
+      expect(result.writeFilters).toEqual({
+        $or: [{ owner: 'user_1' }, { _id: { $in: ['a2'] } }],
+      });
+    });
+
+    it('should let read_write shares edit under a public read-only OWD', () => {
+      evaluator.setOrgDefault({
+        objectName: 'account',
+        internalAccess: 'public_read_only',
+        externalAccess: 'private',
+      });
+
+      const result = evaluator.evaluate(baseContext, 'account');
+      expect(result.filters).toEqual({});
+      expect(result.writeFilters).toEqual({
+        $or: [{ owner: 'user_1' }, { _id: { $in: ['a2'] } }],
+      });
+    });
+
+    it('should stay owner-only for users without shares', () => {
+      evaluator.setOrgDefault({
+        objectName: 'account',
+        internalAccess: 'private',
+        externalAccess: 'private',
+      });
+
+      const result = evaluator.evaluate({ userId: 'user_9', profiles: [] }, 'account');
+      expect(result.accessLevel).toBe('owner_only');
+      expect(result.filters).toEqual({ owner: 'user_9' });
+    });
+  });
+
+  describe('Territories', () => {
+    let territories: TerritoryManager;
+
+    beforeEach(() => {
+      territories = new TerritoryManager();
+      territories.setModels([{ name: 'fy26', label: 'FY26', status: 'active' }]);
+      territories.setTerritories([
+        {
+          name: 'us',
+          label: 'US',
+          model: 'fy26',
+          parentTerritory: null,
+          accessLevel: 'read_only',
+          assignmentRules: [{ objectName: 'account', criteria: { country: 'US' } }],
+        },
+        { name: 'us_west', label: 'US West', model: 'fy26', parentTerritory: 'us' },
+      ]);
+      territories.setMembers([{ territory: 'us', userId: 'user_1' }]);
+      evaluator = new RLSEvaluator(sharingEngine, undefined, undefined, territories);
+      evaluator.setOrgDefault({
+        objectName: 'account',
+        internalAccess: 'private',
+        externalAccess: 'private',
+      });
+    });
+
+    it("should add records in the user's territories and their children", () => {
+      const result = evaluator.evaluate(baseContext, 'account');
+      expect(result.accessLevel).toBe('read_only');
+      expect(result.territories).toEqual(['us', 'us_west']);
+      expect(result.filters).toEqual({
+        $or: [{ owner: 'user_1' }, { territories: { $in: ['us', 'us_west'] } }],
+      });
+      expect(result.writeFilters).toEqual({ owner: 'user_1' });
+    });
+
+    it('should ignore objects without territory assignment rules', () => {
+      evaluator.setOrgDefault({
+        objectName: 'contact',
+        internalAccess: 'private',
+        externalAccess: 'private',
+      });
+      expect(evaluator.evaluate(baseContext, 'contact').accessLevel).toBe('owner_only');
+    });
+
+    it('should let territory sharing rules match territory members', () => {
+      sharingEngine.addRule({
+        name: 'us_team_contacts',
+        label: 'US contacts',
+        objectName: 'contact',
+        type: 'criteria_based',
+        criteria: { country: 'US' },
+        sharedWithType: 'territory',
+        sharedWithValues: ['us'],
+        accessLevel: 'read_only',
+      });
+      evaluator.setOrgDefault({
+        objectName: 'contact',
+        internalAccess: 'private',
+        externalAccess: 'private',
+      });
+
+      const result = evaluator.evaluate({ userId: 'user_1', profiles: [] }, 'contact');
+      expect(result.appliedRules).toEqual(['us_team_contacts']);
+    });
+  });
 });
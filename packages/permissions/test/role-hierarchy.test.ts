@@ -0,0 +1,86 @@
+/**
+ * Role Hierarchy Tests
+ *
+ * Tests for materialized hierarchy paths and subordinate lookups.
+ */
+
+import { RoleHierarchy } from '../src/role-hierarchy.js';
+import type { Role } from '../src/types.js';
+
+const role = (name: string, parentRole: string | null): Role => ({
+  name,
+  label: name,
+  parentRole,
+});
+
+describe('RoleHierarchy', () => {
+  let hierarchy: RoleHierarchy;
+
+  beforeEach(() => {
+    hierarchy = new RoleHierarchy();
+    hierarchy.setRoles([
+      role('executive', null),
+      role('sales_director', 'executive'),
+      role('sales_manager', 'sales_director'),
+      role('sales_rep', 'sales_manager'),
+      role('support_manager', 'executive'),
+    ]);
+  });
+
+  it('should compute materialized paths and levels', () => {
+    expect(hierarchy.getRole('sales_rep')).toMatchObject({
+      hierarchyPath: '/executive/sales_director/sales_manager/sales_rep',
+      hierarchyLevel: 3,
+    });
+    expect(hierarchy.getRole('executive')?.hierarchyLevel).toBe(0);
+  });
+
+  it('should list subordinate roles', () => {
+    expect(hierarchy.getSubordinateRoles('sales_director')).toEqual(['sales_manager', 'sales_rep']);
+    expect(hierarchy.getSubordinateRoles('sales_rep')).toEqual([]);
+    expect(hierarchy.isSubordinate('sales_rep', 'executive')).toBe(true);
+    expect(hierarchy.isSubordinate('executive', 'sales_rep')).toBe(false);
+  });
+
+  it('should exclude inactive roles from subordinates', () => {
+    hierarchy.upsertRole({ ...role('sales_rep', 'sales_manager'), isActive: false });
+    expect(hierarchy.getSubordinateRoles('sales_director')).toEqual(['sales_manager']);
+  });
+
+  it('should recompute the subtree when a role is re-parented', () => {
+    const changed = hierarchy.upsertRole(role('sales_manager', 'support_manager'));
+
+    expect(changed.map((r) => r.name)).toEqual(['sales_manager', 'sales_rep']);
+    expect(hierarchy.getRole('sales_rep')?.hierarchyPath).toBe(
+      '/executive/support_manager/sales_manager/sales_rep',
+    );
+    expect(hierarchy.getSubordinateRoles('sales_director')).toEqual([]);
+  });
+
+  it('should report only roles whose stored path is out of date', () => {
+    const loaded = new RoleHierarchy();
+    const changed = loaded.setRoles([
+      { ...role('executive', null), hierarchyPath: '/executive', hierarchyLevel: 0 },
+      {
+        ...role('sales_director', 'executive'),
+        hierarchyPath: '/sales_director',
+        hierarchyLevel: 0,
+      },
+    ]);
+    expect(changed.map((r) => r.name)).toEqual(['sales_director']);
+  });
+
+  it('should reject moving a role under its own subordinate', () => {
+    expect(() => hierarchy.upsertRole(role('sales_director', 'sales_rep'))).toThrow(
+      'cannot be moved under its own subordinate',
+    );
+  });
+
+  it('should move children up when a role is removed', () => {
+    hierarchy.removeRole('sales_manager');
+    expect(hierarchy.getRole('sales_rep')).toMatchObject({
+      parentRole: 'sales_director',
+      hierarchyPath: '/executive/sales_director/sales_rep',
+    });
+  });
+});
@@ -321,6 +321,26 @@ describe('SharingRuleEngine', () => {
       expect(result.filters.$or).toBeDefined();
       expect(result.filters.$or[0]).toEqual({ status: 'pending', amount: { $gt: 1000 } });
     });
+
+    it('should build territory-based filters in result', () => {
+      engine.addRule({
+        name: 'emea_accounts',
+        label: 'EMEA Accounts',
+        objectName: 'account',
+        type: 'territory_based',
+        ownedByType: 'territory',
+        ownedByValues: ['emea'],
+        sharedWithType: 'role',
+        sharedWithValues: ['support'],
+        accessLevel: 'read_only',
+      });
+
+      const result = engine.evaluate(
+        { userId: 'user1', profiles: [], roleName: 'support' },
+        'account',
+      );
+      expect(result.filters.$or).toEqual([{ territories: { $in: ['emea'] } }]);
+    });
   });
 
   describe('Role Hierarchy Support', () => {
@@ -0,0 +1,121 @@
+/**
+ * Territory Management Tests
+ *
+ * Tests for territory hierarchies, membership and assignment rules.
+ */
+
+import { TerritoryManager, matchesCriteria } from '../src/territories.js';
+import type { Territory } from '../src/types.js';
+
+const territory = (
+  name: string,
+  parentTerritory: string | null,
+  extra: Partial<Territory> = {},
+): Territory => ({
+  name,
+  label: name,
+  model: 'fy26',
+  parentTerritory,
+  ...extra,
+});
+
+describe('TerritoryManager', () => {
+  let manager: TerritoryManager;
+
+  beforeEach(() => {
+    manager = new TerritoryManager();
+    manager.setModels([
+      { name: 'fy25', label: 'FY25', status: 'archived' },
+      { name: 'fy26', label: 'FY26', status: 'active' },
+    ]);
+    manager.setTerritories([
+      territory('americas', null),
+      territory('us', 'americas', {
+        accessLevel: 'read_only',
+        assignmentRules: [{ objectName: 'account', criteria: { country: 'US' } }],
+      }),
+      territory('us_enterprise', 'us', {
+        assignmentRules: [
+          {
+            objectName: 'account',
+            criteria: { country: 'US', annual_revenue: { $gte: 1000000 } },
+          },
+        ],
+      }),
+      territory('emea', null, {
+        assignmentRules: [
+          { objectName: 'account', criteria: { country: { $in: ['DE', 'FR', 'UK'] } } },
+        ],
+      }),
+      territory('old_us', null, {
+        model: 'fy25',
+        assignmentRules: [{ objectName: 'lead', criteria: { country: 'US' } }],
+      }),
+    ]);
+    manager.setMembers([
+      { territory: 'americas', userId: 'vp_1' },
+      { territory: 'us', userId: 'rep_1' },
+      { territory: 'old_us', userId: 'rep_1' },
+    ]);
+  });
+
+  it('should only use territories of the active model', () => {
+    expect(manager.getActiveModel()?.name).toBe('fy26');
+    expect(manager.getTerritories().map((t) => t.name)).not.toContain('old_us');
+    expect(manager.getUserTerritories('rep_1')).toEqual(['us']);
+    expect(manager.getManagedObjects()).toEqual(['account']);
+  });
+
+  it('should assign records by their fields', () => {
+    expect(manager.assignRecord('account', { country: 'US', annual_revenue: 5000000 })).toEqual([
+      'us',
+      'us_enterprise',
+    ]);
+    expect(manager.assignRecord('account', { country: 'US', annual_revenue: 10 })).toEqual(['us']);
+    expect(manager.assignRecord('account', { country: 'FR' })).toEqual(['emea']);
+    expect(manager.assignRecord('lead', { country: 'US' })).toEqual([]);
+  });
+
+  it("should give members access to their territories' descendants", () => {
+    expect(manager.getDescendants('americas')).toEqual(['us', 'us_enterprise']);
+    expect(manager.evaluate('vp_1')).toEqual({
+      memberOf: ['americas'],
+      territories: ['americas', 'us', 'us_enterprise'],
+      writeTerritories: ['americas', 'us', 'us_enterprise'],
+    });
+    expect(manager.evaluate('rep_1')).toEqual({
+      memberOf: ['us'],
+      territories: ['us', 'us_enterprise'],
+      writeTerritories: [],
+    });
+  });
+
+  it('should update membership', () => {
+    manager.addMember({ territory: 'emea', userId: 'rep_1' });
+    manager.removeMember({ territory: 'us', userId: 'rep_1' });
+    expect(manager.getUserTerritories('rep_1')).toEqual(['emea']);
+  });
+});
+
+describe('matchesCriteria', () => {
+  const record = { country: 'US', industry: 'tech', annual_revenue: 2000000, region: null };
+
+  it('should match equality and comparison operators', () => {
+    expect(matchesCriteria(record, { country: 'US', industry: 'tech' })).toBe(true);
+    expect(matchesCriteria(record, { annual_revenue: { $gt: 1000000, $lte: 2000000 } })).toBe(true);
+    expect(matchesCriteria(record, { industry: { $nin: ['retail'] } })).toBe(true);
+    expect(matchesCriteria(record, { region: { $exists: false } })).toBe(true);
+    expect(matchesCriteria(record, { country: { $ne: 'US' } })).toBe(false);
+  });
+
+  it('should match $and / $or groups', () => {
+    expect(
+      matchesCriteria(record, {
+        $or: [{ country: 'DE' }, { $and: [{ country: 'US' }, { industry: 'tech' }] }],
+      }),
+    ).toBe(true);
+    expect(matchesCriteria(record, { $or: [{ country: 'DE' }, { industry: 'retail' }] })).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Realtime Broker Adapters
+ *
+ * Replicas of the realtime server exchange events, room activity and
+ * collaborative edits through a broker. Adapters deliver every message
+ * published on a channel to all subscribers of that channel — including
+ * the publisher's own — in publication order.
+ *
+ * - MemoryBroker: in-process; nodes sharing a MemoryBus form a cluster
+ * - RedisBroker: Redis pub/sub (requires `ioredis`)
+ */
+
+import type { ClusterConfig, RedisBrokerOptions } from './types.js';
+
+export type BrokerHandler = (message: any) => void;
+
+/**
+ * Publish / subscribe transport between realtime nodes
+ */
+export interface RealtimeBroker {
+  connect(): Promise<void>;
+  publish(channel: string, message: unknown): Promise<void>;
+  /** Resolves to a function that removes the subscription */
+  subscribe(channel: string, handler: BrokerHandler): Promise<() => Promise<void>>;
+  close(): Promise<void>;
+}
+
+/**
+ * In-process message bus shared by memory brokers
+ */
+export class MemoryBus {
+  private channels: Map<string, Set<BrokerHandler>> = new Map();
+
+  publish(channel: string, data: string): void {
+    const handlers = Array.from(this.channels.get(channel) ?? []);
+    // Deliver asynchronously, like a network broker, in publication order
+    queueMicrotask(() => {
+      for (const handler of handlers) {
+        try {
+          handler(JSON.parse(data));
+        } catch {
+          /* swallow handler errors */
+        }
+      }
+    });
+  }
+
+  subscribe(channel: string, handler: BrokerHandler): () => void {
+    let handlers = this.channels.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.channels.set(channel, handlers);
+    }
+    handlers.add(handler);
+    return () => {
+      handlers!.delete(handler);
+      if (handlers!.size === 0) this.channels.delete(channel);
+    };
+  }
+}
+
+/**
+ * In-memory broker. Without a shared bus, it only connects the node to itself.
+ */
+export class MemoryBroker implements RealtimeBroker {
+  private unsubscribes: Set<() => void> = new Set();
+
+  constructor(private bus: MemoryBus = new MemoryBus()) {}
+
+  async connect(): Promise<void> {}
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    this.bus.publish(channel, JSON.stringify(message));
+  }
+
+  async subscribe(channel: string, handler: BrokerHandler): Promise<() => Promise<void>> {
+    const unsubscribe = this.bus.subscribe(channel, handler);
+    this.unsubscribes.add(unsubscribe);
+    return async () => {
+      unsubscribe();
+      this.unsubscribes.delete(unsubscribe);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.unsubscribes.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribes.clear();
+  }
+}
+
+/**
+ * Redis pub/sub broker. Publishes on one connection and subscribes on a
+ * second, as Redis requires.
+ */
+export class RedisBroker implements RealtimeBroker {
+  private publisher?: any; // Redis client (ioredis)
+  private subscriber?: any;
+  private handlers: Map<string, Set<BrokerHandler>> = new Map();
+
+  constructor(private options: RedisBrokerOptions = {}) {}
+
+  async connect(): Promise<void> {
+    if (this.publisher) return;
+
+    try {
+      if (this.options.createClient) {
+        this.publisher = this.options.createClient();
+      } else {
+        // Dynamic import of ioredis
+        const Redis: any = (await import('ioredis')).default;
+        this.publisher = new Redis({
+          host: this.options.host || 'localhost',
+          port: this.options.port || 6379,
+          password: this.options.password,
+          db: this.options.db || 0,
+        });
+      }
+      this.subscriber = this.publisher.duplicate();
+      this.subscriber.on('message', (channel: string, data: string) => {
+        this.dispatch(channel, data);
+      });
+
+      // Wait for connection
+      await this.publisher.ping();
+    } catch (error: any) {
+      this.publisher = undefined;
+      this.subscriber = undefined;
+      throw new Error(`Failed to connect to Redis: ${error.message}`);
+    }
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    this.ensureConnected();
+    await this.publisher.publish(channel, JSON.stringify(message));
+  }
+
+  async subscribe(channel: string, handler: BrokerHandler): Promise<() => Promise<void>> {
+    this.ensureConnected();
+    let handlers = this.handlers.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(channel, handlers);
+      await this.subscriber.subscribe(channel);
+    }
+    handlers.add(handler);
+
+    return async () => {
+      const current = this.handlers.get(channel);
+      if (!current?.delete(handler) || current.size > 0) return;
+      this.handlers.delete(channel);
+      await this.subscriber?.unsubscribe(channel);
+    };
+  }
+
+  async close(): Promise<void> {
+    const clients = [this.subscriber, this.publisher].filter(Boolean);
+    this.publisher = undefined;
+    this.subscriber = undefined;
+    this.handlers.clear();
+    await Promise.all(clients.map((client) => client.quit()));
+  }
+
+  private dispatch(channel: string, data: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+    this.handlers.get(channel)?.forEach((handler) => {
+      try {
+        handler(message);
+      } catch {
+        /* swallow handler errors */
+      }
+    });
+  }
+
+  private ensureConnected(): void {
+    if (!this.publisher) {
+      throw new Error('Redis broker not connected. Call connect() first.');
+    }
+  }
+}
+
+/**
+ * Broker of a cluster configuration
+ */
+export function createBroker(config: ClusterConfig = {}): RealtimeBroker {
+  if (config.broker && typeof config.broker === 'object') return config.broker;
+  return config.broker === 'redis' ? new RedisBroker(config.redis) : new MemoryBroker();
+}
@@ -0,0 +1,294 @@
+/**
+ * Collaborative Text Editing
+ *
+ * The server is authoritative for every document — a text field of a record.
+ * Clients send operations against the revision they last saw; the engine
+ * transforms them past the operations applied since, applies them and
+ * assigns the next revision. Late joiners open a document to receive its
+ * current text and revision.
+ *
+ * Documents are loaded from the record on first open — or copied from
+ * another node that has them open — and written back when snapshotted; the
+ * plugin snapshots periodically and when the last participant leaves.
+ */
+
+import { apply, baseLength, normalize, transform } from './ot.js';
+import type { TextOperation } from './ot.js';
+import type { DocumentEditor, DocumentRef, DocumentStore } from './types.js';
+
+/**
+ * A document being edited
+ */
+export interface CollaborationDocument extends DocumentRef {
+  documentId: string;
+  content: string;
+  revision: number;
+  /** Revision last written to the record */
+  savedRevision: number;
+  /** Connections that opened the document */
+  clients: Set<string>;
+  /** User of the last applied operation, whom the document is saved as */
+  editor?: DocumentEditor;
+}
+
+/**
+ * State of a document, as copied between nodes
+ */
+export interface DocumentState {
+  content: string;
+  revision: number;
+  savedRevision: number;
+  /** Operations applied most recently, oldest first */
+  history: TextOperation[];
+}
+
+/**
+ * Codes of rejected operations
+ */
+export type CollaborationErrorCode =
+  | 'DOCUMENT_NOT_OPEN'
+  | 'INVALID_OPERATION'
+  | 'INVALID_REVISION'
+  | 'REVISION_TOO_OLD';
+
+export class CollaborationError extends Error {
+  constructor(
+    public code: CollaborationErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'CollaborationError';
+  }
+}
+
+/**
+ * Document ID of a record field: `record:<object>:<recordId>#<field>`
+ */
+export function toDocumentId(ref: DocumentRef): string {
+  return `record:${ref.object}:${ref.recordId}#${ref.field}`;
+}
+
+/**
+ * Document store reading and writing records through the ObjectQL broker
+ */
+export function createObjectQLDocumentStore(getBroker: () => any): DocumentStore {
+  const broker = () => {
+    const instance = getBroker();
+    if (!instance) throw new Error('Data broker not available');
+    return instance;
+  };
+  return {
+    async load(ref) {
+      const record = await broker().call('data.get', { object: ref.object, id: ref.recordId });
+      if (!record) throw new Error(`Record ${ref.object}:${ref.recordId} not found`);
+      const value = record[ref.field];
+      return value === undefined || value === null ? '' : String(value);
+    },
+    async save(ref, content, editor) {
+      await broker().call('data.update', {
+        object: ref.object,
+        id: ref.recordId,
+        doc: { [ref.field]: content },
+        ...(editor?.userId && {
+          userId: editor.userId,
+          userProfiles: editor.roles ?? [],
+          roleName: editor.roleName,
+          organizationId: editor.tenantId,
+        }),
+      });
+    },
+  };
+}
+
+/**
+ * Collaboration Engine
+ */
+export class CollaborationEngine {
+  private documents: Map<string, CollaborationDocument> = new Map();
+  /** Operations applied to each document, oldest first */
+  private history: Map<string, TextOperation[]> = new Map();
+  private loading: Map<string, Promise<CollaborationDocument>> = new Map();
+
+  /**
+   * @param loadState - State of a document held elsewhere; without one the
+   *   document is loaded from the store
+   */
+  constructor(
+    private store: DocumentStore,
+    private historyLimit: number = 500,
+    private loadState?: (documentId: string) => Promise<DocumentState | undefined>,
+  ) {}
+
+  /**
+   * Open a document for a connection, loading it if needed
+   */
+  async open(ref: DocumentRef, clientId: string): Promise<CollaborationDocument> {
+    const documentId = toDocumentId(ref);
+    let document = this.documents.get(documentId);
+    if (!document) {
+      let pending = this.loading.get(documentId);
+      if (!pending) {
+        pending = this.load(ref, documentId).finally(() => this.loading.delete(documentId));
+        this.loading.set(documentId, pending);
+      }
+      document = await pending;
+    }
+    document.clients.add(clientId);
+    return document;
+  }
+
+  /**
+   * Remove a connection from a document. Returns the document once it has
+   * no connections left; it stays loaded until `unload`.
+   */
+  close(documentId: string, clientId: string): CollaborationDocument | undefined {
+    const document = this.documents.get(documentId);
+    if (!document || !document.clients.delete(clientId)) return undefined;
+    return document.clients.size === 0 ? document : undefined;
+  }
+
+  /**
+   * Remove a connection from all its documents. Returns the documents left
+   * without connections.
+   */
+  closeAll(clientId: string): CollaborationDocument[] {
+    const emptied: CollaborationDocument[] = [];
+    for (const documentId of Array.from(this.documents.keys())) {
+      const document = this.close(documentId, clientId);
+      if (document) emptied.push(document);
+    }
+    return emptied;
+  }
+
+  get(documentId: string): CollaborationDocument | undefined {
+    return this.documents.get(documentId);
+  }
+
+  list(): CollaborationDocument[] {
+    return Array.from(this.documents.values());
+  }
+
+  /**
+   * State of a loaded document, for another node to continue from
+   */
+  exportState(documentId: string): DocumentState | undefined {
+    const document = this.documents.get(documentId);
+    if (!document) return undefined;
+    return {
+      content: document.content,
+      revision: document.revision,
+      savedRevision: document.savedRevision,
+      history: [...this.history.get(documentId)!],
+    };
+  }
+
+  /**
+   * Apply an operation made against `revision` by `editor`. Returns the
+   * operation as applied and the new revision.
+   */
+  submit(
+    documentId: string,
+    revision: number,
+    operation: TextOperation,
+    editor?: DocumentEditor,
+  ): { revision: number; operation: TextOperation } {
+    const document = this.documents.get(documentId);
+    if (!document) {
+      throw new CollaborationError('DOCUMENT_NOT_OPEN', `Document ${documentId} is not open`);
+    }
+    if (!Number.isInteger(revision) || revision < 0 || revision > document.revision) {
+      throw new CollaborationError('INVALID_REVISION', `Unknown revision ${revision}`);
+    }
+
+    const history = this.history.get(documentId)!;
+    const missed = document.revision - revision;
+    if (missed > history.length) {
+      throw new CollaborationError(
+        'REVISION_TOO_OLD',
+        `Revision ${revision} is too old; reopen the document`,
+      );
+    }
+
+    let transformed = normalize(operation);
+    try {
+      for (const applied of history.slice(history.length - missed)) {
+        [, transformed] = transform(applied, transformed);
+      }
+      if (baseLength(transformed) !== document.content.length) {
+        throw new Error('Operation does not match the document length');
+      }
+      document.content = apply(document.content, transformed);
+    } catch (error) {
+      throw new CollaborationError('INVALID_OPERATION', (error as Error).message);
+    }
+
+    document.revision += 1;
+    document.editor = editor;
+    history.push(transformed);
+    if (history.length > this.historyLimit) history.shift();
+    return { revision: document.revision, operation: transformed };
+  }
+
+  /**
+   * Write changed documents (or one document) back to their records.
+   * Documents that fail to save stay changed and are retried next time.
+   */
+  async snapshot(documentId?: string): Promise<Array<{ documentId: string; error?: Error }>> {
+    const documents = documentId
+      ? [this.documents.get(documentId)].filter((d): d is CollaborationDocument => !!d)
+      : this.list();
+
+    const results: Array<{ documentId: string; error?: Error }> = [];
+    for (const document of documents) {
+      if (document.revision === document.savedRevision) continue;
+      const revision = document.revision;
+      try {
+        await this.store.save(document, document.content, document.editor);
+        document.savedRevision = Math.max(document.savedRevision, revision);
+        results.push({ documentId: document.documentId });
+      } catch (error) {
+        results.push({ documentId: document.documentId, error: error as Error });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Drop a document without connections from memory
+   */
+  unload(documentId: string): boolean {
+    const document = this.documents.get(documentId);
+    if (!document || document.clients.size > 0) return false;
+    this.documents.delete(documentId);
+    this.history.delete(documentId);
+    return true;
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.history.clear();
+    this.loading.clear();
+  }
+
+  private async load(ref: DocumentRef, documentId: string): Promise<CollaborationDocument> {
+    const state = (await this.loadState?.(documentId)) ?? {
+      content: await this.store.load(ref),
+      revision: 0,
+      savedRevision: 0,
+      history: [],
+    };
+    const document: CollaborationDocument = {
+      object: ref.object,
+      recordId: ref.recordId,
+      field: ref.field,
+      documentId,
+      content: state.content,
+      revision: state.revision,
+      savedRevision: state.savedRevision,
+      clients: new Set(),
+    };
+    this.documents.set(documentId, document);
+    this.history.set(documentId, state.history.slice(-this.historyLimit));
+    return document;
+  }
+}
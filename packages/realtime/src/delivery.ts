@@ -0,0 +1,115 @@
+/**
+ * Permission-Aware Event Delivery
+ *
+ * Record events — events about an object — reach a connection only if its
+ * user may read the record: the object permission, record-level security
+ * and tenant isolation of `@objectos/permissions`, evaluated against the
+ * event payload. Fields hidden from the user are removed from the payload.
+ *
+ * The permissions service is asked once per user and object; its answer is
+ * reused for every event of that object until it expires.
+ */
+
+/**
+ * What a user may read of an object's records
+ */
+export interface ReadAccess {
+  /** Whether the object is readable at all */
+  allowed: boolean;
+  /** Filter a record must match (record-level security, tenant) */
+  filters: Record<string, any>;
+  /** Fields removed from records */
+  hiddenFields: string[];
+}
+
+/** Access without a permissions service */
+export const FULL_ACCESS: ReadAccess = { allowed: true, filters: {}, hiddenFields: [] };
+
+export const NO_ACCESS: ReadAccess = { allowed: false, filters: {}, hiddenFields: [] };
+
+/**
+ * Whether a record matches a permission filter (`$and`, `$or` and field
+ * conditions with `$eq`, `$ne`, `$in`, `$nin`, `$gt`, `$gte`, `$lt`,
+ * `$lte`, `$exists`). Unknown operators do not match. `$in` on an
+ * array field (such as `territories`) matches if any element is listed,
+ * `$nin` if none is.
+ */
+export function matchesFilter(record: Record<string, any>, filter: Record<string, any>): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') {
+      return Array.isArray(condition) && condition.every((c) => matchesFilter(record, c));
+    }
+    if (key === '$or') {
+      return Array.isArray(condition) && condition.some((c) => matchesFilter(record, c));
+    }
+    return matchesCondition(record[key], condition);
+  });
+}
+
+function matchesCondition(value: any, condition: any): boolean {
+  const isOperatorObject =
+    condition !== null &&
+    typeof condition === 'object' &&
+    !Array.isArray(condition) &&
+    !(condition instanceof Date) &&
+    Object.keys(condition).every((k) => k.startsWith('$'));
+  if (!isOperatorObject) return value === condition;
+
+  return Object.entries(condition).every(([op, operand]: [string, any]) => {
+    switch (op) {
+      case '$eq':
+        return value === operand;
+      case '$ne':
+        return value !== operand;
+      case '$in':
+        return Array.isArray(operand) && includesAny(operand, value);
+      case '$nin':
+        return Array.isArray(operand) && !includesAny(operand, value);
+      case '$gt':
+        return value != null && value > operand;
+      case '$gte':
+        return value != null && value >= operand;
+      case '$lt':
+        return value != null && value < operand;
+      case '$lte':
+        return value != null && value <= operand;
+      case '$exists':
+        return operand
+          ? value !== undefined && value !== null
+          : value === undefined || value === null;
+      default:
+        return false;
+    }
+  });
+}
+
+function includesAny(operand: any[], value: any): boolean {
+  return Array.isArray(value) ? value.some((v) => operand.includes(v)) : operand.includes(value);
+}
+
+/**
+ * A record as a user sees it, or undefined if they may not read it
+ */
+export function applyReadAccess(record: unknown, access: ReadAccess): unknown {
+  if (!access.allowed) return undefined;
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    // Nothing to match the filter against
+    return Object.keys(access.filters).length === 0 ? record : undefined;
+  }
+  if (!matchesFilter(record as Record<string, any>, access.filters)) return undefined;
+  if (access.hiddenFields.length === 0) return record;
+
+  const visible: Record<string, any> = { ...record };
+  for (const field of access.hiddenFields) delete visible[field];
+  return visible;
+}
+
+/**
+ * Whether a record is outside of an organization: it belongs to another
+ * one, or to one while the connection has none
+ */
+export function isOtherTenant(record: unknown, tenantField: string, tenantId?: string): boolean {
+  if (!record || typeof record !== 'object') return false;
+  const owner = (record as Record<string, any>)[tenantField];
+  return owner !== undefined && owner !== null && owner !== tenantId;
+}
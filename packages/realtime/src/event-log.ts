@@ -0,0 +1,134 @@
+/**
+ * Realtime Event Log
+ *
+ * Events are numbered per channel — the object of record events, otherwise
+ * the first segment of the event name — with offsets counting up from 1.
+ * The log keeps the latest events of every channel so a client that
+ * reconnects can resume its subscriptions from the last offsets it saw.
+ *
+ * Offsets belong to a stream. A client resuming from another stream (e.g.
+ * after the whole cluster restarted), or from before the oldest event kept,
+ * is told to resync instead.
+ */
+
+import { randomUUID } from 'crypto';
+
+/**
+ * An event as kept in the log
+ */
+export interface LoggedEvent {
+  channel: string;
+  offset: number;
+  eventName: string;
+  object?: string;
+  payload: any;
+  userId?: string;
+  /** Users the event is delivered to; everyone subscribed when unset */
+  recipients?: string[];
+  timestamp: string;
+}
+
+/**
+ * State of a log, as copied between nodes
+ */
+export interface EventLogState {
+  streamId: string;
+  channels: Record<string, { offset: number; events: LoggedEvent[] }>;
+}
+
+/**
+ * Channel of an event
+ */
+export function eventChannel(eventName: string, object?: string): string {
+  return object || eventName.split('.')[0];
+}
+
+/**
+ * Bounded per-channel event log
+ */
+export class EventLog {
+  private channels: Map<string, { offset: number; events: LoggedEvent[] }> = new Map();
+  private stream: string = randomUUID();
+
+  constructor(private maxEventsPerChannel: number = 1000) {}
+
+  /** Stream the offsets belong to */
+  get streamId(): string {
+    return this.stream;
+  }
+
+  /**
+   * Add an event to its channel and assign it the next offset
+   */
+  append(event: Omit<LoggedEvent, 'channel' | 'offset'>): LoggedEvent {
+    const channel = eventChannel(event.eventName, event.object);
+    let log = this.channels.get(channel);
+    if (!log) {
+      log = { offset: 0, events: [] };
+      this.channels.set(channel, log);
+    }
+    const logged: LoggedEvent = { ...event, channel, offset: ++log.offset };
+    log.events.push(logged);
+    if (log.events.length > this.maxEventsPerChannel) log.events.shift();
+    return logged;
+  }
+
+  /** Offset of the latest event of a channel; 0 before the first */
+  offset(channel: string): number {
+    return this.channels.get(channel)?.offset ?? 0;
+  }
+
+  /** Latest offsets of all channels */
+  offsets(): Record<string, number> {
+    return Object.fromEntries(Array.from(this.channels, ([channel, log]) => [channel, log.offset]));
+  }
+
+  getChannels(): string[] {
+    return Array.from(this.channels.keys());
+  }
+
+  /**
+   * Events of a channel after an offset, oldest first. Undefined when some
+   * of them are no longer kept, or the offset is unknown.
+   */
+  since(channel: string, offset: number): LoggedEvent[] | undefined {
+    const log = this.channels.get(channel);
+    const latest = log?.offset ?? 0;
+    if (!Number.isInteger(offset) || offset < 0 || offset > latest) return undefined;
+    if (offset === latest) return [];
+
+    const oldest = latest - log!.events.length + 1;
+    if (offset < oldest - 1) return undefined;
+    return log!.events.slice(offset - oldest + 1);
+  }
+
+  exportState(): EventLogState {
+    return {
+      streamId: this.stream,
+      channels: Object.fromEntries(
+        Array.from(this.channels, ([channel, log]) => [
+          channel,
+          { offset: log.offset, events: [...log.events] },
+        ]),
+      ),
+    };
+  }
+
+  /**
+   * Continue from the state of another log
+   */
+  importState(state: EventLogState): void {
+    this.stream = state.streamId;
+    this.channels = new Map(
+      Object.entries(state.channels).map(([channel, log]) => [
+        channel,
+        { offset: log.offset, events: log.events.slice(-this.maxEventsPerChannel) },
+      ]),
+    );
+  }
+
+  clear(): void {
+    this.channels.clear();
+    this.stream = randomUUID();
+  }
+}
@@ -1,13 +1,44 @@
 export * from './plugin.js';
+export { RoomManager, parseRecordContext, visiblePresence } from './rooms.js';
+export type { RoomMember } from './rooms.js';
+export {
+  CollaborationEngine,
+  CollaborationError,
+  createObjectQLDocumentStore,
+  toDocumentId,
+} from './collaboration.js';
+export type {
+  CollaborationDocument,
+  CollaborationErrorCode,
+  DocumentState,
+} from './collaboration.js';
+export { apply, transform, normalize, isTextOperation, baseLength, targetLength } from './ot.js';
+export type { TextOperation } from './ot.js';
+export { EventLog, eventChannel } from './event-log.js';
+export { applyReadAccess, isOtherTenant, matchesFilter } from './delivery.js';
+export type { ReadAccess } from './delivery.js';
+export type { LoggedEvent, EventLogState } from './event-log.js';
+export { MemoryBroker, MemoryBus, RedisBroker, createBroker } from './broker.js';
+export type { RealtimeBroker, BrokerHandler } from './broker.js';
 export type {
   WebSocketAuthConfig,
   WebSocketAuthResult,
   WebSocketTenantConfig,
   RealtimePluginConfig,
+  RoomConfig,
+  RoomClient,
   AwarenessCursor,
   AwarenessSelection,
   AwarenessPresence,
   AwarenessEdit,
   AwarenessState,
   CollaborationSession,
+  CollaborationConfig,
+  DocumentEditor,
+  DocumentRef,
+  DocumentStore,
+  ClusterConfig,
+  RedisBrokerOptions,
+  EventLogConfig,
+  DeliveryConfig,
 } from './types.js';
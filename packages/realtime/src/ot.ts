@@ -0,0 +1,145 @@
+/**
+ * Text Operational Transform
+ *
+ * A text operation walks the whole document once. Its components are:
+ * - a positive integer: retain that many characters
+ * - a negative integer: delete that many characters
+ * - a string: insert it
+ *
+ * `transform(a, b)` turns two operations made concurrently against the same
+ * text into `[a', b']` with `apply(apply(s, a), b') === apply(apply(s, b), a')`.
+ * When both insert at the same position, `a`'s insert comes first.
+ */
+
+export type TextOperation = Array<number | string>;
+
+const isRetain = (c: unknown): c is number => typeof c === 'number' && c > 0;
+const isDelete = (c: unknown): c is number => typeof c === 'number' && c < 0;
+const isInsert = (c: unknown): c is string => typeof c === 'string';
+
+/**
+ * Append a component, merging it with the last one where possible
+ */
+function push(op: TextOperation, component: number | string): void {
+  if (component === 0 || component === '') return;
+  const last = op[op.length - 1];
+  if (isInsert(component)) {
+    // Keep inserts before deletes at the same position
+    if (isDelete(last)) {
+      const before = op[op.length - 2];
+      if (isInsert(before)) op[op.length - 2] = before + component;
+      else op.splice(op.length - 1, 0, component);
+      return;
+    }
+    if (isInsert(last)) op[op.length - 1] = last + component;
+    else op.push(component);
+    return;
+  }
+  if ((isRetain(component) && isRetain(last)) || (isDelete(component) && isDelete(last))) {
+    op[op.length - 1] = (last as number) + component;
+  } else {
+    op.push(component);
+  }
+}
+
+/**
+ * Whether a value is a well-formed text operation
+ */
+export function isTextOperation(value: unknown): value is TextOperation {
+  return (
+    Array.isArray(value) &&
+    value.every((c) => (typeof c === 'number' && Number.isInteger(c)) || typeof c === 'string')
+  );
+}
+
+/**
+ * Merge adjacent components and drop empty ones
+ */
+export function normalize(op: TextOperation): TextOperation {
+  const result: TextOperation = [];
+  for (const component of op) push(result, component);
+  return result;
+}
+
+/** Length of the text an operation applies to */
+export function baseLength(op: TextOperation): number {
+  return op.reduce<number>((n, c) => (isInsert(c) ? n : n + Math.abs(c)), 0);
+}
+
+/** Length of the text an operation produces */
+export function targetLength(op: TextOperation): number {
+  return op.reduce<number>((n, c) => (isInsert(c) ? n + c.length : isRetain(c) ? n + c : n), 0);
+}
+
+/**
+ * Apply an operation to a text
+ */
+export function apply(text: string, op: TextOperation): string {
+  if (baseLength(op) !== text.length) {
+    throw new Error(`Operation applies to a text of length ${baseLength(op)}, not ${text.length}`);
+  }
+  let result = '';
+  let index = 0;
+  for (const component of op) {
+    if (isInsert(component)) {
+      result += component;
+    } else if (isRetain(component)) {
+      result += text.slice(index, index + component);
+      index += component;
+    } else {
+      index -= component;
+    }
+  }
+  return result;
+}
+
+/**
+ * Transform two concurrent operations against each other
+ */
+export function transform(a: TextOperation, b: TextOperation): [TextOperation, TextOperation] {
+  if (baseLength(a) !== baseLength(b)) {
+    throw new Error('Concurrent operations must apply to the same text');
+  }
+  const a1: TextOperation = [];
+  const b1: TextOperation = [];
+  const as = normalize(a);
+  const bs = normalize(b);
+  let i = 0;
+  let j = 0;
+  let x: number | string | undefined = as[i++];
+  let y: number | string | undefined = bs[j++];
+
+  while (x !== undefined || y !== undefined) {
+    if (isInsert(x)) {
+      push(a1, x);
+      push(b1, x.length);
+      x = as[i++];
+      continue;
+    }
+    if (isInsert(y)) {
+      push(a1, y.length);
+      push(b1, y);
+      y = bs[j++];
+      continue;
+    }
+    if (x === undefined || y === undefined) {
+      throw new Error('Concurrent operations must apply to the same text');
+    }
+
+    const length = Math.min(Math.abs(x), Math.abs(y));
+    if (isRetain(x) && isRetain(y)) {
+      push(a1, length);
+      push(b1, length);
+    } else if (isDelete(x) && isRetain(y)) {
+      push(a1, -length);
+    } else if (isRetain(x) && isDelete(y)) {
+      push(b1, -length);
+    }
+    // Both deleted the same characters: nothing left to do
+
+    x = Math.abs(x) === length ? as[i++] : x + (x > 0 ? -length : length);
+    y = Math.abs(y) === length ? bs[j++] : y + (y > 0 ? -length : length);
+  }
+
+  return [a1, b1];
+}
@@ -12,16 +12,51 @@ import type {
   PluginStartupResult,
   CollaborationSession,
   WebSocketAuthConfig,
+  RoomConfig,
+  RoomClient,
+  AwarenessCursor,
+  AwarenessPresence,
+  AwarenessSelection,
+  AwarenessState,
+  CollaborationConfig,
+  DocumentRef,
+  ClusterConfig,
+  EventLogConfig,
+  DeliveryConfig,
 } from './types.js';
 import { WebSocketServer, WebSocket } from 'ws';
 import { randomUUID } from 'crypto';
 import type { IncomingMessage } from 'http';
+import { RoomManager, parseRecordContext, visiblePresence } from './rooms.js';
+import {
+  CollaborationEngine,
+  CollaborationError,
+  createObjectQLDocumentStore,
+  toDocumentId,
+} from './collaboration.js';
+import type { CollaborationDocument, DocumentState } from './collaboration.js';
+import { isTextOperation } from './ot.js';
+import { createBroker } from './broker.js';
+import { EventLog } from './event-log.js';
+import type { EventLogState, LoggedEvent } from './event-log.js';
+import { FULL_ACCESS, NO_ACCESS, applyReadAccess, isOtherTenant } from './delivery.js';
+import type { ReadAccess } from './delivery.js';
 
 export interface RealtimePluginOptions {
   port?: number;
   path?: string;
   /** Authentication configuration for WebSocket connections */
   auth?: WebSocketAuthConfig;
+  /** Presence / awareness rooms */
+  rooms?: RoomConfig;
+  /** Collaborative text editing */
+  collaboration?: CollaborationConfig;
+  /** Fan-out between replicas */
+  cluster?: ClusterConfig;
+  /** Event log for resuming subscriptions */
+  eventLog?: EventLogConfig;
+  /** Permission checks of delivered events */
+  delivery?: DeliveryConfig;
 }
 
 // Interfaces based on @objectstack/spec/api/websocket.zod
@@ -74,6 +109,27 @@ interface EventMessage extends BaseMessage {
   object?: string;
   payload: any;
   userId?: string;
+  /** Channel of the event and its offset in the channel */
+  channel?: string;
+  offset?: number;
+}
+
+/** Subscribe, and receive the events missed since the given offsets */
+interface ResumeMessage extends BaseMessage {
+  type: 'resume';
+  subscription: SubscribeMessage['subscription'];
+  /** Stream the offsets belong to, from a subscribe or resume ack */
+  stream?: string;
+  /** Last offset received per channel; channels not listed start from 0 */
+  offsets?: Record<string, number>;
+}
+
+/** Missed events that can no longer be replayed; the client refetches */
+interface ResyncMessage extends BaseMessage {
+  type: 'resync';
+  subscriptionId: string;
+  /** Channels to refetch; all channels of the subscription when unset */
+  channels?: string[];
 }
 
 interface AckMessage extends BaseMessage {
@@ -81,26 +137,113 @@ interface AckMessage extends BaseMessage {
   ackMessageId: string;
   success: boolean;
   error?: string;
+  /** Revision assigned to an acknowledged OT operation */
+  revision?: number;
+  /** Event stream and latest offsets of the channels of a subscription */
+  stream?: string;
+  offsets?: Record<string, number>;
 }
 
 interface PresenceMessage extends BaseMessage {
   type: 'presence';
-  presence: {
-    userId: string;
-    status: 'online' | 'offline' | 'away' | 'busy';
-    context?: any;
-    lastActive: string;
-  };
+  /** Room the presence applies to; global presence has none */
+  contextId?: string;
+  presence: AwarenessPresence & { context?: any };
+}
+
+interface JoinMessage extends BaseMessage {
+  type: 'join';
+  contextId: string;
+  presence?: Partial<AwarenessPresence>;
+}
+
+interface LeaveMessage extends BaseMessage {
+  type: 'leave';
+  contextId: string;
+}
+
+interface DocOpenMessage extends BaseMessage, DocumentRef {
+  type: 'doc-open';
+}
+
+interface DocCloseMessage extends BaseMessage {
+  type: 'doc-close';
+  documentId: string;
+}
+
+interface OtOperationMessage extends BaseMessage {
+  type: 'ot-operation';
+  documentId: string;
+  /** Revision the operation was made against */
+  revision: number;
+  operation: unknown;
+}
+
+/** Text and revision of a document, sent to a connection that opens it */
+interface DocStateMessage extends BaseMessage, DocumentRef {
+  type: 'doc-state';
+  documentId: string;
+  revision: number;
+  content: string;
+}
+
+/** Snapshot of a room, sent to a connection that joins it */
+interface AwarenessMessage extends BaseMessage {
+  type: 'awareness';
+  state: AwarenessState;
 }
 
 interface ClientState {
+  /** Connection identifier */
+  clientId: string;
   subscriptions: Map<string, SubscribeMessage['subscription']>;
   /** Authenticated user ID (set during connection handshake) */
   userId?: string;
   /** Authenticated user roles */
   roles?: string[];
+  /** Authenticated user's position in the role hierarchy */
+  roleName?: string;
+  /** Authenticated user's tenant */
+  tenantId?: string;
+  /** Room access decisions, by context ID */
+  roomAccess: Map<string, { allowed: Promise<boolean>; checkedAt: number }>;
+  /** Events being sent, in order */
+  outbox: Promise<void>;
+}
+
+/** Broker channels between nodes */
+type ClusterChannel = 'events' | 'rooms' | 'documents' | 'nodes';
+
+/** A document being copied from another node */
+interface DocumentSync {
+  requestId?: string;
+  /** Whether this node's sync request went out; later operations are buffered */
+  started: boolean;
+  buffer: any[];
+  /** Nodes that answered without a copy */
+  replied: Set<string>;
+  resolve?: (state?: DocumentState) => void;
+}
+
+/** The event log being copied from another node */
+interface LogSync {
+  requestId: string;
+  /** Whether this node's sync request went out; later events are buffered */
+  started: boolean;
+  buffer: any[];
+  /** Nodes that answered without a copy */
+  replied: Set<string>;
+  resolve: (state?: EventLogState) => void;
 }
 
+/** An event to deliver; offsets are assigned when it is logged */
+type RealtimeEvent = Omit<LoggedEvent, 'channel' | 'offset'> & Partial<LoggedEvent>;
+
+/** Awareness messages scoped to a room */
+const ROOM_MESSAGE_TYPES = ['cursor', 'selection', 'edit'];
+
+const PRESENCE_STATUSES: AwarenessPresence['status'][] = ['online', 'offline', 'away', 'busy'];
+
 export const createRealtimePlugin = (
   options: RealtimePluginOptions = {},
 ): Plugin & IRealtimeService => {
@@ -110,6 +253,48 @@ export const createRealtimePlugin = (
   let pluginCtx: PluginContext | undefined;
   const collaborationSessions = new Map<string, CollaborationSession>();
   const authConfig: WebSocketAuthConfig = options.auth ?? { required: true };
+  const roomConfig: RoomConfig = options.rooms ?? {};
+  const idleTimeoutMs = roomConfig.idleTimeoutMs ?? 60_000;
+  const permissionCacheMs = roomConfig.permissionCacheMs ?? 30_000;
+  const rooms = new RoomManager(idleTimeoutMs);
+  /** Sockets by client ID, to reach room members */
+  const clientSockets = new Map<string, WebSocket>();
+  let roomSweepInterval: ReturnType<typeof setInterval> | undefined;
+  const collaborationConfig: CollaborationConfig = options.collaboration ?? {};
+  const textFieldTypes = collaborationConfig.textFieldTypes ?? [
+    'text',
+    'textarea',
+    'markdown',
+    'html',
+  ];
+  const documents = new CollaborationEngine(
+    collaborationConfig.store ?? createObjectQLDocumentStore(() => (pluginCtx as any)?.broker),
+    collaborationConfig.historyLimit ?? 500,
+    (documentId) => loadClusterState(documentId),
+  );
+  /** Pending work per document, so operations are applied and relayed in order */
+  const documentQueues = new Map<string, Promise<void>>();
+  let snapshotInterval: ReturnType<typeof setInterval> | undefined;
+  const clusterConfig: ClusterConfig = options.cluster ?? {};
+  const nodeId = clusterConfig.nodeId ?? randomUUID();
+  const broker = createBroker(clusterConfig);
+  const channelPrefix = clusterConfig.channelPrefix ?? 'objectos:realtime:';
+  /** Other nodes, with when they were last heard from */
+  const peers = new Map<string, number>();
+  const brokerSubscriptions: Array<() => Promise<void>> = [];
+  let clusterHeartbeat: ReturnType<typeof setInterval> | undefined;
+  const documentSyncs = new Map<string, DocumentSync>();
+  /** Without a broker configured, the node is on its own */
+  const clustered = !!clusterConfig.broker && clusterConfig.broker !== 'memory';
+  const eventLog = new EventLog(options.eventLog?.maxEventsPerChannel ?? 1000);
+  let logSync: LogSync | undefined;
+  /** Settles once the event log is copied from the other nodes */
+  let logReady: Promise<void> = Promise.resolve();
+  const deliveryConfig: DeliveryConfig = options.delivery ?? {};
+  const deliveryPermissionCacheMs = deliveryConfig.permissionCacheMs ?? 30_000;
+  const tenantField = deliveryConfig.tenantField ?? '_organizationId';
+  /** Read access of users to objects, by tenant, user and object */
+  const readAccessCache = new Map<string, { access: Promise<ReadAccess>; checkedAt: number }>();
 
   // ── Auth: Token extraction from HTTP upgrade request ─────────────────────
   const extractToken = (req: IncomingMessage): string | null => {
@@ -137,6 +322,21 @@ export const createRealtimePlugin = (
     }
   };
 
+  const registerClient = (
+    ws: WebSocket,
+    identity: { userId?: string; roles?: string[]; roleName?: string; tenantId?: string } = {},
+  ): void => {
+    const clientId = randomUUID();
+    clientStates.set(ws, {
+      clientId,
+      subscriptions: new Map(),
+      roomAccess: new Map(),
+      outbox: Promise.resolve(),
+      ...identity,
+    });
+    clientSockets.set(clientId, ws);
+  };
+
   // ── Auth: Session heartbeat re-validation interval (5 minutes) ───────────
   let heartbeatInterval: ReturnType<typeof setInterval> | undefined;
 
@@ -198,6 +398,1052 @@ export const createRealtimePlugin = (
     }
   };
 
+  const send = (ws: WebSocket, message: object): void => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  };
+
+  const sendAck = (ws: WebSocket, ackMessageId: string, success: boolean, error?: string) => {
+    const ack: AckMessage = {
+      messageId: randomUUID(),
+      timestamp: new Date().toISOString(),
+      type: 'ack',
+      ackMessageId,
+      success,
+      ...(error ? { error } : {}),
+    };
+    send(ws, ack);
+  };
+
+  const sendError = (ws: WebSocket, code: string, message: string) => {
+    send(ws, {
+      type: 'error',
+      messageId: randomUUID(),
+      timestamp: new Date().toISOString(),
+      code,
+      message,
+    });
+  };
+
+  /** The permissions service, if installed */
+  const getPermissionsService = (): any => {
+    try {
+      return pluginCtx?.getService('permissions');
+    } catch {
+      return undefined;
+    }
+  };
+
+  // ── Rooms: access ────────────────────────────────────────────────────────
+
+  /**
+   * Whether a connection may join and receive from a room (`read`), or edit
+   * its documents (`update`). Record rooms (`record:<object>:<id>`) require
+   * that access to the record; without a permissions service every room is
+   * open.
+   */
+  const authorizeRoom = async (
+    state: ClientState,
+    contextId: string,
+    action: 'read' | 'update',
+  ): Promise<boolean> => {
+    const client: RoomClient = {
+      userId: state.userId,
+      roles: state.roles,
+      roleName: state.roleName,
+      tenantId: state.tenantId,
+    };
+    if (roomConfig.authorize) return roomConfig.authorize(client, contextId, action);
+
+    const record = parseRecordContext(contextId);
+    if (!record) return true;
+
+    const permissions = getPermissionsService();
+    if (!permissions?.explain) return true;
+    if (!state.userId) return false;
+
+    const explanation = await permissions.explain({
+      context: {
+        userId: state.userId,
+        profiles: state.roles ?? [],
+        roleName: state.roleName,
+        organizationId: state.tenantId,
+      },
+      objectName: record.objectName,
+      action,
+      recordId: record.recordId,
+    });
+    return explanation?.allowed === true;
+  };
+
+  /** Room access of a connection, reused for `permissionCacheMs` */
+  const canAccessRoom = (
+    state: ClientState,
+    contextId: string,
+    action: 'read' | 'update' = 'read',
+  ): Promise<boolean> => {
+    const key = action === 'read' ? contextId : `${action}:${contextId}`;
+    const cached = state.roomAccess.get(key);
+    if (cached && Date.now() - cached.checkedAt < permissionCacheMs) return cached.allowed;
+
+    const allowed = authorizeRoom(state, contextId, action).catch(() => false);
+    state.roomAccess.set(key, { allowed, checkedAt: Date.now() });
+    return allowed;
+  };
+
+  /**
+   * Send a message to the members of a room on this node that may read it
+   */
+  const deliverToRoom = async (
+    contextId: string,
+    message: object,
+    exceptClientId?: string,
+    only?: Set<string>,
+  ) => {
+    const json = JSON.stringify(message);
+    await Promise.all(
+      rooms.getMembers(contextId).map(async (member) => {
+        if (member.clientId === exceptClientId || (only && !only.has(member.clientId))) return;
+        const client = clientSockets.get(member.clientId);
+        const state = client && clientStates.get(client);
+        if (!client || !state) return;
+        if (!(await canAccessRoom(state, contextId))) return;
+        if (client.readyState === WebSocket.OPEN) client.send(json);
+      }),
+    );
+  };
+
+  /**
+   * Send a message to the members of a room, on every node
+   */
+  const sendToRoom = async (contextId: string, message: object, except?: WebSocket) => {
+    publishCluster('rooms', { kind: 'message', contextId, message });
+    await deliverToRoom(contextId, message, except && clientStates.get(except)?.clientId);
+  };
+
+  /** Share the membership of a connection in a room with the other nodes */
+  const shareMember = (contextId: string, clientId: string) => {
+    publishCluster('rooms', {
+      kind: 'member',
+      contextId,
+      clientId,
+      member: rooms.getMember(contextId, clientId),
+    });
+  };
+
+  // ── Rooms: messages ──────────────────────────────────────────────────────
+
+  /** Presence fields a client may set */
+  const toPresenceUpdate = (input: any): Partial<AwarenessPresence> => {
+    const update: Partial<AwarenessPresence> = {};
+    if (!input || typeof input !== 'object') return update;
+    for (const key of ['displayName', 'avatarUrl', 'color'] as const) {
+      if (typeof input[key] === 'string') update[key] = input[key];
+    }
+    if (PRESENCE_STATUSES.includes(input.status)) update.status = input.status;
+    if (input.activeContext && typeof input.activeContext === 'object') {
+      update.activeContext = input.activeContext;
+    }
+    return update;
+  };
+
+  /**
+   * Presence of a connection joining a room. Authenticated connections
+   * are their user; others may name themselves.
+   */
+  const toPresence = (state: ClientState, contextId: string, input: any): AwarenessPresence => {
+    const record = parseRecordContext(contextId);
+    const claimedUserId = typeof input?.userId === 'string' && input.userId ? input.userId : '';
+    return {
+      userId: state.userId ?? (claimedUserId || state.clientId),
+      status: 'online',
+      activeContext: record ? { object: record.objectName, recordId: record.recordId } : undefined,
+      ...toPresenceUpdate(input),
+      lastActive: new Date().toISOString(),
+    };
+  };
+
+  const presenceMessage = (contextId: string, presence: AwarenessPresence): PresenceMessage => ({
+    messageId: randomUUID(),
+    timestamp: new Date().toISOString(),
+    type: 'presence',
+    contextId,
+    presence,
+  });
+
+  /** Room of a message: its `contextId`, or the record it is about */
+  const resolveContextId = (data: any): string | undefined => {
+    if (typeof data.contextId === 'string' && data.contextId) return data.contextId;
+    if (data.object && data.recordId) return `record:${data.object}:${data.recordId}`;
+    return undefined;
+  };
+
+  const handleJoin = async (ws: WebSocket, msg: JoinMessage, messageId: string) => {
+    const state = clientStates.get(ws);
+    if (!state) return;
+    if (typeof msg.contextId !== 'string' || msg.contextId === '') {
+      sendAck(ws, messageId, false, 'contextId is required');
+      return;
+    }
+
+    const contextId = msg.contextId;
+    if (!(await canAccessRoom(state, contextId))) {
+      sendAck(ws, messageId, false, 'Permission denied');
+      return;
+    }
+    // Disconnected while checking access
+    if (clientStates.get(ws) !== state) return;
+
+    const member = rooms.join(
+      contextId,
+      state.clientId,
+      toPresence(state, contextId, msg.presence),
+    );
+    shareMember(contextId, state.clientId);
+    sendAck(ws, messageId, true);
+    const awareness: AwarenessMessage = {
+      messageId: randomUUID(),
+      timestamp: new Date().toISOString(),
+      type: 'awareness',
+      state: rooms.getState(contextId)!,
+    };
+    send(ws, awareness);
+    await sendToRoom(contextId, presenceMessage(contextId, member.presence), ws);
+  };
+
+  const handleLeave = async (ws: WebSocket, msg: LeaveMessage, messageId: string) => {
+    const state = clientStates.get(ws);
+    if (!state) return;
+    const member = rooms.leave(msg.contextId, state.clientId);
+    sendAck(ws, messageId, !!member, member ? undefined : `Not in room ${msg.contextId}`);
+    if (member) shareMember(msg.contextId, state.clientId);
+    for (const document of documents.list()) {
+      if (contextOf(document) === msg.contextId) closeDocument(document.documentId, state.clientId);
+    }
+    if (member) {
+      await sendToRoom(
+        msg.contextId,
+        presenceMessage(msg.contextId, { ...member.presence, status: 'offline' }),
+      );
+    }
+  };
+
+  /** Presence update for one room, or every room the connection is in */
+  const handlePresence = async (ws: WebSocket, data: any) => {
+    const state = clientStates.get(ws);
+    if (!state) return;
+    const contextIds = (
+      data.contextId ? [data.contextId] : rooms.getRoomsOf(state.clientId)
+    ).filter((contextId: string) => rooms.getMember(contextId, state.clientId));
+    if (contextIds.length === 0) {
+      sendError(
+        ws,
+        'NOT_IN_ROOM',
+        data.contextId ? `Not in room ${data.contextId}` : 'Join a room first',
+      );
+      return;
+    }
+
+    const update = toPresenceUpdate(data.presence);
+    for (const contextId of contextIds) {
+      const member = rooms.updatePresence(contextId, state.clientId, update)!;
+      shareMember(contextId, state.clientId);
+      await sendToRoom(contextId, presenceMessage(contextId, member.presence), ws);
+    }
+  };
+
+  /** Cursor, selection and edit messages go to the other members of their room */
+  const handleRoomMessage = async (ws: WebSocket, data: any) => {
+    const state = clientStates.get(ws);
+    if (!state) return;
+    const contextId = resolveContextId(data);
+    const activity = contextId ? rooms.touch(contextId, state.clientId) : undefined;
+    if (!contextId || !activity) {
+      sendError(
+        ws,
+        'NOT_IN_ROOM',
+        contextId ? `Not in room ${contextId}` : 'contextId is required',
+      );
+      return;
+    }
+
+    const { member, resumed } = activity;
+    const userId = member.presence.userId;
+    if (data.type === 'cursor') {
+      const cursor: AwarenessCursor = {
+        userId,
+        object: data.object,
+        recordId: data.recordId,
+        field: data.field,
+        offset: data.offset,
+        line: data.line,
+        column: data.column,
+      };
+      rooms.setCursor(contextId, state.clientId, cursor);
+    } else if (data.type === 'selection') {
+      const selection: AwarenessSelection = {
+        userId,
+        object: data.object,
+        recordId: data.recordId,
+        field: data.field,
+        anchor: data.anchor,
+        head: data.head,
+      };
+      rooms.setSelection(contextId, state.clientId, selection);
+    }
+    shareMember(contextId, state.clientId);
+
+    if (resumed) {
+      await sendToRoom(contextId, presenceMessage(contextId, member.presence), ws);
+    }
+    await sendToRoom(
+      contextId,
+      {
+        ...data,
+        contextId,
+        userId,
+        messageId: randomUUID(),
+        timestamp: new Date().toISOString(),
+      },
+      ws,
+    );
+  };
+
+  // ── Collaboration: documents ─────────────────────────────────────────────
+
+  const contextOf = (ref: DocumentRef) => `record:${ref.object}:${ref.recordId}`;
+
+  /** Run document work after the work queued before it */
+  const enqueue = (documentId: string, task: () => Promise<void>): Promise<void> => {
+    const run = (documentQueues.get(documentId) ?? Promise.resolve()).then(task);
+    const settled = run.catch(() => undefined);
+    documentQueues.set(documentId, settled);
+    void settled.then(() => {
+      if (documentQueues.get(documentId) === settled) documentQueues.delete(documentId);
+    });
+    return run;
+  };
+
+  /** Keep the collaboration session of a document in step with its connections */
+  const syncSession = (document: CollaborationDocument) => {
+    const session = Array.from(collaborationSessions.values()).find(
+      (s) => s.documentId === document.documentId,
+    );
+    const participants = Array.from(
+      new Set(
+        Array.from(document.clients)
+          .map((clientId) => rooms.getMember(contextOf(document), clientId)?.presence.userId)
+          .filter((userId): userId is string => !!userId),
+      ),
+    );
+    if (document.clients.size === 0) {
+      if (session) collaborationSessions.delete(session.sessionId);
+    } else if (session) {
+      session.participants = participants;
+    } else {
+      const created: CollaborationSession = {
+        sessionId: randomUUID(),
+        documentId: document.documentId,
+        participants,
+        createdAt: new Date().toISOString(),
+        mode: 'edit',
+      };
+      collaborationSessions.set(created.sessionId, created);
+    }
+  };
+
+  /** Write a document back to its record, logging failures */
+  const snapshotDocument = async (documentId?: string) => {
+    for (const result of await documents.snapshot(documentId)) {
+      if (result.error) {
+        pluginCtx?.logger.warn(
+          `[Realtime] Failed to save document ${result.documentId}: ${result.error.message}`,
+        );
+      }
+    }
+  };
+
+  /** Fields of an object, from the metadata service or ObjectQL */
+  const getObjectFields = (objectName: string): Record<string, any> | undefined => {
+    const broker = (pluginCtx as any)?.broker;
+    const meta = broker?.getService?.('meta') ?? broker?.metadata;
+    let objects: any[] = meta?.getItems?.('object') ?? meta?.objects ?? [];
+    if (!objects.some((o) => o?.name === objectName)) {
+      try {
+        objects = (pluginCtx?.getService('objectql') as any)?.getObjects?.() ?? [];
+      } catch {
+        objects = [];
+      }
+    }
+    return objects.find((o) => o?.name === objectName)?.fields;
+  };
+
+  /**
+   * Whether a connection may read (`read`) or edit (`update`) a field as a
+   * document: its field-level security must show the field, or let the
+   * user edit it. Without a permissions service every field is open.
+   */
+  const authorizeField = async (
+    state: ClientState,
+    ref: DocumentRef,
+    action: 'read' | 'update',
+  ): Promise<boolean> => {
+    const permissions = getPermissionsService();
+    if (!permissions?.explain) return true;
+    if (!state.userId) return false;
+
+    const explanation = await permissions.explain({
+      context: {
+        userId: state.userId,
+        profiles: state.roles ?? [],
+        roleName: state.roleName,
+        organizationId: state.tenantId,
+      },
+      objectName: ref.object,
+      action,
+      recordId: ref.recordId,
+      fields: [ref.field],
+    });
+    if (explanation?.allowed !== true) return false;
+    if (explanation.hiddenFields?.includes(ref.field)) return false;
+    const field = explanation.fields?.find((f: any) => f.field === ref.field);
+    return action === 'read' ? field?.read !== false : field?.edit !== false;
+  };
+
+  /** Field access of a connection, reused for `permissionCacheMs` */
+  const canAccessField = (
+    state: ClientState,
+    ref: DocumentRef,
+    action: 'read' | 'update',
+  ): Promise<boolean> => {
+    const key = `${action}:${toDocumentId(ref)}`;
+    const cached = state.roomAccess.get(key);
+    if (cached && Date.now() - cached.checkedAt < permissionCacheMs) return cached.allowed;
+
+    const allowed = authorizeField(state, ref, action).catch(() => false);
+    state.roomAccess.set(key, { allowed, checkedAt: Date.now() });
+    return allowed;
+  };
+
+  /** Close a document for a connection; the last one out saves and unloads it */
+  const closeDocument = (documentId: string, clientId: string) => {
+    const document = documents.get(documentId);
+    if (!document) return;
+    const emptied = documents.close(documentId, clientId);
+    syncSession(document);
+    if (!emptied) return;
+    void enqueue(documentId, async () => {
+      await snapshotDocument(documentId);
+      if (emptied.revision === emptied.savedRevision) documents.unload(documentId);
+    });
+  };
+
+  const handleDocOpen = async (ws: WebSocket, msg: DocOpenMessage, messageId: string) => {
+    const state = clientStates.get(ws);
+    if (!state) return;
+    const { object, recordId, field } = msg;
+    if (![object, recordId, field].every((v) => typeof v === 'string' && v !== '')) {
+      sendAck(ws, messageId, false, 'object, recordId and field are required');
+      return;
+    }
+    const contextId = contextOf(msg);
+    if (!rooms.getMember(contextId, state.clientId)) {
+      sendError(ws, 'NOT_IN_ROOM', `Not in room ${contextId}`);
+      return;
+    }
+    if (!textFieldTypes.includes(getObjectFields(object)?.[field]?.type)) {
+      sendAck(ws, messageId, false, `${object}.${field} is not a text field`);
+      return;
+    }
+    if (!(await canAccessField(state, { object, recordId, field }, 'read'))) {
+      sendAck(ws, messageId, false, 'Permission denied');
+      return;
+    }
+
+    let document: CollaborationDocument;
+    try {
+      document = await openDocument({ object, recordId, field }, state.clientId);
+    } catch (error) {
+      sendAck(ws, messageId, false, (error as Error).message);
+      return;
+    }
+    // Disconnected while loading
+    if (clientStates.get(ws) !== state) {
+      closeDocument(document.documentId, state.clientId);
+      return;
+    }
+    syncSession(document);
+
+    sendAck(ws, messageId, true);
+    const docState: DocStateMessage = {
+      messageId: randomUUID(),
+      timestamp: new Date().toISOString(),
+      type: 'doc-state',
+      documentId: document.documentId,
+      object,
+      recordId,
+      field,
+      revision: document.revision,
+      content: document.content,
+    };
+    send(ws, docState);
+  };
+
+  const handleDocClose = (ws: WebSocket, msg: DocCloseMessage, messageId: string) => {
+    const state = clientStates.get(ws);
+    if (!state) return;
+    const open = documents.get(msg.documentId)?.clients.has(state.clientId) ?? false;
+    sendAck(ws, messageId, open, open ? undefined : `Document ${msg.documentId} is not open`);
+    if (open) closeDocument(msg.documentId, state.clientId);
+  };
+
+  /**
+   * Apply an OT operation and relay it, as applied, to the other connections
+   * that opened the document
+   */
+  const handleOtOperation = async (ws: WebSocket, msg: OtOperationMessage, messageId: string) => {
+    const state = clientStates.get(ws);
+    if (!state) return;
+    const document = documents.get(msg.documentId);
+    if (!document || !document.clients.has(state.clientId)) {
+      sendAck(ws, messageId, false, `Document ${msg.documentId} is not open`);
+      return;
+    }
+    if (!isTextOperation(msg.operation)) {
+      sendAck(ws, messageId, false, 'Invalid operation');
+      return;
+    }
+    const operation = msg.operation;
+    const contextId = contextOf(document);
+
+    if (
+      !(await canAccessRoom(state, contextId, 'update')) ||
+      !(await canAccessField(state, document, 'update'))
+    ) {
+      sendAck(ws, messageId, false, 'Permission denied');
+      return;
+    }
+    rooms.touch(contextId, state.clientId);
+
+    // Every node holding the document applies operations in broker order
+    publishCluster('documents', {
+      kind: 'op',
+      documentId: document.documentId,
+      revision: msg.revision,
+      operation,
+      clientId: state.clientId,
+      messageId,
+      userId: rooms.getMember(contextId, state.clientId)?.presence.userId ?? state.userId,
+      editor: {
+        userId: state.userId,
+        roles: state.roles,
+        roleName: state.roleName,
+        tenantId: state.tenantId,
+      },
+    });
+  };
+
+  /**
+   * Apply an operation from the broker. Its node acknowledges it to the
+   * sender; each node relays it, as applied, to its own connections that
+   * opened the document.
+   */
+  const applyOperation = (msg: any) => {
+    const sender = msg.nodeId === nodeId ? clientSockets.get(msg.clientId) : undefined;
+    let applied: ReturnType<CollaborationEngine['submit']>;
+    try {
+      applied = documents.submit(msg.documentId, msg.revision, msg.operation, msg.editor);
+    } catch (error) {
+      if (sender) {
+        const code = error instanceof CollaborationError ? `${error.code}: ` : '';
+        sendAck(sender, msg.messageId, false, `${code}${(error as Error).message}`);
+      }
+      return;
+    }
+
+    if (sender) {
+      const ack: AckMessage = {
+        messageId: randomUUID(),
+        timestamp: new Date().toISOString(),
+        type: 'ack',
+        ackMessageId: msg.messageId,
+        success: true,
+        revision: applied.revision,
+      };
+      send(sender, ack);
+    }
+    const document = documents.get(msg.documentId)!;
+    const relay = {
+      messageId: randomUUID(),
+      timestamp: new Date().toISOString(),
+      type: 'ot-operation',
+      documentId: document.documentId,
+      revision: applied.revision,
+      operation: applied.operation,
+      userId: msg.userId,
+    };
+    void enqueue(document.documentId, () =>
+      deliverToRoom(contextOf(document), relay, msg.clientId, document.clients),
+    );
+  };
+
+  // ── Cluster ──────────────────────────────────────────────────────────────
+
+  const publishCluster = (channel: ClusterChannel, message: Record<string, unknown>) => {
+    broker.publish(`${channelPrefix}${channel}`, { ...message, nodeId }).catch((error) => {
+      pluginCtx?.logger.warn(`[Realtime] Failed to publish to ${channel}: ${error.message}`);
+    });
+  };
+
+  /**
+   * Open a document for a connection. A document not open on this node is
+   * copied from a node that has it open, or loaded from its record;
+   * operations arriving meanwhile are applied once it is loaded.
+   */
+  const openDocument = async (ref: DocumentRef, clientId: string) => {
+    const documentId = toDocumentId(ref);
+    if (!documents.get(documentId) && !documentSyncs.has(documentId)) {
+      documentSyncs.set(documentId, { started: peers.size === 0, buffer: [], replied: new Set() });
+    }
+    try {
+      return await documents.open(ref, clientId);
+    } finally {
+      const sync = documentSyncs.get(documentId);
+      if (sync && !sync.resolve) {
+        documentSyncs.delete(documentId);
+        if (documents.get(documentId)) sync.buffer.forEach(applyOperation);
+      }
+    }
+  };
+
+  /** Copy of a document from another node, if one has it open */
+  const loadClusterState = (documentId: string): Promise<DocumentState | undefined> => {
+    const sync = documentSyncs.get(documentId);
+    if (!sync || peers.size === 0) return Promise.resolve(undefined);
+    return new Promise((resolve) => {
+      const finish = (state?: DocumentState) => {
+        clearTimeout(timer);
+        sync.resolve = undefined;
+        resolve(state);
+      };
+      const timer = setTimeout(() => finish(undefined), clusterConfig.syncTimeoutMs ?? 1000);
+      sync.resolve = finish;
+      sync.requestId = randomUUID();
+      publishCluster('documents', { kind: 'sync-request', documentId, requestId: sync.requestId });
+    });
+  };
+
+  const onDocumentMessage = (msg: any) => {
+    const sync = documentSyncs.get(msg.documentId);
+    switch (msg.kind) {
+      case 'op':
+        if (sync) {
+          if (sync.started) sync.buffer.push(msg);
+        } else if (msg.nodeId === nodeId || documents.get(msg.documentId)) {
+          applyOperation(msg);
+        }
+        return;
+      case 'sync-request':
+        if (msg.nodeId === nodeId) {
+          if (sync && sync.requestId === msg.requestId) sync.started = true;
+          return;
+        }
+        publishCluster('documents', {
+          kind: 'sync-reply',
+          documentId: msg.documentId,
+          requestId: msg.requestId,
+          to: msg.nodeId,
+          state: sync ? undefined : documents.exportState(msg.documentId),
+        });
+        return;
+      case 'sync-reply': {
+        if (msg.to !== nodeId || !sync?.resolve || sync.requestId !== msg.requestId) return;
+        const { replied, resolve } = sync;
+        replied.add(msg.nodeId);
+        if (msg.state) resolve(msg.state);
+        else if (Array.from(peers.keys()).every((peer) => replied.has(peer))) resolve();
+        return;
+      }
+    }
+  };
+
+  const onRoomMessage = (msg: any) => {
+    if (msg.nodeId === nodeId) return;
+    if (msg.kind === 'member') {
+      if (msg.member) {
+        rooms.upsertRemote(msg.contextId, { ...msg.member, nodeId: msg.nodeId });
+      } else if (rooms.getMember(msg.contextId, msg.clientId)?.nodeId === msg.nodeId) {
+        rooms.leave(msg.contextId, msg.clientId);
+      }
+    } else if (msg.kind === 'message') {
+      void deliverToRoom(msg.contextId, msg.message);
+    }
+  };
+
+  /** Forget a node and the presence of its connections */
+  const dropNode = (peer: string) => {
+    peers.delete(peer);
+    for (const { contextId, member } of rooms.removeNode(peer)) {
+      void deliverToRoom(
+        contextId,
+        presenceMessage(contextId, { ...member.presence, status: 'offline' }),
+      );
+    }
+  };
+
+  const onNodeMessage = (msg: any) => {
+    if (msg.nodeId === nodeId) return;
+    if (msg.kind === 'bye') {
+      dropNode(msg.nodeId);
+      return;
+    }
+    const known = peers.has(msg.nodeId);
+    peers.set(msg.nodeId, Date.now());
+    if (!known) {
+      // Share this node's presence with the new node
+      for (const { contextId, member } of rooms.getLocalMembers()) {
+        shareMember(contextId, member.clientId);
+      }
+    }
+    if (msg.kind === 'hello') publishCluster('nodes', { kind: 'alive' });
+  };
+
+  // ── Events ───────────────────────────────────────────────────────────────
+
+  /** Whether a subscription is for an event, before its filters */
+  const isSubscribedTo = (
+    subscription: SubscribeMessage['subscription'],
+    event: RealtimeEvent,
+  ): boolean => {
+    // 1. Check Object filter
+    if (subscription.objects && event.object && !subscription.objects.includes(event.object)) {
+      return false;
+    }
+    // 2. Check Event Pattern
+    return subscription.events.some((pattern) => matchPattern(pattern, event.eventName));
+  };
+
+  /** 3. Check Complex Filters, on the payload as the recipient sees it */
+  const passesFilters = (subscription: SubscribeMessage['subscription'], payload: any): boolean =>
+    !subscription.filters?.conditions ||
+    subscription.filters.conditions.every((c: any) => checkFilter(payload, c));
+
+  const toEventMessage = (subscriptionId: string, event: RealtimeEvent): EventMessage => ({
+    messageId: randomUUID(),
+    timestamp: event.timestamp,
+    type: 'event',
+    subscriptionId,
+    eventName: event.eventName,
+    object: event.object,
+    payload: event.payload,
+    userId: event.userId,
+    channel: event.channel,
+    offset: event.offset,
+  });
+
+  /** What the user of a connection may read of an object, reused for `permissionCacheMs` */
+  const getReadAccess = (state: ClientState, objectName: string): Promise<ReadAccess> => {
+    const key = `${state.tenantId ?? ''}:${state.userId ?? ''}:${objectName}`;
+    const now = Date.now();
+    const cached = readAccessCache.get(key);
+    if (cached && now - cached.checkedAt < deliveryPermissionCacheMs) return cached.access;
+
+    if (readAccessCache.size >= 10_000) {
+      for (const [k, entry] of readAccessCache) {
+        if (now - entry.checkedAt >= deliveryPermissionCacheMs) readAccessCache.delete(k);
+      }
+    }
+    const access = explainReadAccess(state, objectName).catch(() => NO_ACCESS);
+    readAccessCache.set(key, { access, checkedAt: now });
+    return access;
+  };
+
+  const explainReadAccess = async (state: ClientState, objectName: string) => {
+    const permissions = getPermissionsService();
+    if (!permissions?.explain) return FULL_ACCESS;
+    if (!state.userId) return NO_ACCESS;
+
+    const explanation = await permissions.explain({
+      context: {
+        userId: state.userId,
+        profiles: state.roles ?? [],
+        roleName: state.roleName,
+        organizationId: state.tenantId,
+      },
+      objectName,
+      action: 'read',
+    });
+    return {
+      allowed: explanation?.allowed === true,
+      filters: explanation?.filters ?? {},
+      hiddenFields: explanation?.hiddenFields ?? [],
+    };
+  };
+
+  /**
+   * Queue an event for the subscriptions of a connection. Events reach a
+   * connection in order, as its user may see them: events addressed to
+   * other users, and record events outside the user's organization or read
+   * access are dropped, and hidden fields are removed before the
+   * subscription filters apply.
+   */
+  const queueEvent = (
+    client: WebSocket,
+    state: ClientState,
+    subscriptions: Array<SubscribeMessage['subscription']>,
+    event: RealtimeEvent,
+  ) => {
+    state.outbox = state.outbox
+      .then(async () => {
+        if (event.recipients && !(state.userId && event.recipients.includes(state.userId))) {
+          return;
+        }
+        let payload = event.payload;
+        if (event.object) {
+          if (isOtherTenant(payload, tenantField, state.tenantId)) return;
+          payload = applyReadAccess(payload, await getReadAccess(state, event.object));
+          if (payload === undefined) return;
+        }
+        for (const subscription of subscriptions) {
+          if (!passesFilters(subscription, payload)) continue;
+          send(client, toEventMessage(subscription.subscriptionId, { ...event, payload }));
+        }
+      })
+      .catch(() => {
+        /* keep delivering later events */
+      });
+  };
+
+  /**
+   * Send an event to the matching subscriptions of connections to this node
+   */
+  const deliverToSubscriptions = (event: RealtimeEvent) => {
+    if (!wss) return;
+
+    wss.clients.forEach((client) => {
+      if (client.readyState !== WebSocket.OPEN) return;
+
+      const state = clientStates.get(client);
+      if (!state) return;
+
+      const subscriptions = Array.from(state.subscriptions.values()).filter((subscription) =>
+        isSubscribedTo(subscription, event),
+      );
+      if (subscriptions.length > 0) queueEvent(client, state, subscriptions, event);
+    });
+  };
+
+  /** Send a message to every connection to this node */
+  const deliverToAll = (message: object) => {
+    if (!wss) return;
+    const msgStr = JSON.stringify(message);
+    wss.clients.forEach((c) => {
+      if (c.readyState === WebSocket.OPEN) c.send(msgStr);
+    });
+  };
+
+  /**
+   * Dispatch a spec event to the in-memory handler subscriptions
+   */
+  const dispatchToHandlers = (event: SpecRealtimeEventPayload) => {
+    handlerRegistry.forEach(({ channel, handler, options }) => {
+      const channelMatch =
+        channel === '*' || channel === event.type || event.type.startsWith(channel + '.');
+      if (!channelMatch) return;
+      if (options?.object && event.object !== options.object) return;
+      if (options?.eventTypes && !options.eventTypes.includes(event.type)) return;
+      try {
+        handler(event);
+      } catch {
+        /* swallow handler errors */
+      }
+    });
+  };
+
+  /**
+   * Deliver an event from the broker on this node. Every node logs events
+   * in the order the broker delivers them, so offsets agree across nodes.
+   */
+  const receiveEvent = (msg: any, log = true) => {
+    if (!wss) return;
+    const event: RealtimeEvent =
+      msg.kind === 'publish'
+        ? {
+            eventName: msg.event.type,
+            object: msg.event.object,
+            payload: msg.event.payload,
+            timestamp: msg.timestamp,
+          }
+        : {
+            eventName: msg.eventName,
+            object: msg.meta?.object,
+            payload: msg.payload,
+            userId: msg.meta?.userId,
+            recipients: msg.meta?.recipients,
+            timestamp: msg.timestamp,
+          };
+    deliverToSubscriptions(log ? eventLog.append(event) : event);
+    if (msg.kind === 'publish') dispatchToHandlers(msg.event);
+  };
+
+  /**
+   * Publish an event to every node, this one included. When the broker
+   * cannot be reached, the event is still delivered here, without an offset.
+   */
+  const publishEvent = (message: Record<string, unknown>) => {
+    const msg = { ...message, timestamp: new Date().toISOString(), nodeId };
+    broker.publish(`${channelPrefix}events`, msg).catch((error) => {
+      pluginCtx?.logger.warn(`[Realtime] Failed to publish to events: ${error.message}`);
+      receiveEvent(msg, false);
+    });
+  };
+
+  /**
+   * Copy the event log of the other nodes, so this node continues their
+   * offsets. Events arriving meanwhile are delivered once it is copied.
+   */
+  const syncEventLog = (): Promise<void> =>
+    new Promise((resolve) => {
+      const requestId = randomUUID();
+      const finish = (state?: EventLogState) => {
+        if (logSync?.requestId !== requestId) return;
+        clearTimeout(timer);
+        const { buffer } = logSync;
+        logSync = undefined;
+        if (state) eventLog.importState(state);
+        buffer.forEach((msg) => receiveEvent(msg));
+        resolve();
+      };
+      const timer = setTimeout(() => finish(), clusterConfig.syncTimeoutMs ?? 1000);
+      timer.unref?.();
+      logSync = { requestId, started: false, buffer: [], replied: new Set(), resolve: finish };
+      publishCluster('events', { kind: 'log-request', requestId });
+    });
+
+  const onEventMessage = (msg: any) => {
+    switch (msg.kind) {
+      case 'broadcast':
+      case 'publish':
+        if (!logSync) receiveEvent(msg);
+        else if (logSync.started) logSync.buffer.push(msg);
+        // Logged before the copy was taken
+        else receiveEvent(msg, false);
+        return;
+      case 'presence':
+        if (msg.nodeId !== nodeId) deliverToAll(msg.message);
+        return;
+      case 'log-request':
+        if (msg.nodeId === nodeId) {
+          if (logSync && logSync.requestId === msg.requestId) logSync.started = true;
+          return;
+        }
+        publishCluster('events', {
+          kind: 'log-reply',
+          requestId: msg.requestId,
+          to: msg.nodeId,
+          state: logSync ? undefined : eventLog.exportState(),
+        });
+        return;
+      case 'log-reply': {
+        if (msg.to !== nodeId || !logSync || logSync.requestId !== msg.requestId) return;
+        const { replied, resolve } = logSync;
+        replied.add(msg.nodeId);
+        if (msg.state) resolve(msg.state);
+        else if (peers.size > 0 && Array.from(peers.keys()).every((peer) => replied.has(peer))) {
+          resolve();
+        }
+        return;
+      }
+    }
+  };
+
+  // ── Events: subscriptions ────────────────────────────────────────────────
+
+  /** Logged channels a subscription receives events from */
+  const subscriptionChannels = (
+    subscription: SubscribeMessage['subscription'],
+    extra: string[] = [],
+  ): string[] =>
+    Array.from(new Set([...eventLog.getChannels(), ...extra])).filter(
+      (channel) => !subscription.objects || subscription.objects.includes(channel),
+    );
+
+  /** Acknowledge a subscription with the stream and its latest offsets */
+  const sendSubscribeAck = (
+    ws: WebSocket,
+    ackMessageId: string,
+    subscription: SubscribeMessage['subscription'],
+  ) => {
+    const ack: AckMessage = {
+      messageId: randomUUID(),
+      timestamp: new Date().toISOString(),
+      type: 'ack',
+      ackMessageId,
+      success: true,
+      stream: eventLog.streamId,
+      offsets: Object.fromEntries(
+        subscriptionChannels(subscription).map((channel) => [channel, eventLog.offset(channel)]),
+      ),
+    };
+    send(ws, ack);
+  };
+
+  const handleSubscribe = async (ws: WebSocket, msg: SubscribeMessage, messageId: string) => {
+    const state = clientStates.get(ws);
+    if (!state || !msg.subscription) return;
+    state.subscriptions.set(msg.subscription.subscriptionId, msg.subscription);
+    // Offsets are final once the log is copied from the other nodes
+    await logReady;
+    sendSubscribeAck(ws, messageId, msg.subscription);
+    pluginCtx?.logger.debug(`[Realtime] Subscribed: ${msg.subscription.subscriptionId}`);
+  };
+
+  /**
+   * Subscribe and replay the events missed since the client's offsets.
+   * Channels whose missed events are no longer kept — or all channels, when
+   * the offsets belong to another stream — are sent in a `resync` message.
+   */
+  const handleResume = async (ws: WebSocket, msg: ResumeMessage, messageId: string) => {
+    const state = clientStates.get(ws);
+    if (!state) return;
+    const subscription = msg.subscription;
+    if (!subscription?.subscriptionId || !Array.isArray(subscription.events)) {
+      sendAck(ws, messageId, false, 'resume requires a subscription');
+      return;
+    }
+
+    await logReady;
+    // Register, acknowledge and replay at once, so no event falls in between
+    state.subscriptions.set(subscription.subscriptionId, subscription);
+    sendSubscribeAck(ws, messageId, subscription);
+
+    const offsets = msg.offsets && typeof msg.offsets === 'object' ? msg.offsets : {};
+    const sameStream = msg.stream === eventLog.streamId;
+    const missing: string[] = [];
+    if (sameStream) {
+      for (const channel of subscriptionChannels(subscription, Object.keys(offsets))) {
+        const events = eventLog.since(channel, offsets[channel] ?? 0);
+        if (!events) {
+          missing.push(channel);
+          continue;
+        }
+        for (const event of events) {
+          if (isSubscribedTo(subscription, event)) queueEvent(ws, state, [subscription], event);
+        }
+      }
+    }
+
+    if (!sameStream || missing.length > 0) {
+      const resync: ResyncMessage = {
+        messageId: randomUUID(),
+        timestamp: new Date().toISOString(),
+        type: 'resync',
+        subscriptionId: subscription.subscriptionId,
+        ...(sameStream ? { channels: missing } : {}),
+      };
+      state.outbox = state.outbox.then(() => send(ws, resync));
+    }
+  };
+
   return {
     name: '@objectos/realtime',
     version: '0.1.0',
@@ -213,59 +1459,13 @@ export const createRealtimePlugin = (
         broadcast: (
           eventName: string,
           payload: any,
-          meta?: { object?: string; userId?: string },
+          meta?: { object?: string; userId?: string; recipients?: string[] },
         ) => {
-          if (!wss) return;
-
-          const timestamp = new Date().toISOString();
-
-          wss.clients.forEach((client) => {
-            if (client.readyState !== WebSocket.OPEN) return;
-
-            const state = clientStates.get(client);
-            if (!state) return;
-
-            // Check all subscriptions for this client
-            state.subscriptions.forEach((subscription) => {
-              // 1. Check Object filter
-              if (subscription.objects && meta?.object) {
-                if (!subscription.objects.includes(meta.object)) return;
-              }
-
-              // 2. Check Event Pattern
-              const isMatch = subscription.events.some((pattern) =>
-                matchPattern(pattern, eventName),
-              );
-
-              if (isMatch) {
-                // 3. Check Complex Filters
-                if (subscription.filters?.conditions) {
-                  const pass = subscription.filters.conditions.every((c: any) =>
-                    checkFilter(payload, c),
-                  );
-                  if (!pass) return;
-                }
-
-                // Send Event
-                const message: EventMessage = {
-                  messageId: randomUUID(),
-                  timestamp,
-                  type: 'event',
-                  subscriptionId: subscription.subscriptionId,
-                  eventName,
-                  object: meta?.object,
-                  payload,
-                  userId: meta?.userId,
-                };
-                client.send(JSON.stringify(message));
-              }
-            });
-          });
+          publishEvent({ kind: 'broadcast', eventName, payload, meta });
         },
 
         // Presence API
         updatePresence: (userId: string, status: any, context?: any) => {
-          if (!wss) return;
           const message: PresenceMessage = {
             messageId: randomUUID(),
             timestamp: new Date().toISOString(),
@@ -277,15 +1477,26 @@ export const createRealtimePlugin = (
               lastActive: new Date().toISOString(),
             },
           };
-          const msgStr = JSON.stringify(message);
-          wss.clients.forEach((c) => {
-            if (c.readyState === WebSocket.OPEN) c.send(msgStr);
-          });
+          publishCluster('events', { kind: 'presence', message });
+          deliverToAll(message);
         },
 
         // Allow adapters to get the raw WSS if needed
         getServer: () => wss,
 
+        // Rooms
+        getAwarenessState: (contextId: string) => rooms.getState(contextId) ?? null,
+        listRooms: () => rooms.getRoomIds(),
+
+        // Collaborative documents
+        getDocument: (documentId: string) => {
+          const document = documents.get(documentId);
+          return document
+            ? { documentId, content: document.content, revision: document.revision }
+            : null;
+        },
+        snapshotDocuments: () => snapshotDocument(),
+
         // Collaboration session management
         createSession: (session: CollaborationSession) => {
           collaborationSessions.set(session.sessionId, session);
@@ -329,6 +1540,8 @@ export const createRealtimePlugin = (
           try {
             let userId: string | undefined;
             let roles: string[] | undefined;
+            let roleName: string | undefined;
+            let tenantId: string | undefined;
 
             // Custom validator takes precedence
             if (authConfig.validator) {
@@ -339,6 +1552,8 @@ export const createRealtimePlugin = (
               }
               userId = result.userId;
               roles = result.roles;
+              roleName = result.roleName;
+              tenantId = result.tenantId;
             } else {
               // Use kernel auth service when available
               try {
@@ -350,13 +1565,15 @@ export const createRealtimePlugin = (
                 }
                 userId = session.userId;
                 roles = session.roles;
+                roleName = session.roleName ?? session.role;
+                tenantId = session.tenantId;
               } catch {
                 ws.close(4401, 'Authentication failed');
                 return;
               }
             }
 
-            clientStates.set(ws, { subscriptions: new Map(), userId, roles });
+            registerClient(ws, { userId, roles, roleName, tenantId });
             ctx.logger.debug(`[Realtime] Authenticated client connected: ${userId}`);
           } catch {
             ws.close(4401, 'Authentication failed');
@@ -364,7 +1581,7 @@ export const createRealtimePlugin = (
           }
         } else {
           // Auth not required (development mode)
-          clientStates.set(ws, { subscriptions: new Map() });
+          registerClient(ws);
           ctx.logger.debug('[Realtime] Client connected (auth disabled)');
         }
 
@@ -376,22 +1593,10 @@ export const createRealtimePlugin = (
 
             // Handle Subscriptions
             if (data.type === 'subscribe') {
-              const msg = data as SubscribeMessage;
-              const state = clientStates.get(ws);
-              if (state && msg.subscription) {
-                state.subscriptions.set(msg.subscription.subscriptionId, msg.subscription);
-
-                // Send ACK
-                const ack: AckMessage = {
-                  messageId: randomUUID(),
-                  timestamp,
-                  type: 'ack',
-                  ackMessageId: messageId,
-                  success: true,
-                };
-                ws.send(JSON.stringify(ack));
-                ctx.logger.debug(`[Realtime] Subscribed: ${msg.subscription.subscriptionId}`);
-              }
+              void handleSubscribe(ws, data as SubscribeMessage, messageId);
+            }
+            if (data.type === 'resume') {
+              void handleResume(ws, data as ResumeMessage, messageId);
             }
 
             // Handle Unsubscribe
@@ -417,62 +1622,33 @@ export const createRealtimePlugin = (
               }
             }
 
-            // Handle Presence Update from Client
-            if (data.type === 'presence') {
-              // Broadcast presence to others (simplified)
-              // In real impl, we should filter by channel/context
-              wss.clients.forEach((c) => {
-                if (c !== ws && c.readyState === WebSocket.OPEN) {
-                  c.send(
-                    JSON.stringify({
-                      ...data,
-                      messageId: randomUUID(),
-                      timestamp,
-                    }),
-                  );
-                }
-              });
+            // Handle room membership
+            if (data.type === 'join') {
+              void handleJoin(ws, data as JoinMessage, messageId);
+            }
+            if (data.type === 'leave') {
+              void handleLeave(ws, data as LeaveMessage, messageId);
             }
 
-            // Handle Cursor/Edit (Pass-through for collaboration)
-            if (data.type === 'cursor' || data.type === 'edit') {
-              // Broadcast to others in same context (simplified as global broadcast here)
-              wss.clients.forEach((c) => {
-                if (c !== ws && c.readyState === WebSocket.OPEN) {
-                  c.send(
-                    JSON.stringify({
-                      ...data,
-                      messageId: randomUUID(),
-                      timestamp,
-                    }),
-                  );
-                }
-              });
+            // Handle Presence Update from Client — delivered within its rooms
+            if (data.type === 'presence') {
+              void handlePresence(ws, data);
             }
 
-            // Handle OT operations (Operational Transform)
+            // Handle collaborative documents
+            if (data.type === 'doc-open') {
+              void handleDocOpen(ws, data as DocOpenMessage, messageId);
+            }
+            if (data.type === 'doc-close') {
+              handleDocClose(ws, data as DocCloseMessage, messageId);
+            }
             if (data.type === 'ot-operation') {
-              wss.clients.forEach((c) => {
-                if (c !== ws && c.readyState === WebSocket.OPEN) {
-                  c.send(
-                    JSON.stringify({
-                      ...data,
-                      messageId: randomUUID(),
-                      timestamp,
-                    }),
-                  );
-                }
-              });
+              void handleOtOperation(ws, data as OtOperationMessage, messageId);
+            }
 
-              // Send ACK
-              const ack: AckMessage = {
-                messageId: randomUUID(),
-                timestamp,
-                type: 'ack',
-                ackMessageId: messageId,
-                success: true,
-              };
-              ws.send(JSON.stringify(ack));
+            // Handle Cursor/Selection/Edit awareness within a room
+            if (ROOM_MESSAGE_TYPES.includes(data.type)) {
+              void handleRoomMessage(ws, data);
             }
 
             // Handle Ping
@@ -500,7 +1676,20 @@ export const createRealtimePlugin = (
         });
 
         ws.on('close', () => {
+          const state = clientStates.get(ws);
           clientStates.delete(ws);
+          if (!state) return;
+          for (const document of documents.list()) {
+            closeDocument(document.documentId, state.clientId);
+          }
+          clientSockets.delete(state.clientId);
+          for (const { contextId, member } of rooms.leaveAll(state.clientId)) {
+            shareMember(contextId, state.clientId);
+            void sendToRoom(
+              contextId,
+              presenceMessage(contextId, { ...member.presence, status: 'offline' }),
+            );
+          }
         });
 
         // Send Welcome Message (Optional, standardized as generic event or ignored in strict spec,
@@ -518,6 +1707,53 @@ export const createRealtimePlugin = (
 
       ctx.logger.info('[Realtime] WebSocket Server started');
 
+      // ── Cluster: join the other nodes through the broker ──────────────
+      await broker.connect();
+      const channelHandlers: Record<ClusterChannel, (msg: any) => void> = {
+        events: onEventMessage,
+        rooms: onRoomMessage,
+        documents: onDocumentMessage,
+        nodes: onNodeMessage,
+      };
+      for (const [channel, handler] of Object.entries(channelHandlers)) {
+        brokerSubscriptions.push(await broker.subscribe(`${channelPrefix}${channel}`, handler));
+      }
+      publishCluster('nodes', { kind: 'hello' });
+      if (clustered) logReady = syncEventLog();
+
+      const nodeTimeoutMs = clusterConfig.nodeTimeoutMs ?? 15_000;
+      clusterHeartbeat = setInterval(() => {
+        publishCluster('nodes', { kind: 'alive' });
+        for (const [peer, lastSeen] of Array.from(peers)) {
+          if (Date.now() - lastSeen > nodeTimeoutMs) dropNode(peer);
+        }
+      }, clusterConfig.heartbeatMs ?? 5_000);
+      clusterHeartbeat.unref?.();
+
+      // ── Rooms: show idle members as away ──────────────────────────────
+      roomSweepInterval = setInterval(
+        () => {
+          for (const { contextId, member } of rooms.sweep()) {
+            shareMember(contextId, member.clientId);
+            void sendToRoom(
+              contextId,
+              presenceMessage(contextId, visiblePresence(member)),
+              clientSockets.get(member.clientId),
+            );
+          }
+        },
+        Math.max(50, Math.floor(idleTimeoutMs / 2)),
+      );
+      roomSweepInterval.unref?.();
+
+      // ── Collaboration: write changed documents back periodically ──────
+      snapshotInterval = setInterval(() => {
+        for (const document of documents.list()) {
+          void enqueue(document.documentId, () => snapshotDocument(document.documentId));
+        }
+      }, collaborationConfig.snapshotIntervalMs ?? 10_000);
+      snapshotInterval.unref?.();
+
       // ── Heartbeat: re-validate sessions every 5 minutes ───────────────
       if (authConfig.required !== false) {
         heartbeatInterval = setInterval(async () => {
@@ -559,6 +1795,35 @@ export const createRealtimePlugin = (
         clearInterval(heartbeatInterval);
         heartbeatInterval = undefined;
       }
+      if (roomSweepInterval) {
+        clearInterval(roomSweepInterval);
+        roomSweepInterval = undefined;
+      }
+      rooms.clear();
+      clientSockets.clear();
+      if (snapshotInterval) {
+        clearInterval(snapshotInterval);
+        snapshotInterval = undefined;
+      }
+      await Promise.all(documentQueues.values());
+      await snapshotDocument();
+      documents.clear();
+      documentSyncs.forEach((sync) => sync.resolve?.());
+      documentSyncs.clear();
+      logSync?.resolve();
+      eventLog.clear();
+      readAccessCache.clear();
+
+      if (clusterHeartbeat) {
+        clearInterval(clusterHeartbeat);
+        clusterHeartbeat = undefined;
+      }
+      if (brokerSubscriptions.length > 0) {
+        publishCluster('nodes', { kind: 'bye' });
+        await Promise.all(brokerSubscriptions.splice(0).map((unsubscribe) => unsubscribe()));
+      }
+      await broker.close();
+      peers.clear();
       if (wss) {
         wss.clients.forEach((client) => client.close());
         wss.close();
@@ -571,7 +1836,7 @@ export const createRealtimePlugin = (
       const start = Date.now();
       const clientCount = wss ? wss.clients.size : 0;
       const status = wss ? 'healthy' : 'unhealthy';
-      const message = `${clientCount} connected clients`;
+      const message = `${clientCount} connected clients, ${peers.size} other nodes`;
       const latency = Date.now() - start;
       return {
         status,
@@ -609,6 +1874,26 @@ export const createRealtimePlugin = (
                   description: 'Get the raw WebSocket server instance',
                   async: false,
                 },
+                {
+                  name: 'getAwarenessState',
+                  description: 'Get the presence, cursors and selections of a room',
+                  async: false,
+                },
+                {
+                  name: 'listRooms',
+                  description: 'List the context IDs of active rooms',
+                  async: false,
+                },
+                {
+                  name: 'getDocument',
+                  description: 'Get the text and revision of an open collaborative document',
+                  async: false,
+                },
+                {
+                  name: 'snapshotDocuments',
+                  description: 'Write changed collaborative documents back to their records',
+                  async: true,
+                },
               ],
               stability: 'stable',
             },
@@ -635,48 +1920,7 @@ export const createRealtimePlugin = (
     // ── IRealtimeService contract methods ──
 
     async publish(event: SpecRealtimeEventPayload): Promise<void> {
-      if (!wss) return;
-      const timestamp = new Date().toISOString();
-
-      // Broadcast to WebSocket clients via existing logic
-      wss.clients.forEach((client) => {
-        if (client.readyState !== WebSocket.OPEN) return;
-        const state = clientStates.get(client);
-        if (!state) return;
-
-        state.subscriptions.forEach((subscription) => {
-          if (subscription.objects && event.object) {
-            if (!subscription.objects.includes(event.object)) return;
-          }
-          const isMatch = subscription.events.some((pattern) => matchPattern(pattern, event.type));
-          if (isMatch) {
-            const message: EventMessage = {
-              messageId: randomUUID(),
-              timestamp,
-              type: 'event',
-              subscriptionId: subscription.subscriptionId,
-              eventName: event.type,
-              object: event.object,
-              payload: event.payload,
-            };
-            client.send(JSON.stringify(message));
-          }
-        });
-      });
-
-      // Dispatch to in-memory handler subscriptions
-      handlerRegistry.forEach(({ channel, handler, options }) => {
-        const channelMatch =
-          channel === '*' || channel === event.type || event.type.startsWith(channel + '.');
-        if (!channelMatch) return;
-        if (options?.object && event.object !== options.object) return;
-        if (options?.eventTypes && !options.eventTypes.includes(event.type)) return;
-        try {
-          handler(event);
-        } catch {
-          /* swallow handler errors */
-        }
-      });
+      publishEvent({ kind: 'publish', event });
     },
 
     async subscribe(
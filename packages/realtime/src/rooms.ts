@@ -0,0 +1,265 @@
+/**
+ * Realtime Rooms
+ *
+ * Presence, cursors and selections are scoped to rooms keyed by an
+ * awareness context ID, e.g. `record:Account:001`. The server keeps the
+ * AwarenessState of every room: members idle for longer than the idle
+ * timeout are shown as away, without cursor or selection, until they are
+ * active again. Empty rooms are dropped.
+ */
+
+import type {
+  AwarenessCursor,
+  AwarenessPresence,
+  AwarenessSelection,
+  AwarenessState,
+} from './types.js';
+
+/**
+ * A connection in a room
+ */
+export interface RoomMember {
+  /** Connection identifier */
+  clientId: string;
+  /** Presence as set by the member; shown as away while idle */
+  presence: AwarenessPresence;
+  cursor?: AwarenessCursor;
+  selection?: AwarenessSelection;
+  /** Last activity (epoch ms) */
+  lastActivity: number;
+  idle: boolean;
+  /** Node the connection is on; unset for connections to this node */
+  nodeId?: string;
+}
+
+/**
+ * The record a room is about, for `record:<object>:<recordId>` context IDs
+ */
+export function parseRecordContext(
+  contextId: string,
+): { objectName: string; recordId: string } | undefined {
+  const match = /^record:([^:]+):(.+)$/.exec(contextId);
+  return match ? { objectName: match[1], recordId: match[2] } : undefined;
+}
+
+/**
+ * Presence of a member as others see it
+ */
+export function visiblePresence(member: RoomMember): AwarenessPresence {
+  return member.idle ? { ...member.presence, status: 'away' } : member.presence;
+}
+
+/**
+ * In-memory rooms and their awareness state
+ */
+export class RoomManager {
+  private rooms: Map<string, Map<string, RoomMember>> = new Map();
+
+  constructor(private idleTimeoutMs: number) {}
+
+  /**
+   * Add a connection to a room, or update its presence if already there
+   */
+  join(
+    contextId: string,
+    clientId: string,
+    presence: AwarenessPresence,
+    now: number = Date.now(),
+  ): RoomMember {
+    let room = this.rooms.get(contextId);
+    if (!room) {
+      room = new Map();
+      this.rooms.set(contextId, room);
+    }
+    const member: RoomMember = {
+      ...room.get(clientId),
+      clientId,
+      presence: { ...presence, lastActive: new Date(now).toISOString() },
+      lastActivity: now,
+      idle: false,
+    };
+    room.set(clientId, member);
+    return member;
+  }
+
+  /**
+   * Remove a connection from a room. Returns the member, if it was there.
+   */
+  leave(contextId: string, clientId: string): RoomMember | undefined {
+    const room = this.rooms.get(contextId);
+    const member = room?.get(clientId);
+    if (!room || !member) return undefined;
+    room.delete(clientId);
+    if (room.size === 0) this.rooms.delete(contextId);
+    return member;
+  }
+
+  /**
+   * Remove a connection from all its rooms
+   */
+  leaveAll(clientId: string): Array<{ contextId: string; member: RoomMember }> {
+    const left: Array<{ contextId: string; member: RoomMember }> = [];
+    for (const contextId of this.getRoomsOf(clientId)) {
+      const member = this.leave(contextId, clientId);
+      if (member) left.push({ contextId, member });
+    }
+    return left;
+  }
+
+  /**
+   * Add or replace a member connected to another node
+   */
+  upsertRemote(contextId: string, member: RoomMember & { nodeId: string }): void {
+    let room = this.rooms.get(contextId);
+    if (!room) {
+      room = new Map();
+      this.rooms.set(contextId, room);
+    }
+    room.set(member.clientId, member);
+  }
+
+  /**
+   * Remove the members connected to a node
+   */
+  removeNode(nodeId: string): Array<{ contextId: string; member: RoomMember }> {
+    const removed: Array<{ contextId: string; member: RoomMember }> = [];
+    for (const [contextId, room] of Array.from(this.rooms)) {
+      for (const member of Array.from(room.values())) {
+        if (member.nodeId !== nodeId) continue;
+        this.leave(contextId, member.clientId);
+        removed.push({ contextId, member });
+      }
+    }
+    return removed;
+  }
+
+  /** Members connected to this node, in every room */
+  getLocalMembers(): Array<{ contextId: string; member: RoomMember }> {
+    const local: Array<{ contextId: string; member: RoomMember }> = [];
+    for (const [contextId, room] of this.rooms) {
+      for (const member of room.values()) {
+        if (!member.nodeId) local.push({ contextId, member });
+      }
+    }
+    return local;
+  }
+
+  getMember(contextId: string, clientId: string): RoomMember | undefined {
+    return this.rooms.get(contextId)?.get(clientId);
+  }
+
+  getMembers(contextId: string): RoomMember[] {
+    return Array.from(this.rooms.get(contextId)?.values() ?? []);
+  }
+
+  /** Context IDs of the rooms a connection is in */
+  getRoomsOf(clientId: string): string[] {
+    return Array.from(this.rooms)
+      .filter(([, room]) => room.has(clientId))
+      .map(([contextId]) => contextId);
+  }
+
+  getRoomIds(): string[] {
+    return Array.from(this.rooms.keys());
+  }
+
+  /**
+   * Record activity of a member. `resumed` tells whether it was idle.
+   */
+  touch(
+    contextId: string,
+    clientId: string,
+    now: number = Date.now(),
+  ): { member: RoomMember; resumed: boolean } | undefined {
+    const member = this.getMember(contextId, clientId);
+    if (!member) return undefined;
+    const resumed = member.idle;
+    member.idle = false;
+    member.lastActivity = now;
+    member.presence = { ...member.presence, lastActive: new Date(now).toISOString() };
+    return { member, resumed };
+  }
+
+  /**
+   * Update the presence of a member
+   */
+  updatePresence(
+    contextId: string,
+    clientId: string,
+    update: Partial<AwarenessPresence>,
+    now: number = Date.now(),
+  ): RoomMember | undefined {
+    const member = this.touch(contextId, clientId, now)?.member;
+    if (!member) return undefined;
+    member.presence = { ...member.presence, ...update, userId: member.presence.userId };
+    return member;
+  }
+
+  setCursor(
+    contextId: string,
+    clientId: string,
+    cursor: AwarenessCursor,
+    now: number = Date.now(),
+  ): RoomMember | undefined {
+    const member = this.touch(contextId, clientId, now)?.member;
+    if (member) member.cursor = cursor;
+    return member;
+  }
+
+  setSelection(
+    contextId: string,
+    clientId: string,
+    selection: AwarenessSelection,
+    now: number = Date.now(),
+  ): RoomMember | undefined {
+    const member = this.touch(contextId, clientId, now)?.member;
+    if (member) member.selection = selection;
+    return member;
+  }
+
+  /**
+   * Awareness state of a room. Users with several connections are listed
+   * once, with the presence of their most recently active connection.
+   */
+  getState(contextId: string): AwarenessState | undefined {
+    const room = this.rooms.get(contextId);
+    if (!room) return undefined;
+
+    const members = Array.from(room.values()).sort((a, b) => b.lastActivity - a.lastActivity);
+    const users = new Map<string, AwarenessPresence>();
+    for (const member of members) {
+      if (!users.has(member.presence.userId)) {
+        users.set(member.presence.userId, visiblePresence(member));
+      }
+    }
+    const active = members.filter((m) => !m.idle);
+    return {
+      contextId,
+      users: Array.from(users.values()),
+      cursors: active.filter((m) => m.cursor).map((m) => m.cursor!),
+      selections: active.filter((m) => m.selection).map((m) => m.selection!),
+    };
+  }
+
+  /**
+   * Mark members idle for longer than the idle timeout. Returns the
+   * members that went idle. Members on other nodes are swept by their node.
+   */
+  sweep(now: number = Date.now()): Array<{ contextId: string; member: RoomMember }> {
+    const idled: Array<{ contextId: string; member: RoomMember }> = [];
+    for (const [contextId, room] of this.rooms) {
+      for (const member of room.values()) {
+        if (member.nodeId || member.idle) continue;
+        if (now - member.lastActivity >= this.idleTimeoutMs) {
+          member.idle = true;
+          idled.push({ contextId, member });
+        }
+      }
+    }
+    return idled;
+  }
+
+  clear(): void {
+    this.rooms.clear();
+  }
+}
@@ -12,6 +12,7 @@ import type {
   PluginStartupResult as SpecPluginStartupResult,
   EventBusConfig as SpecEventBusConfig,
 } from '@objectstack/spec/kernel';
+import type { RealtimeBroker } from './broker.js';
 
 /** Plugin health status — from @objectstack/spec */
 export type HealthStatus = PluginHealthStatus;
@@ -57,6 +58,8 @@ export interface WebSocketAuthResult {
   tenantId?: string;
   /** User's roles */
   roles?: string[];
+  /** User's role in the role hierarchy, so managers can read their subordinates' records */
+  roleName?: string;
   /** Error message if authentication failed */
   error?: string;
 }
@@ -87,6 +90,42 @@ export interface RealtimePluginConfig {
   heartbeatInterval?: number;
   /** Maximum connections per tenant */
   maxConnectionsPerTenant?: number;
+  /** Presence / awareness room configuration */
+  rooms?: RoomConfig;
+  /** Collaborative text editing */
+  collaboration?: CollaborationConfig;
+  /** Fan-out between replicas */
+  cluster?: ClusterConfig;
+  /** Event log for resuming subscriptions */
+  eventLog?: EventLogConfig;
+  /** Permission checks of delivered events */
+  delivery?: DeliveryConfig;
+}
+
+/** The connection asking to join or receive from a room */
+export interface RoomClient {
+  userId?: string;
+  roles?: string[];
+  roleName?: string;
+  tenantId?: string;
+}
+
+/** Presence / awareness room configuration */
+export interface RoomConfig {
+  /** Members without activity for this long are shown as away (default: 60000) */
+  idleTimeoutMs?: number;
+  /** How long a room access decision is reused for a connection (default: 30000) */
+  permissionCacheMs?: number;
+  /**
+   * Custom room access check. By default, `record:<object>:<id>` rooms
+   * require read access to the record through the permissions service,
+   * and editing its documents requires update access.
+   */
+  authorize?: (
+    client: RoomClient,
+    contextId: string,
+    action: 'read' | 'update',
+  ) => Promise<boolean> | boolean;
 }
 
 // ─── Awareness Protocol Schemas ────────────────────────────────────────────────
@@ -184,6 +223,88 @@ export interface AwarenessState {
 
 // ─── Collaboration Session Types ───────────────────────────────────────────────
 
+/** Redis pub/sub connection for the cluster broker */
+export interface RedisBrokerOptions {
+  host?: string;
+  port?: number;
+  password?: string;
+  db?: number;
+  /** Create the client instead of connecting with ioredis (e.g. for a stand-in) */
+  createClient?: () => any;
+}
+
+/** Cluster configuration */
+export interface ClusterConfig {
+  /**
+   * Broker between replicas (default: 'memory', which only reaches this
+   * node). Pass a broker instance to share a MemoryBus or plug another
+   * transport.
+   */
+  broker?: 'memory' | 'redis' | RealtimeBroker;
+  /** Redis connection, for the 'redis' broker */
+  redis?: RedisBrokerOptions;
+  /** Prefix of broker channel names (default: 'objectos:realtime:') */
+  channelPrefix?: string;
+  /** Identifier of this node (default: random) */
+  nodeId?: string;
+  /** Interval of node heartbeats (default: 5000) */
+  heartbeatMs?: number;
+  /** Nodes silent for this long are dropped with their presence (default: 15000) */
+  nodeTimeoutMs?: number;
+  /**
+   * How long to wait for other nodes' copy of a collaborative document, or
+   * of the event log when this node starts (default: 1000)
+   */
+  syncTimeoutMs?: number;
+}
+
+/** Delivery of record events */
+export interface DeliveryConfig {
+  /** How long a user's read access to an object is reused (default: 30000) */
+  permissionCacheMs?: number;
+  /** Field holding the organization of a record (default: '_organizationId') */
+  tenantField?: string;
+}
+
+/** Event log configuration */
+export interface EventLogConfig {
+  /** Events kept per channel for resuming subscriptions (default: 1000) */
+  maxEventsPerChannel?: number;
+}
+
+/** A text field of a record, edited collaboratively */
+export interface DocumentRef {
+  object: string;
+  recordId: string;
+  field: string;
+}
+
+/** User whose edits a document is saved as */
+export interface DocumentEditor {
+  userId?: string;
+  roles?: string[];
+  roleName?: string;
+  tenantId?: string;
+}
+
+/** Loads and saves the text of collaborative documents */
+export interface DocumentStore {
+  load(ref: DocumentRef): Promise<string>;
+  save(ref: DocumentRef, content: string, editor?: DocumentEditor): Promise<void>;
+}
+
+/** Collaborative text editing configuration */
+export interface CollaborationConfig {
+  /** Interval of writing changed documents back to their records (default: 10000) */
+  snapshotIntervalMs?: number;
+  /** Operations kept per document for transforming late operations (default: 500) */
+  historyLimit?: number;
+  /** Document storage (default: records through the ObjectQL broker) */
+  store?: DocumentStore;
+  /** Field types that can be opened as documents (default: text, textarea, markdown, html) */
+  textFieldTypes?: string[];
+}
+
 /** Collaboration session for real-time document editing */
 export interface CollaborationSession {
   /** Unique session identifier */
@@ -0,0 +1,161 @@
+/**
+ * Tests for Realtime Broker Adapters
+ */
+
+import { EventEmitter } from 'events';
+import { MemoryBroker, MemoryBus, RedisBroker, createBroker } from '../src/broker.js';
+
+/**
+ * Redis stand-in: pub/sub between clients of one in-process server
+ */
+class RedisStandInServer {
+  private subscribers = new Map<string, Set<RedisStandIn>>();
+
+  publish(channel: string, data: string): number {
+    const clients = Array.from(this.subscribers.get(channel) ?? []);
+    queueMicrotask(() => clients.forEach((client) => client.emit('message', channel, data)));
+    return clients.length;
+  }
+
+  subscribe(channel: string, client: RedisStandIn): void {
+    if (!this.subscribers.has(channel)) this.subscribers.set(channel, new Set());
+    this.subscribers.get(channel)!.add(client);
+  }
+
+  unsubscribe(channel: string, client: RedisStandIn): void {
+    this.subscribers.get(channel)?.delete(client);
+  }
+
+  subscriberCount(channel: string): number {
+    return this.subscribers.get(channel)?.size ?? 0;
+  }
+}
+
+class RedisStandIn extends EventEmitter {
+  quit = jest.fn(async () => 'OK');
+
+  constructor(private server: RedisStandInServer) {
+    super();
+  }
+
+  async ping() {
+    return 'PONG';
+  }
+
+  async publish(channel: string, data: string) {
+    return this.server.publish(channel, data);
+  }
+
+  async subscribe(channel: string) {
+    this.server.subscribe(channel, this);
+  }
+
+  async unsubscribe(channel: string) {
+    this.server.unsubscribe(channel, this);
+  }
+
+  duplicate() {
+    return new RedisStandIn(this.server);
+  }
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('MemoryBroker', () => {
+  it('should deliver to every subscriber of a shared bus, in order', async () => {
+    const bus = new MemoryBus();
+    const [a, b] = [new MemoryBroker(bus), new MemoryBroker(bus)];
+    const received: Array<[string, number]> = [];
+    await a.subscribe('events', (m) => received.push(['a', m.n]));
+    await b.subscribe('events', (m) => received.push(['b', m.n]));
+
+    await a.publish('events', { n: 1 });
+    await b.publish('events', { n: 2 });
+    await a.publish('other', { n: 3 });
+    await flush();
+
+    expect(received).toEqual([
+      ['a', 1],
+      ['b', 1],
+      ['a', 2],
+      ['b', 2],
+    ]);
+  });
+
+  it('should stop delivering after unsubscribe and close', async () => {
+    const bus = new MemoryBus();
+    const broker = new MemoryBroker(bus);
+    const handler = jest.fn();
+    const unsubscribe = await broker.subscribe('events', handler);
+    await broker.subscribe('other', handler);
+
+    await unsubscribe();
+    await broker.publish('events', {});
+    await broker.close();
+    await broker.publish('other', {});
+    await flush();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('RedisBroker', () => {
+  it('should publish and subscribe on separate connections', async () => {
+    const server = new RedisStandInServer();
+    const clients: RedisStandIn[] = [];
+    const createClient = () => {
+      const client = new RedisStandIn(server);
+      clients.push(client);
+      return client;
+    };
+    const a = new RedisBroker({ createClient });
+    const b = new RedisBroker({ createClient });
+    await a.connect();
+    await b.connect();
+
+    const received: any[] = [];
+    const unsubscribe = await b.subscribe('events', (m) => received.push(m));
+    await b.subscribe('events', (m) => received.push({ ...m, second: true }));
+    expect(server.subscriberCount('events')).toBe(1);
+
+    await a.publish('events', { n: 1 });
+    await flush();
+    expect(received).toEqual([{ n: 1 }, { n: 1, second: true }]);
+
+    await unsubscribe();
+    expect(server.subscriberCount('events')).toBe(1);
+
+    await a.close();
+    await b.close();
+    expect(clients.every((client) => client.quit.mock.calls.length === 1)).toBe(true);
+  });
+
+  it('should require connect() before use', async () => {
+    const broker = new RedisBroker({
+      createClient: () => new RedisStandIn(new RedisStandInServer()),
+    });
+    await expect(broker.publish('events', {})).rejects.toThrow('Redis broker not connected');
+  });
+
+  it('should report connection failures', async () => {
+    const broker = new RedisBroker({
+      createClient: () => {
+        const client = new RedisStandIn(new RedisStandInServer());
+        client.ping = async () => {
+          throw new Error('ECONNREFUSED');
+        };
+        return client;
+      },
+    });
+    await expect(broker.connect()).rejects.toThrow('Failed to connect to Redis: ECONNREFUSED');
+  });
+});
+
+describe('createBroker', () => {
+  it('should create the configured broker', () => {
+    const custom = new MemoryBroker();
+    expect(createBroker()).toBeInstanceOf(MemoryBroker);
+    expect(createBroker({ broker: 'redis' })).toBeInstanceOf(RedisBroker);
+    expect(createBroker({ broker: custom })).toBe(custom);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for the Collaboration Engine
+ */
+
+import { CollaborationEngine, toDocumentId } from '../src/collaboration.js';
+import type { DocumentStore } from '../src/types.js';
+
+const ref = { object: 'Account', recordId: 'acc-001', field: 'description' };
+const documentId = toDocumentId(ref);
+
+const createStore = (initial = 'hello') => {
+  let content = initial;
+  const store = {
+    get content() {
+      return content;
+    },
+    load: jest.fn(async (): Promise<string> => content),
+    save: jest.fn(async (_ref: any, text: string): Promise<void> => {
+      content = text;
+    }),
+  };
+  return store satisfies DocumentStore;
+};
+
+describe('CollaborationEngine', () => {
+  it('should load a document once for concurrent opens', async () => {
+    const store = createStore();
+    const engine = new CollaborationEngine(store);
+
+    const [a, b] = await Promise.all([engine.open(ref, 'c1'), engine.open(ref, 'c2')]);
+
+    expect(a).toBe(b);
+    expect(store.load).toHaveBeenCalledTimes(1);
+    expect(a.documentId).toBe('record:Account:acc-001#description');
+    expect(Array.from(a.clients)).toEqual(['c1', 'c2']);
+  });
+
+  it('should transform operations made against older revisions', async () => {
+    const engine = new CollaborationEngine(createStore());
+    await engine.open(ref, 'c1');
+
+    expect(engine.submit(documentId, 0, [5, ' world'])).toEqual({
+      revision: 1,
+      operation: [5, ' world'],
+    });
+    // Made against revision 0, before " world" was added
+    const applied = engine.submit(documentId, 0, ['Oh, ', 5]);
+
+    expect(applied).toEqual({ revision: 2, operation: ['Oh, ', 11] });
+    expect(engine.get(documentId)!.content).toBe('Oh, hello world');
+  });
+
+  it('should reject unknown, forgotten and mismatched revisions', async () => {
+    const engine = new CollaborationEngine(createStore(), 1);
+    await engine.open(ref, 'c1');
+    engine.submit(documentId, 0, [5, '!']);
+    engine.submit(documentId, 1, [6, '!']);
+
+    expect(() => engine.submit(documentId, 5, [7])).toThrow(
+      expect.objectContaining({ code: 'INVALID_REVISION' }),
+    );
+    expect(() => engine.submit(documentId, 0, [5])).toThrow(
+      expect.objectContaining({ code: 'REVISION_TOO_OLD' }),
+    );
+    expect(() => engine.submit(documentId, 2, [3])).toThrow(
+      expect.objectContaining({ code: 'INVALID_OPERATION' }),
+    );
+  });
+
+  it('should snapshot changed documents and retry failed saves', async () => {
+    const store = createStore();
+    const engine = new CollaborationEngine(store);
+    await engine.open(ref, 'c1');
+
+    expect(await engine.snapshot()).toEqual([]);
+
+    engine.submit(documentId, 0, [5, '!']);
+    store.save.mockRejectedValueOnce(new Error('offline'));
+    const [failed] = await engine.snapshot();
+    expect(failed.error?.message).toBe('offline');
+
+    expect(await engine.snapshot()).toEqual([{ documentId }]);
+    expect(store.content).toBe('hello!');
+    expect(await engine.snapshot()).toEqual([]);
+  });
+
+  it('should unload documents only once all connections closed them', async () => {
+    const engine = new CollaborationEngine(createStore());
+    await engine.open(ref, 'c1');
+    await engine.open(ref, 'c2');
+
+    expect(engine.close(documentId, 'c1')).toBeUndefined();
+    expect(engine.unload(documentId)).toBe(false);
+    expect(engine.closeAll('c2').map((d) => d.documentId)).toEqual([documentId]);
+    expect(engine.unload(documentId)).toBe(true);
+    expect(engine.get(documentId)).toBeUndefined();
+  });
+});
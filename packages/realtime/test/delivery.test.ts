@@ -0,0 +1,75 @@
+/**
+ * Tests for Permission-Aware Event Delivery
+ */
+
+import {
+  FULL_ACCESS,
+  NO_ACCESS,
+  applyReadAccess,
+  isOtherTenant,
+  matchesFilter,
+} from '../src/delivery.js';
+
+describe('matchesFilter', () => {
+  const record = { owner: 'alice', amount: 100, region: 'EU' };
+
+  it('should match field conditions', () => {
+    expect(matchesFilter(record, {})).toBe(true);
+    expect(matchesFilter(record, { owner: 'alice' })).toBe(true);
+    expect(matchesFilter(record, { owner: 'bob' })).toBe(false);
+    expect(matchesFilter(record, { amount: { $gte: 100, $lt: 200 } })).toBe(true);
+    expect(matchesFilter(record, { region: { $in: ['US', 'APAC'] } })).toBe(false);
+    expect(matchesFilter(record, { deletedAt: { $exists: false } })).toBe(true);
+  });
+
+  it('should combine conditions with $and and $or', () => {
+    expect(matchesFilter(record, { $or: [{ owner: 'bob' }, { region: 'EU' }] })).toBe(true);
+    expect(matchesFilter(record, { $and: [{ owner: 'alice' }, { amount: { $gt: 100 } }] })).toBe(
+      false,
+    );
+  });
+
+  it('should match territory filters against the territories of a record', () => {
+    const account = { owner: 'alice', territories: ['EMEA', 'DACH'] };
+    const territoryFilter = { $or: [{ owner: 'bob' }, { territories: { $in: ['DACH'] } }] };
+
+    expect(matchesFilter(account, territoryFilter)).toBe(true);
+    expect(matchesFilter(account, { territories: { $in: ['APAC'] } })).toBe(false);
+    expect(matchesFilter(account, { territories: { $nin: ['APAC'] } })).toBe(true);
+    expect(matchesFilter(account, { territories: { $nin: ['EMEA'] } })).toBe(false);
+    expect(matchesFilter({ territories: [] }, { territories: { $in: ['EMEA'] } })).toBe(false);
+  });
+
+  it('should not match unknown operators', () => {
+    expect(matchesFilter(record, { owner: { $regex: 'ali' } })).toBe(false);
+  });
+});
+
+describe('applyReadAccess', () => {
+  it('should remove hidden fields from records matching the filter', () => {
+    const access = { allowed: true, filters: { owner: 'alice' }, hiddenFields: ['salary'] };
+    expect(applyReadAccess({ owner: 'alice', salary: 1 }, access)).toEqual({ owner: 'alice' });
+    expect(applyReadAccess({ owner: 'bob', salary: 1 }, access)).toBeUndefined();
+  });
+
+  it('should hide everything without read access', () => {
+    expect(applyReadAccess({ owner: 'alice' }, NO_ACCESS)).toBeUndefined();
+    expect(applyReadAccess({ owner: 'alice' }, FULL_ACCESS)).toEqual({ owner: 'alice' });
+  });
+
+  it('should only pass payloads that are not records without a filter', () => {
+    expect(applyReadAccess('changed', FULL_ACCESS)).toBe('changed');
+    expect(applyReadAccess('changed', { ...FULL_ACCESS, filters: { owner: 'alice' } })).toBe(
+      undefined,
+    );
+  });
+});
+
+describe('isOtherTenant', () => {
+  it('should compare the organization of a record with the connection', () => {
+    expect(isOtherTenant({ _organizationId: 'org-1' }, '_organizationId', 'org-1')).toBe(false);
+    expect(isOtherTenant({ _organizationId: 'org-1' }, '_organizationId', 'org-2')).toBe(true);
+    expect(isOtherTenant({ _organizationId: 'org-1' }, '_organizationId')).toBe(true);
+    expect(isOtherTenant({ name: 'shared' }, '_organizationId', 'org-1')).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for the Realtime Event Log
+ */
+
+import { EventLog, eventChannel } from '../src/event-log.js';
+
+const event = (eventName: string, object?: string, payload: any = {}) => ({
+  eventName,
+  object,
+  payload,
+  timestamp: new Date(0).toISOString(),
+});
+
+describe('eventChannel', () => {
+  it('should use the object, or the first segment of the event name', () => {
+    expect(eventChannel('data.record.updated', 'Account')).toBe('Account');
+    expect(eventChannel('user.created')).toBe('user');
+  });
+});
+
+describe('EventLog', () => {
+  let log: EventLog;
+
+  beforeEach(() => {
+    log = new EventLog(3);
+  });
+
+  it('should number events per channel', () => {
+    expect(log.append(event('data.record.created', 'Account')).offset).toBe(1);
+    expect(log.append(event('data.record.created', 'Contact')).offset).toBe(1);
+    expect(log.append(event('data.record.updated', 'Account'))).toMatchObject({
+      channel: 'Account',
+      offset: 2,
+    });
+    expect(log.offsets()).toEqual({ Account: 2, Contact: 1 });
+    expect(log.offset('Lead')).toBe(0);
+  });
+
+  it('should return the events after an offset', () => {
+    for (let i = 1; i <= 3; i++) log.append(event('data.record.updated', 'Account', { i }));
+
+    expect(log.since('Account', 1)!.map((e) => e.payload.i)).toEqual([2, 3]);
+    expect(log.since('Account', 0)!.map((e) => e.payload.i)).toEqual([1, 2, 3]);
+    expect(log.since('Account', 3)).toEqual([]);
+    expect(log.since('Lead', 0)).toEqual([]);
+  });
+
+  it('should tell when missed events are no longer kept', () => {
+    for (let i = 1; i <= 5; i++) log.append(event('data.record.updated', 'Account', { i }));
+
+    expect(log.since('Account', 2)!.map((e) => e.payload.i)).toEqual([3, 4, 5]);
+    expect(log.since('Account', 1)).toBeUndefined();
+    // Offsets the log never assigned
+    expect(log.since('Account', 6)).toBeUndefined();
+    expect(log.since('Lead', 1)).toBeUndefined();
+    expect(log.since('Account', -1)).toBeUndefined();
+  });
+
+  it('should continue from the state of another log', () => {
+    log.append(event('data.record.created', 'Account'));
+    log.append(event('data.record.updated', 'Account'));
+
+    const copy = new EventLog(3);
+    expect(copy.streamId).not.toBe(log.streamId);
+    copy.importState(JSON.parse(JSON.stringify(log.exportState())));
+
+    expect(copy.streamId).toBe(log.streamId);
+    expect(copy.append(event('data.record.deleted', 'Account')).offset).toBe(3);
+    expect(copy.since('Account', 0)!.map((e) => e.eventName)).toEqual([
+      'data.record.created',
+      'data.record.updated',
+      'data.record.deleted',
+    ]);
+  });
+
+  it('should start a new stream when cleared', () => {
+    const streamId = log.streamId;
+    log.append(event('user.created'));
+    log.clear();
+    expect(log.streamId).not.toBe(streamId);
+    expect(log.offsets()).toEqual({});
+  });
+});
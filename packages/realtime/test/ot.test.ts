@@ -0,0 +1,65 @@
+/**
+ * Tests for Text Operational Transform
+ */
+
+import { apply, baseLength, normalize, targetLength, transform } from '../src/ot.js';
+import type { TextOperation } from '../src/ot.js';
+
+describe('Text Operations', () => {
+  it('should apply retain, insert and delete components', () => {
+    expect(apply('hello world', [6, -5, 'there'])).toBe('hello there');
+    expect(apply('', ['abc'])).toBe('abc');
+  });
+
+  it('should reject operations of the wrong length', () => {
+    expect(() => apply('hello', [3, 'x'])).toThrow('length 3, not 5');
+  });
+
+  it('should normalize adjacent components', () => {
+    expect(normalize([1, 2, 'a', 'b', 0, -1, -2])).toEqual([3, 'ab', -3]);
+    expect(baseLength([3, 'ab', -3])).toBe(6);
+    expect(targetLength([3, 'ab', -3])).toBe(5);
+  });
+});
+
+describe('transform', () => {
+  const converge = (text: string, a: TextOperation, b: TextOperation) => {
+    const [a1, b1] = transform(a, b);
+    const left = apply(apply(text, a), b1);
+    const right = apply(apply(text, b), a1);
+    expect(left).toBe(right);
+    return left;
+  };
+
+  it('should order concurrent inserts at the same position', () => {
+    expect(converge('ac', [1, 'b', 1], [1, 'x', 1])).toBe('abxc');
+  });
+
+  it('should converge an insert inside a concurrent delete', () => {
+    expect(converge('abcdef', [1, -4, 1], [3, 'X', 3])).toBe('aXf');
+  });
+
+  it('should converge overlapping deletes', () => {
+    expect(converge('abcdef', [1, -3, 2], [2, -3, 1])).toBe('af');
+  });
+
+  it('should converge random concurrent edits', () => {
+    const random = (length: number): TextOperation => {
+      const op: TextOperation = [];
+      let left = length;
+      while (left > 0) {
+        const n = 1 + Math.floor(Math.random() * left);
+        const kind = Math.random();
+        if (kind < 0.3) op.push('xyz'.slice(0, 1 + Math.floor(Math.random() * 3)));
+        op.push(kind < 0.6 ? n : -n);
+        left -= n;
+      }
+      if (Math.random() < 0.5) op.push('!');
+      return op;
+    };
+    for (let i = 0; i < 200; i++) {
+      const text = 'the quick brown fox';
+      converge(text, random(text.length), random(text.length));
+    }
+  });
+});
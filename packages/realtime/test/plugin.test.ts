@@ -3,6 +3,7 @@
  */
 
 import { createRealtimePlugin } from '../src/plugin.js';
+import { MemoryBroker, MemoryBus } from '../src/broker.js';
 import type { PluginContext, Plugin } from '@objectstack/runtime';
 import { WebSocket, WebSocketServer } from 'ws';
 
@@ -55,6 +56,26 @@ const waitForMessage = (ws: WebSocket, timeout = 2000): Promise<any> => {
   });
 };
 
+/** Wait for the next `count` messages of a WebSocket client */
+const waitForMessages = (ws: WebSocket, count: number, timeout = 2000): Promise<any[]> => {
+  return new Promise((resolve, reject) => {
+    const messages: any[] = [];
+    const timer = setTimeout(() => {
+      ws.off('message', onMessage);
+      reject(new Error('Message timeout'));
+    }, timeout);
+    const onMessage = (data: any) => {
+      messages.push(JSON.parse(data.toString()));
+      if (messages.length === count) {
+        clearTimeout(timer);
+        ws.off('message', onMessage);
+        resolve(messages);
+      }
+    };
+    ws.on('message', onMessage);
+  });
+};
+
 /** Wait for a WebSocket client to open */
 const waitForOpen = (ws: WebSocket): Promise<void> => {
   return new Promise((resolve, reject) => {
@@ -64,13 +85,28 @@ const waitForOpen = (ws: WebSocket): Promise<void> => {
   });
 };
 
+/** ObjectQL service describing the Account object */
+const accountMetadata = () => ({
+  getObjects: () => [
+    {
+      name: 'Account',
+      fields: {
+        name: { type: 'text' },
+        description: { type: 'textarea' },
+        notes: { type: 'markdown' },
+        owner: { type: 'lookup' },
+      },
+    },
+  ],
+});
+
 // Use a unique port range to avoid conflicts
 let portCounter = 19100;
 const getPort = () => portCounter++;
 
 /** Connect a WebSocket client and consume the welcome ack */
-const connectClient = async (port: number): Promise<WebSocket> => {
-  const ws = new WebSocket(`ws://localhost:${port}`);
+const connectClient = async (port: number, token?: string): Promise<WebSocket> => {
+  const ws = new WebSocket(`ws://localhost:${port}${token ? `?token=${token}` : ''}`);
   // Set up message listener BEFORE open to avoid missing the welcome ack
   const welcomePromise = waitForMessage(ws);
   await waitForOpen(ws);
@@ -78,6 +114,46 @@ const connectClient = async (port: number): Promise<WebSocket> => {
   return ws;
 };
 
+/**
+ * Join a room; resolves to the ack and awareness snapshot. Members already
+ * in the room consume the presence notification of the joiner.
+ */
+const joinRoom = async (
+  ws: WebSocket,
+  contextId: string,
+  presence?: Record<string, any>,
+  members: WebSocket[] = [],
+): Promise<{ ack: any; awareness?: any }> => {
+  // The ack and snapshot arrive together; listen for both before sending
+  const replies: any[] = [];
+  const reply = new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Message timeout')), 2000);
+    const onMessage = (data: any) => {
+      replies.push(JSON.parse(data.toString()));
+      if (replies[0].success === false || replies.length === 2) {
+        clearTimeout(timer);
+        ws.off('message', onMessage);
+        resolve();
+      }
+    };
+    ws.on('message', onMessage);
+  });
+  const notified = Promise.all(members.map((m) => waitForMessage(m)));
+  ws.send(
+    JSON.stringify({
+      type: 'join',
+      messageId: `join-${contextId}`,
+      timestamp: new Date().toISOString(),
+      contextId,
+      presence,
+    }),
+  );
+  await reply;
+  const [ack, awareness] = replies;
+  if (ack.success) await notified;
+  return { ack, awareness };
+};
+
 // ─── Tests ─────────────────────────────────────────────────────────────────────
 
 describe('Realtime Plugin', () => {
@@ -635,6 +711,7 @@ describe('Realtime Plugin', () => {
   });
 
   describe('Presence Protocol', () => {
+    const room = 'record:Account:acc-001';
     let client1: WebSocket;
     let client2: WebSocket;
 
@@ -643,6 +720,8 @@ describe('Realtime Plugin', () => {
       await plugin.start(mockContext);
 
       [client1, client2] = await Promise.all([connectClient(testPort), connectClient(testPort)]);
+      await joinRoom(client1, room, { userId: 'user-1' });
+      await joinRoom(client2, room, { userId: 'user-2' }, [client1]);
     });
 
     afterEach(() => {
@@ -651,7 +730,7 @@ describe('Realtime Plugin', () => {
       });
     });
 
-    it('should broadcast presence updates from client to others', async () => {
+    it('should broadcast presence updates from client to room members', async () => {
       const presenceMsg = {
         messageId: 'msg-001',
         timestamp: new Date().toISOString(),
@@ -667,6 +746,7 @@ describe('Realtime Plugin', () => {
       const received = await waitForMessage(client2);
 
       expect(received.type).toBe('presence');
+      expect(received.contextId).toBe(room);
       expect(received.presence.userId).toBe('user-1');
       expect(received.presence.status).toBe('online');
     });
@@ -692,6 +772,84 @@ describe('Realtime Plugin', () => {
       await expect(waitForMessage(client1, 300)).rejects.toThrow('Message timeout');
     });
 
+    it('should NOT deliver presence outside the room', async () => {
+      const outsider = await connectClient(testPort);
+      await joinRoom(outsider, 'record:Account:acc-002', { userId: 'user-3' });
+
+      client1.send(
+        JSON.stringify({
+          messageId: 'msg-001',
+          timestamp: new Date().toISOString(),
+          type: 'presence',
+          presence: { status: 'busy' },
+        }),
+      );
+
+      const received = await waitForMessage(client2);
+      expect(received.presence.status).toBe('busy');
+      await expect(waitForMessage(outsider, 300)).rejects.toThrow('Message timeout');
+      outsider.close();
+    });
+
+    it('should reject presence from clients in no room', async () => {
+      const outsider = await connectClient(testPort);
+      outsider.send(
+        JSON.stringify({
+          messageId: 'msg-001',
+          timestamp: new Date().toISOString(),
+          type: 'presence',
+          presence: { status: 'online' },
+        }),
+      );
+
+      const error = await waitForMessage(outsider);
+      expect(error.type).toBe('error');
+      expect(error.code).toBe('NOT_IN_ROOM');
+      outsider.close();
+    });
+
+    it('should send the awareness state of the room on join', async () => {
+      const client3 = await connectClient(testPort);
+      const { ack, awareness } = await joinRoom(client3, room, { userId: 'user-3' }, [
+        client1,
+        client2,
+      ]);
+
+      expect(ack.success).toBe(true);
+      expect(awareness.type).toBe('awareness');
+      expect(awareness.state.contextId).toBe(room);
+      expect(awareness.state.users.map((u: any) => u.userId).sort()).toEqual([
+        'user-1',
+        'user-2',
+        'user-3',
+      ]);
+      client3.close();
+    });
+
+    it('should notify members when a client leaves or disconnects', async () => {
+      client2.send(
+        JSON.stringify({
+          type: 'leave',
+          messageId: 'leave-001',
+          timestamp: new Date().toISOString(),
+          contextId: room,
+        }),
+      );
+
+      const [ack, left] = await Promise.all([waitForMessage(client2), waitForMessage(client1)]);
+      expect(left.presence).toMatchObject({ userId: 'user-2', status: 'offline' });
+      expect(ack.success).toBe(true);
+
+      const client3 = await connectClient(testPort);
+      await joinRoom(client3, room, { userId: 'user-3' }, [client1]);
+      const notified = waitForMessage(client1);
+      client3.close();
+      expect((await notified).presence).toMatchObject({ userId: 'user-3', status: 'offline' });
+
+      const service = mockKernel.services.get('realtime');
+      expect(service.getAwarenessState(room).users.map((u: any) => u.userId)).toEqual(['user-1']);
+    });
+
     it('should broadcast presence via service API', async () => {
       const service = mockKernel.services.get('realtime');
       service.updatePresence('user-99', { status: 'busy' }, { page: '/dashboard' });
@@ -707,6 +865,7 @@ describe('Realtime Plugin', () => {
   });
 
   describe('Awareness: Cursor & Edit Collaboration', () => {
+    const room = 'record:Account:acc-001';
     let client1: WebSocket;
     let client2: WebSocket;
     let client3: WebSocket;
@@ -720,6 +879,9 @@ describe('Realtime Plugin', () => {
         connectClient(testPort),
         connectClient(testPort),
       ]);
+      await joinRoom(client1, room, { userId: 'user-1' });
+      await joinRoom(client2, room, { userId: 'user-2' }, [client1]);
+      await joinRoom(client3, room, { userId: 'user-3' }, [client1, client2]);
     });
 
     afterEach(() => {
@@ -748,12 +910,18 @@ describe('Realtime Plugin', () => {
 
       // Both should receive cursor update
       expect(msg2.type).toBe('cursor');
+      expect(msg2.contextId).toBe(room);
       expect(msg2.userId).toBe('user-1');
       expect(msg2.field).toBe('description');
       expect(msg2.offset).toBe(42);
 
       expect(msg3.type).toBe('cursor');
       expect(msg3.userId).toBe('user-1');
+
+      const service = mockKernel.services.get('realtime');
+      expect(service.getAwarenessState(room).cursors).toEqual([
+        expect.objectContaining({ userId: 'user-1', field: 'description', offset: 42 }),
+      ]);
     });
 
     it('should relay edit awareness to other clients', async () => {
@@ -789,6 +957,7 @@ describe('Realtime Plugin', () => {
           messageId: 'msg-001',
           timestamp: new Date().toISOString(),
           type: 'cursor',
+          contextId: room,
           userId: 'user-1',
           offset: 10,
         }),
@@ -800,6 +969,68 @@ describe('Realtime Plugin', () => {
       // Sender should NOT
       await expect(waitForMessage(client1, 300)).rejects.toThrow('Message timeout');
     });
+
+    it('should reject cursors for rooms the sender has not joined', async () => {
+      client1.send(
+        JSON.stringify({
+          messageId: 'msg-001',
+          timestamp: new Date().toISOString(),
+          type: 'cursor',
+          object: 'Account',
+          recordId: 'acc-002',
+          offset: 10,
+        }),
+      );
+
+      const error = await waitForMessage(client1);
+      expect(error.code).toBe('NOT_IN_ROOM');
+      await expect(waitForMessage(client2, 300)).rejects.toThrow('Message timeout');
+    });
+  });
+
+  describe('Rooms: Idle Timeout', () => {
+    const room = 'record:Account:acc-001';
+
+    beforeEach(async () => {
+      await plugin.destroy();
+      plugin = createRealtimePlugin({
+        port: testPort,
+        auth: { required: false },
+        rooms: { idleTimeoutMs: 200 },
+      });
+      await plugin.init(mockContext);
+      await plugin.start(mockContext);
+    });
+
+    it('should show idle members as away until they are active again', async () => {
+      const [client1, client2] = await Promise.all([
+        connectClient(testPort),
+        connectClient(testPort),
+      ]);
+      await joinRoom(client1, room, { userId: 'user-1' });
+      await joinRoom(client2, room, { userId: 'user-2' }, [client1]);
+
+      // Both go idle; each sees the other as away
+      const [idle1, idle2] = await Promise.all([waitForMessage(client1), waitForMessage(client2)]);
+      expect(idle1.presence).toMatchObject({ userId: 'user-2', status: 'away' });
+      expect(idle2.presence).toMatchObject({ userId: 'user-1', status: 'away' });
+
+      client1.send(
+        JSON.stringify({
+          messageId: 'msg-001',
+          timestamp: new Date().toISOString(),
+          type: 'cursor',
+          contextId: room,
+          offset: 1,
+        }),
+      );
+      const [resumed, cursor] = await waitForMessages(client2, 2);
+      expect(resumed.presence).toMatchObject({ userId: 'user-1', status: 'online' });
+      expect(cursor.type).toBe('cursor');
+
+      client1.close();
+      client2.close();
+    });
   });
 
   describe('Ping / Pong Heartbeat', () => {
@@ -855,6 +1086,914 @@ describe('Realtime Plugin', () => {
   });
 });
 
+// ─── Room Permissions Tests ────────────────────────────────────────────────────
+
+describe('Rooms: Record Permissions', () => {
+  const room = 'record:Account:acc-001';
+  let plugin: any;
+  let context: PluginContext;
+  let kernel: any;
+  let port: number;
+  let readable: Set<string>;
+  let explain: jest.Mock;
+
+  beforeEach(async () => {
+    const mock = createMockContext();
+    context = mock.context;
+    kernel = mock.kernel;
+    port = getPort();
+    readable = new Set(['alice', 'bob']);
+    explain = jest.fn(async (request: any) => ({
+      allowed: readable.has(request.context.userId),
+    }));
+    kernel.services.set('permissions', { explain });
+    plugin = createRealtimePlugin({
+      port,
+      auth: {
+        required: true,
+        validator: async (token: string) => ({
+          authenticated: true,
+          userId: token,
+          roles: ['user'],
+        }),
+      },
+      rooms: { permissionCacheMs: 0 },
+    });
+    await plugin.init(context);
+    await plugin.start(context);
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+  });
+
+  it('should check read access to the record on join', async () => {
+    const alice = await connectClient(port, 'alice');
+    const { ack, awareness } = await joinRoom(alice, room);
+
+    expect(ack.success).toBe(true);
+    expect(awareness.state.users[0].userId).toBe('alice');
+    expect(explain).toHaveBeenCalledWith(
+      expect.objectContaining({
+        context: expect.objectContaining({ userId: 'alice', profiles: ['user'] }),
+        objectName: 'Account',
+        action: 'read',
+        recordId: 'acc-001',
+      }),
+    );
+    alice.close();
+  });
+
+  it('should deny joining rooms of unreadable records', async () => {
+    const mallory = await connectClient(port, 'mallory');
+    const { ack } = await joinRoom(mallory, room);
+
+    expect(ack.success).toBe(false);
+    expect(ack.error).toBe('Permission denied');
+    expect(kernel.services.get('realtime').listRooms()).toEqual([]);
+    mallory.close();
+  });
+
+  it('should stop delivering to members who lose read access', async () => {
+    const [alice, bob] = await Promise.all([
+      connectClient(port, 'alice'),
+      connectClient(port, 'bob'),
+    ]);
+    await joinRoom(alice, room);
+    await joinRoom(bob, room, undefined, [alice]);
+
+    readable.delete('bob');
+    alice.send(
+      JSON.stringify({
+        messageId: 'msg-001',
+        timestamp: new Date().toISOString(),
+        type: 'cursor',
+        contextId: room,
+        offset: 5,
+      }),
+    );
+
+    await expect(waitForMessage(bob, 300)).rejects.toThrow('Message timeout');
+    alice.close();
+    bob.close();
+  });
+
+  it('should use the authenticated user ID in relayed messages', async () => {
+    const [alice, bob] = await Promise.all([
+      connectClient(port, 'alice'),
+      connectClient(port, 'bob'),
+    ]);
+    await joinRoom(alice, room, { userId: 'someone-else' });
+    await joinRoom(bob, room, undefined, [alice]);
+
+    alice.send(
+      JSON.stringify({
+        messageId: 'msg-001',
+        timestamp: new Date().toISOString(),
+        type: 'edit',
+        contextId: room,
+        userId: 'someone-else',
+        operation: 'insert',
+      }),
+    );
+
+    const edit = await waitForMessage(bob);
+    expect(edit.userId).toBe('alice');
+    alice.close();
+    bob.close();
+  });
+});
+
+// ─── Collaborative Documents Tests ─────────────────────────────────────────────
+
+describe('Collaborative Documents', () => {
+  const room = 'record:Account:acc-001';
+  const documentId = 'record:Account:acc-001#description';
+  let plugin: any;
+  let context: PluginContext;
+  let port: number;
+  let records: Record<string, any>;
+  let call: jest.Mock;
+
+  const send = (ws: WebSocket, message: Record<string, any>) =>
+    ws.send(
+      JSON.stringify({
+        messageId: `m-${Math.random()}`,
+        timestamp: new Date().toISOString(),
+        ...message,
+      }),
+    );
+
+  const openDocument = async (ws: WebSocket) => {
+    const replies = waitForMessages(ws, 2);
+    send(ws, { type: 'doc-open', object: 'Account', recordId: 'acc-001', field: 'description' });
+    const [ack, state] = await replies;
+    expect(ack.success).toBe(true);
+    return state;
+  };
+
+  beforeEach(async () => {
+    const mock = createMockContext();
+    context = mock.context;
+    port = getPort();
+    records = { 'acc-001': { _id: 'acc-001', description: 'hello' } };
+    call = jest.fn(async (action: string, params: any) => {
+      if (action === 'data.get') return records[params.id] ?? null;
+      if (action === 'data.update') Object.assign(records[params.id], params.doc);
+      return null;
+    });
+    (context as any).broker = { call };
+    mock.kernel.services.set('objectql', accountMetadata());
+    plugin = createRealtimePlugin({ port, auth: { required: false } });
+    await plugin.init(context);
+    await plugin.start(context);
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+  });
+
+  it('should send the text and revision of a document to late joiners', async () => {
+    const client = await connectClient(port);
+    await joinRoom(client, room, { userId: 'user-1' });
+
+    const state = await openDocument(client);
+    expect(state).toMatchObject({
+      type: 'doc-state',
+      documentId,
+      revision: 0,
+      content: 'hello',
+    });
+
+    const ack = waitForMessage(client);
+    send(client, { type: 'ot-operation', documentId, revision: 0, operation: [5, '!'] });
+    expect(await ack).toMatchObject({ success: true, revision: 1 });
+
+    const late = await connectClient(port);
+    await joinRoom(late, room, { userId: 'user-2' }, [client]);
+    expect(await openDocument(late)).toMatchObject({ revision: 1, content: 'hello!' });
+
+    client.close();
+    late.close();
+  });
+
+  it('should converge concurrent operations', async () => {
+    const [alice, bob] = await Promise.all([connectClient(port), connectClient(port)]);
+    await joinRoom(alice, room, { userId: 'alice' });
+    await joinRoom(bob, room, { userId: 'bob' }, [alice]);
+    await openDocument(alice);
+    await openDocument(bob);
+
+    const aliceMessages = waitForMessages(alice, 2);
+    const bobMessages = waitForMessages(bob, 2);
+    // Both edit revision 0
+    send(alice, { type: 'ot-operation', documentId, revision: 0, operation: ['Oh, ', 5] });
+    send(bob, { type: 'ot-operation', documentId, revision: 0, operation: [5, ' world'] });
+
+    const received = [...(await aliceMessages), ...(await bobMessages)];
+    const relayed = received.filter((m) => m.type === 'ot-operation');
+    expect(relayed.map((m) => m.revision).sort()).toEqual([1, 2]);
+
+    const service = (context.registerService as jest.Mock).mock.calls[0][1];
+    expect(service.getDocument(documentId)).toMatchObject({
+      revision: 2,
+      content: 'Oh, hello world',
+    });
+    expect(service.listSessions()).toEqual([
+      expect.objectContaining({ documentId, participants: ['alice', 'bob'], mode: 'edit' }),
+    ]);
+
+    alice.close();
+    bob.close();
+  });
+
+  it('should only open text fields', async () => {
+    const client = await connectClient(port);
+    await joinRoom(client, room, { userId: 'user-1' });
+
+    for (const field of ['owner', 'missing']) {
+      const ack = waitForMessage(client);
+      send(client, { type: 'doc-open', object: 'Account', recordId: 'acc-001', field });
+      expect(await ack).toMatchObject({
+        success: false,
+        error: `Account.${field} is not a text field`,
+      });
+    }
+    expect(call).not.toHaveBeenCalledWith('data.get', expect.anything());
+    client.close();
+  });
+
+  it('should reject operations on documents that are not open', async () => {
+    const client = await connectClient(port);
+    await joinRoom(client, room, { userId: 'user-1' });
+
+    const ack = waitForMessage(client);
+    send(client, { type: 'ot-operation', documentId, revision: 0, operation: [5, '!'] });
+    expect(await ack).toMatchObject({
+      success: false,
+      error: `Document ${documentId} is not open`,
+    });
+    client.close();
+  });
+
+  it('should write the document back to the record', async () => {
+    const client = await connectClient(port);
+    await joinRoom(client, room, { userId: 'user-1' });
+    await openDocument(client);
+
+    const ack = waitForMessage(client);
+    send(client, { type: 'ot-operation', documentId, revision: 0, operation: ['Oh, ', 5] });
+    await ack;
+
+    const service = (context.registerService as jest.Mock).mock.calls[0][1];
+    await service.snapshotDocuments();
+    expect(call).toHaveBeenCalledWith('data.update', {
+      object: 'Account',
+      id: 'acc-001',
+      doc: { description: 'Oh, hello' },
+    });
+
+    // The last one out saves and unloads the document
+    send(client, { type: 'ot-operation', documentId, revision: 1, operation: [9, '!'] });
+    await waitForMessage(client);
+    send(client, { type: 'doc-close', documentId });
+    await waitForMessage(client);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(records['acc-001'].description).toBe('Oh, hello!');
+    expect(service.getDocument(documentId)).toBeNull();
+    expect(service.listSessions()).toEqual([]);
+    client.close();
+  });
+});
+
+describe('Collaborative Documents: Field Security', () => {
+  const room = 'record:Account:acc-001';
+  let plugin: any;
+  let context: PluginContext;
+  let port: number;
+  let records: Record<string, any>;
+  let call: jest.Mock;
+  let explain: jest.Mock;
+
+  const send = (ws: WebSocket, message: Record<string, any>) =>
+    ws.send(
+      JSON.stringify({
+        messageId: `m-${Math.random()}`,
+        timestamp: new Date().toISOString(),
+        ...message,
+      }),
+    );
+
+  beforeEach(async () => {
+    const mock = createMockContext();
+    context = mock.context;
+    port = getPort();
+    records = { 'acc-001': { _id: 'acc-001', description: 'hello', notes: 'secret' } };
+    call = jest.fn(async (action: string, params: any) => {
+      if (action === 'data.get') return records[params.id] ?? null;
+      if (action === 'data.update') Object.assign(records[params.id], params.doc);
+      return null;
+    });
+    (context as any).broker = { call };
+    mock.kernel.services.set('objectql', accountMetadata());
+    // `notes` is hidden and `description` read-only for everyone but alice
+    explain = jest.fn(async (request: any) => {
+      const field = request.fields?.[0];
+      const editor = request.context.userId === 'alice';
+      const read = field !== 'notes';
+      return {
+        allowed: true,
+        hiddenFields: read ? [] : [field],
+        fields: field ? [{ field, read, edit: read && editor }] : [],
+      };
+    });
+    mock.kernel.services.set('permissions', { explain });
+    plugin = createRealtimePlugin({
+      port,
+      auth: {
+        required: true,
+        validator: async (token: string) => ({
+          authenticated: true,
+          userId: token,
+          roles: ['user'],
+          tenantId: 'org-1',
+        }),
+      },
+      rooms: { permissionCacheMs: 0 },
+    });
+    await plugin.init(context);
+    await plugin.start(context);
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+  });
+
+  it('should refuse to open fields hidden from the user', async () => {
+    const alice = await connectClient(port, 'alice');
+    await joinRoom(alice, room);
+
+    const ack = waitForMessage(alice);
+    send(alice, { type: 'doc-open', object: 'Account', recordId: 'acc-001', field: 'notes' });
+    expect(await ack).toMatchObject({ success: false, error: 'Permission denied' });
+    expect(explain).toHaveBeenCalledWith(
+      expect.objectContaining({ objectName: 'Account', recordId: 'acc-001', fields: ['notes'] }),
+    );
+    alice.close();
+  });
+
+  it('should reject operations on fields the user cannot edit', async () => {
+    const bob = await connectClient(port, 'bob');
+    await joinRoom(bob, room);
+    const replies = waitForMessages(bob, 2);
+    send(bob, { type: 'doc-open', object: 'Account', recordId: 'acc-001', field: 'description' });
+    expect((await replies)[1]).toMatchObject({ type: 'doc-state', content: 'hello' });
+
+    const ack = waitForMessage(bob);
+    send(bob, {
+      type: 'ot-operation',
+      documentId: 'record:Account:acc-001#description',
+      revision: 0,
+      operation: [5, '!'],
+    });
+    expect(await ack).toMatchObject({ success: false, error: 'Permission denied' });
+    bob.close();
+  });
+
+  it('should save the document as the user who edited it', async () => {
+    const alice = await connectClient(port, 'alice');
+    await joinRoom(alice, room);
+    const replies = waitForMessages(alice, 2);
+    send(alice, { type: 'doc-open', object: 'Account', recordId: 'acc-001', field: 'description' });
+    await replies;
+
+    const ack = waitForMessage(alice);
+    send(alice, {
+      type: 'ot-operation',
+      documentId: 'record:Account:acc-001#description',
+      revision: 0,
+      operation: [5, '!'],
+    });
+    expect(await ack).toMatchObject({ success: true, revision: 1 });
+
+    const service = (context.registerService as jest.Mock).mock.calls[0][1];
+    await service.snapshotDocuments();
+    expect(call).toHaveBeenCalledWith('data.update', {
+      object: 'Account',
+      id: 'acc-001',
+      doc: { description: 'hello!' },
+      userId: 'alice',
+      userProfiles: ['user'],
+      organizationId: 'org-1',
+    });
+    alice.close();
+  });
+});
+
+describe('Event Replay', () => {
+  let plugin: any;
+  let service: any;
+  let port: number;
+
+  const subscription = { subscriptionId: 'sub-001', events: ['data.record.*'] };
+
+  const subscribe = async (ws: WebSocket, message: Record<string, any> = {}) => {
+    const ack = waitForMessage(ws);
+    ws.send(
+      JSON.stringify({
+        messageId: 'sub',
+        timestamp: new Date().toISOString(),
+        type: 'subscribe',
+        subscription,
+        ...message,
+      }),
+    );
+    return ack;
+  };
+
+  const broadcast = (n: number, object = 'Account') =>
+    service.broadcast('data.record.updated', { n }, { object });
+
+  beforeEach(async () => {
+    const mock = createMockContext();
+    port = getPort();
+    plugin = createRealtimePlugin({
+      port,
+      auth: { required: false },
+      eventLog: { maxEventsPerChannel: 3 },
+    });
+    await plugin.init(mock.context);
+    await plugin.start(mock.context);
+    service = mock.kernel.services.get('realtime');
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+  });
+
+  it('should number events per channel', async () => {
+    const client = await connectClient(port);
+    const ack = await subscribe(client);
+    expect(ack).toMatchObject({ success: true, stream: expect.any(String), offsets: {} });
+
+    const events = waitForMessages(client, 3);
+    broadcast(1);
+    broadcast(2, 'Contact');
+    broadcast(3);
+    expect((await events).map((e) => [e.channel, e.offset, e.payload.n])).toEqual([
+      ['Account', 1, 1],
+      ['Contact', 1, 2],
+      ['Account', 2, 3],
+    ]);
+
+    expect(await subscribe(client)).toMatchObject({ offsets: { Account: 2, Contact: 1 } });
+    client.close();
+  });
+
+  it('should replay the events missed while disconnected', async () => {
+    const first = await connectClient(port);
+    const { stream } = await subscribe(first);
+    const received = waitForMessage(first);
+    broadcast(1);
+    expect(await received).toMatchObject({ offset: 1 });
+    first.close();
+
+    broadcast(2);
+    broadcast(3, 'Contact');
+
+    const second = await connectClient(port);
+    const replies = waitForMessages(second, 3);
+    second.send(
+      JSON.stringify({
+        messageId: 'resume',
+        timestamp: new Date().toISOString(),
+        type: 'resume',
+        subscription,
+        stream,
+        offsets: { Account: 1 },
+      }),
+    );
+    const [ack, ...replayed] = await replies;
+    expect(ack).toMatchObject({ ackMessageId: 'resume', success: true, stream });
+    expect(replayed.map((e) => [e.channel, e.offset, e.payload.n])).toEqual([
+      ['Account', 2, 2],
+      ['Contact', 1, 3],
+    ]);
+
+    // Then live
+    const live = waitForMessage(second);
+    broadcast(4);
+    expect(await live).toMatchObject({ channel: 'Account', offset: 3 });
+    await expect(waitForMessage(second, 200)).rejects.toThrow('Message timeout');
+    second.close();
+  });
+
+  it('should ask clients too far behind to resync', async () => {
+    const client = await connectClient(port);
+    const { stream } = await subscribe(client);
+    for (let n = 1; n <= 5; n++) broadcast(n);
+    broadcast(6, 'Contact');
+    await waitForMessages(client, 6);
+
+    const replies = waitForMessages(client, 3);
+    client.send(
+      JSON.stringify({
+        messageId: 'resume',
+        timestamp: new Date().toISOString(),
+        type: 'resume',
+        subscription: { ...subscription, subscriptionId: 'sub-002' },
+        stream,
+        offsets: { Account: 1 },
+      }),
+    );
+    const [ack, replayed, resync] = await replies;
+    expect(ack.success).toBe(true);
+    expect(replayed).toMatchObject({ subscriptionId: 'sub-002', channel: 'Contact', offset: 1 });
+    expect(resync).toMatchObject({
+      type: 'resync',
+      subscriptionId: 'sub-002',
+      channels: ['Account'],
+    });
+    client.close();
+  });
+
+  it('should ask clients resuming another stream to resync', async () => {
+    const client = await connectClient(port);
+    broadcast(1);
+
+    const replies = waitForMessages(client, 2);
+    client.send(
+      JSON.stringify({
+        messageId: 'resume',
+        timestamp: new Date().toISOString(),
+        type: 'resume',
+        subscription,
+        stream: 'stream-of-a-previous-server',
+        offsets: { Account: 10 },
+      }),
+    );
+    const [ack, resync] = await replies;
+    expect(ack).toMatchObject({ success: true, offsets: { Account: 1 } });
+    expect(resync).toEqual(expect.objectContaining({ type: 'resync', subscriptionId: 'sub-001' }));
+    expect(resync.channels).toBeUndefined();
+    client.close();
+  });
+});
+
+describe('Event Permissions', () => {
+  let plugin: any;
+  let service: any;
+  let port: number;
+  let explain: jest.Mock;
+
+  const access: Record<string, any> = {
+    alice: { allowed: true, filters: { owner: 'alice' }, hiddenFields: ['salary'] },
+    bob: { allowed: true, filters: {}, hiddenFields: [] },
+    eve: { allowed: false, filters: {}, hiddenFields: [] },
+    mallory: { allowed: true, filters: {}, hiddenFields: [] },
+  };
+  /** Roles below each manager role, as the role hierarchy would resolve them */
+  const subordinateRoles: Record<string, string[]> = { sales_manager: ['sales_rep'] };
+
+  const subscribe = async (ws: WebSocket, subscription: Record<string, any> = {}) => {
+    const ack = waitForMessage(ws);
+    ws.send(
+      JSON.stringify({
+        messageId: 'sub',
+        timestamp: new Date().toISOString(),
+        type: 'subscribe',
+        subscription: { subscriptionId: 'sub-001', events: ['data.record.*'], ...subscription },
+      }),
+    );
+    await ack;
+  };
+
+  const broadcast = (record: Record<string, any>) =>
+    service.broadcast(
+      'data.record.updated',
+      { _organizationId: 'org-1', ...record },
+      { object: 'Employee' },
+    );
+
+  beforeEach(async () => {
+    const mock = createMockContext();
+    port = getPort();
+    explain = jest.fn(async ({ context }: any) => {
+      const subordinates = subordinateRoles[context.roleName];
+      if (!subordinates) return access[context.userId];
+      return {
+        allowed: true,
+        filters: { $or: [{ owner: context.userId }, { owner_role: { $in: subordinates } }] },
+        hiddenFields: [],
+      };
+    });
+    mock.kernel.services.set('permissions', { explain });
+    plugin = createRealtimePlugin({
+      port,
+      auth: {
+        required: true,
+        validator: async (token: string) => ({
+          authenticated: true,
+          userId: token,
+          roles: ['user'],
+          roleName: token === 'maria' ? 'sales_manager' : undefined,
+          tenantId: token === 'mallory' ? 'org-2' : 'org-1',
+        }),
+      },
+    });
+    await plugin.init(mock.context);
+    await plugin.start(mock.context);
+    service = mock.kernel.services.get('realtime');
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+  });
+
+  it('should deliver record events as each user may read them', async () => {
+    const [alice, bob, eve] = await Promise.all(
+      ['alice', 'bob', 'eve'].map((user) => connectClient(port, user)),
+    );
+    await Promise.all([alice, bob, eve].map((ws) => subscribe(ws)));
+
+    const toAlice = waitForMessage(alice);
+    const toBob = waitForMessage(bob);
+    broadcast({ name: 'Ada', owner: 'alice', salary: 100 });
+
+    expect((await toAlice).payload).toEqual({
+      _organizationId: 'org-1',
+      name: 'Ada',
+      owner: 'alice',
+    });
+    expect((await toBob).payload).toMatchObject({ salary: 100 });
+    await expect(waitForMessage(eve, 200)).rejects.toThrow('Message timeout');
+
+    expect(explain).toHaveBeenCalledWith({
+      context: { userId: 'alice', profiles: ['user'], organizationId: 'org-1' },
+      objectName: 'Employee',
+      action: 'read',
+    });
+    [alice, bob, eve].forEach((ws) => ws.close());
+  });
+
+  it('should apply record-level security to each record', async () => {
+    const alice = await connectClient(port, 'alice');
+    await subscribe(alice);
+
+    const received = waitForMessages(alice, 2);
+    broadcast({ name: 'Ada', owner: 'alice' });
+    broadcast({ name: 'Bea', owner: 'bob' });
+    broadcast({ name: 'Cy', owner: 'alice' });
+
+    expect((await received).map((e) => e.payload.name)).toEqual(['Ada', 'Cy']);
+    // One check per user and object
+    expect(explain).toHaveBeenCalledTimes(1);
+    alice.close();
+  });
+
+  it("should deliver a subordinate's record to their manager", async () => {
+    const [maria, eve] = await Promise.all(
+      ['maria', 'eve'].map((user) => connectClient(port, user)),
+    );
+    await Promise.all([maria, eve].map((ws) => subscribe(ws)));
+
+    const received = waitForMessage(maria);
+    broadcast({ name: 'Deal', owner: 'sam', owner_role: 'sales_rep' });
+
+    expect((await received).payload.name).toBe('Deal');
+    await expect(waitForMessage(eve, 200)).rejects.toThrow('Message timeout');
+    expect(explain).toHaveBeenCalledWith({
+      context: {
+        userId: 'maria',
+        profiles: ['user'],
+        roleName: 'sales_manager',
+        organizationId: 'org-1',
+      },
+      objectName: 'Employee',
+      action: 'read',
+    });
+    [maria, eve].forEach((ws) => ws.close());
+  });
+
+  it('should isolate tenants', async () => {
+    const mallory = await connectClient(port, 'mallory');
+    await subscribe(mallory);
+
+    broadcast({ name: 'Ada', owner: 'alice' });
+    await expect(waitForMessage(mallory, 200)).rejects.toThrow('Message timeout');
+
+    const received = waitForMessage(mallory);
+    broadcast({ name: 'Mo', owner: 'mallory', _organizationId: 'org-2' });
+    expect((await received).payload.name).toBe('Mo');
+    mallory.close();
+  });
+
+  it('should not match subscription filters on hidden fields', async () => {
+    const alice = await connectClient(port, 'alice');
+    await subscribe(alice, {
+      filters: { conditions: [{ field: 'salary', operator: 'gt', value: 50 }] },
+    });
+
+    broadcast({ name: 'Ada', owner: 'alice', salary: 100 });
+    await expect(waitForMessage(alice, 200)).rejects.toThrow('Message timeout');
+    alice.close();
+  });
+
+  it('should deliver events without an object to everyone', async () => {
+    const eve = await connectClient(port, 'eve');
+    await subscribe(eve, { events: ['system.*'] });
+
+    const received = waitForMessage(eve);
+    service.broadcast('system.maintenance', { at: 'noon' });
+    expect((await received).payload).toEqual({ at: 'noon' });
+    expect(explain).not.toHaveBeenCalled();
+    eve.close();
+  });
+
+  it('should deliver events with recipients only to those users', async () => {
+    const [alice, bob] = await Promise.all(
+      ['alice', 'bob'].map((user) => connectClient(port, user)),
+    );
+    await Promise.all([alice, bob].map((ws) => subscribe(ws, { events: ['notification.*'] })));
+
+    const received = waitForMessage(bob);
+    service.broadcast('notification.created', { title: 'Hi' }, { recipients: ['bob'] });
+    expect((await received).payload).toEqual({ title: 'Hi' });
+    await expect(waitForMessage(alice, 200)).rejects.toThrow('Message timeout');
+    [alice, bob].forEach((ws) => ws.close());
+  });
+});
+
+// ─── Cluster Tests ─────────────────────────────────────────────────────────────
+
+describe('Cluster', () => {
+  const room = 'record:Account:acc-001';
+  const documentId = 'record:Account:acc-001#description';
+  let nodes: Array<{ plugin: any; service: any; port: number }>;
+  let records: Record<string, any>;
+
+  const send = (ws: WebSocket, message: Record<string, any>) =>
+    ws.send(
+      JSON.stringify({
+        messageId: `m-${Math.random()}`,
+        timestamp: new Date().toISOString(),
+        ...message,
+      }),
+    );
+
+  const startNode = async (bus: MemoryBus) => {
+    const { context, kernel } = createMockContext();
+    kernel.services.set('objectql', accountMetadata());
+    (context as any).broker = {
+      call: jest.fn(async (action: string, params: any) => {
+        if (action === 'data.get') return records[params.id] ?? null;
+        if (action === 'data.update') Object.assign(records[params.id], params.doc);
+        return null;
+      }),
+    };
+    const port = getPort();
+    const plugin = createRealtimePlugin({
+      port,
+      auth: { required: false },
+      cluster: { broker: new MemoryBroker(bus), syncTimeoutMs: 50 },
+    });
+    await plugin.init(context);
+    await plugin.start!(context);
+    return { plugin, service: kernel.services.get('realtime'), port };
+  };
+
+  beforeEach(async () => {
+    records = { 'acc-001': { _id: 'acc-001', description: 'hello' } };
+    const bus = new MemoryBus();
+    // The second node copies the event log of the first
+    nodes = [await startNode(bus)];
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    nodes.push(await startNode(bus));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  });
+
+  afterEach(async () => {
+    for (const node of nodes) await node.plugin.destroy();
+  });
+
+  it('should deliver events published on one node to clients of another', async () => {
+    const client = await connectClient(nodes[1].port);
+    send(client, {
+      type: 'subscribe',
+      subscription: { subscriptionId: 'sub-001', events: ['user.created'] },
+    });
+    await waitForMessage(client);
+
+    nodes[0].service.broadcast('user.created', { name: 'John' });
+    expect(await waitForMessage(client)).toMatchObject({
+      type: 'event',
+      subscriptionId: 'sub-001',
+      payload: { name: 'John' },
+    });
+    client.close();
+  });
+
+  it('should resume subscriptions on another node', async () => {
+    const subscription = { subscriptionId: 'sub-001', events: ['data.record.*'] };
+    nodes[0].service.broadcast('data.record.updated', { n: 1 }, { object: 'Account' });
+
+    const first = await connectClient(nodes[0].port);
+    send(first, { type: 'subscribe', subscription });
+    const { stream, offsets } = await waitForMessage(first);
+    expect(offsets).toEqual({ Account: 1 });
+    first.close();
+
+    nodes[1].service.broadcast('data.record.updated', { n: 2 }, { object: 'Account' });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const second = await connectClient(nodes[1].port);
+    const replies = waitForMessages(second, 2);
+    send(second, { type: 'resume', subscription, stream, offsets });
+    const [ack, replayed] = await replies;
+    expect(ack).toMatchObject({ success: true, stream });
+    expect(replayed).toMatchObject({ channel: 'Account', offset: 2, payload: { n: 2 } });
+    second.close();
+  });
+
+  it('should share room presence across nodes', async () => {
+    const alice = await connectClient(nodes[0].port);
+    const bob = await connectClient(nodes[1].port);
+    await joinRoom(alice, room, { userId: 'alice' });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const { awareness } = await joinRoom(bob, room, { userId: 'bob' }, [alice]);
+    expect(awareness.state.users.map((u: any) => u.userId).sort()).toEqual(['alice', 'bob']);
+
+    const cursor = waitForMessage(alice);
+    send(bob, { type: 'cursor', contextId: room, cursor: { userId: 'bob', position: 3 } });
+    expect(await cursor).toMatchObject({ type: 'cursor', contextId: room });
+
+    // Bob's node goes away: Alice sees Bob offline
+    const offline = waitForMessage(alice);
+    await nodes[1].plugin.destroy();
+    expect(await offline).toMatchObject({
+      type: 'presence',
+      presence: { userId: 'bob', status: 'offline' },
+    });
+    expect(nodes[0].service.getAwarenessState(room).users).toEqual([
+      expect.objectContaining({ userId: 'alice' }),
+    ]);
+    alice.close();
+  });
+
+  it('should let a client reconnect to any node', async () => {
+    const first = await connectClient(nodes[0].port);
+    await joinRoom(first, room, { userId: 'alice' });
+    first.close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const second = await connectClient(nodes[1].port);
+    const { awareness } = await joinRoom(second, room, { userId: 'alice' });
+    expect(awareness.state.users).toEqual([expect.objectContaining({ userId: 'alice' })]);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(nodes[0].service.getAwarenessState(room).users).toEqual([
+      expect.objectContaining({ userId: 'alice', status: 'online' }),
+    ]);
+    second.close();
+  });
+
+  it('should keep collaborative documents consistent across nodes', async () => {
+    const openDocument = async (ws: WebSocket) => {
+      const replies = waitForMessages(ws, 2);
+      send(ws, { type: 'doc-open', object: 'Account', recordId: 'acc-001', field: 'description' });
+      return (await replies)[1];
+    };
+
+    const alice = await connectClient(nodes[0].port);
+    await joinRoom(alice, room, { userId: 'alice' });
+    await openDocument(alice);
+    const ack = waitForMessage(alice);
+    send(alice, { type: 'ot-operation', documentId, revision: 0, operation: [5, '!'] });
+    expect(await ack).toMatchObject({ success: true, revision: 1 });
+
+    // A late joiner on the other node gets the unsaved edit from the first
+    const bob = await connectClient(nodes[1].port);
+    await joinRoom(bob, room, { userId: 'bob' }, [alice]);
+    expect(await openDocument(bob)).toMatchObject({ revision: 1, content: 'hello!' });
+
+    const aliceMessages = waitForMessages(alice, 2);
+    const bobMessages = waitForMessages(bob, 2);
+    send(alice, { type: 'ot-operation', documentId, revision: 1, operation: ['Oh, ', 6] });
+    send(bob, { type: 'ot-operation', documentId, revision: 1, operation: [6, ' world'] });
+    await Promise.all([aliceMessages, bobMessages]);
+
+    for (const node of nodes) {
+      expect(node.service.getDocument(documentId)).toMatchObject({
+        revision: 3,
+        content: 'Oh, hello! world',
+      });
+    }
+    alice.close();
+    bob.close();
+  });
+});
+
 // ─── Kernel Compliance Tests ───────────────────────────────────────────────────
 
 describe('Kernel Compliance', () => {
@@ -0,0 +1,78 @@
+/**
+ * Tests for Realtime Rooms
+ */
+
+import { RoomManager, parseRecordContext, visiblePresence } from '../src/rooms.js';
+
+const presence = (userId: string) => ({
+  userId,
+  status: 'online' as const,
+  lastActive: new Date(0).toISOString(),
+});
+
+describe('parseRecordContext', () => {
+  it('should parse record context IDs', () => {
+    expect(parseRecordContext('record:Account:001')).toEqual({
+      objectName: 'Account',
+      recordId: '001',
+    });
+    expect(parseRecordContext('record:Account:a:b')).toEqual({
+      objectName: 'Account',
+      recordId: 'a:b',
+    });
+    expect(parseRecordContext('dashboard:sales')).toBeUndefined();
+  });
+});
+
+describe('RoomManager', () => {
+  let rooms: RoomManager;
+
+  beforeEach(() => {
+    rooms = new RoomManager(1000);
+  });
+
+  it('should drop rooms when the last member leaves', () => {
+    rooms.join('room-a', 'c1', presence('u1'), 0);
+    rooms.join('room-b', 'c1', presence('u1'), 0);
+    expect(rooms.getRoomsOf('c1').sort()).toEqual(['room-a', 'room-b']);
+
+    expect(rooms.leave('room-a', 'c1')?.clientId).toBe('c1');
+    expect(rooms.leave('room-a', 'c1')).toBeUndefined();
+    expect(rooms.leaveAll('c1').map((left) => left.contextId)).toEqual(['room-b']);
+    expect(rooms.getRoomIds()).toEqual([]);
+  });
+
+  it('should list users once, with their most recent connection', () => {
+    rooms.join('room', 'c1', { ...presence('u1'), status: 'busy' }, 0);
+    rooms.join('room', 'c2', presence('u1'), 10);
+    rooms.join('room', 'c3', presence('u2'), 5);
+
+    const state = rooms.getState('room')!;
+    expect(state.users.map((u) => [u.userId, u.status])).toEqual([
+      ['u1', 'online'],
+      ['u2', 'online'],
+    ]);
+  });
+
+  it('should mark idle members away and drop their cursors', () => {
+    rooms.join('room', 'c1', presence('u1'), 0);
+    rooms.setCursor('room', 'c1', { userId: 'u1', offset: 3 }, 0);
+
+    expect(rooms.sweep(500)).toEqual([]);
+    const idled = rooms.sweep(1000);
+    expect(idled.map((i) => i.member.clientId)).toEqual(['c1']);
+    expect(visiblePresence(idled[0].member).status).toBe('away');
+    expect(rooms.getState('room')!.cursors).toEqual([]);
+    expect(rooms.sweep(2000)).toEqual([]);
+
+    expect(rooms.touch('room', 'c1', 2500)?.resumed).toBe(true);
+    expect(rooms.getState('room')!.users[0].status).toBe('online');
+    expect(rooms.getState('room')!.cursors).toHaveLength(1);
+  });
+
+  it('should keep the user ID on presence updates', () => {
+    rooms.join('room', 'c1', presence('u1'), 0);
+    const member = rooms.updatePresence('room', 'c1', { userId: 'u2', status: 'busy' } as any);
+    expect(member?.presence).toMatchObject({ userId: 'u1', status: 'busy' });
+  });
+});
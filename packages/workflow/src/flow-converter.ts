@@ -210,5 +210,12 @@ export function validateFlow(flow: Flow): string[] {
     if (!hasOutgoing) errors.push(`Node ${node.label} (${node.id}) has no outgoing edges`);
   }
 
+  // Loop nodes route into their body via an `each` edge
+  for (const node of flow.nodes) {
+    if (node.type !== 'loop') continue;
+    const hasBody = flow.edges.some((e) => e.source === node.id && e.label === 'each');
+    if (!hasBody) errors.push(`Loop ${node.label} (${node.id}) has no "each" edge`);
+  }
+
   return errors;
 }
@@ -5,16 +5,41 @@
  * Flow/FlowNode/FlowEdge format — without converting to legacy FSM.
  *
  * Traverses the graph from the start node, following edges based on
- * conditions, and executing node-specific logic at each step.
+ * conditions, and executing node-specific logic at each step. A `fork`
+ * node runs all of its outgoing branches concurrently until they meet at
+ * a `join` node; a `loop` node iterates its body over a collection; a
+ * `subflow` node runs another registered flow with typed inputs/outputs.
+ * A failed node is retried per its retry policy; if it still fails it
+ * routes to its outgoing `fault` edge. When the instance finally fails,
+ * compensation handlers undo completed side-effecting nodes in reverse
+ * order (saga).
+ *
+ * When a storage is configured, the instance (position, variables and
+ * history) is checkpointed after every node. `wait` nodes suspend the
+ * instance until a timer elapses or a correlated event arrives; suspended
+ * instances are resumed from storage, so they survive process restarts.
+ *
+ * Flows are versioned: new instances start on the active version, while
+ * existing instances keep running on the version they started with
+ * until they are explicitly migrated.
  */
 
+import { evaluateCondition } from '@objectos/automation';
+import { interpolate, lookup } from './template.js';
+import { FlowVersionRegistry, planMigration } from './flow-versions.js';
+import type {
+  FlowMigrationOptions,
+  FlowMigrationReport,
+  FlowVersion,
+  FlowVersionStatus,
+} from './flow-versions.js';
 import type {
   Flow,
   FlowNode,
   FlowEdge,
   WorkflowInstance,
+  WorkflowStorage,
   StateHistoryEntry,
-  WorkflowStatus,
 } from './types.js';
 
 /**
@@ -25,6 +50,30 @@ export type FlowNodeHandler = (
   context: FlowExecutionContext,
 ) => Promise<FlowNodeResult>;
 
+/**
+ * Compensation handler — undoes the effect of a completed node. Receives
+ * the output the node produced when it ran.
+ */
+export type FlowCompensationHandler = (
+  node: FlowNode,
+  context: FlowExecutionContext,
+  output: Record<string, unknown>,
+) => Promise<void>;
+
+/**
+ * Per-node retry policy (`node.config.retry`)
+ */
+export interface FlowRetryPolicy {
+  /** Total attempts including the first (default: 1) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 0) */
+  backoffMs?: number;
+  /** Factor applied to the delay after each retry (default: 2) */
+  backoffMultiplier?: number;
+  /** Upper bound for the delay in milliseconds (default: 60000) */
+  maxBackoffMs?: number;
+}
+
 /**
  * Result returned by a node handler
  */
@@ -37,6 +86,24 @@ export interface FlowNodeResult {
   error?: string;
   /** Explicit next edge label to follow (for decision nodes) */
   nextEdge?: string;
+  /** Suspend the instance at this node until the wait condition is met */
+  suspend?: FlowWaitRequest;
+}
+
+/**
+ * Wait condition requested by a node handler. At least one of
+ * `resumeAt` or `event` must be set; when both are set the instance
+ * resumes on whichever happens first.
+ */
+export interface FlowWaitRequest {
+  /** Resume once this time has passed */
+  resumeAt?: Date;
+  /** Resume when this event is delivered */
+  event?: string;
+  /** Only resume for events carrying this correlation key */
+  correlationKey?: string;
+  /** Resume when this child (subflow) instance finishes */
+  subflowInstanceId?: string;
 }
 
 /**
@@ -72,6 +139,22 @@ export interface FlowExecutionResult {
   error?: string;
   /** Number of nodes visited */
   nodesVisited: number;
+  /** Nodes compensated (in order) after the flow failed */
+  compensated?: string[];
+}
+
+/**
+ * Options for listing suspended flow instances
+ */
+export interface SuspendedFlowQuery {
+  /** Filter by flow name */
+  workflowId?: string;
+  /** Filter by awaited event */
+  event?: string;
+  /** Filter by correlation key */
+  correlationKey?: string;
+  /** Only instances whose timer is due at this time */
+  dueBefore?: Date;
 }
 
 /**
@@ -84,17 +167,60 @@ interface FlowLogger {
   debug: (msg: string, ...args: unknown[]) => void;
 }
 
+/**
+ * State shared by every path of one run (main path and parallel branches)
+ */
+interface FlowWalk {
+  flow: Flow;
+  nodeMap: Map<string, FlowNode>;
+  nodesVisited: number;
+  /** Nodes visited by completed loop iterations; not charged against `maxNodes` */
+  loopNodesVisited: number;
+  /** Charged node count at each active loop node's previous visit */
+  loopMarks: Map<string, number>;
+  /** Node being resumed and its result; its handler is not re-run */
+  resume?: { nodeId: string; result: FlowNodeResult };
+}
+
+/**
+ * A parallel branch started by a fork node
+ */
+interface FlowBranch {
+  /** Set once the join is satisfied or a sibling branch failed */
+  cancelled: boolean;
+  /** Enclosing branch when forks are nested */
+  parent?: FlowBranch;
+}
+
+/**
+ * How a walk over the graph ended
+ */
+type FlowWalkOutcome =
+  | { status: 'completed'; nodeId: string }
+  | { status: 'failed'; nodeId: string; error: string }
+  | { status: 'suspended'; nodeId: string; wait: FlowWaitRequest }
+  | { status: 'joined'; nodeId: string }
+  | { status: 'cancelled' }
+  | { status: 'limit' };
+
 /**
  * Flow Engine — executes spec-compliant Flow graphs natively
  */
 export class FlowEngine {
   private handlers: Map<string, FlowNodeHandler> = new Map();
+  private compensations: Map<string, FlowCompensationHandler> = new Map();
+  private versions = new FlowVersionRegistry();
+  private versionsLoaded?: Promise<void>;
+  private versionWrites: Promise<void> = Promise.resolve();
+  private running: Set<string> = new Set();
   private logger: FlowLogger;
   private maxNodes: number;
+  private storage?: WorkflowStorage;
 
-  constructor(options?: { logger?: FlowLogger; maxNodes?: number }) {
+  constructor(options?: { logger?: FlowLogger; maxNodes?: number; storage?: WorkflowStorage }) {
     this.logger = options?.logger || console;
     this.maxNodes = options?.maxNodes || 500;
+    this.storage = options?.storage;
 
     // Register default handlers
     this.registerDefaultHandlers();
@@ -107,6 +233,83 @@ export class FlowEngine {
     this.handlers.set(nodeType, handler);
   }
 
+  /**
+   * Register a compensation handler for a node type. Completed nodes of
+   * this type are compensated when the instance later fails.
+   */
+  registerCompensation(nodeType: string, handler: FlowCompensationHandler): void {
+    this.compensations.set(nodeType, handler);
+  }
+
+  /**
+   * Register a Flow definition so suspended instances can be resumed
+   * after a restart. Flows passed to execute() are registered implicitly.
+   * A new version is activated unless registered as `draft`; a known
+   * version keeps its status.
+   */
+  registerFlow(flow: Flow, status?: FlowVersionStatus): FlowVersion {
+    const registered = this.versions.register(flow, status);
+    this.saveFlowVersions(flow.name);
+    return registered;
+  }
+
+  /**
+   * Make a flow version the one new instances start on. The previously
+   * active version becomes obsolete.
+   */
+  activateFlow(name: string, version: string): FlowVersion {
+    const activated = this.versions.activate(name, version);
+    this.saveFlowVersions(name);
+    return activated;
+  }
+
+  /**
+   * Stop starting new instances on a flow version
+   */
+  obsoleteFlow(name: string, version: string): FlowVersion {
+    const obsoleted = this.versions.obsolete(name, version);
+    this.saveFlowVersions(name);
+    return obsoleted;
+  }
+
+  /**
+   * Restore flow version statuses saved in storage. Runs once; later
+   * calls return the same promise.
+   */
+  loadFlowVersions(): Promise<void> {
+    if (!this.versionsLoaded) {
+      const storage = this.storage;
+      this.versionsLoaded = storage?.listFlowVersions
+        ? storage
+            .listFlowVersions()
+            .then((states) => this.versions.restore(states))
+            .catch((error) => this.logger.error('Failed to load flow versions:', error))
+        : Promise.resolve();
+    }
+    return this.versionsLoaded;
+  }
+
+  /**
+   * Wait until flow version changes are written to storage
+   */
+  async flushFlowVersions(): Promise<void> {
+    await this.versionWrites;
+  }
+
+  /**
+   * List the registered versions of a flow
+   */
+  listFlowVersions(name: string): FlowVersion[] {
+    return this.versions.list(name);
+  }
+
+  /**
+   * Get a registered Flow definition (the active version if omitted)
+   */
+  getFlow(name: string, version?: string): Flow | undefined {
+    return version ? this.versions.get(name, version)?.flow : this.versions.getActive(name)?.flow;
+  }
+
   /**
    * Create a new workflow instance from a Flow definition
    */
@@ -133,20 +336,277 @@ export class FlowEngine {
    * Execute a Flow from start to completion
    *
    * Walks the graph from the start node, executing handlers at each node,
-   * and following edges until an end node is reached or an error occurs.
+   * and following edges until an end node is reached, a `wait` node
+   * suspends the instance, or an error occurs.
    */
   async execute(
     flow: Flow,
     instance: WorkflowInstance,
     initialVariables: Record<string, unknown> = {},
   ): Promise<FlowExecutionResult> {
+    // A version that is already known (or saved) keeps its status, so
+    // executing an obsolete version does not reactivate it
+    await this.loadFlowVersions();
+    this.registerFlow(flow);
     instance.status = 'running';
     instance.startedAt = new Date();
+    instance.variables = { ...initialVariables };
+    await this.storage?.saveInstance(instance);
+
+    return this.run(flow, instance, instance.variables);
+  }
+
+  /**
+   * Start a new instance of the active version of a registered flow
+   */
+  async start(
+    name: string,
+    variables: Record<string, unknown> = {},
+    startedBy?: string,
+  ): Promise<FlowExecutionResult> {
+    await this.loadFlowVersions();
+    const flow = this.getFlow(name);
+    if (!flow) {
+      throw new Error(
+        this.versions.list(name).length > 0
+          ? `Flow ${name} has no active version`
+          : `Flow not registered: ${name}`,
+      );
+    }
+    return this.execute(flow, this.createInstance(flow, variables, startedBy), variables);
+  }
+
+  /**
+   * Resume a suspended instance from storage. The wait node is treated as
+   * completed and `payload` is merged into the flow variables.
+   */
+  async resume(
+    instanceId: string,
+    payload: Record<string, unknown> = {},
+  ): Promise<FlowExecutionResult> {
+    return this.resumeInstance(instanceId, { success: true, output: payload });
+  }
+
+  /**
+   * Resume a suspended instance, using `result` as the outcome of the
+   * node it is suspended at. Parents of a finished subflow are resumed
+   * in turn.
+   */
+  private async resumeInstance(
+    instanceId: string,
+    nodeResult: FlowNodeResult,
+  ): Promise<FlowExecutionResult> {
+    const instance = await this.requireStorage().getInstance(instanceId);
+    if (!instance) {
+      throw new Error(`Flow instance not found: ${instanceId}`);
+    }
+    if (instance.status !== 'suspended' || !instance.wait) {
+      throw new Error(`Flow instance ${instanceId} is not suspended (status: ${instance.status})`);
+    }
+    if (this.running.has(instanceId)) {
+      throw new Error(`Flow instance ${instanceId} is already being resumed`);
+    }
+    const flow = this.getFlow(instance.workflowId, instance.version);
+    if (!flow) {
+      throw new Error(`Flow not registered: ${instance.workflowId} (version ${instance.version})`);
+    }
+
+    const resume = { nodeId: instance.wait.nodeId, result: nodeResult };
+    instance.status = 'running';
+    instance.wait = undefined;
+    const result = await this.run(flow, instance, { ...(instance.variables ?? {}) }, resume);
+    await this.notifyParent(instance, result.variables);
+    return result;
+  }
+
+  /**
+   * Resume every suspended instance whose timer has elapsed.
+   * Intended to be called periodically by the jobs scheduler.
+   */
+  async resumeDue(now: Date = new Date()): Promise<FlowExecutionResult[]> {
+    const due = await this.listSuspended({ dueBefore: now });
+    return this.resumeAll(due, {});
+  }
+
+  /**
+   * Deliver an external event, resuming every instance waiting on it.
+   * Instances that declared a correlation key only resume when it matches.
+   */
+  async deliverEvent(
+    event: string,
+    correlationKey?: string,
+    payload: Record<string, unknown> = {},
+  ): Promise<FlowExecutionResult[]> {
+    const waiting = await this.listSuspended({ event });
+    const matching = waiting.filter(
+      (instance) =>
+        instance.wait?.correlationKey === undefined ||
+        instance.wait.correlationKey === correlationKey,
+    );
+    return this.resumeAll(matching, payload);
+  }
+
+  /**
+   * List suspended instances
+   */
+  async listSuspended(query: SuspendedFlowQuery = {}): Promise<WorkflowInstance[]> {
+    const instances = await this.requireStorage().queryInstances({
+      workflowId: query.workflowId,
+      status: 'suspended',
+      sortBy: 'createdAt',
+      sortOrder: 'asc',
+    });
+
+    return instances.filter((instance) => {
+      const wait = instance.wait;
+      if (!wait) return false;
+      if (query.event !== undefined && wait.event !== query.event) return false;
+      if (query.correlationKey !== undefined && wait.correlationKey !== query.correlationKey) {
+        return false;
+      }
+      if (query.dueBefore) {
+        if (!wait.resumeAt) return false;
+        return new Date(wait.resumeAt).getTime() <= query.dueBefore.getTime();
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Move suspended instances of a flow from one version to another,
+   * mapping the node each waits at to a node of the target version.
+   * With `dryRun` nothing is changed and the report lists which
+   * instances can move and why the others cannot.
+   */
+  async migrateInstances(
+    name: string,
+    options: FlowMigrationOptions,
+  ): Promise<FlowMigrationReport> {
+    const { fromVersion, toVersion, nodeMap, instanceIds, dryRun = false } = options;
+    await this.loadFlowVersions();
+    if (!this.versions.get(name, fromVersion)) {
+      throw new Error(`Flow version not registered: ${name} (version ${fromVersion})`);
+    }
+    const target = this.versions.get(name, toVersion);
+    if (!target) {
+      throw new Error(`Flow version not registered: ${name} (version ${toVersion})`);
+    }
+    if (target.status === 'draft') {
+      throw new Error(`Cannot migrate instances to draft version ${toVersion} of ${name}`);
+    }
+
+    const storage = this.requireStorage();
+    const instances = await storage.queryInstances({
+      workflowId: name,
+      status: ['running', 'suspended'],
+      sortBy: 'createdAt',
+      sortOrder: 'asc',
+    });
+
+    const report: FlowMigrationReport = {
+      flow: name,
+      fromVersion,
+      toVersion,
+      dryRun,
+      migrated: [],
+      blocked: [],
+    };
+    for (const instance of instances) {
+      if (instance.version !== fromVersion) continue;
+      if (instanceIds && !instanceIds.includes(instance.id)) continue;
+
+      const plan = this.running.has(instance.id)
+        ? { ok: false as const, nodeId: instance.currentState, reason: 'Instance is executing' }
+        : planMigration(instance, target.flow, nodeMap);
+      if (!plan.ok) {
+        report.blocked.push({ instanceId: instance.id, nodeId: plan.nodeId, reason: plan.reason });
+        continue;
+      }
+
+      report.migrated.push({
+        instanceId: instance.id,
+        fromNodeId: plan.fromNodeId,
+        toNodeId: plan.toNodeId,
+      });
+      if (dryRun) continue;
+
+      const entry: StateHistoryEntry = {
+        fromState: plan.fromNodeId,
+        toState: plan.toNodeId,
+        transition: `migrate ${fromVersion}→${toVersion}`,
+        timestamp: new Date(),
+      };
+      await storage.updateInstance(instance.id, {
+        ...plan.instance,
+        history: [...instance.history, entry],
+      });
+    }
+
+    if (!dryRun && report.migrated.length > 0) {
+      this.logger.info(
+        `Migrated ${report.migrated.length} instance(s) of ${name} from version ${fromVersion} to ${toVersion}`,
+      );
+    }
+    return report;
+  }
+
+  /**
+   * Cancel a suspended instance
+   */
+  async cancel(
+    instanceId: string,
+    reason?: string,
+    cancelledBy?: string,
+  ): Promise<WorkflowInstance> {
+    const storage = this.requireStorage();
+    const instance = await storage.getInstance(instanceId);
+    if (!instance) {
+      throw new Error(`Flow instance not found: ${instanceId}`);
+    }
+    if (instance.status !== 'suspended') {
+      throw new Error(`Flow instance ${instanceId} is not suspended (status: ${instance.status})`);
+    }
 
+    const childId = instance.wait?.subflowInstanceId;
+    instance.status = 'aborted';
+    instance.abortedAt = new Date();
+    instance.completedBy = cancelledBy;
+    instance.error = reason;
+    instance.wait = undefined;
+    await storage.updateInstance(instanceId, {
+      status: instance.status,
+      abortedAt: instance.abortedAt,
+      completedBy: instance.completedBy,
+      error: instance.error,
+      wait: undefined,
+    });
+
+    // Cancel the subflow this instance waits on, then let a waiting parent
+    // take its fault path
+    if (childId) {
+      await this.cancel(childId, reason, cancelledBy).catch((err) =>
+        this.logger.warn(`Could not cancel subflow instance ${childId}`, err),
+      );
+    }
+    await this.notifyParent(instance, instance.variables ?? {});
+    return instance;
+  }
+
+  /**
+   * Run the instance from its current node and record the outcome
+   *
+   * @param resume - node being resumed and its result; its handler is not re-run
+   */
+  private async run(
+    flow: Flow,
+    instance: WorkflowInstance,
+    variables: Record<string, unknown>,
+    resume?: { nodeId: string; result: FlowNodeResult },
+  ): Promise<FlowExecutionResult> {
     const context: FlowExecutionContext = {
       flow,
       instance,
-      variables: { ...initialVariables },
+      variables,
       logger: this.logger,
     };
 
@@ -155,112 +615,569 @@ export class FlowEngine {
       nodeMap.set(node.id, node);
     }
 
-    let currentNodeId = instance.currentState;
-    let nodesVisited = 0;
+    const walk: FlowWalk = {
+      flow,
+      nodeMap,
+      nodesVisited: 0,
+      loopNodesVisited: 0,
+      loopMarks: new Map(),
+      resume,
+    };
+    this.running.add(instance.id);
 
     try {
-      while (currentNodeId && nodesVisited < this.maxNodes) {
-        const node = nodeMap.get(currentNodeId);
-        if (!node) {
-          throw new Error(`Node not found: ${currentNodeId}`);
-        }
-
-        nodesVisited++;
+      const outcome = await this.walk(walk, context, instance.currentState);
+      const result = (success: boolean): FlowExecutionResult => ({
+        success,
+        instance,
+        variables: context.variables,
+        error: success ? undefined : instance.error,
+        nodesVisited: walk.nodesVisited,
+      });
 
-        // Execute the node handler
-        const handler = this.handlers.get(node.type);
-        const result = handler ? await handler(node, context) : { success: true };
+      switch (outcome.status) {
+        case 'suspended':
+          // Suspend at this node until the wait condition is met
+          instance.currentState = outcome.nodeId;
+          instance.status = 'suspended';
+          instance.wait = {
+            nodeId: outcome.nodeId,
+            resumeAt: outcome.wait.resumeAt,
+            event: outcome.wait.event,
+            correlationKey: outcome.wait.correlationKey,
+            subflowInstanceId: outcome.wait.subflowInstanceId,
+            suspendedAt: new Date(),
+          };
+          await this.checkpoint(instance, context.variables);
+          return result(true);
 
-        if (!result.success) {
+        case 'failed': {
           instance.status = 'failed';
           instance.failedAt = new Date();
-          instance.error = result.error || `Node ${node.id} failed`;
-          return {
-            success: false,
-            instance,
-            variables: context.variables,
-            error: instance.error,
-            nodesVisited,
-          };
+          instance.error = outcome.error;
+          const compensated = await this.compensate(context);
+          await this.checkpoint(instance, context.variables);
+          return { ...result(false), compensated };
         }
 
-        // Merge output into variables
-        if (result.output) {
-          Object.assign(context.variables, result.output);
+        case 'limit': {
+          instance.status = 'failed';
+          instance.error = `Max node limit (${this.maxNodes}) exceeded — possible infinite loop`;
+          const compensated = await this.compensate(context);
+          await this.checkpoint(instance, context.variables);
+          return { ...result(false), compensated };
         }
 
-        // If this is an end node, we're done
-        if (node.type === 'end') {
-          instance.currentState = node.id;
+        default:
+          if ('nodeId' in outcome) instance.currentState = outcome.nodeId;
           instance.status = 'completed';
           instance.completedAt = new Date();
-          return {
-            success: true,
-            instance,
-            variables: context.variables,
-            nodesVisited,
-          };
-        }
+          instance.compensation = undefined;
+          await this.checkpoint(instance, context.variables);
+          return result(true);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      instance.status = 'failed';
+      instance.failedAt = new Date();
+      instance.error = errorMessage;
+      const compensated = await this.compensate(context);
+      await this.checkpoint(instance, context.variables).catch((checkpointErr) =>
+        this.logger.error(`Failed to checkpoint flow instance ${instance.id}`, checkpointErr),
+      );
+      return {
+        success: false,
+        instance,
+        variables: context.variables,
+        error: errorMessage,
+        nodesVisited: walk.nodesVisited,
+        compensated,
+      };
+    } finally {
+      this.running.delete(instance.id);
+    }
+  }
 
-        // Find next node via edges
-        const nextNodeId = this.resolveNextNode(flow, node, context, result.nextEdge);
-        if (!nextNodeId) {
-          // Dead end — no outgoing edges
-          instance.status = 'completed';
-          instance.completedAt = new Date();
-          return {
-            success: true,
-            instance,
-            variables: context.variables,
-            nodesVisited,
-          };
+  /**
+   * Walk the graph from a node, executing handlers and following edges
+   *
+   * The main path checkpoints after every transition. A parallel branch
+   * (`branch` set) runs on its own variable scope and stops when it
+   * reaches a join node or when its fork is cancelled.
+   */
+  private async walk(
+    walk: FlowWalk,
+    context: FlowExecutionContext,
+    startNodeId: string,
+    branch?: FlowBranch,
+  ): Promise<FlowWalkOutcome> {
+    const { flow, nodeMap } = walk;
+    const instance = context.instance;
+    let currentNodeId: string | null = startNodeId;
+
+    while (currentNodeId) {
+      if (walk.nodesVisited - walk.loopNodesVisited >= this.maxNodes) {
+        return { status: 'limit' };
+      }
+      if (branch && isCancelled(branch)) return { status: 'cancelled' };
+
+      const node = nodeMap.get(currentNodeId);
+      if (!node) {
+        throw new Error(`Node not found: ${currentNodeId}`);
+      }
+      // fork/join are engine node types outside the spec's FlowNode actions
+      const nodeType: string = node.type;
+      if (branch && nodeType === 'join') {
+        return { status: 'joined', nodeId: node.id };
+      }
+
+      walk.nodesVisited++;
+
+      let nextNodeId: string | null;
+      if (nodeType === 'fork') {
+        const forked = await this.fork(walk, context, node, branch);
+        if (forked.status !== 'joined') return forked;
+
+        // Continue past the join node the branches converged on
+        const joinNode = nodeMap.get(forked.nodeId)!;
+        walk.nodesVisited++;
+        nextNodeId = this.resolveNextNode(flow, joinNode, context);
+        if (!nextNodeId) return { status: 'completed', nodeId: joinNode.id };
+        this.recordTransition(instance, joinNode, nextNodeId);
+      } else {
+        // Execute the node handler (a resumed wait node has already completed)
+        let result: FlowNodeResult;
+        let attempts = 1;
+        if (node.id === walk.resume?.nodeId) {
+          result = walk.resume.result;
+          walk.resume = undefined;
+        } else {
+          ({ result, attempts } = await this.executeNode(node, context));
         }
 
-        // Record transition
-        const entry: StateHistoryEntry = {
-          fromState: currentNodeId,
-          toState: nextNodeId,
-          transition: `${node.type}→`,
-          timestamp: new Date(),
-          triggeredBy: instance.startedBy,
-        };
-        instance.history.push(entry);
+        if (!result.success) {
+          const error = result.error || `Node ${node.id} failed`;
+          const errorHandling = flow.errorHandling;
+          const faultTarget =
+            flow.edges.find((e) => e.source === node.id && e.type === 'fault')?.target ??
+            errorHandling?.fallbackNodeId;
+          const proceed = faultTarget || errorHandling?.strategy === 'continue';
+          if (!proceed) {
+            return { status: 'failed', nodeId: node.id, error };
+          }
+
+          // Route to the error-handling path (or carry on) with the error in context
+          context.variables.$Error = { nodeId: node.id, message: error, attempts };
+          nextNodeId = faultTarget ?? this.resolveNextNode(flow, node, context);
+          if (!nextNodeId) {
+            return { status: 'completed', nodeId: node.id };
+          }
+        } else {
+          if (!result.suspend && this.isCompensable(node)) {
+            instance.compensation = [
+              ...(instance.compensation ?? []),
+              { nodeId: node.id, output: result.output ?? {} },
+            ];
+          }
+
+          // Merge output into variables
+          if (result.output) {
+            Object.assign(context.variables, result.output);
+          }
+
+          if (result.suspend) {
+            if (branch) {
+              return {
+                status: 'failed',
+                nodeId: node.id,
+                error: `Node ${node.id} cannot suspend inside a parallel branch`,
+              };
+            }
+            return { status: 'suspended', nodeId: node.id, wait: result.suspend };
+          }
+
+          // If this is an end node, we're done
+          if (node.type === 'end') {
+            return { status: 'completed', nodeId: node.id };
+          }
+
+          if (nodeType === 'loop') {
+            this.settleLoopIteration(walk, node.id, result.nextEdge);
+          }
+
+          // Find next node via edges; a dead end (no outgoing edges) completes
+          nextNodeId = this.resolveNextNode(flow, node, context, result.nextEdge);
+          if (!nextNodeId) {
+            return { status: 'completed', nodeId: node.id };
+          }
+        }
+        this.recordTransition(instance, node, nextNodeId);
+      }
 
+      currentNodeId = nextNodeId;
+      if (!branch) {
         instance.currentState = nextNodeId;
-        currentNodeId = nextNodeId;
+        await this.checkpoint(instance, context.variables);
       }
+    }
+
+    return { status: 'completed', nodeId: startNodeId };
+  }
 
-      if (nodesVisited >= this.maxNodes) {
-        instance.status = 'failed';
-        instance.error = `Max node limit (${this.maxNodes}) exceeded — possible infinite loop`;
-        return {
-          success: false,
-          instance,
-          variables: context.variables,
-          error: instance.error,
-          nodesVisited,
-        };
+  /**
+   * Loop bodies are bounded by their collection, not by `maxNodes`: when
+   * the body routes back to its loop node, the nodes it visited are moved
+   * out of the charged count. A body that never returns is still caught.
+   */
+  private settleLoopIteration(walk: FlowWalk, nodeId: string, nextEdge?: string): void {
+    const charged = walk.nodesVisited - walk.loopNodesVisited;
+    const mark = walk.loopMarks.get(nodeId);
+    if (mark !== undefined) walk.loopNodesVisited += charged - mark;
+    if (nextEdge === 'each') {
+      walk.loopMarks.set(nodeId, mark ?? charged);
+    } else {
+      walk.loopMarks.delete(nodeId);
+    }
+  }
+
+  /**
+   * Run every outgoing branch of a fork node concurrently and wait for
+   * them at their join node. Each branch works on a copy of the variables;
+   * variables changed by the branches that reached the join are merged
+   * back in arrival order. Edge conditions on fork edges select which
+   * branches start.
+   */
+  private async fork(
+    walk: FlowWalk,
+    context: FlowExecutionContext,
+    node: FlowNode,
+    parent?: FlowBranch,
+  ): Promise<FlowWalkOutcome> {
+    const outgoing = walk.flow.edges
+      .filter((e) => e.source === node.id && e.type !== 'fault')
+      .filter((e) => !e.condition || this.evaluateCondition(e.condition, context));
+    if (outgoing.length === 0) {
+      return { status: 'completed', nodeId: node.id };
+    }
+
+    const snapshot = { ...context.variables };
+    const branch: FlowBranch = { cancelled: false, parent };
+    const arrivals: Array<{ nodeId: string; variables: Record<string, unknown> }> = [];
+    let settled = 0;
+    let firstFailure: FlowWalkOutcome | undefined;
+    let lastCompleted: FlowWalkOutcome | undefined;
+
+    await new Promise<void>((resolve, reject) => {
+      const done = () => {
+        settled++;
+        if (branch.cancelled || settled === outgoing.length) resolve();
+      };
+
+      for (const edge of outgoing) {
+        const branchContext: FlowExecutionContext = { ...context, variables: { ...snapshot } };
+        this.recordTransition(context.instance, node, edge.target);
+
+        this.walk(walk, branchContext, edge.target, branch)
+          .then((outcome) => {
+            if (branch.cancelled) return;
+            if (outcome.status === 'joined') {
+              arrivals.push({ nodeId: outcome.nodeId, variables: branchContext.variables });
+              const joinNode = walk.nodeMap.get(outcome.nodeId)!;
+              if (arrivals.length >= joinQuorum(joinNode, outgoing.length)) {
+                branch.cancelled = true;
+              }
+            } else if (outcome.status === 'failed' || outcome.status === 'limit') {
+              firstFailure = outcome;
+              branch.cancelled = true;
+            } else {
+              lastCompleted = outcome;
+            }
+          })
+          .then(done, (err) => {
+            branch.cancelled = true;
+            reject(err);
+          });
       }
+    });
+
+    if (firstFailure) return firstFailure;
+    if (arrivals.length === 0) {
+      // No branch reached a join — every branch ended on its own
+      return lastCompleted ?? { status: 'completed', nodeId: node.id };
+    }
 
+    const joinIds = new Set(arrivals.map((a) => a.nodeId));
+    if (joinIds.size > 1) {
+      throw new Error(
+        `Branches of fork ${node.id} converge on different joins: ${Array.from(joinIds).join(', ')}`,
+      );
+    }
+    const joinNode = walk.nodeMap.get(arrivals[0].nodeId)!;
+    const required = joinQuorum(joinNode, outgoing.length);
+    if (arrivals.length < required) {
       return {
-        success: true,
-        instance,
-        variables: context.variables,
-        nodesVisited,
+        status: 'failed',
+        nodeId: joinNode.id,
+        error: `Join ${joinNode.id} expected ${required} branch(es) but ${arrivals.length} arrived`,
+      };
+    }
+
+    for (const arrival of arrivals) {
+      for (const [key, value] of Object.entries(arrival.variables)) {
+        if (snapshot[key] !== value) {
+          context.variables[key] = value;
+        }
+      }
+    }
+    return { status: 'joined', nodeId: joinNode.id };
+  }
+
+  private recordTransition(instance: WorkflowInstance, node: FlowNode, toState: string): void {
+    const entry: StateHistoryEntry = {
+      fromState: node.id,
+      toState,
+      transition: `${node.type}→`,
+      timestamp: new Date(),
+      triggeredBy: instance.startedBy,
+    };
+    instance.history.push(entry);
+  }
+
+  /**
+   * Run a node handler under the node's retry policy (or the flow's
+   * `errorHandling` retry defaults). Thrown errors count as failures.
+   */
+  private async executeNode(
+    node: FlowNode,
+    context: FlowExecutionContext,
+  ): Promise<{ result: FlowNodeResult; attempts: number }> {
+    const handler = this.handlers.get(node.type);
+    if (!handler) return { result: { success: true }, attempts: 1 };
+
+    const policy = retryPolicy(node, context.flow);
+    let delay = policy.backoffMs;
+    let attempt = 0;
+    for (;;) {
+      attempt++;
+      let result: FlowNodeResult;
+      try {
+        result = await handler(node, context);
+      } catch (err) {
+        result = { success: false, error: err instanceof Error ? err.message : String(err) };
+      }
+      if (result.success || attempt >= policy.maxAttempts) {
+        return { result, attempts: attempt };
+      }
+
+      this.logger.warn(
+        `Node ${node.id} failed (attempt ${attempt}/${policy.maxAttempts}), retrying in ${delay}ms: ${result.error}`,
+      );
+      if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+      delay = Math.min(delay * policy.backoffMultiplier, policy.maxBackoffMs);
+    }
+  }
+
+  private isCompensable(node: FlowNode): boolean {
+    return this.compensations.has(node.type) || node.config?.compensate !== undefined;
+  }
+
+  /**
+   * Undo completed side-effecting nodes in reverse order. A node is
+   * compensated by the handler registered for its type, or by running the
+   * node described in its `config.compensate` (`{ type, config }`).
+   * Failures are logged and do not stop the remaining compensations.
+   */
+  private async compensate(context: FlowExecutionContext): Promise<string[]> {
+    const { instance, flow } = context;
+    const entries = instance.compensation ?? [];
+    const compensated: string[] = [];
+
+    for (const entry of [...entries].reverse()) {
+      const node = flow.nodes.find((n) => n.id === entry.nodeId);
+      if (!node) continue;
+      try {
+        const compensate = node.config?.compensate as
+          | { type: string; config?: Record<string, unknown> }
+          | undefined;
+        if (compensate) {
+          const handler = this.handlers.get(compensate.type);
+          if (!handler) throw new Error(`No handler for compensation type ${compensate.type}`);
+          const undo = { ...node, type: compensate.type, config: compensate.config } as FlowNode;
+          const result = await handler(undo, {
+            ...context,
+            variables: { ...context.variables, $Output: entry.output },
+          });
+          if (!result.success) throw new Error(result.error || 'Compensation failed');
+        } else {
+          await this.compensations.get(node.type)!(node, context, entry.output);
+        }
+        compensated.push(node.id);
+      } catch (err) {
+        this.logger.error(`Compensation of node ${node.id} failed`, err);
+      }
+    }
+
+    instance.compensation = [];
+    return compensated;
+  }
+
+  /**
+   * Queue writing the version states of a flow to storage. Writes wait
+   * for saved states to be restored so they never overwrite them with
+   * defaults.
+   */
+  private saveFlowVersions(name: string): void {
+    const storage = this.storage;
+    if (!storage?.saveFlowVersion) return;
+
+    this.versionWrites = this.versionWrites
+      .then(() => this.loadFlowVersions())
+      .then(async () => {
+        for (const { flow: _flow, ...state } of this.versions.list(name)) {
+          await storage.saveFlowVersion!(state);
+        }
+      })
+      .catch((error) => {
+        this.logger.error(`Failed to save versions of flow ${name}:`, error);
+      });
+  }
+
+  /**
+   * Persist the instance position, status and variables
+   */
+  private async checkpoint(
+    instance: WorkflowInstance,
+    variables: Record<string, unknown>,
+  ): Promise<void> {
+    instance.variables = variables;
+    if (!this.storage) return;
+
+    await this.storage.updateInstance(instance.id, {
+      currentState: instance.currentState,
+      status: instance.status,
+      variables: { ...variables },
+      history: [...instance.history],
+      wait: instance.wait ? { ...instance.wait } : undefined,
+      compensation: instance.compensation ? [...instance.compensation] : undefined,
+      error: instance.error,
+      startedAt: instance.startedAt,
+      completedAt: instance.completedAt,
+      failedAt: instance.failedAt,
+    });
+  }
+
+  /**
+   * Run a `subflow` node: start the child flow with the mapped inputs and
+   * map its outputs back. If the child suspends, the parent suspends too
+   * and is resumed by notifyParent() once the child finishes.
+   */
+  private async runSubflow(node: FlowNode, ctx: FlowExecutionContext): Promise<FlowNodeResult> {
+    const config = (node.config ?? {}) as { flow?: string; version?: string | number };
+    if (!config.flow) {
+      return { success: false, error: `Subflow node ${node.id} has no flow` };
+    }
+    const version = config.version !== undefined ? String(config.version) : undefined;
+    const child = this.getFlow(config.flow, version);
+    if (!child) {
+      return { success: false, error: `Subflow not registered: ${config.flow}` };
+    }
+
+    const callStack = [...(ctx.instance.callStack ?? []), ctx.flow.name];
+    if (callStack.includes(child.name)) {
+      return {
+        success: false,
+        error: `Recursive subflow call: ${[...callStack, child.name].join(' → ')}`,
       };
+    }
+
+    let inputs: Record<string, unknown>;
+    try {
+      inputs = mapSubflowInputs(node, child, ctx.variables);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      instance.status = 'failed';
-      instance.failedAt = new Date();
-      instance.error = errorMessage;
+      return { success: false, error: err instanceof Error ? err.message : String(err) };
+    }
+
+    const instance = this.createInstance(child, inputs, ctx.instance.startedBy);
+    instance.parent = { instanceId: ctx.instance.id, nodeId: node.id };
+    instance.callStack = callStack;
+    const result = await this.execute(child, instance, inputs);
+
+    if (result.instance.status === 'suspended') {
+      return { success: true, suspend: { subflowInstanceId: instance.id } };
+    }
+    return this.subflowResult(node, child, result.instance, result.variables);
+  }
+
+  /**
+   * Resume the parent waiting on a subflow instance that has finished
+   */
+  private async notifyParent(
+    child: WorkflowInstance,
+    variables: Record<string, unknown>,
+  ): Promise<void> {
+    if (!child.parent || !['completed', 'failed', 'aborted'].includes(child.status)) return;
+
+    const parent = await this.storage?.getInstance(child.parent.instanceId);
+    if (!parent || parent.status !== 'suspended' || parent.wait?.subflowInstanceId !== child.id) {
+      return;
+    }
+    const parentFlow = this.getFlow(parent.workflowId, parent.version);
+    const node = parentFlow?.nodes.find((n) => n.id === parent.wait!.nodeId);
+    const childFlow = this.getFlow(child.workflowId, child.version);
+    if (!node || !childFlow) {
+      this.logger.error(`Cannot resume parent ${parent.id} of subflow instance ${child.id}`);
+      return;
+    }
+
+    await this.resumeInstance(parent.id, this.subflowResult(node, childFlow, child, variables));
+  }
+
+  /**
+   * Map a finished subflow instance to the result of its parent node
+   */
+  private subflowResult(
+    node: FlowNode,
+    child: Flow,
+    instance: WorkflowInstance,
+    variables: Record<string, unknown>,
+  ): FlowNodeResult {
+    if (instance.status !== 'completed') {
+      const outcome = instance.status === 'aborted' ? 'was cancelled' : 'failed';
       return {
         success: false,
-        instance,
-        variables: context.variables,
-        error: errorMessage,
-        nodesVisited,
+        error: `Subflow ${child.name} ${outcome}${instance.error ? `: ${instance.error}` : ''}`,
       };
     }
+    try {
+      return { success: true, output: mapSubflowOutputs(node, child, variables) };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  /**
+   * Resume a batch of instances, logging (not throwing) individual failures
+   */
+  private async resumeAll(
+    instances: WorkflowInstance[],
+    payload: Record<string, unknown>,
+  ): Promise<FlowExecutionResult[]> {
+    const results: FlowExecutionResult[] = [];
+    for (const instance of instances) {
+      try {
+        results.push(await this.resume(instance.id, payload));
+      } catch (err) {
+        this.logger.error(`Failed to resume flow instance ${instance.id}`, err);
+      }
+    }
+    return results;
+  }
+
+  private requireStorage(): WorkflowStorage {
+    if (!this.storage) {
+      throw new Error('FlowEngine requires a storage to suspend and resume instances');
+    }
+    return this.storage;
   }
 
   /**
@@ -272,9 +1189,15 @@ export class FlowEngine {
     context: FlowExecutionContext,
     preferredEdge?: string,
   ): string | null {
-    const outgoing = flow.edges.filter((e) => e.source === currentNode.id);
+    // Fault edges are only followed when the node fails
+    const outgoing = flow.edges.filter((e) => e.source === currentNode.id && e.type !== 'fault');
     if (outgoing.length === 0) return null;
 
+    // Loop nodes only ever follow their `each` or `done` edge
+    if (currentNode.type === 'loop') {
+      return outgoing.find((e) => e.label === preferredEdge)?.target ?? null;
+    }
+
     // If caller specified a preferred edge label, try to follow it
     if (preferredEdge) {
       const preferred = outgoing.find((e) => e.label === preferredEdge);
@@ -285,7 +1208,7 @@ export class FlowEngine {
     if (currentNode.type === 'decision') {
       for (const edge of outgoing) {
         if (edge.condition) {
-          if (this.evaluateCondition(edge.condition, context.variables)) {
+          if (this.evaluateCondition(edge.condition, context)) {
             return edge.target;
           }
         }
@@ -301,37 +1224,15 @@ export class FlowEngine {
   }
 
   /**
-   * Evaluate a simple condition expression against variables
+   * Evaluate an edge condition against flow variables using the shared
+   * condition grammar from @objectos/automation. `$User` resolves to the
+   * `$User` variable when set, otherwise to the user who started the flow.
    */
-  private evaluateCondition(condition: string, variables: Record<string, unknown>): boolean {
-    try {
-      // Simple expression evaluator: supports "field == value", "field != value"
-      const eqMatch = condition.match(/^(\w+)\s*==\s*"?([^"]*)"?$/);
-      if (eqMatch) {
-        const actual = variables[eqMatch[1]];
-        const expected = eqMatch[2];
-        // Handle boolean/number comparison
-        if (expected === 'true') return actual === true || actual === 'true';
-        if (expected === 'false') return actual === false || actual === 'false';
-        const num = Number(expected);
-        if (!isNaN(num) && expected !== '') return actual === num;
-        return String(actual) === expected;
-      }
-      const neqMatch = condition.match(/^(\w+)\s*!=\s*"?([^"]*)"?$/);
-      if (neqMatch) {
-        const actual = variables[neqMatch[1]];
-        const expected = neqMatch[2];
-        if (expected === 'true') return actual !== true && actual !== 'true';
-        if (expected === 'false') return actual !== false && actual !== 'false';
-        const num = Number(expected);
-        if (!isNaN(num) && expected !== '') return actual !== num;
-        return String(actual) !== expected;
-      }
-      // Boolean check: "field"
-      return !!variables[condition];
-    } catch {
-      return false;
-    }
+  private evaluateCondition(condition: string, context: FlowExecutionContext): boolean {
+    const user =
+      (context.variables.$User as Record<string, unknown> | undefined) ??
+      (context.instance.startedBy ? { id: context.instance.startedBy } : undefined);
+    return evaluateCondition(condition, { record: context.variables, user });
   }
 
   /**
@@ -357,8 +1258,55 @@ export class FlowEngine {
     // Decision node — handler just passes; routing happens in resolveNextNode
     this.handlers.set('decision', async () => ({ success: true }));
 
-    // Wait node — no-op in synchronous execution
-    this.handlers.set('wait', async () => ({ success: true }));
+    // Loop node — iterate over a collection variable. The `each` edge leads
+    // into the loop body (which routes back to this node), `done` exits.
+    // Iteration state lives in the `$loops` variable so it is checkpointed.
+    this.handlers.set('loop', async (node, ctx) => {
+      const config = (node.config ?? {}) as Record<string, unknown>;
+      const loops = (ctx.variables.$loops ?? {}) as Record<string, { index: number }>;
+      const state = loops[node.id];
+      const index = state ? state.index + 1 : 0;
+
+      const collection = resolveCollection(config.collection, ctx.variables);
+      if (!collection) {
+        return { success: false, error: `Loop node ${node.id} has no collection to iterate` };
+      }
+
+      const stop =
+        index >= collection.length ||
+        (config.maxIterations !== undefined && index >= Number(config.maxIterations)) ||
+        (typeof config.breakCondition === 'string' &&
+          index > 0 &&
+          this.evaluateCondition(config.breakCondition, ctx));
+
+      // Replace rather than mutate `$loops` so parallel branches keep separate state
+      const { [node.id]: _finished, ...others } = loops;
+      if (stop) {
+        return { success: true, output: { $loops: others }, nextEdge: 'done' };
+      }
+      return {
+        success: true,
+        output: {
+          $loops: { ...others, [node.id]: { index } },
+          [String(config.itemVariable ?? 'item')]: collection[index],
+          [String(config.indexVariable ?? 'index')]: index,
+        },
+        nextEdge: 'each',
+      };
+    });
+
+    // Subflow node — invoke another registered flow
+    this.handlers.set('subflow', async (node, ctx) => this.runSubflow(node, ctx));
+
+    // Wait node — suspend until a duration elapses, a datetime is reached,
+    // or an event with a matching correlation key is delivered
+    this.handlers.set('wait', async (node, ctx) => {
+      const suspend = resolveWait(node, ctx.variables);
+      if (!suspend) {
+        return { success: false, error: `Wait node ${node.id} has no duration, until or event` };
+      }
+      return { success: true, suspend };
+    });
 
     // Script node — basic handler (production deployments should register
     // a custom handler that delegates to @objectos/automation executeSandboxedWithPolicy)
@@ -370,3 +1318,223 @@ export class FlowEngine {
     });
   }
 }
+
+// ── Parallel branches ───────────────────────────────────────────────
+
+function isCancelled(branch: FlowBranch): boolean {
+  for (let b: FlowBranch | undefined = branch; b; b = b.parent) {
+    if (b.cancelled) return true;
+  }
+  return false;
+}
+
+/**
+ * Number of branches a join node waits for: `mode` is `all` (default),
+ * `any`, or `count` together with `count: N`
+ */
+function joinQuorum(node: FlowNode, branches: number): number {
+  const config = (node.config ?? {}) as { mode?: string; count?: number };
+  switch (config.mode) {
+    case 'any':
+      return 1;
+    case 'count':
+      return Math.min(Math.max(Number(config.count) || 1, 1), branches);
+    default:
+      return branches;
+  }
+}
+
+// ── Retry policy ────────────────────────────────────────────────────
+
+/**
+ * Resolve the retry policy of a node: `node.config.retry`, falling back
+ * to the flow's `errorHandling` when its strategy is `retry`
+ */
+function retryPolicy(node: FlowNode, flow: Flow): Required<FlowRetryPolicy> {
+  const configured = node.config?.retry as FlowRetryPolicy | undefined;
+  const errorHandling = flow.errorHandling;
+  const fallback: FlowRetryPolicy =
+    errorHandling?.strategy === 'retry'
+      ? { maxAttempts: (errorHandling.maxRetries ?? 0) + 1, backoffMs: errorHandling.retryDelayMs }
+      : {};
+  const policy = { ...fallback, ...configured };
+  return {
+    maxAttempts: Math.max(1, policy.maxAttempts ?? 1),
+    backoffMs: Math.max(0, policy.backoffMs ?? 0),
+    backoffMultiplier: policy.backoffMultiplier ?? 2,
+    maxBackoffMs: policy.maxBackoffMs ?? 60_000,
+  };
+}
+
+// ── Subflow parameters ──────────────────────────────────────────────
+
+type FlowVariable = NonNullable<Flow['variables']>[number];
+
+/**
+ * Check a value against a declared flow variable type. Unknown types
+ * are not checked.
+ */
+function matchesVariableType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'text':
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+    case 'currency':
+    case 'percent':
+      return typeof value === 'number';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'date':
+    case 'datetime':
+      return value instanceof Date || !Number.isNaN(Date.parse(String(value)));
+    case 'list':
+    case 'array':
+    case 'collection':
+      return Array.isArray(value);
+    case 'object':
+    case 'record':
+      return typeof value === 'object' && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+function checkParameter(
+  flow: Flow,
+  kind: 'input' | 'output',
+  name: string,
+  value: unknown,
+  declared: FlowVariable[],
+): void {
+  // Flows that declare no variables of this kind are untyped
+  if (declared.length === 0) return;
+  const variable = declared.find((v) => v.name === name);
+  if (!variable) {
+    throw new Error(`Subflow ${flow.name} has no ${kind} parameter "${name}"`);
+  }
+  if (value !== undefined && value !== null && !matchesVariableType(value, variable.type)) {
+    throw new Error(
+      `Subflow ${flow.name} ${kind} "${name}" expects ${variable.type}, got ${typeof value}`,
+    );
+  }
+}
+
+/**
+ * Build the child's input variables. `config.inputs` maps child input
+ * names to literals or `{{parentVariable}}` templates; without it, each
+ * declared input is taken from the parent variable of the same name.
+ */
+function mapSubflowInputs(
+  node: FlowNode,
+  child: Flow,
+  variables: Record<string, unknown>,
+): Record<string, unknown> {
+  const declared = (child.variables ?? []).filter((v) => v.isInput);
+  const mapping =
+    (node.config?.inputs as Record<string, unknown> | undefined) ??
+    Object.fromEntries(declared.map((v) => [v.name, `{{${v.name}}}`]));
+
+  const inputs: Record<string, unknown> = {};
+  for (const [name, source] of Object.entries(mapping)) {
+    const value = interpolate(source, variables);
+    checkParameter(child, 'input', name, value, declared);
+    if (value !== undefined) inputs[name] = value;
+  }
+  return inputs;
+}
+
+/**
+ * Pick the child's outputs for the parent. `config.outputs` maps parent
+ * variable names to child output names; without it, every declared
+ * output is copied under its own name.
+ */
+function mapSubflowOutputs(
+  node: FlowNode,
+  child: Flow,
+  variables: Record<string, unknown>,
+): Record<string, unknown> {
+  const declared = (child.variables ?? []).filter((v) => v.isOutput);
+  const mapping =
+    (node.config?.outputs as Record<string, string> | undefined) ??
+    Object.fromEntries(declared.map((v) => [v.name, v.name]));
+
+  const outputs: Record<string, unknown> = {};
+  for (const [target, name] of Object.entries(mapping)) {
+    checkParameter(child, 'output', name, variables[name], declared);
+    outputs[target] = variables[name];
+  }
+  return outputs;
+}
+
+// ── Wait configuration ──────────────────────────────────────────────
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Parse a wait duration: milliseconds, or a string such as `30s`, `5m`, `2h`, `1d`
+ */
+export function parseDuration(value: number | string): number {
+  if (typeof value === 'number') return value;
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?\s*$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid duration: "${value}"`);
+  }
+  return Math.round(Number(match[1]) * DURATION_UNITS[match[2] ?? 'ms']);
+}
+
+/**
+ * Resolve a loop collection: a variable path (`order.lines`), a
+ * `{{variable}}` template, or an inline array
+ */
+function resolveCollection(
+  value: unknown,
+  variables: Record<string, unknown>,
+): unknown[] | undefined {
+  const resolved =
+    typeof value === 'string' && !value.includes('{{')
+      ? lookup(value, variables)
+      : interpolate(value, variables);
+  return Array.isArray(resolved) ? resolved : undefined;
+}
+
+/**
+ * Build the wait request for a `wait` node from its config:
+ * `duration`, `until` (ISO datetime) and/or `event` with `correlationKey`.
+ */
+function resolveWait(
+  node: FlowNode,
+  variables: Record<string, unknown>,
+): FlowWaitRequest | undefined {
+  const config = (node.config ?? {}) as Record<string, unknown>;
+  const request: FlowWaitRequest = {};
+
+  if (config.duration !== undefined) {
+    const duration = interpolate(config.duration, variables) as number | string;
+    request.resumeAt = new Date(Date.now() + parseDuration(duration));
+  }
+  if (config.until !== undefined) {
+    const until = interpolate(config.until, variables);
+    const date = until instanceof Date ? until : new Date(String(until));
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(`Wait node ${node.id} has an invalid until datetime: "${String(until)}"`);
+    }
+    if (!request.resumeAt || date < request.resumeAt) {
+      request.resumeAt = date;
+    }
+  }
+  if (typeof config.event === 'string') {
+    request.event = config.event;
+    if (config.correlationKey !== undefined) {
+      request.correlationKey = String(interpolate(config.correlationKey, variables));
+    }
+  }
+
+  return request.resumeAt || request.event ? request : undefined;
+}
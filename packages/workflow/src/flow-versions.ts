@@ -0,0 +1,244 @@
+/**
+ * Flow Version Registry
+ *
+ * Tracks every registered version of a Flow with a lifecycle status:
+ * `draft` versions are not started, the single `active` version is used
+ * for new instances, and `obsolete` versions only keep running the
+ * instances that started on them.
+ *
+ * Also plans the migration of an in-flight instance from one version to
+ * another by mapping the node it is suspended at (and any loops it is
+ * inside) to nodes of the target version.
+ */
+
+import type {
+  Flow,
+  FlowNode,
+  FlowVersionState,
+  FlowVersionStatus,
+  WorkflowInstance,
+} from './types.js';
+
+export type { FlowVersionState, FlowVersionStatus };
+
+/**
+ * A registered version of a Flow
+ */
+export interface FlowVersion extends FlowVersionState {
+  flow: Flow;
+}
+
+/**
+ * Options for migrating instances between flow versions
+ */
+export interface FlowMigrationOptions {
+  fromVersion: string;
+  toVersion: string;
+  /** Old node ID → new node ID. Nodes that keep their ID need no entry. */
+  nodeMap?: Record<string, string>;
+  /** Restrict the migration to these instances */
+  instanceIds?: string[];
+  /** Only report which instances can move */
+  dryRun?: boolean;
+}
+
+/**
+ * Outcome of a migration (or dry run)
+ */
+export interface FlowMigrationReport {
+  flow: string;
+  fromVersion: string;
+  toVersion: string;
+  dryRun: boolean;
+  migrated: Array<{ instanceId: string; fromNodeId: string; toNodeId: string }>;
+  blocked: Array<{ instanceId: string; nodeId: string; reason: string }>;
+}
+
+/**
+ * Result of planning one instance's migration
+ */
+export type FlowMigrationPlan =
+  | { ok: true; fromNodeId: string; toNodeId: string; instance: Partial<WorkflowInstance> }
+  | { ok: false; nodeId: string; reason: string };
+
+/**
+ * In-memory registry of flow versions
+ */
+export class FlowVersionRegistry {
+  private versions: Map<string, Map<string, FlowVersion>> = new Map();
+  private restored: Map<string, FlowVersionState> = new Map();
+
+  /**
+   * Register a flow version. Activating a version obsoletes the
+   * previously active one. Re-registering an existing (or restored)
+   * version replaces its definition and keeps its status unless one is
+   * given.
+   */
+  register(flow: Flow, status?: FlowVersionStatus): FlowVersion {
+    const version = String(flow.version ?? '1');
+    if (!this.versions.has(flow.name)) {
+      this.versions.set(flow.name, new Map());
+    }
+    const versions = this.versions.get(flow.name)!;
+    const existing = versions.get(version);
+    const restored = this.restored.get(`${flow.name}@${version}`);
+
+    const entry: FlowVersion = existing
+      ? { ...existing, flow }
+      : {
+          name: flow.name,
+          version,
+          status: 'draft',
+          flow,
+          registeredAt: restored?.registeredAt ?? new Date(),
+          activatedAt: restored?.activatedAt,
+          obsoletedAt: restored?.obsoletedAt,
+        };
+    versions.set(version, entry);
+
+    const target = status ?? existing?.status ?? restored?.status ?? 'active';
+    if (target === 'active') this.activate(flow.name, version);
+    else if (target === 'obsolete') this.obsolete(flow.name, version);
+    else entry.status = 'draft';
+    return entry;
+  }
+
+  /**
+   * Make a version the one new instances start on
+   */
+  activate(name: string, version: string): FlowVersion {
+    const entry = this.require(name, version);
+    if (entry.status === 'active') return entry;
+
+    for (const other of this.versions.get(name)!.values()) {
+      if (other.status === 'active') {
+        other.status = 'obsolete';
+        other.obsoletedAt = new Date();
+      }
+    }
+    entry.status = 'active';
+    entry.activatedAt = new Date();
+    return entry;
+  }
+
+  /**
+   * Stop starting new instances on a version. Existing instances continue.
+   */
+  obsolete(name: string, version: string): FlowVersion {
+    const entry = this.require(name, version);
+    if (entry.status !== 'obsolete') {
+      entry.status = 'obsolete';
+      entry.obsoletedAt = new Date();
+    }
+    return entry;
+  }
+
+  get(name: string, version: string): FlowVersion | undefined {
+    return this.versions.get(name)?.get(version);
+  }
+
+  getActive(name: string): FlowVersion | undefined {
+    const versions = this.versions.get(name);
+    if (!versions) return undefined;
+    return Array.from(versions.values()).find((v) => v.status === 'active');
+  }
+
+  /**
+   * List versions of a flow in registration order
+   */
+  list(name: string): FlowVersion[] {
+    return Array.from(this.versions.get(name)?.values() ?? []);
+  }
+
+  /**
+   * Apply saved version states. Registered versions take the saved
+   * status; the others get it when they are registered.
+   */
+  restore(states: FlowVersionState[]): void {
+    for (const state of states) {
+      this.restored.set(`${state.name}@${state.version}`, state);
+      const entry = this.get(state.name, state.version);
+      if (!entry) continue;
+      entry.status = state.status;
+      entry.registeredAt = state.registeredAt;
+      entry.activatedAt = state.activatedAt;
+      entry.obsoletedAt = state.obsoletedAt;
+    }
+  }
+
+  private require(name: string, version: string): FlowVersion {
+    const entry = this.get(name, version);
+    if (!entry) throw new Error(`Flow version not registered: ${name} (version ${version})`);
+    return entry;
+  }
+}
+
+/**
+ * Plan moving a suspended instance onto another version of its flow.
+ * The node it waits at must map to a node of the same type; loop state
+ * and compensation entries are re-keyed to the new node IDs.
+ */
+export function planMigration(
+  instance: WorkflowInstance,
+  target: Flow,
+  nodeMap: Record<string, string> = {},
+): FlowMigrationPlan {
+  const nodeId = instance.wait?.nodeId ?? instance.currentState;
+  if (instance.status !== 'suspended' || !instance.wait) {
+    return { ok: false, nodeId, reason: `Instance is ${instance.status}, not suspended` };
+  }
+
+  const targetNodes = new Map<string, FlowNode>(target.nodes.map((n) => [n.id, n]));
+  const mapNode = (id: string) => nodeMap[id] ?? id;
+
+  const toNodeId = mapNode(nodeId);
+  const toNode = targetNodes.get(toNodeId);
+  if (!toNode) {
+    return { ok: false, nodeId, reason: `No node ${toNodeId} in version ${target.version}` };
+  }
+  const fromType = instance.wait.subflowInstanceId
+    ? 'subflow'
+    : instance.wait.event || instance.wait.resumeAt
+      ? 'wait'
+      : undefined;
+  if (fromType && toNode.type !== fromType) {
+    return {
+      ok: false,
+      nodeId,
+      reason: `Node ${toNodeId} is of type ${toNode.type}, expected ${fromType}`,
+    };
+  }
+
+  const variables = { ...(instance.variables ?? {}) };
+  const loops = variables.$loops as Record<string, unknown> | undefined;
+  if (loops) {
+    const remapped: Record<string, unknown> = {};
+    for (const [loopId, state] of Object.entries(loops)) {
+      const toLoopId = mapNode(loopId);
+      if (targetNodes.get(toLoopId)?.type !== 'loop') {
+        return {
+          ok: false,
+          nodeId,
+          reason: `Loop ${loopId} has no loop counterpart in version ${target.version}`,
+        };
+      }
+      remapped[toLoopId] = state;
+    }
+    variables.$loops = remapped;
+  }
+
+  return {
+    ok: true,
+    fromNodeId: nodeId,
+    toNodeId,
+    instance: {
+      version: String(target.version ?? '1'),
+      currentState: toNodeId,
+      wait: { ...instance.wait, nodeId: toNodeId },
+      variables,
+      compensation: instance.compensation
+        ?.map((entry) => ({ ...entry, nodeId: mapNode(entry.nodeId) }))
+        .filter((entry) => targetNodes.has(entry.nodeId)),
+    },
+  };
+}
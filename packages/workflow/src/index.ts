@@ -28,14 +28,47 @@ export { parseWorkflowYAML, validateWorkflowDefinition } from './parser.js';
 export { legacyToFlow, flowToLegacy, validateFlow } from './flow-converter.js';
 
 // Flow execution engine
-export { FlowEngine } from './flow-engine.js';
+export { FlowEngine, parseDuration } from './flow-engine.js';
 export type {
   FlowNodeHandler,
   FlowNodeResult,
+  FlowCompensationHandler,
+  FlowRetryPolicy,
+  FlowWaitRequest,
   FlowExecutionContext,
   FlowExecutionResult,
+  SuspendedFlowQuery,
 } from './flow-engine.js';
 
+// Flow versioning
+export { FlowVersionRegistry, planMigration } from './flow-versions.js';
+export type {
+  FlowVersion,
+  FlowVersionStatus,
+  FlowVersionState,
+  FlowMigrationOptions,
+  FlowMigrationReport,
+  FlowMigrationPlan,
+} from './flow-versions.js';
+
+// Standard action catalog shared by workflows and flows
+export {
+  StandardActions,
+  StandardGuards,
+  createActionCatalog,
+  createBrokerDataService,
+  registerFlowActions,
+  toTransitionAction,
+  toFlowNodeHandler,
+} from './stdlib.js';
+export type {
+  WorkflowAction,
+  ActionScope,
+  ActionRuntime,
+  ActionDataService,
+  ActionNotificationService,
+} from './stdlib.js';
+
 // Types
 export type {
   WorkflowStatus,
@@ -47,6 +80,7 @@ export type {
   WorkflowDefinition,
   SpecWorkflowDefinition,
   WorkflowInstance,
+  FlowWaitState,
   StateHistoryEntry,
   WorkflowContext,
   SpecWorkflowContext,
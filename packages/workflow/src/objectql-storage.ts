@@ -6,6 +6,7 @@
 
 import type { PluginContext } from '@objectstack/runtime';
 import type {
+  FlowVersionState,
   WorkflowStorage,
   WorkflowDefinition,
   WorkflowInstance,
@@ -91,6 +92,11 @@ export class ObjectQLWorkflowStorage implements WorkflowStorage {
     if (updates.startedAt) docUpdates.started_at = updates.startedAt;
     if (updates.completedAt) docUpdates.completed_at = updates.completedAt;
     if (updates.startedBy) docUpdates.started_by = updates.startedBy;
+    if (updates.failedAt) docUpdates.failed_at = updates.failedAt;
+    if (updates.abortedAt) docUpdates.aborted_at = updates.abortedAt;
+    if (updates.completedBy) docUpdates.completed_by = updates.completedBy;
+    if ('wait' in updates) docUpdates.wait = updates.wait ?? null;
+    if ('callStack' in updates) docUpdates.call_stack = updates.callStack ?? null;
 
     delete docUpdates.currentState;
     delete docUpdates.workflowId;
@@ -98,6 +104,10 @@ export class ObjectQLWorkflowStorage implements WorkflowStorage {
     delete docUpdates.startedAt;
     delete docUpdates.completedAt;
     delete docUpdates.startedBy;
+    delete docUpdates.failedAt;
+    delete docUpdates.abortedAt;
+    delete docUpdates.completedBy;
+    delete docUpdates.callStack;
 
     docUpdates.last_updated = new Date();
 
@@ -115,7 +125,9 @@ export class ObjectQLWorkflowStorage implements WorkflowStorage {
     const query: any = {};
 
     if (options.workflowId) query.workflow_id = options.workflowId;
-    if (options.status) query.status = options.status;
+    if (options.status) {
+      query.status = Array.isArray(options.status) ? { $in: options.status } : options.status;
+    }
     if (options.startedBy) query.started_by = options.startedBy;
 
     const results = await (this.context as any).broker.call('data.find', {
@@ -194,6 +206,56 @@ export class ObjectQLWorkflowStorage implements WorkflowStorage {
     } as WorkflowTask;
   }
 
+  // --- Flow Versions ---
+
+  /**
+   * Save the lifecycle state of a flow version, one record per version
+   */
+  async saveFlowVersion(state: FlowVersionState): Promise<void> {
+    const broker = (this.context as any).broker;
+    const doc = {
+      flow_name: state.name,
+      version: state.version,
+      status: state.status,
+      registered_at: state.registeredAt,
+      activated_at: state.activatedAt,
+      obsoleted_at: state.obsoletedAt,
+    };
+    const [existing] = await broker.call('data.find', {
+      object: 'workflow_flow_version',
+      query: { flow_name: state.name, version: state.version },
+      limit: 1,
+    });
+
+    if (existing) {
+      await broker.call('data.update', {
+        object: 'workflow_flow_version',
+        id: existing.id || existing._id,
+        doc,
+      });
+    } else {
+      await broker.call('data.create', { object: 'workflow_flow_version', doc });
+    }
+  }
+
+  /**
+   * List the saved flow version states
+   */
+  async listFlowVersions(): Promise<FlowVersionState[]> {
+    const results = await (this.context as any).broker.call('data.find', {
+      object: 'workflow_flow_version',
+      query: {},
+    });
+    return results.map((doc: any) => ({
+      name: doc.flow_name,
+      version: doc.version,
+      status: doc.status,
+      registeredAt: new Date(doc.registered_at),
+      activatedAt: doc.activated_at ? new Date(doc.activated_at) : undefined,
+      obsoletedAt: doc.obsoleted_at ? new Date(doc.obsoleted_at) : undefined,
+    }));
+  }
+
   // --- Helpers ---
 
   private mapSort(options: WorkflowQueryOptions): string {
@@ -224,6 +286,12 @@ export class ObjectQLWorkflowStorage implements WorkflowStorage {
       completed_at: instance.completedAt,
       failed_at: instance.failedAt,
       aborted_at: instance.abortedAt,
+      error: instance.error,
+      variables: instance.variables,
+      wait: instance.wait,
+      parent: instance.parent,
+      call_stack: instance.callStack,
+      compensation: instance.compensation,
     };
   }
 
@@ -242,6 +310,19 @@ export class ObjectQLWorkflowStorage implements WorkflowStorage {
       completedAt: doc.completed_at ? new Date(doc.completed_at) : undefined,
       failedAt: doc.failed_at ? new Date(doc.failed_at) : undefined,
       abortedAt: doc.aborted_at ? new Date(doc.aborted_at) : undefined,
+      completedBy: doc.completed_by,
+      error: doc.error,
+      variables: doc.variables || undefined,
+      wait: doc.wait
+        ? {
+            ...doc.wait,
+            resumeAt: doc.wait.resumeAt ? new Date(doc.wait.resumeAt) : undefined,
+            suspendedAt: new Date(doc.wait.suspendedAt),
+          }
+        : undefined,
+      parent: doc.parent || undefined,
+      callStack: doc.call_stack || undefined,
+      compensation: doc.compensation || undefined,
     } as WorkflowInstance;
   }
 }
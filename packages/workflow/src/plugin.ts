@@ -7,18 +7,23 @@
  * - Transition actions
  * - Workflow versioning
  * - Different workflow types (approval, sequential, parallel, conditional)
+ * - Durable Flow executions that suspend at `wait` nodes and resume on
+ *   schedule (via the jobs service) or when a `workflow.event` is triggered
  */
 
 import type { Plugin, PluginContext } from '@objectstack/runtime';
 import type {
+  IJobService,
   IWorkflowService,
   WorkflowTransition as SpecWorkflowTransition,
   WorkflowTransitionResult as SpecWorkflowTransitionResult,
   WorkflowStatus as SpecWorkflowStatus,
 } from '@objectstack/spec/contracts';
 import type {
+  Flow,
   WorkflowPluginConfig,
   WorkflowDefinition,
+  WorkflowInstance,
   PluginHealthReport,
   PluginCapabilityManifest,
   PluginSecurityManifest,
@@ -28,8 +33,23 @@ import { InMemoryWorkflowStorage } from './storage.js';
 import { ObjectQLWorkflowStorage } from './objectql-storage.js';
 import { WorkflowEngine } from './engine.js';
 import { WorkflowAPI } from './api.js';
+import { FlowEngine } from './flow-engine.js';
+import type { FlowExecutionResult, SuspendedFlowQuery } from './flow-engine.js';
+import type {
+  FlowMigrationOptions,
+  FlowMigrationReport,
+  FlowVersion,
+  FlowVersionStatus,
+} from './flow-versions.js';
 import { loadWorkflows } from './loader.js';
-import { StandardActions, StandardGuards } from './stdlib.js';
+import {
+  StandardGuards,
+  createActionCatalog,
+  createBrokerDataService,
+  registerFlowActions,
+  toTransitionAction,
+} from './stdlib.js';
+import type { ActionNotificationService, ActionRuntime } from './stdlib.js';
 import * as path from 'path';
 
 /**
@@ -45,6 +65,9 @@ export class WorkflowPlugin implements Plugin, IWorkflowService {
   private storage: any;
   private engine: WorkflowEngine;
   private api: WorkflowAPI;
+  private flowEngine: FlowEngine;
+  private actionRuntime: ActionRuntime;
+  private resumeTimer?: ReturnType<typeof setInterval>;
   private context?: PluginContext;
   private logger: any = console; // Fallback logger before initialization
   private startedAt?: number;
@@ -55,12 +78,15 @@ export class WorkflowPlugin implements Plugin, IWorkflowService {
       workflowsDir: './workflows',
       defaultTimeout: 3600000, // 1 hour
       maxTransitions: 1000,
+      flowResumeSchedule: '* * * * *',
       ...config,
     };
 
     this.storage = config.storage || new InMemoryWorkflowStorage();
     this.engine = new WorkflowEngine();
     this.api = new WorkflowAPI(this.storage, this.engine);
+    this.flowEngine = new FlowEngine({ storage: this.storage });
+    this.actionRuntime = { resolveSecret: config.resolveSecret };
   }
 
   /**
@@ -76,12 +102,18 @@ export class WorkflowPlugin implements Plugin, IWorkflowService {
     if (!this.config.storage && (context as any).broker) {
       this.storage = new ObjectQLWorkflowStorage(context);
       context.logger.info('[Workflow Plugin] Upgraded to ObjectQL storage');
-      // Re-initialize API with new storage
+      // Re-initialize API and flow engine with new storage
       this.api = new WorkflowAPI(this.storage, this.engine);
+      this.flowEngine = new FlowEngine({ storage: this.storage });
+    }
+
+    if ((context as any).broker) {
+      this.actionRuntime.data = createBrokerDataService((context as any).broker);
     }
 
     // Update engine logger
     (this.engine as any).logger = context.logger;
+    (this.flowEngine as any).logger = context.logger;
 
     // Register workflow service
     context.registerService('workflow', this);
@@ -105,6 +137,9 @@ export class WorkflowPlugin implements Plugin, IWorkflowService {
    */
   async start(context: PluginContext): Promise<void> {
     context.logger.info('[Workflow Plugin] Starting...');
+    // Restore flow version statuses before flows are started
+    await this.flowEngine.loadFlowVersions();
+
     // Load workflows from directory
     if (this.config.workflowsDir) {
       // If path is relative, resolve from cwd. If absolute, use as is.
@@ -133,6 +168,16 @@ export class WorkflowPlugin implements Plugin, IWorkflowService {
       }
     }
 
+    try {
+      this.actionRuntime.notification = context.getService('notification') as
+        | ActionNotificationService
+        | undefined;
+    } catch {
+      context.logger.warn('[Workflow Plugin] Notification service not available');
+    }
+
+    await this.scheduleFlowResumption(context);
+
     context.logger.info('[Workflow Plugin] Started successfully');
 
     await context.trigger('plugin.started', {
@@ -142,14 +187,17 @@ export class WorkflowPlugin implements Plugin, IWorkflowService {
   }
 
   /**
-   * Register Standard Library of Actions and Guards
+   * Register Standard Library of Actions and Guards. Actions come from one
+   * catalog shared by state-machine workflows and flows; services are
+   * looked up from the runtime when an action runs.
    */
   private registerStandardLibrary(): void {
     // Register Actions
-    this.engine.registerAction('log', StandardActions.log);
-    this.engine.registerAction('send_email', StandardActions.sendEmail);
-    this.engine.registerAction('webhook', StandardActions.webhook);
-    this.engine.registerAction('update_record', StandardActions.updateRecord);
+    const catalog = createActionCatalog(this.actionRuntime);
+    for (const [name, action] of Object.entries(catalog)) {
+      this.engine.registerAction(name, toTransitionAction(action));
+    }
+    registerFlowActions(this.flowEngine, catalog);
 
     // Register Guards
     this.engine.registerGuard('always', StandardGuards.always);
@@ -194,9 +242,66 @@ export class WorkflowPlugin implements Plugin, IWorkflowService {
       await this.handleWorkflowTrigger(payload);
     });
 
+    // Resume flows suspended at a wait node for this event
+    context.hook(
+      'workflow.event',
+      async (payload: {
+        event: string;
+        correlationKey?: string;
+        data?: Record<string, unknown>;
+      }) => {
+        try {
+          await this.flowEngine.deliverEvent(payload.event, payload.correlationKey, payload.data);
+        } catch (error) {
+          const errorObj = error instanceof Error ? error : undefined;
+          this.context?.logger.error(
+            '[Workflow Plugin] Error delivering workflow.event:',
+            errorObj,
+          );
+        }
+      },
+    );
+
     this.context?.logger.info('[Workflow Plugin] Event listeners registered');
   }
 
+  /**
+   * Resume flows whose wait timer is due. Uses the jobs service when
+   * available so resumption is scheduled alongside other jobs; falls back
+   * to an in-process interval otherwise.
+   */
+  private async scheduleFlowResumption(context: PluginContext): Promise<void> {
+    const resumeDue = async () => {
+      const results = await this.flowEngine.resumeDue();
+      if (results.length > 0) {
+        context.logger.info(`[Workflow Plugin] Resumed ${results.length} suspended flow(s)`);
+      }
+    };
+
+    let jobs: IJobService | undefined;
+    try {
+      jobs = context.getService('job') as IJobService | undefined;
+    } catch {
+      jobs = undefined;
+    }
+
+    if (jobs) {
+      await jobs.schedule(
+        'workflow_flow_resume',
+        { type: 'cron', expression: this.config.flowResumeSchedule },
+        resumeDue,
+      );
+      return;
+    }
+
+    this.resumeTimer = setInterval(() => {
+      resumeDue().catch((error) =>
+        context.logger.error('[Workflow Plugin] Error resuming flows:', error),
+      );
+    }, 60000);
+    this.resumeTimer.unref?.();
+  }
+
   /**
    * Handle workflow trigger event
    * Finds matching workflows and starts them
@@ -356,6 +461,89 @@ export class WorkflowPlugin implements Plugin, IWorkflowService {
     return this.engine;
   }
 
+  // ── Flow executions ──
+
+  /**
+   * Get the flow engine (for registering node handlers)
+   */
+  getFlowEngine(): FlowEngine {
+    return this.flowEngine;
+  }
+
+  /**
+   * Register a Flow definition (activated unless registered as `draft`)
+   */
+  registerFlow(flow: Flow, status?: FlowVersionStatus): FlowVersion {
+    const registered = this.flowEngine.registerFlow(flow, status);
+    this.context?.logger.info(
+      `[Workflow Plugin] Registered flow: ${flow.name} (version ${registered.version}, ${registered.status})`,
+    );
+    return registered;
+  }
+
+  /**
+   * Activate a flow version; the previously active version becomes obsolete
+   */
+  activateFlow(name: string, version: string): FlowVersion {
+    return this.flowEngine.activateFlow(name, version);
+  }
+
+  /**
+   * List the registered versions of a flow
+   */
+  listFlowVersions(name: string): FlowVersion[] {
+    return this.flowEngine.listFlowVersions(name);
+  }
+
+  /**
+   * Migrate suspended instances between versions of a flow
+   */
+  async migrateFlowInstances(
+    name: string,
+    options: FlowMigrationOptions,
+  ): Promise<FlowMigrationReport> {
+    return this.flowEngine.migrateInstances(name, options);
+  }
+
+  /**
+   * Start a registered Flow on its active version
+   */
+  async startFlow(
+    name: string,
+    variables: Record<string, unknown> = {},
+    startedBy?: string,
+  ): Promise<FlowExecutionResult> {
+    return this.flowEngine.start(name, variables, startedBy);
+  }
+
+  /**
+   * List flow instances suspended at a wait node
+   */
+  async listSuspendedFlows(query?: SuspendedFlowQuery): Promise<WorkflowInstance[]> {
+    return this.flowEngine.listSuspended(query);
+  }
+
+  /**
+   * Force-resume a suspended flow instance
+   */
+  async resumeFlow(
+    instanceId: string,
+    payload?: Record<string, unknown>,
+  ): Promise<FlowExecutionResult> {
+    return this.flowEngine.resume(instanceId, payload);
+  }
+
+  /**
+   * Cancel a suspended flow instance
+   */
+  async cancelFlow(
+    instanceId: string,
+    reason?: string,
+    cancelledBy?: string,
+  ): Promise<WorkflowInstance> {
+    return this.flowEngine.cancel(instanceId, reason, cancelledBy);
+  }
+
   /**
    * Health check
    */
@@ -433,6 +621,11 @@ export class WorkflowPlugin implements Plugin, IWorkflowService {
    * Cleanup and shutdown
    */
   async destroy(): Promise<void> {
+    if (this.resumeTimer) {
+      clearInterval(this.resumeTimer);
+      this.resumeTimer = undefined;
+    }
+    await this.flowEngine.flushFlowVersions();
     this.context?.logger.info('[Workflow Plugin] Destroyed');
 
     if (this.context) {
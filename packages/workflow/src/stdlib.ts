@@ -1,70 +1,380 @@
 /**
  * Standard Library for Workflow Actions and Guards
  *
- * Built-in functions that can be used in workflow definitions
+ * Built-in functions that can be used in workflow definitions.
+ *
+ * Actions are defined once in an action catalog and adapted to both
+ * engines: as `TransitionAction`s for state-machine workflows and as
+ * `FlowNodeHandler`s for graph flows. They are backed by the kernel data
+ * layer (records), the notification service (email/SMS/push) and an
+ * outbound HTTP client; an action whose service is not available fails
+ * instead of pretending to succeed.
  */
 
-import type { WorkflowContext } from './types.js';
+import type { FlowEngine, FlowNodeHandler } from './flow-engine.js';
+import { resolveTemplates } from './template.js';
+import type { TransitionAction, WorkflowContext } from './types.js';
 
 /**
- * Standard Actions
+ * Without a `resolveSecret`, HTTP auth may only read environment
+ * variables with this prefix
  */
-export const StandardActions = {
-  /**
-   * Log a message to the console
-   */
-  log: (context: WorkflowContext, params?: any) => {
-    // Handle direct string param (backward compat) or object (new style)
-    let message: string;
-    if (typeof params === 'string') {
-      message = params;
-    } else if (params && params.message) {
-      message = params.message;
-    } else {
-      message = 'Workflow Action Triggered';
+const ENV_SECRET_PREFIX = 'WORKFLOW_SECRET_';
+
+/**
+ * Data layer used by record actions
+ */
+export interface ActionDataService {
+  create(object: string, doc: Record<string, unknown>): Promise<Record<string, unknown>>;
+  update(object: string, id: string, doc: Record<string, unknown>): Promise<unknown>;
+  delete(object: string, id: string): Promise<unknown>;
+  get(object: string, id: string): Promise<Record<string, unknown> | null>;
+  find(object: string, query: Record<string, unknown>): Promise<Record<string, unknown>[]>;
+}
+
+/**
+ * Subset of `@objectos/notification` used by notification actions
+ */
+export interface ActionNotificationService {
+  send(request: {
+    channel: string;
+    recipient: string | string[];
+    subject?: string;
+    body?: string;
+    template?: string;
+    data?: Record<string, unknown>;
+    /** Channel-specific options, e.g. the link and category of in-app notifications */
+    options?: Record<string, unknown>;
+    /** User whose preferences apply, for channels addressed by email, phone or token */
+    userId?: string;
+    category?: string;
+    priority?: 'low' | 'normal' | 'high';
+  }): Promise<{ success: boolean; messageId?: string; error?: string }>;
+  getTemplate?(id: string): Promise<{ subject?: string; body: string } | null | undefined>;
+}
+
+/**
+ * Services the standard actions run against
+ */
+export interface ActionRuntime {
+  data?: ActionDataService;
+  notification?: ActionNotificationService;
+  /** HTTP client (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Resolve a secret referenced by HTTP auth (default: `WORKFLOW_SECRET_*` environment variable) */
+  resolveSecret?: (name: string) => string | undefined | Promise<string | undefined>;
+}
+
+/**
+ * Execution scope handed to an action
+ */
+export interface ActionScope {
+  instanceId: string;
+  /** Workflow data or flow variables, read-only */
+  variables: Record<string, unknown>;
+  /** Write a workflow variable */
+  setVariable: (key: string, value: unknown) => void;
+  logger: {
+    info: (message: string, ...args: unknown[]) => void;
+    warn: (message: string, ...args: unknown[]) => void;
+    error: (message: string, ...args: unknown[]) => void;
+  };
+}
+
+/**
+ * Engine-neutral workflow action. Params arrive with `{{variable}}`
+ * templates already resolved; the result is stored in `outputVariable`.
+ */
+export type WorkflowAction = (
+  params: Record<string, any>,
+  scope: ActionScope,
+) => Promise<Record<string, unknown> | void>;
+
+/**
+ * Data service backed by the kernel broker (`data.*` actions)
+ */
+export function createBrokerDataService(broker: {
+  call: (action: string, params: Record<string, unknown>) => Promise<any>;
+}): ActionDataService {
+  return {
+    create: (object, doc) => broker.call('data.create', { object, doc }),
+    update: (object, id, doc) => broker.call('data.update', { object, id, doc }),
+    delete: (object, id) => broker.call('data.delete', { object, id }),
+    get: (object, id) => broker.call('data.get', { object, id }),
+    find: async (object, query) => (await broker.call('data.find', { object, query })) ?? [],
+  };
+}
+
+/**
+ * Build the standard action catalog for a runtime
+ */
+export function createActionCatalog(runtime: ActionRuntime = {}): Record<string, WorkflowAction> {
+  const requireData = (action: string): ActionDataService => {
+    if (!runtime.data) throw new Error(`Action ${action} requires the data service`);
+    return runtime.data;
+  };
+
+  const sendNotification: WorkflowAction = async (params, scope) => {
+    const notification = runtime.notification;
+    const channel = params.channel ?? 'email';
+    const recipient = params.to ?? params.recipient;
+    if (!recipient) throw new Error(`Notification action requires a recipient`);
+
+    scope.logger.info(
+      `[Workflow Action] Sending ${channel} to ${recipient}: ${params.subject ?? params.template ?? ''}`,
+    );
+    if (!notification) throw new Error('Notification service is not available');
+
+    const body = params.body;
+    let subject = params.subject;
+    let template: string | undefined;
+    if (params.template) {
+      const stored = await notification.getTemplate?.(params.template);
+      if (stored) {
+        template = stored.body;
+        subject ??= stored.subject;
+      } else {
+        template = params.template;
+      }
+    }
+    const data = { ...scope.variables, ...params.data };
+
+    const result = await notification.send({
+      channel,
+      recipient,
+      subject: subject && resolveTemplates(subject, data),
+      body,
+      template,
+      data: template ? data : params.data,
+      options: params.options,
+      userId: params.userId,
+      category: params.category,
+      priority: params.priority,
+    });
+    if (!result.success) {
+      throw new Error(`Failed to send ${channel} notification: ${result.error ?? 'unknown error'}`);
     }
+    return { messageId: result.messageId };
+  };
+
+  const httpRequest: WorkflowAction = async (params, scope) => {
+    if (!params.url) throw new Error('HTTP action requires a url');
+    const fetchFn = runtime.fetch ?? fetch;
+    const method = String(params.method ?? 'GET').toUpperCase();
+    const headers: Record<string, string> = { ...params.headers };
+    if (params.auth) Object.assign(headers, await authHeaders(params.auth, runtime));
+
+    let body: string | undefined;
+    if (params.body !== undefined && method !== 'GET') {
+      body = typeof params.body === 'string' ? params.body : JSON.stringify(params.body);
+      if (typeof params.body !== 'string') headers['Content-Type'] ??= 'application/json';
+    }
+
+    const retries = Number(params.retries ?? 0);
+    const timeoutMs = Number(params.timeoutMs ?? 30000);
+    let delay = Number(params.retryDelayMs ?? 1000);
+
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const response = await fetchFn(params.url, {
+          method,
+          headers,
+          body,
+          signal: controller.signal,
+        });
+        clearTimeout(timeoutId);
+
+        const retryable = response.status >= 500 || response.status === 429;
+        if (retryable && attempt < retries) {
+          throw new RetryableError(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        const text = await response.text();
+        scope.logger.info(
+          `[Workflow Action] HTTP ${method} ${params.url} completed with status ${response.status}`,
+        );
+        return { status: response.status, body: parseBody(text) };
+      } catch (err) {
+        clearTimeout(timeoutId);
+        const networkError = !(err instanceof Error) || !err.message.startsWith('HTTP ');
+        if (attempt >= retries || !(err instanceof RetryableError || networkError)) {
+          if (controller.signal.aborted) {
+            throw new Error(`HTTP ${method} ${params.url} timed out after ${timeoutMs}ms`);
+          }
+          throw err;
+        }
+        scope.logger.warn(
+          `[Workflow Action] HTTP ${method} ${params.url} failed (${(err as Error).message}), retrying`,
+        );
+        if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+        delay *= 2;
+      }
+    }
+  };
+
+  return {
+    log: async (params, scope) => {
+      scope.logger.info(`[Workflow Action] ${params.message ?? 'Workflow Action Triggered'}`);
+    },
+
+    send_email: (params, scope) => sendNotification({ ...params, channel: 'email' }, scope),
 
-    const msg = message.replace(/\{\{\s*(\w+)\s*\}\}/g, (_: string, key: string) =>
-      String(context.getData(key) || ''),
+    send_notification: sendNotification,
+
+    http_request: httpRequest,
+
+    webhook: (params, scope) =>
+      httpRequest({ method: 'POST', body: scope.variables, ...params }, scope),
+
+    create_record: async (params) => {
+      const object = recordObject(params, 'create_record');
+      const record = await requireData('create_record').create(object, params.fields ?? {});
+      return { object, id: record?.id ?? record?._id, record };
+    },
+
+    update_record: async (params, scope) => {
+      const data = requireData('update_record');
+      // Legacy form: flat params update the workflow's own record
+      const legacy = params.fields === undefined;
+      const fields: Record<string, unknown> = legacy ? { ...params } : params.fields;
+      const object = legacy ? scope.variables.object : (params.object ?? params.objectName);
+      if (typeof object !== 'string' || !object) {
+        throw new Error('Action update_record requires an object');
+      }
+
+      const ids = await recordIds(data, object, params, legacy ? scope.variables : {});
+      for (const id of ids) {
+        await data.update(object, id, fields);
+      }
+      if (legacy) {
+        for (const [key, value] of Object.entries(fields)) scope.setVariable(key, value);
+      }
+      return { object, ids, fields };
+    },
+
+    delete_record: async (params) => {
+      const data = requireData('delete_record');
+      const object = recordObject(params, 'delete_record');
+      const ids = await recordIds(data, object, params);
+      for (const id of ids) {
+        await data.delete(object, id);
+      }
+      return { object, ids };
+    },
+
+    get_record: async (params) => {
+      const data = requireData('get_record');
+      const object = recordObject(params, 'get_record');
+      if (params.filter) {
+        const records = await data.find(object, params.filter);
+        return { record: records[0] ?? null, records };
+      }
+      const id = params.id ?? params.recordId;
+      if (!id) throw new Error('Action get_record requires an id or filter');
+      return { record: await data.get(object, id) };
+    },
+  };
+}
+
+/**
+ * Adapt a catalog action to a state-machine `TransitionAction`.
+ * A string param is shorthand for `{ message }`.
+ */
+export function toTransitionAction(action: WorkflowAction): TransitionAction {
+  return async (context: WorkflowContext, params?: any) => {
+    const variables = context.getData<Record<string, unknown>>() ?? {};
+    const raw = typeof params === 'string' ? { message: params } : { ...params };
+    const { outputVariable, ...rest } = raw;
+    const result = await action(resolveTemplates(rest, variables), {
+      instanceId: context.instance.id,
+      variables,
+      setVariable: (key, value) => context.setData(key, value),
+      logger: context.logger,
+    });
+    if (outputVariable && result) context.setData(outputVariable, result);
+  };
+}
+
+/**
+ * Adapt a catalog action to a `FlowNodeHandler`. The node config is the
+ * action params; the result is stored under `config.outputVariable`
+ * (default: the node id).
+ */
+export function toFlowNodeHandler(action: WorkflowAction): FlowNodeHandler {
+  return async (node, context) => {
+    const { outputVariable, compensate: _compensate, ...rest } = node.config ?? {};
+    const output: Record<string, unknown> = {};
+    const result = await action(resolveTemplates(rest, context.variables), {
+      instanceId: context.instance.id,
+      variables: context.variables,
+      setVariable: (key, value) => {
+        output[key] = value;
+      },
+      logger: context.logger,
+    });
+    output[(outputVariable as string | undefined) ?? node.id] = result ?? {};
+    return { success: true, output };
+  };
+}
+
+/**
+ * Register the catalog as flow node types. `connector_action` nodes
+ * dispatch to the catalog by `actionId` with `input` as params, and
+ * created records are deleted when a flow compensates.
+ */
+export function registerFlowActions(
+  flowEngine: FlowEngine,
+  catalog: Record<string, WorkflowAction>,
+): void {
+  for (const [type, action] of Object.entries(catalog)) {
+    flowEngine.registerHandler(type, toFlowNodeHandler(action));
+  }
+
+  flowEngine.registerHandler('connector_action', async (node, context) => {
+    const { actionId, input, outputVariable } = node.config ?? {};
+    const action = catalog[actionId as string];
+    if (!action) {
+      return { success: false, error: `Unknown action ${actionId} on node ${node.id}` };
+    }
+    return toFlowNodeHandler(action)(
+      { ...node, config: { ...(input as object), outputVariable } },
+      context,
     );
-    context.logger.info(`[Workflow Action] ${msg}`);
-  },
+  });
 
-  /**
-   * Send an email (mock implementation)
-   */
-  sendEmail: (context: WorkflowContext, params?: any) => {
-    const to = params?.to || '';
-    const subject = params?.subject || '';
-    // Unused body for now, but would be params.body
-
-    const resolvedTo = to.replace(
-      /\{\{\s*(\w+)\s*\}\}/g,
-      (_: string, key: string) => context.getData(key) || '',
+  const deleteRecord = catalog.delete_record;
+  flowEngine.registerCompensation('create_record', async (node, context, output) => {
+    const created = output[(node.config?.outputVariable as string) ?? node.id] as
+      | { object: string; id: string }
+      | undefined;
+    if (!created?.id) return;
+    await deleteRecord(
+      { object: created.object, id: created.id },
+      {
+        instanceId: context.instance.id,
+        variables: context.variables,
+        setVariable: () => undefined,
+        logger: context.logger,
+      },
     );
-    context.logger.info(`[Workflow Action] Sending email to ${resolvedTo}: ${subject}`);
-  },
+  });
+}
 
-  /**
-   * Update a record (mock implementation for now)
-   */
-  updateRecord: (context: WorkflowContext, params?: any) => {
-    const updates = params || {};
-    context.logger.info(`[Workflow Action] Updating record ${context.instance.id}`, updates);
-    // Simulate update in context data
-    for (const [key, value] of Object.entries(updates)) {
-      context.setData(key, value);
-    }
-  },
+/**
+ * Standard Actions (state-machine form, without backing services)
+ */
+const defaultCatalog = createActionCatalog();
 
-  /**
-   * Webhook call (mock implementation)
-   */
-  webhook: (context: WorkflowContext, params?: any) => {
-    const url = params?.url || '';
-    const method = params?.method || 'POST';
-    context.logger.info(`[Workflow Action] Calling Webhook ${method} ${url}`);
-  },
+export const StandardActions = {
+  log: toTransitionAction(defaultCatalog.log),
+  sendEmail: toTransitionAction(defaultCatalog.send_email),
+  updateRecord: toTransitionAction(defaultCatalog.update_record),
+  webhook: toTransitionAction(defaultCatalog.webhook),
 };
 
 /**
@@ -101,3 +411,63 @@ export const StandardGuards = {
    */
   never: () => false,
 };
+
+class RetryableError extends Error {}
+
+function recordObject(params: Record<string, any>, action: string): string {
+  const object = params.object ?? params.objectName;
+  if (!object) throw new Error(`Action ${action} requires an object`);
+  return object;
+}
+
+/**
+ * Target record ids: an explicit `id`/`recordId`, or every match of `filter`
+ */
+async function recordIds(
+  data: ActionDataService,
+  object: string,
+  params: Record<string, any>,
+  fallback: Record<string, unknown> = {},
+): Promise<string[]> {
+  const id = params.id ?? params.recordId ?? fallback.recordId ?? fallback.id;
+  if (id) return [String(id)];
+  if (params.filter) {
+    const records = await data.find(object, params.filter);
+    return records.map((record) => String(record.id ?? record._id));
+  }
+  throw new Error(`Action on ${object} requires an id, recordId or filter`);
+}
+
+async function authHeaders(
+  auth: { type: string; secret: string; header?: string; username?: string },
+  runtime: ActionRuntime,
+): Promise<Record<string, string>> {
+  if (!runtime.resolveSecret && !auth.secret.startsWith(ENV_SECRET_PREFIX)) {
+    throw new Error(`Secret ${auth.secret} must be named ${ENV_SECRET_PREFIX}*`);
+  }
+  const resolve = runtime.resolveSecret ?? ((name: string) => process.env[name]);
+  const secret = await resolve(auth.secret);
+  if (!secret) throw new Error(`Secret ${auth.secret} is not defined`);
+
+  switch (auth.type) {
+    case 'bearer':
+      return { Authorization: `Bearer ${secret}` };
+    case 'basic':
+      return {
+        Authorization: `Basic ${Buffer.from(`${auth.username ?? ''}:${secret}`).toString('base64')}`,
+      };
+    case 'header':
+      if (!auth.header) throw new Error('Header auth requires a header name');
+      return { [auth.header]: secret };
+    default:
+      throw new Error(`Unsupported auth type: ${auth.type}`);
+  }
+}
+
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -5,6 +5,7 @@
  */
 
 import type {
+  FlowVersionState,
   WorkflowStorage,
   WorkflowDefinition,
   WorkflowInstance,
@@ -20,6 +21,7 @@ export class InMemoryWorkflowStorage implements WorkflowStorage {
   private definitions: Map<string, Map<string, WorkflowDefinition>> = new Map();
   private instances: Map<string, WorkflowInstance> = new Map();
   private tasks: Map<string, WorkflowTask> = new Map();
+  private flowVersions: Map<string, FlowVersionState> = new Map();
 
   /**
    * Save a workflow definition
@@ -180,6 +182,20 @@ export class InMemoryWorkflowStorage implements WorkflowStorage {
     Object.assign(task, updates);
   }
 
+  /**
+   * Save the lifecycle state of a flow version
+   */
+  async saveFlowVersion(state: FlowVersionState): Promise<void> {
+    this.flowVersions.set(`${state.name}@${state.version}`, { ...state });
+  }
+
+  /**
+   * List the saved flow version states
+   */
+  async listFlowVersions(): Promise<FlowVersionState[]> {
+    return Array.from(this.flowVersions.values(), (state) => ({ ...state }));
+  }
+
   /**
    * Clear all data (for testing)
    */
@@ -187,5 +203,6 @@ export class InMemoryWorkflowStorage implements WorkflowStorage {
     this.definitions.clear();
     this.instances.clear();
     this.tasks.clear();
+    this.flowVersions.clear();
   }
 }
@@ -0,0 +1,46 @@
+/**
+ * Template Helpers
+ *
+ * `{{variable}}` interpolation shared by flow nodes and workflow actions.
+ */
+
+/**
+ * Read a dotted path (`order.lines`) from a variable scope
+ */
+export function lookup(path: string, variables: Record<string, unknown>): unknown {
+  let current: unknown = variables;
+  for (const part of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+/**
+ * Replace `{{variable}}` placeholders in a string. A string that is a
+ * single placeholder resolves to the raw value (keeping its type).
+ */
+export function interpolate(value: unknown, variables: Record<string, unknown>): unknown {
+  if (typeof value !== 'string') return value;
+  const whole = /^\{\{\s*([\w.$]+)\s*\}\}$/.exec(value);
+  if (whole) return lookup(whole[1], variables);
+  return value.replace(/\{\{\s*([\w.$]+)\s*\}\}/g, (_, path: string) =>
+    String(lookup(path, variables) ?? ''),
+  );
+}
+
+/**
+ * Interpolate every string inside a (nested) params object
+ */
+export function resolveTemplates<T>(value: T, variables: Record<string, unknown>): T {
+  if (typeof value === 'string') return interpolate(value, variables) as T;
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveTemplates(item, variables)) as T;
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveTemplates(item, variables)]),
+    ) as T;
+  }
+  return value;
+}
@@ -31,7 +31,8 @@ export type WorkflowStatus =
   | 'running' // Workflow is currently executing
   | 'completed' // Workflow completed successfully
   | 'failed' // Workflow failed
-  | 'aborted'; // Workflow was aborted
+  | 'aborted' // Workflow was aborted
+  | 'suspended'; // Flow is waiting on a timer or an external event
 
 /**
  * Workflow type
@@ -189,6 +190,34 @@ export interface WorkflowInstance {
   startedBy?: string;
   /** User who completed/aborted the workflow */
   completedBy?: string;
+  /** Flow variables, checkpointed after each node */
+  variables?: Record<string, unknown>;
+  /** Wait condition of a suspended flow instance */
+  wait?: FlowWaitState;
+  /** Parent instance and node when started by a subflow node */
+  parent?: { instanceId: string; nodeId: string };
+  /** Names of the flows that (transitively) invoked this subflow */
+  callStack?: string[];
+  /** Completed compensable nodes, undone in reverse order if the flow fails */
+  compensation?: Array<{ nodeId: string; output: Record<string, unknown> }>;
+}
+
+/**
+ * Wait condition of a suspended flow instance
+ */
+export interface FlowWaitState {
+  /** The wait node the instance is suspended at */
+  nodeId: string;
+  /** Resume once this time has passed */
+  resumeAt?: Date;
+  /** Resume when this event is delivered */
+  event?: string;
+  /** Only resume for events carrying this correlation key */
+  correlationKey?: string;
+  /** Resume when this child (subflow) instance finishes */
+  subflowInstanceId?: string;
+  /** When the instance was suspended */
+  suspendedAt: Date;
 }
 
 /**
@@ -327,6 +356,24 @@ export interface WorkflowQueryOptions {
   sortOrder?: 'asc' | 'desc';
 }
 
+/**
+ * Lifecycle status of a flow version
+ */
+export type FlowVersionStatus = 'draft' | 'active' | 'obsolete';
+
+/**
+ * Persisted lifecycle state of a flow version. The definition itself is
+ * registered by code on every start; only the status survives restarts.
+ */
+export interface FlowVersionState {
+  name: string;
+  version: string;
+  status: FlowVersionStatus;
+  registeredAt: Date;
+  activatedAt?: Date;
+  obsoletedAt?: Date;
+}
+
 /**
  * Workflow storage interface
  * Currently uses legacy WorkflowDefinition format internally.
@@ -365,6 +412,12 @@ export interface WorkflowStorage {
 
   /** Update a task */
   updateTask(id: string, updates: Partial<WorkflowTask>): Promise<void>;
+
+  /** Save the lifecycle state of a flow version */
+  saveFlowVersion?(state: FlowVersionState): Promise<void>;
+
+  /** List the saved flow version states */
+  listFlowVersions?(): Promise<FlowVersionState[]>;
 }
 
 /**
@@ -420,6 +473,10 @@ export interface WorkflowPluginConfig {
   defaultTimeout?: number;
   /** Maximum number of state transitions */
   maxTransitions?: number;
+  /** Cron expression used to resume flows whose wait timer is due (default: every minute) */
+  flowResumeSchedule?: string;
+  /** Resolve secrets referenced by HTTP action auth (default: `WORKFLOW_SECRET_*` environment variables) */
+  resolveSecret?: (name: string) => string | undefined | Promise<string | undefined>;
 }
 
 /**
@@ -5,6 +5,7 @@ describe('E2E: Event to Workflow Execution', () => {
   let workflowPlugin: WorkflowPlugin;
   let mockLogger: any;
   let mockContext: any;
+  let mockNotification: any;
   let eventHandlers: Record<string, Function> = {};
 
   beforeEach(async () => {
@@ -17,9 +18,11 @@ describe('E2E: Event to Workflow Execution', () => {
 
     // 2. Setup Mock Context (Kernel)
     eventHandlers = {};
+    mockNotification = { send: vi.fn().mockResolvedValue({ success: true, messageId: 'm1' }) };
     mockContext = {
       logger: mockLogger,
       registerService: vi.fn(),
+      getService: vi.fn((name: string) => (name === 'notification' ? mockNotification : undefined)),
       hook: vi.fn((event, handler) => {
         eventHandlers[event] = handler;
       }),
@@ -102,5 +105,12 @@ describe('E2E: Event to Workflow Execution', () => {
     expect(mockLogger.info).toHaveBeenCalledWith(
       expect.stringContaining('Sending email to test@example.com: Welcome'),
     );
+    expect(mockNotification.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: 'email',
+        recipient: 'test@example.com',
+        subject: 'Welcome',
+      }),
+    );
   });
 });
@@ -190,5 +190,25 @@ describe('Flow Converter', () => {
       const errors = validateFlow(flow);
       expect(errors.some((e) => e.includes('unknown target node'))).toBe(true);
     });
+
+    it('should require an each edge on loop nodes', () => {
+      const flow: Flow = {
+        name: 'Test',
+        label: 'Test',
+        type: 'autolaunched',
+        version: 1,
+        nodes: [
+          { id: '1', label: 'start', type: 'start' },
+          { id: '2', label: 'lines', type: 'loop' },
+          { id: '3', label: 'end', type: 'end' },
+        ],
+        edges: [
+          { id: 'e1', source: '1', target: '2' },
+          { id: 'e2', source: '2', target: '3', label: 'done' },
+        ],
+      };
+      const errors = validateFlow(flow);
+      expect(errors).toContain('Loop lines (2) has no "each" edge');
+    });
   });
 });
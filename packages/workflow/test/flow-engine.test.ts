@@ -4,7 +4,8 @@
  * Tests for native Flow execution without legacy FSM conversion.
  */
 
-import { FlowEngine } from '../src/flow-engine.js';
+import { FlowEngine, parseDuration } from '../src/flow-engine.js';
+import { InMemoryWorkflowStorage } from '../src/storage.js';
 import type { Flow } from '../src/types.js';
 
 const silentLogger = {
@@ -56,6 +57,170 @@ function createDecisionFlow(): Flow {
   } as Flow;
 }
 
+/**
+ * Helper: create a flow that waits between two assignments:
+ * start → assignment → wait → assignment → end
+ */
+function createWaitFlow(waitConfig: Record<string, unknown>): Flow {
+  return {
+    name: 'wait_flow',
+    label: 'Wait Flow',
+    type: 'autolaunched',
+    nodes: [
+      { id: 'n1', type: 'start', label: 'Start' },
+      { id: 'n2', type: 'assignment', label: 'Before', config: { step: 'before' } },
+      { id: 'n3', type: 'wait', label: 'Wait', config: waitConfig },
+      { id: 'n4', type: 'assignment', label: 'After', config: { step: 'after' } },
+      { id: 'n5', type: 'end', label: 'End' },
+    ],
+    edges: [
+      { id: 'e1', source: 'n1', target: 'n2' },
+      { id: 'e2', source: 'n2', target: 'n3' },
+      { id: 'e3', source: 'n3', target: 'n4' },
+      { id: 'e4', source: 'n4', target: 'n5' },
+    ],
+  } as Flow;
+}
+
+/**
+ * Helper: create a parallel flow: start → fork → (a | b | c) → join → end
+ */
+function createParallelFlow(joinConfig: Record<string, unknown> = {}): Flow {
+  return {
+    name: 'parallel_flow',
+    label: 'Parallel Flow',
+    type: 'autolaunched',
+    nodes: [
+      { id: 'start', type: 'start', label: 'Start' },
+      { id: 'fork', type: 'fork', label: 'Fork' },
+      { id: 'a', type: 'assignment', label: 'A', config: { a: 1 } },
+      { id: 'b', type: 'assignment', label: 'B', config: { b: 2 } },
+      { id: 'c', type: 'assignment', label: 'C', config: { c: 3 } },
+      { id: 'join', type: 'join', label: 'Join', config: joinConfig },
+      { id: 'end', type: 'end', label: 'End' },
+    ],
+    edges: [
+      { id: 'e1', source: 'start', target: 'fork' },
+      { id: 'e2', source: 'fork', target: 'a' },
+      { id: 'e3', source: 'fork', target: 'b' },
+      { id: 'e4', source: 'fork', target: 'c' },
+      { id: 'e5', source: 'a', target: 'join' },
+      { id: 'e6', source: 'b', target: 'join' },
+      { id: 'e7', source: 'c', target: 'join' },
+      { id: 'e8', source: 'join', target: 'end' },
+    ],
+  } as unknown as Flow;
+}
+
+/**
+ * Helper: create a loop flow: start → loop -each→ body → loop -done→ end
+ */
+function createLoopFlow(loopConfig: Record<string, unknown>): Flow {
+  return {
+    name: 'loop_flow',
+    label: 'Loop Flow',
+    type: 'autolaunched',
+    nodes: [
+      { id: 'start', type: 'start', label: 'Start' },
+      { id: 'loop', type: 'loop', label: 'Each Line', config: loopConfig },
+      { id: 'body', type: 'sum', label: 'Add Line' },
+      { id: 'end', type: 'end', label: 'End' },
+    ],
+    edges: [
+      { id: 'e1', source: 'start', target: 'loop' },
+      { id: 'e2', source: 'loop', target: 'body', label: 'each' },
+      { id: 'e3', source: 'body', target: 'loop' },
+      { id: 'e4', source: 'loop', target: 'end', label: 'done' },
+    ],
+  } as unknown as Flow;
+}
+
+/**
+ * Helper: a child flow that doubles `amount` into `doubled`, optionally
+ * waiting for an event first
+ */
+function createChildFlow(wait?: Record<string, unknown>): Flow {
+  const nodes: Flow['nodes'] = [
+    { id: 'start', type: 'start', label: 'Start' },
+    { id: 'double', type: 'double', label: 'Double' },
+    { id: 'end', type: 'end', label: 'End' },
+  ];
+  const edges: Flow['edges'] = [
+    { id: 'e1', source: 'start', target: 'double', type: 'default' },
+    { id: 'e2', source: 'double', target: 'end', type: 'default' },
+  ];
+  if (wait) {
+    nodes.push({ id: 'wait', type: 'wait', label: 'Wait', config: wait });
+    edges[0] = { id: 'e1', source: 'start', target: 'wait', type: 'default' };
+    edges.push({ id: 'e3', source: 'wait', target: 'double', type: 'default' });
+  }
+  return {
+    name: 'child_flow',
+    label: 'Child Flow',
+    type: 'autolaunched',
+    variables: [
+      { name: 'amount', type: 'number', isInput: true, isOutput: false },
+      { name: 'doubled', type: 'number', isInput: false, isOutput: true },
+    ],
+    nodes,
+    edges,
+  } as unknown as Flow;
+}
+
+/**
+ * Helper: a parent flow calling `child_flow`, with a fault path to `recover`
+ */
+function createParentFlow(subflowConfig: Record<string, unknown> = {}): Flow {
+  return {
+    name: 'parent_flow',
+    label: 'Parent Flow',
+    type: 'autolaunched',
+    nodes: [
+      { id: 'start', type: 'start', label: 'Start' },
+      {
+        id: 'call',
+        type: 'subflow',
+        label: 'Call Child',
+        config: { flow: 'child_flow', ...subflowConfig },
+      },
+      { id: 'end', type: 'end', label: 'End' },
+      { id: 'recover', type: 'end', label: 'Recovered' },
+    ],
+    edges: [
+      { id: 'e1', source: 'start', target: 'call' },
+      { id: 'e2', source: 'call', target: 'end' },
+      { id: 'e3', source: 'call', target: 'recover', type: 'fault' },
+    ],
+  } as Flow;
+}
+
+/**
+ * Helper: start → book_hotel → book_flight → charge → end, where charge
+ * has a fault edge to `refund` when `withFault` is set
+ */
+function createBookingFlow(withFault = false): Flow {
+  return {
+    name: 'booking_flow',
+    label: 'Booking',
+    type: 'autolaunched',
+    nodes: [
+      { id: 'start', type: 'start', label: 'Start' },
+      { id: 'hotel', type: 'book', label: 'Book Hotel', config: { item: 'hotel' } },
+      { id: 'flight', type: 'book', label: 'Book Flight', config: { item: 'flight' } },
+      { id: 'charge', type: 'charge', label: 'Charge Card' },
+      { id: 'end', type: 'end', label: 'End' },
+      { id: 'refund', type: 'end', label: 'Refund' },
+    ],
+    edges: [
+      { id: 'e1', source: 'start', target: 'hotel' },
+      { id: 'e2', source: 'hotel', target: 'flight' },
+      { id: 'e3', source: 'flight', target: 'charge' },
+      { id: 'e4', source: 'charge', target: 'end' },
+      ...(withFault ? [{ id: 'e5', source: 'charge', target: 'refund', type: 'fault' }] : []),
+    ],
+  } as unknown as Flow;
+}
+
 describe('FlowEngine', () => {
   let engine: FlowEngine;
 
@@ -107,6 +272,36 @@ describe('FlowEngine', () => {
       expect(result.instance.currentState).toBe('n4'); // Rejected end node
     });
 
+    it('should evaluate compound edge conditions with the shared grammar', async () => {
+      const flow = createDecisionFlow();
+      flow.edges[1].condition = '{amount} > 1000 AND (region in ("EU", "US") OR owner = $User.id)';
+
+      const approved = await engine.execute(flow, engine.createInstance(flow, {}, 'u1'), {
+        amount: 5000,
+        region: 'APAC',
+        owner: 'u1',
+      });
+      const rejected = await engine.execute(flow, engine.createInstance(flow, {}, 'u2'), {
+        amount: 5000,
+        region: 'APAC',
+        owner: 'u1',
+      });
+
+      expect(approved.instance.currentState).toBe('n3');
+      expect(rejected.instance.currentState).toBe('n4');
+    });
+
+    it('should fail the instance on an invalid edge condition', async () => {
+      const flow = createDecisionFlow();
+      flow.edges[1].condition = 'amount >> 5';
+
+      const instance = engine.createInstance(flow);
+      const result = await engine.execute(flow, instance, { amount: 10 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('at position 8');
+    });
+
     it('should record state history entries', async () => {
       const flow = createSimpleFlow();
       const instance = engine.createInstance(flow);
@@ -221,4 +416,681 @@ describe('FlowEngine', () => {
       expect(result.instance.currentState).toBe('n4'); // Path B
     });
   });
+
+  describe('fork and join', () => {
+    it('should run every branch and merge their variables at the join', async () => {
+      const flow = createParallelFlow();
+      const result = await engine.execute(flow, engine.createInstance(flow), { base: true });
+
+      expect(result.success).toBe(true);
+      expect(result.instance.currentState).toBe('end');
+      expect(result.variables).toMatchObject({ base: true, a: 1, b: 2, c: 3 });
+    });
+
+    it('should run branches concurrently', async () => {
+      const flow = createParallelFlow();
+      let inFlight = 0;
+      let maxInFlight = 0;
+      engine.registerHandler('assignment', async (node) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return { success: true, output: node.config };
+      });
+
+      await engine.execute(flow, engine.createInstance(flow));
+
+      expect(maxInFlight).toBe(3);
+    });
+
+    it('should continue after the first branch with an any join', async () => {
+      const flow = createParallelFlow({ mode: 'any' });
+      const visited: string[] = [];
+      engine.registerHandler('assignment', async (node) => {
+        visited.push(node.id);
+        await new Promise((resolve) => setTimeout(resolve, node.id === 'a' ? 1 : 20));
+        return { success: true, output: node.config };
+      });
+
+      const result = await engine.execute(flow, engine.createInstance(flow));
+
+      expect(result.success).toBe(true);
+      expect(result.variables).toMatchObject({ a: 1 });
+      expect(result.variables.b).toBeUndefined();
+      expect(visited).toHaveLength(3);
+    });
+
+    it('should wait for N branches with a count join', async () => {
+      const flow = createParallelFlow({ mode: 'count', count: 2 });
+      engine.registerHandler('assignment', async (node) => {
+        await new Promise((resolve) => setTimeout(resolve, node.id === 'c' ? 30 : 1));
+        return { success: true, output: node.config };
+      });
+
+      const result = await engine.execute(flow, engine.createInstance(flow));
+
+      expect(result.variables).toMatchObject({ a: 1, b: 2 });
+      expect(result.variables.c).toBeUndefined();
+    });
+
+    it('should only start branches whose edge condition holds', async () => {
+      const flow = createParallelFlow({ mode: 'all' });
+      flow.edges[3].condition = 'includeC == true';
+
+      const result = await engine.execute(flow, engine.createInstance(flow), {
+        includeC: false,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.variables).toMatchObject({ a: 1, b: 2 });
+      expect(result.variables.c).toBeUndefined();
+    });
+
+    it('should fail the instance when a branch fails', async () => {
+      const flow = createParallelFlow();
+      engine.registerHandler('assignment', async (node) =>
+        node.id === 'b'
+          ? { success: false, error: 'Branch b failed' }
+          : { success: true, output: node.config },
+      );
+
+      const result = await engine.execute(flow, engine.createInstance(flow));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Branch b failed');
+    });
+  });
+
+  describe('loop', () => {
+    beforeEach(() => {
+      engine.registerHandler('sum', async (_node, ctx) => ({
+        success: true,
+        output: { total: Number(ctx.variables.total ?? 0) + Number(ctx.variables.item) },
+      }));
+    });
+
+    it('should iterate the body over a collection variable', async () => {
+      const flow = createLoopFlow({ collection: 'order.lines' });
+      const result = await engine.execute(flow, engine.createInstance(flow), {
+        order: { lines: [10, 20, 30] },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.instance.currentState).toBe('end');
+      expect(result.variables.total).toBe(60);
+      expect(result.variables.$loops).toEqual({});
+    });
+
+    it('should stop when the break condition holds', async () => {
+      const flow = createLoopFlow({ collection: '{{lines}}', breakCondition: 'total >= 25' });
+      const result = await engine.execute(flow, engine.createInstance(flow), {
+        lines: [10, 20, 30],
+      });
+
+      expect(result.variables.total).toBe(30);
+      expect(result.variables.index).toBe(1);
+    });
+
+    it('should not charge loop iterations against the max node limit', async () => {
+      const lines = Array.from({ length: 300 }, () => 1);
+      const flow = createLoopFlow({ collection: 'lines' });
+      const result = await engine.execute(flow, engine.createInstance(flow), { lines });
+
+      expect(result.success).toBe(true);
+      expect(result.variables.total).toBe(300);
+      expect(result.nodesVisited).toBe(603); // start, 301 loop visits, 300 bodies, end
+    });
+
+    it('should fail when the collection is missing', async () => {
+      const flow = createLoopFlow({ collection: 'missing' });
+      const result = await engine.execute(flow, engine.createInstance(flow));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('has no collection');
+    });
+  });
+
+  describe('subflow', () => {
+    beforeEach(() => {
+      engine.registerHandler('double', async (_node, ctx) => ({
+        success: true,
+        output: { doubled: Number(ctx.variables.amount) * 2 },
+      }));
+      engine.registerFlow(createChildFlow());
+    });
+
+    it('should pass declared inputs and copy declared outputs back', async () => {
+      const flow = createParentFlow();
+      const result = await engine.execute(flow, engine.createInstance(flow), { amount: 21 });
+
+      expect(result.success).toBe(true);
+      expect(result.instance.currentState).toBe('end');
+      expect(result.variables.doubled).toBe(42);
+    });
+
+    it('should apply explicit input and output mappings', async () => {
+      const flow = createParentFlow({
+        inputs: { amount: '{{order.total}}' },
+        outputs: { orderTotalTwice: 'doubled' },
+      });
+      const result = await engine.execute(flow, engine.createInstance(flow), {
+        order: { total: 5 },
+      });
+
+      expect(result.variables.orderTotalTwice).toBe(10);
+      expect(result.variables.doubled).toBeUndefined();
+    });
+
+    it('should follow the fault edge when an input has the wrong type', async () => {
+      const flow = createParentFlow();
+      const result = await engine.execute(flow, engine.createInstance(flow), { amount: 'lots' });
+
+      expect(result.success).toBe(true);
+      expect(result.instance.currentState).toBe('recover');
+      expect(result.variables.$Error).toEqual({
+        nodeId: 'call',
+        message: 'Subflow child_flow input "amount" expects number, got string',
+        attempts: 1,
+      });
+    });
+
+    it('should fail the parent when the child fails and there is no fault edge', async () => {
+      engine.registerHandler('double', async () => ({ success: false, error: 'Boom' }));
+      const flow = createParentFlow();
+      flow.edges.pop();
+
+      const result = await engine.execute(flow, engine.createInstance(flow), { amount: 1 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Subflow child_flow failed: Boom');
+    });
+
+    it('should reject recursive subflow calls', async () => {
+      const flow = createParentFlow({ flow: 'parent_flow' });
+      flow.edges.pop();
+
+      const result = await engine.execute(flow, engine.createInstance(flow));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Recursive subflow call: parent_flow → parent_flow');
+    });
+  });
+
+  describe('error handling', () => {
+    let charges: number;
+
+    beforeEach(() => {
+      charges = 0;
+      engine.registerHandler('book', async (node) => ({
+        success: true,
+        output: { [`${node.config?.item}Booking`]: `${node.config?.item}-1` },
+      }));
+      engine.registerHandler('charge', async () => {
+        charges++;
+        if (charges < 3) throw new Error('Card declined');
+        return { success: true, output: { charged: true } };
+      });
+    });
+
+    it('should retry a node with backoff until it succeeds', async () => {
+      const flow = createBookingFlow();
+      flow.nodes[3].config = { retry: { maxAttempts: 3, backoffMs: 1 } };
+
+      const result = await engine.execute(flow, engine.createInstance(flow));
+
+      expect(result.success).toBe(true);
+      expect(charges).toBe(3);
+      expect(result.variables.charged).toBe(true);
+    });
+
+    it('should follow the fault edge with the error once retries are exhausted', async () => {
+      const flow = createBookingFlow(true);
+      flow.nodes[3].config = { retry: { maxAttempts: 2 } };
+
+      const result = await engine.execute(flow, engine.createInstance(flow));
+
+      expect(result.success).toBe(true);
+      expect(result.instance.currentState).toBe('refund');
+      expect(result.variables.$Error).toEqual({
+        nodeId: 'charge',
+        message: 'Card declined',
+        attempts: 2,
+      });
+    });
+
+    it('should apply the flow errorHandling retry policy and fallback node', async () => {
+      engine.registerHandler('charge', async () => {
+        charges++;
+        return { success: false, error: 'Gateway down' };
+      });
+      const flow = createBookingFlow();
+      flow.errorHandling = {
+        strategy: 'retry',
+        maxRetries: 2,
+        retryDelayMs: 0,
+        fallbackNodeId: 'refund',
+      };
+
+      const result = await engine.execute(flow, engine.createInstance(flow));
+
+      expect(charges).toBe(3);
+      expect(result.instance.currentState).toBe('refund');
+    });
+
+    it('should continue past a failed node with the continue strategy', async () => {
+      const flow = createBookingFlow();
+      flow.errorHandling = { strategy: 'continue', maxRetries: 0, retryDelayMs: 0 };
+
+      const result = await engine.execute(flow, engine.createInstance(flow));
+
+      expect(result.success).toBe(true);
+      expect(result.instance.currentState).toBe('end');
+      expect(result.variables.$Error).toMatchObject({ nodeId: 'charge' });
+    });
+
+    it('should compensate completed nodes in reverse order when the flow fails', async () => {
+      const undone: string[] = [];
+      engine.registerCompensation('book', async (node, _ctx, output) => {
+        undone.push(`${node.id}:${Object.values(output)[0]}`);
+      });
+      const flow = createBookingFlow();
+
+      const result = await engine.execute(flow, engine.createInstance(flow));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Card declined');
+      expect(undone).toEqual(['flight:flight-1', 'hotel:hotel-1']);
+      expect(result.compensated).toEqual(['flight', 'hotel']);
+    });
+
+    it('should compensate with the node described in config.compensate', async () => {
+      const cancelled: unknown[] = [];
+      engine.registerHandler('cancel_booking', async (node, ctx) => {
+        cancelled.push({ reason: node.config?.reason, output: ctx.variables.$Output });
+        return { success: true };
+      });
+      const flow = createBookingFlow();
+      flow.nodes[1].config = {
+        item: 'hotel',
+        compensate: { type: 'cancel_booking', config: { reason: 'rollback' } },
+      };
+
+      await engine.execute(flow, engine.createInstance(flow));
+
+      expect(cancelled).toEqual([{ reason: 'rollback', output: { hotelBooking: 'hotel-1' } }]);
+    });
+
+    it('should not compensate when a fault edge handles the failure', async () => {
+      const compensation = vi.fn();
+      engine.registerCompensation('book', compensation);
+      const flow = createBookingFlow(true);
+
+      const result = await engine.execute(flow, engine.createInstance(flow));
+
+      expect(result.success).toBe(true);
+      expect(compensation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('durable execution', () => {
+    let storage: InMemoryWorkflowStorage;
+
+    beforeEach(() => {
+      storage = new InMemoryWorkflowStorage();
+      engine = new FlowEngine({ logger: silentLogger, storage });
+    });
+
+    it('should checkpoint the instance after each node', async () => {
+      const flow = createSimpleFlow();
+      const updateSpy = vi.spyOn(storage, 'updateInstance');
+      const instance = engine.createInstance(flow);
+      await engine.execute(flow, instance, { key: 'value' });
+
+      expect(updateSpy).toHaveBeenCalledTimes(3); // two transitions + completion
+      const stored = await storage.getInstance(instance.id);
+      expect(stored?.status).toBe('completed');
+      expect(stored?.variables).toEqual({ key: 'value', status: 'active' });
+    });
+
+    it('should suspend at a duration wait and resume when due', async () => {
+      const flow = createWaitFlow({ duration: '5m' });
+      const instance = engine.createInstance(flow);
+      const result = await engine.execute(flow, instance);
+
+      expect(result.success).toBe(true);
+      expect(result.instance.status).toBe('suspended');
+      expect(result.instance.currentState).toBe('n3');
+      expect(result.variables.step).toBe('before');
+
+      expect(await engine.resumeDue(new Date())).toEqual([]);
+
+      const later = new Date(Date.now() + 6 * 60_000);
+      const resumed = await engine.resumeDue(later);
+      expect(resumed).toHaveLength(1);
+      expect(resumed[0].instance.status).toBe('completed');
+      expect(resumed[0].variables.step).toBe('after');
+    });
+
+    it('should suspend until an absolute datetime from a variable', async () => {
+      const flow = createWaitFlow({ until: '{{dueDate}}' });
+      const instance = engine.createInstance(flow);
+      await engine.execute(flow, instance, { dueDate: '2030-01-01T00:00:00Z' });
+
+      const [suspended] = await engine.listSuspended();
+      expect(new Date(suspended.wait!.resumeAt!).toISOString()).toBe('2030-01-01T00:00:00.000Z');
+      expect(await engine.resumeDue(new Date('2029-12-31T23:59:59Z'))).toEqual([]);
+      expect(await engine.resumeDue(new Date('2030-01-01T00:00:00Z'))).toHaveLength(1);
+    });
+
+    it('should resume on an event with a matching correlation key', async () => {
+      const flow = createWaitFlow({ event: 'payment.received', correlationKey: '{{orderId}}' });
+      await engine.execute(flow, engine.createInstance(flow), { orderId: 'o-1' });
+      await engine.execute(flow, engine.createInstance(flow), { orderId: 'o-2' });
+
+      const results = await engine.deliverEvent('payment.received', 'o-2', { paid: true });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].variables).toMatchObject({ orderId: 'o-2', paid: true, step: 'after' });
+      const remaining = await engine.listSuspended({ event: 'payment.received' });
+      expect(remaining.map((i) => i.wait?.correlationKey)).toEqual(['o-1']);
+    });
+
+    it('should resume from storage in a new engine after a restart', async () => {
+      const flow = createWaitFlow({ event: 'approved' });
+      const instance = engine.createInstance(flow);
+      await engine.execute(flow, instance, { amount: 10 });
+
+      const restarted = new FlowEngine({ logger: silentLogger, storage });
+      restarted.registerFlow(flow);
+      const result = await restarted.resume(instance.id);
+
+      expect(result.instance.status).toBe('completed');
+      expect(result.variables).toMatchObject({ amount: 10, step: 'after' });
+      expect((await storage.getInstance(instance.id))?.status).toBe('completed');
+    });
+
+    it('should reject resuming an instance that is not suspended', async () => {
+      const flow = createSimpleFlow();
+      const instance = engine.createInstance(flow);
+      await engine.execute(flow, instance);
+
+      await expect(engine.resume(instance.id)).rejects.toThrow('is not suspended');
+    });
+
+    it('should cancel a suspended instance', async () => {
+      const flow = createWaitFlow({ duration: 1000 });
+      const instance = engine.createInstance(flow);
+      await engine.execute(flow, instance);
+
+      const cancelled = await engine.cancel(instance.id, 'No longer needed', 'admin');
+
+      expect(cancelled.status).toBe('aborted');
+      expect(cancelled.error).toBe('No longer needed');
+      expect(await engine.listSuspended()).toEqual([]);
+      expect(await engine.resumeDue(new Date(Date.now() + 5000))).toEqual([]);
+    });
+
+    it('should keep loop position across a wait inside the loop body', async () => {
+      const flow = createLoopFlow({ collection: 'ids', itemVariable: 'id' });
+      flow.nodes[2] = {
+        id: 'body',
+        type: 'wait',
+        label: 'Await',
+        config: { event: 'done', correlationKey: '{{id}}' },
+      };
+
+      const instance = engine.createInstance(flow);
+      await engine.execute(flow, instance, { ids: ['x', 'y'] });
+      expect((await engine.listSuspended())[0].wait?.correlationKey).toBe('x');
+
+      await engine.deliverEvent('done', 'x');
+      expect((await engine.listSuspended())[0].wait?.correlationKey).toBe('y');
+
+      const [result] = await engine.deliverEvent('done', 'y');
+      expect(result.instance.status).toBe('completed');
+    });
+
+    it('should reject a wait inside a parallel branch', async () => {
+      const flow = createParallelFlow();
+      flow.nodes[3] = { id: 'b', type: 'wait', label: 'B', config: { duration: '1h' } };
+
+      const result = await engine.execute(flow, engine.createInstance(flow));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('cannot suspend inside a parallel branch');
+    });
+
+    it('should suspend the parent while a subflow waits and resume it afterwards', async () => {
+      engine.registerHandler('double', async (_node, ctx) => ({
+        success: true,
+        output: { doubled: Number(ctx.variables.amount) * 2 },
+      }));
+      engine.registerFlow(createChildFlow({ event: 'ready' }));
+      const flow = createParentFlow();
+
+      const started = await engine.execute(flow, engine.createInstance(flow), { amount: 4 });
+      expect(started.instance.status).toBe('suspended');
+      const childId = started.instance.wait!.subflowInstanceId!;
+      expect((await storage.getInstance(childId))?.parent).toEqual({
+        instanceId: started.instance.id,
+        nodeId: 'call',
+      });
+
+      await engine.deliverEvent('ready');
+
+      const parent = await storage.getInstance(started.instance.id);
+      expect(parent?.status).toBe('completed');
+      expect(parent?.variables?.doubled).toBe(8);
+    });
+
+    it('should cancel the waiting subflow together with its parent', async () => {
+      engine.registerFlow(createChildFlow({ event: 'ready' }));
+      const flow = createParentFlow();
+      const started = await engine.execute(flow, engine.createInstance(flow), { amount: 4 });
+      const childId = started.instance.wait!.subflowInstanceId!;
+
+      await engine.cancel(started.instance.id, 'Stop');
+
+      expect((await storage.getInstance(childId))?.status).toBe('aborted');
+      expect(await engine.listSuspended()).toEqual([]);
+    });
+
+    it('should route the parent to its fault path when the subflow is cancelled', async () => {
+      engine.registerFlow(createChildFlow({ event: 'ready' }));
+      const flow = createParentFlow();
+      const started = await engine.execute(flow, engine.createInstance(flow), { amount: 4 });
+
+      await engine.cancel(started.instance.wait!.subflowInstanceId!, 'Stop');
+
+      const parent = await storage.getInstance(started.instance.id);
+      expect(parent?.currentState).toBe('recover');
+      expect(parent?.variables?.$Error).toMatchObject({
+        message: 'Subflow child_flow was cancelled: Stop',
+      });
+    });
+
+    it('should fail a wait node without a condition', async () => {
+      const flow = createWaitFlow({});
+      const result = await engine.execute(flow, engine.createInstance(flow));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('has no duration, until or event');
+    });
+  });
+
+  describe('versioning', () => {
+    let storage: InMemoryWorkflowStorage;
+
+    /** Version 2 renames the wait node and adds a step after it */
+    const createWaitFlowV2 = (): Flow =>
+      ({
+        ...createWaitFlow({ event: 'approved' }),
+        version: '2',
+        nodes: [
+          { id: 'n1', type: 'start', label: 'Start' },
+          { id: 'n2', type: 'assignment', label: 'Before', config: { step: 'before' } },
+          { id: 'approval', type: 'wait', label: 'Wait', config: { event: 'approved' } },
+          { id: 'n4', type: 'assignment', label: 'After', config: { step: 'after', v: 2 } },
+          { id: 'n5', type: 'end', label: 'End' },
+        ],
+        edges: [
+          { id: 'e1', source: 'n1', target: 'n2' },
+          { id: 'e2', source: 'n2', target: 'approval' },
+          { id: 'e3', source: 'approval', target: 'n4' },
+          { id: 'e4', source: 'n4', target: 'n5' },
+        ],
+      }) as Flow;
+
+    beforeEach(() => {
+      storage = new InMemoryWorkflowStorage();
+      engine = new FlowEngine({ logger: silentLogger, storage });
+    });
+
+    it('should start new instances on the active version only', async () => {
+      engine.registerFlow({ ...createWaitFlow({ event: 'approved' }), version: '1' } as Flow);
+      engine.registerFlow(createWaitFlowV2(), 'draft');
+
+      expect((await engine.start('wait_flow')).instance.version).toBe('1');
+
+      engine.activateFlow('wait_flow', '2');
+      expect(engine.listFlowVersions('wait_flow').map((v) => v.status)).toEqual([
+        'obsolete',
+        'active',
+      ]);
+      expect((await engine.start('wait_flow')).instance.version).toBe('2');
+
+      engine.obsoleteFlow('wait_flow', '2');
+      await expect(engine.start('wait_flow')).rejects.toThrow('has no active version');
+    });
+
+    it('should keep old instances on the version they started with', async () => {
+      engine.registerFlow({ ...createWaitFlow({ event: 'approved' }), version: '1' } as Flow);
+      const v1 = await engine.start('wait_flow');
+      engine.registerFlow(createWaitFlowV2());
+
+      const [resumed] = await engine.deliverEvent('approved');
+      expect(resumed.instance.id).toBe(v1.instance.id);
+      expect(resumed.instance.status).toBe('completed');
+      expect(resumed.variables.v).toBeUndefined();
+    });
+
+    it('should report a dry run without changing instances', async () => {
+      engine.registerFlow({ ...createWaitFlow({ event: 'approved' }), version: '1' } as Flow);
+      const first = await engine.start('wait_flow');
+      const second = await engine.start('wait_flow');
+      engine.registerFlow(createWaitFlowV2());
+
+      const report = await engine.migrateInstances('wait_flow', {
+        fromVersion: '1',
+        toVersion: '2',
+        nodeMap: { n3: 'approval' },
+        dryRun: true,
+      });
+
+      expect(report.migrated).toEqual([
+        { instanceId: first.instance.id, fromNodeId: 'n3', toNodeId: 'approval' },
+        { instanceId: second.instance.id, fromNodeId: 'n3', toNodeId: 'approval' },
+      ]);
+      expect(report.blocked).toEqual([]);
+      expect((await storage.getInstance(first.instance.id))?.version).toBe('1');
+    });
+
+    it('should migrate suspended instances and continue on the new version', async () => {
+      engine.registerFlow({ ...createWaitFlow({ event: 'approved' }), version: '1' } as Flow);
+      const v1 = await engine.start('wait_flow');
+      engine.registerFlow(createWaitFlowV2());
+
+      const report = await engine.migrateInstances('wait_flow', {
+        fromVersion: '1',
+        toVersion: '2',
+        nodeMap: { n3: 'approval' },
+      });
+      expect(report.migrated).toHaveLength(1);
+
+      const stored = await storage.getInstance(v1.instance.id);
+      expect(stored).toMatchObject({ version: '2', currentState: 'approval' });
+      expect(stored?.wait?.nodeId).toBe('approval');
+      expect(stored?.history.at(-1)?.transition).toBe('migrate 1→2');
+
+      const [resumed] = await engine.deliverEvent('approved');
+      expect(resumed.instance.status).toBe('completed');
+      expect(resumed.variables.v).toBe(2);
+    });
+
+    it('should block instances whose node has no counterpart', async () => {
+      engine.registerFlow({ ...createWaitFlow({ event: 'approved' }), version: '1' } as Flow);
+      const v1 = await engine.start('wait_flow');
+      engine.registerFlow(createWaitFlowV2());
+
+      const unmapped = await engine.migrateInstances('wait_flow', {
+        fromVersion: '1',
+        toVersion: '2',
+      });
+      expect(unmapped.blocked).toEqual([
+        { instanceId: v1.instance.id, nodeId: 'n3', reason: 'No node n3 in version 2' },
+      ]);
+
+      const wrongType = await engine.migrateInstances('wait_flow', {
+        fromVersion: '1',
+        toVersion: '2',
+        nodeMap: { n3: 'n4' },
+      });
+      expect(wrongType.blocked[0].reason).toBe('Node n4 is of type assignment, expected wait');
+      expect((await storage.getInstance(v1.instance.id))?.version).toBe('1');
+    });
+
+    it('should refuse to migrate to a draft version', async () => {
+      engine.registerFlow({ ...createWaitFlow({ event: 'approved' }), version: '1' } as Flow);
+      engine.registerFlow(createWaitFlowV2(), 'draft');
+
+      await expect(
+        engine.migrateInstances('wait_flow', { fromVersion: '1', toVersion: '2' }),
+      ).rejects.toThrow('Cannot migrate instances to draft version 2');
+    });
+
+    it('should keep version statuses across restarts', async () => {
+      engine.registerFlow({ ...createWaitFlow({ event: 'approved' }), version: '1' } as Flow);
+      engine.registerFlow(createWaitFlowV2());
+      await engine.flushFlowVersions();
+
+      const restarted = new FlowEngine({ logger: silentLogger, storage });
+      await restarted.loadFlowVersions();
+      restarted.registerFlow({ ...createWaitFlow({ event: 'approved' }), version: '1' } as Flow);
+      restarted.registerFlow(createWaitFlowV2());
+
+      expect(restarted.listFlowVersions('wait_flow').map((v) => v.status)).toEqual([
+        'obsolete',
+        'active',
+      ]);
+      expect((await restarted.start('wait_flow')).instance.version).toBe('2');
+    });
+
+    it('should not reactivate an obsolete version when executing it after a restart', async () => {
+      const v1 = { ...createWaitFlow({ event: 'approved' }), version: '1' } as Flow;
+      engine.registerFlow(v1);
+      engine.registerFlow(createWaitFlowV2());
+      await engine.flushFlowVersions();
+
+      const restarted = new FlowEngine({ logger: silentLogger, storage });
+      await restarted.execute(v1, restarted.createInstance(v1));
+      await restarted.flushFlowVersions();
+
+      expect(restarted.listFlowVersions('wait_flow')[0].status).toBe('obsolete');
+      expect((await storage.listFlowVersions()).map((v) => v.status)).toEqual([
+        'obsolete',
+        'active',
+      ]);
+    });
+  });
+
+  describe('parseDuration()', () => {
+    it('should parse numbers and unit strings', () => {
+      expect(parseDuration(250)).toBe(250);
+      expect(parseDuration('30s')).toBe(30_000);
+      expect(parseDuration('2h')).toBe(7_200_000);
+      expect(parseDuration('1d')).toBe(86_400_000);
+      expect(() => parseDuration('soon')).toThrow('Invalid duration');
+    });
+  });
 });
@@ -0,0 +1,42 @@
+/**
+ * ObjectQL Workflow Storage Tests
+ */
+
+import { ObjectQLWorkflowStorage } from '../src/objectql-storage.js';
+
+describe('ObjectQLWorkflowStorage', () => {
+  let broker: { call: ReturnType<typeof vi.fn> };
+  let storage: ObjectQLWorkflowStorage;
+
+  beforeEach(() => {
+    broker = { call: vi.fn().mockResolvedValue([]) };
+    storage = new ObjectQLWorkflowStorage({ broker } as any);
+  });
+
+  it('should map the subflow call stack when updating an instance', async () => {
+    const callStack = ['parent-1'];
+
+    await storage.updateInstance('inst-1', { currentState: 'sub', callStack });
+
+    const [, params] = broker.call.mock.calls[0];
+    expect(params.doc).toMatchObject({ current_state: 'sub', call_stack: callStack });
+    expect(params.doc).not.toHaveProperty('callStack');
+  });
+
+  it('should update the saved state of a known flow version', async () => {
+    broker.call.mockResolvedValueOnce([{ id: 'fv-1', flow_name: 'flow', version: '1' }]);
+
+    await storage.saveFlowVersion({
+      name: 'flow',
+      version: '1',
+      status: 'obsolete',
+      registeredAt: new Date(),
+    });
+
+    expect(broker.call).toHaveBeenLastCalledWith('data.update', {
+      object: 'workflow_flow_version',
+      id: 'fv-1',
+      doc: expect.objectContaining({ flow_name: 'flow', version: '1', status: 'obsolete' }),
+    });
+  });
+});
@@ -7,7 +7,7 @@
 import { WorkflowPlugin, getWorkflowAPI } from '../src/plugin.js';
 import { InMemoryWorkflowStorage } from '../src/storage.js';
 import type { PluginContext } from '@objectstack/runtime';
-import type { WorkflowDefinition } from '../src/types.js';
+import type { Flow, WorkflowDefinition } from '../src/types.js';
 
 describe('Workflow Plugin', () => {
   let plugin: WorkflowPlugin;
@@ -194,6 +194,75 @@ describe('Workflow Plugin', () => {
     });
   });
 
+  describe('flow executions', () => {
+    const waitFlow = {
+      name: 'await_payment',
+      label: 'Await Payment',
+      type: 'autolaunched',
+      nodes: [
+        { id: 'start', type: 'start', label: 'Start' },
+        {
+          id: 'wait',
+          type: 'wait',
+          label: 'Wait',
+          config: { event: 'payment.received', correlationKey: '{{orderId}}' },
+        },
+        { id: 'end', type: 'end', label: 'End' },
+      ],
+      edges: [
+        { id: 'e1', source: 'start', target: 'wait' },
+        { id: 'e2', source: 'wait', target: 'end' },
+      ],
+    } as Flow;
+
+    it('should resume suspended flows from the workflow.event hook', async () => {
+      await plugin.init(mockContext);
+      plugin.registerFlow(waitFlow);
+      const started = await plugin.startFlow('await_payment', { orderId: 'o-1' });
+      expect(started.instance.status).toBe('suspended');
+      expect(await plugin.listSuspendedFlows()).toHaveLength(1);
+
+      const hookCallback = (mockContext.hook as any).mock.calls.find(
+        (call: any[]) => call[0] === 'workflow.event',
+      )[1];
+      await hookCallback({
+        event: 'payment.received',
+        correlationKey: 'o-1',
+        data: { paid: true },
+      });
+
+      expect(await plugin.listSuspendedFlows()).toHaveLength(0);
+    });
+
+    it('should schedule timer resumption with the jobs service', async () => {
+      const jobs = { schedule: vi.fn() };
+      (mockContext as any).getService = vi.fn((name: string) => {
+        if (name === 'job') return jobs;
+        throw new Error(`Service ${name} not found`);
+      });
+
+      await plugin.init(mockContext);
+      await plugin.start(mockContext);
+
+      expect(jobs.schedule).toHaveBeenCalledWith(
+        'workflow_flow_resume',
+        { type: 'cron', expression: '* * * * *' },
+        expect.any(Function),
+      );
+    });
+
+    it('should cancel a suspended flow', async () => {
+      await plugin.init(mockContext);
+      plugin.registerFlow(waitFlow);
+      const started = await plugin.startFlow('await_payment', { orderId: 'o-2' });
+
+      const cancelled = await plugin.cancelFlow(started.instance.id, 'Order voided');
+
+      expect(cancelled.status).toBe('aborted');
+      await expect(plugin.resumeFlow(started.instance.id)).rejects.toThrow('is not suspended');
+    });
+  });
+
   describe('plugin configuration', () => {
     it('should accept custom configuration', async () => {
       const customPlugin = new WorkflowPlugin({
@@ -0,0 +1,330 @@
+import { FlowEngine } from '../src/flow-engine.js';
+import { WorkflowEngine } from '../src/engine.js';
+import {
+  createActionCatalog,
+  registerFlowActions,
+  toTransitionAction,
+  type ActionDataService,
+  type ActionRuntime,
+} from '../src/stdlib.js';
+import type { Flow, WorkflowDefinition } from '../src/types.js';
+
+function createDataService(): ActionDataService {
+  let nextId = 1;
+  return {
+    create: vi.fn(async (_object, doc) => ({ id: `rec_${nextId++}`, ...doc })),
+    update: vi.fn(async () => ({})),
+    delete: vi.fn(async () => ({})),
+    get: vi.fn(async (_object, id) => ({ id, name: 'Acme' })),
+    find: vi.fn(async () => [{ id: 'a1' }, { id: 'a2' }]),
+  };
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText: status >= 400 ? 'Error' : 'OK',
+  });
+}
+
+const scope = () => ({
+  instanceId: 'inst_1',
+  variables: {},
+  setVariable: vi.fn(),
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+});
+
+describe('Standard action catalog', () => {
+  let data: ActionDataService;
+  let runtime: ActionRuntime;
+
+  beforeEach(() => {
+    data = createDataService();
+    runtime = {
+      data,
+      notification: {
+        send: vi.fn().mockResolvedValue({ success: true, messageId: 'msg_1' }),
+        getTemplate: vi.fn(async (id: string) =>
+          id === 'welcome' ? { subject: 'Hi {{name}}', body: '<p>Welcome {{name}}</p>' } : null,
+        ),
+      },
+      fetch: vi.fn(),
+      resolveSecret: (name) => (name === 'CRM_TOKEN' ? 'secret-token' : undefined),
+    };
+  });
+
+  describe('records', () => {
+    it('should create, update by filter and delete records through the data service', async () => {
+      const catalog = createActionCatalog(runtime);
+
+      const created = await catalog.create_record(
+        { objectName: 'account', fields: { name: 'Acme' } },
+        scope(),
+      );
+      expect(created).toMatchObject({ object: 'account', id: 'rec_1' });
+
+      await catalog.update_record(
+        { object: 'contact', filter: { account: 'rec_1' }, fields: { status: 'active' } },
+        scope(),
+      );
+      expect(data.update).toHaveBeenCalledWith('contact', 'a1', { status: 'active' });
+      expect(data.update).toHaveBeenCalledWith('contact', 'a2', { status: 'active' });
+
+      await catalog.delete_record({ object: 'account', id: 'rec_1' }, scope());
+      expect(data.delete).toHaveBeenCalledWith('account', 'rec_1');
+    });
+
+    it('should fail when the data service is missing', async () => {
+      const catalog = createActionCatalog({});
+      await expect(
+        catalog.create_record({ object: 'account', fields: {} }, scope()),
+      ).rejects.toThrow('Action create_record requires the data service');
+    });
+  });
+
+  describe('notifications', () => {
+    it('should send a stored template with workflow data', async () => {
+      const catalog = createActionCatalog(runtime);
+      const actionScope = { ...scope(), variables: { name: 'Ada' } };
+
+      const result = await catalog.send_email(
+        { to: 'ada@example.com', template: 'welcome' },
+        actionScope,
+      );
+
+      expect(result).toEqual({ messageId: 'msg_1' });
+      expect(runtime.notification!.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: 'email',
+          recipient: 'ada@example.com',
+          subject: 'Hi Ada',
+          template: '<p>Welcome {{name}}</p>',
+          data: { name: 'Ada' },
+        }),
+      );
+    });
+
+    it('should pass channel options to in-app notifications', async () => {
+      const catalog = createActionCatalog(runtime);
+
+      await catalog.send_notification(
+        {
+          channel: 'in-app',
+          to: 'usr_1',
+          subject: 'Invoice approved',
+          options: { link: { object: 'invoice', recordId: 'inv_1' }, category: 'approval' },
+        },
+        scope(),
+      );
+
+      expect(runtime.notification!.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: 'in-app',
+          recipient: 'usr_1',
+          options: { link: { object: 'invoice', recordId: 'inv_1' }, category: 'approval' },
+        }),
+      );
+    });
+
+    it('should pass the user, category and priority preferences apply to', async () => {
+      const catalog = createActionCatalog(runtime);
+
+      await catalog.send_notification(
+        {
+          channel: 'email',
+          to: 'ada@example.com',
+          subject: 'Weekly report',
+          userId: 'usr_1',
+          category: 'reports',
+          priority: 'low',
+        },
+        scope(),
+      );
+
+      expect(runtime.notification!.send).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'usr_1', category: 'reports', priority: 'low' }),
+      );
+    });
+
+    it('should surface delivery failures', async () => {
+      runtime.notification!.send = vi.fn().mockResolvedValue({ success: false, error: 'bounced' });
+      const catalog = createActionCatalog(runtime);
+
+      await expect(
+        catalog.send_notification({ channel: 'sms', to: '+15550100', body: 'Hi' }, scope()),
+      ).rejects.toThrow('Failed to send sms notification: bounced');
+    });
+  });
+
+  describe('http', () => {
+    it('should add secret-referenced auth headers and parse JSON responses', async () => {
+      vi.mocked(runtime.fetch!).mockResolvedValue(jsonResponse(201, { id: 'ext_1' }));
+      const catalog = createActionCatalog(runtime);
+
+      const result = await catalog.http_request(
+        {
+          url: 'https://api.example.com/leads',
+          method: 'post',
+          body: { name: 'Acme' },
+          auth: { type: 'bearer', secret: 'CRM_TOKEN' },
+        },
+        scope(),
+      );
+
+      expect(result).toEqual({ status: 201, body: { id: 'ext_1' } });
+      const [, init] = vi.mocked(runtime.fetch!).mock.calls[0];
+      expect(init).toMatchObject({
+        method: 'POST',
+        body: '{"name":"Acme"}',
+        headers: { Authorization: 'Bearer secret-token', 'Content-Type': 'application/json' },
+      });
+    });
+
+    it('should retry server errors and give up on client errors', async () => {
+      vi.mocked(runtime.fetch!)
+        .mockResolvedValueOnce(jsonResponse(503, {}))
+        .mockResolvedValueOnce(jsonResponse(200, { ok: true }))
+        .mockResolvedValueOnce(jsonResponse(404, {}));
+      const catalog = createActionCatalog(runtime);
+      const params = { url: 'https://api.example.com', retries: 2, retryDelayMs: 0 };
+
+      await expect(catalog.http_request(params, scope())).resolves.toMatchObject({ status: 200 });
+      await expect(catalog.http_request(params, scope())).rejects.toThrow('HTTP 404: Error');
+      expect(runtime.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject unknown secrets', async () => {
+      const catalog = createActionCatalog(runtime);
+      await expect(
+        catalog.http_request(
+          { url: 'https://api.example.com', auth: { type: 'bearer', secret: 'MISSING' } },
+          scope(),
+        ),
+      ).rejects.toThrow('Secret MISSING is not defined');
+      expect(runtime.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should only read prefixed environment variables without a secret resolver', async () => {
+      process.env.DATABASE_URL_TEST = 'postgres://secret';
+      process.env.WORKFLOW_SECRET_CRM = 'env-token';
+      vi.mocked(runtime.fetch!).mockResolvedValue(jsonResponse(200, {}));
+      const catalog = createActionCatalog({ fetch: runtime.fetch });
+
+      try {
+        await expect(
+          catalog.http_request(
+            {
+              url: 'https://evil.example.com',
+              auth: { type: 'bearer', secret: 'DATABASE_URL_TEST' },
+            },
+            scope(),
+          ),
+        ).rejects.toThrow('Secret DATABASE_URL_TEST must be named WORKFLOW_SECRET_*');
+        expect(runtime.fetch).not.toHaveBeenCalled();
+
+        await catalog.http_request(
+          {
+            url: 'https://api.example.com',
+            auth: { type: 'bearer', secret: 'WORKFLOW_SECRET_CRM' },
+          },
+          scope(),
+        );
+        const [, init] = vi.mocked(runtime.fetch!).mock.calls[0];
+        expect(init).toMatchObject({ headers: { Authorization: 'Bearer env-token' } });
+      } finally {
+        delete process.env.DATABASE_URL_TEST;
+        delete process.env.WORKFLOW_SECRET_CRM;
+      }
+    });
+  });
+
+  describe('engine adapters', () => {
+    it('should mirror legacy update_record fields into workflow data', async () => {
+      const engine = new WorkflowEngine({ info: vi.fn(), warn: vi.fn(), error: vi.fn() });
+      engine.registerAction(
+        'update_record',
+        toTransitionAction(createActionCatalog(runtime).update_record),
+      );
+      const definition: WorkflowDefinition = {
+        id: 'approval',
+        name: 'Approval',
+        version: '1.0.0',
+        type: 'sequential',
+        initialState: 'approved',
+        states: {
+          approved: {
+            name: 'approved',
+            initial: true,
+            final: true,
+            onEnter: [{ type: 'update_record', params: { status: 'approved', by: '{{owner}}' } }],
+          },
+        },
+      };
+
+      const instance = engine.createInstance(definition, {
+        object: 'expense',
+        recordId: 'exp_1',
+        owner: 'u1',
+      });
+      await engine.startInstance(instance, definition);
+
+      expect(data.update).toHaveBeenCalledWith('expense', 'exp_1', {
+        status: 'approved',
+        by: 'u1',
+      });
+      expect(instance.data).toMatchObject({ status: 'approved', by: 'u1' });
+    });
+
+    it('should run catalog actions as flow nodes and compensate created records', async () => {
+      const flowEngine = new FlowEngine({ logger: { ...scope().logger, debug: vi.fn() } });
+      registerFlowActions(flowEngine, createActionCatalog(runtime));
+      flowEngine.registerHandler('script', async () => ({ success: false, error: 'boom' }));
+
+      const flow = {
+        name: 'onboard',
+        label: 'Onboard',
+        type: 'autolaunched',
+        nodes: [
+          { id: 'start', type: 'start', label: 'Start' },
+          {
+            id: 'create_account',
+            type: 'create_record',
+            label: 'Create Account',
+            config: { objectName: 'account', fields: { name: '{{company}}' } },
+          },
+          {
+            id: 'notify',
+            type: 'connector_action',
+            label: 'Notify',
+            config: {
+              actionId: 'send_email',
+              input: { to: '{{email}}', subject: 'Account {{create_account.id}}' },
+            },
+          },
+          { id: 'fail', type: 'script', label: 'Fail' },
+          { id: 'end', type: 'end', label: 'End' },
+        ],
+        edges: [
+          { id: 'e1', source: 'start', target: 'create_account' },
+          { id: 'e2', source: 'create_account', target: 'notify' },
+          { id: 'e3', source: 'notify', target: 'fail' },
+          { id: 'e4', source: 'fail', target: 'end' },
+        ],
+      } as unknown as Flow;
+
+      const instance = flowEngine.createInstance(flow);
+      const result = await flowEngine.execute(flow, instance, {
+        company: 'Acme',
+        email: 'ops@acme.test',
+      });
+
+      expect(data.create).toHaveBeenCalledWith('account', { name: 'Acme' });
+      expect(runtime.notification!.send).toHaveBeenCalledWith(
+        expect.objectContaining({ recipient: 'ops@acme.test', subject: 'Account rec_1' }),
+      );
+      expect(result.success).toBe(false);
+      expect(result.compensated).toEqual(['create_account']);
+      expect(data.delete).toHaveBeenCalledWith('account', 'rec_1');
+    });
+  });
+});
@@ -331,6 +331,27 @@ describe('InMemoryWorkflowStorage', () => {
     });
   });
 
+  describe('flow versions', () => {
+    it('should save and list flow version states', async () => {
+      const registeredAt = new Date();
+      await storage.saveFlowVersion({ name: 'flow', version: '1', status: 'active', registeredAt });
+      await storage.saveFlowVersion({
+        name: 'flow',
+        version: '1',
+        status: 'obsolete',
+        registeredAt,
+      });
+      await storage.saveFlowVersion({ name: 'flow', version: '2', status: 'active', registeredAt });
+
+      const states = await storage.listFlowVersions();
+
+      expect(states.map((s) => [s.version, s.status])).toEqual([
+        ['1', 'obsolete'],
+        ['2', 'active'],
+      ]);
+    });
+  });
+
   describe('clear', () => {
     it('should clear all data', async () => {
       await storage.saveDefinition(definition);